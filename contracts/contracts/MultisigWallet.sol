@@ -3,13 +3,22 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import "./guards/ITransactionGuard.sol";
 
 /**
  * @title MultisigWallet
  * @dev Core multisig wallet implementation with upgradeable proxy pattern
  * @notice This is the implementation contract used by all proxy instances
  */
-contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
+// Deployed vaults can only append storage, so the state count grows with each upgrade
+// solhint-disable-next-line max-states-count
+contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable, IERC721Receiver, IERC1155Receiver {
     // Custom errors (gas efficient)
     error NotAnOwner();
     error OnlySelf();
@@ -25,7 +34,7 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     error InvalidDestinationAddress();
     error TransactionAlreadyExists();
     error AlreadyApproved();
-    error TransactionExecutionFailed();
+    error TransactionExecutionFailed(bytes returnData);
     error TransactionHasBeenCancelled();
     error NotEnoughApprovals();
     error NotApproved();
@@ -37,10 +46,38 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     error ModuleAlreadyEnabled();
     error ModuleNotEnabled();
     error ModuleCannotModifyModulePermissions();
+    error InvalidSignatureLength();
+    error NotEnoughSignatures();
+    error SignerNotAnOwner();
+    error DuplicateSigner();
+    error SignersNotInAscendingOrder();
+    error EmptyBatch();
+    error BatchCallFailed(uint256 index, bytes returnData);
+    error InvalidExpiration();
+    error TransactionExpired();
+    error InvalidGuardAddress();
+    error InvalidImplementationAddress();
+    error MemoTooLong();
+    error InvalidOwnerWeight();
+    error WeightsLengthMismatch();
 
     /// @notice Maximum number of owners allowed (prevents DoS from gas-intensive loops)
     uint256 public constant MAX_OWNERS = 50;
 
+    /// @notice Maximum voting weight of a single owner (keeps summed weights far from overflow)
+    uint256 public constant MAX_OWNER_WEIGHT = 1_000_000;
+
+    /// @notice Maximum length of a proposal memo in bytes
+    uint256 public constant MAX_MEMO_LENGTH = 1024;
+
+    /// @notice EIP-712 typehash of the wallet's signing domain
+    bytes32 public constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice EIP-712 typehash of a transaction signed off-chain by an owner
+    bytes32 public constant TRANSACTION_TYPEHASH =
+        keccak256("MultisigTransaction(address to,uint256 value,bytes data,uint256 nonce)");
+
     /// @notice Structure representing a multisig transaction
     /// @dev Stores all transaction details including approval state
     struct Transaction {
@@ -54,12 +91,37 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         bool executed;
         /// @notice Whether the transaction has been cancelled
         bool cancelled;
-        /// @notice Current number of owner approvals
+        /// @notice Number of approvals recorded for this transaction
+        /// @dev Not reduced when an approving owner is removed; threshold checks use getApprovalCount
         uint256 numApprovals;
         /// @notice Block timestamp when transaction was proposed
         uint256 timestamp;
         /// @notice Address of the owner who proposed the transaction
         address proposer;
+        /// @notice Timestamp after which the transaction can no longer be executed (0 = no expiry)
+        uint256 validUntil;
+    }
+
+    /// @notice Structure representing a single call inside a batch
+    /// @dev Used by multiSend to run several calls atomically from one proposal
+    struct Call {
+        /// @notice Destination address for the call
+        address to;
+        /// @notice Amount of QUAI to send
+        uint256 value;
+        /// @notice Calldata to execute at destination
+        bytes data;
+    }
+
+    /// @notice Structure identifying an NFT received through a safe transfer
+    /// @dev Recorded by the token receiver callbacks so holdings can be listed without event logs
+    struct ReceivedNft {
+        /// @notice Token contract address
+        address token;
+        /// @notice Token id
+        uint256 tokenId;
+        /// @notice Whether the token is ERC-1155 (ERC-721 otherwise)
+        bool isERC1155;
     }
 
     /// @notice Mapping of address to owner status
@@ -70,8 +132,9 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     /// @dev Used for iteration when needed (e.g., clearing approvals), kept in sync with isOwner mapping
     address[] public owners;
 
-    /// @notice Number of approvals required to execute a transaction
-    /// @dev Must satisfy: 1 <= threshold <= owners.length
+    /// @notice Summed owner weight required to execute a transaction
+    /// @dev Must satisfy: 1 <= threshold <= getTotalWeight(). With every owner at weight 1
+    ///      (the default) this is a plain count of approvals.
     uint256 public threshold;
 
     /// @notice Transaction nonce used for hash generation
@@ -90,6 +153,57 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     /// @dev Modules can execute transactions via execTransactionFromModule but cannot modify module permissions
     mapping(address => bool) public modules;
 
+    /// @notice Active transaction guard (address(0) when none is set)
+    /// @dev Consulted before and after every execution path, including module executions
+    address public guard;
+
+    /// @notice Hashes of all recorded transactions in proposal order (oldest first)
+    /// @dev Lets clients page through the full history without scanning event logs
+    bytes32[] internal txHashes;
+
+    /// @notice Array of all enabled module addresses
+    /// @dev Used for enumeration, kept in sync with modules mapping
+    address[] internal moduleList;
+
+    /// @notice Optional description attached to a proposal
+    /// @dev Free text or a content hash (e.g. an IPFS CID) pointing at a longer document
+    mapping(bytes32 => string) public memos;
+
+    /// @notice Voting weight of each owner
+    /// @dev 0 means the default weight of 1, so owners of wallets created before weights existed
+    ///      keep counting once. Read through getOwnerWeight.
+    mapping(address => uint256) internal ownerWeights;
+
+    /// @notice Timestamp of the last proposal or approval made by an owner
+    /// @dev Lets modules such as InheritanceModule detect inactive owners. 0 until the first
+    ///      owner action on vaults created or upgraded before this was tracked.
+    uint256 public lastOwnerActivity;
+
+    /// @notice NFTs received through safe transfers, in order of first receipt
+    /// @dev Only tokens the wallet held on receipt are added. Entries are never removed,
+    ///      so clients confirm each token is still held.
+    ///      Empty for tokens received before the vault was upgraded to record them.
+    ReceivedNft[] internal receivedNfts;
+
+    /// @notice Whether a token contract and id pair is already in receivedNfts
+    /// @dev Keyed by keccak256(token, tokenId) so repeat transfers are recorded once
+    mapping(bytes32 => bool) internal nftRecorded;
+
+    /// @notice Number of times each address has been removed as an owner
+    /// @dev Bumped on removal so approvals cast before it stay void if the address is re-added
+    mapping(address => uint256) internal ownerGenerations;
+
+    /// @notice Owner generation each approval was cast under
+    /// @dev An approval only counts while this matches ownerGenerations. Approvals cast
+    ///      before this was tracked read as generation 0, which still matches owners who
+    ///      have never been removed.
+    mapping(bytes32 => mapping(address => uint256)) internal approvalGenerations;
+
+    /// @notice Enabled modules allowed to propose, execute and cancel transactions
+    /// @dev Granted separately from modules, so enabling a module for execTransactionFromModule
+    ///      does not let it drive the proposal flow. Cleared when the module is disabled.
+    mapping(address => bool) public relayModules;
+
     /// @notice Emitted when a new transaction is proposed
     /// @param txHash Unique hash identifying the transaction
     /// @param proposer Address of the owner who proposed the transaction
@@ -104,6 +218,14 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         bytes data
     );
 
+    /// @notice Emitted when a proposal is created with a memo
+    /// @param txHash Hash of the proposed transaction
+    /// @param memo Description or content hash attached by the proposer
+    event TransactionMemo(
+        bytes32 indexed txHash,
+        string memo
+    );
+
     /// @notice Emitted when an owner approves a transaction
     /// @param txHash Hash of the approved transaction
     /// @param approver Address of the owner who approved
@@ -120,6 +242,15 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         address indexed executor
     );
 
+    /// @notice Emitted when a call made by tryExecuteTransaction fails
+    /// @dev The proposal stays pending, so it can be retried once the failure is resolved
+    /// @param txHash Hash of the transaction
+    /// @param returnData Revert data returned by the failed call
+    event ExecutionFailure(
+        bytes32 indexed txHash,
+        bytes returnData
+    );
+
     /// @notice Emitted when an owner revokes their approval
     /// @param txHash Hash of the transaction
     /// @param owner Address of the owner who revoked approval
@@ -148,6 +279,11 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     /// @param threshold New threshold value
     event ThresholdChanged(uint256 threshold);
 
+    /// @notice Emitted when an owner's voting weight is set
+    /// @param owner Owner address
+    /// @param weight New voting weight
+    event OwnerWeightChanged(address indexed owner, uint256 weight);
+
     /// @notice Emitted when a module is enabled
     /// @param module Address of the enabled module
     event ModuleEnabled(address indexed module);
@@ -156,20 +292,53 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     /// @param module Address of the disabled module
     event ModuleDisabled(address indexed module);
 
+    /// @notice Emitted when a module is allowed or no longer allowed to drive proposals
+    /// @param module Address of the module
+    /// @param allowed Whether the module can propose, execute and cancel
+    event ModuleRelayChanged(address indexed module, bool allowed);
+
+    /// @notice Emitted when the transaction guard is set or removed
+    /// @param guard Address of the new guard (address(0) when removed)
+    event GuardChanged(address indexed guard);
+
     /// @notice Emitted when the wallet receives QUAI
     /// @param sender Address that sent the QUAI
     /// @param amount Amount of QUAI received
     event Received(address indexed sender, uint256 amount);
 
+    /// @notice Emitted when the wallet accepts an ERC-721 token via safeTransferFrom
+    /// @param token Address of the ERC-721 contract
+    /// @param from Previous owner of the token
+    /// @param tokenId Identifier of the received token
+    event ERC721Received(address indexed token, address indexed from, uint256 tokenId);
+
+    /// @notice Emitted when the wallet accepts ERC-1155 tokens via safeTransferFrom or safeBatchTransferFrom
+    /// @param token Address of the ERC-1155 contract
+    /// @param from Previous holder of the tokens
+    /// @param id Identifier of the received token type
+    /// @param amount Number of tokens received
+    event ERC1155Received(address indexed token, address indexed from, uint256 id, uint256 amount);
+
+    // Modifiers call internal check functions rather than inlining the checks into every
+    // function that uses them, which keeps MultisigWallet under the 24KB contract size limit
+
     /// @notice Restricts function access to wallet owners only
     modifier onlyOwner() {
-        if (!isOwner[msg.sender]) revert NotAnOwner();
+        _checkOwner();
+        _;
+    }
+
+    /// @notice Restricts function access to wallet owners and relay modules
+    /// @dev Lets modules such as RolesModule propose, execute and cancel on behalf of scoped
+    ///      accounts. Other enabled modules are rejected, see setModuleRelay.
+    modifier onlyOwnerOrRelayModule() {
+        if (!isOwner[msg.sender] && !relayModules[msg.sender]) revert NotAnOwner();
         _;
     }
 
     /// @notice Restricts function access to the wallet itself (for multisig-approved actions)
     modifier onlySelf() {
-        if (msg.sender != address(this)) revert OnlySelf();
+        _checkSelf();
         _;
     }
 
@@ -182,21 +351,29 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     /// @notice Ensures the specified transaction exists
     /// @param txHash Transaction hash to check
     modifier txExists(bytes32 txHash) {
-        if (transactions[txHash].to == address(0)) revert TransactionDoesNotExist();
+        _checkExists(txHash);
         _;
     }
 
     /// @notice Ensures the specified transaction has not been executed
     /// @param txHash Transaction hash to check
     modifier notExecuted(bytes32 txHash) {
-        if (transactions[txHash].executed) revert TransactionAlreadyExecuted();
+        _checkNotExecuted(txHash);
         _;
     }
 
     /// @notice Ensures the specified transaction has not been cancelled
     /// @param txHash Transaction hash to check
     modifier notCancelled(bytes32 txHash) {
-        if (transactions[txHash].cancelled) revert TransactionAlreadyCancelled();
+        _checkNotCancelled(txHash);
+        _;
+    }
+
+    /// @notice Ensures the specified transaction has not passed its expiry
+    /// @param txHash Transaction hash to check
+    modifier notExpired(bytes32 txHash) {
+        uint256 validUntil = transactions[txHash].validUntil;
+        if (validUntil != 0 && block.timestamp > validUntil) revert TransactionExpired();
         _;
     }
 
@@ -214,9 +391,67 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         address[] memory _owners,
         uint256 _threshold
     ) external initializer {
+        _initialize(_owners, new uint256[](0), _threshold);
+    }
+
+    /**
+     * @notice Initialize the multisig wallet with weighted owners
+     * @param _owners Array of owner addresses
+     * @param _weights Voting weight of each owner (1 to MAX_OWNER_WEIGHT)
+     * @param _threshold Summed weight required to execute a transaction
+     */
+    function initializeWithWeights(
+        address[] memory _owners,
+        uint256[] memory _weights,
+        uint256 _threshold
+    ) external initializer {
+        if (_weights.length != _owners.length) revert WeightsLengthMismatch();
+        _initialize(_owners, _weights, _threshold);
+    }
+
+    /**
+     * @notice Initialize the multisig wallet and enable and configure modules atomically
+     * @dev Modules are enabled before the setup calls run, so module configuration that
+     *      requires msg.sender == wallet (setDailyLimit, setupRecovery, ...) succeeds here
+     *      without going through a proposal. Any failing setup call reverts the deployment.
+     * @param _owners Array of owner addresses
+     * @param _weights Voting weight of each owner (empty = every owner has weight 1)
+     * @param _threshold Summed weight required to execute a transaction
+     * @param _modules Modules to enable
+     * @param _setupCalls Calls the wallet makes once its modules are enabled
+     */
+    function initializeWithSetup(
+        address[] memory _owners,
+        uint256[] memory _weights,
+        uint256 _threshold,
+        address[] memory _modules,
+        Call[] memory _setupCalls
+    ) external initializer {
+        if (_weights.length != 0 && _weights.length != _owners.length) revert WeightsLengthMismatch();
+        _initialize(_owners, _weights, _threshold);
+
+        for (uint256 i = 0; i < _modules.length; i++) {
+            _enableModule(_modules[i]);
+        }
+
+        if (_setupCalls.length != 0) {
+            _multiSend(_setupCalls);
+        }
+    }
+
+    /**
+     * @notice Internal function to set up owners, weights and threshold
+     * @param _owners Array of owner addresses
+     * @param _weights Voting weight of each owner (empty = every owner has weight 1)
+     * @param _threshold Summed weight required to execute a transaction
+     */
+    function _initialize(
+        address[] memory _owners,
+        uint256[] memory _weights,
+        uint256 _threshold
+    ) internal {
         if (_owners.length == 0) revert OwnersRequired();
         if (_owners.length > MAX_OWNERS) revert TooManyOwners();
-        if (_threshold == 0 || _threshold > _owners.length) revert InvalidThreshold();
 
         __ReentrancyGuard_init();
 
@@ -229,8 +464,15 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
 
             isOwner[owner] = true;
             owners.push(owner);
+
+            if (_weights.length != 0) {
+                if (_weights[i] == 0 || _weights[i] > MAX_OWNER_WEIGHT) revert InvalidOwnerWeight();
+                ownerWeights[owner] = _weights[i];
+            }
         }
 
+        if (_threshold == 0 || _threshold > getTotalWeight()) revert InvalidThreshold();
+
         threshold = _threshold;
         nonce = 0;
     }
@@ -246,7 +488,72 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         address to,
         uint256 value,
         bytes memory data
-    ) external onlyOwner returns (bytes32) {
+    ) external onlyOwnerOrRelayModule returns (bytes32) {
+        return _proposeTransaction(to, value, data, 0);
+    }
+
+    /**
+     * @notice Propose a new transaction that can only be executed until a deadline
+     * @dev Approvals collected for an expired proposal can no longer be used; the proposal
+     *      stays pending until it is cancelled
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @param validUntil Timestamp after which execution is rejected
+     * @return txHash The transaction hash
+     */
+    function proposeTransactionWithExpiry(
+        address to,
+        uint256 value,
+        bytes memory data,
+        uint256 validUntil
+    ) external onlyOwnerOrRelayModule returns (bytes32) {
+        if (validUntil <= block.timestamp) revert InvalidExpiration();
+        return _proposeTransaction(to, value, data, validUntil);
+    }
+
+    /**
+     * @notice Propose a new transaction with a memo explaining why it exists
+     * @dev The memo is stored on-chain so approvers can read it alongside the call
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @param validUntil Timestamp after which execution is rejected (0 = no expiry)
+     * @param memo Description or content hash, at most MAX_MEMO_LENGTH bytes
+     * @return txHash The transaction hash
+     */
+    function proposeTransactionWithMemo(
+        address to,
+        uint256 value,
+        bytes memory data,
+        uint256 validUntil,
+        string calldata memo
+    ) external onlyOwnerOrRelayModule returns (bytes32 txHash) {
+        if (validUntil != 0 && validUntil <= block.timestamp) revert InvalidExpiration();
+        if (bytes(memo).length > MAX_MEMO_LENGTH) revert MemoTooLong();
+
+        txHash = _proposeTransaction(to, value, data, validUntil);
+
+        if (bytes(memo).length > 0) {
+            memos[txHash] = memo;
+            emit TransactionMemo(txHash, memo);
+        }
+    }
+
+    /**
+     * @notice Internal function to record a new proposal
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @param validUntil Timestamp after which execution is rejected (0 = no expiry)
+     * @return txHash The transaction hash
+     */
+    function _proposeTransaction(
+        address to,
+        uint256 value,
+        bytes memory data,
+        uint256 validUntil
+    ) internal returns (bytes32) {
         if (to == address(0)) revert InvalidDestinationAddress();
 
         bytes32 txHash = getTransactionHash(to, value, data, nonce);
@@ -268,6 +575,7 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
             for (uint256 i = 0; i < owners.length; i++) {
                 approvals[txHash][owners[i]] = false;
             }
+            delete memos[txHash];
         }
 
         // Create or overwrite transaction (if it was cancelled)
@@ -279,9 +587,19 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
             cancelled: false,
             numApprovals: 0,
             timestamp: block.timestamp,
-            proposer: msg.sender
+            proposer: msg.sender,
+            validUntil: validUntil
         });
 
+        if (!isOverwritingCancelled) {
+            txHashes.push(txHash);
+        }
+
+        // Proposals relayed by modules (e.g. RolesModule) are not owner activity
+        if (isOwner[msg.sender]) {
+            lastOwnerActivity = block.timestamp;
+        }
+
         // Increment nonce on proposal to prevent hash collisions
         // This ensures each proposal gets a unique hash even if cancelled and re-proposed
         nonce++;
@@ -302,10 +620,11 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         notExecuted(txHash)
         notCancelled(txHash)
     {
-        if (approvals[txHash][msg.sender]) revert AlreadyApproved();
+        if (_isApproved(txHash, msg.sender)) revert AlreadyApproved();
 
-        approvals[txHash][msg.sender] = true;
+        _recordApproval(txHash, msg.sender);
         transactions[txHash].numApprovals++;
+        lastOwnerActivity = block.timestamp;
 
         emit TransactionApproved(txHash, msg.sender);
     }
@@ -322,59 +641,27 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         txExists(txHash)
         notExecuted(txHash)
         notCancelled(txHash)
+        notExpired(txHash)
         nonReentrant
         returns (bool executed)
     {
         // First, approve if not already approved
-        if (!approvals[txHash][msg.sender]) {
-            approvals[txHash][msg.sender] = true;
+        if (!_isApproved(txHash, msg.sender)) {
+            _recordApproval(txHash, msg.sender);
             transactions[txHash].numApprovals++;
             emit TransactionApproved(txHash, msg.sender);
         }
+        lastOwnerActivity = block.timestamp;
 
-        // Check if threshold is met
+        // Check if threshold is met (only current owners' approvals count)
         Transaction storage transaction = transactions[txHash];
-        if (transaction.numApprovals >= threshold) {
+        if (getApprovalWeight(txHash) >= threshold) {
             // Execute the transaction
             transaction.executed = true;
 
-            // Handle self-calls (owner management) differently
-            if (transaction.to == address(this)) {
-                bytes4 selector = bytes4(transaction.data);
-
-                if (selector == this.addOwner.selector) {
-                    bytes memory dataSlice = new bytes(transaction.data.length - 4);
-                    for (uint256 i = 4; i < transaction.data.length; i++) {
-                        dataSlice[i - 4] = transaction.data[i];
-                    }
-                    address newOwner = abi.decode(dataSlice, (address));
-                    _addOwner(newOwner);
-                } else if (selector == this.removeOwner.selector) {
-                    bytes memory dataSlice = new bytes(transaction.data.length - 4);
-                    for (uint256 i = 4; i < transaction.data.length; i++) {
-                        dataSlice[i - 4] = transaction.data[i];
-                    }
-                    address ownerToRemove = abi.decode(dataSlice, (address));
-                    _removeOwner(ownerToRemove);
-                } else if (selector == this.changeThreshold.selector) {
-                    bytes memory dataSlice = new bytes(transaction.data.length - 4);
-                    for (uint256 i = 4; i < transaction.data.length; i++) {
-                        dataSlice[i - 4] = transaction.data[i];
-                    }
-                    uint256 newThreshold = abi.decode(dataSlice, (uint256));
-                    _changeThreshold(newThreshold);
-                } else {
-                    (bool success, ) = transaction.to.call{value: transaction.value}(
-                        transaction.data
-                    );
-                    if (!success) revert TransactionExecutionFailed();
-                }
-            } else {
-                (bool success, ) = transaction.to.call{value: transaction.value}(
-                    transaction.data
-                );
-                if (!success) revert TransactionExecutionFailed();
-            }
+            (bool success, bytes memory returnData) =
+                _executeWithGuard(txHash, transaction.to, transaction.value, transaction.data);
+            if (!success) revert TransactionExecutionFailed(returnData);
 
             emit TransactionExecuted(txHash, msg.sender);
             return true;
@@ -389,10 +676,11 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
      */
     function executeTransaction(bytes32 txHash)
         external
-        onlyOwner
+        onlyOwnerOrRelayModule
         txExists(txHash)
         notExecuted(txHash)
         notCancelled(txHash)
+        notExpired(txHash)
         nonReentrant
     {
         Transaction storage transaction = transactions[txHash];
@@ -401,56 +689,115 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         // (Defense-in-depth: modifier already checks this, but explicit for clarity)
         if (transaction.cancelled) revert TransactionHasBeenCancelled();
 
-        if (transaction.numApprovals < threshold) revert NotEnoughApprovals();
+        // Approvals from removed owners are not counted
+        if (getApprovalWeight(txHash) < threshold) revert NotEnoughApprovals();
 
         transaction.executed = true;
 
-        // Handle self-calls (owner management) differently to avoid reentrancy guard issues
-        if (transaction.to == address(this)) {
-            // For self-calls, decode and execute using internal functions
-            // This avoids the reentrancy guard blocking external calls
-            bytes4 selector = bytes4(transaction.data);
-            
-            if (selector == this.addOwner.selector) {
-                // Decode addOwner(address)
-                bytes memory dataSlice = new bytes(transaction.data.length - 4);
-                for (uint256 i = 4; i < transaction.data.length; i++) {
-                    dataSlice[i - 4] = transaction.data[i];
-                }
-                address newOwner = abi.decode(dataSlice, (address));
-                _addOwner(newOwner);
-            } else if (selector == this.removeOwner.selector) {
-                // Decode removeOwner(address)
-                bytes memory dataSlice = new bytes(transaction.data.length - 4);
-                for (uint256 i = 4; i < transaction.data.length; i++) {
-                    dataSlice[i - 4] = transaction.data[i];
-                }
-                address ownerToRemove = abi.decode(dataSlice, (address));
-                _removeOwner(ownerToRemove);
-            } else if (selector == this.changeThreshold.selector) {
-                // Decode changeThreshold(uint256)
-                bytes memory dataSlice = new bytes(transaction.data.length - 4);
-                for (uint256 i = 4; i < transaction.data.length; i++) {
-                    dataSlice[i - 4] = transaction.data[i];
-                }
-                uint256 newThreshold = abi.decode(dataSlice, (uint256));
-                _changeThreshold(newThreshold);
-            } else {
-                // Unknown self-call function - try using call anyway
-                (bool success, ) = transaction.to.call{value: transaction.value}(
-                    transaction.data
-                );
-                if (!success) revert TransactionExecutionFailed();
-            }
+        (bool success, bytes memory returnData) =
+            _executeWithGuard(txHash, transaction.to, transaction.value, transaction.data);
+        if (!success) revert TransactionExecutionFailed(returnData);
+
+        emit TransactionExecuted(txHash, msg.sender);
+    }
+
+    /**
+     * @notice Execute a transaction after threshold is met, recording a failed call instead of reverting
+     * @dev A failed call emits ExecutionFailure with the revert data and leaves the proposal pending
+     *      so it can be retried. Failures raised by the wallet itself (owner management, batches,
+     *      guard checks) still revert.
+     * @param txHash Transaction hash to execute
+     * @return success True if the call succeeded and the transaction is now executed
+     */
+    function tryExecuteTransaction(bytes32 txHash)
+        external
+        onlyOwner
+        txExists(txHash)
+        notExecuted(txHash)
+        notCancelled(txHash)
+        notExpired(txHash)
+        nonReentrant
+        returns (bool success)
+    {
+        Transaction storage transaction = transactions[txHash];
+
+        // Approvals from removed owners are not counted
+        if (getApprovalWeight(txHash) < threshold) revert NotEnoughApprovals();
+
+        transaction.executed = true;
+
+        bytes memory returnData;
+        (success, returnData) =
+            _executeWithGuard(txHash, transaction.to, transaction.value, transaction.data);
+
+        if (success) {
+            emit TransactionExecuted(txHash, msg.sender);
         } else {
-            // External call - use standard call mechanism
-            (bool success, ) = transaction.to.call{value: transaction.value}(
-                transaction.data
-            );
-            if (!success) revert TransactionExecutionFailed();
+            transaction.executed = false;
+            emit ExecutionFailure(txHash, returnData);
         }
+    }
+
+    /**
+     * @notice Execute a transaction authorized by owner signatures collected off-chain
+     * @dev Owners sign the EIP-712 digest from getTransactionTypedHash for the current nonce.
+     *      Signatures are 65-byte (r, s, v) values concatenated in strictly ascending signer order,
+     *      which rejects duplicate signers without an extra lookup. The transaction is recorded
+     *      (and the nonce consumed) exactly like a proposal, so the same signatures cannot be replayed.
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @param signatures Concatenated owner signatures sorted by signer address
+     * @return txHash The transaction hash
+     */
+    function execTransactionWithSignatures(
+        address to,
+        uint256 value,
+        bytes memory data,
+        bytes memory signatures
+    ) external onlyOwner nonReentrant returns (bytes32) {
+        if (to == address(0)) revert InvalidDestinationAddress();
+
+        uint256 _nonce = nonce;
+        address[] memory signers = _recoverSigners(
+            getTransactionTypedHash(to, value, data, _nonce),
+            signatures
+        );
+
+        bytes32 txHash = getTransactionHash(to, value, data, _nonce);
+
+        // Consume the nonce before the external call so the signatures cannot be replayed
+        nonce++;
+
+        transactions[txHash] = Transaction({
+            to: to,
+            value: value,
+            data: data,
+            executed: true,
+            cancelled: false,
+            numApprovals: signers.length,
+            timestamp: block.timestamp,
+            proposer: msg.sender,
+            validUntil: 0
+        });
+
+        txHashes.push(txHash);
+        lastOwnerActivity = block.timestamp;
+
+        emit TransactionProposed(txHash, msg.sender, to, value, data);
+
+        // Record signers as approvals so the transaction reads the same as an on-chain approved one
+        for (uint256 i = 0; i < signers.length; i++) {
+            _recordApproval(txHash, signers[i]);
+            emit TransactionApproved(txHash, signers[i]);
+        }
+
+        (bool success, bytes memory returnData) = _executeWithGuard(txHash, to, value, data);
+        if (!success) revert TransactionExecutionFailed(returnData);
 
         emit TransactionExecuted(txHash, msg.sender);
+
+        return txHash;
     }
 
     /**
@@ -464,7 +811,7 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         notExecuted(txHash)
         notCancelled(txHash)
     {
-        if (!approvals[txHash][msg.sender]) revert NotApproved();
+        if (!_isApproved(txHash, msg.sender)) revert NotApproved();
 
         approvals[txHash][msg.sender] = false;
         transactions[txHash].numApprovals--;
@@ -479,7 +826,7 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
      */
     function cancelTransaction(bytes32 txHash)
         external
-        onlyOwner
+        onlyOwnerOrRelayModule
         txExists(txHash)
         notExecuted(txHash)
         notCancelled(txHash)
@@ -491,7 +838,7 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
 
         // If not proposer, require threshold approvals
         if (!isProposer) {
-            if (transaction.numApprovals < threshold) revert NotProposerAndNotEnoughApprovalsToCancel();
+            if (getApprovalWeight(txHash) < threshold) revert NotProposerAndNotEnoughApprovalsToCancel();
         }
 
         // Mark as cancelled
@@ -506,27 +853,258 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         emit TransactionCancelled(txHash, msg.sender);
     }
 
+    /**
+     * @notice Internal function to perform a transaction call wrapped in the guard hooks
+     * @dev The guard is read once so a transaction that replaces the guard is still
+     *      post-checked by the guard that approved it
+     * @param txHash Transaction hash passed to the guard
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @return success True if the call succeeded
+     * @return returnData Revert data of the failed call (empty on success)
+     */
+    function _executeWithGuard(
+        bytes32 txHash,
+        address to,
+        uint256 value,
+        bytes memory data
+    ) internal returns (bool success, bytes memory returnData) {
+        address currentGuard = guard;
+        if (currentGuard != address(0)) {
+            ITransactionGuard(currentGuard).checkTransaction(txHash, to, value, data, msg.sender);
+        }
+
+        (success, returnData) = _execute(to, value, data);
+
+        if (currentGuard != address(0)) {
+            ITransactionGuard(currentGuard).checkAfterExecution(txHash, success);
+        }
+    }
+
+    /**
+     * @notice Internal function to perform a transaction call
+     * @dev Self-calls (owner management) are decoded and dispatched to the internal functions
+     *      to avoid the reentrancy guard blocking the external call. Dispatched self-calls revert
+     *      on failure; other calls report failure through the return values.
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @return success True if the call succeeded
+     * @return returnData Revert data of the failed call (empty on success)
+     */
+    function _execute(address to, uint256 value, bytes memory data)
+        internal
+        returns (bool success, bytes memory returnData)
+    {
+        if (to == address(this)) {
+            bytes4 selector = bytes4(data);
+
+            if (selector == this.addOwner.selector) {
+                // Decode addOwner(address)
+                bytes memory dataSlice = _stripSelector(data);
+                address newOwner = abi.decode(dataSlice, (address));
+                _addOwner(newOwner, 1);
+            } else if (selector == this.removeOwner.selector) {
+                // Decode removeOwner(address)
+                bytes memory dataSlice = _stripSelector(data);
+                address ownerToRemove = abi.decode(dataSlice, (address));
+                _removeOwner(ownerToRemove);
+            } else if (selector == this.swapOwner.selector) {
+                // Decode swapOwner(address,address)
+                bytes memory dataSlice = _stripSelector(data);
+                (address oldOwner, address newOwner) = abi.decode(dataSlice, (address, address));
+                _swapOwner(oldOwner, newOwner);
+            } else if (selector == this.changeThreshold.selector) {
+                // Decode changeThreshold(uint256)
+                bytes memory dataSlice = _stripSelector(data);
+                uint256 newThreshold = abi.decode(dataSlice, (uint256));
+                _changeThreshold(newThreshold);
+            } else if (selector == this.multiSend.selector) {
+                // Decode multiSend((address,uint256,bytes)[])
+                bytes memory dataSlice = _stripSelector(data);
+                Call[] memory calls = abi.decode(dataSlice, (Call[]));
+                _multiSend(calls);
+            } else {
+                // Unknown self-call function - try using call anyway
+                (success, returnData) = to.call{value: value}(data);
+                if (success) returnData = "";
+                return (success, returnData);
+            }
+        } else {
+            // External call - use standard call mechanism
+            (success, returnData) = to.call{value: value}(data);
+            if (success) returnData = "";
+            return (success, returnData);
+        }
+
+        return (true, "");
+    }
+
+    /**
+     * @notice Internal function to drop the 4-byte selector from calldata
+     * @param data Calldata including the selector
+     * @return args ABI-encoded arguments
+     */
+    function _stripSelector(bytes memory data) internal pure returns (bytes memory args) {
+        args = new bytes(data.length - 4);
+        for (uint256 i = 4; i < data.length; i++) {
+            args[i - 4] = data[i];
+        }
+    }
+
+    /**
+     * @notice Internal function to recover and validate owner signatures
+     * @param digest EIP-712 digest the owners signed
+     * @param signatures Concatenated 65-byte signatures sorted by signer address
+     * @return signers Recovered signer addresses
+     */
+    function _recoverSigners(bytes32 digest, bytes memory signatures)
+        internal
+        view
+        returns (address[] memory signers)
+    {
+        if (signatures.length % 65 != 0) revert InvalidSignatureLength();
+
+        uint256 count = signatures.length / 65;
+
+        signers = new address[](count);
+        address lastSigner = address(0);
+        uint256 signedWeight = 0;
+
+        for (uint256 i = 0; i < count; i++) {
+            bytes32 r;
+            bytes32 s;
+            uint8 v;
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                let offset := add(signatures, mul(i, 65))
+                r := mload(add(offset, 32))
+                s := mload(add(offset, 64))
+                v := byte(0, mload(add(offset, 96)))
+            }
+
+            address signer = ECDSA.recover(digest, v, r, s);
+            if (!isOwner[signer]) revert SignerNotAnOwner();
+            if (signer == lastSigner) revert DuplicateSigner();
+            if (signer < lastSigner) revert SignersNotInAscendingOrder();
+
+            signers[i] = signer;
+            lastSigner = signer;
+            signedWeight += getOwnerWeight(signer);
+        }
+
+        if (signedWeight < threshold) revert NotEnoughSignatures();
+    }
+
+    /**
+     * @notice Internal function backing the onlyOwner modifier
+     */
+    function _checkOwner() internal view {
+        if (!isOwner[msg.sender]) revert NotAnOwner();
+    }
+
+    /**
+     * @notice Internal function backing the onlySelf modifier
+     */
+    function _checkSelf() internal view {
+        if (msg.sender != address(this)) revert OnlySelf();
+    }
+
+    /**
+     * @notice Internal function backing the txExists modifier
+     * @param txHash Transaction hash to check
+     */
+    function _checkExists(bytes32 txHash) internal view {
+        if (transactions[txHash].to == address(0)) revert TransactionDoesNotExist();
+    }
+
+    /**
+     * @notice Internal function backing the notExecuted modifier
+     * @param txHash Transaction hash to check
+     */
+    function _checkNotExecuted(bytes32 txHash) internal view {
+        if (transactions[txHash].executed) revert TransactionAlreadyExecuted();
+    }
+
+    /**
+     * @notice Internal function backing the notCancelled modifier
+     * @param txHash Transaction hash to check
+     */
+    function _checkNotCancelled(bytes32 txHash) internal view {
+        if (transactions[txHash].cancelled) revert TransactionAlreadyCancelled();
+    }
+
+    /**
+     * @notice Internal function to record an approval under the approver's current generation
+     * @param txHash Transaction hash
+     * @param owner Approving owner
+     */
+    function _recordApproval(bytes32 txHash, address owner) internal {
+        approvals[txHash][owner] = true;
+        approvalGenerations[txHash][owner] = ownerGenerations[owner];
+    }
+
+    /**
+     * @notice Internal function to check for an approval that has not been voided by a removal
+     * @param txHash Transaction hash
+     * @param owner Owner address
+     * @return True if the owner approved since they were last added
+     */
+    function _isApproved(bytes32 txHash, address owner) internal view returns (bool) {
+        return approvals[txHash][owner] && approvalGenerations[txHash][owner] == ownerGenerations[owner];
+    }
+
     /**
      * @notice Internal function to add a new owner
      * @param owner Address of new owner
+     * @param weight Voting weight of the new owner
      */
-    function _addOwner(address owner) internal {
+    function _addOwner(address owner, uint256 weight) internal {
         if (owner == address(0)) revert InvalidOwnerAddress();
         if (isOwner[owner]) revert AlreadyAnOwner();
         if (owners.length >= MAX_OWNERS) revert MaxOwnersReached();
+        if (weight == 0 || weight > MAX_OWNER_WEIGHT) revert InvalidOwnerWeight();
 
         isOwner[owner] = true;
         owners.push(owner);
+        ownerWeights[owner] = weight;
 
         emit OwnerAdded(owner);
+        if (weight != 1) emit OwnerWeightChanged(owner, weight);
     }
 
     /**
-     * @notice Add a new owner (requires multisig approval)
+     * @notice Add a new owner with weight 1 (requires multisig approval)
      * @param owner Address of new owner
      */
     function addOwner(address owner) external onlySelf {
-        _addOwner(owner);
+        _addOwner(owner, 1);
+    }
+
+    /**
+     * @notice Add a new owner with a voting weight (requires multisig approval)
+     * @param owner Address of new owner
+     * @param weight Voting weight (1 to MAX_OWNER_WEIGHT)
+     */
+    function addOwnerWithWeight(address owner, uint256 weight) external onlySelf {
+        _addOwner(owner, weight);
+    }
+
+    /**
+     * @notice Change an owner's voting weight (requires multisig approval)
+     * @dev Reverts if the summed weight would fall below the threshold
+     * @param owner Owner address
+     * @param weight New voting weight (1 to MAX_OWNER_WEIGHT)
+     */
+    function setOwnerWeight(address owner, uint256 weight) external onlySelf {
+        if (!isOwner[owner]) revert NotAnOwner();
+        if (weight == 0 || weight > MAX_OWNER_WEIGHT) revert InvalidOwnerWeight();
+        if (getTotalWeight() - getOwnerWeight(owner) + weight < threshold) revert InvalidThreshold();
+
+        ownerWeights[owner] = weight;
+
+        emit OwnerWeightChanged(owner, weight);
     }
 
     /**
@@ -535,9 +1113,11 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
      */
     function _removeOwner(address owner) internal {
         if (!isOwner[owner]) revert NotAnOwner();
-        if (owners.length - 1 < threshold) revert CannotRemoveOwnerWouldFallBelowThreshold();
+        if (getTotalWeight() - getOwnerWeight(owner) < threshold) revert CannotRemoveOwnerWouldFallBelowThreshold();
 
         isOwner[owner] = false;
+        delete ownerWeights[owner];
+        ownerGenerations[owner]++;
 
         // Remove from owners array
         for (uint256 i = 0; i < owners.length; i++) {
@@ -559,12 +1139,52 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         _removeOwner(owner);
     }
 
+    /**
+     * @notice Internal function to replace an owner in place
+     * @dev Owner count, weights and threshold are unchanged (the new owner inherits the old
+     *      owner's weight), so rotating a key needs no intermediate state where the threshold
+     *      math has to be adjusted
+     * @param oldOwner Address of owner to replace
+     * @param newOwner Address of the replacement owner
+     */
+    function _swapOwner(address oldOwner, address newOwner) internal {
+        if (!isOwner[oldOwner]) revert NotAnOwner();
+        if (newOwner == address(0)) revert InvalidOwnerAddress();
+        if (isOwner[newOwner]) revert AlreadyAnOwner();
+
+        isOwner[oldOwner] = false;
+        isOwner[newOwner] = true;
+        ownerWeights[newOwner] = ownerWeights[oldOwner];
+        delete ownerWeights[oldOwner];
+        ownerGenerations[oldOwner]++;
+
+        // Replace in owners array, keeping the position
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (owners[i] == oldOwner) {
+                owners[i] = newOwner;
+                break;
+            }
+        }
+
+        emit OwnerRemoved(oldOwner);
+        emit OwnerAdded(newOwner);
+    }
+
+    /**
+     * @notice Replace an owner in a single step (requires multisig approval)
+     * @param oldOwner Address of owner to replace
+     * @param newOwner Address of the replacement owner
+     */
+    function swapOwner(address oldOwner, address newOwner) external onlySelf {
+        _swapOwner(oldOwner, newOwner);
+    }
+
     /**
      * @notice Internal function to change the approval threshold
-     * @param _threshold New threshold value
+     * @param _threshold New threshold value (summed owner weight)
      */
     function _changeThreshold(uint256 _threshold) internal {
-        if (_threshold == 0 || _threshold > owners.length) revert InvalidThreshold();
+        if (_threshold == 0 || _threshold > getTotalWeight()) revert InvalidThreshold();
 
         threshold = _threshold;
 
@@ -580,18 +1200,59 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
     }
 
     /**
-     * @notice Enable a module
+     * @notice Internal function to execute a batch of calls atomically
+     * @dev Self-calls inside the batch go through _execute so owner management works as usual.
+     *      Any failing call reverts the whole batch with its index and revert data.
+     * @param calls Calls to execute in order
+     */
+    function _multiSend(Call[] memory calls) internal {
+        if (calls.length == 0) revert EmptyBatch();
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            Call memory call = calls[i];
+            if (call.to == address(0)) revert InvalidDestinationAddress();
+
+            if (call.to == address(this)) {
+                (bool selfSuccess, bytes memory returnData) = _execute(call.to, call.value, call.data);
+                if (!selfSuccess) revert TransactionExecutionFailed(returnData);
+            } else {
+                (bool success, bytes memory returnData) = call.to.call{value: call.value}(call.data);
+                if (!success) revert BatchCallFailed(i, returnData);
+            }
+        }
+    }
+
+    /**
+     * @notice Execute a batch of calls atomically (requires multisig approval)
+     * @dev Propose as a self-call so a single proposal can carry many transfers or calls
+     * @param calls Calls to execute in order
+     */
+    function multiSend(Call[] memory calls) external onlySelf {
+        _multiSend(calls);
+    }
+
+    /**
+     * @notice Internal function to enable a module
      * @param module Module address to enable
      */
-    function enableModule(address module) external onlySelf {
+    function _enableModule(address module) internal {
         if (module == address(0)) revert InvalidModuleAddress();
         if (modules[module]) revert ModuleAlreadyEnabled();
 
         modules[module] = true;
+        moduleList.push(module);
 
         emit ModuleEnabled(module);
     }
 
+    /**
+     * @notice Enable a module
+     * @param module Module address to enable
+     */
+    function enableModule(address module) external onlySelf {
+        _enableModule(module);
+    }
+
     /**
      * @notice Disable a module
      * @param module Module address to disable
@@ -600,14 +1261,71 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         if (!modules[module]) revert ModuleNotEnabled();
 
         modules[module] = false;
+        if (relayModules[module]) {
+            relayModules[module] = false;
+            emit ModuleRelayChanged(module, false);
+        }
+
+        // Remove from module list
+        for (uint256 i = 0; i < moduleList.length; i++) {
+            if (moduleList[i] == module) {
+                moduleList[i] = moduleList[moduleList.length - 1];
+                moduleList.pop();
+                break;
+            }
+        }
 
         emit ModuleDisabled(module);
     }
 
+    /**
+     * @notice Allow or stop an enabled module proposing, executing and cancelling transactions
+     * @dev Meant for modules that relay for scoped accounts, such as RolesModule. Executions
+     *      still need the owners' threshold, but every relayed proposal consumes a nonce, which
+     *      invalidates off-chain signatures collected for execTransactionWithSignatures.
+     * @param module Enabled module address
+     * @param allowed Whether the module may drive the proposal flow
+     */
+    function setModuleRelay(address module, bool allowed) external onlySelf {
+        if (allowed && !modules[module]) revert ModuleNotEnabled();
+
+        relayModules[module] = allowed;
+
+        emit ModuleRelayChanged(module, allowed);
+    }
+
+    /**
+     * @notice Set or remove the transaction guard
+     * @dev A guard that reverts on every call would lock the wallet, so guards are expected to
+     *      always allow setGuard self-calls. Pass address(0) to remove the guard.
+     * @param _guard Guard contract address, or address(0) to remove
+     */
+    function setGuard(address _guard) external onlySelf {
+        if (_guard != address(0) && _guard.code.length == 0) revert InvalidGuardAddress();
+
+        guard = _guard;
+
+        emit GuardChanged(_guard);
+    }
+
+    /**
+     * @notice Upgrade the proxy to a new wallet implementation (requires multisig approval)
+     * @dev Runs in the proxy's context, so it rewrites the proxy's ERC1967 implementation slot.
+     *      The new implementation must keep this contract's storage layout and only append to it.
+     *      Emits the ERC1967 Upgraded event.
+     * @param newImplementation Address of the new MultisigWallet implementation
+     */
+    function upgradeTo(address newImplementation) external onlySelf {
+        if (newImplementation.code.length == 0) revert InvalidImplementationAddress();
+
+        ERC1967Utils.upgradeToAndCall(newImplementation, "");
+    }
+
     /**
      * @notice Execute transaction from authorized module
-     * @dev Modules cannot call enableModule/disableModule (prevents privilege escalation)
-     *      Owner management functions (addOwner, removeOwner, changeThreshold) are allowed
+     * @dev Modules cannot call enableModule/disableModule, setModuleRelay, setGuard, upgradeTo or multiSend
+     *      (prevents privilege escalation)
+     *      Owner management functions (addOwner, removeOwner, swapOwner, changeThreshold) are allowed
      *      for legitimate use cases like social recovery
      * @param to Destination address
      * @param value Amount to send
@@ -624,14 +1342,32 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         // Security: Prevent modules from modifying module permissions
         // This prevents a compromised module from enabling/disabling other modules
         // Owner management functions ARE allowed for legitimate recovery scenarios
+        // Removing the guard, upgrades and batches (which could wrap any of these) are blocked too
         if (to == address(this) && data.length >= 4) {
             bytes4 selector = bytes4(data);
-            if (selector == this.enableModule.selector || selector == this.disableModule.selector) {
+            if (
+                selector == this.enableModule.selector ||
+                selector == this.disableModule.selector ||
+                selector == this.setModuleRelay.selector ||
+                selector == this.setGuard.selector ||
+                selector == this.upgradeTo.selector ||
+                selector == this.multiSend.selector
+            ) {
                 revert ModuleCannotModifyModulePermissions();
             }
         }
 
+        address currentGuard = guard;
+        if (currentGuard != address(0)) {
+            ITransactionGuard(currentGuard).checkTransaction(bytes32(0), to, value, data, msg.sender);
+        }
+
         (bool success, ) = to.call{value: value}(data);
+
+        if (currentGuard != address(0)) {
+            ITransactionGuard(currentGuard).checkAfterExecution(bytes32(0), success);
+        }
+
         return success;
     }
 
@@ -661,6 +1397,42 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         );
     }
 
+    /**
+     * @notice Get the EIP-712 domain separator for this wallet
+     * @return Domain separator bound to this wallet address and the current chain ID
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes("MultisigWallet")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /**
+     * @notice Get the EIP-712 digest owners sign for execTransactionWithSignatures
+     * @param to Destination address
+     * @param value Amount
+     * @param data Transaction data
+     * @param _nonce Nonce value
+     * @return Typed data digest for the transaction
+     */
+    function getTransactionTypedHash(
+        address to,
+        uint256 value,
+        bytes memory data,
+        uint256 _nonce
+    ) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(TRANSACTION_TYPEHASH, to, value, keccak256(data), _nonce)
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
     /**
      * @notice Get all owners
      * @return Array of owner addresses
@@ -669,6 +1441,14 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         return owners;
     }
 
+    /**
+     * @notice Get all enabled modules
+     * @return Array of module addresses allowed to call execTransactionFromModule
+     */
+    function getModules() external view returns (address[] memory) {
+        return moduleList;
+    }
+
     /**
      * @notice Get owner count
      * @return Number of owners
@@ -690,6 +1470,70 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         return transactions[txHash];
     }
 
+    /**
+     * @notice Get the number of recorded transactions
+     * @return Length of the transaction index
+     */
+    function getTransactionCount() external view returns (uint256) {
+        return txHashes.length;
+    }
+
+    /**
+     * @notice Get a page of transaction hashes in proposal order (oldest first)
+     * @dev Returns fewer than limit hashes at the end of the index, and none past it
+     * @param offset Index of the first hash to return
+     * @param limit Maximum number of hashes to return
+     * @return page Transaction hashes from offset to offset + limit
+     */
+    function getTransactionHashes(uint256 offset, uint256 limit)
+        external
+        view
+        returns (bytes32[] memory page)
+    {
+        uint256 total = txHashes.length;
+        if (offset >= total) {
+            return new bytes32[](0);
+        }
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+        page = new bytes32[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = txHashes[i];
+        }
+    }
+
+    /**
+     * @notice Get the number of recorded NFTs
+     * @return Length of the received NFT list
+     */
+    function getReceivedNftCount() external view returns (uint256) {
+        return receivedNfts.length;
+    }
+
+    /**
+     * @notice Get a page of NFTs received through safe transfers (oldest first)
+     * @dev Returns fewer than limit entries at the end of the list, and none past it
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return page Received NFTs from offset to offset + limit
+     */
+    function getReceivedNfts(uint256 offset, uint256 limit)
+        external
+        view
+        returns (ReceivedNft[] memory page)
+    {
+        uint256 total = receivedNfts.length;
+        if (offset >= total) {
+            return new ReceivedNft[](0);
+        }
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+        page = new ReceivedNft[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = receivedNfts[i];
+        }
+    }
+
     /**
      * @notice Check if address has approved transaction
      * @param txHash Transaction hash
@@ -701,7 +1545,170 @@ contract MultisigWallet is Initializable, ReentrancyGuardUpgradeable {
         view
         returns (bool)
     {
-        return approvals[txHash][owner];
+        return _isApproved(txHash, owner);
+    }
+
+    /**
+     * @notice Get the number of approvals from current owners
+     * @dev Removed owners keep their entries in approvals, so their earlier votes are
+     *      skipped here rather than cleared (pending transactions are not enumerable),
+     *      and stay void if the address is re-added. Bounded by MAX_OWNERS.
+     * @param txHash Transaction hash
+     * @return Number of current owners who have approved the transaction
+     */
+    function getApprovalCount(bytes32 txHash) public view returns (uint256) {
+        uint256 count = 0;
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (_isApproved(txHash, owners[i])) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * @notice Get the summed weight of approvals from current owners
+     * @dev Compared against threshold by every execution and cancellation path.
+     *      Bounded by MAX_OWNERS.
+     * @param txHash Transaction hash
+     * @return weight Summed weight of current owners who have approved the transaction
+     */
+    function getApprovalWeight(bytes32 txHash) public view returns (uint256 weight) {
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (_isApproved(txHash, owners[i])) {
+                weight += getOwnerWeight(owners[i]);
+            }
+        }
+    }
+
+    /**
+     * @notice Get an owner's voting weight
+     * @param owner Address to check
+     * @return Voting weight (0 if not an owner)
+     */
+    function getOwnerWeight(address owner) public view returns (uint256) {
+        if (!isOwner[owner]) return 0;
+        uint256 weight = ownerWeights[owner];
+        return weight == 0 ? 1 : weight;
+    }
+
+    /**
+     * @notice Get the summed voting weight of all owners
+     * @return total Upper bound for threshold
+     */
+    function getTotalWeight() public view returns (uint256 total) {
+        for (uint256 i = 0; i < owners.length; i++) {
+            total += getOwnerWeight(owners[i]);
+        }
+    }
+
+    /**
+     * @notice Accept ERC-721 tokens sent with safeTransferFrom
+     * @dev msg.sender is the token contract. Records the token if the wallet now owns it and
+     *      emits ERC721Received so clients can discover holdings.
+     * @return IERC721Receiver.onERC721Received selector
+     */
+    function onERC721Received(
+        address,
+        address from,
+        uint256 tokenId,
+        bytes calldata
+    ) external override returns (bytes4) {
+        _recordNft(msg.sender, tokenId, false);
+        emit ERC721Received(msg.sender, from, tokenId);
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    /**
+     * @notice Accept ERC-1155 tokens sent with safeTransferFrom
+     * @dev msg.sender is the token contract. Records the token if the wallet now has a balance
+     *      and emits ERC1155Received so clients can discover holdings.
+     * @return IERC1155Receiver.onERC1155Received selector
+     */
+    function onERC1155Received(
+        address,
+        address from,
+        uint256 id,
+        uint256 value,
+        bytes calldata
+    ) external override returns (bytes4) {
+        _recordNft(msg.sender, id, true);
+        emit ERC1155Received(msg.sender, from, id, value);
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    /**
+     * @notice Accept ERC-1155 tokens sent with safeBatchTransferFrom
+     * @dev Records and emits one ERC1155Received per token type
+     * @return IERC1155Receiver.onERC1155BatchReceived selector
+     */
+    function onERC1155BatchReceived(
+        address,
+        address from,
+        uint256[] calldata ids,
+        uint256[] calldata values,
+        bytes calldata
+    ) external override returns (bytes4) {
+        for (uint256 i = 0; i < ids.length; i++) {
+            _recordNft(msg.sender, ids[i], true);
+            emit ERC1155Received(msg.sender, from, ids[i], values[i]);
+        }
+        return IERC1155Receiver.onERC1155BatchReceived.selector;
+    }
+
+    /**
+     * @notice Internal function to add an NFT to the received list the first time it arrives
+     * @dev The receiver callbacks can be called by anyone, so the token is only recorded once
+     *      the calling contract reports the wallet as its holder. Token contracts update
+     *      ownership before calling the receiver, so genuine transfers always pass.
+     * @param token Token contract address
+     * @param tokenId Token id
+     * @param isERC1155 Whether the token is ERC-1155
+     */
+    function _recordNft(address token, uint256 tokenId, bool isERC1155) internal {
+        bytes32 key = keccak256(abi.encodePacked(token, tokenId));
+        if (nftRecorded[key] || !_holdsNft(token, tokenId, isERC1155)) return;
+
+        nftRecorded[key] = true;
+        receivedNfts.push(ReceivedNft({token: token, tokenId: tokenId, isERC1155: isERC1155}));
+    }
+
+    /**
+     * @notice Internal function to check that a token contract reports the wallet as a holder
+     * @dev Calls that revert or return malformed data count as not held
+     * @param token Token contract address
+     * @param tokenId Token id
+     * @param isERC1155 Whether the token is ERC-1155
+     * @return True if the wallet owns the ERC-721 token or a non-zero ERC-1155 balance
+     */
+    function _holdsNft(address token, uint256 tokenId, bool isERC1155) internal view returns (bool) {
+        if (token.code.length == 0) return false;
+
+        if (isERC1155) {
+            try IERC1155(token).balanceOf(address(this), tokenId) returns (uint256 balance) {
+                return balance > 0;
+            } catch {
+                return false;
+            }
+        }
+
+        try IERC721(token).ownerOf(tokenId) returns (address holder) {
+            return holder == address(this);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @notice ERC-165 interface detection
+     * @param interfaceId Interface identifier
+     * @return True for ERC-165 and the ERC-721 / ERC-1155 receiver interfaces
+     */
+    function supportsInterface(bytes4 interfaceId) external pure override returns (bool) {
+        return
+            interfaceId == type(IERC165).interfaceId ||
+            interfaceId == type(IERC721Receiver).interfaceId ||
+            interfaceId == type(IERC1155Receiver).interfaceId;
     }
 
     /**
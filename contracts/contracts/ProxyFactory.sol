@@ -8,6 +8,9 @@ import "./MultisigWallet.sol";
  * @title ProxyFactory
  * @dev Factory contract for deploying new multisig wallet proxies
  * @notice Uses CREATE2 for deterministic addresses
+ * @dev On Quai Network a CREATE2 address is only valid if it falls in the factory's zone
+ *      (first address byte) and the Quai ledger (high bit of the second byte clear).
+ *      Mine a salt off-chain until computeAddress lands there, then pass it to createWallet.
  */
 contract ProxyFactory {
     // Custom errors (gas efficient)
@@ -83,15 +86,71 @@ contract ProxyFactory {
             threshold
         );
 
-        // Deploy proxy with CREATE2
-        bytes32 fullSalt = keccak256(abi.encodePacked(msg.sender, salt));
-        wallet = address(
-            new MultisigWalletProxy{salt: fullSalt}(implementation, initData)
+        wallet = _deployWallet(initData, salt);
+
+        emit WalletCreated(wallet, owners, threshold, msg.sender, salt);
+
+        return wallet;
+    }
+
+    /**
+     * @notice Create a new multisig wallet with weighted owners
+     * @dev Weight and threshold bounds are enforced by MultisigWallet.initializeWithWeights
+     * @param owners Array of owner addresses
+     * @param weights Voting weight of each owner (same order as owners)
+     * @param threshold Summed owner weight required to execute
+     * @param salt Salt for CREATE2
+     * @return wallet Address of the created wallet
+     */
+    function createWalletWithWeights(
+        address[] memory owners,
+        uint256[] memory weights,
+        uint256 threshold,
+        bytes32 salt
+    ) external returns (address wallet) {
+        if (owners.length == 0) revert OwnersRequired();
+        if (threshold == 0) revert InvalidThreshold();
+
+        bytes memory initData = abi.encodeWithSelector(
+            MultisigWallet.initializeWithWeights.selector,
+            owners,
+            weights,
+            threshold
         );
 
-        // Register wallet
-        deployedWallets.push(wallet);
-        isWallet[wallet] = true;
+        wallet = _deployWallet(initData, salt);
+
+        emit WalletCreated(wallet, owners, threshold, msg.sender, salt);
+
+        return wallet;
+    }
+
+    /**
+     * @notice Create a new multisig wallet with modules enabled and configured
+     * @dev The proxy is deployed without initialization data and initialized in the same
+     *      transaction, so its address depends only on the deployer and salt. That lets the
+     *      setup calls reference the wallet address (computeAddress with empty initData).
+     * @param owners Array of owner addresses
+     * @param weights Voting weight of each owner (empty = every owner has weight 1)
+     * @param threshold Summed owner weight required to execute
+     * @param salt Salt for CREATE2
+     * @param modules Modules to enable
+     * @param setupCalls Calls the wallet makes once its modules are enabled
+     * @return wallet Address of the created wallet
+     */
+    function createWalletWithSetup(
+        address[] memory owners,
+        uint256[] memory weights,
+        uint256 threshold,
+        bytes32 salt,
+        address[] memory modules,
+        MultisigWallet.Call[] memory setupCalls
+    ) external returns (address wallet) {
+        if (owners.length == 0) revert OwnersRequired();
+        if (threshold == 0) revert InvalidThreshold();
+
+        wallet = _deployWallet("", salt);
+        MultisigWallet(payable(wallet)).initializeWithSetup(owners, weights, threshold, modules, setupCalls);
 
         emit WalletCreated(wallet, owners, threshold, msg.sender, salt);
 
@@ -121,18 +180,19 @@ contract ProxyFactory {
 
     /**
      * @notice Compute the address of a wallet before deployment
-     * @dev WARNING: This function does not work correctly on Quai Network due to shard-aware addressing.
-     *      On Quai Network, addresses are prefixed based on the shard (e.g., 0x00 for cyprus1, 0x01 for cyprus2).
-     *      The actual deployed address will differ from the computed address.
-     *      This function is kept for reference but should not be relied upon.
-     *      Instead, retrieve the deployed wallet address from the WalletCreated event.
-     * @param deployer Address that will deploy the wallet
+     * @dev The proxy's constructor arguments include the initialization data, so the address
+     *      depends on the owners and threshold as well as the salt. On Quai Network the result
+     *      is only deployable if it lies in the factory's zone; see the contract notes.
+     * @param deployer Address that will call the factory
      * @param salt Salt for CREATE2
-     * @return Address the wallet will be deployed at (NOTE: Not accurate on Quai Network)
+     * @param initData Encoded MultisigWallet.initialize or initializeWithWeights call
+     *        (empty for createWalletWithSetup)
+     * @return Address the wallet will be deployed at
      */
     function computeAddress(
         address deployer,
-        bytes32 salt
+        bytes32 salt,
+        bytes memory initData
     ) external view returns (address) {
         bytes32 fullSalt = keccak256(abi.encodePacked(deployer, salt));
 
@@ -144,7 +204,7 @@ contract ProxyFactory {
                 keccak256(
                     abi.encodePacked(
                         type(MultisigWalletProxy).creationCode,
-                        abi.encode(implementation, "")
+                        abi.encode(implementation, initData)
                     )
                 )
             )
@@ -203,4 +263,23 @@ contract ProxyFactory {
 
         return result;
     }
+
+    /**
+     * @notice Internal function to deploy and register a wallet proxy with CREATE2
+     * @dev The caller is mixed into the salt so nobody can front-run another creator's address
+     * @param initData Encoded initialization call
+     * @param salt Salt for CREATE2
+     * @return wallet Address of the created wallet
+     */
+    function _deployWallet(bytes memory initData, bytes32 salt) internal returns (address wallet) {
+        // Deploy proxy with CREATE2
+        bytes32 fullSalt = keccak256(abi.encodePacked(msg.sender, salt));
+        wallet = address(
+            new MultisigWalletProxy{salt: fullSalt}(implementation, initData)
+        );
+
+        // Register wallet
+        deployedWallets.push(wallet);
+        isWallet[wallet] = true;
+    }
 }
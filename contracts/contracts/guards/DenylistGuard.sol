@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../MultisigWallet.sol";
+import "./ITransactionGuard.sol";
+
+/**
+ * @title DenylistGuard
+ * @dev Reference transaction guard that blocks calls to denied destinations and function selectors
+ * @notice A single deployment serves every wallet; each wallet manages its own denylist
+ *         through multisig proposals
+ */
+contract DenylistGuard is ITransactionGuard {
+    // Custom errors (gas efficient)
+    error MustBeCalledByWallet();
+    error InvalidDestination();
+    error DestinationDenied(address destination);
+    error SelectorDenied(bytes4 selector);
+
+    /// @notice Mapping from wallet address to destination to denied status
+    mapping(address => mapping(address => bool)) public deniedDestinations;
+
+    /// @notice Mapping from wallet address to function selector to denied status
+    /// @dev Applies to any destination, including self-calls on the wallet
+    mapping(address => mapping(bytes4 => bool)) public deniedSelectors;
+
+    /// @notice Emitted when a destination is added to or removed from the denylist
+    /// @param wallet Address of the multisig wallet
+    /// @param destination Destination address
+    /// @param denied Whether calls to the destination are now blocked
+    event DestinationDenylistUpdated(address indexed wallet, address indexed destination, bool denied);
+
+    /// @notice Emitted when a selector is added to or removed from the denylist
+    /// @param wallet Address of the multisig wallet
+    /// @param selector Function selector
+    /// @param denied Whether calls with the selector are now blocked
+    event SelectorDenylistUpdated(address indexed wallet, bytes4 indexed selector, bool denied);
+
+    /**
+     * @notice Add or remove a destination from the denylist
+     * @param wallet Multisig wallet address
+     * @param destination Destination address
+     * @param denied Whether to block calls to the destination
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet).
+     *      The wallet itself cannot be denied, since that would block setGuard and lock the wallet.
+     */
+    function setDestinationDenied(address wallet, address destination, bool denied) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        if (destination == address(0) || destination == wallet) revert InvalidDestination();
+
+        deniedDestinations[wallet][destination] = denied;
+
+        emit DestinationDenylistUpdated(wallet, destination, denied);
+    }
+
+    /**
+     * @notice Add or remove a function selector from the denylist
+     * @param wallet Multisig wallet address
+     * @param selector Function selector
+     * @param denied Whether to block calls with the selector
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function setSelectorDenied(address wallet, bytes4 selector, bool denied) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+
+        deniedSelectors[wallet][selector] = denied;
+
+        emit SelectorDenylistUpdated(wallet, selector, denied);
+    }
+
+    /**
+     * @notice Reject transactions that hit a denied destination or selector
+     * @dev msg.sender is the wallet. setGuard self-calls and calls to this guard are always
+     *      allowed so owners can never lock themselves out. Batches are checked call by call,
+     *      including batches nested inside other batches.
+     * @param to Destination address
+     * @param data Transaction data
+     */
+    function checkTransaction(
+        bytes32,
+        address to,
+        uint256,
+        bytes calldata data,
+        address
+    ) external view override {
+        address wallet = msg.sender;
+
+        if (to == wallet && data.length >= 4) {
+            bytes4 selector = bytes4(data);
+            if (selector == MultisigWallet.setGuard.selector) {
+                return;
+            }
+            if (selector == MultisigWallet.multiSend.selector) {
+                _checkCall(wallet, to, data);
+                _checkBatch(wallet, abi.decode(data[4:], (MultisigWallet.Call[])));
+                return;
+            }
+        }
+
+        _checkCall(wallet, to, data);
+    }
+
+    /**
+     * @notice No post-execution checks for the denylist
+     */
+    function checkAfterExecution(bytes32, bool) external pure override {}
+
+    /**
+     * @notice Internal function to check a single call against the wallet's denylist
+     * @param wallet Wallet address
+     * @param to Destination address
+     * @param data Call data
+     */
+    function _checkCall(address wallet, address to, bytes memory data) internal view {
+        if (to == address(this)) return;
+        if (deniedDestinations[wallet][to]) revert DestinationDenied(to);
+
+        if (data.length >= 4) {
+            bytes4 selector = bytes4(data);
+            if (deniedSelectors[wallet][selector]) revert SelectorDenied(selector);
+        }
+    }
+
+    /**
+     * @notice Internal function to check every call of a batch
+     * @dev The wallet executes a multiSend self-call inside a batch as a nested batch, so
+     *      those are unpacked and checked too; otherwise they would bypass the denylist
+     * @param wallet Wallet address
+     * @param calls Calls in the batch
+     */
+    function _checkBatch(address wallet, MultisigWallet.Call[] memory calls) internal view {
+        for (uint256 i = 0; i < calls.length; i++) {
+            MultisigWallet.Call memory call = calls[i];
+            _checkCall(wallet, call.to, call.data);
+
+            if (
+                call.to == wallet &&
+                call.data.length >= 4 &&
+                bytes4(call.data) == MultisigWallet.multiSend.selector
+            ) {
+                _checkBatch(wallet, abi.decode(_stripSelector(call.data), (MultisigWallet.Call[])));
+            }
+        }
+    }
+
+    /**
+     * @notice Internal function to strip the function selector from call data
+     * @param data Call data including the 4-byte selector
+     * @return args Call data without the selector
+     */
+    function _stripSelector(bytes memory data) internal pure returns (bytes memory args) {
+        args = new bytes(data.length - 4);
+        for (uint256 i = 4; i < data.length; i++) {
+            args[i - 4] = data[i];
+        }
+    }
+}
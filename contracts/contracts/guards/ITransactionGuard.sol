@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ITransactionGuard
+ * @dev Interface for guards installed on a MultisigWallet via setGuard
+ * @notice The wallet calls checkTransaction before and checkAfterExecution after every
+ *         execution path; reverting in either hook aborts the whole transaction
+ */
+interface ITransactionGuard {
+    /**
+     * @notice Called by the wallet before a transaction is executed
+     * @param txHash Hash of the transaction (zero for module executions)
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @param executor Address that triggered the execution (owner or module)
+     */
+    function checkTransaction(
+        bytes32 txHash,
+        address to,
+        uint256 value,
+        bytes calldata data,
+        address executor
+    ) external;
+
+    /**
+     * @notice Called by the wallet after a transaction is executed
+     * @param txHash Hash of the transaction (zero for module executions)
+     * @param success Whether the call succeeded
+     */
+    function checkAfterExecution(bytes32 txHash, bool success) external;
+}
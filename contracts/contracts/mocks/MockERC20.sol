@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @dev Test-only ERC-20 token with open minting
+ */
+contract MockERC20 is ERC20 {
+    constructor() ERC20("Mock Token", "MTK") {}
+
+    /**
+     * @notice Mint tokens to an address
+     * @param to Recipient of the tokens
+     * @param amount Amount to mint
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
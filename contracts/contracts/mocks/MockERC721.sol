@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title MockERC721
+ * @dev Test-only ERC-721 collection with open minting
+ */
+contract MockERC721 is ERC721 {
+    constructor() ERC721("Mock NFT", "MNFT") {}
+
+    /**
+     * @notice Mint a token to an address
+     * @param to Recipient of the token
+     * @param tokenId Identifier of the token
+     */
+    function mint(address to, uint256 tokenId) external {
+        _mint(to, tokenId);
+    }
+}
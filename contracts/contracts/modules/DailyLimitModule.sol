@@ -1,25 +1,67 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
 import "../MultisigWallet.sol";
 
 /**
  * @title DailyLimitModule
  * @dev Module for setting daily spending limits on multisig wallets
  * @notice Allows automatic execution of transactions below the daily limit
+ * @dev Native QUAI and each ERC-20 token have independent limits and spent amounts
+ * @dev The limit period (1 day by default) is configurable per wallet. Fixed periods are
+ *      anchored to when the limit was set or last reset; rolling windows count every spend
+ *      made within the last period instead
  */
 contract DailyLimitModule {
+    /// @notice Default limit period
+    uint256 public constant DEFAULT_PERIOD = 1 days;
+
+    /// @notice Shortest allowed limit period
+    uint256 public constant MIN_PERIOD = 1 hours;
+
+    /// @notice Longest allowed limit period
+    uint256 public constant MAX_PERIOD = 30 days;
+
+    /// @notice Spends a rolling window can track per limit before further spends must wait
+    uint256 public constant MAX_ROLLING_SPENDS = 16;
+
     /// @notice Structure representing a wallet's daily spending limit
-    /// @dev Reset automatically after 24 hours
+    /// @dev Reset automatically once the wallet's limit period has passed
     struct DailyLimit {
-        /// @notice Maximum amount that can be spent per day (in wei)
+        /// @notice Maximum amount that can be spent per period (in wei)
         uint256 limit;
         /// @notice Amount already spent in current period (in wei)
         uint256 spent;
-        /// @notice Timestamp of last limit reset
+        /// @notice Start of the current fixed period
         uint256 lastReset;
     }
 
+    /// @notice Structure representing how a wallet's limits are measured
+    struct LimitPeriod {
+        /// @notice Period length in seconds (0 = default of 1 day)
+        uint256 period;
+        /// @notice Whether spends count for a rolling window instead of fixed periods
+        bool rolling;
+    }
+
+    /// @notice A spend recorded for a rolling window
+    struct Spend {
+        /// @notice Amount spent (in wei or token units)
+        uint192 amount;
+        /// @notice Time of the spend
+        uint64 timestamp;
+    }
+
+    /// @notice Ring buffer of the most recent spends against one limit
+    struct SpendRing {
+        /// @notice Recorded spends, oldest overwritten first
+        Spend[MAX_ROLLING_SPENDS] spends;
+        /// @notice Index the next spend is written to
+        uint256 next;
+    }
+
     // Custom errors (gas efficient)
     error MustBeCalledByWallet();
     error ModuleNotEnabled();
@@ -28,11 +70,27 @@ contract DailyLimitModule {
     error DailyLimitNotSet();
     error ExceedsDailyLimit();
     error TransactionFailed();
+    error InvalidToken();
+    error InvalidPeriod();
+    error RollingWindowFull();
 
     /// @notice Mapping from wallet address to its daily limit configuration
-    /// @dev Each wallet has independent limit tracking; automatically resets after 24 hours from lastReset
+    /// @dev Each wallet has independent limit tracking; automatically resets once the wallet's limit period has passed
     mapping(address => DailyLimit) public dailyLimits;
 
+    /// @notice Mapping from wallet address to token address to that token's daily limit
+    /// @dev Amounts are in the token's smallest unit; tracked and reset like the native limit
+    mapping(address => mapping(address => DailyLimit)) public tokenDailyLimits;
+
+    /// @notice Tokens with a non-zero daily limit for each wallet
+    mapping(address => address[]) internal limitedTokens;
+
+    /// @notice Limit period configuration for each wallet (applies to QUAI and token limits)
+    mapping(address => LimitPeriod) internal limitPeriods;
+
+    /// @notice Recent spends per wallet and token for rolling windows (address(0) = QUAI)
+    mapping(address => mapping(address => SpendRing)) internal rollingSpends;
+
     /// @notice Emitted when a daily limit is set or updated
     /// @param wallet Address of the multisig wallet
     /// @param limit New daily limit in wei
@@ -54,6 +112,37 @@ contract DailyLimitModule {
     /// @param wallet Address of the multisig wallet
     event DailyLimitReset(address indexed wallet);
 
+    /// @notice Emitted when a token daily limit is set, updated or removed (limit 0)
+    /// @param wallet Address of the multisig wallet
+    /// @param token ERC-20 token address
+    /// @param limit New daily limit in token units
+    event TokenDailyLimitSet(address indexed wallet, address indexed token, uint256 limit);
+
+    /// @notice Emitted when a token transfer is executed within the token's daily limit
+    /// @param wallet Address of the multisig wallet
+    /// @param token ERC-20 token address
+    /// @param to Recipient address
+    /// @param amount Amount transferred in token units
+    /// @param remainingLimit Remaining token limit after the transfer
+    event TokenTransactionExecuted(
+        address indexed wallet,
+        address indexed token,
+        address indexed to,
+        uint256 amount,
+        uint256 remainingLimit
+    );
+
+    /// @notice Emitted when a token daily limit is reset
+    /// @param wallet Address of the multisig wallet
+    /// @param token ERC-20 token address
+    event TokenDailyLimitReset(address indexed wallet, address indexed token);
+
+    /// @notice Emitted when a wallet's limit period changes
+    /// @param wallet Address of the multisig wallet
+    /// @param period Period length in seconds
+    /// @param rolling Whether the period is a rolling window
+    event LimitPeriodSet(address indexed wallet, uint256 period, bool rolling);
+
     /**
      * @notice Set daily spending limit
      * @param wallet Multisig wallet address
@@ -78,6 +167,32 @@ contract DailyLimitModule {
         emit DailyLimitSet(wallet, limit);
     }
 
+    /**
+     * @notice Set how long each limit period lasts and whether it rolls
+     * @param wallet Multisig wallet address
+     * @param period Period length in seconds (between MIN_PERIOD and MAX_PERIOD)
+     * @param rolling True to count spends from the last `period` seconds instead of fixed periods
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      Applies to the QUAI limit and every token limit, and starts them all afresh
+     */
+    function setLimitPeriod(address wallet, uint256 period, bool rolling) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (period < MIN_PERIOD || period > MAX_PERIOD) revert InvalidPeriod();
+
+        limitPeriods[wallet] = LimitPeriod(period, rolling);
+
+        // Spends recorded under the old period would be measured inconsistently
+        _resetLimit(wallet, address(0), dailyLimits[wallet]);
+        address[] storage tokens = limitedTokens[wallet];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _resetLimit(wallet, tokens[i], tokenDailyLimits[wallet][tokens[i]]);
+        }
+
+        emit LimitPeriodSet(wallet, period, rolling);
+    }
+
     /**
      * @notice Execute transaction if below daily limit
      * @param wallet Multisig wallet address
@@ -97,18 +212,8 @@ contract DailyLimitModule {
         DailyLimit storage limit = dailyLimits[wallet];
         if (limit.limit == 0) revert DailyLimitNotSet();
 
-        // Reset if 24 hours have passed
-        if (block.timestamp >= limit.lastReset + 1 days) {
-            limit.spent = 0;
-            limit.lastReset = block.timestamp;
-            emit DailyLimitReset(wallet);
-        }
-
-        // Check if transaction is within limit
-        if (limit.spent + value > limit.limit) revert ExceedsDailyLimit();
-
-        // Update spent amount
-        limit.spent += value;
+        (uint256 remainingLimit, bool periodReset) = _consumeLimit(wallet, address(0), limit, value);
+        if (periodReset) emit DailyLimitReset(wallet);
 
         // Execute transaction through wallet
         bool success = multisig.execTransactionFromModule(to, value, "");
@@ -118,10 +223,165 @@ contract DailyLimitModule {
             wallet,
             to,
             value,
-            limit.limit - limit.spent
+            remainingLimit
         );
     }
 
+    /**
+     * @notice Set the daily spending limit for an ERC-20 token
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address
+     * @param limit Daily limit in token units (0 removes the limit)
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function setTokenDailyLimit(address wallet, address token, uint256 limit) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (token == address(0)) revert InvalidToken();
+
+        DailyLimit storage tokenLimit = tokenDailyLimits[wallet][token];
+
+        // Keep the token list in sync so the frontend can enumerate configured tokens
+        if (tokenLimit.limit == 0 && limit != 0) {
+            limitedTokens[wallet].push(token);
+        } else if (tokenLimit.limit != 0 && limit == 0) {
+            _removeLimitedToken(wallet, token);
+            delete rollingSpends[wallet][token];
+        }
+
+        tokenLimit.limit = limit;
+
+        // Initialize lastReset if not set
+        if (tokenLimit.lastReset == 0) {
+            tokenLimit.lastReset = block.timestamp;
+        }
+
+        emit TokenDailyLimitSet(wallet, token, limit);
+    }
+
+    /**
+     * @notice Transfer ERC-20 tokens if below the token's daily limit
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address
+     * @param to Recipient address
+     * @param amount Amount to transfer in token units
+     * @dev The wallet's token balance must drop by amount, so tokens that return false
+     *      instead of reverting cannot consume the limit without moving funds
+     */
+    function executeTokenBelowLimit(
+        address wallet,
+        address token,
+        address to,
+        uint256 amount
+    ) external {
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.isOwner(msg.sender)) revert NotAnOwner();
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (to == address(0)) revert InvalidDestination();
+
+        DailyLimit storage limit = tokenDailyLimits[wallet][token];
+        if (limit.limit == 0) revert DailyLimitNotSet();
+
+        (uint256 remainingLimit, bool periodReset) = _consumeLimit(wallet, token, limit, amount);
+        if (periodReset) emit TokenDailyLimitReset(wallet, token);
+
+        // Execute transfer through wallet
+        uint256 balanceBefore = IERC20(token).balanceOf(wallet);
+        bool success = multisig.execTransactionFromModule(
+            token,
+            0,
+            abi.encodeCall(IERC20.transfer, (to, amount))
+        );
+        if (!success || IERC20(token).balanceOf(wallet) + amount != balanceBefore) revert TransactionFailed();
+
+        emit TokenTransactionExecuted(wallet, token, to, amount, remainingLimit);
+    }
+
+    /**
+     * @notice Internal function to charge an amount against a limit
+     * @param wallet Multisig wallet address
+     * @param token Token the limit applies to (address(0) for QUAI)
+     * @param limit Limit to charge
+     * @param amount Amount to spend
+     * @return remainingLimit Limit left after the spend
+     * @return periodReset True if a new fixed period started
+     * @dev Fixed periods advance in whole periods from lastReset, so a spend made late in
+     *      a period does not push the next reset back
+     */
+    function _consumeLimit(
+        address wallet,
+        address token,
+        DailyLimit storage limit,
+        uint256 amount
+    ) internal returns (uint256 remainingLimit, bool periodReset) {
+        (uint256 period, bool rolling) = _limitPeriod(wallet);
+
+        if (rolling) {
+            (uint256 windowSpent, ) = _windowSpent(wallet, token, period);
+            if (windowSpent + amount > limit.limit) revert ExceedsDailyLimit();
+            _recordSpend(rollingSpends[wallet][token], amount, period);
+            return (limit.limit - windowSpent - amount, false);
+        }
+
+        if (block.timestamp >= limit.lastReset + period) {
+            limit.spent = 0;
+            limit.lastReset += ((block.timestamp - limit.lastReset) / period) * period;
+            periodReset = true;
+        }
+
+        // Check if spend is within limit
+        if (limit.spent + amount > limit.limit) revert ExceedsDailyLimit();
+
+        // Update spent amount
+        limit.spent += amount;
+
+        return (limit.limit - limit.spent, periodReset);
+    }
+
+    /**
+     * @notice Internal function to add a spend to a rolling window
+     * @param ring Ring buffer for the limit
+     * @param amount Amount spent
+     * @param period Rolling window length
+     * @dev Reverts if the oldest tracked spend is still inside the window, since
+     *      overwriting it would make the window forget that spend
+     */
+    function _recordSpend(SpendRing storage ring, uint256 amount, uint256 period) internal {
+        Spend storage slot = ring.spends[ring.next];
+        if (slot.timestamp != 0 && slot.timestamp + period > block.timestamp) revert RollingWindowFull();
+
+        slot.amount = SafeCast.toUint192(amount);
+        slot.timestamp = uint64(block.timestamp);
+        ring.next = (ring.next + 1) % MAX_ROLLING_SPENDS;
+    }
+
+    /**
+     * @notice Internal function to sum the spends inside a rolling window
+     * @param wallet Multisig wallet address
+     * @param token Token the limit applies to (address(0) for QUAI)
+     * @param period Rolling window length
+     * @return total Amount spent within the window
+     * @return oldest Timestamp of the oldest spend within the window (0 if none)
+     */
+    function _windowSpent(
+        address wallet,
+        address token,
+        uint256 period
+    ) internal view returns (uint256 total, uint256 oldest) {
+        SpendRing storage ring = rollingSpends[wallet][token];
+
+        // Walk from newest to oldest; spends are chronological so stop at the first expired one
+        for (uint256 i = 1; i <= MAX_ROLLING_SPENDS; i++) {
+            Spend storage spend = ring.spends[(ring.next + MAX_ROLLING_SPENDS - i) % MAX_ROLLING_SPENDS];
+            if (spend.timestamp == 0 || spend.timestamp + period <= block.timestamp) {
+                break;
+            }
+            total += spend.amount;
+            oldest = spend.timestamp;
+        }
+    }
+
     /**
      * @notice Manually reset daily limit
      * @param wallet Multisig wallet address
@@ -134,50 +394,150 @@ contract DailyLimitModule {
         MultisigWallet multisig = MultisigWallet(payable(wallet));
         if (!multisig.modules(address(this))) revert ModuleNotEnabled();
 
-        DailyLimit storage limit = dailyLimits[wallet];
-        limit.spent = 0;
-        limit.lastReset = block.timestamp;
+        _resetLimit(wallet, address(0), dailyLimits[wallet]);
 
         emit DailyLimitReset(wallet);
     }
 
+    /**
+     * @notice Manually reset a token's daily limit
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function resetTokenDailyLimit(address wallet, address token) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+
+        _resetLimit(wallet, token, tokenDailyLimits[wallet][token]);
+
+        emit TokenDailyLimitReset(wallet, token);
+    }
+
+    /**
+     * @notice Internal function to clear a limit's spending and start a new period now
+     * @param wallet Multisig wallet address
+     * @param token Token the limit applies to (address(0) for QUAI)
+     * @param limit Limit to reset
+     */
+    function _resetLimit(address wallet, address token, DailyLimit storage limit) internal {
+        limit.spent = 0;
+        limit.lastReset = block.timestamp;
+        delete rollingSpends[wallet][token];
+    }
+
     /**
      * @notice Get remaining daily limit
      * @param wallet Multisig wallet address
      * @return Remaining limit in wei
      */
     function getRemainingLimit(address wallet) external view returns (uint256) {
-        DailyLimit memory limit = dailyLimits[wallet];
+        return _remainingLimit(wallet, address(0), dailyLimits[wallet]);
+    }
+
+    /**
+     * @notice Get a token's remaining daily limit
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address
+     * @return Remaining limit in token units
+     */
+    function getTokenRemainingLimit(address wallet, address token) external view returns (uint256) {
+        return _remainingLimit(wallet, token, tokenDailyLimits[wallet][token]);
+    }
 
-        if (limit.limit == 0) {
+    /**
+     * @notice Internal function to compute the unspent part of a limit
+     * @param wallet Multisig wallet address
+     * @param token Token the limit applies to (address(0) for QUAI)
+     * @param limit Limit to evaluate
+     * @return Remaining limit in the current period or rolling window
+     */
+    function _remainingLimit(
+        address wallet,
+        address token,
+        DailyLimit storage limit
+    ) internal view returns (uint256) {
+        uint256 spent = _currentSpent(wallet, token, limit);
+        if (spent >= limit.limit) {
             return 0;
         }
 
-        // Check if limit should be reset
-        if (block.timestamp >= limit.lastReset + 1 days) {
-            return limit.limit;
+        return limit.limit - spent;
+    }
+
+    /**
+     * @notice Internal function to get the amount counting against a limit right now
+     * @param wallet Multisig wallet address
+     * @param token Token the limit applies to (address(0) for QUAI)
+     * @param limit Limit to evaluate
+     * @return Amount spent in the current period or rolling window
+     */
+    function _currentSpent(
+        address wallet,
+        address token,
+        DailyLimit storage limit
+    ) internal view returns (uint256) {
+        (uint256 period, bool rolling) = _limitPeriod(wallet);
+
+        if (rolling) {
+            (uint256 total, ) = _windowSpent(wallet, token, period);
+            return total;
         }
 
-        if (limit.spent >= limit.limit) {
+        if (block.timestamp >= limit.lastReset + period) {
             return 0;
         }
 
-        return limit.limit - limit.spent;
+        return limit.spent;
     }
 
     /**
-     * @notice Get time until limit resets
+     * @notice Get time until limit capacity comes back
      * @param wallet Multisig wallet address
-     * @return Seconds until reset
+     * @return Seconds until reset (fixed periods) or until the oldest spend leaves the rolling window
      */
     function getTimeUntilReset(address wallet) external view returns (uint256) {
-        DailyLimit memory limit = dailyLimits[wallet];
+        return _timeUntilReset(wallet, address(0), dailyLimits[wallet]);
+    }
 
-        if (limit.lastReset == 0) {
-            return 0;
-        }
+    /**
+     * @notice Get time until a token limit's capacity comes back
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address
+     * @return Seconds until reset (fixed periods) or until the oldest spend leaves the rolling window
+     */
+    function getTokenTimeUntilReset(address wallet, address token) external view returns (uint256) {
+        return _timeUntilReset(wallet, token, tokenDailyLimits[wallet][token]);
+    }
 
-        uint256 resetTime = limit.lastReset + 1 days;
+    /**
+     * @notice Internal function to compute when a limit's capacity comes back
+     * @param wallet Multisig wallet address
+     * @param token Token the limit applies to (address(0) for QUAI)
+     * @param limit Limit to evaluate
+     * @return Seconds until capacity returns (0 when nothing is pending)
+     */
+    function _timeUntilReset(
+        address wallet,
+        address token,
+        DailyLimit storage limit
+    ) internal view returns (uint256) {
+        (uint256 period, bool rolling) = _limitPeriod(wallet);
+
+        uint256 resetTime;
+        if (rolling) {
+            (, uint256 oldest) = _windowSpent(wallet, token, period);
+            if (oldest == 0) {
+                return 0;
+            }
+            resetTime = oldest + period;
+        } else {
+            if (limit.lastReset == 0) {
+                return 0;
+            }
+            resetTime = limit.lastReset + period;
+        }
 
         if (block.timestamp >= resetTime) {
             return 0;
@@ -186,16 +546,109 @@ contract DailyLimitModule {
         return resetTime - block.timestamp;
     }
 
+    /**
+     * @notice Get the spends still counting against a rolling window
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address (address(0) for QUAI)
+     * @return spends Spends inside the window, oldest first; each frees capacity at timestamp + period
+     */
+    function getRollingSpends(address wallet, address token) external view returns (Spend[] memory spends) {
+        (uint256 period, bool rolling) = _limitPeriod(wallet);
+        if (!rolling) {
+            return spends;
+        }
+
+        SpendRing storage ring = rollingSpends[wallet][token];
+        Spend[] memory buffer = new Spend[](MAX_ROLLING_SPENDS);
+        uint256 count = 0;
+        for (uint256 i = 1; i <= MAX_ROLLING_SPENDS; i++) {
+            Spend memory spend = ring.spends[(ring.next + MAX_ROLLING_SPENDS - i) % MAX_ROLLING_SPENDS];
+            if (spend.timestamp == 0 || spend.timestamp + period <= block.timestamp) {
+                break;
+            }
+            buffer[count++] = spend;
+        }
+
+        spends = new Spend[](count);
+        for (uint256 i = 0; i < count; i++) {
+            spends[i] = buffer[count - 1 - i];
+        }
+    }
+
+    /**
+     * @notice Get a wallet's limit period configuration
+     * @param wallet Multisig wallet address
+     * @return period Period length in seconds
+     * @return rolling Whether the period is a rolling window
+     */
+    function getLimitPeriod(address wallet) external view returns (uint256 period, bool rolling) {
+        return _limitPeriod(wallet);
+    }
+
+    /**
+     * @notice Internal function to read a wallet's limit period, applying the default
+     * @param wallet Multisig wallet address
+     * @return period Period length in seconds
+     * @return rolling Whether the period is a rolling window
+     */
+    function _limitPeriod(address wallet) internal view returns (uint256 period, bool rolling) {
+        LimitPeriod memory config = limitPeriods[wallet];
+        return (config.period == 0 ? DEFAULT_PERIOD : config.period, config.rolling);
+    }
+
     /**
      * @notice Get daily limit configuration
      * @param wallet Multisig wallet address
-     * @return Daily limit details
+     * @return Daily limit details (spent is the amount counting against the current period or window)
      */
     function getDailyLimit(address wallet)
         external
         view
         returns (DailyLimit memory)
     {
-        return dailyLimits[wallet];
+        DailyLimit memory limit = dailyLimits[wallet];
+        limit.spent = _currentSpent(wallet, address(0), dailyLimits[wallet]);
+        return limit;
+    }
+
+    /**
+     * @notice Get a token's daily limit configuration
+     * @param wallet Multisig wallet address
+     * @param token ERC-20 token address
+     * @return Token daily limit details (spent is the amount counting against the current period or window)
+     */
+    function getTokenDailyLimit(address wallet, address token)
+        external
+        view
+        returns (DailyLimit memory)
+    {
+        DailyLimit memory limit = tokenDailyLimits[wallet][token];
+        limit.spent = _currentSpent(wallet, token, tokenDailyLimits[wallet][token]);
+        return limit;
+    }
+
+    /**
+     * @notice Get the tokens with a daily limit configured
+     * @param wallet Multisig wallet address
+     * @return Token addresses
+     */
+    function getLimitedTokens(address wallet) external view returns (address[] memory) {
+        return limitedTokens[wallet];
+    }
+
+    /**
+     * @notice Internal function to remove a token from a wallet's limited token list
+     * @param wallet Multisig wallet address
+     * @param token Token to remove
+     */
+    function _removeLimitedToken(address wallet, address token) internal {
+        address[] storage tokens = limitedTokens[wallet];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (tokens[i] == token) {
+                tokens[i] = tokens[tokens.length - 1];
+                tokens.pop();
+                break;
+            }
+        }
     }
 }
@@ -0,0 +1,371 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../MultisigWallet.sol";
+import "../guards/ITransactionGuard.sol";
+
+/**
+ * @title DelayModule
+ * @dev Module for time-delayed execution of multisig transactions
+ * @notice Approved transactions are queued and can only execute after a cooldown,
+ *         during which any owner can veto them. Installing the module as the wallet's
+ *         guard makes the cooldown mandatory for owner executions by blocking direct execution.
+ *         Other enabled modules (daily limit, whitelist, recovery, ...) still execute immediately
+ *         under their own rules; they only lose the ability to change the delay.
+ */
+contract DelayModule is ITransactionGuard {
+    /// @notice Structure representing a transaction waiting out its cooldown
+    /// @dev Created when the wallet queues a transaction through a multisig proposal
+    struct QueuedTransaction {
+        /// @notice Destination address
+        address to;
+        /// @notice Amount to send (in wei)
+        uint256 value;
+        /// @notice Call data
+        bytes data;
+        /// @notice Timestamp after which the transaction can be executed
+        uint256 executeAfter;
+        /// @notice Whether this transaction has been executed
+        bool executed;
+    }
+
+    // Custom errors (gas efficient)
+    error MustBeCalledByWallet();
+    error ModuleNotEnabled();
+    error NotAnOwner();
+    error InvalidDestination();
+    error InvalidDelay();
+    error DelayNotSet();
+    error TransactionNotQueued();
+    error TransactionAlreadyExecuted();
+    error CooldownNotElapsed();
+    error TransactionFailed();
+    error ExecutionNotQueued();
+    error ModuleCannotChangeDelay();
+    error TooManyQueuedTransactions();
+
+    /// @notice Maximum pending queued transactions per wallet
+    /// @dev Bounds the guard's scan on every owner execution and pending-list removal
+    uint256 public constant MAX_QUEUED_TRANSACTIONS = 20;
+
+    /// @notice Mapping from wallet address to its cooldown (in seconds)
+    /// @dev Changing the delay does not affect transactions that are already queued
+    mapping(address => uint256) public delays;
+
+    /// @notice Mapping from wallet address to queue hash to queued transaction details
+    /// @dev Double mapping enables multiple concurrent queued transactions per wallet
+    mapping(address => mapping(bytes32 => QueuedTransaction)) public queuedTransactions;
+
+    /// @notice Nonce per wallet to ensure unique queue hashes
+    /// @dev Incremented on each queue so identical transactions get distinct hashes
+    mapping(address => uint256) public queueNonces;
+
+    /// @notice Array of pending queue hashes per wallet
+    /// @dev Cleaned up on execution/veto via swap-and-pop
+    mapping(address => bytes32[]) public pendingTransactionHashes;
+
+    /// @notice Mapping from wallet address to wallet transaction hash to the queued transaction it matched
+    /// @dev Set by checkTransaction and cleared by checkAfterExecution, so a failed call stays queued
+    mapping(address => mapping(bytes32 => bytes32)) internal matchedQueueHashes;
+
+    /// @notice Emitted when the cooldown is set or updated
+    /// @param wallet Address of the multisig wallet
+    /// @param delay New cooldown in seconds
+    event DelaySet(address indexed wallet, uint256 delay);
+
+    /// @notice Emitted when a transaction is queued
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Unique hash identifying the queued transaction
+    /// @param to Destination address
+    /// @param value Amount to send in wei
+    /// @param data Call data
+    /// @param executeAfter Timestamp after which the transaction can be executed
+    event TransactionQueued(
+        address indexed wallet,
+        bytes32 indexed txHash,
+        address indexed to,
+        uint256 value,
+        bytes data,
+        uint256 executeAfter
+    );
+
+    /// @notice Emitted when an owner vetoes a queued transaction
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Hash of the vetoed transaction
+    /// @param owner Owner who vetoed the transaction
+    event TransactionVetoed(
+        address indexed wallet,
+        bytes32 indexed txHash,
+        address indexed owner
+    );
+
+    /// @notice Emitted when a queued transaction is executed after its cooldown
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Hash of the executed transaction
+    event QueuedTransactionExecuted(
+        address indexed wallet,
+        bytes32 indexed txHash
+    );
+
+    /**
+     * @notice Set the cooldown for queued transactions
+     * @param wallet Multisig wallet address
+     * @param delay Cooldown in seconds
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      This prevents a single owner from unilaterally shortening the cooldown
+     */
+    function setDelay(address wallet, uint256 delay) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (delay == 0) revert InvalidDelay();
+
+        delays[wallet] = delay;
+
+        emit DelaySet(wallet, delay);
+    }
+
+    /**
+     * @notice Queue a transaction for delayed execution
+     * @param wallet Multisig wallet address
+     * @param to Destination address
+     * @param value Amount to send
+     * @param data Call data
+     * @return txHash Hash of the queued transaction
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet),
+     *      so only transactions that reached the approval threshold can be queued
+     */
+    function queueTransaction(
+        address wallet,
+        address to,
+        uint256 value,
+        bytes memory data
+    ) external returns (bytes32) {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (to == address(0)) revert InvalidDestination();
+
+        uint256 delay = delays[wallet];
+        if (delay == 0) revert DelayNotSet();
+        if (pendingTransactionHashes[wallet].length >= MAX_QUEUED_TRANSACTIONS) revert TooManyQueuedTransactions();
+
+        queueNonces[wallet]++;
+        bytes32 txHash = getQueueHash(wallet, to, value, data, queueNonces[wallet]);
+        uint256 executeAfter = block.timestamp + delay;
+
+        queuedTransactions[wallet][txHash] = QueuedTransaction({
+            to: to,
+            value: value,
+            data: data,
+            executeAfter: executeAfter,
+            executed: false
+        });
+
+        pendingTransactionHashes[wallet].push(txHash);
+
+        emit TransactionQueued(wallet, txHash, to, value, data, executeAfter);
+
+        return txHash;
+    }
+
+    /**
+     * @notice Execute a queued transaction once its cooldown has elapsed
+     * @param wallet Multisig wallet address
+     * @param txHash Hash of the queued transaction
+     */
+    function executeQueuedTransaction(address wallet, bytes32 txHash) external {
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.isOwner(msg.sender)) revert NotAnOwner();
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+
+        QueuedTransaction storage queued = queuedTransactions[wallet][txHash];
+        if (queued.executeAfter == 0) revert TransactionNotQueued();
+        if (queued.executed) revert TransactionAlreadyExecuted();
+        if (block.timestamp < queued.executeAfter) revert CooldownNotElapsed();
+
+        queued.executed = true;
+        _removePendingTransaction(wallet, txHash);
+
+        bool success = multisig.execTransactionFromModule(queued.to, queued.value, queued.data);
+        if (!success) revert TransactionFailed();
+
+        emit QueuedTransactionExecuted(wallet, txHash);
+    }
+
+    /**
+     * @notice Veto a queued transaction (can be done by any current owner)
+     * @param wallet Multisig wallet address
+     * @param txHash Hash of the queued transaction
+     * @dev A single owner is enough so a compromised-key proposal can be stopped
+     *      before funds move, even if the remaining keys cannot reach the threshold
+     */
+    function vetoTransaction(address wallet, bytes32 txHash) external {
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.isOwner(msg.sender)) revert NotAnOwner();
+
+        QueuedTransaction storage queued = queuedTransactions[wallet][txHash];
+        if (queued.executeAfter == 0) revert TransactionNotQueued();
+        if (queued.executed) revert TransactionAlreadyExecuted();
+
+        _removePendingTransaction(wallet, txHash);
+
+        delete queuedTransactions[wallet][txHash];
+
+        emit TransactionVetoed(wallet, txHash, msg.sender);
+    }
+
+    /**
+     * @notice Reject owner executions that skip the cooldown
+     * @dev msg.sender is the wallet. Only enforced while the module is enabled and a delay is set.
+     *      Module executions (zero txHash) are NOT delayed, so enabled modules keep bypassing the
+     *      cooldown within their own limits; only calls from other modules to this module (which
+     *      could shorten the delay) are rejected. Proposals that queue a transaction pass through.
+     *      Any other execution must match a queued transaction whose cooldown has elapsed, which
+     *      is consumed by checkAfterExecution once the call succeeds. This lets calls modules cannot
+     *      make (setGuard, disableModule, multiSend, upgradeTo) run through the wallet once they have
+     *      waited out the cooldown.
+     * @param txHash Transaction hash (zero for module executions)
+     * @param to Destination address
+     * @param value Amount of Quai to send
+     * @param data Transaction data
+     * @param executor Address that triggered the execution (owner or module)
+     */
+    function checkTransaction(
+        bytes32 txHash,
+        address to,
+        uint256 value,
+        bytes calldata data,
+        address executor
+    ) external override {
+        address wallet = msg.sender;
+        if (delays[wallet] == 0) return;
+        if (!MultisigWallet(payable(wallet)).modules(address(this))) return;
+        if (txHash == bytes32(0)) {
+            if (to == address(this) && executor != address(this)) revert ModuleCannotChangeDelay();
+            return;
+        }
+        if (to == address(this) && data.length >= 4 && bytes4(data) == this.queueTransaction.selector) return;
+
+        bytes32[] storage pending = pendingTransactionHashes[wallet];
+        for (uint256 i = 0; i < pending.length; i++) {
+            bytes32 queueHash = pending[i];
+            QueuedTransaction storage queued = queuedTransactions[wallet][queueHash];
+            if (
+                queued.to == to &&
+                queued.value == value &&
+                keccak256(queued.data) == keccak256(data) &&
+                block.timestamp >= queued.executeAfter
+            ) {
+                matchedQueueHashes[wallet][txHash] = queueHash;
+                return;
+            }
+        }
+
+        revert ExecutionNotQueued();
+    }
+
+    /**
+     * @notice Consume the queued transaction matched by checkTransaction once its call succeeded
+     * @dev msg.sender is the wallet. A failed call (e.g. from tryExecuteTransaction) leaves the
+     *      entry queued so the proposal can be retried without waiting out the cooldown again.
+     * @param txHash Transaction hash passed to checkTransaction
+     * @param success Whether the call succeeded
+     */
+    function checkAfterExecution(bytes32 txHash, bool success) external override {
+        address wallet = msg.sender;
+        bytes32 queueHash = matchedQueueHashes[wallet][txHash];
+        if (queueHash == bytes32(0)) return;
+
+        delete matchedQueueHashes[wallet][txHash];
+        if (!success) return;
+
+        queuedTransactions[wallet][queueHash].executed = true;
+        _removePendingTransaction(wallet, queueHash);
+
+        emit QueuedTransactionExecuted(wallet, queueHash);
+    }
+
+    /**
+     * @notice Get queue hash
+     * @param wallet Wallet address
+     * @param to Destination address
+     * @param value Amount to send
+     * @param data Call data
+     * @param nonce Unique nonce to ensure queue hash uniqueness
+     * @return Unique bytes32 hash identifying this queued transaction
+     */
+    function getQueueHash(
+        address wallet,
+        address to,
+        uint256 value,
+        bytes memory data,
+        uint256 nonce
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(wallet, to, value, data, nonce));
+    }
+
+    /**
+     * @notice Get queued transaction details
+     * @param wallet Wallet address
+     * @param txHash Hash of the queued transaction
+     * @return Queued transaction details
+     */
+    function getQueuedTransaction(address wallet, bytes32 txHash)
+        external
+        view
+        returns (QueuedTransaction memory)
+    {
+        return queuedTransactions[wallet][txHash];
+    }
+
+    /**
+     * @notice Get all pending queue hashes for a wallet
+     * @param wallet Wallet address
+     * @return Array of pending queue hashes
+     */
+    function getPendingTransactionHashes(address wallet)
+        external
+        view
+        returns (bytes32[] memory)
+    {
+        return pendingTransactionHashes[wallet];
+    }
+
+    /**
+     * @notice Get time until a queued transaction can be executed
+     * @param wallet Wallet address
+     * @param txHash Hash of the queued transaction
+     * @return Seconds until executable (0 if executable or not queued)
+     */
+    function getTimeUntilExecutable(address wallet, bytes32 txHash)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 executeAfter = queuedTransactions[wallet][txHash].executeAfter;
+
+        if (block.timestamp >= executeAfter) {
+            return 0;
+        }
+
+        return executeAfter - block.timestamp;
+    }
+
+    /**
+     * @notice Internal function to remove a transaction from pending list
+     * @param wallet Wallet address
+     * @param txHash Queue hash to remove
+     */
+    function _removePendingTransaction(address wallet, bytes32 txHash) internal {
+        bytes32[] storage pending = pendingTransactionHashes[wallet];
+        for (uint256 i = 0; i < pending.length; i++) {
+            if (pending[i] == txHash) {
+                // Move last element to current position and pop
+                pending[i] = pending[pending.length - 1];
+                pending.pop();
+                break;
+            }
+        }
+    }
+}
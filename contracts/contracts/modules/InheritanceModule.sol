@@ -0,0 +1,580 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../MultisigWallet.sol";
+
+/**
+ * @title InheritanceModule
+ * @dev Inactivity-based inheritance ("dead man's switch") for multisig wallets
+ * @notice Lets beneficiaries take control of a wallet, or sweep its QUAI, once the owners have been
+ *         inactive for a configured period
+ * @dev Owner activity is the later of the wallet's lastOwnerActivity (proposals and approvals) and the
+ *      last heartbeat sent to this module. Claims follow the SocialRecoveryModule flow: a beneficiary
+ *      initiates, beneficiaries approve up to the threshold, and anyone executes. Any owner activity
+ *      after a claim was initiated invalidates it, and an approved claim can only execute once
+ *      CLAIM_PERIOD has passed since initiation, giving the owners time to respond.
+ */
+contract InheritanceModule {
+    /// @notice Shortest inactivity period that can be configured
+    uint256 public constant MIN_INACTIVITY_PERIOD = 30 days;
+
+    /// @notice Challenge window between initiating a claim and executing it
+    /// @dev Any owner activity during the window invalidates the claim
+    uint256 public constant CLAIM_PERIOD = 7 days;
+
+    // Custom errors (gas efficient)
+    error MustBeCalledByWallet();
+    error BeneficiariesRequired();
+    error InvalidThreshold();
+    error InactivityPeriodTooShort();
+    error InvalidBeneficiaryAddress();
+    error DuplicateBeneficiary();
+    error InheritanceNotConfigured();
+    error NotABeneficiary();
+    error NotAnOwner();
+    error OwnersStillActive();
+    error NewOwnersRequired();
+    error InvalidRecipient();
+    error ClaimAlreadyInitiated();
+    error ClaimNotInitiated();
+    error ClaimAlreadyExecuted();
+    error AlreadyApproved();
+    error NotApproved();
+    error NotEnoughApprovals();
+    error ClaimPeriodNotElapsed();
+    error SweepFailed();
+
+    /// @notice What an executed claim does
+    enum ClaimType {
+        /// @notice Replace the owners and threshold
+        Control,
+        /// @notice Send the wallet's whole QUAI balance to a recipient
+        Sweep
+    }
+
+    /// @notice Inheritance configuration of a wallet
+    /// @dev Stored per-wallet, set by wallet owners
+    struct InheritanceConfig {
+        /// @notice Addresses who can initiate and approve claims
+        address[] beneficiaries;
+        /// @notice Number of beneficiary approvals required to execute a claim
+        uint256 threshold;
+        /// @notice Seconds without owner activity before claims can be initiated
+        uint256 inactivityPeriod;
+    }
+
+    /// @notice A beneficiary claim on an inactive wallet
+    struct Claim {
+        /// @notice Control or Sweep
+        ClaimType claimType;
+        /// @notice New owner addresses (Control claims)
+        address[] newOwners;
+        /// @notice New threshold (Control claims)
+        uint256 newThreshold;
+        /// @notice Address receiving the balance (Sweep claims)
+        address recipient;
+        /// @notice Number of beneficiaries who have approved this claim
+        uint256 approvalCount;
+        /// @notice Threshold required at initiation time (prevents config manipulation attacks)
+        uint256 requiredThreshold;
+        /// @notice Timestamp when the claim was initiated (0 = no claim)
+        uint256 initiatedAt;
+        /// @notice Timestamp after which the claim can be executed
+        uint256 executionTime;
+        /// @notice Whether this claim has been executed
+        bool executed;
+    }
+
+    /// @notice Mapping from wallet address to its inheritance configuration
+    mapping(address => InheritanceConfig) public inheritanceConfigs;
+
+    /// @notice Timestamp of the last heartbeat (or configuration) per wallet
+    mapping(address => uint256) public lastHeartbeat;
+
+    /// @notice Mapping from wallet address to claim hash to claim details
+    mapping(address => mapping(bytes32 => Claim)) public claims;
+
+    /// @notice Mapping tracking which beneficiaries have approved which claims
+    mapping(address => mapping(bytes32 => mapping(address => bool))) public claimApprovals;
+
+    /// @notice Nonce per wallet to ensure unique claim hashes
+    mapping(address => uint256) public claimNonces;
+
+    /// @notice Array of pending claim hashes per wallet
+    /// @dev Cleared on heartbeats, configuration and execution
+    mapping(address => bytes32[]) public pendingClaimHashes;
+
+    /// @notice Emitted when inheritance is configured for a wallet
+    /// @param wallet Address of the multisig wallet
+    /// @param beneficiaries Beneficiary addresses
+    /// @param threshold Number of approvals required
+    /// @param inactivityPeriod Seconds of inactivity before claims open
+    event InheritanceSetup(
+        address indexed wallet,
+        address[] beneficiaries,
+        uint256 threshold,
+        uint256 inactivityPeriod
+    );
+
+    /// @notice Emitted when an owner signals they are still active
+    /// @param wallet Address of the multisig wallet
+    /// @param owner Owner who sent the heartbeat
+    event Heartbeat(address indexed wallet, address indexed owner);
+
+    /// @notice Emitted when a beneficiary initiates a claim
+    /// @param wallet Address of the multisig wallet
+    /// @param claimHash Unique hash identifying this claim
+    /// @param claimType Control or Sweep
+    /// @param initiator Beneficiary who initiated the claim
+    event ClaimInitiated(
+        address indexed wallet,
+        bytes32 indexed claimHash,
+        ClaimType claimType,
+        address indexed initiator
+    );
+
+    /// @notice Emitted when a beneficiary approves a claim
+    /// @param wallet Address of the multisig wallet
+    /// @param claimHash Hash of the claim being approved
+    /// @param beneficiary Address of the approving beneficiary
+    event ClaimApproved(
+        address indexed wallet,
+        bytes32 indexed claimHash,
+        address indexed beneficiary
+    );
+
+    /// @notice Emitted when a beneficiary revokes their approval
+    /// @param wallet Address of the multisig wallet
+    /// @param claimHash Hash of the claim
+    /// @param beneficiary Address of the beneficiary who revoked
+    event ClaimApprovalRevoked(
+        address indexed wallet,
+        bytes32 indexed claimHash,
+        address indexed beneficiary
+    );
+
+    /// @notice Emitted when a claim is executed
+    /// @param wallet Address of the multisig wallet
+    /// @param claimHash Hash of the executed claim
+    /// @param claimType Control or Sweep
+    event ClaimExecuted(
+        address indexed wallet,
+        bytes32 indexed claimHash,
+        ClaimType claimType
+    );
+
+    /// @notice Emitted when a pending claim is discarded by owner activity or another claim
+    /// @param wallet Address of the multisig wallet
+    /// @param claimHash Hash of the discarded claim
+    event ClaimCancelled(
+        address indexed wallet,
+        bytes32 indexed claimHash
+    );
+
+    /**
+     * @notice Set up inheritance for a wallet
+     * @param wallet Multisig wallet address
+     * @param beneficiaries Beneficiary addresses
+     * @param threshold Number of beneficiary approvals required
+     * @param inactivityPeriod Seconds without owner activity before claims can be initiated
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      Counts as a heartbeat and discards any pending claims
+     */
+    function setupInheritance(
+        address wallet,
+        address[] memory beneficiaries,
+        uint256 threshold,
+        uint256 inactivityPeriod
+    ) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        if (beneficiaries.length == 0) revert BeneficiariesRequired();
+        if (threshold == 0 || threshold > beneficiaries.length) revert InvalidThreshold();
+        if (inactivityPeriod < MIN_INACTIVITY_PERIOD) revert InactivityPeriodTooShort();
+
+        for (uint256 i = 0; i < beneficiaries.length; i++) {
+            if (beneficiaries[i] == address(0)) revert InvalidBeneficiaryAddress();
+            // Check for duplicates
+            for (uint256 j = i + 1; j < beneficiaries.length; j++) {
+                if (beneficiaries[i] == beneficiaries[j]) revert DuplicateBeneficiary();
+            }
+        }
+
+        inheritanceConfigs[wallet] = InheritanceConfig({
+            beneficiaries: beneficiaries,
+            threshold: threshold,
+            inactivityPeriod: inactivityPeriod
+        });
+        lastHeartbeat[wallet] = block.timestamp;
+        _clearPendingClaims(wallet);
+
+        emit InheritanceSetup(wallet, beneficiaries, threshold, inactivityPeriod);
+    }
+
+    /**
+     * @notice Signal that the owners are still active, restarting the inactivity countdown
+     * @param wallet Multisig wallet address
+     * @dev Callable by any single owner. Discards any pending claims.
+     */
+    function heartbeat(address wallet) external {
+        if (!MultisigWallet(payable(wallet)).isOwner(msg.sender)) revert NotAnOwner();
+        if (inheritanceConfigs[wallet].beneficiaries.length == 0) revert InheritanceNotConfigured();
+
+        lastHeartbeat[wallet] = block.timestamp;
+        _clearPendingClaims(wallet);
+
+        emit Heartbeat(wallet, msg.sender);
+    }
+
+    /**
+     * @notice Initiate a claim to replace the owners of an inactive wallet
+     * @param wallet Multisig wallet address
+     * @param newOwners New owners after the claim
+     * @param newThreshold New threshold after the claim
+     * @return claimHash Hash of the claim
+     */
+    function initiateClaim(
+        address wallet,
+        address[] memory newOwners,
+        uint256 newThreshold
+    ) external returns (bytes32) {
+        if (newOwners.length == 0) revert NewOwnersRequired();
+        if (newThreshold == 0 || newThreshold > newOwners.length) revert InvalidThreshold();
+
+        return _initiateClaim(wallet, ClaimType.Control, newOwners, newThreshold, address(0));
+    }
+
+    /**
+     * @notice Initiate a claim to send an inactive wallet's QUAI balance to a recipient
+     * @dev The balance is read at execution time. Tokens and NFTs are not swept; claim control to move them.
+     * @param wallet Multisig wallet address
+     * @param recipient Address receiving the balance
+     * @return claimHash Hash of the claim
+     */
+    function initiateSweep(address wallet, address recipient) external returns (bytes32) {
+        if (recipient == address(0)) revert InvalidRecipient();
+
+        return _initiateClaim(wallet, ClaimType.Sweep, new address[](0), 0, recipient);
+    }
+
+    /**
+     * @notice Internal function to record a new claim
+     * @param wallet Multisig wallet address
+     * @param claimType Control or Sweep
+     * @param newOwners New owners (Control claims)
+     * @param newThreshold New threshold (Control claims)
+     * @param recipient Balance recipient (Sweep claims)
+     * @return claimHash Hash of the claim
+     */
+    function _initiateClaim(
+        address wallet,
+        ClaimType claimType,
+        address[] memory newOwners,
+        uint256 newThreshold,
+        address recipient
+    ) internal returns (bytes32) {
+        InheritanceConfig memory config = inheritanceConfigs[wallet];
+        if (config.beneficiaries.length == 0) revert InheritanceNotConfigured();
+        if (!isBeneficiary(wallet, msg.sender)) revert NotABeneficiary();
+        if (block.timestamp < getLastActivity(wallet) + config.inactivityPeriod) revert OwnersStillActive();
+
+        // Increment nonce to ensure unique claim hash
+        claimNonces[wallet]++;
+        bytes32 claimHash = getClaimHash(
+            wallet,
+            claimType,
+            newOwners,
+            newThreshold,
+            recipient,
+            claimNonces[wallet]
+        );
+
+        if (claims[wallet][claimHash].initiatedAt != 0) revert ClaimAlreadyInitiated();
+
+        claims[wallet][claimHash] = Claim({
+            claimType: claimType,
+            newOwners: newOwners,
+            newThreshold: newThreshold,
+            recipient: recipient,
+            approvalCount: 0,
+            requiredThreshold: config.threshold, // Store threshold at initiation time
+            initiatedAt: block.timestamp,
+            executionTime: block.timestamp + CLAIM_PERIOD,
+            executed: false
+        });
+
+        pendingClaimHashes[wallet].push(claimHash);
+
+        emit ClaimInitiated(wallet, claimHash, claimType, msg.sender);
+
+        return claimHash;
+    }
+
+    /**
+     * @notice Approve a claim
+     * @param wallet Multisig wallet address
+     * @param claimHash Claim hash
+     */
+    function approveClaim(address wallet, bytes32 claimHash) external {
+        if (!isBeneficiary(wallet, msg.sender)) revert NotABeneficiary();
+        if (claims[wallet][claimHash].initiatedAt == 0) revert ClaimNotInitiated();
+        if (claims[wallet][claimHash].executed) revert ClaimAlreadyExecuted();
+        if (claimApprovals[wallet][claimHash][msg.sender]) revert AlreadyApproved();
+
+        claimApprovals[wallet][claimHash][msg.sender] = true;
+        claims[wallet][claimHash].approvalCount++;
+
+        emit ClaimApproved(wallet, claimHash, msg.sender);
+    }
+
+    /**
+     * @notice Revoke approval for a claim
+     * @param wallet Multisig wallet address
+     * @param claimHash Claim hash
+     */
+    function revokeClaimApproval(address wallet, bytes32 claimHash) external {
+        if (!isBeneficiary(wallet, msg.sender)) revert NotABeneficiary();
+        if (claims[wallet][claimHash].initiatedAt == 0) revert ClaimNotInitiated();
+        if (claims[wallet][claimHash].executed) revert ClaimAlreadyExecuted();
+        if (!claimApprovals[wallet][claimHash][msg.sender]) revert NotApproved();
+
+        claimApprovals[wallet][claimHash][msg.sender] = false;
+        claims[wallet][claimHash].approvalCount--;
+
+        emit ClaimApprovalRevoked(wallet, claimHash, msg.sender);
+    }
+
+    /**
+     * @notice Execute an approved claim (callable by anyone)
+     * @param wallet Multisig wallet address
+     * @param claimHash Claim hash
+     * @dev Reverts before the claim period has elapsed, or if any owner was active after the claim
+     *      was initiated. Other pending claims are discarded.
+     */
+    function executeClaim(address wallet, bytes32 claimHash) external {
+        Claim storage claim = claims[wallet][claimHash];
+
+        if (claim.initiatedAt == 0) revert ClaimNotInitiated();
+        if (claim.executed) revert ClaimAlreadyExecuted();
+        // SECURITY: Use threshold stored at initiation time, not current config
+        if (claim.approvalCount < claim.requiredThreshold) revert NotEnoughApprovals();
+        if (block.timestamp < claim.executionTime) revert ClaimPeriodNotElapsed();
+        if (getLastActivity(wallet) >= claim.initiatedAt) revert OwnersStillActive();
+
+        claim.executed = true;
+
+        _removePendingClaim(wallet, claimHash);
+        _clearPendingClaims(wallet);
+
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+
+        if (claim.claimType == ClaimType.Sweep) {
+            uint256 balance = wallet.balance;
+            if (balance > 0 && !multisig.execTransactionFromModule(claim.recipient, balance, "")) {
+                revert SweepFailed();
+            }
+        } else {
+            _replaceOwners(multisig, claim.newOwners, claim.newThreshold);
+            // The new owners start with a full inactivity period
+            lastHeartbeat[wallet] = block.timestamp;
+        }
+
+        emit ClaimExecuted(wallet, claimHash, claim.claimType);
+    }
+
+    /**
+     * @notice Internal function to replace a wallet's owners and threshold
+     * @dev Same sequence as SocialRecoveryModule.executeRecovery
+     * @param multisig Wallet to update
+     * @param newOwners New owner addresses
+     * @param newThreshold New threshold
+     */
+    function _replaceOwners(
+        MultisigWallet multisig,
+        address[] memory newOwners,
+        uint256 newThreshold
+    ) internal {
+        address wallet = address(multisig);
+        address[] memory oldOwners = multisig.getOwners();
+
+        // Add new owners first (order matters for threshold validation)
+        for (uint256 i = 0; i < newOwners.length; i++) {
+            if (!multisig.isOwner(newOwners[i])) {
+                multisig.execTransactionFromModule(
+                    wallet,
+                    0,
+                    abi.encodeWithSelector(MultisigWallet.addOwner.selector, newOwners[i])
+                );
+            }
+        }
+
+        // Drop the threshold to 1 while old owners are removed so weighted owners cannot block it
+        multisig.execTransactionFromModule(
+            wallet,
+            0,
+            abi.encodeWithSelector(MultisigWallet.changeThreshold.selector, 1)
+        );
+
+        // Remove old owners that are not in new owners list
+        for (uint256 i = 0; i < oldOwners.length; i++) {
+            bool keepOwner = false;
+            for (uint256 j = 0; j < newOwners.length; j++) {
+                if (oldOwners[i] == newOwners[j]) {
+                    keepOwner = true;
+                    break;
+                }
+            }
+            if (!keepOwner) {
+                multisig.execTransactionFromModule(
+                    wallet,
+                    0,
+                    abi.encodeWithSelector(MultisigWallet.removeOwner.selector, oldOwners[i])
+                );
+            }
+        }
+
+        multisig.execTransactionFromModule(
+            wallet,
+            0,
+            abi.encodeWithSelector(MultisigWallet.changeThreshold.selector, newThreshold)
+        );
+    }
+
+    /**
+     * @notice Get the last owner activity of a wallet
+     * @dev The later of the last heartbeat and the wallet's lastOwnerActivity. Wallets on an
+     *      implementation without lastOwnerActivity fall back to heartbeats.
+     * @param wallet Wallet address
+     * @return Timestamp of the last owner activity
+     */
+    function getLastActivity(address wallet) public view returns (uint256) {
+        uint256 last = lastHeartbeat[wallet];
+        try MultisigWallet(payable(wallet)).lastOwnerActivity() returns (uint256 walletActivity) {
+            return walletActivity > last ? walletActivity : last;
+        } catch {
+            return last;
+        }
+    }
+
+    /**
+     * @notice Get the time from which beneficiaries can initiate claims
+     * @param wallet Wallet address
+     * @return Timestamp when the wallet counts as inactive (0 if inheritance is not configured)
+     */
+    function getClaimableAt(address wallet) public view returns (uint256) {
+        uint256 inactivityPeriod = inheritanceConfigs[wallet].inactivityPeriod;
+        if (inactivityPeriod == 0) {
+            return 0;
+        }
+        return getLastActivity(wallet) + inactivityPeriod;
+    }
+
+    /**
+     * @notice Check whether a wallet's owners have been inactive for the configured period
+     * @param wallet Wallet address
+     * @return True if beneficiaries can initiate claims
+     */
+    function isInactive(address wallet) external view returns (bool) {
+        uint256 claimableAt = getClaimableAt(wallet);
+        return claimableAt != 0 && block.timestamp >= claimableAt;
+    }
+
+    /**
+     * @notice Get claim hash
+     * @param wallet Wallet address
+     * @param claimType Control or Sweep
+     * @param newOwners New owners (Control claims)
+     * @param newThreshold New threshold (Control claims)
+     * @param recipient Balance recipient (Sweep claims)
+     * @param nonce Unique nonce to ensure claim hash uniqueness
+     * @return Unique bytes32 hash identifying this claim
+     */
+    function getClaimHash(
+        address wallet,
+        ClaimType claimType,
+        address[] memory newOwners,
+        uint256 newThreshold,
+        address recipient,
+        uint256 nonce
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(wallet, uint8(claimType), newOwners, newThreshold, recipient, nonce));
+    }
+
+    /**
+     * @notice Check if address is a beneficiary
+     * @param wallet Wallet address
+     * @param beneficiary Address to check
+     * @return True if beneficiary
+     */
+    function isBeneficiary(address wallet, address beneficiary) public view returns (bool) {
+        address[] memory beneficiaries = inheritanceConfigs[wallet].beneficiaries;
+        for (uint256 i = 0; i < beneficiaries.length; i++) {
+            if (beneficiaries[i] == beneficiary) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @notice Get inheritance configuration
+     * @param wallet Wallet address
+     * @return config Inheritance configuration
+     */
+    function getInheritanceConfig(address wallet)
+        external
+        view
+        returns (InheritanceConfig memory)
+    {
+        return inheritanceConfigs[wallet];
+    }
+
+    /**
+     * @notice Get claim details
+     * @param wallet Wallet address
+     * @param claimHash Claim hash
+     * @return claim Claim details
+     */
+    function getClaim(address wallet, bytes32 claimHash) external view returns (Claim memory) {
+        return claims[wallet][claimHash];
+    }
+
+    /**
+     * @notice Get all pending claim hashes for a wallet
+     * @param wallet Wallet address
+     * @return Array of pending claim hashes
+     */
+    function getPendingClaimHashes(address wallet) external view returns (bytes32[] memory) {
+        return pendingClaimHashes[wallet];
+    }
+
+    /**
+     * @notice Internal function to discard every pending claim of a wallet
+     * @param wallet Wallet address
+     */
+    function _clearPendingClaims(address wallet) internal {
+        bytes32[] storage pending = pendingClaimHashes[wallet];
+        for (uint256 i = 0; i < pending.length; i++) {
+            delete claims[wallet][pending[i]];
+            emit ClaimCancelled(wallet, pending[i]);
+        }
+        delete pendingClaimHashes[wallet];
+    }
+
+    /**
+     * @notice Internal function to remove a claim from pending list
+     * @param wallet Wallet address
+     * @param claimHash Claim hash to remove
+     */
+    function _removePendingClaim(address wallet, bytes32 claimHash) internal {
+        bytes32[] storage pending = pendingClaimHashes[wallet];
+        for (uint256 i = 0; i < pending.length; i++) {
+            if (pending[i] == claimHash) {
+                // Move last element to current position and pop
+                pending[i] = pending[pending.length - 1];
+                pending.pop();
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../MultisigWallet.sol";
+
+/**
+ * @title RecurringPaymentsModule
+ * @dev Module for scheduled QUAI payments approved once by the multisig
+ * @notice The wallet approves a schedule (recipient, amount, interval, end date) through a
+ *         multisig proposal; after that anyone can trigger payments as they fall due
+ */
+contract RecurringPaymentsModule {
+    /// @notice Structure representing a recurring payment schedule
+    /// @dev Created through a multisig proposal, removed on cancellation or after the last payment
+    struct Schedule {
+        /// @notice Address that receives each payment
+        address recipient;
+        /// @notice Amount paid per interval (in wei)
+        uint256 amount;
+        /// @notice Seconds between payments
+        uint256 interval;
+        /// @notice Timestamp from which the next payment can be triggered
+        uint256 nextPaymentAt;
+        /// @notice No payment falls due after this timestamp (0 = no end date)
+        uint256 endsAt;
+        /// @notice Number of payments made so far
+        uint256 paymentsMade;
+    }
+
+    // Custom errors (gas efficient)
+    error MustBeCalledByWallet();
+    error ModuleNotEnabled();
+    error InvalidRecipient();
+    error InvalidAmount();
+    error InvalidInterval();
+    error InvalidEndDate();
+    error TooManySchedules();
+    error ScheduleNotFound();
+    error PaymentNotDue();
+    error PaymentFailed();
+
+    /// @notice Maximum active schedules per wallet
+    /// @dev Bounds the loops in getDueScheduleIds and schedule removal
+    uint256 public constant MAX_SCHEDULES = 50;
+
+    /// @notice Mapping from wallet address to schedule ID to schedule details
+    mapping(address => mapping(bytes32 => Schedule)) public schedules;
+
+    /// @notice Nonce per wallet to ensure unique schedule IDs
+    /// @dev Incremented on each new schedule so identical schedules get distinct IDs
+    mapping(address => uint256) public scheduleNonces;
+
+    /// @notice Array of active schedule IDs per wallet
+    /// @dev Cleaned up on cancellation/completion via swap-and-pop
+    mapping(address => bytes32[]) public scheduleIds;
+
+    /// @notice Emitted when a schedule is created
+    /// @param wallet Address of the multisig wallet
+    /// @param scheduleId Unique ID of the schedule
+    /// @param recipient Address that receives each payment
+    /// @param amount Amount paid per interval in wei
+    /// @param interval Seconds between payments
+    /// @param firstPaymentAt Timestamp of the first payment
+    /// @param endsAt Timestamp after which no payment falls due (0 = no end date)
+    event ScheduleCreated(
+        address indexed wallet,
+        bytes32 indexed scheduleId,
+        address indexed recipient,
+        uint256 amount,
+        uint256 interval,
+        uint256 firstPaymentAt,
+        uint256 endsAt
+    );
+
+    /// @notice Emitted when the wallet cancels a schedule
+    /// @param wallet Address of the multisig wallet
+    /// @param scheduleId ID of the cancelled schedule
+    event ScheduleCancelled(address indexed wallet, bytes32 indexed scheduleId);
+
+    /// @notice Emitted when a scheduled payment is made
+    /// @param wallet Address of the multisig wallet
+    /// @param scheduleId ID of the schedule
+    /// @param recipient Address that received the payment
+    /// @param amount Amount paid in wei
+    /// @param paymentNumber 1-based index of this payment within the schedule
+    event PaymentExecuted(
+        address indexed wallet,
+        bytes32 indexed scheduleId,
+        address indexed recipient,
+        uint256 amount,
+        uint256 paymentNumber
+    );
+
+    /// @notice Emitted when a schedule makes its last payment before the end date
+    /// @param wallet Address of the multisig wallet
+    /// @param scheduleId ID of the completed schedule
+    event ScheduleCompleted(address indexed wallet, bytes32 indexed scheduleId);
+
+    /**
+     * @notice Create a recurring payment schedule
+     * @param wallet Multisig wallet address
+     * @param recipient Address that receives each payment
+     * @param amount Amount paid per interval (in wei)
+     * @param interval Seconds between payments
+     * @param firstPaymentAt Timestamp of the first payment (0 = immediately)
+     * @param endsAt Timestamp after which no payment falls due (0 = no end date)
+     * @return scheduleId ID of the new schedule
+     * @dev SECURITY FIX (H-2): Must be called through multisig transaction (msg.sender == wallet)
+     *      This prevents a single owner from committing the wallet to payments on their own
+     */
+    function createSchedule(
+        address wallet,
+        address recipient,
+        uint256 amount,
+        uint256 interval,
+        uint256 firstPaymentAt,
+        uint256 endsAt
+    ) external returns (bytes32) {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (recipient == address(0) || recipient == wallet) revert InvalidRecipient();
+        if (amount == 0) revert InvalidAmount();
+        if (interval == 0) revert InvalidInterval();
+        if (scheduleIds[wallet].length >= MAX_SCHEDULES) revert TooManySchedules();
+
+        if (firstPaymentAt < block.timestamp) {
+            firstPaymentAt = block.timestamp;
+        }
+        if (endsAt != 0 && endsAt < firstPaymentAt) revert InvalidEndDate();
+
+        scheduleNonces[wallet]++;
+        bytes32 scheduleId = getScheduleId(wallet, recipient, amount, interval, scheduleNonces[wallet]);
+
+        schedules[wallet][scheduleId] = Schedule({
+            recipient: recipient,
+            amount: amount,
+            interval: interval,
+            nextPaymentAt: firstPaymentAt,
+            endsAt: endsAt,
+            paymentsMade: 0
+        });
+
+        scheduleIds[wallet].push(scheduleId);
+
+        emit ScheduleCreated(wallet, scheduleId, recipient, amount, interval, firstPaymentAt, endsAt);
+
+        return scheduleId;
+    }
+
+    /**
+     * @notice Cancel a schedule so no further payments can be made
+     * @param wallet Multisig wallet address
+     * @param scheduleId ID of the schedule
+     * @dev SECURITY FIX (H-2): Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function cancelSchedule(address wallet, bytes32 scheduleId) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        if (schedules[wallet][scheduleId].interval == 0) revert ScheduleNotFound();
+
+        _removeSchedule(wallet, scheduleId);
+
+        emit ScheduleCancelled(wallet, scheduleId);
+    }
+
+    /**
+     * @notice Make the next due payment of a schedule (callable by anyone, e.g. a keeper)
+     * @param wallet Multisig wallet address
+     * @param scheduleId ID of the schedule
+     * @dev Pays one interval per call. If several intervals were missed, each further call
+     *      pays the next one until the schedule has caught up
+     */
+    function executePayment(address wallet, bytes32 scheduleId) external {
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+
+        Schedule storage schedule = schedules[wallet][scheduleId];
+        if (schedule.interval == 0) revert ScheduleNotFound();
+        if (block.timestamp < schedule.nextPaymentAt) revert PaymentNotDue();
+
+        address recipient = schedule.recipient;
+        uint256 amount = schedule.amount;
+        uint256 paymentNumber = schedule.paymentsMade + 1;
+
+        // Update state before the external call
+        schedule.paymentsMade = paymentNumber;
+        schedule.nextPaymentAt += schedule.interval;
+
+        bool completed = schedule.endsAt != 0 && schedule.nextPaymentAt > schedule.endsAt;
+        if (completed) {
+            _removeSchedule(wallet, scheduleId);
+        }
+
+        bool success = multisig.execTransactionFromModule(recipient, amount, "");
+        if (!success) revert PaymentFailed();
+
+        emit PaymentExecuted(wallet, scheduleId, recipient, amount, paymentNumber);
+        if (completed) {
+            emit ScheduleCompleted(wallet, scheduleId);
+        }
+    }
+
+    /**
+     * @notice Get schedule ID
+     * @param wallet Wallet address
+     * @param recipient Address that receives each payment
+     * @param amount Amount paid per interval
+     * @param interval Seconds between payments
+     * @param nonce Unique nonce to ensure schedule ID uniqueness
+     * @return Unique bytes32 ID for this schedule
+     */
+    function getScheduleId(
+        address wallet,
+        address recipient,
+        uint256 amount,
+        uint256 interval,
+        uint256 nonce
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(wallet, recipient, amount, interval, nonce));
+    }
+
+    /**
+     * @notice Get schedule details
+     * @param wallet Wallet address
+     * @param scheduleId ID of the schedule
+     * @return Schedule details (interval is 0 if the schedule does not exist)
+     */
+    function getSchedule(address wallet, bytes32 scheduleId)
+        external
+        view
+        returns (Schedule memory)
+    {
+        return schedules[wallet][scheduleId];
+    }
+
+    /**
+     * @notice Get all active schedule IDs for a wallet
+     * @param wallet Wallet address
+     * @return Array of active schedule IDs
+     */
+    function getScheduleIds(address wallet) external view returns (bytes32[] memory) {
+        return scheduleIds[wallet];
+    }
+
+    /**
+     * @notice Check if a schedule has a payment due
+     * @param wallet Wallet address
+     * @param scheduleId ID of the schedule
+     * @return True if executePayment would be accepted (ignoring the wallet's balance)
+     */
+    function isPaymentDue(address wallet, bytes32 scheduleId) public view returns (bool) {
+        Schedule storage schedule = schedules[wallet][scheduleId];
+        return schedule.interval != 0 && block.timestamp >= schedule.nextPaymentAt;
+    }
+
+    /**
+     * @notice Get the IDs of every schedule with a payment due
+     * @param wallet Wallet address
+     * @return due Array of schedule IDs that can be paid now
+     * @dev Intended for keepers; does not check the wallet's balance
+     */
+    function getDueScheduleIds(address wallet) external view returns (bytes32[] memory due) {
+        bytes32[] storage ids = scheduleIds[wallet];
+        uint256 count = 0;
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (isPaymentDue(wallet, ids[i])) count++;
+        }
+
+        due = new bytes32[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (isPaymentDue(wallet, ids[i])) {
+                due[index++] = ids[i];
+            }
+        }
+    }
+
+    /**
+     * @notice Internal function to delete a schedule and remove it from the active list
+     * @param wallet Wallet address
+     * @param scheduleId Schedule ID to remove
+     */
+    function _removeSchedule(address wallet, bytes32 scheduleId) internal {
+        delete schedules[wallet][scheduleId];
+
+        bytes32[] storage ids = scheduleIds[wallet];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (ids[i] == scheduleId) {
+                // Move last element to current position and pop
+                ids[i] = ids[ids.length - 1];
+                ids.pop();
+                break;
+            }
+        }
+    }
+}
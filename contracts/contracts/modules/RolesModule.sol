@@ -0,0 +1,292 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../MultisigWallet.sol";
+
+/**
+ * @title RolesModule
+ * @dev Module that grants scoped capabilities to accounts that are not wallet owners
+ * @notice Proposers may only create proposals, approvers sign off on pending proposals and
+ *         executors relay proposals that reached the owners' threshold. Owner approvals are
+ *         always required: no role can move funds on its own.
+ */
+contract RolesModule {
+    // Custom errors (gas efficient)
+    error MustBeCalledByWallet();
+    error ModuleNotEnabled();
+    error InvalidAccount();
+    error InvalidRoles();
+    error TooManyMembers();
+    error MissingRole(uint8 role);
+    error TransactionNotPending();
+    error AlreadyApproved();
+    error NotApproved();
+    error NotEnoughRoleApprovals();
+    error NotTheProposer();
+
+    /// @notice Role allowed to propose transactions to the wallet
+    uint8 public constant ROLE_PROPOSER = 1;
+
+    /// @notice Role allowed to sign off on pending proposals
+    uint8 public constant ROLE_APPROVER = 2;
+
+    /// @notice Role allowed to execute proposals that reached the owners' threshold
+    uint8 public constant ROLE_EXECUTOR = 4;
+
+    /// @notice Maximum number of role members per wallet (bounds approval counting loops)
+    uint256 public constant MAX_MEMBERS = 50;
+
+    /// @notice Mapping from wallet to account to role bitmask
+    /// @dev Combination of ROLE_PROPOSER, ROLE_APPROVER and ROLE_EXECUTOR (0 = no roles)
+    mapping(address => mapping(address => uint8)) public roles;
+
+    /// @notice Accounts holding at least one role per wallet
+    /// @dev Kept in sync with roles, cleaned up via swap-and-pop
+    mapping(address => address[]) internal members;
+
+    /// @notice Approver sign-offs an executor needs before relaying (0 = none)
+    /// @dev Owners can always execute themselves; this only gates executor relays
+    mapping(address => uint256) public requiredApprovals;
+
+    /// @notice Mapping from wallet to transaction hash to approver sign-off
+    /// @dev Sign-offs from accounts that lost the approver role are not counted
+    mapping(address => mapping(bytes32 => mapping(address => bool))) public approvals;
+
+    /// @notice Role member who proposed each transaction through the module
+    /// @dev Lets proposers cancel their own proposals
+    mapping(address => mapping(bytes32 => address)) public proposers;
+
+    /// @notice Emitted when an account's roles change
+    /// @param wallet Address of the multisig wallet
+    /// @param account Account whose roles changed
+    /// @param roles New role bitmask (0 = removed)
+    event RolesSet(address indexed wallet, address indexed account, uint8 roles);
+
+    /// @notice Emitted when the approver sign-offs required for relays change
+    /// @param wallet Address of the multisig wallet
+    /// @param required Number of approver sign-offs
+    event RequiredApprovalsSet(address indexed wallet, uint256 required);
+
+    /// @notice Emitted when a proposer creates a proposal through the module
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Wallet transaction hash
+    /// @param proposer Role member who proposed
+    event RoleProposed(address indexed wallet, bytes32 indexed txHash, address indexed proposer);
+
+    /// @notice Emitted when an approver signs off on a proposal
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Wallet transaction hash
+    /// @param approver Role member who signed off
+    event RoleApproved(address indexed wallet, bytes32 indexed txHash, address indexed approver);
+
+    /// @notice Emitted when an approver withdraws a sign-off
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Wallet transaction hash
+    /// @param approver Role member who withdrew
+    event RoleApprovalRevoked(address indexed wallet, bytes32 indexed txHash, address indexed approver);
+
+    /// @notice Emitted when an executor relays a proposal
+    /// @param wallet Address of the multisig wallet
+    /// @param txHash Wallet transaction hash
+    /// @param executor Role member who relayed the execution
+    event RoleExecuted(address indexed wallet, bytes32 indexed txHash, address indexed executor);
+
+    /// @notice Restricts access to accounts holding a role on an enabled wallet
+    /// @param wallet Multisig wallet address
+    /// @param role Role required
+    modifier onlyRole(address wallet, uint8 role) {
+        if (roles[wallet][msg.sender] & role == 0) revert MissingRole(role);
+        if (!MultisigWallet(payable(wallet)).modules(address(this))) revert ModuleNotEnabled();
+        _;
+    }
+
+    /**
+     * @notice Grant or replace an account's roles
+     * @param wallet Multisig wallet address
+     * @param account Account to configure
+     * @param newRoles Role bitmask (0 removes the account)
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function setRoles(address wallet, address account, uint8 newRoles) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (account == address(0) || account == wallet) revert InvalidAccount();
+        if (newRoles > (ROLE_PROPOSER | ROLE_APPROVER | ROLE_EXECUTOR)) revert InvalidRoles();
+
+        uint8 currentRoles = roles[wallet][account];
+        if (currentRoles == 0 && newRoles != 0) {
+            if (members[wallet].length >= MAX_MEMBERS) revert TooManyMembers();
+            members[wallet].push(account);
+        } else if (currentRoles != 0 && newRoles == 0) {
+            _removeMember(wallet, account);
+        }
+
+        roles[wallet][account] = newRoles;
+
+        emit RolesSet(wallet, account, newRoles);
+    }
+
+    /**
+     * @notice Set how many approver sign-offs an executor needs before relaying
+     * @param wallet Multisig wallet address
+     * @param required Number of sign-offs (0 = executors only need the owners' threshold)
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function setRequiredApprovals(address wallet, uint256 required) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+
+        requiredApprovals[wallet] = required;
+
+        emit RequiredApprovalsSet(wallet, required);
+    }
+
+    /**
+     * @notice Propose a transaction to the wallet
+     * @dev The proposal still needs the owners' approvals; the module is recorded as proposer
+     * @param wallet Multisig wallet address
+     * @param to Destination address
+     * @param value Amount to send
+     * @param data Call data
+     * @param memo Optional description shown to the owners
+     * @return txHash Wallet transaction hash
+     */
+    function propose(
+        address wallet,
+        address to,
+        uint256 value,
+        bytes memory data,
+        string calldata memo
+    ) external onlyRole(wallet, ROLE_PROPOSER) returns (bytes32 txHash) {
+        txHash = MultisigWallet(payable(wallet)).proposeTransactionWithMemo(to, value, data, 0, memo);
+        proposers[wallet][txHash] = msg.sender;
+
+        emit RoleProposed(wallet, txHash, msg.sender);
+    }
+
+    /**
+     * @notice Cancel a proposal this proposer created through the module
+     * @param wallet Multisig wallet address
+     * @param txHash Wallet transaction hash
+     */
+    function cancel(address wallet, bytes32 txHash) external onlyRole(wallet, ROLE_PROPOSER) {
+        if (proposers[wallet][txHash] != msg.sender) revert NotTheProposer();
+
+        MultisigWallet(payable(wallet)).cancelTransaction(txHash);
+    }
+
+    /**
+     * @notice Sign off on a pending proposal
+     * @param wallet Multisig wallet address
+     * @param txHash Wallet transaction hash
+     */
+    function approve(address wallet, bytes32 txHash) external onlyRole(wallet, ROLE_APPROVER) {
+        if (!_isPending(wallet, txHash)) revert TransactionNotPending();
+        if (approvals[wallet][txHash][msg.sender]) revert AlreadyApproved();
+
+        approvals[wallet][txHash][msg.sender] = true;
+
+        emit RoleApproved(wallet, txHash, msg.sender);
+    }
+
+    /**
+     * @notice Withdraw a sign-off from a pending proposal
+     * @param wallet Multisig wallet address
+     * @param txHash Wallet transaction hash
+     */
+    function revokeApproval(address wallet, bytes32 txHash) external onlyRole(wallet, ROLE_APPROVER) {
+        if (!approvals[wallet][txHash][msg.sender]) revert NotApproved();
+
+        approvals[wallet][txHash][msg.sender] = false;
+
+        emit RoleApprovalRevoked(wallet, txHash, msg.sender);
+    }
+
+    /**
+     * @notice Relay the execution of a proposal that reached the owners' threshold
+     * @dev The wallet enforces the threshold, expiry and guard checks as for an owner execution
+     * @param wallet Multisig wallet address
+     * @param txHash Wallet transaction hash
+     */
+    function execute(address wallet, bytes32 txHash) external onlyRole(wallet, ROLE_EXECUTOR) {
+        if (getApprovalCount(wallet, txHash) < requiredApprovals[wallet]) revert NotEnoughRoleApprovals();
+
+        MultisigWallet(payable(wallet)).executeTransaction(txHash);
+
+        emit RoleExecuted(wallet, txHash, msg.sender);
+    }
+
+    /**
+     * @notice Count sign-offs from accounts that currently hold the approver role
+     * @param wallet Multisig wallet address
+     * @param txHash Wallet transaction hash
+     * @return count Number of counted sign-offs
+     */
+    function getApprovalCount(address wallet, bytes32 txHash) public view returns (uint256 count) {
+        address[] storage accounts = members[wallet];
+        for (uint256 i = 0; i < accounts.length; i++) {
+            address account = accounts[i];
+            if (roles[wallet][account] & ROLE_APPROVER != 0 && approvals[wallet][txHash][account]) {
+                count++;
+            }
+        }
+    }
+
+    /**
+     * @notice Get every account holding a role on a wallet
+     * @param wallet Multisig wallet address
+     * @return accounts Role members
+     * @return memberRoles Role bitmask of each member
+     */
+    function getMembers(address wallet)
+        external
+        view
+        returns (address[] memory accounts, uint8[] memory memberRoles)
+    {
+        accounts = members[wallet];
+        memberRoles = new uint8[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            memberRoles[i] = roles[wallet][accounts[i]];
+        }
+    }
+
+    /**
+     * @notice Check whether an account holds a role
+     * @param wallet Multisig wallet address
+     * @param account Account to check
+     * @param role Role to check
+     * @return True if the account holds the role
+     */
+    function hasRole(address wallet, address account, uint8 role) external view returns (bool) {
+        return roles[wallet][account] & role != 0;
+    }
+
+    /**
+     * @notice Internal function to check that a wallet transaction can still be approved
+     * @param wallet Multisig wallet address
+     * @param txHash Wallet transaction hash
+     * @return True if the transaction exists and is neither executed nor cancelled
+     */
+    function _isPending(address wallet, bytes32 txHash) internal view returns (bool) {
+        MultisigWallet.Transaction memory transaction = MultisigWallet(payable(wallet)).getTransaction(txHash);
+        return transaction.to != address(0) && !transaction.executed && !transaction.cancelled;
+    }
+
+    /**
+     * @notice Internal function to drop an account from the member list
+     * @param wallet Multisig wallet address
+     * @param account Account to remove
+     */
+    function _removeMember(address wallet, address account) internal {
+        address[] storage accounts = members[wallet];
+        for (uint256 i = 0; i < accounts.length; i++) {
+            if (accounts[i] == account) {
+                accounts[i] = accounts[accounts.length - 1];
+                accounts.pop();
+                break;
+            }
+        }
+    }
+}
@@ -7,8 +7,13 @@ import "../MultisigWallet.sol";
  * @title SocialRecoveryModule
  * @dev Module for social recovery of multisig wallets
  * @notice Allows guardians to recover wallet access
+ * @dev Owners can veto a recovery through a wallet transaction (the wallet's own threshold) and
+ *      rotate guardians behind GUARDIAN_ROTATION_DELAY, even while recoveries are pending
  */
 contract SocialRecoveryModule {
+    /// @notice Delay between proposing and executing a guardian rotation
+    uint256 public constant GUARDIAN_ROTATION_DELAY = 3 days;
+
     // Custom errors (gas efficient)
     error MustBeCalledByWallet();
     error GuardiansRequired();
@@ -28,6 +33,8 @@ contract SocialRecoveryModule {
     error NotEnoughApprovals();
     error RecoveryPeriodNotElapsed();
     error NotAnOwner();
+    error NoGuardianRotationPending();
+    error GuardianRotationDelayNotElapsed();
 
     /// @notice Configuration for wallet recovery
     /// @dev Stored per-wallet, set by wallet owners
@@ -57,6 +64,16 @@ contract SocialRecoveryModule {
         bool executed;
     }
 
+    /// @notice Guardian set waiting out GUARDIAN_ROTATION_DELAY
+    struct GuardianRotation {
+        /// @notice Guardians after the rotation
+        address[] guardians;
+        /// @notice Guardian threshold after the rotation
+        uint256 threshold;
+        /// @notice Timestamp when the rotation can be executed (0 = none pending)
+        uint256 executionTime;
+    }
+
     /// @notice Mapping from wallet address to its recovery configuration
     /// @dev Each wallet has independent guardian configuration; cannot be modified while recoveries pending
     mapping(address => RecoveryConfig) public recoveryConfigs;
@@ -77,6 +94,9 @@ contract SocialRecoveryModule {
     /// @dev Used for efficient pending recovery checks; cleaned up on execution/cancellation via swap-and-pop
     mapping(address => bytes32[]) public pendingRecoveryHashes;
 
+    /// @notice Pending guardian rotation per wallet
+    mapping(address => GuardianRotation) internal guardianRotations;
+
     /// @notice Emitted when recovery is configured for a wallet
     /// @param wallet Address of the multisig wallet
     /// @param guardians Array of guardian addresses
@@ -129,6 +149,40 @@ contract SocialRecoveryModule {
         bytes32 indexed recoveryHash
     );
 
+    /// @notice Emitted when the owners veto a recovery through a wallet transaction
+    /// @param wallet Address of the multisig wallet
+    /// @param recoveryHash Hash of the vetoed recovery
+    event RecoveryVetoed(
+        address indexed wallet,
+        bytes32 indexed recoveryHash
+    );
+
+    /// @notice Emitted when a guardian rotation is proposed
+    /// @param wallet Address of the multisig wallet
+    /// @param guardians Guardians after the rotation
+    /// @param threshold Guardian threshold after the rotation
+    /// @param executionTime Timestamp when the rotation can be executed
+    event GuardianRotationProposed(
+        address indexed wallet,
+        address[] guardians,
+        uint256 threshold,
+        uint256 executionTime
+    );
+
+    /// @notice Emitted when a pending guardian rotation is cancelled
+    /// @param wallet Address of the multisig wallet
+    event GuardianRotationCancelled(address indexed wallet);
+
+    /// @notice Emitted when a guardian rotation takes effect
+    /// @param wallet Address of the multisig wallet
+    /// @param guardians New guardians
+    /// @param threshold New guardian threshold
+    event GuardianRotationExecuted(
+        address indexed wallet,
+        address[] guardians,
+        uint256 threshold
+    );
+
     /// @notice Emitted when a guardian revokes their approval
     /// @param wallet Address of the multisig wallet
     /// @param recoveryHash Hash of the recovery
@@ -158,8 +212,7 @@ contract SocialRecoveryModule {
         // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
         // Previously only required isOwner, allowing single owner bypass
         if (msg.sender != wallet) revert MustBeCalledByWallet();
-        if (guardians.length == 0) revert GuardiansRequired();
-        if (threshold == 0 || threshold > guardians.length) revert InvalidThreshold();
+        _validateGuardians(guardians, threshold);
         if (recoveryPeriod < 1 days) revert RecoveryPeriodTooShort();
 
         // SECURITY: Prevent configuration updates when there are pending recoveries
@@ -167,7 +220,30 @@ contract SocialRecoveryModule {
         // after a recovery is initiated but before it executes
         if (hasPendingRecoveries(wallet)) revert CannotUpdateConfigWhileRecoveriesPending();
 
-        // Validate guardians
+        recoveryConfigs[wallet] = RecoveryConfig({
+            guardians: guardians,
+            threshold: threshold,
+            recoveryPeriod: recoveryPeriod
+        });
+
+        // A direct setup replaces any guardian rotation still waiting out its delay
+        if (guardianRotations[wallet].executionTime != 0) {
+            delete guardianRotations[wallet];
+            emit GuardianRotationCancelled(wallet);
+        }
+
+        emit RecoverySetup(wallet, guardians, threshold, recoveryPeriod);
+    }
+
+    /**
+     * @notice Internal function to validate a guardian set and threshold
+     * @param guardians Guardian addresses
+     * @param threshold Number of guardian approvals required
+     */
+    function _validateGuardians(address[] memory guardians, uint256 threshold) internal pure {
+        if (guardians.length == 0) revert GuardiansRequired();
+        if (threshold == 0 || threshold > guardians.length) revert InvalidThreshold();
+
         for (uint256 i = 0; i < guardians.length; i++) {
             if (guardians[i] == address(0)) revert InvalidGuardianAddress();
             // Check for duplicates
@@ -175,14 +251,98 @@ contract SocialRecoveryModule {
                 if (guardians[i] == guardians[j]) revert DuplicateGuardian();
             }
         }
+    }
 
-        recoveryConfigs[wallet] = RecoveryConfig({
+    /**
+     * @notice Propose replacing the guardians, taking effect after GUARDIAN_ROTATION_DELAY
+     * @param wallet Multisig wallet address
+     * @param guardians New guardian addresses
+     * @param threshold New guardian threshold
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      Allowed while recoveries are pending: each recovery keeps the threshold stored at
+     *      initiation, and approvals from removed guardians are dropped when the rotation executes.
+     *      The delay gives current guardians time to finish a recovery if the owners are compromised.
+     *      Replaces any rotation already pending.
+     */
+    function proposeGuardianRotation(
+        address wallet,
+        address[] memory guardians,
+        uint256 threshold
+    ) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        if (recoveryConfigs[wallet].guardians.length == 0) revert RecoveryNotConfigured();
+        _validateGuardians(guardians, threshold);
+
+        uint256 executionTime = block.timestamp + GUARDIAN_ROTATION_DELAY;
+        guardianRotations[wallet] = GuardianRotation({
             guardians: guardians,
             threshold: threshold,
-            recoveryPeriod: recoveryPeriod
+            executionTime: executionTime
         });
 
-        emit RecoverySetup(wallet, guardians, threshold, recoveryPeriod);
+        emit GuardianRotationProposed(wallet, guardians, threshold, executionTime);
+    }
+
+    /**
+     * @notice Cancel a pending guardian rotation
+     * @param wallet Multisig wallet address
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     */
+    function cancelGuardianRotation(address wallet) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        if (guardianRotations[wallet].executionTime == 0) revert NoGuardianRotationPending();
+
+        delete guardianRotations[wallet];
+
+        emit GuardianRotationCancelled(wallet);
+    }
+
+    /**
+     * @notice Apply a pending guardian rotation once its delay has passed (callable by anyone)
+     * @param wallet Multisig wallet address
+     * @dev Approvals that removed guardians gave to pending recoveries no longer count
+     */
+    function executeGuardianRotation(address wallet) external {
+        GuardianRotation memory rotation = guardianRotations[wallet];
+        if (rotation.executionTime == 0) revert NoGuardianRotationPending();
+        if (block.timestamp < rotation.executionTime) revert GuardianRotationDelayNotElapsed();
+
+        address[] memory oldGuardians = recoveryConfigs[wallet].guardians;
+        bytes32[] memory pending = pendingRecoveryHashes[wallet];
+        for (uint256 i = 0; i < oldGuardians.length; i++) {
+            if (_contains(rotation.guardians, oldGuardians[i])) {
+                continue;
+            }
+            for (uint256 j = 0; j < pending.length; j++) {
+                if (recoveryApprovals[wallet][pending[j]][oldGuardians[i]]) {
+                    recoveryApprovals[wallet][pending[j]][oldGuardians[i]] = false;
+                    recoveries[wallet][pending[j]].approvalCount--;
+                }
+            }
+        }
+
+        recoveryConfigs[wallet].guardians = rotation.guardians;
+        recoveryConfigs[wallet].threshold = rotation.threshold;
+        delete guardianRotations[wallet];
+
+        emit GuardianRotationExecuted(wallet, rotation.guardians, rotation.threshold);
+    }
+
+    /**
+     * @notice Internal function to check whether an address is in a list
+     * @param list Addresses to search
+     * @param addr Address to find
+     * @return True if found
+     */
+    function _contains(address[] memory list, address addr) internal pure returns (bool) {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == addr) {
+                return true;
+            }
+        }
+        return false;
     }
 
     /**
@@ -290,6 +450,12 @@ contract SocialRecoveryModule {
         // Remove from pending recoveries
         _removePendingRecovery(wallet, recoveryHash);
 
+        // A rotation proposed by the replaced owners must not outlive them
+        if (guardianRotations[wallet].executionTime != 0) {
+            delete guardianRotations[wallet];
+            emit GuardianRotationCancelled(wallet);
+        }
+
         MultisigWallet multisig = MultisigWallet(payable(wallet));
 
         // Remove old owners and add new owners
@@ -307,6 +473,15 @@ contract SocialRecoveryModule {
             }
         }
 
+        // Drop the threshold to 1 while old owners are removed: with weighted owners, removing a
+        // heavy owner could otherwise leave less total weight than the current threshold.
+        // The final threshold is set below in the same transaction.
+        multisig.execTransactionFromModule(
+            wallet,
+            0,
+            abi.encodeWithSelector(MultisigWallet.changeThreshold.selector, 1)
+        );
+
         // Remove old owners that are not in new owners list
         for (uint256 i = 0; i < oldOwners.length; i++) {
             bool keepOwner = false;
@@ -356,6 +531,29 @@ contract SocialRecoveryModule {
         emit RecoveryCancelled(wallet, recoveryHash);
     }
 
+    /**
+     * @notice Veto a recovery with the wallet's own approval threshold
+     * @param wallet Multisig wallet address
+     * @param recoveryHash Recovery hash
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet), so a
+     *      veto carries the same weight as any other owner decision
+     */
+    function vetoRecovery(address wallet, bytes32 recoveryHash) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+
+        Recovery storage recovery = recoveries[wallet][recoveryHash];
+        if (recovery.executionTime == 0) revert RecoveryNotInitiated();
+        if (recovery.executed) revert RecoveryAlreadyExecuted();
+
+        // Remove from pending recoveries
+        _removePendingRecovery(wallet, recoveryHash);
+
+        delete recoveries[wallet][recoveryHash];
+
+        emit RecoveryVetoed(wallet, recoveryHash);
+    }
+
     /**
      * @notice Get recovery hash
      * @param wallet Wallet address
@@ -421,6 +619,19 @@ contract SocialRecoveryModule {
         return recoveryConfigs[wallet];
     }
 
+    /**
+     * @notice Get the pending guardian rotation
+     * @param wallet Wallet address
+     * @return rotation Pending rotation (executionTime = 0 when none)
+     */
+    function getGuardianRotation(address wallet)
+        external
+        view
+        returns (GuardianRotation memory)
+    {
+        return guardianRotations[wallet];
+    }
+
     /**
      * @notice Get recovery details
      * @param wallet Wallet address
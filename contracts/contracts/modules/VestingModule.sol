@@ -0,0 +1,323 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../MultisigWallet.sol";
+
+/**
+ * @title VestingModule
+ * @dev Module for linear and cliff vesting grants paid out of the wallet
+ * @notice The wallet creates grants through multisig proposals. Beneficiaries claim whatever
+ *         has vested; the wallet can revoke the unvested remainder by another multisig vote
+ * @dev Grants are not escrowed: claims transfer from the wallet's balance at claim time.
+ *      token == address(0) pays native QUAI, anything else is treated as an ERC-20 token
+ */
+contract VestingModule {
+    /// @notice Structure representing a vesting grant
+    /// @dev Nothing vests before start + cliffDuration; the full amount has vested at
+    ///      start + duration. cliffDuration == duration gives a pure cliff grant
+    struct Grant {
+        /// @notice Address that can claim vested amounts
+        address beneficiary;
+        /// @notice Token paid out (address(0) = native QUAI)
+        address token;
+        /// @notice Total amount granted (reduced to the vested amount on revocation)
+        uint256 totalAmount;
+        /// @notice Amount claimed so far
+        uint256 claimed;
+        /// @notice Timestamp vesting starts from
+        uint256 start;
+        /// @notice Seconds after start before anything can be claimed
+        uint256 cliffDuration;
+        /// @notice Seconds after start until the full amount has vested
+        uint256 duration;
+        /// @notice Whether the wallet revoked the unvested remainder
+        bool revoked;
+    }
+
+    // Custom errors (gas efficient)
+    error MustBeCalledByWallet();
+    error ModuleNotEnabled();
+    error InvalidBeneficiary();
+    error InvalidToken();
+    error InvalidAmount();
+    error InvalidDuration();
+    error TooManyGrants();
+    error GrantNotFound();
+    error GrantAlreadyRevoked();
+    error NotBeneficiary();
+    error NothingToClaim();
+    error ClaimFailed();
+
+    /// @notice Maximum active grants per wallet
+    /// @dev Bounds the loop in grant removal
+    uint256 public constant MAX_GRANTS = 50;
+
+    /// @notice Mapping from wallet address to grant ID to grant details
+    mapping(address => mapping(bytes32 => Grant)) public grants;
+
+    /// @notice Nonce per wallet to ensure unique grant IDs
+    /// @dev Incremented on each new grant so identical grants get distinct IDs
+    mapping(address => uint256) public grantNonces;
+
+    /// @notice Array of active grant IDs per wallet
+    /// @dev Cleaned up once a grant is fully claimed via swap-and-pop
+    mapping(address => bytes32[]) public grantIds;
+
+    /// @notice Emitted when a grant is created
+    /// @param wallet Address of the multisig wallet
+    /// @param grantId Unique ID of the grant
+    /// @param beneficiary Address that can claim vested amounts
+    /// @param token Token paid out (address(0) = native QUAI)
+    /// @param amount Total amount granted
+    /// @param start Timestamp vesting starts from
+    /// @param cliffDuration Seconds after start before anything can be claimed
+    /// @param duration Seconds after start until the full amount has vested
+    event VestingCreated(
+        address indexed wallet,
+        bytes32 indexed grantId,
+        address indexed beneficiary,
+        address token,
+        uint256 amount,
+        uint256 start,
+        uint256 cliffDuration,
+        uint256 duration
+    );
+
+    /// @notice Emitted when the wallet revokes a grant's unvested remainder
+    /// @param wallet Address of the multisig wallet
+    /// @param grantId ID of the revoked grant
+    /// @param unvestedAmount Amount that will no longer vest
+    event VestingRevoked(address indexed wallet, bytes32 indexed grantId, uint256 unvestedAmount);
+
+    /// @notice Emitted when a beneficiary claims vested amounts
+    /// @param wallet Address of the multisig wallet
+    /// @param grantId ID of the grant
+    /// @param beneficiary Address that received the amount
+    /// @param token Token paid out (address(0) = native QUAI)
+    /// @param amount Amount claimed
+    event VestingClaimed(
+        address indexed wallet,
+        bytes32 indexed grantId,
+        address indexed beneficiary,
+        address token,
+        uint256 amount
+    );
+
+    /**
+     * @notice Create a vesting grant funded from the wallet
+     * @param wallet Multisig wallet address
+     * @param beneficiary Address that can claim vested amounts
+     * @param token Token paid out (address(0) = native QUAI)
+     * @param amount Total amount granted (in wei or token units)
+     * @param start Timestamp vesting starts from (0 = now; may be in the past)
+     * @param cliffDuration Seconds after start before anything can be claimed
+     * @param duration Seconds after start until the full amount has vested
+     * @return grantId ID of the new grant
+     * @dev SECURITY FIX (H-2): Must be called through multisig transaction (msg.sender == wallet)
+     *      This prevents a single owner from granting the wallet's funds on their own
+     */
+    function createVesting(
+        address wallet,
+        address beneficiary,
+        address token,
+        uint256 amount,
+        uint256 start,
+        uint256 cliffDuration,
+        uint256 duration
+    ) external returns (bytes32) {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        if (!MultisigWallet(payable(wallet)).modules(address(this))) revert ModuleNotEnabled();
+        if (beneficiary == address(0) || beneficiary == wallet) revert InvalidBeneficiary();
+        if (token == wallet) revert InvalidToken();
+        if (amount == 0) revert InvalidAmount();
+        if (duration == 0 || cliffDuration > duration) revert InvalidDuration();
+        if (grantIds[wallet].length >= MAX_GRANTS) revert TooManyGrants();
+
+        if (start == 0) {
+            start = block.timestamp;
+        }
+
+        grantNonces[wallet]++;
+        bytes32 grantId = getGrantId(wallet, beneficiary, token, amount, grantNonces[wallet]);
+
+        grants[wallet][grantId] = Grant({
+            beneficiary: beneficiary,
+            token: token,
+            totalAmount: amount,
+            claimed: 0,
+            start: start,
+            cliffDuration: cliffDuration,
+            duration: duration,
+            revoked: false
+        });
+
+        grantIds[wallet].push(grantId);
+
+        emit VestingCreated(wallet, grantId, beneficiary, token, amount, start, cliffDuration, duration);
+
+        return grantId;
+    }
+
+    /**
+     * @notice Revoke the unvested remainder of a grant
+     * @param wallet Multisig wallet address
+     * @param grantId ID of the grant
+     * @dev SECURITY FIX (H-2): Must be called through multisig transaction (msg.sender == wallet)
+     *      Whatever has vested by now stays claimable by the beneficiary
+     */
+    function revokeVesting(address wallet, bytes32 grantId) external {
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        Grant storage grant = grants[wallet][grantId];
+        if (grant.beneficiary == address(0)) revert GrantNotFound();
+        if (grant.revoked) revert GrantAlreadyRevoked();
+
+        uint256 vested = _vestedAmount(grant);
+        uint256 unvested = grant.totalAmount - vested;
+
+        grant.totalAmount = vested;
+        grant.revoked = true;
+
+        // Nothing left for the beneficiary to claim
+        if (grant.claimed == vested) {
+            _removeGrant(wallet, grantId);
+        }
+
+        emit VestingRevoked(wallet, grantId, unvested);
+    }
+
+    /**
+     * @notice Claim everything that has vested and not been claimed yet
+     * @param wallet Multisig wallet address
+     * @param grantId ID of the grant
+     * @dev Only the beneficiary can claim. Reverts if the wallet cannot cover the amount
+     */
+    function claim(address wallet, bytes32 grantId) external {
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+
+        Grant storage grant = grants[wallet][grantId];
+        if (grant.beneficiary == address(0)) revert GrantNotFound();
+        if (msg.sender != grant.beneficiary) revert NotBeneficiary();
+
+        uint256 amount = _vestedAmount(grant) - grant.claimed;
+        if (amount == 0) revert NothingToClaim();
+
+        address beneficiary = grant.beneficiary;
+        address token = grant.token;
+
+        // Update state before the external call
+        grant.claimed += amount;
+        if (grant.claimed == grant.totalAmount) {
+            _removeGrant(wallet, grantId);
+        }
+
+        if (token == address(0)) {
+            bool success = multisig.execTransactionFromModule(beneficiary, amount, "");
+            if (!success) revert ClaimFailed();
+        } else {
+            uint256 balanceBefore = IERC20(token).balanceOf(wallet);
+            bool success = multisig.execTransactionFromModule(
+                token,
+                0,
+                abi.encodeCall(IERC20.transfer, (beneficiary, amount))
+            );
+            if (!success || IERC20(token).balanceOf(wallet) + amount != balanceBefore) revert ClaimFailed();
+        }
+
+        emit VestingClaimed(wallet, grantId, beneficiary, token, amount);
+    }
+
+    /**
+     * @notice Get grant ID
+     * @param wallet Wallet address
+     * @param beneficiary Address that can claim vested amounts
+     * @param token Token paid out
+     * @param amount Total amount granted
+     * @param nonce Unique nonce to ensure grant ID uniqueness
+     * @return Unique bytes32 ID for this grant
+     */
+    function getGrantId(
+        address wallet,
+        address beneficiary,
+        address token,
+        uint256 amount,
+        uint256 nonce
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(wallet, beneficiary, token, amount, nonce));
+    }
+
+    /**
+     * @notice Get grant details
+     * @param wallet Wallet address
+     * @param grantId ID of the grant
+     * @return Grant details (beneficiary is address(0) if the grant does not exist)
+     */
+    function getGrant(address wallet, bytes32 grantId) external view returns (Grant memory) {
+        return grants[wallet][grantId];
+    }
+
+    /**
+     * @notice Get all active grant IDs for a wallet
+     * @param wallet Wallet address
+     * @return Array of grant IDs that are not fully claimed
+     */
+    function getGrantIds(address wallet) external view returns (bytes32[] memory) {
+        return grantIds[wallet];
+    }
+
+    /**
+     * @notice Get the amount of a grant that has vested so far, claimed or not
+     * @param wallet Wallet address
+     * @param grantId ID of the grant
+     * @return Vested amount (0 if the grant does not exist)
+     */
+    function getVestedAmount(address wallet, bytes32 grantId) external view returns (uint256) {
+        return _vestedAmount(grants[wallet][grantId]);
+    }
+
+    /**
+     * @notice Get the amount the beneficiary can claim now
+     * @param wallet Wallet address
+     * @param grantId ID of the grant
+     * @return Vested amount not yet claimed
+     */
+    function getClaimableAmount(address wallet, bytes32 grantId) external view returns (uint256) {
+        Grant storage grant = grants[wallet][grantId];
+        return _vestedAmount(grant) - grant.claimed;
+    }
+
+    /**
+     * @notice Internal function to calculate the vested amount of a grant
+     * @param grant Grant to evaluate
+     * @return Vested amount at the current block timestamp
+     */
+    function _vestedAmount(Grant storage grant) internal view returns (uint256) {
+        // Revocation fixes totalAmount at what had vested
+        if (grant.revoked) return grant.totalAmount;
+        if (block.timestamp < grant.start + grant.cliffDuration) return 0;
+
+        uint256 elapsed = block.timestamp - grant.start;
+        if (elapsed >= grant.duration) return grant.totalAmount;
+        return (grant.totalAmount * elapsed) / grant.duration;
+    }
+
+    /**
+     * @notice Internal function to delete a grant and remove it from the active list
+     * @param wallet Wallet address
+     * @param grantId Grant ID to remove
+     */
+    function _removeGrant(address wallet, bytes32 grantId) internal {
+        delete grants[wallet][grantId];
+
+        bytes32[] storage ids = grantIds[wallet];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (ids[i] == grantId) {
+                // Move last element to current position and pop
+                ids[i] = ids[ids.length - 1];
+                ids.pop();
+                break;
+            }
+        }
+    }
+}
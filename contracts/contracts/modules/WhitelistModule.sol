@@ -7,8 +7,56 @@ import "../MultisigWallet.sol";
  * @title WhitelistModule
  * @dev Module for whitelisting addresses that can receive funds without full approval
  * @notice Pre-approved addresses can be sent to with reduced friction
+ * @dev Calls to a whitelisted address can be scoped to allowed function selectors, each
+ *      optionally constraining static parameters (e.g. "recipient must be the wallet")
+ * @dev Each wallet's whitelist is kept as an enumerable set, and every address can carry a
+ *      cumulative limit per period (e.g. 10k per 30 days) on top of its per-transaction limit
  */
 contract WhitelistModule {
+    /// @notice Condition a parameter must satisfy
+    enum ParamCondition {
+        /// @notice Parameter word equals value
+        Equal,
+        /// @notice Parameter is the wallet's own address
+        EqualToWallet,
+        /// @notice Parameter as uint256 is at most value
+        LessOrEqual
+    }
+
+    /// @notice Constraint on one static parameter of an allowed function
+    struct ParamConstraint {
+        /// @notice Zero-based index of the parameter's 32-byte word after the selector
+        uint8 index;
+        /// @notice Condition to apply
+        ParamCondition condition;
+        /// @notice Value compared against (ignored for EqualToWallet)
+        bytes32 value;
+    }
+
+    /// @notice Cumulative limit on value sent to a whitelisted address per period
+    struct PeriodLimit {
+        /// @notice Maximum value per period (0 = no cumulative limit)
+        uint256 limit;
+        /// @notice Period length in seconds
+        uint256 period;
+        /// @notice Value sent in the current period
+        uint256 spent;
+        /// @notice Start of the current period
+        uint256 lastReset;
+    }
+
+    /// @notice Shortest allowed cumulative limit period
+    uint256 public constant MIN_LIMIT_PERIOD = 1 hours;
+
+    /// @notice Longest allowed cumulative limit period
+    uint256 public constant MAX_LIMIT_PERIOD = 365 days;
+
+    /// @notice Most selectors that can be allowed per whitelisted address
+    uint256 public constant MAX_SELECTORS = 32;
+
+    /// @notice Most parameter constraints per allowed selector
+    uint256 public constant MAX_CONSTRAINTS = 8;
+
     // Custom errors (gas efficient)
     error MustBeCalledByWallet();
     error ModuleNotEnabled();
@@ -18,6 +66,12 @@ contract WhitelistModule {
     error ExceedsWhitelistLimit();
     error TransactionFailed();
     error ArrayLengthMismatch();
+    error SelectorNotAllowed();
+    error ParamConstraintViolated();
+    error TooManySelectors();
+    error TooManyConstraints();
+    error InvalidPeriod();
+    error ExceedsPeriodLimit();
 
     /// @notice Mapping from wallet to address to whitelist status
     /// @dev Nested mapping allows each wallet to maintain independent whitelists
@@ -27,6 +81,28 @@ contract WhitelistModule {
     /// @dev Zero value indicates unlimited transfers; limit checked per transaction, not cumulative
     mapping(address => mapping(address => uint256)) public whitelistLimits;
 
+    /// @notice Whitelisted addresses per wallet, in insertion order (swap-and-pop on removal)
+    mapping(address => address[]) internal whitelistedAddresses;
+
+    /// @notice One-based position of an address in whitelistedAddresses (0 = not listed)
+    mapping(address => mapping(address => uint256)) internal whitelistIndex;
+
+    /// @notice Mapping from wallet to address to cumulative per-period limit
+    mapping(address => mapping(address => PeriodLimit)) public periodLimits;
+
+    /// @notice Mapping from wallet to address to whether calls are limited to allowed selectors
+    /// @dev Set by the first allowed selector and cleared only when the address is removed
+    mapping(address => mapping(address => bool)) public selectorRestricted;
+
+    /// @notice Allowed selectors per wallet and whitelisted address
+    mapping(address => mapping(address => bytes4[])) internal allowedSelectors;
+
+    /// @notice Whether a selector is allowed per wallet and whitelisted address
+    mapping(address => mapping(address => mapping(bytes4 => bool))) internal selectorAllowed;
+
+    /// @notice Parameter constraints per wallet, whitelisted address and selector
+    mapping(address => mapping(address => mapping(bytes4 => ParamConstraint[]))) internal selectorConstraints;
+
     /// @notice Emitted when an address is added to the whitelist
     /// @param wallet Address of the multisig wallet
     /// @param addr Address being whitelisted
@@ -45,6 +121,40 @@ contract WhitelistModule {
         address indexed addr
     );
 
+    /// @notice Emitted when a cumulative per-period limit is set for a whitelisted address
+    /// @param wallet Address of the multisig wallet
+    /// @param addr Whitelisted address
+    /// @param limit Maximum value per period (0 = removed)
+    /// @param period Period length in seconds
+    event PeriodLimitSet(
+        address indexed wallet,
+        address indexed addr,
+        uint256 limit,
+        uint256 period
+    );
+
+    /// @notice Emitted when a function is allowed (or its constraints replaced) for a whitelisted address
+    /// @param wallet Address of the multisig wallet
+    /// @param addr Whitelisted address
+    /// @param selector Allowed function selector
+    /// @param constraintCount Number of parameter constraints
+    event SelectorAllowed(
+        address indexed wallet,
+        address indexed addr,
+        bytes4 indexed selector,
+        uint256 constraintCount
+    );
+
+    /// @notice Emitted when a function is no longer allowed for a whitelisted address
+    /// @param wallet Address of the multisig wallet
+    /// @param addr Whitelisted address
+    /// @param selector Removed function selector
+    event SelectorRemoved(
+        address indexed wallet,
+        address indexed addr,
+        bytes4 indexed selector
+    );
+
     /// @notice Emitted when a transaction is executed to a whitelisted address
     /// @param wallet Address of the multisig wallet
     /// @param to Destination address
@@ -73,12 +183,8 @@ contract WhitelistModule {
         if (msg.sender != wallet) revert MustBeCalledByWallet();
         MultisigWallet multisig = MultisigWallet(payable(wallet));
         if (!multisig.modules(address(this))) revert ModuleNotEnabled();
-        if (addr == address(0)) revert InvalidAddress();
-
-        whitelist[wallet][addr] = true;
-        whitelistLimits[wallet][addr] = limit;
 
-        emit AddressWhitelisted(wallet, addr, limit);
+        _addToWhitelist(wallet, addr, limit);
     }
 
     /**
@@ -95,10 +201,164 @@ contract WhitelistModule {
 
         whitelist[wallet][addr] = false;
         whitelistLimits[wallet][addr] = 0;
+        delete periodLimits[wallet][addr];
+        _clearSelectors(wallet, addr);
+
+        uint256 index = whitelistIndex[wallet][addr];
+        if (index != 0) {
+            address[] storage addresses = whitelistedAddresses[wallet];
+            address last = addresses[addresses.length - 1];
+            addresses[index - 1] = last;
+            whitelistIndex[wallet][last] = index;
+            addresses.pop();
+            delete whitelistIndex[wallet][addr];
+        }
 
         emit AddressRemovedFromWhitelist(wallet, addr);
     }
 
+    /**
+     * @notice Internal function to whitelist an address and add it to the wallet's set
+     * @param wallet Multisig wallet address
+     * @param addr Address to whitelist
+     * @param limit Maximum per-transaction amount (0 = unlimited)
+     */
+    function _addToWhitelist(address wallet, address addr, uint256 limit) internal {
+        if (addr == address(0)) revert InvalidAddress();
+
+        whitelist[wallet][addr] = true;
+        whitelistLimits[wallet][addr] = limit;
+
+        if (whitelistIndex[wallet][addr] == 0) {
+            whitelistedAddresses[wallet].push(addr);
+            whitelistIndex[wallet][addr] = whitelistedAddresses[wallet].length;
+        }
+
+        emit AddressWhitelisted(wallet, addr, limit);
+    }
+
+    /**
+     * @notice Set a cumulative limit on value sent to a whitelisted address per period
+     * @param wallet Multisig wallet address
+     * @param addr Whitelisted address
+     * @param limit Maximum value per period (0 = remove the cumulative limit)
+     * @param period Period length in seconds (between MIN_LIMIT_PERIOD and MAX_LIMIT_PERIOD)
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      Changing only the limit keeps the current period's spending; changing the period
+     *      starts a new period now
+     */
+    function setPeriodLimit(
+        address wallet,
+        address addr,
+        uint256 limit,
+        uint256 period
+    ) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (!whitelist[wallet][addr]) revert AddressNotWhitelisted();
+
+        if (limit == 0) {
+            delete periodLimits[wallet][addr];
+            emit PeriodLimitSet(wallet, addr, 0, 0);
+            return;
+        }
+        if (period < MIN_LIMIT_PERIOD || period > MAX_LIMIT_PERIOD) revert InvalidPeriod();
+
+        PeriodLimit storage periodLimit = periodLimits[wallet][addr];
+        if (periodLimit.period != period) {
+            periodLimit.period = period;
+            periodLimit.spent = 0;
+            periodLimit.lastReset = block.timestamp;
+        }
+        periodLimit.limit = limit;
+
+        emit PeriodLimitSet(wallet, addr, limit, period);
+    }
+
+    /**
+     * @notice Allow a function on a whitelisted address, restricting calls to allowed functions
+     * @param wallet Multisig wallet address
+     * @param addr Whitelisted address
+     * @param selector Function selector to allow
+     * @param constraints Conditions on the function's static parameters (replaces any existing ones)
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      Once any selector is allowed, plain transfers and other functions to addr are rejected
+     */
+    function setAllowedSelector(
+        address wallet,
+        address addr,
+        bytes4 selector,
+        ParamConstraint[] calldata constraints
+    ) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (!whitelist[wallet][addr]) revert AddressNotWhitelisted();
+        if (constraints.length > MAX_CONSTRAINTS) revert TooManyConstraints();
+
+        if (!selectorAllowed[wallet][addr][selector]) {
+            if (allowedSelectors[wallet][addr].length >= MAX_SELECTORS) revert TooManySelectors();
+            selectorAllowed[wallet][addr][selector] = true;
+            allowedSelectors[wallet][addr].push(selector);
+        }
+        selectorRestricted[wallet][addr] = true;
+
+        delete selectorConstraints[wallet][addr][selector];
+        ParamConstraint[] storage stored = selectorConstraints[wallet][addr][selector];
+        for (uint256 i = 0; i < constraints.length; i++) {
+            stored.push(constraints[i]);
+        }
+
+        emit SelectorAllowed(wallet, addr, selector, constraints.length);
+    }
+
+    /**
+     * @notice Stop allowing a function on a whitelisted address
+     * @param wallet Multisig wallet address
+     * @param addr Whitelisted address
+     * @param selector Function selector to remove
+     * @dev SECURITY: Must be called through multisig transaction (msg.sender == wallet)
+     *      The address stays restricted even when its last selector is removed
+     */
+    function removeAllowedSelector(address wallet, address addr, bytes4 selector) external {
+        // SECURITY FIX (H-2): Require multisig approval by checking msg.sender == wallet
+        if (msg.sender != wallet) revert MustBeCalledByWallet();
+        MultisigWallet multisig = MultisigWallet(payable(wallet));
+        if (!multisig.modules(address(this))) revert ModuleNotEnabled();
+        if (!selectorAllowed[wallet][addr][selector]) revert SelectorNotAllowed();
+
+        bytes4[] storage selectors = allowedSelectors[wallet][addr];
+        for (uint256 i = 0; i < selectors.length; i++) {
+            if (selectors[i] == selector) {
+                selectors[i] = selectors[selectors.length - 1];
+                selectors.pop();
+                break;
+            }
+        }
+        selectorAllowed[wallet][addr][selector] = false;
+        delete selectorConstraints[wallet][addr][selector];
+
+        emit SelectorRemoved(wallet, addr, selector);
+    }
+
+    /**
+     * @notice Internal function to drop every selector permission for an address
+     * @param wallet Multisig wallet address
+     * @param addr Address being removed from the whitelist
+     */
+    function _clearSelectors(address wallet, address addr) internal {
+        bytes4[] storage selectors = allowedSelectors[wallet][addr];
+        for (uint256 i = 0; i < selectors.length; i++) {
+            selectorAllowed[wallet][addr][selectors[i]] = false;
+            delete selectorConstraints[wallet][addr][selectors[i]];
+        }
+        delete allowedSelectors[wallet][addr];
+        selectorRestricted[wallet][addr] = false;
+    }
+
     /**
      * @notice Execute transaction to whitelisted address
      * @param wallet Multisig wallet address
@@ -123,6 +383,14 @@ contract WhitelistModule {
             if (value > limit) revert ExceedsWhitelistLimit();
         }
 
+        // Check and record cumulative spending if a period limit is set
+        _consumePeriodLimit(wallet, to, value);
+
+        // Check function permissions if the address is scoped
+        (bool allowed, bool constraintsMet) = _checkCall(wallet, to, data);
+        if (!allowed) revert SelectorNotAllowed();
+        if (!constraintsMet) revert ParamConstraintViolated();
+
         // Execute transaction through wallet
         bool success = multisig.execTransactionFromModule(to, value, data);
         if (!success) revert TransactionFailed();
@@ -130,6 +398,78 @@ contract WhitelistModule {
         emit WhitelistTransactionExecuted(wallet, to, value);
     }
 
+    /**
+     * @notice Internal function to count value against an address's cumulative limit
+     * @param wallet Multisig wallet address
+     * @param to Whitelisted destination address
+     * @param value Amount being sent
+     * @dev Periods stay anchored to when the limit was set, advancing in whole periods
+     */
+    function _consumePeriodLimit(address wallet, address to, uint256 value) internal {
+        PeriodLimit storage periodLimit = periodLimits[wallet][to];
+        if (periodLimit.limit == 0) {
+            return;
+        }
+
+        if (block.timestamp >= periodLimit.lastReset + periodLimit.period) {
+            periodLimit.spent = 0;
+            periodLimit.lastReset += ((block.timestamp - periodLimit.lastReset) / periodLimit.period) * periodLimit.period;
+        }
+
+        if (periodLimit.spent + value > periodLimit.limit) revert ExceedsPeriodLimit();
+        periodLimit.spent += value;
+    }
+
+    /**
+     * @notice Internal function to check calldata against an address's allowed functions
+     * @param wallet Multisig wallet address
+     * @param to Whitelisted destination address
+     * @param data Calldata to check
+     * @return allowed True if the address is unrestricted or the selector is allowed
+     * @return constraintsMet True if every parameter constraint holds
+     */
+    function _checkCall(
+        address wallet,
+        address to,
+        bytes memory data
+    ) internal view returns (bool allowed, bool constraintsMet) {
+        if (!selectorRestricted[wallet][to]) {
+            return (true, true);
+        }
+        if (data.length < 4) {
+            return (false, false);
+        }
+
+        bytes4 selector = bytes4(data);
+        if (!selectorAllowed[wallet][to][selector]) {
+            return (false, false);
+        }
+
+        ParamConstraint[] storage constraints = selectorConstraints[wallet][to][selector];
+        for (uint256 i = 0; i < constraints.length; i++) {
+            ParamConstraint memory constraint = constraints[i];
+            uint256 offset = 4 + uint256(constraint.index) * 32;
+            if (data.length < offset + 32) {
+                return (true, false);
+            }
+
+            bytes32 word;
+            assembly {
+                word := mload(add(add(data, 32), offset))
+            }
+
+            if (constraint.condition == ParamCondition.Equal) {
+                if (word != constraint.value) return (true, false);
+            } else if (constraint.condition == ParamCondition.EqualToWallet) {
+                if (word != bytes32(uint256(uint160(wallet)))) return (true, false);
+            } else if (uint256(word) > uint256(constraint.value)) {
+                return (true, false);
+            }
+        }
+
+        return (true, true);
+    }
+
     /**
      * @notice Batch add addresses to whitelist
      * @param wallet Multisig wallet address
@@ -150,12 +490,7 @@ contract WhitelistModule {
         if (!multisig.modules(address(this))) revert ModuleNotEnabled();
 
         for (uint256 i = 0; i < addresses.length; i++) {
-            if (addresses[i] == address(0)) revert InvalidAddress();
-
-            whitelist[wallet][addresses[i]] = true;
-            whitelistLimits[wallet][addresses[i]] = limits[i];
-
-            emit AddressWhitelisted(wallet, addresses[i], limits[i]);
+            _addToWhitelist(wallet, addresses[i], limits[i]);
         }
     }
 
@@ -186,4 +521,85 @@ contract WhitelistModule {
     {
         return whitelistLimits[wallet][addr];
     }
+
+    /**
+     * @notice Get every whitelisted address of a wallet
+     * @param wallet Multisig wallet address
+     * @return Whitelisted addresses (order changes when addresses are removed)
+     */
+    function getWhitelistedAddresses(address wallet) external view returns (address[] memory) {
+        return whitelistedAddresses[wallet];
+    }
+
+    /**
+     * @notice Get the number of whitelisted addresses of a wallet
+     * @param wallet Multisig wallet address
+     * @return Number of whitelisted addresses
+     */
+    function getWhitelistCount(address wallet) external view returns (uint256) {
+        return whitelistedAddresses[wallet].length;
+    }
+
+    /**
+     * @notice Get an address's cumulative limit and spending in the current period
+     * @param wallet Multisig wallet address
+     * @param addr Whitelisted address
+     * @return limit Maximum value per period (0 = no cumulative limit)
+     * @return period Period length in seconds
+     * @return spent Value sent in the current period
+     * @return timeUntilReset Seconds until the current period ends
+     */
+    function getPeriodLimit(address wallet, address addr)
+        external
+        view
+        returns (uint256 limit, uint256 period, uint256 spent, uint256 timeUntilReset)
+    {
+        PeriodLimit storage periodLimit = periodLimits[wallet][addr];
+        if (periodLimit.limit == 0) {
+            return (0, 0, 0, 0);
+        }
+
+        uint256 elapsed = block.timestamp - periodLimit.lastReset;
+        uint256 intoPeriod = elapsed % periodLimit.period;
+        spent = elapsed >= periodLimit.period ? 0 : periodLimit.spent;
+
+        return (periodLimit.limit, periodLimit.period, spent, periodLimit.period - intoPeriod);
+    }
+
+    /**
+     * @notice Check whether calldata is allowed for a whitelisted address
+     * @param wallet Multisig wallet address
+     * @param to Whitelisted destination address
+     * @param data Calldata to check
+     * @return True if the selector and parameter constraints allow the call (ignores value limit)
+     */
+    function isCallAllowed(address wallet, address to, bytes calldata data) external view returns (bool) {
+        (bool allowed, bool constraintsMet) = _checkCall(wallet, to, data);
+        return allowed && constraintsMet;
+    }
+
+    /**
+     * @notice Get the functions allowed for a whitelisted address
+     * @param wallet Multisig wallet address
+     * @param addr Whitelisted address
+     * @return Allowed selectors (empty with selectorRestricted = false means any function)
+     */
+    function getAllowedSelectors(address wallet, address addr) external view returns (bytes4[] memory) {
+        return allowedSelectors[wallet][addr];
+    }
+
+    /**
+     * @notice Get the parameter constraints of an allowed function
+     * @param wallet Multisig wallet address
+     * @param addr Whitelisted address
+     * @param selector Function selector
+     * @return Parameter constraints
+     */
+    function getSelectorConstraints(
+        address wallet,
+        address addr,
+        bytes4 selector
+    ) external view returns (ParamConstraint[] memory) {
+        return selectorConstraints[wallet][addr][selector];
+    }
 }
@@ -22,15 +22,22 @@ const config: HardhatUserConfig = {
       {
         version: "0.8.22",
         settings: {
+          // Low runs keep MultisigWallet under the 24KB contract size limit
           optimizer: {
             enabled: true,
-            runs: 1000,
+            runs: 200,
           },
           evmVersion: "london",
           metadata: {
             bytecodeHash: "ipfs",
             useLiteralContent: true,
           },
+          // Storage layouts are checked by the upgrade tests
+          outputSelection: {
+            "*": {
+              "*": ["storageLayout"],
+            },
+          },
         },
       },
       {
@@ -52,6 +59,10 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: {
       chainId: 1337,
+      // Test suites fund a fresh wallet from the same signers in every beforeEach
+      accounts: {
+        accountsBalance: "1000000000000000000000000", // 1,000,000 ETH
+      },
     },
     localhost: {
       url: "http://127.0.0.1:8545",
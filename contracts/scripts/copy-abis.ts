@@ -84,6 +84,36 @@ function copyAbisToFrontend() {
       outputPath: path.join(frontendAbiDir, "WhitelistModule.json"),
       includeBytecode: false,
     },
+    {
+      name: "DelayModule",
+      artifactPath: path.join(artifactsDir, "modules", "DelayModule.sol", "DelayModule.json"),
+      outputPath: path.join(frontendAbiDir, "DelayModule.json"),
+      includeBytecode: false,
+    },
+    {
+      name: "RolesModule",
+      artifactPath: path.join(artifactsDir, "modules", "RolesModule.sol", "RolesModule.json"),
+      outputPath: path.join(frontendAbiDir, "RolesModule.json"),
+      includeBytecode: false,
+    },
+    {
+      name: "InheritanceModule",
+      artifactPath: path.join(artifactsDir, "modules", "InheritanceModule.sol", "InheritanceModule.json"),
+      outputPath: path.join(frontendAbiDir, "InheritanceModule.json"),
+      includeBytecode: false,
+    },
+    {
+      name: "RecurringPaymentsModule",
+      artifactPath: path.join(artifactsDir, "modules", "RecurringPaymentsModule.sol", "RecurringPaymentsModule.json"),
+      outputPath: path.join(frontendAbiDir, "RecurringPaymentsModule.json"),
+      includeBytecode: false,
+    },
+    {
+      name: "VestingModule",
+      artifactPath: path.join(artifactsDir, "modules", "VestingModule.sol", "VestingModule.json"),
+      outputPath: path.join(frontendAbiDir, "VestingModule.json"),
+      includeBytecode: false,
+    },
   ];
 
   console.log("\n📦 Copying ABIs to frontend...");
@@ -11,6 +11,12 @@ const ProxyFactoryJson = require("../artifacts/contracts/ProxyFactory.sol/ProxyF
 const SocialRecoveryModuleJson = require("../artifacts/contracts/modules/SocialRecoveryModule.sol/SocialRecoveryModule.json");
 const DailyLimitModuleJson = require("../artifacts/contracts/modules/DailyLimitModule.sol/DailyLimitModule.json");
 const WhitelistModuleJson = require("../artifacts/contracts/modules/WhitelistModule.sol/WhitelistModule.json");
+const DelayModuleJson = require("../artifacts/contracts/modules/DelayModule.sol/DelayModule.json");
+const RolesModuleJson = require("../artifacts/contracts/modules/RolesModule.sol/RolesModule.json");
+const InheritanceModuleJson = require("../artifacts/contracts/modules/InheritanceModule.sol/InheritanceModule.json");
+const RecurringPaymentsModuleJson = require("../artifacts/contracts/modules/RecurringPaymentsModule.sol/RecurringPaymentsModule.json");
+const VestingModuleJson = require("../artifacts/contracts/modules/VestingModule.sol/VestingModule.json");
+const DenylistGuardJson = require("../artifacts/contracts/guards/DenylistGuard.sol/DenylistGuard.json");
 
 async function main() {
   console.log("Starting deployment to Quai Network...\n");
@@ -163,6 +169,132 @@ async function main() {
   console.log("Transaction hash:", whitelist.deploymentTransaction()?.hash);
   console.log("WhitelistModule deployed to:", whitelistAddress);
 
+  // Deploy DelayModule
+  console.log("\nDeploying DelayModule...");
+
+  const delayIpfsHash = await hre.deployMetadata.pushMetadataToIPFSWithBytecode(
+    DelayModuleJson.bytecode
+  );
+  console.log("Metadata IPFS hash:", delayIpfsHash);
+
+  const DelayModule = new quais.ContractFactory(
+    DelayModuleJson.abi,
+    DelayModuleJson.bytecode,
+    wallet,
+    delayIpfsHash
+  );
+
+  const delay = await DelayModule.deploy();
+  await delay.waitForDeployment();
+  const delayAddress = await delay.getAddress();
+  console.log("Transaction hash:", delay.deploymentTransaction()?.hash);
+  console.log("DelayModule deployed to:", delayAddress);
+
+  // Deploy RolesModule
+  console.log("\nDeploying RolesModule...");
+
+  const rolesIpfsHash = await hre.deployMetadata.pushMetadataToIPFSWithBytecode(
+    RolesModuleJson.bytecode
+  );
+  console.log("Metadata IPFS hash:", rolesIpfsHash);
+
+  const RolesModule = new quais.ContractFactory(
+    RolesModuleJson.abi,
+    RolesModuleJson.bytecode,
+    wallet,
+    rolesIpfsHash
+  );
+
+  const roles = await RolesModule.deploy();
+  await roles.waitForDeployment();
+  const rolesAddress = await roles.getAddress();
+  console.log("Transaction hash:", roles.deploymentTransaction()?.hash);
+  console.log("RolesModule deployed to:", rolesAddress);
+
+  // Deploy InheritanceModule
+  console.log("\nDeploying InheritanceModule...");
+
+  const inheritanceIpfsHash = await hre.deployMetadata.pushMetadataToIPFSWithBytecode(
+    InheritanceModuleJson.bytecode
+  );
+  console.log("Metadata IPFS hash:", inheritanceIpfsHash);
+
+  const InheritanceModule = new quais.ContractFactory(
+    InheritanceModuleJson.abi,
+    InheritanceModuleJson.bytecode,
+    wallet,
+    inheritanceIpfsHash
+  );
+
+  const inheritance = await InheritanceModule.deploy();
+  await inheritance.waitForDeployment();
+  const inheritanceAddress = await inheritance.getAddress();
+  console.log("Transaction hash:", inheritance.deploymentTransaction()?.hash);
+  console.log("InheritanceModule deployed to:", inheritanceAddress);
+
+  // Deploy RecurringPaymentsModule
+  console.log("\nDeploying RecurringPaymentsModule...");
+
+  const recurringPaymentsIpfsHash = await hre.deployMetadata.pushMetadataToIPFSWithBytecode(
+    RecurringPaymentsModuleJson.bytecode
+  );
+  console.log("Metadata IPFS hash:", recurringPaymentsIpfsHash);
+
+  const RecurringPaymentsModule = new quais.ContractFactory(
+    RecurringPaymentsModuleJson.abi,
+    RecurringPaymentsModuleJson.bytecode,
+    wallet,
+    recurringPaymentsIpfsHash
+  );
+
+  const recurringPayments = await RecurringPaymentsModule.deploy();
+  await recurringPayments.waitForDeployment();
+  const recurringPaymentsAddress = await recurringPayments.getAddress();
+  console.log("Transaction hash:", recurringPayments.deploymentTransaction()?.hash);
+  console.log("RecurringPaymentsModule deployed to:", recurringPaymentsAddress);
+
+  // Deploy VestingModule
+  console.log("\nDeploying VestingModule...");
+
+  const vestingIpfsHash = await hre.deployMetadata.pushMetadataToIPFSWithBytecode(
+    VestingModuleJson.bytecode
+  );
+  console.log("Metadata IPFS hash:", vestingIpfsHash);
+
+  const VestingModule = new quais.ContractFactory(
+    VestingModuleJson.abi,
+    VestingModuleJson.bytecode,
+    wallet,
+    vestingIpfsHash
+  );
+
+  const vesting = await VestingModule.deploy();
+  await vesting.waitForDeployment();
+  const vestingAddress = await vesting.getAddress();
+  console.log("Transaction hash:", vesting.deploymentTransaction()?.hash);
+  console.log("VestingModule deployed to:", vestingAddress);
+
+  // Deploy DenylistGuard
+  console.log("\nDeploying DenylistGuard...");
+
+  const denylistGuardIpfsHash = await hre.deployMetadata.pushMetadataToIPFSWithBytecode(
+    DenylistGuardJson.bytecode
+  );
+  console.log("Metadata IPFS hash:", denylistGuardIpfsHash);
+
+  const DenylistGuard = new quais.ContractFactory(
+    DenylistGuardJson.abi,
+    DenylistGuardJson.bytecode,
+    wallet,
+    denylistGuardIpfsHash
+  );
+
+  const denylistGuard = await DenylistGuard.deploy();
+  await denylistGuard.waitForDeployment();
+  const denylistGuardAddress = await denylistGuard.getAddress();
+  console.log("Transaction hash:", denylistGuard.deploymentTransaction()?.hash);
+  console.log("DenylistGuard deployed to:", denylistGuardAddress);
+
   // Save deployment addresses
   const deployment = {
     network: hre.network.name,
@@ -175,6 +307,12 @@ async function main() {
       SocialRecoveryModule: socialRecoveryAddress,
       DailyLimitModule: dailyLimitAddress,
       WhitelistModule: whitelistAddress,
+      DelayModule: delayAddress,
+      RolesModule: rolesAddress,
+      InheritanceModule: inheritanceAddress,
+      RecurringPaymentsModule: recurringPaymentsAddress,
+      VestingModule: vestingAddress,
+      DenylistGuard: denylistGuardAddress,
     },
     ipfsHashes: {
       MultisigWallet: implementationIpfsHash,
@@ -182,6 +320,12 @@ async function main() {
       SocialRecoveryModule: socialRecoveryIpfsHash,
       DailyLimitModule: dailyLimitIpfsHash,
       WhitelistModule: whitelistIpfsHash,
+      DelayModule: delayIpfsHash,
+      RolesModule: rolesIpfsHash,
+      InheritanceModule: inheritanceIpfsHash,
+      RecurringPaymentsModule: recurringPaymentsIpfsHash,
+      VestingModule: vestingIpfsHash,
+      DenylistGuard: denylistGuardIpfsHash,
     },
   };
 
@@ -205,6 +349,12 @@ async function main() {
   console.log("SocialRecoveryModule:", socialRecoveryAddress);
   console.log("DailyLimitModule:", dailyLimitAddress);
   console.log("WhitelistModule:", whitelistAddress);
+  console.log("DelayModule:", delayAddress);
+  console.log("RolesModule:", rolesAddress);
+  console.log("InheritanceModule:", inheritanceAddress);
+  console.log("RecurringPaymentsModule:", recurringPaymentsAddress);
+  console.log("VestingModule:", vestingAddress);
+  console.log("DenylistGuard:", denylistGuardAddress);
 
   console.log("\n📝 Add these to your .env file:");
   console.log("-------------------");
@@ -213,6 +363,12 @@ async function main() {
   console.log(`SOCIAL_RECOVERY_MODULE=${socialRecoveryAddress}`);
   console.log(`DAILY_LIMIT_MODULE=${dailyLimitAddress}`);
   console.log(`WHITELIST_MODULE=${whitelistAddress}`);
+  console.log(`DELAY_MODULE=${delayAddress}`);
+  console.log(`ROLES_MODULE=${rolesAddress}`);
+  console.log(`INHERITANCE_MODULE=${inheritanceAddress}`);
+  console.log(`RECURRING_PAYMENTS_MODULE=${recurringPaymentsAddress}`);
+  console.log(`VESTING_MODULE=${vestingAddress}`);
+  console.log(`DENYLIST_GUARD=${denylistGuardAddress}`);
 }
 
 main()
@@ -0,0 +1,90 @@
+import { ethers } from "hardhat";
+import { RecurringPaymentsModule } from "../typechain-types";
+
+/**
+ * Keeper for RecurringPaymentsModule
+ *
+ * Triggers every due payment for the wallets using the module. Run against a local node:
+ *   npx hardhat node
+ *   RECURRING_PAYMENTS_MODULE=0x... npm run keeper:local
+ *
+ * Environment:
+ *   RECURRING_PAYMENTS_MODULE - Module address (required)
+ *   RECURRING_WALLETS         - Comma-separated wallets to check (default: every wallet that created a schedule)
+ *   KEEPER_INTERVAL           - Seconds between runs (default: run once and exit)
+ */
+
+// Upper bound on catch-up payments per schedule in one run
+const MAX_PAYMENTS_PER_SCHEDULE = 12;
+
+async function findWallets(module: RecurringPaymentsModule): Promise<string[]> {
+  if (process.env.RECURRING_WALLETS) {
+    return process.env.RECURRING_WALLETS.split(",").map((address) => address.trim()).filter(Boolean);
+  }
+
+  const events = await module.queryFilter(module.filters.ScheduleCreated());
+  return [...new Set(events.map((event) => event.args.wallet))];
+}
+
+async function runOnce(module: RecurringPaymentsModule): Promise<number> {
+  const wallets = await findWallets(module);
+  let paymentsMade = 0;
+
+  for (const wallet of wallets) {
+    const dueIds = await module.getDueScheduleIds(wallet);
+    if (dueIds.length === 0) continue;
+
+    console.log(`Wallet ${wallet}: ${dueIds.length} schedule(s) due`);
+
+    for (const scheduleId of dueIds) {
+      // Keep paying until the schedule has caught up with missed intervals
+      for (let i = 0; i < MAX_PAYMENTS_PER_SCHEDULE && (await module.isPaymentDue(wallet, scheduleId)); i++) {
+        try {
+          const tx = await module.executePayment(wallet, scheduleId);
+          const receipt = await tx.wait();
+          paymentsMade++;
+          console.log(`  ✅ Paid ${scheduleId.slice(0, 10)}... in block ${receipt?.blockNumber}`);
+        } catch (error) {
+          // Usually an unfunded wallet; leave the schedule for the next run
+          const reason = error instanceof Error ? ("shortMessage" in error ? error.shortMessage : error.message) : error;
+          console.error(`  ❌ Payment ${scheduleId.slice(0, 10)}... failed:`, reason);
+          break;
+        }
+      }
+    }
+  }
+
+  return paymentsMade;
+}
+
+async function main() {
+  const moduleAddress = process.env.RECURRING_PAYMENTS_MODULE;
+  if (!moduleAddress) {
+    throw new Error("RECURRING_PAYMENTS_MODULE not set");
+  }
+
+  const [keeper] = await ethers.getSigners();
+  const module = await ethers.getContractAt("RecurringPaymentsModule", moduleAddress, keeper);
+  const interval = Number(process.env.KEEPER_INTERVAL || "0");
+
+  console.log("🔁 Recurring payments keeper");
+  console.log("Module:", moduleAddress);
+  console.log("Keeper:", keeper.address);
+  console.log();
+
+  do {
+    const paymentsMade = await runOnce(module);
+    console.log(`${new Date().toISOString()} - ${paymentsMade} payment(s) made`);
+
+    if (interval > 0) {
+      await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+  } while (interval > 0);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
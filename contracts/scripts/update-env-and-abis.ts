@@ -101,6 +101,51 @@ async function main() {
   );
   console.log("✅ Copied WhitelistModule.json");
 
+  // Copy DelayModule ABI
+  const delayArtifact = path.join(artifactsDir, "modules", "DelayModule.sol", "DelayModule.json");
+  const delayAbi = JSON.parse(fs.readFileSync(delayArtifact, "utf-8"));
+  fs.writeFileSync(
+    path.join(frontendAbiDir, "DelayModule.json"),
+    JSON.stringify({ abi: delayAbi.abi }, null, 2)
+  );
+  console.log("✅ Copied DelayModule.json");
+
+  // Copy RolesModule ABI
+  const rolesArtifact = path.join(artifactsDir, "modules", "RolesModule.sol", "RolesModule.json");
+  const rolesAbi = JSON.parse(fs.readFileSync(rolesArtifact, "utf-8"));
+  fs.writeFileSync(
+    path.join(frontendAbiDir, "RolesModule.json"),
+    JSON.stringify({ abi: rolesAbi.abi }, null, 2)
+  );
+  console.log("✅ Copied RolesModule.json");
+
+  // Copy InheritanceModule ABI
+  const inheritanceArtifact = path.join(artifactsDir, "modules", "InheritanceModule.sol", "InheritanceModule.json");
+  const inheritanceAbi = JSON.parse(fs.readFileSync(inheritanceArtifact, "utf-8"));
+  fs.writeFileSync(
+    path.join(frontendAbiDir, "InheritanceModule.json"),
+    JSON.stringify({ abi: inheritanceAbi.abi }, null, 2)
+  );
+  console.log("✅ Copied InheritanceModule.json");
+
+  // Copy RecurringPaymentsModule ABI
+  const recurringPaymentsArtifact = path.join(artifactsDir, "modules", "RecurringPaymentsModule.sol", "RecurringPaymentsModule.json");
+  const recurringPaymentsAbi = JSON.parse(fs.readFileSync(recurringPaymentsArtifact, "utf-8"));
+  fs.writeFileSync(
+    path.join(frontendAbiDir, "RecurringPaymentsModule.json"),
+    JSON.stringify({ abi: recurringPaymentsAbi.abi }, null, 2)
+  );
+  console.log("✅ Copied RecurringPaymentsModule.json");
+
+  // Copy VestingModule ABI
+  const vestingArtifact = path.join(artifactsDir, "modules", "VestingModule.sol", "VestingModule.json");
+  const vestingAbi = JSON.parse(fs.readFileSync(vestingArtifact, "utf-8"));
+  fs.writeFileSync(
+    path.join(frontendAbiDir, "VestingModule.json"),
+    JSON.stringify({ abi: vestingAbi.abi }, null, 2)
+  );
+  console.log("✅ Copied VestingModule.json");
+
   console.log("\n✅ All updates complete!");
   console.log("\nContract Addresses:");
   console.log("-------------------");
@@ -109,6 +154,12 @@ async function main() {
   console.log(`SOCIAL_RECOVERY_MODULE=${contracts.SocialRecoveryModule}`);
   console.log(`DAILY_LIMIT_MODULE=${contracts.DailyLimitModule}`);
   console.log(`WHITELIST_MODULE=${contracts.WhitelistModule}`);
+  console.log(`DELAY_MODULE=${contracts.DelayModule}`);
+  console.log(`ROLES_MODULE=${contracts.RolesModule}`);
+  console.log(`INHERITANCE_MODULE=${contracts.InheritanceModule}`);
+  console.log(`RECURRING_PAYMENTS_MODULE=${contracts.RecurringPaymentsModule}`);
+  console.log(`VESTING_MODULE=${contracts.VestingModule}`);
+  console.log(`DENYLIST_GUARD=${contracts.DenylistGuard}`);
 }
 
 function updateEnvFile(envPath: string, contracts: any, isFrontend: boolean) {
@@ -126,6 +177,12 @@ function updateEnvFile(envPath: string, contracts: any, isFrontend: boolean) {
     [`${prefix}SOCIAL_RECOVERY_MODULE`]: contracts.SocialRecoveryModule,
     [`${prefix}DAILY_LIMIT_MODULE`]: contracts.DailyLimitModule,
     [`${prefix}WHITELIST_MODULE`]: contracts.WhitelistModule,
+    [`${prefix}DELAY_MODULE`]: contracts.DelayModule,
+    [`${prefix}ROLES_MODULE`]: contracts.RolesModule,
+    [`${prefix}INHERITANCE_MODULE`]: contracts.InheritanceModule,
+    [`${prefix}RECURRING_PAYMENTS_MODULE`]: contracts.RecurringPaymentsModule,
+    [`${prefix}VESTING_MODULE`]: contracts.VestingModule,
+    [`${prefix}DENYLIST_GUARD`]: contracts.DenylistGuard,
   };
 
   // Update existing lines or append new ones
@@ -321,6 +321,299 @@ describe("DailyLimitModule", function () {
     });
   });
 
+  describe("token daily limits", function () {
+    const TOKEN_LIMIT = ethers.parseUnits("500", 18);
+    let token: any;
+    let otherToken: any;
+
+    /**
+     * Helper to set a token daily limit through multisig
+     */
+    async function setTokenLimitViaMultisig(tokenAddress: string, limit: bigint) {
+      const data = module.interface.encodeFunctionData("setTokenDailyLimit", [
+        await wallet.getAddress(),
+        tokenAddress,
+        limit
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+    }
+
+    beforeEach(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      token = await MockERC20.deploy();
+      otherToken = await MockERC20.deploy();
+      await token.mint(await wallet.getAddress(), ethers.parseUnits("10000", 18));
+      await otherToken.mint(await wallet.getAddress(), ethers.parseUnits("10000", 18));
+    });
+
+    it("should set a token limit via multisig", async function () {
+      await setTokenLimitViaMultisig(await token.getAddress(), TOKEN_LIMIT);
+
+      const limit = await module.getTokenDailyLimit(await wallet.getAddress(), await token.getAddress());
+      expect(limit.limit).to.equal(TOKEN_LIMIT);
+      expect(await module.getLimitedTokens(await wallet.getAddress())).to.deep.equal([await token.getAddress()]);
+    });
+
+    it("should reject direct calls from a single owner", async function () {
+      await expect(
+        module.connect(owner1).setTokenDailyLimit(await wallet.getAddress(), await token.getAddress(), TOKEN_LIMIT)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should transfer tokens below the limit", async function () {
+      await setTokenLimitViaMultisig(await token.getAddress(), TOKEN_LIMIT);
+      const amount = ethers.parseUnits("200", 18);
+
+      await expect(
+        module.connect(owner1).executeTokenBelowLimit(
+          await wallet.getAddress(),
+          await token.getAddress(),
+          recipient.address,
+          amount
+        )
+      )
+        .to.emit(module, "TokenTransactionExecuted")
+        .withArgs(await wallet.getAddress(), await token.getAddress(), recipient.address, amount, TOKEN_LIMIT - amount);
+
+      expect(await token.balanceOf(recipient.address)).to.equal(amount);
+      expect(await module.getTokenRemainingLimit(await wallet.getAddress(), await token.getAddress()))
+        .to.equal(TOKEN_LIMIT - amount);
+    });
+
+    it("should track each token separately from QUAI and other tokens", async function () {
+      await setDailyLimitViaMultisig(DAILY_LIMIT);
+      await setTokenLimitViaMultisig(await token.getAddress(), TOKEN_LIMIT);
+      await setTokenLimitViaMultisig(await otherToken.getAddress(), TOKEN_LIMIT);
+
+      await module.connect(owner1).executeTokenBelowLimit(
+        await wallet.getAddress(),
+        await token.getAddress(),
+        recipient.address,
+        TOKEN_LIMIT
+      );
+
+      expect(await module.getRemainingLimit(await wallet.getAddress())).to.equal(DAILY_LIMIT);
+      expect(await module.getTokenRemainingLimit(await wallet.getAddress(), await otherToken.getAddress()))
+        .to.equal(TOKEN_LIMIT);
+      await expect(
+        module.connect(owner1).executeTokenBelowLimit(
+          await wallet.getAddress(),
+          await token.getAddress(),
+          recipient.address,
+          1
+        )
+      ).to.be.revertedWithCustomError(module, "ExceedsDailyLimit");
+    });
+
+    it("should reject tokens without a limit", async function () {
+      await expect(
+        module.connect(owner1).executeTokenBelowLimit(
+          await wallet.getAddress(),
+          await token.getAddress(),
+          recipient.address,
+          1
+        )
+      ).to.be.revertedWithCustomError(module, "DailyLimitNotSet");
+    });
+
+    it("should reject transfers the wallet cannot cover", async function () {
+      await setTokenLimitViaMultisig(await token.getAddress(), ethers.parseUnits("20000", 18));
+
+      await expect(
+        module.connect(owner1).executeTokenBelowLimit(
+          await wallet.getAddress(),
+          await token.getAddress(),
+          recipient.address,
+          ethers.parseUnits("15000", 18)
+        )
+      ).to.be.revertedWithCustomError(module, "TransactionFailed");
+    });
+
+    it("should reset the token limit after 24 hours", async function () {
+      await setTokenLimitViaMultisig(await token.getAddress(), TOKEN_LIMIT);
+      await module.connect(owner1).executeTokenBelowLimit(
+        await wallet.getAddress(),
+        await token.getAddress(),
+        recipient.address,
+        TOKEN_LIMIT
+      );
+
+      await time.increase(24 * 60 * 60 + 1);
+
+      expect(await module.getTokenRemainingLimit(await wallet.getAddress(), await token.getAddress()))
+        .to.equal(TOKEN_LIMIT);
+    });
+
+    it("should drop a token from the list when its limit is removed", async function () {
+      await setTokenLimitViaMultisig(await token.getAddress(), TOKEN_LIMIT);
+      await setTokenLimitViaMultisig(await otherToken.getAddress(), TOKEN_LIMIT);
+
+      await setTokenLimitViaMultisig(await token.getAddress(), 0n);
+
+      expect(await module.getLimitedTokens(await wallet.getAddress())).to.deep.equal([await otherToken.getAddress()]);
+    });
+
+    it("should reset a token limit via multisig", async function () {
+      await setTokenLimitViaMultisig(await token.getAddress(), TOKEN_LIMIT);
+      await module.connect(owner1).executeTokenBelowLimit(
+        await wallet.getAddress(),
+        await token.getAddress(),
+        recipient.address,
+        TOKEN_LIMIT
+      );
+
+      const data = module.interface.encodeFunctionData("resetTokenDailyLimit", [
+        await wallet.getAddress(),
+        await token.getAddress()
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+
+      const limit = await module.getTokenDailyLimit(await wallet.getAddress(), await token.getAddress());
+      expect(limit.spent).to.equal(0);
+    });
+  });
+
+  describe("limit periods", function () {
+    const HOUR = 60 * 60;
+    const DAY = 24 * HOUR;
+
+    /**
+     * Helper to set the limit period through multisig
+     */
+    async function setLimitPeriodViaMultisig(period: number, rolling: boolean) {
+      const data = module.interface.encodeFunctionData("setLimitPeriod", [
+        await wallet.getAddress(),
+        period,
+        rolling
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+    }
+
+    async function spend(value: bigint) {
+      await module.connect(owner1).executeBelowLimit(await wallet.getAddress(), recipient.address, value);
+    }
+
+    beforeEach(async function () {
+      await setDailyLimitViaMultisig(DAILY_LIMIT);
+    });
+
+    it("should default to a fixed daily period", async function () {
+      const [period, rolling] = await module.getLimitPeriod(await wallet.getAddress());
+      expect(period).to.equal(DAY);
+      expect(rolling).to.equal(false);
+    });
+
+    it("should reject direct calls from a single owner", async function () {
+      await expect(
+        module.connect(owner1).setLimitPeriod(await wallet.getAddress(), HOUR, false)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject periods outside the allowed range", async function () {
+      await expect(setLimitPeriodViaMultisig(HOUR - 1, false)).to.be.reverted;
+      await expect(setLimitPeriodViaMultisig(31 * DAY, false)).to.be.reverted;
+    });
+
+    it("should reset an hourly limit after an hour", async function () {
+      await setLimitPeriodViaMultisig(HOUR, false);
+      await spend(DAILY_LIMIT);
+
+      await time.increase(HOUR);
+
+      expect(await module.getRemainingLimit(await wallet.getAddress())).to.equal(DAILY_LIMIT);
+    });
+
+    it("should keep fixed periods anchored instead of restarting at the next spend", async function () {
+      await setLimitPeriodViaMultisig(DAY, false);
+      const periodStart = (await module.getDailyLimit(await wallet.getAddress())).lastReset;
+
+      // First spend lands 25 hours in: the second period started at periodStart + 1 day
+      await time.increaseTo(periodStart + BigInt(DAY + HOUR));
+      await spend(ethers.parseEther("1.0"));
+
+      expect((await module.getDailyLimit(await wallet.getAddress())).lastReset).to.equal(periodStart + BigInt(DAY));
+      expect(await module.getTimeUntilReset(await wallet.getAddress())).to.equal(DAY - HOUR - 1);
+    });
+
+    it("should count spends from the last period in a rolling window", async function () {
+      await setLimitPeriodViaMultisig(DAY, true);
+
+      await spend(ethers.parseEther("6.0"));
+      await time.increase(12 * HOUR);
+      await spend(ethers.parseEther("4.0"));
+
+      // A fixed period would have reset by now; the rolling window still holds the second spend
+      await time.increase(12 * HOUR);
+      expect(await module.getRemainingLimit(await wallet.getAddress())).to.equal(ethers.parseEther("6.0"));
+      expect((await module.getDailyLimit(await wallet.getAddress())).spent).to.equal(ethers.parseEther("4.0"));
+      await expect(spend(ethers.parseEther("7.0"))).to.be.revertedWithCustomError(module, "ExceedsDailyLimit");
+    });
+
+    it("should report when rolling capacity comes back", async function () {
+      await setLimitPeriodViaMultisig(DAY, true);
+
+      await spend(ethers.parseEther("6.0"));
+      await time.increase(12 * HOUR);
+      await spend(ethers.parseEther("4.0"));
+
+      const spends = await module.getRollingSpends(await wallet.getAddress(), ethers.ZeroAddress);
+      expect(spends.map((entry) => entry.amount)).to.deep.equal([ethers.parseEther("6.0"), ethers.parseEther("4.0")]);
+      expect(await module.getTimeUntilReset(await wallet.getAddress())).to.equal(
+        spends[0].timestamp + BigInt(DAY) - BigInt(await time.latest())
+      );
+    });
+
+    it("should reject spends once the rolling window is full", async function () {
+      await setLimitPeriodViaMultisig(DAY, true);
+      const maxSpends = Number(await module.MAX_ROLLING_SPENDS());
+
+      for (let i = 0; i < maxSpends; i++) {
+        await spend(1n);
+      }
+
+      await expect(spend(1n)).to.be.revertedWithCustomError(module, "RollingWindowFull");
+
+      // The oldest spend leaving the window frees a slot
+      await time.increase(DAY);
+      await spend(1n);
+    });
+
+    it("should apply the period to token limits", async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      const token = await MockERC20.deploy();
+      await token.mint(await wallet.getAddress(), 1000n);
+      const setData = module.interface.encodeFunctionData("setTokenDailyLimit", [
+        await wallet.getAddress(),
+        await token.getAddress(),
+        100n
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, setData);
+      await setLimitPeriodViaMultisig(7 * DAY, true);
+
+      await module.connect(owner1).executeTokenBelowLimit(
+        await wallet.getAddress(),
+        await token.getAddress(),
+        recipient.address,
+        100n
+      );
+      await time.increase(2 * DAY);
+
+      expect(await module.getTokenRemainingLimit(await wallet.getAddress(), await token.getAddress())).to.equal(0n);
+      expect(await module.getTokenTimeUntilReset(await wallet.getAddress(), await token.getAddress())).to.be.closeTo(
+        5 * DAY,
+        5
+      );
+    });
+
+    it("should start afresh when the period changes", async function () {
+      await spend(DAILY_LIMIT);
+
+      await setLimitPeriodViaMultisig(7 * DAY, false);
+
+      expect(await module.getRemainingLimit(await wallet.getAddress())).to.equal(DAILY_LIMIT);
+    });
+  });
+
   describe("Edge Cases", function () {
     it("should handle limit exactly at threshold", async function () {
       await setDailyLimitViaMultisig(DAILY_LIMIT);
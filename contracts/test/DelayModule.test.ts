@@ -0,0 +1,481 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultisigWallet, ProxyFactory, DelayModule, WhitelistModule } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("DelayModule", function () {
+  let implementation: MultisigWallet;
+  let factory: ProxyFactory;
+  let wallet: MultisigWallet;
+  let module: DelayModule;
+  let owner1: SignerWithAddress;
+  let owner2: SignerWithAddress;
+  let owner3: SignerWithAddress;
+  let recipient: SignerWithAddress;
+  let nonOwner: SignerWithAddress;
+
+  const THRESHOLD = 2;
+  const DELAY = 48 * 60 * 60; // 48 hours
+
+  beforeEach(async function () {
+    [owner1, owner2, owner3, recipient, nonOwner] = await ethers.getSigners();
+
+    // Deploy implementation
+    const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+    implementation = await MultisigWallet.deploy();
+    await implementation.waitForDeployment();
+
+    // Deploy factory
+    const ProxyFactory = await ethers.getContractFactory("ProxyFactory");
+    factory = await ProxyFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+
+    // Create wallet through factory
+    const owners = [owner1.address, owner2.address, owner3.address];
+    const salt = ethers.randomBytes(32);
+    const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, salt);
+    const receipt = await tx.wait();
+
+    const event = receipt?.logs.find(
+      (log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const parsedEvent = factory.interface.parseLog(event as any);
+    const walletAddress = parsedEvent?.args[0];
+    wallet = MultisigWallet.attach(walletAddress) as MultisigWallet;
+
+    // Deploy module
+    const DelayModule = await ethers.getContractFactory("DelayModule");
+    module = await DelayModule.deploy();
+    await module.waitForDeployment();
+
+    // Enable module (requires multisig)
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+    );
+
+    // Fund wallet
+    await owner1.sendTransaction({
+      to: await wallet.getAddress(),
+      value: ethers.parseEther("100.0"),
+    });
+  });
+
+  /**
+   * Helper to execute a transaction through multisig
+   */
+  async function executeMultisig(to: string, value: bigint, data: string) {
+    const proposeTx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+    const proposeReceipt = await proposeTx.wait();
+    const proposeEvent = proposeReceipt?.logs.find(
+      (log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const proposeParsed = wallet.interface.parseLog(proposeEvent as any);
+    const txHash = proposeParsed?.args[0];
+
+    await wallet.connect(owner1).approveTransaction(txHash);
+    await wallet.connect(owner2).approveTransaction(txHash);
+    const executeTx = await wallet.connect(owner3).executeTransaction(txHash);
+    return executeTx.wait();
+  }
+
+  /**
+   * Helper to set the cooldown through multisig (H-2 fix)
+   */
+  async function setDelayViaMultisig(delay: number) {
+    const setDelayData = module.interface.encodeFunctionData("setDelay", [
+      await wallet.getAddress(),
+      delay
+    ]);
+    await executeMultisig(await module.getAddress(), 0n, setDelayData);
+  }
+
+  /**
+   * Helper to queue a transaction through multisig, returning the queue hash
+   */
+  async function queueViaMultisig(to: string, value: bigint, data: string): Promise<string> {
+    const queueData = module.interface.encodeFunctionData("queueTransaction", [
+      await wallet.getAddress(),
+      to,
+      value,
+      data
+    ]);
+    const receipt = await executeMultisig(await module.getAddress(), 0n, queueData);
+    const queuedEvent = receipt?.logs.find(
+      (log) => {
+        try {
+          return module.interface.parseLog(log as any)?.name === "TransactionQueued";
+        } catch {
+          return false;
+        }
+      }
+    );
+    return module.interface.parseLog(queuedEvent as any)?.args[1];
+  }
+
+  describe("setDelay", function () {
+    it("should set delay via multisig", async function () {
+      await setDelayViaMultisig(DELAY);
+
+      expect(await module.delays(await wallet.getAddress())).to.equal(DELAY);
+    });
+
+    it("should reject direct call from single owner (H-2 security fix)", async function () {
+      await expect(
+        module.connect(owner1).setDelay(await wallet.getAddress(), DELAY)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject zero delay", async function () {
+      const setDelayData = module.interface.encodeFunctionData("setDelay", [
+        await wallet.getAddress(),
+        0
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, setDelayData)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+    });
+  });
+
+  describe("queueTransaction", function () {
+    beforeEach(async function () {
+      await setDelayViaMultisig(DELAY);
+    });
+
+    it("should queue transaction with execution time after delay", async function () {
+      const value = ethers.parseEther("5.0");
+      const txHash = await queueViaMultisig(recipient.address, value, "0x");
+
+      const queued = await module.getQueuedTransaction(await wallet.getAddress(), txHash);
+      expect(queued.to).to.equal(recipient.address);
+      expect(queued.value).to.equal(value);
+      expect(queued.executed).to.be.false;
+      expect(queued.executeAfter).to.equal(BigInt(await time.latest()) + BigInt(DELAY));
+
+      const pending = await module.getPendingTransactionHashes(await wallet.getAddress());
+      expect(pending).to.deep.equal([txHash]);
+    });
+
+    it("should reject direct call from single owner", async function () {
+      await expect(
+        module.connect(owner1).queueTransaction(await wallet.getAddress(), recipient.address, 1, "0x")
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should give identical transactions distinct hashes", async function () {
+      const hash1 = await queueViaMultisig(recipient.address, 1n, "0x");
+      const hash2 = await queueViaMultisig(recipient.address, 1n, "0x");
+
+      expect(hash1).to.not.equal(hash2);
+    });
+  });
+
+  describe("executeQueuedTransaction", function () {
+    let txHash: string;
+    const value = ethers.parseEther("5.0");
+
+    beforeEach(async function () {
+      await setDelayViaMultisig(DELAY);
+      txHash = await queueViaMultisig(recipient.address, value, "0x");
+    });
+
+    it("should execute after cooldown", async function () {
+      await time.increase(DELAY);
+
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await expect(module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash))
+        .to.emit(module, "QueuedTransactionExecuted")
+        .withArgs(await wallet.getAddress(), txHash);
+
+      const balanceAfter = await ethers.provider.getBalance(recipient.address);
+      expect(balanceAfter - balanceBefore).to.equal(value);
+
+      const pending = await module.getPendingTransactionHashes(await wallet.getAddress());
+      expect(pending.length).to.equal(0);
+    });
+
+    it("should reject execution during cooldown", async function () {
+      await time.increase(DELAY - 60);
+
+      await expect(
+        module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "CooldownNotElapsed");
+    });
+
+    it("should reject execution from non-owner", async function () {
+      await time.increase(DELAY);
+
+      await expect(
+        module.connect(nonOwner).executeQueuedTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "NotAnOwner");
+    });
+
+    it("should reject executing twice", async function () {
+      await time.increase(DELAY);
+      await module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash);
+
+      await expect(
+        module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "TransactionAlreadyExecuted");
+    });
+
+    it("should report time until executable", async function () {
+      const remaining = await module.getTimeUntilExecutable(await wallet.getAddress(), txHash);
+      expect(remaining).to.be.closeTo(BigInt(DELAY), 5n);
+
+      await time.increase(DELAY);
+      expect(await module.getTimeUntilExecutable(await wallet.getAddress(), txHash)).to.equal(0);
+    });
+  });
+
+  describe("vetoTransaction", function () {
+    let txHash: string;
+
+    beforeEach(async function () {
+      await setDelayViaMultisig(DELAY);
+      txHash = await queueViaMultisig(recipient.address, ethers.parseEther("5.0"), "0x");
+    });
+
+    it("should allow a single owner to veto during cooldown", async function () {
+      await expect(module.connect(owner2).vetoTransaction(await wallet.getAddress(), txHash))
+        .to.emit(module, "TransactionVetoed")
+        .withArgs(await wallet.getAddress(), txHash, owner2.address);
+
+      const pending = await module.getPendingTransactionHashes(await wallet.getAddress());
+      expect(pending.length).to.equal(0);
+
+      await time.increase(DELAY);
+      await expect(
+        module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "TransactionNotQueued");
+    });
+
+    it("should reject veto from non-owner", async function () {
+      await expect(
+        module.connect(nonOwner).vetoTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "NotAnOwner");
+    });
+
+    it("should reject veto after execution", async function () {
+      await time.increase(DELAY);
+      await module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash);
+
+      await expect(
+        module.connect(owner2).vetoTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "TransactionAlreadyExecuted");
+    });
+  });
+
+  describe("Guard", function () {
+    beforeEach(async function () {
+      await setDelayViaMultisig(DELAY);
+      await executeMultisig(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("setGuard", [await module.getAddress()])
+      );
+    });
+
+    it("should reject direct execution while a delay is set", async function () {
+      const value = ethers.parseEther("5.0");
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await expect(
+        executeMultisig(recipient.address, value, "0x")
+      ).to.be.revertedWithCustomError(module, "ExecutionNotQueued");
+
+      const proposeTx = await wallet.connect(owner1).proposeTransaction(recipient.address, value, "0x");
+      const proposeReceipt = await proposeTx.wait();
+      const txHash = wallet.interface.parseLog(proposeReceipt!.logs[0] as any)?.args[0];
+      await wallet.connect(owner1).approveTransaction(txHash);
+
+      await expect(
+        wallet.connect(owner2).approveAndExecute(txHash)
+      ).to.be.revertedWithCustomError(module, "ExecutionNotQueued");
+
+      expect(await ethers.provider.getBalance(recipient.address)).to.equal(balanceBefore);
+    });
+
+    it("should still queue and execute through the module", async function () {
+      const value = ethers.parseEther("5.0");
+      const txHash = await queueViaMultisig(recipient.address, value, "0x");
+      await time.increase(DELAY);
+
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+      await module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash);
+
+      expect(await ethers.provider.getBalance(recipient.address) - balanceBefore).to.equal(value);
+    });
+
+    it("should reject a queued call executed directly before its cooldown", async function () {
+      const removeGuardData = wallet.interface.encodeFunctionData("setGuard", [ethers.ZeroAddress]);
+      await queueViaMultisig(await wallet.getAddress(), 0n, removeGuardData);
+
+      await expect(
+        executeMultisig(await wallet.getAddress(), 0n, removeGuardData)
+      ).to.be.revertedWithCustomError(module, "ExecutionNotQueued");
+    });
+
+    it("should allow a queued call to execute directly once its cooldown has elapsed", async function () {
+      const removeGuardData = wallet.interface.encodeFunctionData("setGuard", [ethers.ZeroAddress]);
+      await queueViaMultisig(await wallet.getAddress(), 0n, removeGuardData);
+      await time.increase(DELAY);
+
+      await executeMultisig(await wallet.getAddress(), 0n, removeGuardData);
+
+      expect(await wallet.guard()).to.equal(ethers.ZeroAddress);
+      const pending = await module.getPendingTransactionHashes(await wallet.getAddress());
+      expect(pending.length).to.equal(0);
+    });
+
+    it("should keep a queued call queued when its direct execution fails", async function () {
+      const value = ethers.parseEther("150.0"); // more than the wallet holds
+      const walletAddress = await wallet.getAddress();
+      await queueViaMultisig(recipient.address, value, "0x");
+      await time.increase(DELAY);
+
+      const proposeTx = await wallet.connect(owner1).proposeTransaction(recipient.address, value, "0x");
+      const proposeReceipt = await proposeTx.wait();
+      const txHash = wallet.interface.parseLog(proposeReceipt!.logs[0] as any)?.args[0];
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      await expect(wallet.connect(owner1).tryExecuteTransaction(txHash))
+        .to.emit(wallet, "ExecutionFailure");
+      expect((await module.getPendingTransactionHashes(walletAddress)).length).to.equal(1);
+
+      // Retry once funded, without queueing again
+      await owner1.sendTransaction({ to: walletAddress, value: ethers.parseEther("100.0") });
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await expect(wallet.connect(owner1).tryExecuteTransaction(txHash))
+        .to.emit(module, "QueuedTransactionExecuted");
+
+      expect(await ethers.provider.getBalance(recipient.address) - balanceBefore).to.equal(value);
+      expect((await module.getPendingTransactionHashes(walletAddress)).length).to.equal(0);
+    });
+  });
+
+  describe("Guard with other modules", function () {
+    let whitelistModule: WhitelistModule;
+
+    beforeEach(async function () {
+      const WhitelistModule = await ethers.getContractFactory("WhitelistModule");
+      whitelistModule = await WhitelistModule.deploy();
+      await whitelistModule.waitForDeployment();
+
+      const walletAddress = await wallet.getAddress();
+      const whitelistAddress = await whitelistModule.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [whitelistAddress]));
+      for (const addr of [recipient.address, await module.getAddress()]) {
+        await executeMultisig(
+          whitelistAddress,
+          0n,
+          whitelistModule.interface.encodeFunctionData("addToWhitelist", [walletAddress, addr, 0])
+        );
+      }
+
+      await setDelayViaMultisig(DELAY);
+      await executeMultisig(
+        walletAddress,
+        0n,
+        wallet.interface.encodeFunctionData("setGuard", [await module.getAddress()])
+      );
+    });
+
+    it("should let other modules execute without the cooldown", async function () {
+      const value = ethers.parseEther("1.0");
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await whitelistModule.connect(owner1).executeToWhitelist(await wallet.getAddress(), recipient.address, value, "0x");
+
+      expect(await ethers.provider.getBalance(recipient.address) - balanceBefore).to.equal(value);
+    });
+
+    it("should reject other modules changing the delay", async function () {
+      const setDelayData = module.interface.encodeFunctionData("setDelay", [await wallet.getAddress(), 1]);
+
+      await expect(
+        whitelistModule.connect(owner1).executeToWhitelist(
+          await wallet.getAddress(),
+          await module.getAddress(),
+          0,
+          setDelayData
+        )
+      ).to.be.revertedWithCustomError(module, "ModuleCannotChangeDelay");
+
+      expect(await module.delays(await wallet.getAddress())).to.equal(DELAY);
+    });
+
+    it("should let a queued delay change execute through the module", async function () {
+      const setDelayData = module.interface.encodeFunctionData("setDelay", [await wallet.getAddress(), 60]);
+      const txHash = await queueViaMultisig(await module.getAddress(), 0n, setDelayData);
+      await time.increase(DELAY);
+
+      await module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash);
+
+      expect(await module.delays(await wallet.getAddress())).to.equal(60);
+    });
+  });
+
+  describe("Edge Cases", function () {
+    it("should reject queueing before a delay is configured", async function () {
+      const queueData = module.interface.encodeFunctionData("queueTransaction", [
+        await wallet.getAddress(),
+        recipient.address,
+        1n,
+        "0x"
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, queueData)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+    });
+
+    it("should cap the number of pending queued transactions", async function () {
+      await setDelayViaMultisig(DELAY);
+      const max = Number(await module.MAX_QUEUED_TRANSACTIONS());
+      for (let i = 0; i < max; i++) {
+        await queueViaMultisig(recipient.address, 1n, "0x");
+      }
+
+      const queueData = module.interface.encodeFunctionData("queueTransaction", [
+        await wallet.getAddress(),
+        recipient.address,
+        1n,
+        "0x"
+      ]);
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, queueData)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+    });
+
+    it("should keep the original cooldown when the delay is changed", async function () {
+      await setDelayViaMultisig(DELAY);
+      const txHash = await queueViaMultisig(recipient.address, 1n, "0x");
+
+      await setDelayViaMultisig(60);
+      await time.increase(120);
+
+      await expect(
+        module.connect(owner1).executeQueuedTransaction(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "CooldownNotElapsed");
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultisigWallet, ProxyFactory, DenylistGuard, WhitelistModule } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("DenylistGuard", function () {
+  let implementation: MultisigWallet;
+  let factory: ProxyFactory;
+  let wallet: MultisigWallet;
+  let guard: DenylistGuard;
+  let owner1: SignerWithAddress;
+  let owner2: SignerWithAddress;
+  let owner3: SignerWithAddress;
+  let recipient: SignerWithAddress;
+  let deniedRecipient: SignerWithAddress;
+
+  const THRESHOLD = 2;
+
+  beforeEach(async function () {
+    [owner1, owner2, owner3, recipient, deniedRecipient] = await ethers.getSigners();
+
+    // Deploy implementation
+    const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+    implementation = await MultisigWallet.deploy();
+    await implementation.waitForDeployment();
+
+    // Deploy factory
+    const ProxyFactory = await ethers.getContractFactory("ProxyFactory");
+    factory = await ProxyFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+
+    // Create wallet through factory
+    const owners = [owner1.address, owner2.address, owner3.address];
+    const salt = ethers.randomBytes(32);
+    const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, salt);
+    const receipt = await tx.wait();
+
+    const event = receipt?.logs.find(
+      (log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const parsedEvent = factory.interface.parseLog(event as any);
+    const walletAddress = parsedEvent?.args[0];
+    wallet = MultisigWallet.attach(walletAddress) as MultisigWallet;
+
+    // Deploy guard
+    const DenylistGuard = await ethers.getContractFactory("DenylistGuard");
+    guard = await DenylistGuard.deploy();
+    await guard.waitForDeployment();
+
+    // Fund wallet
+    await owner1.sendTransaction({
+      to: await wallet.getAddress(),
+      value: ethers.parseEther("10.0"),
+    });
+  });
+
+  /**
+   * Helper to propose and approve a transaction, returning its hash
+   */
+  async function proposeAndApprove(to: string, value: bigint, data: string): Promise<string> {
+    const proposeTx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+    const proposeReceipt = await proposeTx.wait();
+    const proposeEvent = proposeReceipt?.logs.find(
+      (log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const txHash = wallet.interface.parseLog(proposeEvent as any)?.args[0];
+
+    await wallet.connect(owner1).approveTransaction(txHash);
+    await wallet.connect(owner2).approveTransaction(txHash);
+    return txHash;
+  }
+
+  /**
+   * Helper to execute a transaction through multisig
+   */
+  async function executeMultisig(to: string, value: bigint, data: string) {
+    const txHash = await proposeAndApprove(to, value, data);
+    const executeTx = await wallet.connect(owner3).executeTransaction(txHash);
+    return executeTx.wait();
+  }
+
+  async function setGuardViaMultisig(guardAddress: string) {
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("setGuard", [guardAddress])
+    );
+  }
+
+  async function denyDestinationViaMultisig(destination: string) {
+    await executeMultisig(
+      await guard.getAddress(),
+      0n,
+      guard.interface.encodeFunctionData("setDestinationDenied", [
+        await wallet.getAddress(),
+        destination,
+        true
+      ])
+    );
+  }
+
+  async function denySelectorViaMultisig(selector: string) {
+    await executeMultisig(
+      await guard.getAddress(),
+      0n,
+      guard.interface.encodeFunctionData("setSelectorDenied", [
+        await wallet.getAddress(),
+        selector,
+        true
+      ])
+    );
+  }
+
+  describe("setGuard", function () {
+    it("should set guard via multisig", async function () {
+      await setGuardViaMultisig(await guard.getAddress());
+
+      expect(await wallet.guard()).to.equal(await guard.getAddress());
+    });
+
+    it("should reject direct calls", async function () {
+      await expect(
+        wallet.connect(owner1).setGuard(await guard.getAddress())
+      ).to.be.revertedWithCustomError(wallet, "OnlySelf");
+    });
+
+    it("should reject a guard without code", async function () {
+      await expect(
+        setGuardViaMultisig(recipient.address)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+    });
+
+    it("should remove guard by setting the zero address", async function () {
+      await setGuardViaMultisig(await guard.getAddress());
+      await setGuardViaMultisig(ethers.ZeroAddress);
+
+      expect(await wallet.guard()).to.equal(ethers.ZeroAddress);
+    });
+  });
+
+  describe("Denylist configuration", function () {
+    it("should reject direct configuration from a single owner", async function () {
+      await expect(
+        guard.connect(owner1).setDestinationDenied(await wallet.getAddress(), deniedRecipient.address, true)
+      ).to.be.revertedWithCustomError(guard, "MustBeCalledByWallet");
+
+      await expect(
+        guard.connect(owner1).setSelectorDenied(await wallet.getAddress(), "0x12345678", true)
+      ).to.be.revertedWithCustomError(guard, "MustBeCalledByWallet");
+    });
+
+    it("should not allow denying the wallet itself", async function () {
+      const data = guard.interface.encodeFunctionData("setDestinationDenied", [
+        await wallet.getAddress(),
+        await wallet.getAddress(),
+        true
+      ]);
+
+      await expect(
+        executeMultisig(await guard.getAddress(), 0n, data)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+    });
+  });
+
+  describe("checkTransaction", function () {
+    beforeEach(async function () {
+      await setGuardViaMultisig(await guard.getAddress());
+      await denyDestinationViaMultisig(deniedRecipient.address);
+    });
+
+    it("should allow transactions to other destinations", async function () {
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await executeMultisig(recipient.address, ethers.parseEther("1.0"), "0x");
+
+      const balanceAfter = await ethers.provider.getBalance(recipient.address);
+      expect(balanceAfter - balanceBefore).to.equal(ethers.parseEther("1.0"));
+    });
+
+    it("should block executeTransaction to a denied destination", async function () {
+      const txHash = await proposeAndApprove(deniedRecipient.address, ethers.parseEther("1.0"), "0x");
+
+      await expect(
+        wallet.connect(owner3).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(guard, "DestinationDenied")
+        .withArgs(deniedRecipient.address);
+    });
+
+    it("should block approveAndExecute to a denied destination", async function () {
+      const proposeTx = await wallet.connect(owner1).proposeTransaction(deniedRecipient.address, 1n, "0x");
+      const proposeReceipt = await proposeTx.wait();
+      const proposeEvent = proposeReceipt?.logs.find(
+        (log) => {
+          try {
+            return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+          } catch {
+            return false;
+          }
+        }
+      );
+      const txHash = wallet.interface.parseLog(proposeEvent as any)?.args[0];
+      await wallet.connect(owner1).approveTransaction(txHash);
+
+      await expect(
+        wallet.connect(owner2).approveAndExecute(txHash)
+      ).to.be.revertedWithCustomError(guard, "DestinationDenied");
+    });
+
+    it("should block a denied selector", async function () {
+      const selector = wallet.interface.getFunction("changeThreshold")!.selector;
+      await denySelectorViaMultisig(selector);
+
+      const txHash = await proposeAndApprove(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("changeThreshold", [1])
+      );
+
+      await expect(
+        wallet.connect(owner3).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(guard, "SelectorDenied")
+        .withArgs(selector);
+    });
+
+    it("should check every call inside a batch", async function () {
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: recipient.address, value: 1n, data: "0x" },
+        { to: deniedRecipient.address, value: 1n, data: "0x" },
+      ]]);
+      const txHash = await proposeAndApprove(await wallet.getAddress(), 0n, data);
+
+      await expect(
+        wallet.connect(owner3).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(guard, "DestinationDenied")
+        .withArgs(deniedRecipient.address);
+    });
+
+    it("should check calls inside nested batches", async function () {
+      const inner = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: deniedRecipient.address, value: 1n, data: "0x" },
+      ]]);
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: recipient.address, value: 1n, data: "0x" },
+        { to: await wallet.getAddress(), value: 0n, data: inner },
+      ]]);
+      const txHash = await proposeAndApprove(await wallet.getAddress(), 0n, data);
+      const balanceBefore = await ethers.provider.getBalance(deniedRecipient.address);
+
+      await expect(
+        wallet.connect(owner3).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(guard, "DestinationDenied")
+        .withArgs(deniedRecipient.address);
+      expect(await ethers.provider.getBalance(deniedRecipient.address)).to.equal(balanceBefore);
+    });
+
+    it("should always allow removing the guard", async function () {
+      await denySelectorViaMultisig(wallet.interface.getFunction("setGuard")!.selector);
+
+      await setGuardViaMultisig(ethers.ZeroAddress);
+
+      expect(await wallet.guard()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should check module executions", async function () {
+      const WhitelistModule = await ethers.getContractFactory("WhitelistModule");
+      const module: WhitelistModule = await WhitelistModule.deploy();
+      await module.waitForDeployment();
+
+      await executeMultisig(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+      );
+      await executeMultisig(
+        await module.getAddress(),
+        0n,
+        module.interface.encodeFunctionData("addToWhitelist", [
+          await wallet.getAddress(),
+          deniedRecipient.address,
+          0
+        ])
+      );
+
+      await expect(
+        module.connect(owner1).executeToWhitelist(await wallet.getAddress(), deniedRecipient.address, 1n, "0x")
+      ).to.be.revertedWithCustomError(guard, "DestinationDenied");
+    });
+
+    it("should not let modules remove the guard", async function () {
+      const WhitelistModule = await ethers.getContractFactory("WhitelistModule");
+      const module: WhitelistModule = await WhitelistModule.deploy();
+      await module.waitForDeployment();
+
+      await executeMultisig(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+      );
+      await executeMultisig(
+        await module.getAddress(),
+        0n,
+        module.interface.encodeFunctionData("addToWhitelist", [
+          await wallet.getAddress(),
+          await wallet.getAddress(),
+          0
+        ])
+      );
+
+      await expect(
+        module.connect(owner1).executeToWhitelist(
+          await wallet.getAddress(),
+          await wallet.getAddress(),
+          0n,
+          wallet.interface.encodeFunctionData("setGuard", [ethers.ZeroAddress])
+        )
+      ).to.be.revertedWithCustomError(wallet, "ModuleCannotModifyModulePermissions");
+      expect(await wallet.guard()).to.equal(await guard.getAddress());
+    });
+  });
+});
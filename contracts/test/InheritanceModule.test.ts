@@ -0,0 +1,359 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultisigWallet, ProxyFactory, InheritanceModule } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("InheritanceModule", function () {
+  let implementation: MultisigWallet;
+  let factory: ProxyFactory;
+  let wallet: MultisigWallet;
+  let module: InheritanceModule;
+  let owner1: SignerWithAddress;
+  let owner2: SignerWithAddress;
+  let owner3: SignerWithAddress;
+  let beneficiary1: SignerWithAddress;
+  let beneficiary2: SignerWithAddress;
+  let nonOwner: SignerWithAddress;
+
+  const THRESHOLD = 2;
+  const INACTIVITY_PERIOD = 30 * 24 * 60 * 60; // 30 days
+  const CLAIM_PERIOD = 7 * 24 * 60 * 60; // 7 days
+  const CLAIM_CONTROL = 0;
+  const CLAIM_SWEEP = 1;
+
+  beforeEach(async function () {
+    [owner1, owner2, owner3, beneficiary1, beneficiary2, nonOwner] = await ethers.getSigners();
+
+    // Deploy implementation
+    const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+    implementation = await MultisigWallet.deploy();
+    await implementation.waitForDeployment();
+
+    // Deploy factory
+    const ProxyFactory = await ethers.getContractFactory("ProxyFactory");
+    factory = await ProxyFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+
+    // Create wallet through factory
+    const owners = [owner1.address, owner2.address, owner3.address];
+    const salt = ethers.randomBytes(32);
+    const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, salt);
+    const receipt = await tx.wait();
+
+    const event = receipt?.logs.find(
+      (log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const parsedEvent = factory.interface.parseLog(event as any);
+    const walletAddress = parsedEvent?.args[0];
+    wallet = MultisigWallet.attach(walletAddress) as MultisigWallet;
+
+    // Deploy module
+    const InheritanceModule = await ethers.getContractFactory("InheritanceModule");
+    module = await InheritanceModule.deploy();
+    await module.waitForDeployment();
+
+    // Enable module (requires multisig)
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+    );
+  });
+
+  /**
+   * Helper to execute a transaction through multisig
+   */
+  async function executeMultisig(to: string, value: bigint, data: string) {
+    const proposeTx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+    const proposeReceipt = await proposeTx.wait();
+    const proposeEvent = proposeReceipt?.logs.find(
+      (log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const proposeParsed = wallet.interface.parseLog(proposeEvent as any);
+    const txHash = proposeParsed?.args[0];
+
+    await wallet.connect(owner1).approveTransaction(txHash);
+    await wallet.connect(owner2).approveTransaction(txHash);
+    await wallet.connect(owner3).executeTransaction(txHash);
+  }
+
+  /**
+   * Helper to set up inheritance through multisig (H-2 fix)
+   */
+  async function setupInheritanceViaMultisig(
+    beneficiaries: string[],
+    threshold: number,
+    inactivityPeriod: number
+  ) {
+    const setupData = module.interface.encodeFunctionData("setupInheritance", [
+      await wallet.getAddress(),
+      beneficiaries,
+      threshold,
+      inactivityPeriod
+    ]);
+    await executeMultisig(await module.getAddress(), 0n, setupData);
+  }
+
+  /**
+   * Helper to read a claim hash from a ClaimInitiated event
+   */
+  async function claimHashFrom(tx: any): Promise<string> {
+    const receipt = await tx.wait();
+    const event = receipt?.logs.find(
+      (log: any) => {
+        try {
+          return module.interface.parseLog(log)?.name === "ClaimInitiated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    return module.interface.parseLog(event as any)?.args[1];
+  }
+
+  describe("setupInheritance", function () {
+    it("should set up inheritance via multisig", async function () {
+      const beneficiaries = [beneficiary1.address, beneficiary2.address];
+
+      await setupInheritanceViaMultisig(beneficiaries, 2, INACTIVITY_PERIOD);
+
+      const config = await module.getInheritanceConfig(await wallet.getAddress());
+      expect(config.beneficiaries).to.deep.equal(beneficiaries);
+      expect(config.threshold).to.equal(2);
+      expect(config.inactivityPeriod).to.equal(INACTIVITY_PERIOD);
+      expect(await module.lastHeartbeat(await wallet.getAddress())).to.equal(await time.latest());
+    });
+
+    it("should reject direct calls from owners", async function () {
+      await expect(
+        module.connect(owner1).setupInheritance(
+          await wallet.getAddress(),
+          [beneficiary1.address],
+          1,
+          INACTIVITY_PERIOD
+        )
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject inactivity periods below the minimum", async function () {
+      const setupData = module.interface.encodeFunctionData("setupInheritance", [
+        await wallet.getAddress(),
+        [beneficiary1.address],
+        1,
+        INACTIVITY_PERIOD - 1
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, setupData)
+      ).to.be.reverted;
+    });
+
+    it("should reject duplicate beneficiaries", async function () {
+      const setupData = module.interface.encodeFunctionData("setupInheritance", [
+        await wallet.getAddress(),
+        [beneficiary1.address, beneficiary1.address],
+        1,
+        INACTIVITY_PERIOD
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, setupData)
+      ).to.be.reverted;
+    });
+  });
+
+  describe("activity", function () {
+    beforeEach(async function () {
+      await setupInheritanceViaMultisig([beneficiary1.address, beneficiary2.address], 1, INACTIVITY_PERIOD);
+    });
+
+    it("should count owner proposals and approvals as activity", async function () {
+      await time.increase(INACTIVITY_PERIOD / 2);
+      await wallet.connect(owner1).proposeTransaction(nonOwner.address, 0, "0x");
+
+      const walletAddress = await wallet.getAddress();
+      expect(await module.getLastActivity(walletAddress)).to.equal(await time.latest());
+      expect(await module.getClaimableAt(walletAddress)).to.equal(BigInt(await time.latest()) + BigInt(INACTIVITY_PERIOD));
+    });
+
+    it("should restart the countdown on a heartbeat", async function () {
+      const walletAddress = await wallet.getAddress();
+      await time.increase(INACTIVITY_PERIOD);
+      expect(await module.isInactive(walletAddress)).to.be.true;
+
+      await expect(module.connect(owner2).heartbeat(walletAddress))
+        .to.emit(module, "Heartbeat")
+        .withArgs(walletAddress, owner2.address);
+
+      expect(await module.isInactive(walletAddress)).to.be.false;
+      expect(await module.getLastActivity(walletAddress)).to.equal(await time.latest());
+    });
+
+    it("should reject heartbeats from non-owners", async function () {
+      await expect(
+        module.connect(beneficiary1).heartbeat(await wallet.getAddress())
+      ).to.be.revertedWithCustomError(module, "NotAnOwner");
+    });
+
+    it("should report unconfigured wallets as never inactive", async function () {
+      expect(await module.getClaimableAt(nonOwner.address)).to.equal(0);
+      expect(await module.isInactive(nonOwner.address)).to.be.false;
+    });
+  });
+
+  describe("claims", function () {
+    beforeEach(async function () {
+      await setupInheritanceViaMultisig([beneficiary1.address, beneficiary2.address], 2, INACTIVITY_PERIOD);
+    });
+
+    it("should reject claims while owners are active", async function () {
+      await time.increase(INACTIVITY_PERIOD - 60);
+
+      await expect(
+        module.connect(beneficiary1).initiateClaim(await wallet.getAddress(), [beneficiary1.address], 1)
+      ).to.be.revertedWithCustomError(module, "OwnersStillActive");
+    });
+
+    it("should reject claims from non-beneficiaries", async function () {
+      await time.increase(INACTIVITY_PERIOD);
+
+      await expect(
+        module.connect(nonOwner).initiateClaim(await wallet.getAddress(), [nonOwner.address], 1)
+      ).to.be.revertedWithCustomError(module, "NotABeneficiary");
+    });
+
+    it("should hand control to the new owners once approved", async function () {
+      const walletAddress = await wallet.getAddress();
+      await time.increase(INACTIVITY_PERIOD);
+
+      const claimHash = await claimHashFrom(
+        await module.connect(beneficiary1).initiateClaim(walletAddress, [beneficiary1.address, beneficiary2.address], 1)
+      );
+      await module.connect(beneficiary1).approveClaim(walletAddress, claimHash);
+
+      await expect(
+        module.connect(nonOwner).executeClaim(walletAddress, claimHash)
+      ).to.be.revertedWithCustomError(module, "NotEnoughApprovals");
+
+      await module.connect(beneficiary2).approveClaim(walletAddress, claimHash);
+      await time.increase(CLAIM_PERIOD);
+      await expect(module.connect(nonOwner).executeClaim(walletAddress, claimHash))
+        .to.emit(module, "ClaimExecuted")
+        .withArgs(walletAddress, claimHash, CLAIM_CONTROL);
+
+      expect([...(await wallet.getOwners())]).to.have.members([beneficiary1.address, beneficiary2.address]);
+      expect(await wallet.threshold()).to.equal(1);
+      expect(await module.isInactive(walletAddress)).to.be.false;
+      expect(await module.getPendingClaimHashes(walletAddress)).to.deep.equal([]);
+    });
+
+    it("should sweep the balance to the recipient", async function () {
+      const walletAddress = await wallet.getAddress();
+      const amount = ethers.parseEther("5");
+      await owner1.sendTransaction({ to: walletAddress, value: amount });
+      await time.increase(INACTIVITY_PERIOD);
+
+      const claimHash = await claimHashFrom(
+        await module.connect(beneficiary2).initiateSweep(walletAddress, beneficiary2.address)
+      );
+      await module.connect(beneficiary1).approveClaim(walletAddress, claimHash);
+      await module.connect(beneficiary2).approveClaim(walletAddress, claimHash);
+      await time.increase(CLAIM_PERIOD);
+
+      await expect(module.connect(beneficiary1).executeClaim(walletAddress, claimHash))
+        .to.changeEtherBalances([wallet, beneficiary2], [-amount, amount]);
+
+      const claim = await module.getClaim(walletAddress, claimHash);
+      expect(claim.claimType).to.equal(CLAIM_SWEEP);
+      expect(claim.executed).to.be.true;
+      expect([...(await wallet.getOwners())]).to.have.members([owner1.address, owner2.address, owner3.address]);
+    });
+
+    it("should reject execution before the claim period has elapsed", async function () {
+      const walletAddress = await wallet.getAddress();
+      await time.increase(INACTIVITY_PERIOD);
+
+      const claimHash = await claimHashFrom(
+        await module.connect(beneficiary1).initiateSweep(walletAddress, beneficiary1.address)
+      );
+      await module.connect(beneficiary1).approveClaim(walletAddress, claimHash);
+      await module.connect(beneficiary2).approveClaim(walletAddress, claimHash);
+
+      const claim = await module.getClaim(walletAddress, claimHash);
+      expect(claim.executionTime).to.equal(claim.initiatedAt + BigInt(CLAIM_PERIOD));
+      await expect(
+        module.connect(beneficiary1).executeClaim(walletAddress, claimHash)
+      ).to.be.revertedWithCustomError(module, "ClaimPeriodNotElapsed");
+
+      await time.increaseTo(claim.executionTime);
+      await expect(module.connect(beneficiary1).executeClaim(walletAddress, claimHash))
+        .to.emit(module, "ClaimExecuted");
+    });
+
+    it("should invalidate claims when an owner becomes active", async function () {
+      const walletAddress = await wallet.getAddress();
+      await time.increase(INACTIVITY_PERIOD);
+
+      const claimHash = await claimHashFrom(
+        await module.connect(beneficiary1).initiateSweep(walletAddress, beneficiary1.address)
+      );
+      await module.connect(beneficiary1).approveClaim(walletAddress, claimHash);
+      await module.connect(beneficiary2).approveClaim(walletAddress, claimHash);
+
+      await wallet.connect(owner3).proposeTransaction(nonOwner.address, 0, "0x");
+      await time.increase(CLAIM_PERIOD);
+
+      await expect(
+        module.connect(beneficiary1).executeClaim(walletAddress, claimHash)
+      ).to.be.revertedWithCustomError(module, "OwnersStillActive");
+    });
+
+    it("should discard pending claims on a heartbeat", async function () {
+      const walletAddress = await wallet.getAddress();
+      await time.increase(INACTIVITY_PERIOD);
+
+      const claimHash = await claimHashFrom(
+        await module.connect(beneficiary1).initiateClaim(walletAddress, [beneficiary1.address], 1)
+      );
+
+      await expect(module.connect(owner1).heartbeat(walletAddress))
+        .to.emit(module, "ClaimCancelled")
+        .withArgs(walletAddress, claimHash);
+
+      expect(await module.getPendingClaimHashes(walletAddress)).to.deep.equal([]);
+      await expect(
+        module.connect(beneficiary2).approveClaim(walletAddress, claimHash)
+      ).to.be.revertedWithCustomError(module, "ClaimNotInitiated");
+    });
+
+    it("should let beneficiaries revoke their approval", async function () {
+      const walletAddress = await wallet.getAddress();
+      await time.increase(INACTIVITY_PERIOD);
+
+      const claimHash = await claimHashFrom(
+        await module.connect(beneficiary1).initiateClaim(walletAddress, [beneficiary1.address], 1)
+      );
+      await module.connect(beneficiary1).approveClaim(walletAddress, claimHash);
+      await module.connect(beneficiary1).revokeClaimApproval(walletAddress, claimHash);
+
+      const claim = await module.getClaim(walletAddress, claimHash);
+      expect(claim.approvalCount).to.equal(0);
+      await expect(
+        module.connect(beneficiary1).revokeClaimApproval(walletAddress, claimHash)
+      ).to.be.revertedWithCustomError(module, "NotApproved");
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { MultisigWallet, ProxyFactory, MultisigWalletProxy } from "../typechain-types";
+import { ethers, artifacts } from "hardhat";
+import { MultisigWallet, ProxyFactory, MultisigWalletProxy, MockERC721 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time, mine, impersonateAccount, setBalance } from "@nomicfoundation/hardhat-network-helpers";
 
 describe("MultisigWallet", function () {
   let implementation: MultisigWallet;
@@ -220,6 +221,17 @@ describe("MultisigWallet", function () {
       await wallet.connect(owner3).approveTransaction(txHash);
       expect(await wallet.hasApproved(txHash, owner3.address)).to.be.true;
     });
+
+    it("should record owner proposals and approvals as activity", async function () {
+      const proposedAt = await wallet.lastOwnerActivity();
+      expect(proposedAt).to.be.greaterThan(0);
+
+      await time.increase(3600);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      expect(await wallet.lastOwnerActivity()).to.equal(await time.latest());
+      expect(await wallet.lastOwnerActivity()).to.be.greaterThan(proposedAt);
+    });
   });
 
   describe("Transaction Execution", function () {
@@ -311,6 +323,80 @@ describe("MultisigWallet", function () {
       const nonceAfterSecondProposal = await wallet.nonce();
       expect(nonceAfterSecondProposal).to.equal(2n);
     });
+
+    describe("Failed calls", function () {
+      let nft: MockERC721;
+      let failingTxHash: string;
+
+      beforeEach(async function () {
+        const MockERC721 = await ethers.getContractFactory("MockERC721");
+        nft = await MockERC721.deploy();
+
+        // Transferring a token the wallet does not hold reverts in the token contract
+        const data = nft.interface.encodeFunctionData("transferFrom", [
+          await wallet.getAddress(),
+          nonOwner.address,
+          7,
+        ]);
+        const tx = await wallet.connect(owner1).proposeTransaction(await nft.getAddress(), 0, data);
+        const receipt = await tx.wait();
+        const event = receipt?.logs.find((log) => {
+          try {
+            return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+          } catch {
+            return false;
+          }
+        });
+        failingTxHash = wallet.interface.parseLog(event as any)?.args[0];
+
+        await wallet.connect(owner1).approveTransaction(failingTxHash);
+        await wallet.connect(owner2).approveTransaction(failingTxHash);
+      });
+
+      it("should bubble up the inner revert data", async function () {
+        const revertData = nft.interface.encodeErrorResult("ERC721NonexistentToken", [7]);
+
+        await expect(wallet.connect(owner3).executeTransaction(failingTxHash))
+          .to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed")
+          .withArgs(revertData);
+      });
+
+      it("should record a failure and keep the proposal retryable with tryExecuteTransaction", async function () {
+        const revertData = nft.interface.encodeErrorResult("ERC721NonexistentToken", [7]);
+
+        await expect(wallet.connect(owner3).tryExecuteTransaction(failingTxHash))
+          .to.emit(wallet, "ExecutionFailure")
+          .withArgs(failingTxHash, revertData);
+
+        expect((await wallet.getTransaction(failingTxHash)).executed).to.be.false;
+
+        // Once the cause is resolved the same proposal executes
+        await nft.mint(await wallet.getAddress(), 7);
+
+        await expect(wallet.connect(owner3).tryExecuteTransaction(failingTxHash))
+          .to.emit(wallet, "TransactionExecuted")
+          .withArgs(failingTxHash, owner3.address);
+
+        expect((await wallet.getTransaction(failingTxHash)).executed).to.be.true;
+        expect(await nft.ownerOf(7)).to.equal(nonOwner.address);
+      });
+
+      it("should bubble up the inner revert data from approveAndExecute", async function () {
+        const revertData = nft.interface.encodeErrorResult("ERC721NonexistentToken", [7]);
+
+        await expect(wallet.connect(owner3).approveAndExecute(failingTxHash))
+          .to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed")
+          .withArgs(revertData);
+
+        expect((await wallet.getTransaction(failingTxHash)).executed).to.be.false;
+      });
+
+      it("should still require the threshold for tryExecuteTransaction", async function () {
+        await expect(
+          wallet.connect(owner3).tryExecuteTransaction(txHash)
+        ).to.be.revertedWithCustomError(wallet, "NotEnoughApprovals");
+      });
+    });
   });
 
   describe("Approval Revocation", function () {
@@ -436,6 +522,161 @@ describe("MultisigWallet", function () {
     });
   });
 
+  describe("Transaction Expiry", function () {
+    const ONE_DAY = 24 * 60 * 60;
+    let txHash: string;
+    let validUntil: number;
+
+    beforeEach(async function () {
+      await owner1.sendTransaction({
+        to: await wallet.getAddress(),
+        value: ethers.parseEther("10.0"),
+      });
+
+      validUntil = (await time.latest()) + ONE_DAY;
+      const tx = await wallet
+        .connect(owner1)
+        .proposeTransactionWithExpiry(nonOwner.address, ethers.parseEther("1.0"), "0x", validUntil);
+      const receipt = await tx.wait();
+
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+
+      const parsedEvent = wallet.interface.parseLog(event as any);
+      txHash = parsedEvent?.args[0];
+    });
+
+    it("should store the deadline", async function () {
+      const transaction = await wallet.getTransaction(txHash);
+      expect(transaction.validUntil).to.equal(validUntil);
+    });
+
+    it("should default to no expiry for plain proposals", async function () {
+      const tx = await wallet.connect(owner1).proposeTransaction(nonOwner.address, 1n, "0x");
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      const plainHash = wallet.interface.parseLog(event as any)?.args[0];
+
+      const transaction = await wallet.getTransaction(plainHash);
+      expect(transaction.validUntil).to.equal(0);
+    });
+
+    it("should reject a deadline in the past", async function () {
+      await expect(
+        wallet
+          .connect(owner1)
+          .proposeTransactionWithExpiry(nonOwner.address, 1n, "0x", await time.latest())
+      ).to.be.revertedWithCustomError(wallet, "InvalidExpiration");
+    });
+
+    it("should execute before the deadline", async function () {
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      await expect(wallet.connect(owner1).executeTransaction(txHash))
+        .to.emit(wallet, "TransactionExecuted");
+    });
+
+    it("should reject execution after the deadline", async function () {
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        wallet.connect(owner1).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExpired");
+    });
+
+    it("should reject approveAndExecute after the deadline", async function () {
+      await wallet.connect(owner1).approveTransaction(txHash);
+
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        wallet.connect(owner2).approveAndExecute(txHash)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExpired");
+    });
+
+    it("should still allow the proposer to cancel an expired transaction", async function () {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(wallet.connect(owner1).cancelTransaction(txHash))
+        .to.emit(wallet, "TransactionCancelled");
+    });
+  });
+
+  describe("Proposal Memos", function () {
+    async function proposeWithMemo(memo: string, validUntil = 0) {
+      const tx = await wallet
+        .connect(owner1)
+        .proposeTransactionWithMemo(nonOwner.address, 1n, "0x", validUntil, memo);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      return wallet.interface.parseLog(event as any)?.args[0];
+    }
+
+    it("should store and emit the memo", async function () {
+      const memo = "Pay the audit invoice #42";
+      const expectedHash = await wallet.getTransactionHash(nonOwner.address, 1n, "0x", await wallet.nonce());
+
+      await expect(
+        wallet.connect(owner1).proposeTransactionWithMemo(nonOwner.address, 1n, "0x", 0, memo)
+      ).to.emit(wallet, "TransactionMemo").withArgs(expectedHash, memo);
+
+      expect(await wallet.memos(expectedHash)).to.equal(memo);
+    });
+
+    it("should not record an empty memo", async function () {
+      const txHash = await proposeWithMemo("");
+      expect(await wallet.memos(txHash)).to.equal("");
+    });
+
+    it("should apply the deadline when one is given", async function () {
+      const validUntil = (await time.latest()) + 3600;
+      const txHash = await proposeWithMemo("Time-boxed payment", validUntil);
+
+      expect((await wallet.getTransaction(txHash)).validUntil).to.equal(validUntil);
+    });
+
+    it("should reject a deadline in the past", async function () {
+      await expect(
+        wallet.connect(owner1).proposeTransactionWithMemo(nonOwner.address, 1n, "0x", await time.latest(), "late")
+      ).to.be.revertedWithCustomError(wallet, "InvalidExpiration");
+    });
+
+    it("should reject a memo over the size limit", async function () {
+      const memo = "x".repeat(Number(await wallet.MAX_MEMO_LENGTH()) + 1);
+
+      await expect(
+        wallet.connect(owner1).proposeTransactionWithMemo(nonOwner.address, 1n, "0x", 0, memo)
+      ).to.be.revertedWithCustomError(wallet, "MemoTooLong");
+    });
+
+    it("should reject proposals from non-owners", async function () {
+      await expect(
+        wallet.connect(nonOwner).proposeTransactionWithMemo(nonOwner.address, 1n, "0x", 0, "memo")
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+    });
+  });
+
   describe("Owner Management", function () {
     it("should add owner through multisig", async function () {
       const newOwner = nonOwner.address;
@@ -508,25 +749,11 @@ describe("MultisigWallet", function () {
 
       expect(await wallet.threshold()).to.equal(newThreshold);
     });
-  });
-
-  describe("Edge Cases", function () {
-    it("should handle zero value transactions", async function () {
-      const to = nonOwner.address;
-      const value = 0n;
-      const data = "0x";
-
-      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
-      const receipt = await tx.wait();
-      expect(receipt?.status).to.equal(1);
-    });
 
-    it("should handle contract calls with data", async function () {
-      // Create a simple contract call (self-call to test)
-      const data = wallet.interface.encodeFunctionData("threshold");
-      const to = await wallet.getAddress();
+    it("should swap owner through multisig", async function () {
+      const swapOwnerData = wallet.interface.encodeFunctionData("swapOwner", [owner3.address, nonOwner.address]);
 
-      const proposeTx = await wallet.connect(owner1).proposeTransaction(to, 0, data);
+      const proposeTx = await wallet.connect(owner1).proposeTransaction(await wallet.getAddress(), 0, swapOwnerData);
       const proposeReceipt = await proposeTx.wait();
       const proposeEvent = proposeReceipt?.logs.find((log) => {
         try {
@@ -540,97 +767,1268 @@ describe("MultisigWallet", function () {
 
       await wallet.connect(owner1).approveTransaction(txHash);
       await wallet.connect(owner2).approveTransaction(txHash);
-      await wallet.connect(owner3).executeTransaction(txHash);
+      await expect(wallet.connect(owner3).executeTransaction(txHash))
+        .to.emit(wallet, "OwnerRemoved").withArgs(owner3.address)
+        .and.to.emit(wallet, "OwnerAdded").withArgs(nonOwner.address);
 
-      // Transaction should execute successfully
-      const transaction = await wallet.getTransaction(txHash);
-      expect(transaction.executed).to.be.true;
+      expect(await wallet.isOwner(owner3.address)).to.be.false;
+      expect(await wallet.isOwner(nonOwner.address)).to.be.true;
+      expect(await wallet.getOwners()).to.deep.equal([owner1.address, owner2.address, nonOwner.address]);
+      expect(await wallet.threshold()).to.equal(THRESHOLD);
     });
 
-    it("should handle maximum threshold", async function () {
-      const owners = [owner1.address, owner2.address, owner3.address];
-      const salt = ethers.randomBytes(32);
-      const tx = await factory.connect(owner1).createWallet(owners, 3, salt);
-      const receipt = await tx.wait();
+    it("should reject swapping in an existing owner", async function () {
+      const swapOwnerData = wallet.interface.encodeFunctionData("swapOwner", [owner3.address, owner2.address]);
 
-      const event = receipt?.logs.find(
-        (log) => {
-          try {
-            return factory.interface.parseLog(log as any)?.name === "WalletCreated";
-          } catch {
-            return false;
-          }
+      const proposeTx = await wallet.connect(owner1).proposeTransaction(await wallet.getAddress(), 0, swapOwnerData);
+      const proposeReceipt = await proposeTx.wait();
+      const proposeEvent = proposeReceipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
         }
-      );
-      const parsedEvent = factory.interface.parseLog(event as any);
-      const walletAddress = parsedEvent?.args[0];
-      const newWallet = await ethers.getContractAt("MultisigWallet", walletAddress) as MultisigWallet;
+      });
+      const txHash = wallet.interface.parseLog(proposeEvent as any)?.args[0];
 
-      expect(await newWallet.threshold()).to.equal(3);
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      await expect(
+        wallet.connect(owner3).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "AlreadyAnOwner");
     });
 
-    it("should handle single owner wallet", async function () {
-      const owners = [owner1.address];
-      const salt = ethers.randomBytes(32);
-      const tx = await factory.connect(owner1).createWallet(owners, 1, salt);
-      const receipt = await tx.wait();
+    it("should reject direct swapOwner calls", async function () {
+      await expect(
+        wallet.connect(owner1).swapOwner(owner3.address, nonOwner.address)
+      ).to.be.revertedWithCustomError(wallet, "OnlySelf");
+    });
+  });
 
-      const event = receipt?.logs.find(
-        (log) => {
-          try {
-            return factory.interface.parseLog(log as any)?.name === "WalletCreated";
-          } catch {
-            return false;
-          }
+  describe("Stale Approvals", function () {
+    let txHash: string;
+
+    async function proposeAndGetHash(to: string, value: bigint, data: string): Promise<string> {
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
         }
+      });
+      return wallet.interface.parseLog(event as any)?.args[0];
+    }
+
+    async function removeOwner3() {
+      const removeHash = await proposeAndGetHash(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("removeOwner", [owner3.address])
       );
-      const parsedEvent2 = factory.interface.parseLog(event as any);
-      const walletAddress2 = parsedEvent2?.args[0];
-      const newWallet = await ethers.getContractAt("MultisigWallet", walletAddress2) as MultisigWallet;
+      await wallet.connect(owner1).approveTransaction(removeHash);
+      await wallet.connect(owner2).approveTransaction(removeHash);
+      await wallet.connect(owner1).executeTransaction(removeHash);
+    }
+
+    async function readdOwner3() {
+      const addHash = await proposeAndGetHash(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("addOwner", [owner3.address])
+      );
+      await wallet.connect(owner1).approveTransaction(addHash);
+      await wallet.connect(owner2).approveTransaction(addHash);
+      await wallet.connect(owner1).executeTransaction(addHash);
+    }
 
-      expect(await newWallet.threshold()).to.equal(1);
-      
-      // Should be able to execute immediately
-      const to = nonOwner.address;
-      const value = ethers.parseEther("1.0");
+    beforeEach(async function () {
       await owner1.sendTransaction({
-        to: walletAddress2,
+        to: await wallet.getAddress(),
         value: ethers.parseEther("10.0"),
       });
 
-      const proposeTx = await newWallet.connect(owner1).proposeTransaction(to, value, "0x");
-      const proposeReceipt = await proposeTx.wait();
-      const proposeEvent = proposeReceipt?.logs.find((log) => {
-        try {
-          return newWallet.interface.parseLog(log as any)?.name === "TransactionProposed";
-        } catch {
-          return false;
-        }
-      });
-      const proposeParsed = newWallet.interface.parseLog(proposeEvent as any);
-      const txHash = proposeParsed?.args[0];
+      // Pending transfer approved by owner3 before they are removed
+      txHash = await proposeAndGetHash(nonOwner.address, ethers.parseEther("1.0"), "0x");
+      await wallet.connect(owner3).approveTransaction(txHash);
+      await removeOwner3();
+    });
 
-      await newWallet.connect(owner1).approveTransaction(txHash);
-      await newWallet.connect(owner1).executeTransaction(txHash);
+    it("should not count a removed owner's approval", async function () {
+      expect(await wallet.getApprovalCount(txHash)).to.equal(0);
+      expect((await wallet.getTransaction(txHash)).numApprovals).to.equal(1);
 
-      const transaction = await newWallet.getTransaction(txHash);
-      expect(transaction.executed).to.be.true;
+      await wallet.connect(owner1).approveTransaction(txHash);
+
+      await expect(
+        wallet.connect(owner1).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotEnoughApprovals");
     });
-  });
 
-  describe("Receive ETH", function () {
-    it("should accept ETH transfers", async function () {
-      const amount = ethers.parseEther("1.0");
+    it("should execute once enough current owners approve", async function () {
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      expect(await wallet.getApprovalCount(txHash)).to.equal(2);
+      await expect(wallet.connect(owner1).executeTransaction(txHash))
+        .to.emit(wallet, "TransactionExecuted");
+    });
+
+    it("should not execute through approveAndExecute with a stale approval", async function () {
+      await wallet.connect(owner1).approveAndExecute(txHash);
+
+      const transaction = await wallet.getTransaction(txHash);
+      expect(transaction.executed).to.be.false;
+      expect(await wallet.getApprovalCount(txHash)).to.equal(1);
+    });
+
+    it("should not let a stale approval satisfy the cancellation threshold", async function () {
+      await wallet.connect(owner2).approveTransaction(txHash);
 
       await expect(
-        owner1.sendTransaction({
-          to: await wallet.getAddress(),
-          value: amount,
-        })
-      ).to.emit(wallet, "Received");
+        wallet.connect(owner2).cancelTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotProposerAndNotEnoughApprovalsToCancel");
+    });
+
+    it("should not restore a removed owner's approval when they are re-added", async function () {
+      await readdOwner3();
+      expect(await wallet.isOwner(owner3.address)).to.be.true;
+
+      expect(await wallet.hasApproved(txHash, owner3.address)).to.be.false;
+      expect(await wallet.getApprovalCount(txHash)).to.equal(0);
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await expect(
+        wallet.connect(owner1).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotEnoughApprovals");
+    });
+
+    it("should let a re-added owner approve again", async function () {
+      await readdOwner3();
+
+      await expect(wallet.connect(owner3).approveTransaction(txHash))
+        .to.emit(wallet, "TransactionApproved")
+        .withArgs(txHash, owner3.address);
+      await wallet.connect(owner1).approveTransaction(txHash);
+
+      expect(await wallet.getApprovalCount(txHash)).to.equal(2);
+      await expect(wallet.connect(owner1).executeTransaction(txHash))
+        .to.emit(wallet, "TransactionExecuted");
+    });
+  });
+
+  describe("Weighted Voting", function () {
+    // owner1 = 3, owner2 = 2, owner3 = 1; threshold 4 of 6
+    let weighted: MultisigWallet;
+
+    async function proposeWeighted(to: string, value: bigint, data: string): Promise<string> {
+      const tx = await weighted.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return weighted.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      return weighted.interface.parseLog(event as any)?.args[0];
+    }
+
+    async function executeWeighted(data: string) {
+      const txHash = await proposeWeighted(await weighted.getAddress(), 0n, data);
+      await weighted.connect(owner1).approveTransaction(txHash);
+      await weighted.connect(owner3).approveTransaction(txHash);
+      return weighted.connect(owner1).executeTransaction(txHash);
+    }
+
+    async function deployWeighted(owners: string[], weights: number[], threshold: number) {
+      const MultisigWalletProxy = await ethers.getContractFactory("MultisigWalletProxy");
+      const initData = implementation.interface.encodeFunctionData("initializeWithWeights", [
+        owners,
+        weights,
+        threshold,
+      ]);
+      return MultisigWalletProxy.deploy(await implementation.getAddress(), initData);
+    }
+
+    beforeEach(async function () {
+      const proxy = await deployWeighted([owner1.address, owner2.address, owner3.address], [3, 2, 1], 4);
+      await proxy.waitForDeployment();
+      weighted = (await ethers.getContractAt("MultisigWallet", await proxy.getAddress())) as MultisigWallet;
+
+      await owner1.sendTransaction({
+        to: await weighted.getAddress(),
+        value: ethers.parseEther("10.0"),
+      });
+    });
+
+    it("should report owner weights and the total", async function () {
+      expect(await weighted.getOwnerWeight(owner1.address)).to.equal(3);
+      expect(await weighted.getOwnerWeight(owner2.address)).to.equal(2);
+      expect(await weighted.getOwnerWeight(owner3.address)).to.equal(1);
+      expect(await weighted.getOwnerWeight(nonOwner.address)).to.equal(0);
+      expect(await weighted.getTotalWeight()).to.equal(6);
+    });
+
+    it("should give every owner weight 1 in an unweighted wallet", async function () {
+      expect(await wallet.getOwnerWeight(owner1.address)).to.equal(1);
+      expect(await wallet.getTotalWeight()).to.equal(3);
+    });
+
+    it("should execute once the approving weight reaches the threshold", async function () {
+      const txHash = await proposeWeighted(nonOwner.address, ethers.parseEther("1.0"), "0x");
+      await weighted.connect(owner1).approveTransaction(txHash);
+      await weighted.connect(owner3).approveTransaction(txHash);
+
+      expect(await weighted.getApprovalCount(txHash)).to.equal(2);
+      expect(await weighted.getApprovalWeight(txHash)).to.equal(4);
+      await expect(weighted.connect(owner2).executeTransaction(txHash))
+        .to.emit(weighted, "TransactionExecuted");
+    });
+
+    it("should not execute when more owners approve with less weight", async function () {
+      const txHash = await proposeWeighted(nonOwner.address, ethers.parseEther("1.0"), "0x");
+      await weighted.connect(owner2).approveTransaction(txHash);
+      await weighted.connect(owner3).approveTransaction(txHash);
+
+      expect(await weighted.getApprovalWeight(txHash)).to.equal(3);
+      await expect(
+        weighted.connect(owner2).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(weighted, "NotEnoughApprovals");
+    });
+
+    it("should sum signer weights for signature execution", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const domain = {
+        name: "MultisigWallet",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await weighted.getAddress(),
+      };
+      const types = {
+        MultisigTransaction: [
+          { name: "to", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "data", type: "bytes" },
+          { name: "nonce", type: "uint256" },
+        ],
+      };
+      const sign = async (signer: SignerWithAddress) => ({
+        signer: signer.address,
+        signature: await signer.signTypedData(domain, types, { to, value, data: "0x", nonce: 0n }),
+      });
+      const pack = (sigs: { signer: string; signature: string }[]) =>
+        ethers.concat(
+          [...sigs]
+            .sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1))
+            .map((sig) => sig.signature)
+        );
+
+      await expect(
+        weighted.connect(owner1).execTransactionWithSignatures(to, value, "0x", pack([await sign(owner2), await sign(owner3)]))
+      ).to.be.revertedWithCustomError(weighted, "NotEnoughSignatures");
+
+      await expect(
+        weighted.connect(owner1).execTransactionWithSignatures(to, value, "0x", pack([await sign(owner1), await sign(owner3)]))
+      ).to.emit(weighted, "TransactionExecuted");
+    });
+
+    it("should reject invalid weights at initialization", async function () {
+      const owners = [owner1.address, owner2.address];
+
+      await expect(deployWeighted(owners, [1, 0], 1))
+        .to.be.revertedWithCustomError(implementation, "InvalidOwnerWeight");
+      await expect(deployWeighted(owners, [1], 1))
+        .to.be.revertedWithCustomError(implementation, "WeightsLengthMismatch");
+      await expect(deployWeighted(owners, [2, 1], 4))
+        .to.be.revertedWithCustomError(implementation, "InvalidThreshold");
+    });
+
+    it("should allow a threshold up to the total weight", async function () {
+      await executeWeighted(weighted.interface.encodeFunctionData("changeThreshold", [6]));
+      expect(await weighted.threshold()).to.equal(6);
+
+      await expect(
+        executeWeighted(weighted.interface.encodeFunctionData("changeThreshold", [7]))
+      ).to.be.revertedWithCustomError(weighted, "NotEnoughApprovals");
+    });
+
+    it("should reject a threshold above the total weight", async function () {
+      await expect(
+        executeWeighted(weighted.interface.encodeFunctionData("changeThreshold", [7]))
+      ).to.be.revertedWithCustomError(weighted, "InvalidThreshold");
+    });
+
+    it("should change an owner's weight through multisig", async function () {
+      await expect(executeWeighted(weighted.interface.encodeFunctionData("setOwnerWeight", [owner3.address, 5])))
+        .to.emit(weighted, "OwnerWeightChanged")
+        .withArgs(owner3.address, 5);
+
+      expect(await weighted.getOwnerWeight(owner3.address)).to.equal(5);
+      expect(await weighted.getTotalWeight()).to.equal(10);
+    });
+
+    it("should not lower weights below the threshold", async function () {
+      await executeWeighted(weighted.interface.encodeFunctionData("changeThreshold", [6]));
+
+      const txHash = await proposeWeighted(
+        await weighted.getAddress(),
+        0n,
+        weighted.interface.encodeFunctionData("setOwnerWeight", [owner1.address, 1])
+      );
+      await weighted.connect(owner1).approveTransaction(txHash);
+      await weighted.connect(owner2).approveTransaction(txHash);
+      await weighted.connect(owner3).approveTransaction(txHash);
+
+      await expect(weighted.connect(owner1).executeTransaction(txHash))
+        .to.be.revertedWithCustomError(weighted, "TransactionExecutionFailed")
+        .withArgs(weighted.interface.encodeErrorResult("InvalidThreshold"));
+    });
+
+    it("should add an owner with a weight", async function () {
+      await executeWeighted(weighted.interface.encodeFunctionData("addOwnerWithWeight", [nonOwner.address, 4]));
+
+      expect(await weighted.isOwner(nonOwner.address)).to.be.true;
+      expect(await weighted.getOwnerWeight(nonOwner.address)).to.equal(4);
+      expect(await weighted.getTotalWeight()).to.equal(10);
+    });
+
+    it("should not remove an owner whose weight is needed for the threshold", async function () {
+      await expect(
+        executeWeighted(weighted.interface.encodeFunctionData("removeOwner", [owner1.address]))
+      ).to.be.revertedWithCustomError(weighted, "CannotRemoveOwnerWouldFallBelowThreshold");
+
+      await executeWeighted(weighted.interface.encodeFunctionData("removeOwner", [owner2.address]));
+      expect(await weighted.getTotalWeight()).to.equal(4);
+      expect(await weighted.getOwnerWeight(owner2.address)).to.equal(0);
+    });
+
+    it("should carry the weight over when swapping an owner", async function () {
+      await executeWeighted(weighted.interface.encodeFunctionData("swapOwner", [owner2.address, nonOwner.address]));
+
+      expect(await weighted.getOwnerWeight(nonOwner.address)).to.equal(2);
+      expect(await weighted.getOwnerWeight(owner2.address)).to.equal(0);
+      expect(await weighted.getTotalWeight()).to.equal(6);
+    });
+  });
+
+  describe("Signature Execution", function () {
+    const types = {
+      MultisigTransaction: [
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "nonce", type: "uint256" },
+      ],
+    };
+
+    async function signTransaction(
+      signer: SignerWithAddress,
+      to: string,
+      value: bigint,
+      data: string,
+      nonce: bigint
+    ): Promise<{ signer: string; signature: string }> {
+      const domain = {
+        name: "MultisigWallet",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await wallet.getAddress(),
+      };
+      const signature = await signer.signTypedData(domain, types, { to, value, data, nonce });
+      return { signer: signer.address, signature };
+    }
+
+    function sortBySigner(signatures: { signer: string; signature: string }[]) {
+      return [...signatures].sort((a, b) =>
+        BigInt(a.signer) < BigInt(b.signer) ? -1 : BigInt(a.signer) > BigInt(b.signer) ? 1 : 0
+      );
+    }
+
+    function packSignatures(signatures: { signer: string; signature: string }[]): string {
+      return ethers.concat(signatures.map((s) => s.signature));
+    }
+
+    beforeEach(async function () {
+      await owner1.sendTransaction({
+        to: await wallet.getAddress(),
+        value: ethers.parseEther("10.0"),
+      });
+    });
+
+    it("should match the EIP-712 typed data hash", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const domain = {
+        name: "MultisigWallet",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await wallet.getAddress(),
+      };
+      const expected = ethers.TypedDataEncoder.hash(domain, types, { to, value, data: "0x", nonce: 0n });
+
+      expect(await wallet.getTransactionTypedHash(to, value, "0x", 0)).to.equal(expected);
+    });
+
+    it("should execute with threshold signatures in a single transaction", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const signatures = sortBySigner([
+        await signTransaction(owner1, to, value, "0x", 0n),
+        await signTransaction(owner2, to, value, "0x", 0n),
+      ]);
+
+      const txHash = await wallet.getTransactionHash(to, value, "0x", 0);
+      const balanceBefore = await ethers.provider.getBalance(to);
+
+      await expect(
+        wallet.connect(owner3).execTransactionWithSignatures(to, value, "0x", packSignatures(signatures))
+      )
+        .to.emit(wallet, "TransactionExecuted")
+        .withArgs(txHash, owner3.address);
+
+      const balanceAfter = await ethers.provider.getBalance(to);
+      expect(balanceAfter - balanceBefore).to.equal(value);
+
+      const transaction = await wallet.getTransaction(txHash);
+      expect(transaction.executed).to.be.true;
+      expect(transaction.numApprovals).to.equal(2);
+      expect(await wallet.hasApproved(txHash, owner1.address)).to.be.true;
+      expect(await wallet.hasApproved(txHash, owner2.address)).to.be.true;
+      expect(await wallet.hasApproved(txHash, owner3.address)).to.be.false;
+      expect(await wallet.nonce()).to.equal(1n);
+      expect(await wallet.getTransactionHashes(0, 10)).to.deep.equal([txHash]);
+    });
+
+    it("should execute owner management self-calls", async function () {
+      const walletAddress = await wallet.getAddress();
+      const data = wallet.interface.encodeFunctionData("addOwner", [nonOwner.address]);
+      const signatures = sortBySigner([
+        await signTransaction(owner2, walletAddress, 0n, data, 0n),
+        await signTransaction(owner3, walletAddress, 0n, data, 0n),
+      ]);
+
+      await wallet.connect(owner1).execTransactionWithSignatures(walletAddress, 0, data, packSignatures(signatures));
+
+      expect(await wallet.isOwner(nonOwner.address)).to.be.true;
+    });
+
+    it("should reject signatures not sorted by signer address", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const signatures = sortBySigner([
+        await signTransaction(owner1, to, value, "0x", 0n),
+        await signTransaction(owner2, to, value, "0x", 0n),
+      ]).reverse();
+
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packSignatures(signatures))
+      ).to.be.revertedWithCustomError(wallet, "SignersNotInAscendingOrder");
+    });
+
+    it("should reject duplicate signers", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const signature = await signTransaction(owner1, to, value, "0x", 0n);
+
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packSignatures([signature, signature]))
+      ).to.be.revertedWithCustomError(wallet, "DuplicateSigner");
+    });
+
+    it("should reject signatures from non-owners", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const signatures = sortBySigner([
+        await signTransaction(owner1, to, value, "0x", 0n),
+        await signTransaction(nonOwner, to, value, "0x", 0n),
+      ]);
+
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packSignatures(signatures))
+      ).to.be.revertedWithCustomError(wallet, "SignerNotAnOwner");
+    });
+
+    it("should reject fewer signatures than threshold", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const signature = await signTransaction(owner1, to, value, "0x", 0n);
+
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packSignatures([signature]))
+      ).to.be.revertedWithCustomError(wallet, "NotEnoughSignatures");
+    });
+
+    it("should reject malformed signature data", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", "0x1234")
+      ).to.be.revertedWithCustomError(wallet, "InvalidSignatureLength");
+    });
+
+    it("should reject replay of executed signatures", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const packed = packSignatures(sortBySigner([
+        await signTransaction(owner1, to, value, "0x", 0n),
+        await signTransaction(owner2, to, value, "0x", 0n),
+      ]));
+
+      await wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packed);
+
+      // Nonce has moved on, so the old signatures no longer recover to owners
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packed)
+      ).to.be.revertedWithCustomError(wallet, "SignerNotAnOwner");
+    });
+
+    it("should reject signatures for a nonce consumed by a proposal", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const packed = packSignatures(sortBySigner([
+        await signTransaction(owner1, to, value, "0x", 0n),
+        await signTransaction(owner2, to, value, "0x", 0n),
+      ]));
+
+      await wallet.connect(owner1).proposeTransaction(to, value, "0x");
+
+      await expect(
+        wallet.connect(owner1).execTransactionWithSignatures(to, value, "0x", packed)
+      ).to.be.revertedWithCustomError(wallet, "SignerNotAnOwner");
+    });
+
+    it("should reject submission from non-owner", async function () {
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      const packed = packSignatures(sortBySigner([
+        await signTransaction(owner1, to, value, "0x", 0n),
+        await signTransaction(owner2, to, value, "0x", 0n),
+      ]));
+
+      await expect(
+        wallet.connect(nonOwner).execTransactionWithSignatures(to, value, "0x", packed)
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+    });
+  });
+
+  describe("Batch Transactions", function () {
+    async function executeMultisig(to: string, value: bigint, data: string) {
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      const txHash = wallet.interface.parseLog(event as any)?.args[0];
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      return wallet.connect(owner3).executeTransaction(txHash);
+    }
+
+    beforeEach(async function () {
+      await owner1.sendTransaction({
+        to: await wallet.getAddress(),
+        value: ethers.parseEther("10.0"),
+      });
+    });
+
+    it("should execute multiple transfers from one proposal", async function () {
+      const [, , , , recipient1, recipient2] = await ethers.getSigners();
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: recipient1.address, value: ethers.parseEther("1.0"), data: "0x" },
+        { to: recipient2.address, value: ethers.parseEther("2.0"), data: "0x" },
+      ]]);
+
+      const balance1Before = await ethers.provider.getBalance(recipient1.address);
+      const balance2Before = await ethers.provider.getBalance(recipient2.address);
+
+      await executeMultisig(await wallet.getAddress(), 0n, data);
+
+      expect(await ethers.provider.getBalance(recipient1.address) - balance1Before).to.equal(ethers.parseEther("1.0"));
+      expect(await ethers.provider.getBalance(recipient2.address) - balance2Before).to.equal(ethers.parseEther("2.0"));
+    });
+
+    it("should run owner management calls inside a batch", async function () {
+      const walletAddress = await wallet.getAddress();
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: walletAddress, value: 0, data: wallet.interface.encodeFunctionData("addOwner", [nonOwner.address]) },
+        { to: walletAddress, value: 0, data: wallet.interface.encodeFunctionData("changeThreshold", [3]) },
+      ]]);
+
+      await executeMultisig(walletAddress, 0n, data);
+
+      expect(await wallet.isOwner(nonOwner.address)).to.be.true;
+      expect(await wallet.threshold()).to.equal(3);
+    });
+
+    it("should revert the whole batch when one call fails", async function () {
+      const [, , , , recipient1] = await ethers.getSigners();
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: recipient1.address, value: ethers.parseEther("1.0"), data: "0x" },
+        { to: await factory.getAddress(), value: 0, data: "0xdeadbeef" },
+      ]]);
+
+      const balanceBefore = await ethers.provider.getBalance(recipient1.address);
+
+      await expect(executeMultisig(await wallet.getAddress(), 0n, data))
+        .to.be.revertedWithCustomError(wallet, "BatchCallFailed")
+        .withArgs(1, "0x");
+
+      expect(await ethers.provider.getBalance(recipient1.address)).to.equal(balanceBefore);
+    });
+
+    it("should include the failed call's revert data", async function () {
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        {
+          to: await factory.getAddress(),
+          value: 0,
+          data: factory.interface.encodeFunctionData("createWallet", [[], 1, ethers.ZeroHash]),
+        },
+      ]]);
+
+      await expect(executeMultisig(await wallet.getAddress(), 0n, data))
+        .to.be.revertedWithCustomError(wallet, "BatchCallFailed")
+        .withArgs(0, factory.interface.encodeErrorResult("OwnersRequired"));
+    });
+
+    it("should reject an empty batch", async function () {
+      const data = wallet.interface.encodeFunctionData("multiSend", [[]]);
+
+      await expect(
+        executeMultisig(await wallet.getAddress(), 0n, data)
+      ).to.be.revertedWithCustomError(wallet, "EmptyBatch");
+    });
+
+    it("should reject direct calls", async function () {
+      await expect(
+        wallet.connect(owner1).multiSend([{ to: nonOwner.address, value: 0, data: "0x" }])
+      ).to.be.revertedWithCustomError(wallet, "OnlySelf");
+    });
+
+    it("should not allow modules to submit batches", async function () {
+      const walletAddress = await wallet.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [nonOwner.address]));
+
+      const data = wallet.interface.encodeFunctionData("multiSend", [[
+        { to: walletAddress, value: 0, data: wallet.interface.encodeFunctionData("enableModule", [owner1.address]) },
+      ]]);
+
+      await expect(
+        wallet.connect(nonOwner).execTransactionFromModule(walletAddress, 0, data)
+      ).to.be.revertedWithCustomError(wallet, "ModuleCannotModifyModulePermissions");
+    });
+  });
+
+  describe("Transaction Index", function () {
+    async function proposeAndGetHash(value: bigint): Promise<string> {
+      const tx = await wallet.connect(owner1).proposeTransaction(nonOwner.address, value, "0x");
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      return wallet.interface.parseLog(event as any)?.args[0];
+    }
+
+    it("should start empty", async function () {
+      expect(await wallet.getTransactionCount()).to.equal(0);
+      expect(await wallet.getTransactionHashes(0, 10)).to.deep.equal([]);
+    });
+
+    it("should record proposals in order", async function () {
+      const hashes = [];
+      for (let i = 1; i <= 3; i++) {
+        hashes.push(await proposeAndGetHash(BigInt(i)));
+      }
+
+      expect(await wallet.getTransactionCount()).to.equal(3);
+      expect(await wallet.getTransactionHashes(0, 3)).to.deep.equal(hashes);
+    });
+
+    it("should page through the index", async function () {
+      const hashes = [];
+      for (let i = 1; i <= 5; i++) {
+        hashes.push(await proposeAndGetHash(BigInt(i)));
+      }
+
+      expect(await wallet.getTransactionHashes(0, 2)).to.deep.equal(hashes.slice(0, 2));
+      expect(await wallet.getTransactionHashes(2, 2)).to.deep.equal(hashes.slice(2, 4));
+      expect(await wallet.getTransactionHashes(4, 2)).to.deep.equal(hashes.slice(4));
+      expect(await wallet.getTransactionHashes(5, 2)).to.deep.equal([]);
+      expect(await wallet.getTransactionHashes(1, ethers.MaxUint256)).to.deep.equal(hashes.slice(1));
+    });
+
+    it("should keep cancelled proposals in the index", async function () {
+      const txHash = await proposeAndGetHash(1n);
+      await wallet.connect(owner1).cancelTransaction(txHash);
+
+      expect(await wallet.getTransactionHashes(0, 10)).to.deep.equal([txHash]);
+    });
+  });
+
+  describe("Module List", function () {
+    async function executeMultisig(to: string, value: bigint, data: string) {
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      const txHash = wallet.interface.parseLog(event as any)?.args[0];
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      return wallet.connect(owner3).executeTransaction(txHash);
+    }
+
+    it("should start empty", async function () {
+      expect(await wallet.getModules()).to.deep.equal([]);
+    });
+
+    it("should list enabled modules", async function () {
+      const walletAddress = await wallet.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [nonOwner.address]));
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [owner1.address]));
+
+      expect(await wallet.getModules()).to.deep.equal([nonOwner.address, owner1.address]);
+    });
+
+    it("should drop disabled modules from the list", async function () {
+      const walletAddress = await wallet.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [nonOwner.address]));
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [owner1.address]));
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [owner2.address]));
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("disableModule", [nonOwner.address]));
+
+      const modules = await wallet.getModules();
+      expect(modules).to.have.lengthOf(2);
+      expect([...modules]).to.have.members([owner1.address, owner2.address]);
+      expect(await wallet.modules(nonOwner.address)).to.be.false;
+    });
+  });
+
+  describe("Relay Modules", function () {
+    // nonOwner stands in for an enabled module such as RolesModule
+    async function executeMultisig(to: string, value: bigint, data: string) {
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const txHash = await proposedHash(tx);
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      return wallet.connect(owner3).executeTransaction(txHash);
+    }
+
+    async function proposedHash(tx: Awaited<ReturnType<MultisigWallet["proposeTransaction"]>>): Promise<string> {
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      return wallet.interface.parseLog(event as any)?.args[0];
+    }
+
+    beforeEach(async function () {
+      await executeMultisig(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("enableModule", [nonOwner.address])
+      );
+    });
+
+    it("should reject enabled modules without the relay permission", async function () {
+      await expect(
+        wallet.connect(nonOwner).proposeTransaction(owner1.address, 0, "0x")
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+
+      const txHash = await proposedHash(await wallet.connect(owner1).proposeTransaction(owner1.address, 0, "0x"));
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      await expect(
+        wallet.connect(nonOwner).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+      await expect(
+        wallet.connect(nonOwner).cancelTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+    });
+
+    it("should let relay modules propose, execute and cancel", async function () {
+      const walletAddress = await wallet.getAddress();
+      await expect(
+        executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("setModuleRelay", [nonOwner.address, true]))
+      ).to.emit(wallet, "ModuleRelayChanged").withArgs(nonOwner.address, true);
+
+      const cancelled = await proposedHash(await wallet.connect(nonOwner).proposeTransaction(owner1.address, 0, "0x"));
+      await expect(wallet.connect(nonOwner).cancelTransaction(cancelled))
+        .to.emit(wallet, "TransactionCancelled");
+
+      const txHash = await proposedHash(await wallet.connect(nonOwner).proposeTransaction(owner1.address, 0, "0x"));
+      await expect(
+        wallet.connect(nonOwner).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotEnoughApprovals");
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      await expect(wallet.connect(nonOwner).executeTransaction(txHash))
+        .to.emit(wallet, "TransactionExecuted");
+    });
+
+    it("should only grant the relay permission to enabled modules", async function () {
+      await expect(
+        executeMultisig(
+          await wallet.getAddress(),
+          0n,
+          wallet.interface.encodeFunctionData("setModuleRelay", [owner1.address, true])
+        )
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+      expect(await wallet.relayModules(owner1.address)).to.be.false;
+    });
+
+    it("should revoke the relay permission when the module is disabled", async function () {
+      const walletAddress = await wallet.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("setModuleRelay", [nonOwner.address, true]));
+
+      await expect(
+        executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("disableModule", [nonOwner.address]))
+      ).to.emit(wallet, "ModuleRelayChanged").withArgs(nonOwner.address, false);
+
+      expect(await wallet.relayModules(nonOwner.address)).to.be.false;
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [nonOwner.address]));
+      await expect(
+        wallet.connect(nonOwner).proposeTransaction(owner1.address, 0, "0x")
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+    });
+
+    it("should not allow modules to grant themselves the relay permission", async function () {
+      const walletAddress = await wallet.getAddress();
+      const data = wallet.interface.encodeFunctionData("setModuleRelay", [nonOwner.address, true]);
+
+      await expect(
+        wallet.connect(nonOwner).execTransactionFromModule(walletAddress, 0, data)
+      ).to.be.revertedWithCustomError(wallet, "ModuleCannotModifyModulePermissions");
+    });
+  });
+
+  describe("Upgrades", function () {
+    async function proposeAndGetHash(to: string, value: bigint, data: string): Promise<string> {
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      return wallet.interface.parseLog(event as any)?.args[0];
+    }
+
+    async function executeMultisig(to: string, value: bigint, data: string) {
+      const txHash = await proposeAndGetHash(to, value, data);
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      return wallet.connect(owner3).executeTransaction(txHash);
+    }
+
+    async function deployImplementation(): Promise<string> {
+      const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+      const newImplementation = await MultisigWallet.deploy();
+      await newImplementation.waitForDeployment();
+      return newImplementation.getAddress();
+    }
+
+    async function getImplementation(): Promise<string> {
+      const proxy = (await ethers.getContractAt(
+        "MultisigWalletProxy",
+        await wallet.getAddress()
+      )) as unknown as MultisigWalletProxy;
+      return proxy.getImplementation();
+    }
+
+    it("should upgrade to a new implementation with multisig approval", async function () {
+      const walletAddress = await wallet.getAddress();
+      const newImplementation = await deployImplementation();
+
+      await expect(
+        executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("upgradeTo", [newImplementation]))
+      ).to.emit(wallet, "Upgraded").withArgs(newImplementation);
+
+      expect(await getImplementation()).to.equal(newImplementation);
+    });
+
+    it("should preserve wallet state across the upgrade", async function () {
+      const walletAddress = await wallet.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [nonOwner.address]));
+      const pendingHash = await proposeAndGetHash(nonOwner.address, 0n, "0x");
+      await wallet.connect(owner1).approveTransaction(pendingHash);
+
+      const ownersBefore = await wallet.getOwners();
+      const nonceBefore = await wallet.nonce();
+      const countBefore = await wallet.getTransactionCount();
+
+      await executeMultisig(
+        walletAddress,
+        0n,
+        wallet.interface.encodeFunctionData("upgradeTo", [await deployImplementation()])
+      );
+
+      expect(await wallet.getOwners()).to.deep.equal(ownersBefore);
+      expect(await wallet.threshold()).to.equal(THRESHOLD);
+      expect(await wallet.nonce()).to.equal(nonceBefore + 1n);
+      expect(await wallet.getTransactionCount()).to.equal(countBefore + 1n);
+      expect(await wallet.getModules()).to.deep.equal([nonOwner.address]);
+      expect(await wallet.approvals(pendingHash, owner1.address)).to.be.true;
+
+      // Proposals made before the upgrade still execute afterwards
+      await wallet.connect(owner2).approveTransaction(pendingHash);
+      await wallet.connect(owner1).executeTransaction(pendingHash);
+      expect((await wallet.getTransaction(pendingHash)).executed).to.be.true;
+    });
+
+    it("should reject direct calls", async function () {
+      await expect(
+        wallet.connect(owner1).upgradeTo(await deployImplementation())
+      ).to.be.revertedWithCustomError(wallet, "OnlySelf");
+    });
+
+    it("should reject an implementation without code", async function () {
+      const walletAddress = await wallet.getAddress();
+      const implementationBefore = await getImplementation();
+
+      await expect(
+        executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("upgradeTo", [nonOwner.address]))
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+
+      expect(await getImplementation()).to.equal(implementationBefore);
+    });
+
+    it("should not allow modules to upgrade", async function () {
+      const walletAddress = await wallet.getAddress();
+      await executeMultisig(walletAddress, 0n, wallet.interface.encodeFunctionData("enableModule", [nonOwner.address]));
+
+      const data = wallet.interface.encodeFunctionData("upgradeTo", [await deployImplementation()]);
+
+      await expect(
+        wallet.connect(nonOwner).execTransactionFromModule(walletAddress, 0, data)
+      ).to.be.revertedWithCustomError(wallet, "ModuleCannotModifyModulePermissions");
+    });
+
+    it("should keep the storage layout of deployed vaults", async function () {
+      // Upgraded vaults read existing storage through the new implementation, so variables
+      // may only be appended. Extend this list when adding state; never reorder it.
+      const expectedLayout = [
+        { label: "isOwner", slot: "0" },
+        { label: "owners", slot: "1" },
+        { label: "threshold", slot: "2" },
+        { label: "nonce", slot: "3" },
+        { label: "transactions", slot: "4" },
+        { label: "approvals", slot: "5" },
+        { label: "modules", slot: "6" },
+        { label: "guard", slot: "7" },
+        { label: "txHashes", slot: "8" },
+        { label: "moduleList", slot: "9" },
+        { label: "memos", slot: "10" },
+        { label: "ownerWeights", slot: "11" },
+        { label: "lastOwnerActivity", slot: "12" },
+        { label: "receivedNfts", slot: "13" },
+        { label: "nftRecorded", slot: "14" },
+        { label: "ownerGenerations", slot: "15" },
+        { label: "approvalGenerations", slot: "16" },
+        { label: "relayModules", slot: "17" },
+      ];
+
+      const buildInfo = await artifacts.getBuildInfo("contracts/MultisigWallet.sol:MultisigWallet");
+      const storage = (buildInfo?.output.contracts["contracts/MultisigWallet.sol"].MultisigWallet as any)
+        .storageLayout.storage.map(({ label, slot }: { label: string; slot: string }) => ({ label, slot }));
+
+      expect(storage.slice(0, expectedLayout.length)).to.deep.equal(expectedLayout);
+    });
+  });
+
+  describe("Edge Cases", function () {
+    it("should handle zero value transactions", async function () {
+      const to = nonOwner.address;
+      const value = 0n;
+      const data = "0x";
+
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      expect(receipt?.status).to.equal(1);
+    });
+
+    it("should handle contract calls with data", async function () {
+      // Create a simple contract call (self-call to test)
+      const data = wallet.interface.encodeFunctionData("threshold");
+      const to = await wallet.getAddress();
+
+      const proposeTx = await wallet.connect(owner1).proposeTransaction(to, 0, data);
+      const proposeReceipt = await proposeTx.wait();
+      const proposeEvent = proposeReceipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      const proposeParsed = wallet.interface.parseLog(proposeEvent as any);
+      const txHash = proposeParsed?.args[0];
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      await wallet.connect(owner3).executeTransaction(txHash);
+
+      // Transaction should execute successfully
+      const transaction = await wallet.getTransaction(txHash);
+      expect(transaction.executed).to.be.true;
+    });
+
+    it("should handle maximum threshold", async function () {
+      const owners = [owner1.address, owner2.address, owner3.address];
+      const salt = ethers.randomBytes(32);
+      const tx = await factory.connect(owner1).createWallet(owners, 3, salt);
+      const receipt = await tx.wait();
+
+      const event = receipt?.logs.find(
+        (log) => {
+          try {
+            return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+          } catch {
+            return false;
+          }
+        }
+      );
+      const parsedEvent = factory.interface.parseLog(event as any);
+      const walletAddress = parsedEvent?.args[0];
+      const newWallet = await ethers.getContractAt("MultisigWallet", walletAddress) as MultisigWallet;
+
+      expect(await newWallet.threshold()).to.equal(3);
+    });
+
+    it("should handle single owner wallet", async function () {
+      const owners = [owner1.address];
+      const salt = ethers.randomBytes(32);
+      const tx = await factory.connect(owner1).createWallet(owners, 1, salt);
+      const receipt = await tx.wait();
+
+      const event = receipt?.logs.find(
+        (log) => {
+          try {
+            return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+          } catch {
+            return false;
+          }
+        }
+      );
+      const parsedEvent2 = factory.interface.parseLog(event as any);
+      const walletAddress2 = parsedEvent2?.args[0];
+      const newWallet = await ethers.getContractAt("MultisigWallet", walletAddress2) as MultisigWallet;
+
+      expect(await newWallet.threshold()).to.equal(1);
+      
+      // Should be able to execute immediately
+      const to = nonOwner.address;
+      const value = ethers.parseEther("1.0");
+      await owner1.sendTransaction({
+        to: walletAddress2,
+        value: ethers.parseEther("10.0"),
+      });
+
+      const proposeTx = await newWallet.connect(owner1).proposeTransaction(to, value, "0x");
+      const proposeReceipt = await proposeTx.wait();
+      const proposeEvent = proposeReceipt?.logs.find((log) => {
+        try {
+          return newWallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      const proposeParsed = newWallet.interface.parseLog(proposeEvent as any);
+      const txHash = proposeParsed?.args[0];
+
+      await newWallet.connect(owner1).approveTransaction(txHash);
+      await newWallet.connect(owner1).executeTransaction(txHash);
+
+      const transaction = await newWallet.getTransaction(txHash);
+      expect(transaction.executed).to.be.true;
+    });
+  });
+
+  describe("Receive ETH", function () {
+    it("should accept ETH transfers", async function () {
+      const amount = ethers.parseEther("1.0");
+
+      await expect(
+        owner1.sendTransaction({
+          to: await wallet.getAddress(),
+          value: amount,
+        })
+      ).to.emit(wallet, "Received");
 
       const balance = await ethers.provider.getBalance(await wallet.getAddress());
       expect(balance).to.equal(amount);
     });
   });
+
+  describe("Token Callbacks", function () {
+    async function executeMultisig(to: string, value: bigint, data: string) {
+      const tx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      });
+      const txHash = wallet.interface.parseLog(event as any)?.args[0];
+
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+      return wallet.connect(owner3).executeTransaction(txHash);
+    }
+
+    it("should accept ERC-721 safe transfers", async function () {
+      const MockERC721 = await ethers.getContractFactory("MockERC721");
+      const nft = await MockERC721.deploy();
+      const walletAddress = await wallet.getAddress();
+      await nft.mint(owner1.address, 1);
+
+      await expect(
+        nft.connect(owner1)["safeTransferFrom(address,address,uint256)"](owner1.address, walletAddress, 1)
+      ).to.emit(wallet, "ERC721Received").withArgs(await nft.getAddress(), owner1.address, 1);
+
+      expect(await nft.ownerOf(1)).to.equal(walletAddress);
+    });
+
+    it("should accept ERC-1155 single and batch transfers", async function () {
+      const MockERC1155 = await ethers.getContractFactory("MockERC1155");
+      const token = await MockERC1155.deploy();
+      const walletAddress = await wallet.getAddress();
+      await token.mint(owner1.address, 1, 10);
+      await token.mint(owner1.address, 2, 5);
+
+      await expect(
+        token.connect(owner1).safeTransferFrom(owner1.address, walletAddress, 1, 4, "0x")
+      ).to.emit(wallet, "ERC1155Received").withArgs(await token.getAddress(), owner1.address, 1, 4);
+
+      await token.connect(owner1).safeBatchTransferFrom(owner1.address, walletAddress, [1, 2], [6, 5], "0x");
+
+      expect(await token.balanceOf(walletAddress, 1)).to.equal(10);
+      expect(await token.balanceOf(walletAddress, 2)).to.equal(5);
+    });
+
+    it("should record each received NFT once", async function () {
+      const MockERC721 = await ethers.getContractFactory("MockERC721");
+      const nft = await MockERC721.deploy();
+      const MockERC1155 = await ethers.getContractFactory("MockERC1155");
+      const token = await MockERC1155.deploy();
+      const walletAddress = await wallet.getAddress();
+      await nft.mint(owner1.address, 3);
+      await token.mint(owner1.address, 1, 10);
+      await token.mint(owner1.address, 2, 5);
+
+      await nft.connect(owner1)["safeTransferFrom(address,address,uint256)"](owner1.address, walletAddress, 3);
+      await token.connect(owner1).safeTransferFrom(owner1.address, walletAddress, 1, 4, "0x");
+      await token.connect(owner1).safeBatchTransferFrom(owner1.address, walletAddress, [1, 2], [6, 5], "0x");
+
+      expect(await wallet.getReceivedNftCount()).to.equal(3);
+      const received = await wallet.getReceivedNfts(0, 10);
+      expect(received.map((nft) => [nft.token, nft.tokenId, nft.isERC1155])).to.deep.equal([
+        [await nft.getAddress(), 3n, false],
+        [await token.getAddress(), 1n, true],
+        [await token.getAddress(), 2n, true],
+      ]);
+
+      const page = await wallet.getReceivedNfts(2, 10);
+      expect(page.length).to.equal(1);
+      expect(await wallet.getReceivedNfts(3, 10)).to.deep.equal([]);
+    });
+
+    it("should not record NFTs the wallet does not hold", async function () {
+      const MockERC721 = await ethers.getContractFactory("MockERC721");
+      const nft = await MockERC721.deploy();
+      const MockERC1155 = await ethers.getContractFactory("MockERC1155");
+      const token = await MockERC1155.deploy();
+      const walletAddress = await wallet.getAddress();
+      await nft.mint(owner1.address, 4);
+
+      // Called directly by an account rather than a token contract
+      await wallet.connect(owner1).onERC721Received(owner1.address, owner1.address, 4, "0x");
+      await wallet.connect(owner1).onERC1155Received(owner1.address, owner1.address, 1, 1, "0x");
+
+      // Called by token contracts that do not report the wallet as a holder
+      for (const address of [await nft.getAddress(), await token.getAddress()]) {
+        await impersonateAccount(address);
+        await setBalance(address, ethers.parseEther("1"));
+      }
+      const nftSigner = await ethers.getSigner(await nft.getAddress());
+      const tokenSigner = await ethers.getSigner(await token.getAddress());
+
+      await wallet.connect(nftSigner).onERC721Received(owner1.address, owner1.address, 4, "0x");
+      await wallet.connect(nftSigner).onERC721Received(owner1.address, owner1.address, 5, "0x");
+      await wallet.connect(tokenSigner).onERC1155BatchReceived(owner1.address, owner1.address, [1, 2], [1, 1], "0x");
+
+      expect(await wallet.getReceivedNftCount()).to.equal(0);
+
+      // A genuine transfer of the same token is still recorded
+      await nft.connect(owner1)["safeTransferFrom(address,address,uint256)"](owner1.address, walletAddress, 4);
+      expect(await wallet.getReceivedNftCount()).to.equal(1);
+    });
+
+    it("should keep NFTs received long before the latest block", async function () {
+      const MockERC721 = await ethers.getContractFactory("MockERC721");
+      const nft = await MockERC721.deploy();
+      const walletAddress = await wallet.getAddress();
+      await nft.mint(owner1.address, 9);
+      await nft.connect(owner1)["safeTransferFrom(address,address,uint256)"](owner1.address, walletAddress, 9);
+
+      // Further back than the event window clients scan
+      await mine(10000);
+
+      const [received] = await wallet.getReceivedNfts(0, 1);
+      expect(received.token).to.equal(await nft.getAddress());
+      expect(received.tokenId).to.equal(9);
+    });
+
+    it("should send received NFTs with multisig approval", async function () {
+      const MockERC721 = await ethers.getContractFactory("MockERC721");
+      const nft = await MockERC721.deploy();
+      const walletAddress = await wallet.getAddress();
+      await nft.mint(owner1.address, 7);
+      await nft.connect(owner1)["safeTransferFrom(address,address,uint256)"](owner1.address, walletAddress, 7);
+
+      const data = nft.interface.encodeFunctionData("safeTransferFrom(address,address,uint256)", [
+        walletAddress,
+        nonOwner.address,
+        7,
+      ]);
+      await executeMultisig(await nft.getAddress(), 0n, data);
+
+      expect(await nft.ownerOf(7)).to.equal(nonOwner.address);
+    });
+
+    it("should report supported interfaces", async function () {
+      expect(await wallet.supportsInterface("0x01ffc9a7")).to.be.true; // ERC-165
+      expect(await wallet.supportsInterface("0x150b7a02")).to.be.true; // ERC-721 receiver
+      expect(await wallet.supportsInterface("0x4e2312e0")).to.be.true; // ERC-1155 receiver
+      expect(await wallet.supportsInterface("0xffffffff")).to.be.false;
+    });
+  });
 });
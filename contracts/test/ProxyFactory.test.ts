@@ -293,18 +293,207 @@ describe("ProxyFactory", function () {
     });
   });
 
+  describe("createWalletWithWeights", function () {
+    it("should create a weighted wallet", async function () {
+      const owners = [owner1.address, owner2.address];
+      const salt = ethers.randomBytes(32);
+
+      const tx = await factory.connect(owner1).createWalletWithWeights(owners, [3, 1], 3, salt);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => {
+        try {
+          return factory.interface.parseLog(log)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      });
+      const walletAddress = factory.interface.parseLog(event as any)?.args.wallet;
+      const wallet = await ethers.getContractAt("MultisigWallet", walletAddress);
+
+      expect(await factory.isWallet(walletAddress)).to.be.true;
+      expect(await wallet.threshold()).to.equal(3);
+      expect(await wallet.getOwnerWeight(owner1.address)).to.equal(3);
+      expect(await wallet.getTotalWeight()).to.equal(4);
+    });
+
+    it("should reject a threshold above the total weight", async function () {
+      const owners = [owner1.address, owner2.address];
+
+      await expect(
+        factory.connect(owner1).createWalletWithWeights(owners, [3, 1], 5, ethers.randomBytes(32))
+      ).to.be.revertedWithCustomError(implementation, "InvalidThreshold");
+    });
+  });
+
+  describe("createWalletWithSetup", function () {
+    let dailyLimitModule: any;
+    let whitelistModule: any;
+    let recoveryModule: any;
+
+    beforeEach(async function () {
+      dailyLimitModule = await (await ethers.getContractFactory("DailyLimitModule")).deploy();
+      whitelistModule = await (await ethers.getContractFactory("WhitelistModule")).deploy();
+      recoveryModule = await (await ethers.getContractFactory("SocialRecoveryModule")).deploy();
+    });
+
+    it("should enable and configure modules in the deployment transaction", async function () {
+      const owners = [owner1.address, owner2.address];
+      const salt = ethers.randomBytes(32);
+      const walletAddress = await factory.computeAddress(owner1.address, salt, "0x");
+      const limit = ethers.parseEther("1");
+      const modules = [
+        await dailyLimitModule.getAddress(),
+        await whitelistModule.getAddress(),
+        await recoveryModule.getAddress(),
+      ];
+      const setupCalls = [
+        {
+          to: modules[0],
+          value: 0,
+          data: dailyLimitModule.interface.encodeFunctionData("setDailyLimit", [walletAddress, limit]),
+        },
+        {
+          to: modules[1],
+          value: 0,
+          data: whitelistModule.interface.encodeFunctionData("batchAddToWhitelist", [
+            walletAddress,
+            [nonOwner.address],
+            [limit],
+          ]),
+        },
+        {
+          to: modules[2],
+          value: 0,
+          data: recoveryModule.interface.encodeFunctionData("setupRecovery", [
+            walletAddress,
+            [owner3.address, nonOwner.address],
+            1,
+            86400,
+          ]),
+        },
+      ];
+
+      await expect(
+        factory.connect(owner1).createWalletWithSetup(owners, [], THRESHOLD, salt, modules, setupCalls)
+      )
+        .to.emit(factory, "WalletCreated")
+        .withArgs(walletAddress, owners, THRESHOLD, owner1.address, ethers.hexlify(salt));
+
+      const wallet = await ethers.getContractAt("MultisigWallet", walletAddress);
+      expect(await factory.isWallet(walletAddress)).to.be.true;
+      expect(await wallet.getOwners()).to.deep.equal(owners);
+      expect(await wallet.threshold()).to.equal(THRESHOLD);
+      for (const module of modules) {
+        expect(await wallet.modules(module)).to.be.true;
+      }
+      expect((await dailyLimitModule.getDailyLimit(walletAddress)).limit).to.equal(limit);
+      expect(await whitelistModule.isWhitelisted(walletAddress, nonOwner.address)).to.be.true;
+      expect((await recoveryModule.getRecoveryConfig(walletAddress)).threshold).to.equal(1);
+    });
+
+    it("should create weighted wallets without setup calls", async function () {
+      const owners = [owner1.address, owner2.address];
+      const modules = [await dailyLimitModule.getAddress()];
+
+      const tx = await factory
+        .connect(owner1)
+        .createWalletWithSetup(owners, [3, 1], 3, ethers.randomBytes(32), modules, []);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => {
+        try {
+          return factory.interface.parseLog(log)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      });
+      const wallet = await ethers.getContractAt(
+        "MultisigWallet",
+        factory.interface.parseLog(event as any)?.args.wallet
+      );
+
+      expect(await wallet.getTotalWeight()).to.equal(4);
+      expect(await wallet.modules(modules[0])).to.be.true;
+    });
+
+    it("should revert the deployment when a setup call fails", async function () {
+      const owners = [owner1.address, owner2.address];
+      const moduleAddress = await dailyLimitModule.getAddress();
+      // Configuring a different wallet fails the module's msg.sender check
+      const setupCalls = [
+        {
+          to: moduleAddress,
+          value: 0,
+          data: dailyLimitModule.interface.encodeFunctionData("setDailyLimit", [nonOwner.address, 1]),
+        },
+      ];
+
+      await expect(
+        factory
+          .connect(owner1)
+          .createWalletWithSetup(owners, [], THRESHOLD, ethers.randomBytes(32), [moduleAddress], setupCalls)
+      )
+        .to.be.revertedWithCustomError(implementation, "BatchCallFailed")
+        .withArgs(0, dailyLimitModule.interface.encodeErrorResult("MustBeCalledByWallet"));
+      expect(await factory.getWalletCount()).to.equal(0);
+    });
+
+    it("should reject duplicate modules", async function () {
+      const moduleAddress = await dailyLimitModule.getAddress();
+
+      await expect(
+        factory
+          .connect(owner1)
+          .createWalletWithSetup(
+            [owner1.address],
+            [],
+            1,
+            ethers.randomBytes(32),
+            [moduleAddress, moduleAddress],
+            []
+          )
+      ).to.be.revertedWithCustomError(implementation, "ModuleAlreadyEnabled");
+    });
+
+    it("should reject weights that do not match owners", async function () {
+      await expect(
+        factory
+          .connect(owner1)
+          .createWalletWithSetup([owner1.address, owner2.address], [1], 1, ethers.randomBytes(32), [], [])
+      ).to.be.revertedWithCustomError(implementation, "WeightsLengthMismatch");
+    });
+  });
+
   describe("computeAddress", function () {
-    it("should compute address (note: may not match on Quai Network)", async function () {
+    it("should predict the address createWallet deploys to", async function () {
       const owners = [owner1.address, owner2.address];
       const salt = ethers.randomBytes(32);
+      const initData = implementation.interface.encodeFunctionData("initialize", [owners, THRESHOLD]);
 
-      const computedAddress = await factory.computeAddress(owner1.address, salt);
+      const computedAddress = await factory.computeAddress(owner1.address, salt, initData);
 
-      // The computed address should be a valid address
-      expect(computedAddress).to.be.properAddress;
-      
-      // Note: On Quai Network, the actual deployed address may differ
-      // due to shard-aware addressing, so we don't assert exact match
+      await expect(factory.connect(owner1).createWallet(owners, THRESHOLD, salt))
+        .to.emit(factory, "WalletCreated")
+        .withArgs(computedAddress, owners, THRESHOLD, owner1.address, ethers.hexlify(salt));
+    });
+
+    it("should predict weighted wallet addresses", async function () {
+      const owners = [owner1.address, owner2.address];
+      const salt = ethers.randomBytes(32);
+      const initData = implementation.interface.encodeFunctionData("initializeWithWeights", [owners, [2, 1], 2]);
+
+      const computedAddress = await factory.computeAddress(owner2.address, salt, initData);
+
+      await expect(factory.connect(owner2).createWalletWithWeights(owners, [2, 1], 2, salt))
+        .to.emit(factory, "WalletCreated")
+        .withArgs(computedAddress, owners, 2, owner2.address, ethers.hexlify(salt));
+    });
+
+    it("should depend on the deployer", async function () {
+      const salt = ethers.randomBytes(32);
+      const initData = implementation.interface.encodeFunctionData("initialize", [[owner1.address], 1]);
+
+      expect(await factory.computeAddress(owner1.address, salt, initData))
+        .to.not.equal(await factory.computeAddress(owner2.address, salt, initData));
     });
   });
 });
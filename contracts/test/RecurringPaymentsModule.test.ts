@@ -0,0 +1,262 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultisigWallet, ProxyFactory, RecurringPaymentsModule } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("RecurringPaymentsModule", function () {
+  let implementation: MultisigWallet;
+  let factory: ProxyFactory;
+  let wallet: MultisigWallet;
+  let module: RecurringPaymentsModule;
+  let owner1: SignerWithAddress;
+  let owner2: SignerWithAddress;
+  let owner3: SignerWithAddress;
+  let recipient: SignerWithAddress;
+  let keeper: SignerWithAddress;
+
+  const THRESHOLD = 2;
+  const MONTH = 30 * 24 * 60 * 60;
+  const AMOUNT = ethers.parseEther("1");
+
+  beforeEach(async function () {
+    [owner1, owner2, owner3, recipient, keeper] = await ethers.getSigners();
+
+    // Deploy implementation
+    const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+    implementation = await MultisigWallet.deploy();
+    await implementation.waitForDeployment();
+
+    // Deploy factory
+    const ProxyFactory = await ethers.getContractFactory("ProxyFactory");
+    factory = await ProxyFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+
+    // Create wallet through factory
+    const owners = [owner1.address, owner2.address, owner3.address];
+    const salt = ethers.randomBytes(32);
+    const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, salt);
+    const receipt = await tx.wait();
+
+    const event = receipt?.logs.find(
+      (log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const parsedEvent = factory.interface.parseLog(event as any);
+    const walletAddress = parsedEvent?.args[0];
+    wallet = MultisigWallet.attach(walletAddress) as MultisigWallet;
+
+    // Deploy module
+    const RecurringPaymentsModule = await ethers.getContractFactory("RecurringPaymentsModule");
+    module = await RecurringPaymentsModule.deploy();
+    await module.waitForDeployment();
+
+    // Enable module (requires multisig)
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+    );
+
+    // Fund wallet
+    await owner1.sendTransaction({ to: walletAddress, value: ethers.parseEther("10") });
+  });
+
+  /**
+   * Helper to execute a transaction through multisig
+   */
+  async function executeMultisig(to: string, value: bigint, data: string) {
+    const proposeTx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+    const proposeReceipt = await proposeTx.wait();
+    const proposeEvent = proposeReceipt?.logs.find(
+      (log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const proposeParsed = wallet.interface.parseLog(proposeEvent as any);
+    const txHash = proposeParsed?.args[0];
+
+    await wallet.connect(owner1).approveTransaction(txHash);
+    await wallet.connect(owner2).approveTransaction(txHash);
+    await wallet.connect(owner3).executeTransaction(txHash);
+  }
+
+  /**
+   * Helper to create a schedule through multisig (H-2 fix)
+   * @returns ID of the new schedule
+   */
+  async function createScheduleViaMultisig(
+    amount: bigint,
+    interval: number,
+    firstPaymentAt: number,
+    endsAt: number
+  ): Promise<string> {
+    const walletAddress = await wallet.getAddress();
+    const data = module.interface.encodeFunctionData("createSchedule", [
+      walletAddress,
+      recipient.address,
+      amount,
+      interval,
+      firstPaymentAt,
+      endsAt
+    ]);
+    await executeMultisig(await module.getAddress(), 0n, data);
+
+    const events = await module.queryFilter(module.filters.ScheduleCreated(walletAddress));
+    return events[events.length - 1].args.scheduleId;
+  }
+
+  describe("createSchedule", function () {
+    it("should create a schedule via multisig", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+
+      const schedule = await module.getSchedule(walletAddress, scheduleId);
+      expect(schedule.recipient).to.equal(recipient.address);
+      expect(schedule.amount).to.equal(AMOUNT);
+      expect(schedule.interval).to.equal(MONTH);
+      expect(schedule.paymentsMade).to.equal(0);
+      expect([...(await module.getScheduleIds(walletAddress))]).to.deep.equal([scheduleId]);
+    });
+
+    it("should reject direct calls from owners", async function () {
+      const walletAddress = await wallet.getAddress();
+
+      await expect(
+        module.connect(owner1).createSchedule(walletAddress, recipient.address, AMOUNT, MONTH, 0, 0)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject end dates before the first payment", async function () {
+      const now = await time.latest();
+      const data = module.interface.encodeFunctionData("createSchedule", [
+        await wallet.getAddress(),
+        recipient.address,
+        AMOUNT,
+        MONTH,
+        now + MONTH,
+        now + 1000
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, data)
+      ).to.be.reverted;
+      expect(await module.getScheduleIds(await wallet.getAddress())).to.have.length(0);
+    });
+  });
+
+  describe("executePayment", function () {
+    it("should let anyone trigger a due payment", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await expect(module.connect(keeper).executePayment(walletAddress, scheduleId))
+        .to.emit(module, "PaymentExecuted")
+        .withArgs(walletAddress, scheduleId, recipient.address, AMOUNT, 1);
+
+      expect(await ethers.provider.getBalance(recipient.address)).to.equal(balanceBefore + AMOUNT);
+      expect(await module.isPaymentDue(walletAddress, scheduleId)).to.be.false;
+    });
+
+    it("should reject payments before the next interval", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+      await module.connect(keeper).executePayment(walletAddress, scheduleId);
+
+      await expect(
+        module.connect(keeper).executePayment(walletAddress, scheduleId)
+      ).to.be.revertedWithCustomError(module, "PaymentNotDue");
+
+      await time.increase(MONTH);
+      await module.connect(keeper).executePayment(walletAddress, scheduleId);
+      expect((await module.getSchedule(walletAddress, scheduleId)).paymentsMade).to.equal(2);
+    });
+
+    it("should pay missed intervals one call at a time", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+
+      await time.increase(MONTH * 2);
+      await module.connect(keeper).executePayment(walletAddress, scheduleId);
+      await module.connect(keeper).executePayment(walletAddress, scheduleId);
+      await module.connect(keeper).executePayment(walletAddress, scheduleId);
+
+      await expect(
+        module.connect(keeper).executePayment(walletAddress, scheduleId)
+      ).to.be.revertedWithCustomError(module, "PaymentNotDue");
+    });
+
+    it("should complete the schedule after the end date", async function () {
+      const walletAddress = await wallet.getAddress();
+      const now = await time.latest();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, now + 10, now + 10 + MONTH);
+
+      await time.increase(MONTH + 10);
+      await module.connect(keeper).executePayment(walletAddress, scheduleId);
+      await expect(module.connect(keeper).executePayment(walletAddress, scheduleId))
+        .to.emit(module, "ScheduleCompleted")
+        .withArgs(walletAddress, scheduleId);
+
+      expect(await module.getScheduleIds(walletAddress)).to.have.length(0);
+      await expect(
+        module.connect(keeper).executePayment(walletAddress, scheduleId)
+      ).to.be.revertedWithCustomError(module, "ScheduleNotFound");
+    });
+
+    it("should revert when the wallet cannot cover the payment", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(ethers.parseEther("100"), MONTH, 0, 0);
+
+      await expect(
+        module.connect(keeper).executePayment(walletAddress, scheduleId)
+      ).to.be.revertedWithCustomError(module, "PaymentFailed");
+      expect((await module.getSchedule(walletAddress, scheduleId)).paymentsMade).to.equal(0);
+    });
+
+    it("should list only due schedules for keepers", async function () {
+      const walletAddress = await wallet.getAddress();
+      const now = await time.latest();
+      const dueId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+      await createScheduleViaMultisig(AMOUNT, MONTH, now + MONTH, 0);
+
+      expect([...(await module.getDueScheduleIds(walletAddress))]).to.deep.equal([dueId]);
+    });
+  });
+
+  describe("cancelSchedule", function () {
+    it("should stop payments once cancelled via multisig", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+
+      await executeMultisig(
+        await module.getAddress(),
+        0n,
+        module.interface.encodeFunctionData("cancelSchedule", [walletAddress, scheduleId])
+      );
+
+      expect(await module.getScheduleIds(walletAddress)).to.have.length(0);
+      await expect(
+        module.connect(keeper).executePayment(walletAddress, scheduleId)
+      ).to.be.revertedWithCustomError(module, "ScheduleNotFound");
+    });
+
+    it("should reject direct calls from owners", async function () {
+      const walletAddress = await wallet.getAddress();
+      const scheduleId = await createScheduleViaMultisig(AMOUNT, MONTH, 0, 0);
+
+      await expect(
+        module.connect(owner1).cancelSchedule(walletAddress, scheduleId)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultisigWallet, ProxyFactory, RolesModule } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("RolesModule", function () {
+  let implementation: MultisigWallet;
+  let factory: ProxyFactory;
+  let wallet: MultisigWallet;
+  let module: RolesModule;
+  let owner1: SignerWithAddress;
+  let owner2: SignerWithAddress;
+  let owner3: SignerWithAddress;
+  let proposer: SignerWithAddress;
+  let approver: SignerWithAddress;
+  let executor: SignerWithAddress;
+  let recipient: SignerWithAddress;
+  let outsider: SignerWithAddress;
+
+  const THRESHOLD = 2;
+  const ROLE_PROPOSER = 1;
+  const ROLE_APPROVER = 2;
+  const ROLE_EXECUTOR = 4;
+
+  beforeEach(async function () {
+    [owner1, owner2, owner3, proposer, approver, executor, recipient, outsider] = await ethers.getSigners();
+
+    // Deploy implementation
+    const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+    implementation = await MultisigWallet.deploy();
+    await implementation.waitForDeployment();
+
+    // Deploy factory
+    const ProxyFactory = await ethers.getContractFactory("ProxyFactory");
+    factory = await ProxyFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+
+    // Create wallet through factory
+    const owners = [owner1.address, owner2.address, owner3.address];
+    const salt = ethers.randomBytes(32);
+    const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, salt);
+    const receipt = await tx.wait();
+
+    const event = receipt?.logs.find(
+      (log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const parsedEvent = factory.interface.parseLog(event as any);
+    const walletAddress = parsedEvent?.args[0];
+    wallet = MultisigWallet.attach(walletAddress) as MultisigWallet;
+
+    // Deploy module
+    const RolesModule = await ethers.getContractFactory("RolesModule");
+    module = await RolesModule.deploy();
+    await module.waitForDeployment();
+
+    // Enable module (requires multisig)
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+    );
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("setModuleRelay", [await module.getAddress(), true])
+    );
+
+    // Fund wallet
+    await owner1.sendTransaction({
+      to: await wallet.getAddress(),
+      value: ethers.parseEther("10.0"),
+    });
+
+    await setRolesViaMultisig(proposer.address, ROLE_PROPOSER);
+    await setRolesViaMultisig(approver.address, ROLE_APPROVER);
+    await setRolesViaMultisig(executor.address, ROLE_EXECUTOR);
+  });
+
+  /**
+   * Helper to get the transaction hash from a TransactionProposed log
+   */
+  function getProposedHash(receipt: any): string {
+    const proposeEvent = receipt?.logs.find(
+      (log: any) => {
+        try {
+          return wallet.interface.parseLog(log)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      }
+    );
+    return wallet.interface.parseLog(proposeEvent as any)?.args[0];
+  }
+
+  /**
+   * Helper to execute a transaction through multisig
+   */
+  async function executeMultisig(to: string, value: bigint, data: string) {
+    const proposeTx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+    const txHash = getProposedHash(await proposeTx.wait());
+
+    await wallet.connect(owner1).approveTransaction(txHash);
+    await wallet.connect(owner2).approveTransaction(txHash);
+    const executeTx = await wallet.connect(owner3).executeTransaction(txHash);
+    return executeTx.wait();
+  }
+
+  /**
+   * Helper to set an account's roles through multisig
+   */
+  async function setRolesViaMultisig(account: string, roles: number) {
+    const data = module.interface.encodeFunctionData("setRoles", [
+      await wallet.getAddress(),
+      account,
+      roles,
+    ]);
+    await executeMultisig(await module.getAddress(), 0n, data);
+  }
+
+  /**
+   * Helper to propose a transfer as the proposer role, returning the wallet transaction hash
+   */
+  async function proposeAsRole(memo = ""): Promise<string> {
+    const tx = await module
+      .connect(proposer)
+      .propose(await wallet.getAddress(), recipient.address, ethers.parseEther("1.0"), "0x", memo);
+    return getProposedHash(await tx.wait());
+  }
+
+  describe("Role Configuration", function () {
+    it("should list role members", async function () {
+      const [accounts, roles] = await module.getMembers(await wallet.getAddress());
+
+      expect([...accounts]).to.deep.equal([proposer.address, approver.address, executor.address]);
+      expect(roles.map(Number)).to.deep.equal([ROLE_PROPOSER, ROLE_APPROVER, ROLE_EXECUTOR]);
+    });
+
+    it("should remove an account when its roles are cleared", async function () {
+      await setRolesViaMultisig(proposer.address, 0);
+
+      const [accounts] = await module.getMembers(await wallet.getAddress());
+      expect([...accounts]).to.have.members([approver.address, executor.address]);
+      expect(await module.hasRole(await wallet.getAddress(), proposer.address, ROLE_PROPOSER)).to.be.false;
+    });
+
+    it("should reject role changes not made by the wallet", async function () {
+      await expect(
+        module.connect(owner1).setRoles(await wallet.getAddress(), outsider.address, ROLE_PROPOSER)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject unknown role bits", async function () {
+      const data = module.interface.encodeFunctionData("setRoles", [
+        await wallet.getAddress(),
+        outsider.address,
+        8,
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, data)
+      ).to.be.revertedWithCustomError(wallet, "TransactionExecutionFailed");
+    });
+  });
+
+  describe("Proposer", function () {
+    it("should propose a transaction that still needs owner approvals", async function () {
+      const txHash = await proposeAsRole("Weekly payout");
+
+      const transaction = await wallet.getTransaction(txHash);
+      expect(transaction.to).to.equal(recipient.address);
+      expect(transaction.proposer).to.equal(await module.getAddress());
+      expect(transaction.numApprovals).to.equal(0);
+      expect(await wallet.memos(txHash)).to.equal("Weekly payout");
+      expect(await module.proposers(await wallet.getAddress(), txHash)).to.equal(proposer.address);
+    });
+
+    it("should cancel its own proposal", async function () {
+      const txHash = await proposeAsRole();
+
+      await module.connect(proposer).cancel(await wallet.getAddress(), txHash);
+
+      expect((await wallet.getTransaction(txHash)).cancelled).to.be.true;
+    });
+
+    it("should not cancel proposals made by owners", async function () {
+      const tx = await wallet.connect(owner1).proposeTransaction(recipient.address, 1n, "0x");
+      const txHash = getProposedHash(await tx.wait());
+
+      await expect(
+        module.connect(proposer).cancel(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "NotTheProposer");
+    });
+
+    it("should not approve or execute", async function () {
+      const txHash = await proposeAsRole();
+
+      await expect(
+        module.connect(proposer).approve(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "MissingRole").withArgs(ROLE_APPROVER);
+      await expect(
+        module.connect(proposer).execute(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "MissingRole").withArgs(ROLE_EXECUTOR);
+    });
+  });
+
+  describe("Approver", function () {
+    it("should sign off on a pending proposal", async function () {
+      const txHash = await proposeAsRole();
+
+      await expect(module.connect(approver).approve(await wallet.getAddress(), txHash))
+        .to.emit(module, "RoleApproved")
+        .withArgs(await wallet.getAddress(), txHash, approver.address);
+
+      expect(await module.getApprovalCount(await wallet.getAddress(), txHash)).to.equal(1);
+    });
+
+    it("should not count toward the owners' threshold", async function () {
+      const txHash = await proposeAsRole();
+      await module.connect(approver).approve(await wallet.getAddress(), txHash);
+
+      expect(await wallet.getApprovalCount(txHash)).to.equal(0);
+      await expect(
+        wallet.connect(owner1).executeTransaction(txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotEnoughApprovals");
+    });
+
+    it("should withdraw a sign-off", async function () {
+      const txHash = await proposeAsRole();
+      await module.connect(approver).approve(await wallet.getAddress(), txHash);
+
+      await module.connect(approver).revokeApproval(await wallet.getAddress(), txHash);
+
+      expect(await module.getApprovalCount(await wallet.getAddress(), txHash)).to.equal(0);
+    });
+
+    it("should stop counting sign-offs once the role is revoked", async function () {
+      const txHash = await proposeAsRole();
+      await module.connect(approver).approve(await wallet.getAddress(), txHash);
+
+      await setRolesViaMultisig(approver.address, 0);
+
+      expect(await module.getApprovalCount(await wallet.getAddress(), txHash)).to.equal(0);
+    });
+
+    it("should reject sign-offs on unknown or executed transactions", async function () {
+      await expect(
+        module.connect(approver).approve(await wallet.getAddress(), ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(module, "TransactionNotPending");
+    });
+
+    it("should not propose or execute", async function () {
+      await expect(
+        module.connect(approver).propose(await wallet.getAddress(), recipient.address, 1n, "0x", "")
+      ).to.be.revertedWithCustomError(module, "MissingRole").withArgs(ROLE_PROPOSER);
+      await expect(
+        module.connect(approver).execute(await wallet.getAddress(), ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(module, "MissingRole").withArgs(ROLE_EXECUTOR);
+    });
+  });
+
+  describe("Executor", function () {
+    it("should relay a proposal that reached the owners' threshold", async function () {
+      const txHash = await proposeAsRole();
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      const balanceBefore = await ethers.provider.getBalance(recipient.address);
+
+      await expect(module.connect(executor).execute(await wallet.getAddress(), txHash))
+        .to.emit(module, "RoleExecuted")
+        .withArgs(await wallet.getAddress(), txHash, executor.address);
+
+      expect(await ethers.provider.getBalance(recipient.address) - balanceBefore).to.equal(ethers.parseEther("1.0"));
+      expect((await wallet.getTransaction(txHash)).executed).to.be.true;
+    });
+
+    it("should not relay before the owners' threshold", async function () {
+      const txHash = await proposeAsRole();
+      await wallet.connect(owner1).approveTransaction(txHash);
+
+      await expect(
+        module.connect(executor).execute(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(wallet, "NotEnoughApprovals");
+    });
+
+    it("should require approver sign-offs when configured", async function () {
+      await executeMultisig(
+        await module.getAddress(),
+        0n,
+        module.interface.encodeFunctionData("setRequiredApprovals", [await wallet.getAddress(), 1])
+      );
+
+      const txHash = await proposeAsRole();
+      await wallet.connect(owner1).approveTransaction(txHash);
+      await wallet.connect(owner2).approveTransaction(txHash);
+
+      await expect(
+        module.connect(executor).execute(await wallet.getAddress(), txHash)
+      ).to.be.revertedWithCustomError(module, "NotEnoughRoleApprovals");
+
+      await module.connect(approver).approve(await wallet.getAddress(), txHash);
+      await module.connect(executor).execute(await wallet.getAddress(), txHash);
+
+      expect((await wallet.getTransaction(txHash)).executed).to.be.true;
+    });
+
+    it("should not propose or sign off", async function () {
+      await expect(
+        module.connect(executor).propose(await wallet.getAddress(), recipient.address, 1n, "0x", "")
+      ).to.be.revertedWithCustomError(module, "MissingRole").withArgs(ROLE_PROPOSER);
+      await expect(
+        module.connect(executor).approve(await wallet.getAddress(), ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(module, "MissingRole").withArgs(ROLE_APPROVER);
+    });
+  });
+
+  describe("Access Control", function () {
+    it("should reject accounts without roles", async function () {
+      await expect(
+        module.connect(outsider).propose(await wallet.getAddress(), recipient.address, 1n, "0x", "")
+      ).to.be.revertedWithCustomError(module, "MissingRole");
+    });
+
+    it("should stop working once the module is disabled", async function () {
+      await executeMultisig(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("disableModule", [await module.getAddress()])
+      );
+
+      await expect(
+        module.connect(proposer).propose(await wallet.getAddress(), recipient.address, 1n, "0x", "")
+      ).to.be.revertedWithCustomError(module, "ModuleNotEnabled");
+    });
+
+    it("should need the wallet's relay permission to drive proposals", async function () {
+      await executeMultisig(
+        await wallet.getAddress(),
+        0n,
+        wallet.interface.encodeFunctionData("setModuleRelay", [await module.getAddress(), false])
+      );
+
+      await expect(
+        module.connect(proposer).propose(await wallet.getAddress(), recipient.address, 1n, "0x", "")
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+    });
+
+    it("should not let non-owners call the wallet directly", async function () {
+      await expect(
+        wallet.connect(proposer).proposeTransaction(recipient.address, 1n, "0x")
+      ).to.be.revertedWithCustomError(wallet, "NotAnOwner");
+    });
+
+    it("should keep roles scoped to each wallet", async function () {
+      const owners = [owner1.address, owner2.address, owner3.address];
+      const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, ethers.randomBytes(32));
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      });
+      const otherWallet = factory.interface.parseLog(event as any)?.args[0];
+
+      await expect(
+        module.connect(proposer).propose(otherWallet, recipient.address, 1n, "0x", "")
+      ).to.be.revertedWithCustomError(module, "MissingRole");
+    });
+  });
+});
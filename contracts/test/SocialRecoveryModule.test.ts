@@ -425,6 +425,23 @@ describe("SocialRecoveryModule", function () {
       ).to.be.revertedWithCustomError(module, "NotEnoughApprovals");
     });
 
+    it("should recover to fewer owners than the current threshold", async function () {
+      const singleOwnerHash = await module.connect(guardian1).initiateRecovery.staticCall(
+        await wallet.getAddress(),
+        [guardian3.address],
+        1
+      );
+      await module.connect(guardian1).initiateRecovery(await wallet.getAddress(), [guardian3.address], 1);
+      await module.connect(guardian1).approveRecovery(await wallet.getAddress(), singleOwnerHash);
+      await module.connect(guardian2).approveRecovery(await wallet.getAddress(), singleOwnerHash);
+
+      await time.increase(RECOVERY_PERIOD);
+      await module.connect(guardian3).executeRecovery(await wallet.getAddress(), singleOwnerHash);
+
+      expect(await wallet.getOwners()).to.deep.equal([guardian3.address]);
+      expect(await wallet.threshold()).to.equal(1);
+    });
+
     it("should remove recovery from pending list after execution", async function () {
       await time.increase(RECOVERY_PERIOD);
       await module.connect(guardian3).executeRecovery(await wallet.getAddress(), recoveryHash);
@@ -483,6 +500,140 @@ describe("SocialRecoveryModule", function () {
     });
   });
 
+  describe("vetoRecovery", function () {
+    let recoveryHash: string;
+
+    beforeEach(async function () {
+      await setupRecoveryViaMultisig([guardian1.address, guardian2.address], 2, RECOVERY_PERIOD);
+
+      const walletAddress = await wallet.getAddress();
+      recoveryHash = await module.getRecoveryHashForCurrentNonce(walletAddress, [guardian1.address], 1);
+      await module.connect(guardian1).initiateRecovery(walletAddress, [guardian1.address], 1);
+    });
+
+    it("should let the owners veto a recovery through a wallet transaction", async function () {
+      const walletAddress = await wallet.getAddress();
+      const vetoData = module.interface.encodeFunctionData("vetoRecovery", [walletAddress, recoveryHash]);
+
+      await executeMultisig(await module.getAddress(), 0n, vetoData);
+
+      const vetoes = await module.queryFilter(module.filters.RecoveryVetoed(walletAddress, recoveryHash));
+      expect(vetoes).to.have.length(1);
+
+      expect((await module.getRecovery(walletAddress, recoveryHash)).executionTime).to.equal(0);
+      expect(await module.hasPendingRecoveries(walletAddress)).to.be.false;
+    });
+
+    it("should reject a veto from a single owner", async function () {
+      await expect(
+        module.connect(owner1).vetoRecovery(await wallet.getAddress(), recoveryHash)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject a veto of an unknown recovery", async function () {
+      const vetoData = module.interface.encodeFunctionData("vetoRecovery", [
+        await wallet.getAddress(),
+        ethers.ZeroHash
+      ]);
+      await expect(executeMultisig(await module.getAddress(), 0n, vetoData)).to.be.reverted;
+    });
+  });
+
+  describe("guardian rotation", function () {
+    /**
+     * Helper to propose a guardian rotation through multisig
+     */
+    async function proposeRotationViaMultisig(guardians: string[], threshold: number) {
+      const data = module.interface.encodeFunctionData("proposeGuardianRotation", [
+        await wallet.getAddress(),
+        guardians,
+        threshold
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+    }
+
+    beforeEach(async function () {
+      await setupRecoveryViaMultisig([guardian1.address, guardian2.address], 2, RECOVERY_PERIOD);
+    });
+
+    it("should reject a rotation proposed by a single owner", async function () {
+      await expect(
+        module.connect(owner1).proposeGuardianRotation(await wallet.getAddress(), [guardian3.address], 1)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should apply the new guardians only after the rotation delay", async function () {
+      const walletAddress = await wallet.getAddress();
+      await proposeRotationViaMultisig([guardian2.address, guardian3.address], 1);
+
+      const rotation = await module.getGuardianRotation(walletAddress);
+      expect(rotation.guardians).to.deep.equal([guardian2.address, guardian3.address]);
+      await expect(module.executeGuardianRotation(walletAddress))
+        .to.be.revertedWithCustomError(module, "GuardianRotationDelayNotElapsed");
+
+      await time.increase(Number(await module.GUARDIAN_ROTATION_DELAY()));
+      await expect(module.connect(nonOwner).executeGuardianRotation(walletAddress))
+        .to.emit(module, "GuardianRotationExecuted")
+        .withArgs(walletAddress, [guardian2.address, guardian3.address], 1);
+
+      const config = await module.getRecoveryConfig(walletAddress);
+      expect(config.guardians).to.deep.equal([guardian2.address, guardian3.address]);
+      expect(config.threshold).to.equal(1);
+      expect(config.recoveryPeriod).to.equal(RECOVERY_PERIOD);
+      expect((await module.getGuardianRotation(walletAddress)).executionTime).to.equal(0);
+    });
+
+    it("should allow rotation while a recovery is pending and drop removed guardians' approvals", async function () {
+      const walletAddress = await wallet.getAddress();
+      const recoveryHash = await module.getRecoveryHashForCurrentNonce(walletAddress, [guardian1.address], 1);
+      await module.connect(guardian1).initiateRecovery(walletAddress, [guardian1.address], 1);
+      await module.connect(guardian1).approveRecovery(walletAddress, recoveryHash);
+      await module.connect(guardian2).approveRecovery(walletAddress, recoveryHash);
+
+      await proposeRotationViaMultisig([guardian2.address, guardian3.address], 2);
+      await time.increase(Number(await module.GUARDIAN_ROTATION_DELAY()));
+      await module.executeGuardianRotation(walletAddress);
+
+      const recovery = await module.getRecovery(walletAddress, recoveryHash);
+      expect(recovery.approvalCount).to.equal(1);
+      expect(await module.recoveryApprovals(walletAddress, recoveryHash, guardian1.address)).to.be.false;
+      await expect(module.executeRecovery(walletAddress, recoveryHash))
+        .to.be.revertedWithCustomError(module, "NotEnoughApprovals");
+    });
+
+    it("should let the owners cancel a pending rotation", async function () {
+      const walletAddress = await wallet.getAddress();
+      await proposeRotationViaMultisig([guardian3.address], 1);
+
+      const cancelData = module.interface.encodeFunctionData("cancelGuardianRotation", [walletAddress]);
+      await executeMultisig(await module.getAddress(), 0n, cancelData);
+
+      expect((await module.getGuardianRotation(walletAddress)).executionTime).to.equal(0);
+
+      await expect(module.executeGuardianRotation(walletAddress))
+        .to.be.revertedWithCustomError(module, "NoGuardianRotationPending");
+    });
+
+    it("should drop a pending rotation when a recovery executes", async function () {
+      const walletAddress = await wallet.getAddress();
+      const recoveryHash = await module.getRecoveryHashForCurrentNonce(walletAddress, [guardian1.address], 1);
+      await module.connect(guardian1).initiateRecovery(walletAddress, [guardian1.address], 1);
+      await module.connect(guardian1).approveRecovery(walletAddress, recoveryHash);
+      await module.connect(guardian2).approveRecovery(walletAddress, recoveryHash);
+      await proposeRotationViaMultisig([guardian3.address], 1);
+
+      await time.increase(RECOVERY_PERIOD + 1);
+      await module.executeRecovery(walletAddress, recoveryHash);
+
+      expect((await module.getGuardianRotation(walletAddress)).executionTime).to.equal(0);
+    });
+
+    it("should validate the new guardian set", async function () {
+      await expect(proposeRotationViaMultisig([guardian3.address, guardian3.address], 1)).to.be.reverted;
+      await expect(proposeRotationViaMultisig([guardian3.address], 2)).to.be.reverted;
+    });
+  });
+
   describe("isGuardian", function () {
     beforeEach(async function () {
       const guardians = [guardian1.address, guardian2.address];
@@ -0,0 +1,305 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultisigWallet, ProxyFactory, VestingModule, MockERC20 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("VestingModule", function () {
+  let implementation: MultisigWallet;
+  let factory: ProxyFactory;
+  let wallet: MultisigWallet;
+  let module: VestingModule;
+  let owner1: SignerWithAddress;
+  let owner2: SignerWithAddress;
+  let owner3: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+  let other: SignerWithAddress;
+
+  const THRESHOLD = 2;
+  const YEAR = 365 * 24 * 60 * 60;
+  const AMOUNT = ethers.parseEther("4");
+
+  beforeEach(async function () {
+    [owner1, owner2, owner3, beneficiary, other] = await ethers.getSigners();
+
+    // Deploy implementation
+    const MultisigWallet = await ethers.getContractFactory("MultisigWallet");
+    implementation = await MultisigWallet.deploy();
+    await implementation.waitForDeployment();
+
+    // Deploy factory
+    const ProxyFactory = await ethers.getContractFactory("ProxyFactory");
+    factory = await ProxyFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+
+    // Create wallet through factory
+    const owners = [owner1.address, owner2.address, owner3.address];
+    const salt = ethers.randomBytes(32);
+    const tx = await factory.connect(owner1).createWallet(owners, THRESHOLD, salt);
+    const receipt = await tx.wait();
+
+    const event = receipt?.logs.find(
+      (log) => {
+        try {
+          return factory.interface.parseLog(log as any)?.name === "WalletCreated";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const parsedEvent = factory.interface.parseLog(event as any);
+    const walletAddress = parsedEvent?.args[0];
+    wallet = MultisigWallet.attach(walletAddress) as MultisigWallet;
+
+    // Deploy module
+    const VestingModule = await ethers.getContractFactory("VestingModule");
+    module = await VestingModule.deploy();
+    await module.waitForDeployment();
+
+    // Enable module (requires multisig)
+    await executeMultisig(
+      await wallet.getAddress(),
+      0n,
+      wallet.interface.encodeFunctionData("enableModule", [await module.getAddress()])
+    );
+
+    // Fund wallet
+    await owner1.sendTransaction({ to: walletAddress, value: ethers.parseEther("10") });
+  });
+
+  /**
+   * Helper to execute a transaction through multisig
+   */
+  async function executeMultisig(to: string, value: bigint, data: string) {
+    const proposeTx = await wallet.connect(owner1).proposeTransaction(to, value, data);
+    const proposeReceipt = await proposeTx.wait();
+    const proposeEvent = proposeReceipt?.logs.find(
+      (log) => {
+        try {
+          return wallet.interface.parseLog(log as any)?.name === "TransactionProposed";
+        } catch {
+          return false;
+        }
+      }
+    );
+    const proposeParsed = wallet.interface.parseLog(proposeEvent as any);
+    const txHash = proposeParsed?.args[0];
+
+    await wallet.connect(owner1).approveTransaction(txHash);
+    await wallet.connect(owner2).approveTransaction(txHash);
+    await wallet.connect(owner3).executeTransaction(txHash);
+  }
+
+  /**
+   * Helper to create a grant through multisig (H-2 fix)
+   * @returns ID of the new grant
+   */
+  async function createVestingViaMultisig(
+    token: string,
+    amount: bigint,
+    start: number,
+    cliffDuration: number,
+    duration: number
+  ): Promise<string> {
+    const walletAddress = await wallet.getAddress();
+    const data = module.interface.encodeFunctionData("createVesting", [
+      walletAddress,
+      beneficiary.address,
+      token,
+      amount,
+      start,
+      cliffDuration,
+      duration
+    ]);
+    await executeMultisig(await module.getAddress(), 0n, data);
+
+    const events = await module.queryFilter(module.filters.VestingCreated(walletAddress));
+    return events[events.length - 1].args.grantId;
+  }
+
+  describe("createVesting", function () {
+    it("should create a grant via multisig", async function () {
+      const walletAddress = await wallet.getAddress();
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, 0, 0, YEAR);
+
+      const grant = await module.getGrant(walletAddress, grantId);
+      expect(grant.beneficiary).to.equal(beneficiary.address);
+      expect(grant.token).to.equal(ethers.ZeroAddress);
+      expect(grant.totalAmount).to.equal(AMOUNT);
+      expect(grant.duration).to.equal(YEAR);
+      expect(grant.start).to.be.greaterThan(0);
+      expect([...(await module.getGrantIds(walletAddress))]).to.deep.equal([grantId]);
+    });
+
+    it("should reject direct calls from owners", async function () {
+      const walletAddress = await wallet.getAddress();
+
+      await expect(
+        module.connect(owner1).createVesting(walletAddress, beneficiary.address, ethers.ZeroAddress, AMOUNT, 0, 0, YEAR)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject a cliff longer than the vesting duration", async function () {
+      const data = module.interface.encodeFunctionData("createVesting", [
+        await wallet.getAddress(),
+        beneficiary.address,
+        ethers.ZeroAddress,
+        AMOUNT,
+        0,
+        YEAR + 1,
+        YEAR
+      ]);
+
+      await expect(
+        executeMultisig(await module.getAddress(), 0n, data)
+      ).to.be.reverted;
+      expect(await module.getGrantIds(await wallet.getAddress())).to.have.length(0);
+    });
+  });
+
+  describe("claim", function () {
+    it("should vest linearly over the duration", async function () {
+      const walletAddress = await wallet.getAddress();
+      const start = (await time.latest()) + 100;
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, start, 0, YEAR);
+
+      expect(await module.getVestedAmount(walletAddress, grantId)).to.equal(0);
+
+      await time.increaseTo(start + YEAR / 4);
+      expect(await module.getVestedAmount(walletAddress, grantId)).to.equal(AMOUNT / 4n);
+
+      await time.increaseTo(start + YEAR);
+      expect(await module.getVestedAmount(walletAddress, grantId)).to.equal(AMOUNT);
+    });
+
+    it("should release nothing before the cliff", async function () {
+      const walletAddress = await wallet.getAddress();
+      const start = (await time.latest()) + 100;
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, start, YEAR / 4, YEAR);
+
+      // The claim is mined one second later, still before the cliff
+      await time.increaseTo(start + YEAR / 4 - 2);
+      expect(await module.getClaimableAmount(walletAddress, grantId)).to.equal(0);
+      await expect(
+        module.connect(beneficiary).claim(walletAddress, grantId)
+      ).to.be.revertedWithCustomError(module, "NothingToClaim");
+
+      // The linear portion accrued during the cliff unlocks all at once
+      await time.increaseTo(start + YEAR / 4);
+      expect(await module.getClaimableAmount(walletAddress, grantId)).to.equal(AMOUNT / 4n);
+    });
+
+    it("should pay the beneficiary what has vested", async function () {
+      const walletAddress = await wallet.getAddress();
+      const start = (await time.latest()) + 100;
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, start, 0, YEAR);
+      await time.setNextBlockTimestamp(start + YEAR / 2);
+
+      await expect(module.connect(beneficiary).claim(walletAddress, grantId))
+        .to.emit(module, "VestingClaimed")
+        .withArgs(walletAddress, grantId, beneficiary.address, ethers.ZeroAddress, AMOUNT / 2n);
+
+      const grant = await module.getGrant(walletAddress, grantId);
+      expect(grant.claimed).to.equal(AMOUNT / 2n);
+      expect(await ethers.provider.getBalance(walletAddress)).to.equal(ethers.parseEther("8"));
+    });
+
+    it("should remove the grant once everything is claimed", async function () {
+      const walletAddress = await wallet.getAddress();
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, 0, 0, YEAR);
+
+      await time.increase(YEAR);
+      await module.connect(beneficiary).claim(walletAddress, grantId);
+
+      expect(await module.getGrantIds(walletAddress)).to.have.length(0);
+      await expect(
+        module.connect(beneficiary).claim(walletAddress, grantId)
+      ).to.be.revertedWithCustomError(module, "GrantNotFound");
+    });
+
+    it("should reject claims from anyone but the beneficiary", async function () {
+      const walletAddress = await wallet.getAddress();
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, 0, 0, YEAR);
+      await time.increase(YEAR);
+
+      await expect(
+        module.connect(owner1).claim(walletAddress, grantId)
+      ).to.be.revertedWithCustomError(module, "NotBeneficiary");
+      await expect(
+        module.connect(other).claim(walletAddress, grantId)
+      ).to.be.revertedWithCustomError(module, "NotBeneficiary");
+    });
+
+    it("should pay ERC-20 grants from the wallet's token balance", async function () {
+      const walletAddress = await wallet.getAddress();
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      const token: MockERC20 = await MockERC20.deploy();
+      await token.mint(walletAddress, 1000n);
+
+      const grantId = await createVestingViaMultisig(await token.getAddress(), 1000n, 0, 0, YEAR);
+      await time.increase(YEAR);
+      await module.connect(beneficiary).claim(walletAddress, grantId);
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(1000n);
+      expect(await token.balanceOf(walletAddress)).to.equal(0);
+    });
+
+    it("should revert when the wallet cannot cover the claim", async function () {
+      const walletAddress = await wallet.getAddress();
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, ethers.parseEther("100"), 0, 0, YEAR);
+      await time.increase(YEAR);
+
+      await expect(
+        module.connect(beneficiary).claim(walletAddress, grantId)
+      ).to.be.revertedWithCustomError(module, "ClaimFailed");
+      expect((await module.getGrant(walletAddress, grantId)).claimed).to.equal(0);
+    });
+  });
+
+  describe("revokeVesting", function () {
+    it("should keep vested amounts claimable and drop the rest", async function () {
+      const walletAddress = await wallet.getAddress();
+      const start = (await time.latest()) + 100;
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, start, 0, YEAR);
+
+      await time.setNextBlockTimestamp(start + YEAR / 4);
+      await executeMultisig(
+        await module.getAddress(),
+        0n,
+        module.interface.encodeFunctionData("revokeVesting", [walletAddress, grantId])
+      );
+
+      // Nothing more vests after revocation
+      await time.increase(YEAR);
+      const vested = await module.getVestedAmount(walletAddress, grantId);
+      const events = await module.queryFilter(module.filters.VestingRevoked(walletAddress, grantId));
+      expect(vested).to.be.greaterThanOrEqual(AMOUNT / 4n);
+      expect(vested + events[0].args.unvestedAmount).to.equal(AMOUNT);
+
+      await module.connect(beneficiary).claim(walletAddress, grantId);
+      expect(await module.getGrantIds(walletAddress)).to.have.length(0);
+    });
+
+    it("should remove fully claimed grants straight away", async function () {
+      const walletAddress = await wallet.getAddress();
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, 0, YEAR / 2, YEAR);
+
+      await executeMultisig(
+        await module.getAddress(),
+        0n,
+        module.interface.encodeFunctionData("revokeVesting", [walletAddress, grantId])
+      );
+
+      expect(await module.getGrantIds(walletAddress)).to.have.length(0);
+    });
+
+    it("should reject direct calls from owners", async function () {
+      const walletAddress = await wallet.getAddress();
+      const grantId = await createVestingViaMultisig(ethers.ZeroAddress, AMOUNT, 0, 0, YEAR);
+
+      await expect(
+        module.connect(owner1).revokeVesting(walletAddress, grantId)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+  });
+});
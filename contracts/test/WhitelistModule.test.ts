@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { MultisigWallet, ProxyFactory, WhitelistModule } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 describe("WhitelistModule", function () {
   let implementation: MultisigWallet;
@@ -299,6 +300,258 @@ describe("WhitelistModule", function () {
     });
   });
 
+  describe("function permissions", function () {
+    const EQUAL = 0;
+    const EQUAL_TO_WALLET = 1;
+    const LESS_OR_EQUAL = 2;
+    let token: any;
+    let tokenAddress: string;
+
+    /**
+     * Helper to allow a function on a whitelisted address through multisig
+     */
+    async function setAllowedSelectorViaMultisig(
+      addr: string,
+      selector: string,
+      constraints: { index: number; condition: number; value: string }[] = []
+    ) {
+      const data = module.interface.encodeFunctionData("setAllowedSelector", [
+        await wallet.getAddress(),
+        addr,
+        selector,
+        constraints
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+    }
+
+    async function executeTokenCall(functionName: string, args: unknown[]) {
+      return module.connect(owner1).executeToWhitelist(
+        await wallet.getAddress(),
+        tokenAddress,
+        0,
+        token.interface.encodeFunctionData(functionName, args)
+      );
+    }
+
+    beforeEach(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      token = await MockERC20.deploy();
+      tokenAddress = await token.getAddress();
+      await token.mint(await wallet.getAddress(), ethers.parseEther("1000"));
+      await addToWhitelistViaMultisig(tokenAddress, 0n);
+    });
+
+    it("should reject direct calls from a single owner", async function () {
+      await expect(
+        module.connect(owner1).setAllowedSelector(
+          await wallet.getAddress(),
+          tokenAddress,
+          token.interface.getFunction("transfer")!.selector,
+          []
+        )
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should only scope addresses on the whitelist", async function () {
+      const data = module.interface.encodeFunctionData("setAllowedSelector", [
+        await wallet.getAddress(),
+        nonWhitelistedAddr.address,
+        "0xa9059cbb",
+        []
+      ]);
+      await expect(executeMultisig(await module.getAddress(), 0n, data)).to.be.reverted;
+    });
+
+    it("should allow any function until a selector is allowed", async function () {
+      const approveData = token.interface.encodeFunctionData("approve", [nonOwner.address, 1n]);
+      expect(await module.isCallAllowed(await wallet.getAddress(), tokenAddress, approveData)).to.be.true;
+
+      await setAllowedSelectorViaMultisig(tokenAddress, token.interface.getFunction("transfer")!.selector);
+
+      expect(await module.selectorRestricted(await wallet.getAddress(), tokenAddress)).to.be.true;
+      expect(await module.isCallAllowed(await wallet.getAddress(), tokenAddress, approveData)).to.be.false;
+      await expect(executeTokenCall("approve", [nonOwner.address, 1n]))
+        .to.be.revertedWithCustomError(module, "SelectorNotAllowed");
+      await expect(
+        module.connect(owner1).executeToWhitelist(await wallet.getAddress(), tokenAddress, 0, "0x")
+      ).to.be.revertedWithCustomError(module, "SelectorNotAllowed");
+
+      await executeTokenCall("transfer", [whitelistedAddr.address, ethers.parseEther("1")]);
+      expect(await token.balanceOf(whitelistedAddr.address)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("should enforce equal and maximum parameter constraints", async function () {
+      await setAllowedSelectorViaMultisig(tokenAddress, token.interface.getFunction("approve")!.selector, [
+        { index: 0, condition: EQUAL, value: ethers.zeroPadValue(whitelistedAddr.address, 32) },
+        { index: 1, condition: LESS_OR_EQUAL, value: ethers.toBeHex(ethers.parseEther("100"), 32) },
+      ]);
+
+      await executeTokenCall("approve", [whitelistedAddr.address, ethers.parseEther("100")]);
+
+      await expect(executeTokenCall("approve", [nonOwner.address, 1n]))
+        .to.be.revertedWithCustomError(module, "ParamConstraintViolated");
+      await expect(executeTokenCall("approve", [whitelistedAddr.address, ethers.parseEther("100") + 1n]))
+        .to.be.revertedWithCustomError(module, "ParamConstraintViolated");
+    });
+
+    it("should require a parameter to be the wallet", async function () {
+      await token.mint(owner1.address, ethers.parseEther("10"));
+      await token.connect(owner1).approve(await wallet.getAddress(), ethers.parseEther("10"));
+      await setAllowedSelectorViaMultisig(tokenAddress, token.interface.getFunction("transferFrom")!.selector, [
+        { index: 1, condition: EQUAL_TO_WALLET, value: ethers.ZeroHash },
+      ]);
+
+      await expect(executeTokenCall("transferFrom", [owner1.address, nonOwner.address, 1n]))
+        .to.be.revertedWithCustomError(module, "ParamConstraintViolated");
+
+      await executeTokenCall("transferFrom", [owner1.address, await wallet.getAddress(), ethers.parseEther("10")]);
+      expect(await token.balanceOf(owner1.address)).to.equal(0n);
+    });
+
+    it("should keep an address scoped when its last selector is removed", async function () {
+      const selector = token.interface.getFunction("transfer")!.selector;
+      await setAllowedSelectorViaMultisig(tokenAddress, selector);
+
+      const data = module.interface.encodeFunctionData("removeAllowedSelector", [
+        await wallet.getAddress(),
+        tokenAddress,
+        selector
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+
+      expect(await module.getAllowedSelectors(await wallet.getAddress(), tokenAddress)).to.deep.equal([]);
+      await expect(executeTokenCall("transfer", [whitelistedAddr.address, 1n]))
+        .to.be.revertedWithCustomError(module, "SelectorNotAllowed");
+    });
+
+    it("should clear function permissions when the address is removed", async function () {
+      await setAllowedSelectorViaMultisig(tokenAddress, token.interface.getFunction("transfer")!.selector, [
+        { index: 0, condition: EQUAL_TO_WALLET, value: ethers.ZeroHash },
+      ]);
+
+      await removeFromWhitelistViaMultisig(tokenAddress);
+      await addToWhitelistViaMultisig(tokenAddress, 0n);
+
+      expect(await module.selectorRestricted(await wallet.getAddress(), tokenAddress)).to.be.false;
+      expect(await module.getAllowedSelectors(await wallet.getAddress(), tokenAddress)).to.deep.equal([]);
+      expect(
+        await module.getSelectorConstraints(await wallet.getAddress(), tokenAddress, token.interface.getFunction("transfer")!.selector)
+      ).to.deep.equal([]);
+    });
+  });
+
+  describe("enumeration", function () {
+    it("should list whitelisted addresses", async function () {
+      await batchAddToWhitelistViaMultisig([whitelistedAddr.address, nonWhitelistedAddr.address], [WHITELIST_LIMIT, 0n]);
+
+      expect(await module.getWhitelistedAddresses(await wallet.getAddress())).to.deep.equal([
+        whitelistedAddr.address,
+        nonWhitelistedAddr.address
+      ]);
+      expect(await module.getWhitelistCount(await wallet.getAddress())).to.equal(2);
+    });
+
+    it("should not duplicate an address that is added again", async function () {
+      await addToWhitelistViaMultisig(whitelistedAddr.address, WHITELIST_LIMIT);
+      await addToWhitelistViaMultisig(whitelistedAddr.address, 0n);
+
+      expect(await module.getWhitelistedAddresses(await wallet.getAddress())).to.deep.equal([whitelistedAddr.address]);
+    });
+
+    it("should drop removed addresses from the list", async function () {
+      await batchAddToWhitelistViaMultisig(
+        [whitelistedAddr.address, nonWhitelistedAddr.address, nonOwner.address],
+        [0n, 0n, 0n]
+      );
+      await removeFromWhitelistViaMultisig(whitelistedAddr.address);
+
+      expect(await module.getWhitelistedAddresses(await wallet.getAddress())).to.deep.equal([
+        nonOwner.address,
+        nonWhitelistedAddr.address
+      ]);
+
+      await removeFromWhitelistViaMultisig(nonOwner.address);
+      await removeFromWhitelistViaMultisig(nonOwner.address); // Removing again is a no-op
+      expect(await module.getWhitelistedAddresses(await wallet.getAddress())).to.deep.equal([nonWhitelistedAddr.address]);
+    });
+  });
+
+  describe("period limits", function () {
+    const PERIOD = 30 * 24 * 60 * 60;
+    const PERIOD_LIMIT = ethers.parseEther("6.0");
+
+    /**
+     * Helper to set a cumulative limit through multisig
+     */
+    async function setPeriodLimitViaMultisig(addr: string, limit: bigint, period: number) {
+      const data = module.interface.encodeFunctionData("setPeriodLimit", [
+        await wallet.getAddress(),
+        addr,
+        limit,
+        period
+      ]);
+      await executeMultisig(await module.getAddress(), 0n, data);
+    }
+
+    beforeEach(async function () {
+      await addToWhitelistViaMultisig(whitelistedAddr.address, WHITELIST_LIMIT);
+    });
+
+    it("should reject direct calls from a single owner", async function () {
+      await expect(
+        module.connect(owner1).setPeriodLimit(await wallet.getAddress(), whitelistedAddr.address, PERIOD_LIMIT, PERIOD)
+      ).to.be.revertedWithCustomError(module, "MustBeCalledByWallet");
+    });
+
+    it("should reject periods outside the allowed range", async function () {
+      await expect(setPeriodLimitViaMultisig(whitelistedAddr.address, PERIOD_LIMIT, 60 * 60 - 1)).to.be.reverted;
+      await expect(setPeriodLimitViaMultisig(whitelistedAddr.address, PERIOD_LIMIT, 366 * 24 * 60 * 60)).to.be.reverted;
+    });
+
+    it("should only set limits for whitelisted addresses", async function () {
+      await expect(setPeriodLimitViaMultisig(nonWhitelistedAddr.address, PERIOD_LIMIT, PERIOD)).to.be.reverted;
+    });
+
+    it("should cap cumulative value per period", async function () {
+      await setPeriodLimitViaMultisig(whitelistedAddr.address, PERIOD_LIMIT, PERIOD);
+      const walletAddress = await wallet.getAddress();
+
+      await module.connect(owner1).executeToWhitelist(walletAddress, whitelistedAddr.address, ethers.parseEther("4.0"), "0x");
+      await expect(
+        module.connect(owner1).executeToWhitelist(walletAddress, whitelistedAddr.address, ethers.parseEther("3.0"), "0x")
+      ).to.be.revertedWithCustomError(module, "ExceedsPeriodLimit");
+      await module.connect(owner1).executeToWhitelist(walletAddress, whitelistedAddr.address, ethers.parseEther("2.0"), "0x");
+
+      const [limit, period, spent] = await module.getPeriodLimit(walletAddress, whitelistedAddr.address);
+      expect(limit).to.equal(PERIOD_LIMIT);
+      expect(period).to.equal(PERIOD);
+      expect(spent).to.equal(PERIOD_LIMIT);
+    });
+
+    it("should start a new period after the period ends", async function () {
+      await setPeriodLimitViaMultisig(whitelistedAddr.address, PERIOD_LIMIT, PERIOD);
+      const walletAddress = await wallet.getAddress();
+      await module.connect(owner1).executeToWhitelist(walletAddress, whitelistedAddr.address, ethers.parseEther("5.0"), "0x");
+
+      await time.increase(PERIOD + 1);
+
+      expect((await module.getPeriodLimit(walletAddress, whitelistedAddr.address)).spent).to.equal(0);
+      await module.connect(owner1).executeToWhitelist(walletAddress, whitelistedAddr.address, ethers.parseEther("5.0"), "0x");
+      expect((await module.getPeriodLimit(walletAddress, whitelistedAddr.address)).spent).to.equal(ethers.parseEther("5.0"));
+    });
+
+    it("should remove the cumulative limit with a zero limit or when the address is removed", async function () {
+      const walletAddress = await wallet.getAddress();
+      await setPeriodLimitViaMultisig(whitelistedAddr.address, PERIOD_LIMIT, PERIOD);
+      await setPeriodLimitViaMultisig(whitelistedAddr.address, 0n, 0);
+      expect((await module.getPeriodLimit(walletAddress, whitelistedAddr.address)).limit).to.equal(0);
+
+      await setPeriodLimitViaMultisig(whitelistedAddr.address, PERIOD_LIMIT, PERIOD);
+      await removeFromWhitelistViaMultisig(whitelistedAddr.address);
+      expect((await module.getPeriodLimit(walletAddress, whitelistedAddr.address)).limit).to.equal(0);
+    });
+  });
+
   describe("Edge Cases", function () {
     beforeEach(async function () {
       await addToWhitelistViaMultisig(whitelistedAddr.address, WHITELIST_LIMIT);
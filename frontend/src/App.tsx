@@ -8,6 +8,8 @@ import { CreateWallet } from './pages/CreateWallet';
 import { NewTransaction } from './pages/NewTransaction';
 import { TransactionHistory } from './pages/TransactionHistory';
 import { LookupTransaction } from './pages/LookupTransaction';
+import { RecurringPayments } from './pages/RecurringPayments';
+import { Vesting } from './pages/Vesting';
 import { DocsIndex } from './pages/docs/DocsIndex';
 import { GettingStarted } from './pages/docs/GettingStarted';
 import { MultisigWallets } from './pages/docs/MultisigWallets';
@@ -50,6 +52,8 @@ function App() {
             <Route path="/wallet/:address/transaction/new" element={<NewTransaction />} />
             <Route path="/wallet/:address/history" element={<TransactionHistory />} />
             <Route path="/wallet/:address/lookup" element={<LookupTransaction />} />
+            <Route path="/wallet/:address/recurring" element={<RecurringPayments />} />
+            <Route path="/wallet/:address/vesting" element={<Vesting />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </Layout>
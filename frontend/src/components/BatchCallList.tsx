@@ -0,0 +1,45 @@
+import * as quais from 'quais';
+import type { DecodedSubCall } from '../utils/transactionDecoder';
+
+interface BatchCallListProps {
+  subCalls: DecodedSubCall[];
+}
+
+function formatAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Lists the individual calls carried by a batch (multiSend) transaction
+ */
+export function BatchCallList({ subCalls }: BatchCallListProps) {
+  return (
+    <div className="bg-vault-dark-4 rounded p-4 mb-3 border border-dark-600">
+      <h4 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-2">
+        Calls ({subCalls.length})
+      </h4>
+      <ol className="space-y-2">
+        {subCalls.map((call, index) => (
+          <li key={index} className="flex flex-wrap items-center justify-between gap-4 text-base">
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="font-mono text-dark-600">#{index + 1}</span>
+              <span>{call.decoded.icon}</span>
+              <span className="text-dark-200 font-semibold">{call.decoded.description}</span>
+              {call.decoded.details && (
+                <span className="text-dark-400 truncate">{call.decoded.details}</span>
+              )}
+            </span>
+            <span className="font-mono text-primary-300 flex-shrink-0">
+              {formatAddress(call.to)}
+              {call.decoded.type !== 'transfer' && call.value !== '0' && (
+                <span className="text-dark-400 ml-2">
+                  {parseFloat(quais.formatQuai(call.value)).toFixed(4)} QUAI
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { transactionBuilderService } from '../services/TransactionBuilderService';
+
+export interface BatchCallInput {
+  to: string;
+  value: string;
+  data: string;
+}
+
+interface BatchComposerProps {
+  calls: BatchCallInput[];
+  onChange: (calls: BatchCallInput[]) => void;
+}
+
+const EMPTY_BATCH_CALL: BatchCallInput = { to: '', value: '', data: '0x' };
+
+/**
+ * Editor for the list of calls bundled into a single batch transaction.
+ * Supports pasting "address,amount" lines to build payroll-style batches.
+ */
+export function BatchComposer({ calls, onChange }: BatchComposerProps) {
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  const updateCall = (index: number, field: keyof BatchCallInput, fieldValue: string) => {
+    onChange(calls.map((call, i) => (i === index ? { ...call, [field]: fieldValue } : call)));
+  };
+
+  const addCall = () => {
+    onChange([...calls, { ...EMPTY_BATCH_CALL }]);
+  };
+
+  const removeCall = (index: number) => {
+    const remaining = calls.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : [{ ...EMPTY_BATCH_CALL }]);
+  };
+
+  const handleImport = () => {
+    const imported = importText
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const [to = '', value = ''] = line.split(/[,;\t]/).map(part => part.trim());
+        return { to, value, data: '0x' };
+      });
+
+    if (imported.length === 0) {
+      return;
+    }
+
+    // Drop the untouched placeholder row so imports don't leave an empty call behind
+    const existing = calls.filter(call => call.to.trim() || call.value.trim() || (call.data && call.data !== '0x'));
+    onChange([...existing, ...imported]);
+    setImportText('');
+    setShowImport(false);
+  };
+
+  const total = calls.reduce((sum, call) => {
+    try {
+      return sum + transactionBuilderService.parseValue(call.value || '0');
+    } catch {
+      return sum;
+    }
+  }, 0n);
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <span className="block text-base font-mono text-dark-500 uppercase tracking-wider">
+          Calls ({calls.length})
+        </span>
+        <button
+          type="button"
+          onClick={() => setShowImport(!showImport)}
+          className="text-base text-primary-400 hover:text-primary-300 font-semibold transition-colors"
+        >
+          {showImport ? 'Hide Import' : 'Import CSV'}
+        </button>
+      </div>
+
+      {showImport && (
+        <div className="mb-4 bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+          <label htmlFor="batch-import" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-2">
+            One transfer per line: address,amount
+          </label>
+          <textarea
+            id="batch-import"
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder={'0x...,1.5\n0x...,2'}
+            rows={4}
+            className="input-field w-full font-mono text-base"
+          />
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!importText.trim()}
+            className="btn-secondary mt-3"
+          >
+            Add Transfers
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {calls.map((call, index) => (
+          <div key={index} className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-mono text-dark-500">#{index + 1}</span>
+              <button
+                type="button"
+                onClick={() => removeCall(index)}
+                className="text-base text-dark-500 hover:text-primary-400 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={call.to}
+                onChange={(e) => updateCall(index, 'to', e.target.value)}
+                placeholder="Recipient 0x..."
+                className="input-field w-full md:col-span-2"
+              />
+              <input
+                type="text"
+                value={call.value}
+                onChange={(e) => updateCall(index, 'value', e.target.value)}
+                placeholder="Amount (QUAI)"
+                className="input-field w-full"
+              />
+            </div>
+            <input
+              type="text"
+              value={call.data}
+              onChange={(e) => updateCall(index, 'data', e.target.value)}
+              placeholder="Data 0x (optional)"
+              className="input-field w-full font-mono mt-3"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <button type="button" onClick={addCall} className="btn-secondary">
+          + Add Call
+        </button>
+        <span className="text-lg text-dark-200 font-semibold">
+          Total: {transactionBuilderService.formatValue(total)} <span className="text-primary-400">QUAI</span>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as quais from 'quais';
 import { multisigService } from '../services/MultisigService';
 import { transactionBuilderService } from '../services/TransactionBuilderService';
+import { LIMIT_PERIOD_PRESETS } from '../services/modules/DailyLimitModuleService';
 import { notificationManager } from './NotificationContainer';
 import { Modal } from './Modal';
 
@@ -13,6 +15,10 @@ interface DailyLimitConfigurationProps {
 export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitConfigurationProps) {
   const queryClient = useQueryClient();
   const [newLimit, setNewLimit] = useState('');
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [tokenLimit, setTokenLimit] = useState('');
+  const [newPeriod, setNewPeriod] = useState<number | null>(null);
+  const [newRolling, setNewRolling] = useState<boolean | null>(null);
   const [errors, setErrors] = useState<string[]>([]);
 
   // Query daily limit configuration
@@ -36,7 +42,7 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
   });
 
   // Query time until reset
-  const { data: timeUntilReset } = useQuery({
+  const { data: timeUntilReset, dataUpdatedAt: timeUntilResetFetchedAt } = useQuery({
     queryKey: ['timeUntilReset', walletAddress],
     queryFn: async () => {
       return await multisigService.getTimeUntilReset(walletAddress);
@@ -45,6 +51,36 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
     refetchInterval: 60000, // Refetch every minute
   });
 
+  // Query limit period (shared by the QUAI and token limits)
+  const { data: limitPeriod } = useQuery({
+    queryKey: ['limitPeriod', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getLimitPeriod(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000,
+  });
+
+  // Query spends still inside the rolling window
+  const { data: rollingSpends } = useQuery({
+    queryKey: ['rollingSpends', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getRollingSpends(walletAddress);
+    },
+    enabled: !!walletAddress && !!limitPeriod?.rolling,
+    refetchInterval: 30000,
+  });
+
+  // Query ERC-20 token limits
+  const { data: tokenLimits } = useQuery({
+    queryKey: ['tokenDailyLimits', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getTokenDailyLimits(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000,
+  });
+
   // Propose set daily limit mutation (now creates a multisig proposal)
   const proposeSetDailyLimit = useMutation({
     mutationFn: async (limit: bigint) => {
@@ -103,6 +139,69 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
     },
   });
 
+  // Propose set token limit mutation (0 removes the token)
+  const proposeSetTokenDailyLimit = useMutation({
+    mutationFn: async ({ token, limit }: { token: string; limit: bigint }) => {
+      return await multisigService.proposeSetTokenDailyLimit(walletAddress, token, limit);
+    },
+    onSuccess: (_txHash, { limit }) => {
+      notificationManager.add({
+        message: limit === 0n
+          ? 'Proposal created to remove token limit. Requires multisig approval.'
+          : 'Proposal created to update token limit. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setTokenAddress('');
+      setTokenLimit('');
+      setErrors([]);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  // Propose reset token limit mutation
+  const proposeResetTokenDailyLimit = useMutation({
+    mutationFn: async (token: string) => {
+      return await multisigService.proposeResetTokenDailyLimit(walletAddress, token);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to reset token spent amount. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  // Propose limit period mutation (creates a multisig proposal)
+  const proposeSetLimitPeriod = useMutation({
+    mutationFn: async ({ period, rolling }: { period: number; rolling: boolean }) => {
+      return await multisigService.proposeSetLimitPeriod(walletAddress, period, rolling);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to change the limit period. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setNewPeriod(null);
+      setNewRolling(null);
+      setErrors([]);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const selectedPeriod = newPeriod ?? limitPeriod?.period ?? LIMIT_PERIOD_PRESETS[1].seconds;
+  const selectedRolling = newRolling ?? limitPeriod?.rolling ?? false;
+  const periodChanged = !!limitPeriod && (selectedPeriod !== limitPeriod.period || selectedRolling !== limitPeriod.rolling);
+
   const validateForm = (): boolean => {
     const newErrors: string[] = [];
 
@@ -132,6 +231,28 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
     }
   };
 
+  const handleSetTokenLimit = async () => {
+    const token = tokenAddress.trim();
+    if (!token || !quais.isAddress(token)) {
+      setErrors(['Enter a valid token address']);
+      return;
+    }
+
+    try {
+      // Use known decimals for configured tokens, otherwise read them from the token
+      const existing = tokenLimits?.find((entry) => entry.token.toLowerCase() === token.toLowerCase());
+      const { decimals } = existing ?? await multisigService.getTokenMetadata(token);
+      const parsedLimit = quais.parseUnits(tokenLimit.trim(), decimals);
+      if (parsedLimit <= 0n) {
+        setErrors(['Token limit must be greater than zero (use Remove to delete a limit)']);
+        return;
+      }
+      await proposeSetTokenDailyLimit.mutateAsync({ token, limit: parsedLimit });
+    } catch (err: any) {
+      setErrors([err.message || 'Invalid token limit']);
+    }
+  };
+
   const handleReset = async () => {
     if (!confirm('Are you sure you want to propose resetting the daily limit? This will create a proposal that requires multisig approval.')) {
       return;
@@ -148,11 +269,14 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
     const secs = Number(seconds);
     if (secs === 0) return 'Reset';
 
-    const hours = Math.floor(secs / 3600);
+    const days = Math.floor(secs / 86400);
+    const hours = Math.floor((secs % 86400) / 3600);
     const minutes = Math.floor((secs % 3600) / 60);
     const remainingSecs = secs % 60;
 
-    if (hours > 0) {
+    if (days > 0) {
+      return `${days}d ${hours}h`;
+    } else if (hours > 0) {
       return `${hours}h ${minutes}m`;
     } else if (minutes > 0) {
       return `${minutes}m ${remainingSecs}s`;
@@ -161,6 +285,19 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
     }
   };
 
+  const formatPeriod = (seconds: number): string => {
+    const preset = LIMIT_PERIOD_PRESETS.find((option) => option.seconds === seconds);
+    if (preset) return preset.label;
+    return seconds % 86400 === 0 ? `Every ${seconds / 86400} days` : `Every ${Math.round(seconds / 3600)} hours`;
+  };
+
+  const formatDate = (timestamp: number): string => new Date(timestamp * 1000).toLocaleString();
+
+  // When the pending capacity comes back, as a unix timestamp (relative to when it was fetched)
+  const capacityReturnsAt = timeUntilReset !== undefined && timeUntilReset > 0n
+    ? Math.floor(timeUntilResetFetchedAt / 1000) + Number(timeUntilReset)
+    : null;
+
   return (
     <Modal
       isOpen={true}
@@ -223,7 +360,15 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
               {dailyLimit && dailyLimit.limit > 0n && (
                 <>
                   <div className="flex justify-between items-center">
-                    <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Spent Today:</span>
+                    <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Period:</span>
+                    <span className="text-dark-200 font-semibold">
+                      {limitPeriod ? `${formatPeriod(limitPeriod.period)} (${limitPeriod.rolling ? 'rolling' : 'fixed'})` : 'Loading...'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                      {limitPeriod?.rolling ? 'Spent In Window:' : 'Spent This Period:'}
+                    </span>
                     <span className="text-dark-200 font-semibold">
                       {transactionBuilderService.formatValue(dailyLimit.spent)} QUAI
                     </span>
@@ -238,12 +383,34 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
                   </div>
                   {timeUntilReset !== undefined && (
                     <div className="flex justify-between items-center">
-                      <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Resets In:</span>
+                      <span className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                        {limitPeriod?.rolling ? 'Next Capacity In:' : 'Resets In:'}
+                      </span>
                       <span className="text-dark-200 font-semibold">
                         {formatTime(timeUntilReset)}
                       </span>
                     </div>
                   )}
+                  {limitPeriod && !limitPeriod.rolling && capacityReturnsAt !== null && (
+                    <p className="text-sm font-mono text-dark-600">
+                      The full limit comes back at {formatDate(capacityReturnsAt)}, when the next period starts.
+                    </p>
+                  )}
+                  {limitPeriod?.rolling && rollingSpends && rollingSpends.length > 0 && (
+                    <div>
+                      <p className="text-sm font-mono text-dark-600 mb-2">
+                        Each spend counts for one period after it was made, then its amount becomes available again:
+                      </p>
+                      <ul className="space-y-1">
+                        {rollingSpends.map((spend, index) => (
+                          <li key={index} className="flex justify-between text-sm font-mono text-dark-400">
+                            <span>{transactionBuilderService.formatValue(spend.amount)} QUAI</span>
+                            <span>returns {formatDate(spend.timestamp + limitPeriod.period)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -269,7 +436,7 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
                 className="input-field w-full"
               />
               <p className="mt-2 text-sm font-mono text-dark-600">
-                Enter the maximum amount that can be spent per day (e.g., 10 for 10 QUAI). Set to <strong>0</strong> to disable the daily limit.
+                Enter the maximum amount that can be spent per limit period (e.g., 10 for 10 QUAI). Set to <strong>0</strong> to disable the daily limit.
               </p>
             </div>
 
@@ -323,7 +490,7 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
           <div>
             <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Propose Reset Daily Limit</h3>
             <p className="text-sm text-dark-500 mb-4">
-              Propose resetting the spent amount to 0. The limit will automatically reset after 24 hours. This requires multisig approval.
+              Propose resetting the spent amount to 0 and starting a new period now. Otherwise capacity comes back as described above. This requires multisig approval.
             </p>
             <button
               onClick={handleReset}
@@ -347,6 +514,123 @@ export function DailyLimitConfiguration({ walletAddress, onUpdate }: DailyLimitC
           </div>
         )}
 
+        {/* Limit Period */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Propose Limit Period</h3>
+          <p className="text-sm text-dark-500 mb-4">
+            Fixed periods restore the full limit at the end of each period. A rolling window counts every spend from the last period, so each amount comes back exactly one period after it was spent. Applies to QUAI and token limits, and changing it starts every limit afresh.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={selectedPeriod}
+              onChange={(e) => setNewPeriod(Number(e.target.value))}
+              className="input-field flex-1"
+            >
+              {LIMIT_PERIOD_PRESETS.map((option) => (
+                <option key={option.seconds} value={option.seconds}>{option.label}</option>
+              ))}
+              {!LIMIT_PERIOD_PRESETS.some((option) => option.seconds === selectedPeriod) && (
+                <option value={selectedPeriod}>{formatPeriod(selectedPeriod)}</option>
+              )}
+            </select>
+            <label className="flex items-center gap-2 text-base text-dark-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedRolling}
+                onChange={(e) => setNewRolling(e.target.checked)}
+              />
+              Rolling window
+            </label>
+            <button
+              onClick={() => proposeSetLimitPeriod.mutate({ period: selectedPeriod, rolling: selectedRolling })}
+              disabled={!periodChanged || proposeSetLimitPeriod.isPending}
+              className="btn-primary text-base px-4 py-2.5"
+            >
+              {proposeSetLimitPeriod.isPending ? 'Creating...' : 'Propose'}
+            </button>
+          </div>
+        </div>
+
+        {/* Token Limits */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Token Limits</h3>
+          <p className="text-sm text-dark-500 mb-4">
+            Each ERC-20 token has its own daily limit and spent amount, separate from the QUAI limit. All changes require multisig approval.
+          </p>
+          {tokenLimits && tokenLimits.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {tokenLimits.map((entry) => (
+                <div
+                  key={entry.token}
+                  className="flex items-center justify-between p-3 bg-vault-dark-4 rounded-md border border-dark-600"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-base text-dark-200 font-semibold">
+                      {entry.symbol}{' '}
+                      <span className="text-sm font-mono text-dark-600">{entry.token.slice(0, 6)}...{entry.token.slice(-4)}</span>
+                    </p>
+                    <p className="text-sm font-mono text-dark-500">
+                      Limit {quais.formatUnits(entry.limit, entry.decimals)} · Spent {quais.formatUnits(entry.spent, entry.decimals)} · Remaining{' '}
+                      <span className="text-primary-400">{quais.formatUnits(entry.remaining, entry.decimals)}</span>
+                      {entry.spent > 0n && entry.timeUntilReset > 0n && ` · Capacity back in ${formatTime(entry.timeUntilReset)}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => {
+                        setTokenAddress(entry.token);
+                        setTokenLimit(quais.formatUnits(entry.limit, entry.decimals));
+                      }}
+                      className="btn-secondary text-sm px-3 py-1.5"
+                    >
+                      Edit
+                    </button>
+                    {entry.spent > 0n && (
+                      <button
+                        onClick={() => proposeResetTokenDailyLimit.mutate(entry.token)}
+                        disabled={proposeResetTokenDailyLimit.isPending}
+                        className="btn-secondary text-sm px-3 py-1.5"
+                      >
+                        Reset
+                      </button>
+                    )}
+                    <button
+                      onClick={() => proposeSetTokenDailyLimit.mutate({ token: entry.token, limit: 0n })}
+                      disabled={proposeSetTokenDailyLimit.isPending}
+                      className="btn-primary text-sm px-3 py-1.5"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={tokenAddress}
+              onChange={(e) => setTokenAddress(e.target.value)}
+              placeholder="Token address 0x..."
+              className="input-field flex-1"
+            />
+            <input
+              type="text"
+              value={tokenLimit}
+              onChange={(e) => setTokenLimit(e.target.value)}
+              placeholder="Daily limit"
+              className="input-field w-40"
+            />
+            <button
+              onClick={handleSetTokenLimit}
+              disabled={proposeSetTokenDailyLimit.isPending}
+              className="btn-primary text-base px-4 py-2.5"
+            >
+              {proposeSetTokenDailyLimit.isPending ? 'Creating...' : 'Propose'}
+            </button>
+          </div>
+        </div>
+
         {/* Errors */}
         {errors.length > 0 && (
           <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { multisigService } from '../services/MultisigService';
+import { notificationManager } from './NotificationContainer';
+import { Modal } from './Modal';
+import { formatTimePeriod } from '../utils/blockTime';
+
+interface DelayModuleConfigurationProps {
+  walletAddress: string;
+  onUpdate: () => void;
+}
+
+export function DelayModuleConfiguration({ walletAddress, onUpdate }: DelayModuleConfigurationProps) {
+  const queryClient = useQueryClient();
+  const [newDelayHours, setNewDelayHours] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Query current cooldown
+  const { data: delay, isLoading } = useQuery({
+    queryKey: ['delay', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getDelay(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000, // Refetch every 30 seconds
+  });
+
+  // Propose set delay mutation (creates a multisig proposal)
+  const proposeSetDelay = useMutation({
+    mutationFn: async (delaySeconds: bigint) => {
+      return await multisigService.proposeSetDelay(walletAddress, delaySeconds);
+    },
+    onSuccess: (txHash) => {
+      const shortHash = `${txHash.slice(0, 10)}...${txHash.slice(-8)}`;
+      notificationManager.add({
+        message: `Proposal created to update the cooldown. Requires multisig approval.`,
+        type: 'success',
+      });
+
+      // Browser notification
+      if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification('Delay Proposal Created', {
+          body: `Proposal ${shortHash} requires multisig approval`,
+          icon: '/vite.svg',
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setNewDelayHours('');
+      setErrors([]);
+      onUpdate();
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const handleSetDelay = async () => {
+    const hours = parseFloat(newDelayHours.trim());
+    if (!newDelayHours.trim() || isNaN(hours) || hours <= 0) {
+      setErrors(['Cooldown must be a positive number of hours']);
+      return;
+    }
+
+    try {
+      await proposeSetDelay.mutateAsync(BigInt(Math.round(hours * 3600)));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to create proposal']);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onUpdate}
+      title="Delay Configuration"
+      size="lg"
+    >
+      <div className="space-y-6">
+        {/* How it works */}
+        <div className="bg-gradient-to-r from-blue-900/90 via-blue-800/90 to-blue-900/90 border-l-4 border-blue-600 rounded-md p-4">
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+            </svg>
+            <div>
+              <h4 className="text-base font-semibold text-blue-200 mb-1">Cooldown Before Execution</h4>
+              <p className="text-sm text-blue-200/90">
+                Approved transactions are queued and can only execute after the cooldown. Any single owner can veto a queued transaction before it executes. Changing the cooldown requires multisig approval and does not affect transactions already in the queue.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Enforcement */}
+        <div className="bg-gradient-to-r from-yellow-900/90 via-yellow-800/90 to-yellow-900/90 border-l-4 border-yellow-600 rounded-md p-4">
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+            </svg>
+            <div>
+              <h4 className="text-base font-semibold text-yellow-200 mb-1">Enforcing the Cooldown</h4>
+              <p className="text-sm text-yellow-200/90">
+                Set the Delay Module as the vault's transaction guard to block approved proposals from executing without the cooldown. While it is the guard, every proposal, including owner and guard changes, must be queued first and can only execute once its cooldown has elapsed. Other enabled modules (daily limit, whitelist, recovery and so on) are not delayed: they keep executing immediately within their own limits, but cannot change the cooldown.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Current Configuration */}
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="inline-block w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-sm text-dark-500">Loading...</p>
+          </div>
+        ) : (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Current Configuration</h3>
+            <div className="flex justify-between items-center">
+              <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Cooldown:</span>
+              <span className="text-dark-200 font-semibold">
+                {delay && delay > 0n ? formatTimePeriod(Number(delay) * 1000) : 'Not set'}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {/* Set New Delay */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">
+            {delay && delay > 0n ? 'Propose Cooldown Update' : 'Propose Cooldown'}
+          </h3>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="delayHours" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Cooldown (hours)
+              </label>
+              <input
+                id="delayHours"
+                type="text"
+                value={newDelayHours}
+                onChange={(e) => setNewDelayHours(e.target.value)}
+                placeholder={delay && delay > 0n ? String(Number(delay) / 3600) : '48'}
+                className="input-field w-full"
+              />
+              <p className="mt-2 text-sm font-mono text-dark-600">
+                How long approved transactions wait before they can execute (e.g., 48 for two days).
+              </p>
+            </div>
+
+            <button
+              onClick={handleSetDelay}
+              disabled={proposeSetDelay.isPending}
+              className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2"
+            >
+              {proposeSetDelay.isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : (
+                <>
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  {delay && delay > 0n ? 'Propose Update' : 'Propose Cooldown'}
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
+            <h4 className="text-base font-semibold text-primary-200 mb-2 flex items-center gap-2">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              Error
+            </h4>
+            <ul className="list-disc list-inside text-sm text-primary-200 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
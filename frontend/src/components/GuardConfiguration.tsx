@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import * as quais from 'quais';
+import { useMultisig } from '../hooks/useMultisig';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { notificationManager } from './NotificationContainer';
+import { Modal } from './Modal';
+
+interface GuardConfigurationProps {
+  walletAddress: string;
+  currentGuard: string;
+  onUpdate: () => void;
+}
+
+export function GuardConfiguration({ walletAddress, currentGuard, onUpdate }: GuardConfigurationProps) {
+  const { setGuardAsync, isSettingGuard } = useMultisig(walletAddress);
+  const [newGuard, setNewGuard] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const proposeGuard = async (guardAddress: string) => {
+    setErrors([]);
+    try {
+      await setGuardAsync({ walletAddress, guardAddress });
+      notificationManager.add({
+        message: guardAddress
+          ? 'Proposal created to change the guard. Requires multisig approval.'
+          : 'Proposal created to remove the guard. Requires multisig approval.',
+        type: 'success',
+      });
+      setNewGuard('');
+      onUpdate();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to create proposal']);
+    }
+  };
+
+  const handleSetGuard = async () => {
+    const trimmed = newGuard.trim();
+    if (!trimmed || !quais.isAddress(trimmed)) {
+      setErrors(['Enter a valid guard contract address']);
+      return;
+    }
+    await proposeGuard(trimmed);
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onUpdate}
+      title="Transaction Guard"
+      size="lg"
+    >
+      <div className="space-y-6">
+        {/* How it works */}
+        <div className="bg-gradient-to-r from-yellow-900/90 via-yellow-800/90 to-yellow-900/90 border-l-4 border-yellow-600 rounded-md p-4">
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+            </svg>
+            <div>
+              <h4 className="text-base font-semibold text-yellow-200 mb-1">Checks Every Execution</h4>
+              <p className="text-sm text-yellow-200/90">
+                A guard is consulted before and after every transaction the vault executes, including module transactions, and can block calls that violate its policy. Only set a guard contract you trust: a faulty guard can block execution. Changing the guard requires multisig approval.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Current Configuration */}
+        <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Current Configuration</h3>
+          <div className="flex justify-between items-center gap-4">
+            <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Guard:</span>
+            <span className="text-dark-200 font-semibold font-mono text-sm break-all text-right">
+              {currentGuard || 'None'}
+            </span>
+          </div>
+        </div>
+
+        {/* Set New Guard */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">
+            {currentGuard ? 'Propose Guard Change' : 'Propose Guard'}
+          </h3>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="guardAddress" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Guard Contract Address
+              </label>
+              <input
+                id="guardAddress"
+                type="text"
+                value={newGuard}
+                onChange={(e) => setNewGuard(e.target.value)}
+                placeholder="0x..."
+                className="input-field w-full"
+              />
+              {CONTRACT_ADDRESSES.DENYLIST_GUARD && (
+                <button
+                  type="button"
+                  onClick={() => setNewGuard(CONTRACT_ADDRESSES.DENYLIST_GUARD)}
+                  className="mt-2 text-sm text-primary-400 hover:text-primary-300 transition-colors font-semibold"
+                >
+                  Use Denylist Guard
+                </button>
+              )}
+              {CONTRACT_ADDRESSES.DELAY_MODULE && (
+                <button
+                  type="button"
+                  onClick={() => setNewGuard(CONTRACT_ADDRESSES.DELAY_MODULE)}
+                  className="mt-2 ml-4 text-sm text-primary-400 hover:text-primary-300 transition-colors font-semibold"
+                >
+                  Use Delay Module
+                </button>
+              )}
+            </div>
+
+            <button
+              onClick={handleSetGuard}
+              disabled={isSettingGuard}
+              className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2"
+            >
+              {isSettingGuard ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : (
+                <>
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  {currentGuard ? 'Propose Change' : 'Propose Guard'}
+                </>
+              )}
+            </button>
+
+            {currentGuard && (
+              <button
+                onClick={() => proposeGuard('')}
+                disabled={isSettingGuard}
+                className="btn-secondary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+                Propose Removing Guard
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
+            <h4 className="text-base font-semibold text-primary-200 mb-2 flex items-center gap-2">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              Error
+            </h4>
+            <ul className="list-disc list-inside text-sm text-primary-200 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,380 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { multisigService } from '../services/MultisigService';
+import { MIN_INACTIVITY_PERIOD_DAYS } from '../services/modules/InheritanceModuleService';
+import { notificationManager } from './NotificationContainer';
+import { Modal } from './Modal';
+import { InheritanceManagement } from './InheritanceManagement';
+import * as quais from 'quais';
+
+interface InheritanceConfigurationProps {
+  walletAddress: string;
+  onUpdate: () => void;
+}
+
+export function InheritanceConfiguration({ walletAddress, onUpdate }: InheritanceConfigurationProps) {
+  const queryClient = useQueryClient();
+  const [newBeneficiaries, setNewBeneficiaries] = useState<string[] | null>(null);
+  const [newThreshold, setNewThreshold] = useState<number | null>(null);
+  const [newInactivityPeriodDays, setNewInactivityPeriodDays] = useState<number | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showClaimManagement, setShowClaimManagement] = useState(false);
+
+  // Query inheritance configuration
+  const { data: inheritanceConfig, isLoading } = useQuery({
+    queryKey: ['inheritanceConfig', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getInheritanceConfig(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000, // Refetch every 30 seconds
+  });
+
+  const isConfigured = !!inheritanceConfig && inheritanceConfig.beneficiaries.length > 0;
+
+  // Query the last owner activity to show how long the vault has been idle
+  const { data: lastActivity } = useQuery({
+    queryKey: ['lastOwnerActivity', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getLastOwnerActivity(walletAddress);
+    },
+    enabled: !!walletAddress && isConfigured,
+    refetchInterval: 30000,
+  });
+
+  // Query pending claims so owners can see when beneficiaries have started one
+  const { data: pendingClaims } = useQuery({
+    queryKey: ['pendingClaims', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getPendingClaims(walletAddress);
+    },
+    enabled: !!walletAddress && isConfigured,
+    refetchInterval: 30000,
+  });
+
+  // Form starts from the existing configuration until edited
+  const beneficiaries = newBeneficiaries ?? (isConfigured ? [...inheritanceConfig.beneficiaries] : ['']);
+  const threshold = newThreshold ?? (isConfigured ? Number(inheritanceConfig.threshold) : 1);
+  const inactivityPeriodDays = newInactivityPeriodDays ?? (isConfigured ? Number(inheritanceConfig.inactivityPeriod) / 86400 : 180);
+
+  // Propose setup inheritance mutation (creates a multisig proposal)
+  const proposeSetupInheritance = useMutation({
+    mutationFn: async ({ beneficiaries, threshold, inactivityPeriodDays }: { beneficiaries: string[]; threshold: number; inactivityPeriodDays: number }) => {
+      return await multisigService.proposeSetupInheritance(walletAddress, beneficiaries, threshold, inactivityPeriodDays);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to update inheritance configuration. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setErrors([]);
+      onUpdate();
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const updateBeneficiary = (index: number, value: string) => {
+    const updated = [...beneficiaries];
+    updated[index] = value;
+    setNewBeneficiaries(updated);
+    setErrors([]);
+  };
+
+  const removeBeneficiary = (index: number) => {
+    const updated = beneficiaries.filter((_, i) => i !== index);
+    setNewBeneficiaries(updated);
+    if (threshold > updated.length) {
+      setNewThreshold(updated.length);
+    }
+    setErrors([]);
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: string[] = [];
+    const validBeneficiaries = beneficiaries.filter(b => b.trim() !== '');
+
+    if (validBeneficiaries.length === 0) {
+      newErrors.push('At least one beneficiary is required');
+    }
+
+    for (const beneficiary of validBeneficiaries) {
+      if (!quais.isAddress(beneficiary.trim())) {
+        newErrors.push(`Invalid beneficiary address: ${beneficiary.substring(0, 10)}...`);
+      }
+    }
+
+    if (newErrors.length === 0) {
+      const normalized = validBeneficiaries.map(b => quais.getAddress(b.trim()).toLowerCase());
+      if (new Set(normalized).size !== normalized.length) {
+        newErrors.push('Duplicate beneficiary addresses found');
+      }
+    }
+
+    if (threshold < 1 || threshold > validBeneficiaries.length) {
+      newErrors.push(`Threshold must be between 1 and ${validBeneficiaries.length}`);
+    }
+
+    if (inactivityPeriodDays < MIN_INACTIVITY_PERIOD_DAYS) {
+      newErrors.push(`Inactivity period must be at least ${MIN_INACTIVITY_PERIOD_DAYS} days`);
+    }
+
+    setErrors(newErrors);
+    return newErrors.length === 0;
+  };
+
+  const handleSetup = () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    const validBeneficiaries = beneficiaries.filter(b => b.trim() !== '').map(b => b.trim());
+    proposeSetupInheritance.mutate({ beneficiaries: validBeneficiaries, threshold, inactivityPeriodDays });
+  };
+
+  const validBeneficiaryCount = beneficiaries.filter(b => b.trim() !== '').length;
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onUpdate}
+      title="Inheritance Configuration"
+      size="lg"
+    >
+      <div className="space-y-6">
+        {/* Important Information */}
+        <div className="bg-gradient-to-r from-blue-900/90 via-blue-800/90 to-blue-900/90 border-l-4 border-blue-600 rounded-md p-4">
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+            </svg>
+            <div>
+              <h4 className="text-base font-semibold text-blue-200 mb-1">How Inheritance Works</h4>
+              <p className="text-sm text-blue-200/90 mb-2">
+                Owner proposals, approvals and heartbeats count as activity. If no owner is active for the inactivity period, beneficiaries can claim control of the vault or sweep its QUAI balance once enough of them approve.
+              </p>
+              <p className="text-sm text-blue-200/90">
+                <strong>Important:</strong> Any owner activity invalidates pending claims. Send a heartbeat from the vault page if the vault is otherwise idle. Changing the configuration requires multisig approval.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Current Configuration */}
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="inline-block w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-sm text-dark-500">Loading...</p>
+          </div>
+        ) : inheritanceConfig && isConfigured ? (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Current Configuration</h3>
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Beneficiaries:</span>
+                <span className="text-dark-200 font-semibold">{inheritanceConfig.beneficiaries.length}</span>
+              </div>
+              <div className="space-y-2">
+                {inheritanceConfig.beneficiaries.map((beneficiary) => (
+                  <div key={beneficiary} className="flex items-center justify-between p-2 bg-vault-dark-3 rounded border border-dark-600">
+                    <span className="text-sm font-mono text-primary-300 truncate flex-1">{beneficiary}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between items-center pt-2 border-t border-dark-600">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Threshold:</span>
+                <span className="text-dark-200 font-semibold">{inheritanceConfig.threshold.toString()} of {inheritanceConfig.beneficiaries.length}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Inactivity Period:</span>
+                <span className="text-dark-200 font-semibold">{Number(inheritanceConfig.inactivityPeriod) / 86400} days</span>
+              </div>
+              {lastActivity !== undefined && lastActivity > 0n && (
+                <div className="flex justify-between items-center">
+                  <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Last Activity:</span>
+                  <span className="text-dark-200 font-semibold">{new Date(Number(lastActivity) * 1000).toLocaleString()}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            <p className="text-base text-dark-400 text-center">No inheritance configuration set</p>
+          </div>
+        )}
+
+        {/* Pending Claims Warning */}
+        {pendingClaims && pendingClaims.some(claim => !claim.isStale) && (
+          <div className="bg-gradient-to-r from-yellow-900/90 via-yellow-800/90 to-yellow-900/90 border-l-4 border-yellow-600 rounded-md p-3">
+            <div className="flex items-start gap-2">
+              <svg className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              <div>
+                <p className="text-sm text-yellow-200 font-semibold mb-1">
+                  Claims Pending
+                </p>
+                <p className="text-sm text-yellow-200/90">
+                  Beneficiaries have started {pendingClaims.filter(claim => !claim.isStale).length} claim(s). Sending a heartbeat cancels them.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Setup/Update Configuration */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">
+            {isConfigured ? 'Propose Configuration Update' : 'Propose Setup Inheritance'}
+          </h3>
+          <div className="space-y-4">
+            {/* Beneficiaries */}
+            <div>
+              <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Beneficiaries
+              </label>
+              <div className="space-y-2">
+                {beneficiaries.map((beneficiary, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={beneficiary}
+                      onChange={(e) => updateBeneficiary(index, e.target.value)}
+                      placeholder="0x..."
+                      className="input-field flex-1"
+                    />
+                    {beneficiaries.length > 1 && (
+                      <button
+                        onClick={() => removeBeneficiary(index)}
+                        className="btn-secondary px-3 py-2"
+                        type="button"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => setNewBeneficiaries([...beneficiaries, ''])}
+                  className="btn-secondary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                  type="button"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Add Beneficiary
+                </button>
+              </div>
+            </div>
+
+            {/* Threshold */}
+            <div>
+              <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Threshold (required approvals)
+              </label>
+              <input
+                type="number"
+                value={threshold}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value) || 1;
+                  setNewThreshold(Math.max(1, Math.min(value, validBeneficiaryCount || 1)));
+                }}
+                min={1}
+                max={validBeneficiaryCount || 1}
+                className="input-field w-full"
+              />
+              <p className="mt-2 text-sm font-mono text-dark-600">
+                {validBeneficiaryCount > 0
+                  ? `Requires ${threshold} of ${validBeneficiaryCount} beneficiary approvals`
+                  : 'Add beneficiaries first'}
+              </p>
+            </div>
+
+            {/* Inactivity Period */}
+            <div>
+              <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Inactivity Period (days)
+              </label>
+              <input
+                type="number"
+                value={inactivityPeriodDays}
+                onChange={(e) => setNewInactivityPeriodDays(parseInt(e.target.value) || 0)}
+                min={MIN_INACTIVITY_PERIOD_DAYS}
+                className="input-field w-full"
+              />
+              <p className="mt-2 text-sm font-mono text-dark-600">
+                How long every owner must be inactive before claims open (minimum {MIN_INACTIVITY_PERIOD_DAYS} days)
+              </p>
+            </div>
+
+            {/* Errors */}
+            {errors.length > 0 && (
+              <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+                <ul className="text-sm text-primary-200 space-y-1">
+                  {errors.map((error, index) => (
+                    <li key={index} className="font-medium">{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Submit Button */}
+            <button
+              onClick={handleSetup}
+              disabled={proposeSetupInheritance.isPending}
+              className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {proposeSetupInheritance.isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : (
+                <>
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  {isConfigured ? 'Propose Update' : 'Propose Setup'}
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Claim Management Button */}
+        {isConfigured && (
+          <div className="border-t border-dark-700 pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-1">Claims</h3>
+                <p className="text-sm text-dark-500">
+                  Review claims started by beneficiaries
+                </p>
+              </div>
+              <button
+                onClick={() => setShowClaimManagement(true)}
+                className="btn-primary text-base px-4 py-2.5 inline-flex items-center gap-2"
+              >
+                View Claims
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Claim Management Modal */}
+      {showClaimManagement && (
+        <InheritanceManagement
+          walletAddress={walletAddress}
+          isOpen={showClaimManagement}
+          onClose={() => setShowClaimManagement(false)}
+          onUpdate={onUpdate}
+        />
+      )}
+    </Modal>
+  );
+}
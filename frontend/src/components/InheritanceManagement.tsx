@@ -0,0 +1,609 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { multisigService } from '../services/MultisigService';
+import { CLAIM_TYPE } from '../services/modules/InheritanceModuleService';
+import type { ClaimTypeValue } from '../services/modules/InheritanceModuleService';
+import { notificationManager } from './NotificationContainer';
+import { useWalletStore } from '../store/walletStore';
+import { Modal } from './Modal';
+import * as quais from 'quais';
+
+interface InheritanceManagementProps {
+  walletAddress: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onUpdate?: () => void;
+}
+
+export function InheritanceManagement({ walletAddress, isOpen, onClose, onUpdate }: InheritanceManagementProps) {
+  const queryClient = useQueryClient();
+  const { address: connectedAddress } = useWalletStore();
+
+  // Claim initiation form state
+  const [showInitiateClaim, setShowInitiateClaim] = useState(false);
+  const [claimType, setClaimType] = useState<ClaimTypeValue>(CLAIM_TYPE.Control);
+  const [newOwners, setNewOwners] = useState<string[]>(['']);
+  const [newThreshold, setNewThreshold] = useState<number>(1);
+  const [recipient, setRecipient] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Query inheritance configuration
+  const { data: inheritanceConfig, isLoading: isLoadingConfig } = useQuery({
+    queryKey: ['inheritanceConfig', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getInheritanceConfig(walletAddress);
+    },
+    enabled: !!walletAddress && isOpen,
+    refetchInterval: 30000,
+  });
+
+  const isConfigured = !!inheritanceConfig && inheritanceConfig.beneficiaries.length > 0;
+
+  // Query when beneficiaries can start claiming
+  const { data: claimableAt, dataUpdatedAt: claimableUpdatedAt } = useQuery({
+    queryKey: ['inheritanceClaimableAt', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getInheritanceClaimableAt(walletAddress);
+    },
+    enabled: !!walletAddress && isConfigured && isOpen,
+    refetchInterval: 30000,
+  });
+
+  // Query pending claims
+  const { data: pendingClaims, isLoading: isLoadingClaims, refetch: refetchClaims, dataUpdatedAt: claimsUpdatedAt } = useQuery({
+    queryKey: ['pendingClaims', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getPendingClaims(walletAddress);
+    },
+    enabled: !!walletAddress && isConfigured && isOpen,
+    refetchInterval: 30000,
+  });
+
+  // Query approval statuses for all claims
+  const { data: approvalStatuses, isLoading: isLoadingApprovals } = useQuery({
+    queryKey: ['claimApprovalStatuses', walletAddress, connectedAddress, pendingClaims?.map(c => c.claimHash).join(',')],
+    queryFn: async () => {
+      if (!connectedAddress || !pendingClaims || pendingClaims.length === 0) {
+        return new Map<string, boolean>();
+      }
+
+      const statusMap = new Map<string, boolean>();
+      await Promise.all(
+        pendingClaims.map(async (claim) => {
+          try {
+            const hasApproved = await multisigService.hasApprovedClaim(walletAddress, claim.claimHash, connectedAddress);
+            statusMap.set(claim.claimHash, hasApproved);
+          } catch (error) {
+            console.error(`Error checking approval status for ${claim.claimHash}:`, error);
+            statusMap.set(claim.claimHash, false);
+          }
+        })
+      );
+      return statusMap;
+    },
+    enabled: !!connectedAddress && !!pendingClaims && pendingClaims.length > 0 && isOpen,
+    refetchInterval: 30000,
+    retry: 1,
+  });
+
+  // Check if connected address is a beneficiary
+  const { data: isBeneficiary } = useQuery({
+    queryKey: ['isBeneficiary', walletAddress, connectedAddress],
+    queryFn: async () => {
+      if (!connectedAddress || !walletAddress) return false;
+      return await multisigService.isBeneficiary(walletAddress, connectedAddress);
+    },
+    enabled: !!walletAddress && !!connectedAddress && isOpen,
+  });
+
+  const invalidateClaims = () => {
+    queryClient.invalidateQueries({ queryKey: ['pendingClaims', walletAddress] });
+    queryClient.invalidateQueries({ queryKey: ['claimApprovalStatuses'] });
+    refetchClaims();
+  };
+
+  // Initiate claim mutation (control or sweep)
+  const initiateClaim = useMutation({
+    mutationFn: async () => {
+      if (claimType === CLAIM_TYPE.Sweep) {
+        return await multisigService.initiateSweep(walletAddress, recipient.trim());
+      }
+      return await multisigService.initiateClaim(
+        walletAddress,
+        newOwners.filter(o => o.trim() !== '').map(o => o.trim()),
+        newThreshold
+      );
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Claim initiated successfully',
+        type: 'success',
+      });
+      invalidateClaims();
+      setShowInitiateClaim(false);
+      setNewOwners(['']);
+      setNewThreshold(1);
+      setRecipient('');
+      setErrors([]);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to initiate claim']);
+    },
+  });
+
+  // Approve claim mutation
+  const approveClaim = useMutation({
+    mutationFn: async (claimHash: string) => {
+      return await multisigService.approveClaim(walletAddress, claimHash);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Claim approved successfully',
+        type: 'success',
+      });
+      invalidateClaims();
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to approve claim']);
+    },
+  });
+
+  // Revoke claim approval mutation
+  const revokeClaimApproval = useMutation({
+    mutationFn: async (claimHash: string) => {
+      return await multisigService.revokeClaimApproval(walletAddress, claimHash);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Claim approval revoked',
+        type: 'success',
+      });
+      invalidateClaims();
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to revoke approval']);
+    },
+  });
+
+  // Execute claim mutation
+  const executeClaim = useMutation({
+    mutationFn: async (claimHash: string) => {
+      return await multisigService.executeClaim(walletAddress, claimHash);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Claim executed successfully',
+        type: 'success',
+      });
+      invalidateClaims();
+      queryClient.invalidateQueries({ queryKey: ['walletInfo', walletAddress] });
+      onUpdate?.();
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to execute claim']);
+    },
+  });
+
+  const updateNewOwner = (index: number, value: string) => {
+    const updated = [...newOwners];
+    updated[index] = value;
+    setNewOwners(updated);
+    setErrors([]);
+  };
+
+  const removeNewOwner = (index: number) => {
+    const updated = newOwners.filter((_, i) => i !== index);
+    setNewOwners(updated);
+    if (newThreshold > updated.length) {
+      setNewThreshold(updated.length);
+    }
+    setErrors([]);
+  };
+
+  const validateClaimForm = (): boolean => {
+    const newErrors: string[] = [];
+
+    if (claimType === CLAIM_TYPE.Sweep) {
+      if (!quais.isAddress(recipient.trim())) {
+        newErrors.push('Invalid recipient address');
+      }
+      setErrors(newErrors);
+      return newErrors.length === 0;
+    }
+
+    const validOwners = newOwners.filter(o => o.trim() !== '');
+    if (validOwners.length === 0) {
+      newErrors.push('At least one new owner is required');
+    }
+
+    for (const owner of validOwners) {
+      if (!quais.isAddress(owner.trim())) {
+        newErrors.push(`Invalid owner address: ${owner.substring(0, 10)}...`);
+      }
+    }
+
+    if (newErrors.length === 0) {
+      const normalizedOwners = validOwners.map(o => quais.getAddress(o.trim()).toLowerCase());
+      if (new Set(normalizedOwners).size !== normalizedOwners.length) {
+        newErrors.push('Duplicate owner addresses found');
+      }
+    }
+
+    if (newThreshold < 1 || newThreshold > validOwners.length) {
+      newErrors.push(`Threshold must be between 1 and ${validOwners.length}`);
+    }
+
+    setErrors(newErrors);
+    return newErrors.length === 0;
+  };
+
+  const handleInitiateClaim = () => {
+    if (!validateClaimForm()) {
+      return;
+    }
+    initiateClaim.mutate();
+  };
+
+  // Use the fetch time rather than Date.now() so rendering stays pure
+  const now = BigInt(Math.floor(claimableUpdatedAt / 1000));
+  const claimsNow = BigInt(Math.floor(claimsUpdatedAt / 1000));
+  const isInactive = claimableAt !== undefined && claimableAt > 0n && claimableAt <= now;
+
+  const formatTimeUntil = (timestamp: bigint, from: bigint = now): string => {
+    const secondsRemaining = Number(timestamp - from);
+    const days = Math.floor(secondsRemaining / 86400);
+    const hours = Math.floor((secondsRemaining % 86400) / 3600);
+    const minutes = Math.floor((secondsRemaining % 3600) / 60);
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Inheritance Claims"
+      size="lg"
+    >
+      <div className="space-y-6">
+        {/* Important Information */}
+        <div className="bg-gradient-to-r from-blue-900/90 via-blue-800/90 to-blue-900/90 border-l-4 border-blue-600 rounded-md p-4">
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+            </svg>
+            <div>
+              <h4 className="text-base font-semibold text-blue-200 mb-1">Claim Process</h4>
+              <p className="text-sm text-blue-200/90 mb-2">
+                Once the owners have been inactive for the configured period, beneficiaries can claim control of the vault or sweep its QUAI balance to a recipient. Approved claims can be executed 7 days after they were initiated, and any owner activity before execution invalidates them.
+              </p>
+              {isBeneficiary && (
+                <p className="text-sm text-blue-200/90 font-semibold">
+                  You are a beneficiary and can initiate or approve claims.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Current Status */}
+        {isLoadingConfig ? (
+          <div className="text-center py-4">
+            <div className="inline-block w-5 h-5 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-sm text-dark-500">Loading configuration...</p>
+          </div>
+        ) : inheritanceConfig && isConfigured ? (
+          <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+            <h3 className="text-sm font-mono text-dark-500 uppercase tracking-wider mb-3">Current Configuration</h3>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="text-dark-500">Beneficiaries:</span>
+                <span className="ml-2 text-dark-200 font-semibold">{inheritanceConfig.beneficiaries.length}</span>
+              </div>
+              <div>
+                <span className="text-dark-500">Threshold:</span>
+                <span className="ml-2 text-dark-200 font-semibold">{inheritanceConfig.threshold.toString()} of {inheritanceConfig.beneficiaries.length}</span>
+              </div>
+              <div className="col-span-2">
+                <span className="text-dark-500">Claims:</span>
+                <span className={`ml-2 font-semibold ${isInactive ? 'text-primary-400' : 'text-dark-200'}`}>
+                  {claimableAt === undefined ? '...' : isInactive ? 'Open - owners are inactive' : `Open in ${formatTimeUntil(claimableAt)}`}
+                </span>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+            <p className="text-sm text-dark-400 text-center">No inheritance configuration set.</p>
+          </div>
+        )}
+
+        {/* Initiate Claim Section */}
+        {isConfigured && isBeneficiary && isInactive && (
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider">Initiate Claim</h3>
+              <button
+                onClick={() => setShowInitiateClaim(!showInitiateClaim)}
+                className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                {showInitiateClaim ? 'Cancel' : 'Initiate Claim'}
+              </button>
+            </div>
+
+            {showInitiateClaim && (
+              <div className="mb-6 p-4 bg-vault-dark-4 rounded-md border border-dark-600">
+                <div className="space-y-3">
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => { setClaimType(CLAIM_TYPE.Control); setErrors([]); }}
+                      className={`${claimType === CLAIM_TYPE.Control ? 'btn-primary' : 'btn-secondary'} text-sm px-3 py-1.5 flex-1`}
+                    >
+                      Claim Control
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { setClaimType(CLAIM_TYPE.Sweep); setErrors([]); }}
+                      className={`${claimType === CLAIM_TYPE.Sweep ? 'btn-primary' : 'btn-secondary'} text-sm px-3 py-1.5 flex-1`}
+                    >
+                      Sweep Funds
+                    </button>
+                  </div>
+
+                  {claimType === CLAIM_TYPE.Control ? (
+                    <>
+                      <div>
+                        <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                          New Owners
+                        </label>
+                        <div className="space-y-2">
+                          {newOwners.map((owner, index) => (
+                            <div key={index} className="flex gap-2">
+                              <input
+                                type="text"
+                                value={owner}
+                                onChange={(e) => updateNewOwner(index, e.target.value)}
+                                placeholder="0x..."
+                                className="input-field flex-1"
+                              />
+                              {newOwners.length > 1 && (
+                                <button
+                                  onClick={() => removeNewOwner(index)}
+                                  className="btn-secondary px-3 py-2"
+                                  type="button"
+                                >
+                                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                  </svg>
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => setNewOwners([...newOwners, ''])}
+                            className="btn-secondary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                            type="button"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                            </svg>
+                            Add Owner
+                          </button>
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                          New Threshold
+                        </label>
+                        <input
+                          type="number"
+                          value={newThreshold}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value) || 1;
+                            setNewThreshold(Math.max(1, Math.min(value, newOwners.filter(o => o.trim() !== '').length || 1)));
+                          }}
+                          min={1}
+                          max={newOwners.filter(o => o.trim() !== '').length || 1}
+                          className="input-field w-full"
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                        Recipient
+                      </label>
+                      <input
+                        type="text"
+                        value={recipient}
+                        onChange={(e) => { setRecipient(e.target.value); setErrors([]); }}
+                        placeholder="0x..."
+                        className="input-field w-full"
+                      />
+                      <p className="mt-2 text-sm font-mono text-dark-600">
+                        Receives the vault's full QUAI balance when the claim executes
+                      </p>
+                    </div>
+                  )}
+
+                  {errors.length > 0 && (
+                    <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+                      <ul className="text-sm text-primary-200 space-y-1">
+                        {errors.map((error, index) => (
+                          <li key={index} className="font-medium">• {error}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <button
+                    onClick={handleInitiateClaim}
+                    disabled={initiateClaim.isPending}
+                    className="btn-primary w-full text-sm px-4 py-2 inline-flex items-center justify-center gap-2"
+                  >
+                    {initiateClaim.isPending ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                        Initiating...
+                      </>
+                    ) : (
+                      'Initiate Claim'
+                    )}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Pending Claims */}
+        {isConfigured && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider">Pending Claims</h3>
+              <button
+                onClick={() => invalidateClaims()}
+                className="btn-secondary text-xs px-2 py-1 inline-flex items-center gap-1"
+                title="Refresh claims list"
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Refresh
+              </button>
+            </div>
+            {!showInitiateClaim && errors.length > 0 && (
+              <div className="mb-3 bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+                <ul className="text-sm text-primary-200 space-y-1">
+                  {errors.map((error, index) => (
+                    <li key={index} className="font-medium">• {error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {isLoadingClaims ? (
+              <div className="text-center py-4">
+                <div className="inline-block w-5 h-5 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+                <p className="mt-2 text-sm text-dark-500">Loading claims...</p>
+              </div>
+            ) : pendingClaims && pendingClaims.length > 0 ? (
+              <div className="space-y-3">
+                {pendingClaims.map((claim) => {
+                  const currentApprovals = Number(claim.approvalCount);
+                  const requiredApprovals = Number(claim.requiredThreshold);
+                  const hasApproved = approvalStatuses?.get(claim.claimHash) === true;
+                  const canExecute = !claim.isStale && claim.executionTime <= claimsNow && currentApprovals >= requiredApprovals;
+
+                  return (
+                    <div key={claim.claimHash} className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+                      <div className="space-y-3">
+                        <div>
+                          <div className="flex justify-between items-center mb-2">
+                            <span className="text-sm font-mono text-dark-500 uppercase tracking-wider">
+                              {claim.claimType === CLAIM_TYPE.Sweep ? 'Sweep' : 'Control'} Claim:
+                            </span>
+                            <span className="text-xs font-mono text-primary-300">{claim.claimHash.slice(0, 10)}...{claim.claimHash.slice(-8)}</span>
+                          </div>
+                          {claim.isStale && (
+                            <span className="vault-badge text-xs border-yellow-600/50 text-yellow-400 bg-yellow-900/30 mb-2 inline-block">
+                              Stale - an owner was active after this claim started
+                            </span>
+                          )}
+                          <div className="text-sm text-dark-400">
+                            {claim.claimType === CLAIM_TYPE.Sweep ? (
+                              <div className="mb-1">
+                                <strong>Recipient:</strong> <span className="font-mono text-xs">{claim.recipient}</span>
+                              </div>
+                            ) : (
+                              <>
+                                <div className="mb-1">
+                                  <strong>New Owners:</strong> {claim.newOwners.length}
+                                </div>
+                                <div className="mb-1">
+                                  <strong>New Threshold:</strong> {claim.newThreshold.toString()}
+                                </div>
+                              </>
+                            )}
+                            <div className="mb-1">
+                              <strong>Approvals:</strong> {currentApprovals} / {requiredApprovals}
+                            </div>
+                            {!claim.isStale && (
+                              <div>
+                                <strong>Execution Time:</strong> {claim.executionTime <= claimsNow ? 'Ready to execute' : formatTimeUntil(claim.executionTime, claimsNow)}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-2 flex-wrap">
+                          {isBeneficiary && !claim.isStale && (
+                            hasApproved ? (
+                              <button
+                                onClick={() => revokeClaimApproval.mutate(claim.claimHash)}
+                                disabled={revokeClaimApproval.isPending}
+                                className="btn-secondary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                              >
+                                {revokeClaimApproval.isPending ? 'Revoking...' : 'Revoke Approval'}
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => approveClaim.mutate(claim.claimHash)}
+                                disabled={approveClaim.isPending || isLoadingApprovals}
+                                className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                              >
+                                {approveClaim.isPending ? (
+                                  <>
+                                    <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                                    Approving...
+                                  </>
+                                ) : (
+                                  'Approve'
+                                )}
+                              </button>
+                            )
+                          )}
+                          {canExecute && (
+                            <button
+                              onClick={() => {
+                                if (window.confirm(claim.claimType === CLAIM_TYPE.Sweep
+                                  ? 'Send the vault\'s full QUAI balance to the recipient?'
+                                  : 'Replace the vault owners with the claimed owners?')) {
+                                  executeClaim.mutate(claim.claimHash);
+                                }
+                              }}
+                              disabled={executeClaim.isPending}
+                              className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                            >
+                              {executeClaim.isPending ? (
+                                <>
+                                  <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                                  Executing...
+                                </>
+                              ) : (
+                                'Execute Claim'
+                              )}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+                <p className="text-sm text-dark-400 text-center">No pending claims</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -1,12 +1,17 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { multisigService } from '../services/MultisigService';
 import { CONTRACT_ADDRESSES } from '../config/contracts';
 import { Modal } from './Modal';
 import { WhitelistConfiguration } from './WhitelistConfiguration';
 import { DailyLimitConfiguration } from './DailyLimitConfiguration';
+import { DelayModuleConfiguration } from './DelayModuleConfiguration';
+import { RolesConfiguration } from './RolesConfiguration';
+import { GuardConfiguration } from './GuardConfiguration';
 import { SocialRecoveryConfiguration } from './SocialRecoveryConfiguration';
 import { SocialRecoveryManagement } from './SocialRecoveryManagement';
+import { InheritanceConfiguration } from './InheritanceConfiguration';
 import {
   EnableModuleModal,
   DisableModuleModal,
@@ -17,6 +22,7 @@ interface ModuleInfo {
   name: string;
   description: string;
   icon: JSX.Element;
+  isUnknown?: boolean;
 }
 
 const MODULES: ModuleInfo[] = [
@@ -50,8 +56,64 @@ const MODULES: ModuleInfo[] = [
       </svg>
     ),
   },
+  {
+    address: CONTRACT_ADDRESSES.DELAY_MODULE,
+    name: 'Delay',
+    description: 'Queue approved transactions behind a cooldown that any owner can veto',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
+  {
+    address: CONTRACT_ADDRESSES.ROLES_MODULE,
+    name: 'Roles',
+    description: 'Let non-owner accounts propose, sign off on or relay transactions',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+      </svg>
+    ),
+  },
+  {
+    address: CONTRACT_ADDRESSES.INHERITANCE_MODULE,
+    name: 'Inheritance',
+    description: 'Hand the vault to beneficiaries after a long period of owner inactivity',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+      </svg>
+    ),
+  },
+  {
+    address: CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE,
+    name: 'Recurring Payments',
+    description: 'Approve payroll and subscriptions once and pay them on a schedule',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+    ),
+  },
+  {
+    address: CONTRACT_ADDRESSES.VESTING_MODULE,
+    name: 'Vesting',
+    description: 'Linear and cliff vesting grants that beneficiaries claim from the vault',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
 ];
 
+const UNKNOWN_MODULE_ICON = (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+  </svg>
+);
+
 interface ModuleManagementProps {
   walletAddress: string;
   onUpdate: () => void;
@@ -62,41 +124,44 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
   const [showAddModule, setShowAddModule] = useState(false);
   const [showWhitelistConfig, setShowWhitelistConfig] = useState(false);
   const [showDailyLimitConfig, setShowDailyLimitConfig] = useState(false);
+  const [showDelayConfig, setShowDelayConfig] = useState(false);
+  const [showRolesConfig, setShowRolesConfig] = useState(false);
+  const [showGuardConfig, setShowGuardConfig] = useState(false);
   const [showSocialRecoveryConfig, setShowSocialRecoveryConfig] = useState(false);
   const [showRecoveryManagement, setShowRecoveryManagement] = useState(false);
+  const [showInheritanceConfig, setShowInheritanceConfig] = useState(false);
   const [moduleToEnable, setModuleToEnable] = useState<string | null>(null);
   const [moduleToDisable, setModuleToDisable] = useState<string | null>(null);
 
-  // Query module statuses
-  const { data: moduleStatuses, isLoading } = useQuery({
+  // Query every enabled module, including third-party modules not listed in the config
+  const { data: enabledAddresses, isLoading } = useQuery({
     queryKey: ['moduleStatus', walletAddress],
     queryFn: async () => {
-      const statuses: Record<string, boolean> = {};
-      for (const module of MODULES) {
-        if (module.address) {
-          try {
-            statuses[module.address] = await multisigService.isModuleEnabled(walletAddress, module.address);
-          } catch (error) {
-            console.error(`Failed to check status for ${module.name}:`, error);
-            statuses[module.address] = false;
-          }
-        }
-      }
-      return statuses;
+      return await multisigService.getModules(walletAddress);
     },
     enabled: !!walletAddress,
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
-  const enabledModules = MODULES.filter(
-    (module) => module.address && moduleStatuses?.[module.address]
+  const isModuleEnabled = (moduleAddress: string) =>
+    !!enabledAddresses?.some((address) => address.toLowerCase() === moduleAddress.toLowerCase());
+
+  const enabledModules: ModuleInfo[] = (enabledAddresses ?? []).map((address) =>
+    MODULES.find((module) => module.address && module.address.toLowerCase() === address.toLowerCase()) ?? {
+      address,
+      name: 'Unknown Module',
+      description: 'Not a Quai Vault module. It can execute any transaction from this vault.',
+      icon: UNKNOWN_MODULE_ICON,
+      isUnknown: true,
+    }
   );
 
   const disabledModules = MODULES.filter(
-    (module) => module.address && !moduleStatuses?.[module.address]
+    (module) => module.address && !isModuleEnabled(module.address)
   );
 
   const enabledCount = enabledModules.length;
+  const unknownCount = enabledModules.filter((module) => module.isUnknown).length;
 
   // Query recovery config to check if social recovery is configured
   const { data: recoveryConfig } = useQuery({
@@ -104,10 +169,26 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
     queryFn: async () => {
       return await multisigService.getRecoveryConfig(walletAddress);
     },
-    enabled: !!walletAddress && moduleStatuses?.[CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE] === true,
+    enabled: !!walletAddress && !!CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE && isModuleEnabled(CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE),
+    refetchInterval: 30000,
+  });
+
+  // Query active transaction guard
+  const { data: guard } = useQuery({
+    queryKey: ['guard', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getGuard(walletAddress);
+    },
+    enabled: !!walletAddress,
     refetchInterval: 30000,
   });
 
+  const guardName = !guard
+    ? 'None'
+    : guard.toLowerCase() === CONTRACT_ADDRESSES.DENYLIST_GUARD.toLowerCase()
+      ? 'Denylist Guard'
+      : 'Custom Guard';
+
   const isRecoveryConfigured = recoveryConfig && recoveryConfig.guardians && recoveryConfig.guardians.length > 0;
 
   const handleEnable = (moduleAddress: string) => {
@@ -140,6 +221,11 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
           {enabledCount > 0 && (
             <span className="vault-badge text-base">{enabledCount} Enabled</span>
           )}
+          {unknownCount > 0 && (
+            <span className="vault-badge text-base border-yellow-600/50 text-yellow-400 bg-yellow-900/30">
+              {unknownCount} Unknown
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-3">
           {enabledCount > 0 && (
@@ -179,20 +265,29 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
             {enabledModules.map((module) => (
               <div
                 key={module.address}
-                className="flex items-center justify-between p-3 bg-vault-dark-4 rounded-md border border-primary-600/50"
+                className={`flex items-center justify-between p-3 bg-vault-dark-4 rounded-md border ${module.isUnknown ? 'border-yellow-600/50' : 'border-primary-600/50'}`}
               >
                 <div className="flex items-center gap-3 flex-1 min-w-0">
-                  <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-gradient-to-br from-primary-700 to-primary-900 border border-primary-600/50 flex items-center justify-center">
-                    <div className="text-primary-200">{module.icon}</div>
+                  <div className={`flex-shrink-0 w-8 h-8 rounded-lg border flex items-center justify-center ${module.isUnknown ? 'bg-yellow-900/30 border-yellow-600/50' : 'bg-gradient-to-br from-primary-700 to-primary-900 border-primary-600/50'}`}>
+                    <div className={module.isUnknown ? 'text-yellow-400' : 'text-primary-200'}>{module.icon}</div>
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <h3 className="text-base font-semibold text-dark-200">{module.name}</h3>
-                      <span className="vault-badge text-sm border-primary-600/50 text-primary-400 bg-primary-900/30">
-                        Enabled
-                      </span>
+                      {module.isUnknown ? (
+                        <span className="vault-badge text-sm border-yellow-600/50 text-yellow-400 bg-yellow-900/30">
+                          Unverified
+                        </span>
+                      ) : (
+                        <span className="vault-badge text-sm border-primary-600/50 text-primary-400 bg-primary-900/30">
+                          Enabled
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-dark-500 truncate">{module.description}</p>
+                    {module.isUnknown && (
+                      <p className="text-xs font-mono text-dark-600 break-all">{module.address}</p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2 flex-shrink-0">
@@ -220,6 +315,64 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
                       Configure
                     </button>
                   )}
+                  {module.address === CONTRACT_ADDRESSES.DELAY_MODULE && (
+                    <button
+                      onClick={() => setShowDelayConfig(true)}
+                      className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Configure
+                    </button>
+                  )}
+                  {module.address === CONTRACT_ADDRESSES.ROLES_MODULE && (
+                    <button
+                      onClick={() => setShowRolesConfig(true)}
+                      className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Configure
+                    </button>
+                  )}
+                  {module.address === CONTRACT_ADDRESSES.INHERITANCE_MODULE && (
+                    <button
+                      onClick={() => setShowInheritanceConfig(true)}
+                      className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Configure
+                    </button>
+                  )}
+                  {module.address === CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE && (
+                    <Link
+                      to={`/wallet/${walletAddress}/recurring`}
+                      className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                      Manage
+                    </Link>
+                  )}
+                  {module.address === CONTRACT_ADDRESSES.VESTING_MODULE && (
+                    <Link
+                      to={`/wallet/${walletAddress}/vesting`}
+                      className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      Manage
+                    </Link>
+                  )}
                   {module.address === CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE && (
                     <>
                       <button
@@ -284,6 +437,32 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
         </div>
       )}
 
+      {/* Transaction Guard */}
+      <div className="flex items-center justify-between p-3 mt-2 bg-vault-dark-4 rounded-md border border-dark-600">
+        <div className="flex items-center gap-3 flex-1 min-w-0">
+          <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-vault-dark-3 border border-dark-600 flex items-center justify-center">
+            <svg className="w-4 h-4 text-dark-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <h3 className="text-base font-semibold text-dark-200">Transaction Guard</h3>
+              <span className="vault-badge text-sm">{guardName}</span>
+            </div>
+            <p className="text-sm text-dark-500 truncate font-mono">
+              {guard || 'No guard checks executions'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowGuardConfig(true)}
+          className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2 flex-shrink-0"
+        >
+          {guard ? 'Change' : 'Set Guard'}
+        </button>
+      </div>
+
       {/* Add Module Modal */}
       <Modal
         isOpen={showAddModule}
@@ -352,6 +531,47 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
           }}
         />
       )}
+      {/* Delay Configuration Modal */}
+      {showDelayConfig && (
+        <DelayModuleConfiguration
+          walletAddress={walletAddress}
+          onUpdate={() => {
+            setShowDelayConfig(false);
+            onUpdate();
+          }}
+        />
+      )}
+      {/* Roles Configuration Modal */}
+      {showRolesConfig && (
+        <RolesConfiguration
+          walletAddress={walletAddress}
+          onUpdate={() => {
+            setShowRolesConfig(false);
+            onUpdate();
+          }}
+        />
+      )}
+      {/* Inheritance Configuration Modal */}
+      {showInheritanceConfig && (
+        <InheritanceConfiguration
+          walletAddress={walletAddress}
+          onUpdate={() => {
+            setShowInheritanceConfig(false);
+            onUpdate();
+          }}
+        />
+      )}
+      {/* Guard Configuration Modal */}
+      {showGuardConfig && (
+        <GuardConfiguration
+          walletAddress={walletAddress}
+          currentGuard={guard || ''}
+          onUpdate={() => {
+            setShowGuardConfig(false);
+            onUpdate();
+          }}
+        />
+      )}
       {showSocialRecoveryConfig && (
         <SocialRecoveryConfiguration
           walletAddress={walletAddress}
@@ -394,7 +614,7 @@ export function ModuleManagement({ walletAddress, onUpdate }: ModuleManagementPr
           }}
           walletAddress={walletAddress}
           moduleAddress={moduleToDisable}
-          moduleName={MODULES.find(m => m.address === moduleToDisable)?.name || 'Module'}
+          moduleName={enabledModules.find(m => m.address === moduleToDisable)?.name || 'Module'}
         />
       )}
     </div>
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import * as quais from 'quais';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import type { ModuleSetupConfig } from '../types';
+
+interface ModuleSetupStepProps {
+  onBack: () => void;
+  onContinue: (modules?: ModuleSetupConfig) => void;
+}
+
+interface WhitelistEntryInput {
+  address: string;
+  limit: string;  // QUAI, empty or 0 = no limit
+}
+
+/**
+ * Collects the modules to enable and configure in the vault deployment transaction
+ */
+export function ModuleSetupStep({ onBack, onContinue }: ModuleSetupStepProps) {
+  const [dailyLimitEnabled, setDailyLimitEnabled] = useState(false);
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [whitelistEnabled, setWhitelistEnabled] = useState(false);
+  const [whitelist, setWhitelist] = useState<WhitelistEntryInput[]>([{ address: '', limit: '' }]);
+  const [recoveryEnabled, setRecoveryEnabled] = useState(false);
+  const [guardians, setGuardians] = useState<string[]>(['']);
+  const [recoveryThreshold, setRecoveryThreshold] = useState(1);
+  const [recoveryPeriodDays, setRecoveryPeriodDays] = useState(7);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const parseAmount = (value: string): bigint | null => {
+    try {
+      return quais.parseQuai(value.trim());
+    } catch {
+      return null;
+    }
+  };
+
+  const buildConfig = (): ModuleSetupConfig | null => {
+    const newErrors: string[] = [];
+    const config: ModuleSetupConfig = {};
+
+    if (dailyLimitEnabled) {
+      const limit = parseAmount(dailyLimit);
+      if (limit === null || limit <= 0n) {
+        newErrors.push('Daily limit must be a QUAI amount greater than zero');
+      } else {
+        config.dailyLimit = limit;
+      }
+    }
+
+    if (whitelistEnabled) {
+      const entries = whitelist.filter((entry) => entry.address.trim() !== '');
+      if (entries.length === 0) {
+        newErrors.push('Add at least one whitelisted address');
+      }
+      const parsed = entries.map((entry) => {
+        if (!quais.isAddress(entry.address.trim())) {
+          newErrors.push(`Invalid whitelist address: ${entry.address}`);
+        }
+        const limit = entry.limit.trim() === '' ? 0n : parseAmount(entry.limit);
+        if (limit === null || limit < 0n) {
+          newErrors.push(`Invalid limit for ${entry.address}`);
+        }
+        return { address: entry.address.trim(), limit: limit ?? 0n };
+      });
+      config.whitelist = parsed;
+    }
+
+    if (recoveryEnabled) {
+      const validGuardians = guardians.map((guardian) => guardian.trim()).filter((guardian) => guardian !== '');
+      if (validGuardians.length === 0) {
+        newErrors.push('Add at least one guardian');
+      }
+      for (const guardian of validGuardians) {
+        if (!quais.isAddress(guardian)) {
+          newErrors.push(`Invalid guardian address: ${guardian}`);
+        }
+      }
+      if (new Set(validGuardians.map((guardian) => guardian.toLowerCase())).size !== validGuardians.length) {
+        newErrors.push('Duplicate guardian addresses are not allowed');
+      }
+      if (recoveryThreshold < 1 || recoveryThreshold > validGuardians.length) {
+        newErrors.push('Recovery threshold must be between 1 and the number of guardians');
+      }
+      if (recoveryPeriodDays < 1) {
+        newErrors.push('Recovery period must be at least 1 day');
+      }
+      config.recovery = { guardians: validGuardians, threshold: recoveryThreshold, recoveryPeriodDays };
+    }
+
+    setErrors(newErrors);
+    return newErrors.length === 0 ? config : null;
+  };
+
+  const handleContinue = () => {
+    const config = buildConfig();
+    if (!config) {
+      return;
+    }
+    onContinue(Object.keys(config).length > 0 ? config : undefined);
+  };
+
+  const updateWhitelistEntry = (index: number, field: keyof WhitelistEntryInput, value: string) => {
+    setWhitelist(whitelist.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry)));
+  };
+
+  const updateGuardian = (index: number, value: string) => {
+    setGuardians(guardians.map((guardian, i) => (i === index ? value : guardian)));
+  };
+
+  const renderToggle = (checked: boolean, onChange: (checked: boolean) => void, title: string, description: string) => (
+    <label className="flex items-start gap-4 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-1.5"
+      />
+      <span>
+        <span className="block text-lg font-semibold text-dark-200">{title}</span>
+        <span className="block text-base font-mono text-dark-600">{description}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="vault-panel p-8 mb-8">
+      <h2 className="text-2xl font-display font-bold text-dark-200 mb-2">Modules</h2>
+      <p className="text-lg text-dark-400 mb-6">
+        Optionally enable modules and set their initial configuration in the deployment transaction. You can still change them later through multisig proposals.
+      </p>
+
+      <div className="space-y-6">
+        {CONTRACT_ADDRESSES.DAILY_LIMIT_MODULE && (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            {renderToggle(dailyLimitEnabled, setDailyLimitEnabled, 'Daily Limit', 'Let any owner spend up to a daily amount without approvals')}
+            {dailyLimitEnabled && (
+              <div className="mt-4">
+                <label htmlFor="setupDailyLimit" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-2">
+                  Daily Limit (QUAI)
+                </label>
+                <input
+                  id="setupDailyLimit"
+                  type="text"
+                  value={dailyLimit}
+                  onChange={(e) => setDailyLimit(e.target.value)}
+                  placeholder="e.g. 10"
+                  className="input-field w-full"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {CONTRACT_ADDRESSES.WHITELIST_MODULE && (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            {renderToggle(whitelistEnabled, setWhitelistEnabled, 'Whitelist', 'Pre-approve addresses any owner can pay without approvals')}
+            {whitelistEnabled && (
+              <div className="mt-4 space-y-3">
+                {whitelist.map((entry, index) => (
+                  <div key={index} className="flex gap-3">
+                    <input
+                      type="text"
+                      value={entry.address}
+                      onChange={(e) => updateWhitelistEntry(index, 'address', e.target.value)}
+                      placeholder="0x..."
+                      className="input-field flex-1"
+                    />
+                    <input
+                      type="text"
+                      value={entry.limit}
+                      onChange={(e) => updateWhitelistEntry(index, 'limit', e.target.value)}
+                      placeholder="Limit (QUAI, blank = none)"
+                      className="input-field w-48"
+                    />
+                    {whitelist.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setWhitelist(whitelist.filter((_, i) => i !== index))}
+                        className="btn-secondary px-3"
+                        title="Remove address"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setWhitelist([...whitelist, { address: '', limit: '' }])}
+                  className="btn-secondary text-base px-4 py-2"
+                >
+                  + Add Address
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE && (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            {renderToggle(recoveryEnabled, setRecoveryEnabled, 'Social Recovery', 'Let guardians replace the owners after a waiting period')}
+            {recoveryEnabled && (
+              <div className="mt-4 space-y-3">
+                <label className="block text-base font-mono text-dark-500 uppercase tracking-wider">Guardians</label>
+                {guardians.map((guardian, index) => (
+                  <div key={index} className="flex gap-3">
+                    <input
+                      type="text"
+                      value={guardian}
+                      onChange={(e) => updateGuardian(index, e.target.value)}
+                      placeholder="0x..."
+                      className="input-field flex-1"
+                    />
+                    {guardians.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setGuardians(guardians.filter((_, i) => i !== index))}
+                        className="btn-secondary px-3"
+                        title="Remove guardian"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setGuardians([...guardians, ''])}
+                  className="btn-secondary text-base px-4 py-2"
+                >
+                  + Add Guardian
+                </button>
+                <div className="flex gap-6">
+                  <div>
+                    <label htmlFor="setupRecoveryThreshold" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Threshold
+                    </label>
+                    <input
+                      id="setupRecoveryThreshold"
+                      type="number"
+                      min={1}
+                      value={recoveryThreshold}
+                      onChange={(e) => setRecoveryThreshold(parseInt(e.target.value) || 1)}
+                      className="input-field w-24"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="setupRecoveryPeriod" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Period (days)
+                    </label>
+                    <input
+                      id="setupRecoveryPeriod"
+                      type="number"
+                      min={1}
+                      value={recoveryPeriodDays}
+                      onChange={(e) => setRecoveryPeriodDays(parseInt(e.target.value) || 1)}
+                      className="input-field w-24"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
+            <ul className="text-lg text-primary-200 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index} className="font-medium">• {error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="vault-divider pt-6 mt-8">
+        <div className="flex flex-wrap gap-4">
+          <button onClick={handleContinue} className="btn-primary flex-1 min-w-[200px]">
+            Start Deployment
+          </button>
+          <button onClick={onBack} className="btn-secondary">
+            Back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
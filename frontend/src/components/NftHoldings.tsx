@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import * as quais from 'quais';
+import { multisigService } from '../services/MultisigService';
+import { transactionBuilderService } from '../services/TransactionBuilderService';
+import { useMultisig } from '../hooks/useMultisig';
+import { ExplorerLink } from './ExplorerLink';
+import { Modal } from './Modal';
+import { notificationManager } from './NotificationContainer';
+import type { NftHolding } from '../types';
+
+interface NftHoldingsProps {
+  walletAddress: string;
+  isOwner: boolean;
+}
+
+export function NftHoldings({ walletAddress, isOwner }: NftHoldingsProps) {
+  const { proposeTransactionAsync, isProposing } = useMultisig(walletAddress);
+  const [holdingToSend, setHoldingToSend] = useState<NftHolding | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('1');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Query NFTs received through safe transfers
+  const { data: holdings, isLoading } = useQuery({
+    queryKey: ['nftHoldings', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getNftHoldings(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 60000, // Refetch every minute
+  });
+
+  const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+  const openSend = (holding: NftHolding) => {
+    setHoldingToSend(holding);
+    setRecipient('');
+    setAmount('1');
+    setErrors([]);
+  };
+
+  const handleSend = async () => {
+    if (!holdingToSend) return;
+
+    const trimmed = recipient.trim();
+    if (!trimmed || !quais.isAddress(trimmed)) {
+      setErrors(['Enter a valid recipient address']);
+      return;
+    }
+
+    let tx;
+    if (holdingToSend.standard === 'ERC721') {
+      tx = transactionBuilderService.buildERC721Transfer(
+        holdingToSend.tokenAddress,
+        walletAddress,
+        trimmed,
+        holdingToSend.tokenId
+      );
+    } else {
+      const parsedAmount = /^\d+$/.test(amount.trim()) ? BigInt(amount.trim()) : 0n;
+      if (parsedAmount <= 0n || parsedAmount > holdingToSend.balance) {
+        setErrors([`Amount must be between 1 and ${holdingToSend.balance}`]);
+        return;
+      }
+      tx = transactionBuilderService.buildERC1155Transfer(
+        holdingToSend.tokenAddress,
+        walletAddress,
+        trimmed,
+        holdingToSend.tokenId,
+        parsedAmount
+      );
+    }
+
+    try {
+      await proposeTransactionAsync({ walletAddress, ...tx });
+      notificationManager.add({
+        message: 'Proposal created to transfer the NFT. Requires multisig approval.',
+        type: 'success',
+      });
+      setHoldingToSend(null);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to create proposal']);
+    }
+  };
+
+  return (
+    <div className="vault-panel p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-4">
+          <h2 className="text-lg font-display font-bold text-dark-200">NFTs</h2>
+          {holdings && holdings.length > 0 && (
+            <span className="vault-badge text-base">{holdings.length} Held</span>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-6">
+          <div className="inline-block w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : !holdings || holdings.length === 0 ? (
+        <p className="text-base text-dark-500 py-2">
+          No NFTs found. Tokens appear here when they are sent to the vault with a safe transfer.
+        </p>
+      ) : (
+        <div className="space-y-2 pt-2 max-h-[400px] overflow-y-auto">
+          {holdings.map((holding) => (
+            <div
+              key={`${holding.tokenAddress}:${holding.tokenId}`}
+              className="flex items-center justify-between p-3 bg-vault-dark-4 rounded-md border border-dark-600"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-base font-semibold text-dark-200 truncate">#{holding.tokenId.toString()}</h3>
+                  <span className="vault-badge text-sm">{holding.standard === 'ERC721' ? 'ERC-721' : 'ERC-1155'}</span>
+                  {holding.standard === 'ERC1155' && (
+                    <span className="text-sm font-mono text-dark-400">× {holding.balance.toString()}</span>
+                  )}
+                </div>
+                <ExplorerLink type="address" value={holding.tokenAddress} className="text-sm font-mono">
+                  {formatAddress(holding.tokenAddress)}
+                </ExplorerLink>
+              </div>
+              {isOwner && (
+                <button
+                  onClick={() => openSend(holding)}
+                  className="btn-primary text-sm px-3 py-1.5 inline-flex items-center gap-2 flex-shrink-0"
+                >
+                  Send
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Send NFT Modal */}
+      {holdingToSend && (
+        <Modal
+          isOpen={true}
+          onClose={() => setHoldingToSend(null)}
+          title={`Send #${holdingToSend.tokenId.toString()}`}
+          size="lg"
+        >
+          <div className="space-y-4">
+            <p className="text-base text-dark-400">
+              Creates a proposal to transfer this token out of the vault. Requires multisig approval.
+            </p>
+            <div>
+              <label htmlFor="nftRecipient" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Recipient Address
+              </label>
+              <input
+                id="nftRecipient"
+                type="text"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="0x..."
+                className="input-field w-full"
+              />
+            </div>
+            {holdingToSend.standard === 'ERC1155' && (
+              <div>
+                <label htmlFor="nftAmount" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                  Amount (max {holdingToSend.balance.toString()})
+                </label>
+                <input
+                  id="nftAmount"
+                  type="text"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="input-field w-full"
+                />
+              </div>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="list-disc list-inside text-sm text-primary-300 space-y-1">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={handleSend}
+              disabled={isProposing}
+              className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2"
+            >
+              {isProposing ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : (
+                'Propose Transfer'
+              )}
+            </button>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+}
@@ -3,29 +3,39 @@ import { useWallet } from '../hooks/useWallet';
 import {
   AddOwnerModal,
   RemoveOwnerModal,
+  ReplaceOwnerModal,
   ChangeThresholdModal,
+  SetOwnerWeightModal,
 } from './transactionModals';
 
 interface OwnerManagementProps {
   walletAddress: string;
   owners: string[];
   threshold: number;
+  ownerWeights?: { [owner: string]: number };
   onUpdate: () => void;
 }
 
-export function OwnerManagement({ walletAddress, owners, threshold, onUpdate }: OwnerManagementProps) {
+export function OwnerManagement({ walletAddress, owners, threshold, ownerWeights, onUpdate }: OwnerManagementProps) {
   const { address: connectedAddress } = useWallet();
   const [showAddOwner, setShowAddOwner] = useState(false);
   const [showChangeThreshold, setShowChangeThreshold] = useState(false);
   const [ownerToRemove, setOwnerToRemove] = useState<string | null>(null);
+  const [ownerToReplace, setOwnerToReplace] = useState<string | null>(null);
+  const [ownerToReweigh, setOwnerToReweigh] = useState<string | null>(null);
+
+  // Threshold is a summed owner weight; owners without a stored weight have one vote
+  const weightOf = (owner: string): number => ownerWeights?.[owner] ?? 1;
+  const totalWeight = owners.reduce((total, owner) => total + weightOf(owner), 0);
+  const isWeighted = owners.some((owner) => weightOf(owner) !== 1);
 
   const handleRemoveOwner = (owner: string) => {
     setOwnerToRemove(owner);
   };
 
-  const canRemoveOwner = (_owner: string): boolean => {
-    // Can't remove if it would make threshold invalid
-    if (owners.length - 1 < threshold) {
+  const canRemoveOwner = (owner: string): boolean => {
+    // Can't remove if the remaining weight would fall below the threshold
+    if (totalWeight - weightOf(owner) < threshold) {
       return false;
     }
     // Can't remove yourself if you're the only owner
@@ -77,7 +87,17 @@ export function OwnerManagement({ walletAddress, owners, threshold, onUpdate }:
                   {index + 1}
                 </span>
               </div>
-              <span className="font-mono text-base text-primary-300 truncate">{owner}</span>
+              <div className="flex-1 min-w-0">
+                <span className="block font-mono text-base text-primary-300 truncate">{owner}</span>
+                {isWeighted && (
+                  <div className="w-full bg-vault-dark-3 rounded-full h-1 border border-dark-600 overflow-hidden mt-1" title={`${Math.round((weightOf(owner) / totalWeight) * 100)}% of total weight`}>
+                    <div
+                      className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600"
+                      style={{ width: `${(weightOf(owner) / totalWeight) * 100}%` }}
+                    ></div>
+                  </div>
+                )}
+              </div>
             </div>
             <div className="flex items-center gap-4 flex-shrink-0">
               {owner.toLowerCase() === connectedAddress?.toLowerCase() && (
@@ -85,6 +105,29 @@ export function OwnerManagement({ walletAddress, owners, threshold, onUpdate }:
                   You
                 </span>
               )}
+              {isWeighted && (
+                <span className="vault-badge text-base" title="Voting weight">
+                  ×{weightOf(owner)}
+                </span>
+              )}
+              <button
+                onClick={() => setOwnerToReweigh(owner)}
+                className="text-base font-semibold text-dark-400 hover:text-primary-400 transition-colors px-3 py-2 rounded border border-dark-600 hover:border-primary-600 bg-vault-dark-3 hover:bg-vault-dark-2"
+                title="Change voting weight"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setOwnerToReplace(owner)}
+                className="text-base font-semibold text-dark-400 hover:text-primary-400 transition-colors px-3 py-2 rounded border border-dark-600 hover:border-primary-600 bg-vault-dark-3 hover:bg-vault-dark-2"
+                title="Replace owner"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+              </button>
               {canRemoveOwner(owner) && (
                 <button
                   onClick={() => handleRemoveOwner(owner)}
@@ -99,13 +142,25 @@ export function OwnerManagement({ walletAddress, owners, threshold, onUpdate }:
         ))}
       </div>
 
-      <div className="flex items-center justify-between pt-3 border-t border-dark-700">
-        <p className="text-base font-mono text-dark-500 uppercase tracking-wider">Threshold</p>
-        <p className="text-lg font-semibold text-dark-200">
-          <span className="text-primary-400">{threshold}</span>
-          <span className="text-dark-500 mx-1">/</span>
-          <span className="text-dark-300">{owners.length}</span>
-        </p>
+      <div className="pt-3 border-t border-dark-700">
+        <div className="flex items-center justify-between">
+          <p className="text-base font-mono text-dark-500 uppercase tracking-wider">
+            {isWeighted ? 'Threshold (weight)' : 'Threshold'}
+          </p>
+          <p className="text-lg font-semibold text-dark-200">
+            <span className="text-primary-400">{threshold}</span>
+            <span className="text-dark-500 mx-1">/</span>
+            <span className="text-dark-300">{isWeighted ? totalWeight : owners.length}</span>
+          </p>
+        </div>
+        {isWeighted && (
+          <div className="w-full bg-vault-dark-4 rounded-full h-1.5 border border-dark-600 shadow-vault-inner overflow-hidden mt-2">
+            <div
+              className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600"
+              style={{ width: `${Math.min((threshold / totalWeight) * 100, 100)}%` }}
+            ></div>
+          </div>
+        )}
       </div>
 
       {/* Modals */}
@@ -128,7 +183,22 @@ export function OwnerManagement({ walletAddress, owners, threshold, onUpdate }:
         walletAddress={walletAddress}
         currentThreshold={threshold}
         ownerCount={owners.length}
+        ownerWeights={owners.map(weightOf)}
       />
+      {ownerToReweigh && (
+        <SetOwnerWeightModal
+          isOpen={!!ownerToReweigh}
+          onClose={() => {
+            setOwnerToReweigh(null);
+            onUpdate();
+          }}
+          walletAddress={walletAddress}
+          owner={ownerToReweigh}
+          currentWeight={weightOf(ownerToReweigh)}
+          totalWeight={totalWeight}
+          threshold={threshold}
+        />
+      )}
       {ownerToRemove && (
         <RemoveOwnerModal
           isOpen={!!ownerToRemove}
@@ -141,6 +211,19 @@ export function OwnerManagement({ walletAddress, owners, threshold, onUpdate }:
           threshold={threshold}
         />
       )}
+      {ownerToReplace && (
+        <ReplaceOwnerModal
+          isOpen={!!ownerToReplace}
+          onClose={() => {
+            setOwnerToReplace(null);
+            onUpdate();
+          }}
+          walletAddress={walletAddress}
+          ownerToReplace={ownerToReplace}
+          threshold={threshold}
+          existingOwners={owners}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,372 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as quais from 'quais';
+import { multisigService } from '../services/MultisigService';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { ROLE_PROPOSER, ROLE_APPROVER, ROLE_EXECUTOR } from '../services/modules/RolesModuleService';
+import { notificationManager } from './NotificationContainer';
+import { Modal } from './Modal';
+import { ExplorerLink } from './ExplorerLink';
+
+interface RolesConfigurationProps {
+  walletAddress: string;
+  onUpdate: () => void;
+}
+
+const ROLE_OPTIONS = [
+  { bit: ROLE_PROPOSER, label: 'Proposer', hint: 'Create proposals (owners still approve them)' },
+  { bit: ROLE_APPROVER, label: 'Approver', hint: 'Sign off on pending proposals before executors relay them' },
+  { bit: ROLE_EXECUTOR, label: 'Executor', hint: 'Execute proposals that reached the approval threshold' },
+];
+
+export function RolesConfiguration({ walletAddress, onUpdate }: RolesConfigurationProps) {
+  const queryClient = useQueryClient();
+  const [account, setAccount] = useState('');
+  const [selectedRoles, setSelectedRoles] = useState(0);
+  const [newRequiredApprovals, setNewRequiredApprovals] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Query role members
+  const { data: members, isLoading } = useQuery({
+    queryKey: ['roleMembers', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getRoleMembers(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000, // Refetch every 30 seconds
+  });
+
+  // Query approver sign-offs executors need
+  const { data: requiredApprovals } = useQuery({
+    queryKey: ['requiredRoleApprovals', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getRequiredRoleApprovals(walletAddress);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000,
+  });
+
+  // Query whether the vault lets the module propose, execute and cancel
+  const { data: isRelayAllowed } = useQuery({
+    queryKey: ['rolesRelay', walletAddress],
+    queryFn: async () => {
+      return await multisigService.isRelayModule(walletAddress, CONTRACT_ADDRESSES.ROLES_MODULE);
+    },
+    enabled: !!walletAddress,
+    refetchInterval: 30000,
+  });
+
+  const onProposalCreated = (message: string) => {
+    notificationManager.add({ message, type: 'success' });
+    queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    setErrors([]);
+  };
+
+  // Propose set roles mutation (creates a multisig proposal)
+  const proposeSetRoles = useMutation({
+    mutationFn: async ({ address, roles }: { address: string; roles: number }) => {
+      return await multisigService.proposeSetRoles(walletAddress, address, roles);
+    },
+    onSuccess: (_txHash, { roles }) => {
+      onProposalCreated(
+        roles === 0
+          ? 'Proposal created to remove the account\'s roles. Requires multisig approval.'
+          : 'Proposal created to update roles. Requires multisig approval.'
+      );
+      setAccount('');
+      setSelectedRoles(0);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  // Propose required approvals mutation (creates a multisig proposal)
+  const proposeSetRequiredApprovals = useMutation({
+    mutationFn: async (required: number) => {
+      return await multisigService.proposeSetRequiredRoleApprovals(walletAddress, required);
+    },
+    onSuccess: () => {
+      onProposalCreated('Proposal created to update required sign-offs. Requires multisig approval.');
+      setNewRequiredApprovals('');
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  // Propose relay permission mutation (creates a multisig proposal)
+  const proposeSetRelay = useMutation({
+    mutationFn: async (allowed: boolean) => {
+      return await multisigService.setModuleRelay(walletAddress, CONTRACT_ADDRESSES.ROLES_MODULE, allowed);
+    },
+    onSuccess: (_txHash, allowed) => {
+      onProposalCreated(
+        allowed
+          ? 'Proposal created to let role members act on the vault. Requires multisig approval.'
+          : 'Proposal created to stop role members acting on the vault. Requires multisig approval.'
+      );
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+  const toggleRole = (bit: number) => {
+    setSelectedRoles((current) => current ^ bit);
+  };
+
+  const selectMember = (address: string, roles: number) => {
+    setAccount(address);
+    setSelectedRoles(roles);
+    setErrors([]);
+  };
+
+  const handleSetRoles = () => {
+    const trimmed = account.trim();
+    if (!trimmed || !quais.isAddress(trimmed)) {
+      setErrors(['Enter a valid account address']);
+      return;
+    }
+    if (selectedRoles === 0) {
+      setErrors(['Select at least one role, or use Remove to revoke an account']);
+      return;
+    }
+    proposeSetRoles.mutate({ address: trimmed, roles: selectedRoles });
+  };
+
+  const handleSetRequiredApprovals = () => {
+    const trimmed = newRequiredApprovals.trim();
+    if (!/^\d+$/.test(trimmed)) {
+      setErrors(['Required sign-offs must be a whole number']);
+      return;
+    }
+    proposeSetRequiredApprovals.mutate(parseInt(trimmed, 10));
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onUpdate}
+      title="Roles Configuration"
+      size="lg"
+    >
+      <div className="space-y-6">
+        {/* How it works */}
+        <div className="bg-gradient-to-r from-blue-900/90 via-blue-800/90 to-blue-900/90 border-l-4 border-blue-600 rounded-md p-4">
+          <div className="flex items-start gap-3">
+            <svg className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+            </svg>
+            <div>
+              <h4 className="text-base font-semibold text-blue-200 mb-1">Scoped Permissions</h4>
+              <p className="text-sm text-blue-200/90">
+                Roles let accounts that are not owners take part in the workflow, such as a bot that only proposes payouts or a relayer that only executes. Owner approvals are still required for every transaction. Granting or removing roles requires multisig approval.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Relay Permission */}
+        {isRelayAllowed === false && (
+          <div className="bg-gradient-to-r from-yellow-900/90 via-yellow-800/90 to-yellow-900/90 border-l-4 border-yellow-600 rounded-md p-4">
+            <div className="flex items-start gap-3">
+              <svg className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              <div className="flex-1">
+                <h4 className="text-base font-semibold text-yellow-200 mb-1">Relay Permission Required</h4>
+                <p className="text-sm text-yellow-200/90 mb-3">
+                  Enabling the module is not enough: the vault must also allow it to propose, execute and cancel transactions before role members can act. Every proposal made through the module uses up a vault nonce, which invalidates off-chain signatures collected before it.
+                </p>
+                <button
+                  onClick={() => proposeSetRelay.mutate(true)}
+                  disabled={proposeSetRelay.isPending}
+                  className="btn-primary text-sm px-3 py-1.5"
+                >
+                  {proposeSetRelay.isPending ? 'Creating Proposal...' : 'Propose Relay Permission'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Current Members */}
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="inline-block w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-sm text-dark-500">Loading...</p>
+          </div>
+        ) : (
+          <div className="bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+            <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Role Members</h3>
+            {!members || members.length === 0 ? (
+              <p className="text-base text-dark-500">No accounts hold a role yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {members.map((member) => (
+                  <div
+                    key={member.address}
+                    className="flex items-center justify-between p-3 bg-vault-dark-3 rounded-md border border-dark-600"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <ExplorerLink type="address" value={member.address} className="text-base font-mono">
+                        {formatAddress(member.address)}
+                      </ExplorerLink>
+                      <div className="flex flex-wrap gap-1.5 mt-1">
+                        {ROLE_OPTIONS.filter((option) => (member.roles & option.bit) !== 0).map((option) => (
+                          <span key={option.bit} className="vault-badge text-sm">{option.label}</span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => selectMember(member.address, member.roles)}
+                        className="btn-secondary text-sm px-3 py-1.5"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => proposeSetRoles.mutate({ address: member.address, roles: 0 })}
+                        disabled={proposeSetRoles.isPending}
+                        className="btn-primary text-sm px-3 py-1.5"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-between items-center mt-4">
+              <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Approver Sign-offs Before Relay:</span>
+              <span className="text-dark-200 font-semibold">
+                {requiredApprovals && requiredApprovals > 0 ? requiredApprovals : 'None'}
+              </span>
+            </div>
+            {isRelayAllowed && (
+              <div className="flex justify-between items-center mt-2">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Relay Permission:</span>
+                <button
+                  onClick={() => proposeSetRelay.mutate(false)}
+                  disabled={proposeSetRelay.isPending}
+                  className="btn-secondary text-sm px-3 py-1.5"
+                >
+                  {proposeSetRelay.isPending ? 'Creating Proposal...' : 'Propose Revoking'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Grant Roles */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Propose Role Assignment</h3>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="roleAccount" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Account Address
+              </label>
+              <input
+                id="roleAccount"
+                type="text"
+                value={account}
+                onChange={(e) => setAccount(e.target.value)}
+                placeholder="0x..."
+                className="input-field w-full"
+              />
+            </div>
+            <div className="space-y-2">
+              {ROLE_OPTIONS.map((option) => (
+                <label key={option.bit} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={(selectedRoles & option.bit) !== 0}
+                    onChange={() => toggleRole(option.bit)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="text-base text-dark-200 font-semibold">{option.label}</span>
+                    <span className="block text-sm font-mono text-dark-600">{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <button
+              onClick={handleSetRoles}
+              disabled={proposeSetRoles.isPending}
+              className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2"
+            >
+              {proposeSetRoles.isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : (
+                'Propose Roles'
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Required Sign-offs */}
+        <div>
+          <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider mb-4">Propose Required Sign-offs</h3>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="requiredRoleApprovals" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                Approver Sign-offs
+              </label>
+              <input
+                id="requiredRoleApprovals"
+                type="text"
+                value={newRequiredApprovals}
+                onChange={(e) => setNewRequiredApprovals(e.target.value)}
+                placeholder={requiredApprovals !== undefined ? String(requiredApprovals) : '0'}
+                className="input-field w-full"
+              />
+              <p className="mt-2 text-sm font-mono text-dark-600">
+                How many approvers must sign off before an executor can relay a proposal (0 = none). Owners can always execute directly.
+              </p>
+            </div>
+
+            <button
+              onClick={handleSetRequiredApprovals}
+              disabled={proposeSetRequiredApprovals.isPending}
+              className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2"
+            >
+              {proposeSetRequiredApprovals.isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : (
+                'Propose Update'
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
+            <h4 className="text-base font-semibold text-primary-200 mb-2 flex items-center gap-2">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              Error
+            </h4>
+            <ul className="list-disc list-inside text-sm text-primary-200 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
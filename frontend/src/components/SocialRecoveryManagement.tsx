@@ -23,6 +23,12 @@ export function SocialRecoveryManagement({ walletAddress, isOpen, onClose, onUpd
   const [newThreshold, setNewThreshold] = useState<number>(1);
   const [errors, setErrors] = useState<string[]>([]);
 
+  // Guardian rotation form state
+  const [showRotateGuardians, setShowRotateGuardians] = useState(false);
+  const [rotationGuardians, setRotationGuardians] = useState<string[]>(['']);
+  const [rotationThreshold, setRotationThreshold] = useState<number>(1);
+  const [rotationErrors, setRotationErrors] = useState<string[]>([]);
+
   // Query recovery configuration
   const { data: recoveryConfig, isLoading: isLoadingConfig } = useQuery({
     queryKey: ['recoveryConfig', walletAddress],
@@ -74,6 +80,16 @@ export function SocialRecoveryManagement({ walletAddress, isOpen, onClose, onUpd
     retry: 1,
   });
 
+  // Query pending guardian rotation
+  const { data: guardianRotation, dataUpdatedAt: rotationUpdatedAt } = useQuery({
+    queryKey: ['guardianRotation', walletAddress],
+    queryFn: async () => {
+      return await multisigService.getGuardianRotation(walletAddress);
+    },
+    enabled: !!walletAddress && !!recoveryConfig && recoveryConfig.guardians.length > 0 && isOpen,
+    refetchInterval: 30000,
+  });
+
   // Check if connected address is a guardian
   const { data: isGuardian } = useQuery({
     queryKey: ['isGuardian', walletAddress, connectedAddress],
@@ -166,6 +182,104 @@ export function SocialRecoveryManagement({ walletAddress, isOpen, onClose, onUpd
     },
   });
 
+  // Propose veto mutation (uses the wallet's own threshold)
+  const proposeVetoRecovery = useMutation({
+    mutationFn: async (recoveryHash: string) => {
+      return await multisigService.proposeVetoRecovery(walletAddress, recoveryHash);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to veto the recovery. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create veto proposal']);
+    },
+  });
+
+  // Propose guardian rotation mutation
+  const proposeGuardianRotation = useMutation({
+    mutationFn: async ({ guardians, threshold }: { guardians: string[]; threshold: number }) => {
+      return await multisigService.proposeGuardianRotation(walletAddress, guardians, threshold);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to rotate guardians. Requires multisig approval, then the rotation delay.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setShowRotateGuardians(false);
+      setRotationGuardians(['']);
+      setRotationThreshold(1);
+      setRotationErrors([]);
+    },
+    onError: (error) => {
+      setRotationErrors([error instanceof Error ? error.message : 'Failed to create rotation proposal']);
+    },
+  });
+
+  // Propose cancel guardian rotation mutation
+  const proposeCancelGuardianRotation = useMutation({
+    mutationFn: async () => {
+      return await multisigService.proposeCancelGuardianRotation(walletAddress);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to cancel the guardian rotation. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      setRotationErrors([error instanceof Error ? error.message : 'Failed to create cancellation proposal']);
+    },
+  });
+
+  // Execute guardian rotation mutation
+  const executeGuardianRotation = useMutation({
+    mutationFn: async () => {
+      return await multisigService.executeGuardianRotation(walletAddress);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Guardian rotation executed successfully',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['guardianRotation', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['recoveryConfig', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['pendingRecoveries', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['isGuardian', walletAddress] });
+      onUpdate?.();
+    },
+    onError: (error) => {
+      setRotationErrors([error instanceof Error ? error.message : 'Failed to execute guardian rotation']);
+    },
+  });
+
+  const handleProposeRotation = () => {
+    const newErrors: string[] = [];
+    const validGuardians = rotationGuardians.map((guardian) => guardian.trim()).filter((guardian) => guardian !== '');
+
+    if (validGuardians.length === 0) {
+      newErrors.push('At least one guardian is required');
+    }
+    for (const guardian of validGuardians) {
+      if (!quais.isAddress(guardian)) {
+        newErrors.push(`Invalid guardian address: ${guardian}`);
+      }
+    }
+    if (rotationThreshold < 1 || rotationThreshold > validGuardians.length) {
+      newErrors.push(`Threshold must be between 1 and ${validGuardians.length}`);
+    }
+
+    setRotationErrors(newErrors);
+    if (newErrors.length === 0) {
+      proposeGuardianRotation.mutate({ guardians: validGuardians, threshold: rotationThreshold });
+    }
+  };
+
   const updateNewOwner = (index: number, value: string) => {
     const owners = [...newOwners];
     owners[index] = value;
@@ -427,8 +541,8 @@ export function SocialRecoveryManagement({ walletAddress, isOpen, onClose, onUpd
               <div className="space-y-3">
                 {pendingRecoveries.map((recovery) => {
                   const now = BigInt(Math.floor(Date.now() / 1000));
-                  const canExecute = recovery.executionTime <= now && Number(recovery.approvalCount) >= Number(recoveryConfig.threshold);
-                  const requiredApprovals = Number(recoveryConfig.threshold);
+                  const requiredApprovals = Number(recovery.requiredThreshold || recoveryConfig.threshold);
+                  const canExecute = recovery.executionTime <= now && Number(recovery.approvalCount) >= requiredApprovals;
                   const currentApprovals = Number(recovery.approvalCount);
                   const hasApproved = approvalStatuses?.get(recovery.recoveryHash) === true;
                   
@@ -511,6 +625,18 @@ export function SocialRecoveryManagement({ walletAddress, isOpen, onClose, onUpd
                           >
                             Cancel
                           </button>
+                          <button
+                            onClick={() => {
+                              if (window.confirm('Create a proposal to veto this recovery? It needs the same approvals as any other wallet transaction.')) {
+                                proposeVetoRecovery.mutate(recovery.recoveryHash);
+                              }
+                            }}
+                            disabled={proposeVetoRecovery.isPending}
+                            className="btn-secondary text-sm px-3 py-1.5 inline-flex items-center gap-2"
+                            title="Veto with the wallet's approval threshold"
+                          >
+                            {proposeVetoRecovery.isPending && proposeVetoRecovery.variables === recovery.recoveryHash ? 'Proposing...' : 'Propose Veto'}
+                          </button>
                         </div>
                       </div>
                     </div>
@@ -524,6 +650,141 @@ export function SocialRecoveryManagement({ walletAddress, isOpen, onClose, onUpd
             )}
           </div>
         )}
+
+        {/* Guardian Rotation */}
+        {recoveryConfig && recoveryConfig.guardians.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-base font-mono text-dark-500 uppercase tracking-wider">Guardian Rotation</h3>
+              {!guardianRotation && (
+                <button
+                  onClick={() => {
+                    setShowRotateGuardians(!showRotateGuardians);
+                    setRotationErrors([]);
+                  }}
+                  className="btn-secondary text-sm px-3 py-1.5"
+                >
+                  {showRotateGuardians ? 'Cancel' : 'Rotate Guardians'}
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-dark-400 mb-3">
+              Replacing guardians takes effect only after a delay, so current guardians can still complete a recovery if the owners are compromised. Pending recoveries keep their approval threshold, but approvals from removed guardians are dropped.
+            </p>
+
+            {guardianRotation ? (
+              <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600 space-y-3">
+                <div className="text-sm text-dark-400">
+                  <div className="mb-1">
+                    <strong>New Guardians:</strong>
+                    <ul className="mt-1 space-y-1">
+                      {guardianRotation.guardians.map((guardian) => (
+                        <li key={guardian} className="font-mono text-xs text-primary-300">{guardian}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="mb-1">
+                    <strong>New Threshold:</strong> {guardianRotation.threshold.toString()} of {guardianRotation.guardians.length}
+                  </div>
+                  <div>
+                    <strong>Executable:</strong> {formatTimeUntilExecution(guardianRotation.executionTime)}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                  {guardianRotation.executionTime <= BigInt(Math.floor(rotationUpdatedAt / 1000)) && (
+                    <button
+                      onClick={() => executeGuardianRotation.mutate()}
+                      disabled={executeGuardianRotation.isPending}
+                      className="btn-primary text-sm px-3 py-1.5"
+                    >
+                      {executeGuardianRotation.isPending ? 'Executing...' : 'Execute Rotation'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => proposeCancelGuardianRotation.mutate()}
+                    disabled={proposeCancelGuardianRotation.isPending}
+                    className="btn-secondary text-sm px-3 py-1.5"
+                  >
+                    {proposeCancelGuardianRotation.isPending ? 'Proposing...' : 'Propose Cancel Rotation'}
+                  </button>
+                </div>
+              </div>
+            ) : showRotateGuardians && (
+              <div className="p-4 bg-vault-dark-4 rounded-md border border-dark-600 space-y-3">
+                <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider">
+                  New Guardians
+                </label>
+                {rotationGuardians.map((guardian, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={guardian}
+                      onChange={(e) => {
+                        setRotationGuardians(rotationGuardians.map((value, i) => (i === index ? e.target.value : value)));
+                        setRotationErrors([]);
+                      }}
+                      placeholder="0x..."
+                      className="input-field flex-1"
+                    />
+                    {rotationGuardians.length > 1 && (
+                      <button
+                        onClick={() => setRotationGuardians(rotationGuardians.filter((_, i) => i !== index))}
+                        className="btn-secondary px-3 py-2"
+                        type="button"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => setRotationGuardians([...rotationGuardians, ''])}
+                  className="btn-secondary text-sm px-3 py-1.5"
+                  type="button"
+                >
+                  Add Guardian
+                </button>
+                <div>
+                  <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                    New Threshold
+                  </label>
+                  <input
+                    type="number"
+                    value={rotationThreshold}
+                    onChange={(e) => setRotationThreshold(parseInt(e.target.value) || 1)}
+                    min={1}
+                    className="input-field w-full"
+                  />
+                </div>
+                {rotationErrors.length > 0 && (
+                  <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+                    <ul className="text-sm text-primary-200 space-y-1">
+                      {rotationErrors.map((error, index) => (
+                        <li key={index} className="font-medium">• {error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <button
+                  onClick={handleProposeRotation}
+                  disabled={proposeGuardianRotation.isPending}
+                  className="btn-primary w-full text-sm px-4 py-2"
+                >
+                  {proposeGuardianRotation.isPending ? 'Creating Proposal...' : 'Propose Guardian Rotation'}
+                </button>
+              </div>
+            )}
+            {guardianRotation && rotationErrors.length > 0 && (
+              <ul className="mt-2 text-sm text-primary-300 space-y-1">
+                {rotationErrors.map((error, index) => (
+                  <li key={index}>• {error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
     </Modal>
   );
@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useWallet } from '../hooks/useWallet';
 import { useMultisig } from '../hooks/useMultisig';
 import type { PendingTransaction } from '../types';
+import type { PendingQueuedTransaction } from '../services/MultisigService';
 import * as quais from 'quais';
 import {
   ApproveTransactionModal,
@@ -10,27 +11,60 @@ import {
   RevokeApprovalModal,
 } from './transactionModals';
 import { decodeTransaction } from '../utils/transactionDecoder';
+import { BatchCallList } from './BatchCallList';
 import { CopyButton } from './CopyButton';
 import { ExplorerLink } from './ExplorerLink';
+import { EmptyState } from './EmptyState';
+import { TransactionMemo } from './TransactionMemo';
 
 interface TransactionListProps {
   transactions: PendingTransaction[];
   walletAddress: string;
   isOwner: boolean;
+  queuedTransactions?: PendingQueuedTransaction[];
 }
 
 function formatAddress(addr: string): string {
   return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
 }
 
-export function TransactionList({ transactions, walletAddress, isOwner }: TransactionListProps) {
+function formatCountdown(executeAfter: bigint, now: number): string {
+  const secondsRemaining = Number(executeAfter) - now;
+  if (secondsRemaining <= 0) {
+    return 'Ready to execute';
+  }
+  const days = Math.floor(secondsRemaining / 86400);
+  const hours = Math.floor((secondsRemaining % 86400) / 3600);
+  const minutes = Math.floor((secondsRemaining % 3600) / 60);
+  const seconds = secondsRemaining % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  return `${minutes}m ${seconds}s`;
+}
+
+export function TransactionList({ transactions, walletAddress, isOwner, queuedTransactions = [] }: TransactionListProps) {
   const { address: connectedAddress } = useWallet();
-  const { refreshTransactions } = useMultisig(walletAddress);
+  const {
+    refreshTransactions,
+    executeQueuedTransaction,
+    vetoTransaction,
+    isExecutingQueued,
+    isVetoing,
+  } = useMultisig(walletAddress);
   const [approveModalTx, setApproveModalTx] = useState<PendingTransaction | null>(null);
   const [executeModalTx, setExecuteModalTx] = useState<PendingTransaction | null>(null);
   const [cancelModalTx, setCancelModalTx] = useState<PendingTransaction | null>(null);
   const [revokeModalTx, setRevokeModalTx] = useState<PendingTransaction | null>(null);
   const [copiedHash, setCopiedHash] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // Tick once per second so cooldown countdowns stay live
+  useEffect(() => {
+    if (queuedTransactions.length === 0) return;
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [queuedTransactions.length]);
 
   const copyToClipboard = async (hash: string) => {
     try {
@@ -65,7 +99,109 @@ export function TransactionList({ transactions, walletAddress, isOwner }: Transa
 
   return (
     <div className="space-y-3">
-      {transactions.length === 0 ? (
+      {/* Transactions waiting out the delay module cooldown */}
+      {queuedTransactions.map((queued) => {
+        const isReady = Number(queued.executeAfter) <= now;
+        const decoded = decodeTransaction(
+          { to: queued.to, value: queued.value.toString(), data: queued.data },
+          walletAddress
+        );
+
+        return (
+          <div
+            key={queued.txHash}
+            className="vault-panel p-5 border-l-4 border-l-blue-600 hover:border-primary-600/50 transition-all duration-300"
+          >
+            <div className="flex flex-col sm:flex-row justify-between items-start gap-4 mb-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-4 mb-2.5">
+                  <span className={`inline-flex items-center px-3 py-1.5 rounded text-base font-semibold ${decoded.bgColor} ${decoded.textColor} border ${decoded.borderColor} shadow-vault-inner`}>
+                    <span className="mr-2">{decoded.icon}</span>
+                    {decoded.description}
+                  </span>
+                  <span className={`inline-flex items-center px-3 py-1.5 rounded text-base font-semibold border shadow-vault-inner ${
+                    isReady
+                      ? 'bg-gradient-to-r from-primary-700 to-primary-800 text-primary-200 border-primary-600'
+                      : 'bg-blue-900/50 text-blue-200 border-blue-700'
+                  }`}>
+                    <svg className="w-3.5 h-3.5 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    {isReady ? 'Ready to execute' : `Cooldown: ${formatCountdown(queued.executeAfter, now)}`}
+                  </span>
+                </div>
+                {decoded.details && (
+                  <p className="text-base text-dark-300 font-medium mt-1 mb-0.5">{decoded.details}</p>
+                )}
+                <p className="text-base font-mono text-dark-600 uppercase tracking-wider">
+                  Executable after {formatTimestamp(queued.executeAfter)}
+                </p>
+              </div>
+              <div className="text-right flex-shrink-0">
+                {queued.value > 0n && (
+                  <div className="bg-vault-dark-4 rounded px-4 py-2.5 border border-dark-600 mb-1.5">
+                    <p className="text-base font-mono text-dark-500 uppercase tracking-wider mb-0.5">Value</p>
+                    <p className="text-base font-display font-bold text-gradient-red vault-text-glow">
+                      {parseFloat(quais.formatQuai(queued.value)).toFixed(4)} QUAI
+                    </p>
+                  </div>
+                )}
+                <div className="bg-vault-dark-4 rounded px-4 py-2.5 border border-dark-600">
+                  <p className="text-base font-mono text-dark-500 uppercase tracking-wider mb-1">Queue Hash</p>
+                  <div className="flex items-center gap-4">
+                    <p className="text-base font-mono text-primary-400 break-all max-w-[120px] flex-1">
+                      {formatAddress(queued.txHash)}
+                    </p>
+                    <CopyButton text={queued.txHash} size="sm" />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {queued.to.toLowerCase() !== walletAddress.toLowerCase() && (
+              <div className="bg-vault-dark-4 rounded p-4 mb-3 border border-dark-600">
+                <div className="flex justify-between items-center text-base gap-4">
+                  <span className="text-base font-mono text-dark-500 uppercase tracking-wider">To:</span>
+                  <span className="font-mono text-primary-300">{formatAddress(queued.to)}</span>
+                </div>
+              </div>
+            )}
+
+            {isOwner && (
+              <div className="pt-3 border-t border-dark-700">
+                <div className="flex flex-wrap gap-4">
+                  {isReady && (
+                    <button
+                      onClick={() => executeQueuedTransaction({ walletAddress, txHash: queued.txHash })}
+                      disabled={isExecutingQueued}
+                      className="btn-primary inline-flex items-center gap-2 text-base bg-gradient-to-r from-primary-500 to-primary-600"
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                      Execute
+                    </button>
+                  )}
+                  <button
+                    onClick={() => vetoTransaction({ walletAddress, txHash: queued.txHash })}
+                    disabled={isVetoing}
+                    className="px-5 py-2.5 text-base font-semibold text-white bg-gradient-to-r from-red-600 to-red-700 rounded border border-red-700 shadow-vault-button hover:shadow-red-glow transition-all duration-300 disabled:opacity-50"
+                  >
+                    <span className="inline-flex items-center gap-2">
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                      </svg>
+                      Veto
+                    </span>
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {transactions.length === 0 && queuedTransactions.length === 0 ? (
         <EmptyState
           icon={
             <svg
@@ -95,14 +231,18 @@ export function TransactionList({ transactions, walletAddress, isOwner }: Transa
                   approved && owner.toLowerCase() === connectedAddress.toLowerCase()
               )
             : false;
-          const canExecute = tx.numApprovals >= tx.threshold;
-          const approvalPercentage = (Number(tx.numApprovals) / Number(tx.threshold)) * 100;
+          const isExpired = !!tx.expired;
+          // Threshold is a summed owner weight (one per approval on unweighted wallets)
+          const approvalWeight = tx.approvalWeight ?? tx.numApprovals;
+          const isWeighted = approvalWeight !== tx.numApprovals;
+          const canExecute = approvalWeight >= tx.threshold && !isExpired;
+          const approvalPercentage = (Number(approvalWeight) / Number(tx.threshold)) * 100;
           const decoded = decodeTransaction(tx, walletAddress);
           
           // Check if user can cancel: proposer can always cancel, others need threshold approvals
           const isProposer = connectedAddress && tx.proposer && 
             tx.proposer.toLowerCase() === connectedAddress.toLowerCase();
-          const canCancel = isProposer || (tx.numApprovals >= tx.threshold);
+          const canCancel = isProposer || (approvalWeight >= tx.threshold);
 
           return (
             <div
@@ -125,11 +265,25 @@ export function TransactionList({ transactions, walletAddress, isOwner }: Transa
                       Ready to execute
                     </span>
                   )}
+                  {isExpired && (
+                    <span className="inline-flex items-center px-3 py-1.5 rounded text-base font-semibold bg-yellow-900/30 text-yellow-500 border border-yellow-700/50 shadow-vault-inner">
+                      <svg className="w-3.5 h-3.5 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      Expired
+                    </span>
+                  )}
                 </div>
                 {decoded.details && (
                   <p className="text-base text-dark-300 font-medium mt-1 mb-0.5">{decoded.details}</p>
                 )}
+                <TransactionMemo memo={tx.memo} className="mt-1" />
                 <p className="text-base font-mono text-dark-600 uppercase tracking-wider">{formatTimestamp(tx.timestamp)}</p>
+                {tx.validUntil ? (
+                  <p className={`text-base font-mono uppercase tracking-wider ${isExpired ? 'text-yellow-600' : 'text-dark-600'}`}>
+                    {isExpired ? 'Expired' : 'Expires'} {formatTimestamp(tx.validUntil)}
+                  </p>
+                ) : null}
               </div>
               <div className="text-right flex-shrink-0">
                 {tx.value !== '0' && (
@@ -163,12 +317,16 @@ export function TransactionList({ transactions, walletAddress, isOwner }: Transa
               </div>
             )}
 
+            {decoded.subCalls && <BatchCallList subCalls={decoded.subCalls} />}
+
             {/* Approval Progress */}
             <div className="mb-3">
               <div className="flex justify-between items-center mb-1">
-                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Approvals</span>
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                  {isWeighted ? `Approval Weight (${tx.numApprovals} approvals)` : 'Approvals'}
+                </span>
                 <span className="text-base font-semibold text-dark-200">
-                  <span className="text-primary-400">{tx.numApprovals.toString()}</span>
+                  <span className="text-primary-400">{approvalWeight.toString()}</span>
                   <span className="text-dark-500 mx-0.5">/</span>
                   <span className="text-dark-300">{tx.threshold.toString()}</span>
                 </span>
@@ -206,6 +364,16 @@ export function TransactionList({ transactions, walletAddress, isOwner }: Transa
                     </span>
                   );
                 })}
+                {tx.formerOwnerApprovals?.map((formerOwner) => (
+                  <span
+                    key={formerOwner}
+                    className="inline-flex items-center px-3 py-1.5 rounded text-base font-medium border shadow-vault-inner bg-vault-dark-4 text-dark-500 border-dark-700"
+                    title="Approval from a removed owner does not count toward the threshold"
+                  >
+                    <span className="font-mono line-through">{formatAddress(formerOwner)}</span>
+                    <span className="ml-2">former owner (not counted)</span>
+                  </span>
+                ))}
               </div>
             </div>
 
@@ -213,7 +381,7 @@ export function TransactionList({ transactions, walletAddress, isOwner }: Transa
             {isOwner && (
               <div className="pt-3 border-t border-dark-700">
                 <div className="flex flex-wrap gap-4">
-                  {!hasApproved ? (
+                  {isExpired ? null : !hasApproved ? (
                     <button
                       onClick={() => handleApprove(tx)}
                       disabled={hasApproved}
@@ -0,0 +1,18 @@
+interface TransactionMemoProps {
+  memo?: string;
+  className?: string;
+}
+
+/**
+ * Proposal memo shown next to the decoded call
+ */
+export function TransactionMemo({ memo, className = '' }: TransactionMemoProps) {
+  if (!memo) return null;
+
+  return (
+    <p className={`flex items-start gap-2 text-base text-dark-400 italic break-words ${className}`} title="Memo from the proposer">
+      <span className="not-italic flex-shrink-0">📝</span>
+      <span>{memo}</span>
+    </p>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { decodeTransaction } from '../utils/transactionDecoder';
 import { transactionBuilderService } from '../services/TransactionBuilderService';
+import { BatchCallList } from './BatchCallList';
 import { multisigService } from '../services/MultisigService';
 import * as quais from 'quais';
 import MultisigWalletABI from '../config/abi/MultisigWallet.json';
@@ -131,7 +132,13 @@ export function TransactionPreview({
             </div>
           )}
 
-          {decodedCall && (
+          {decoded.subCalls && (
+            <div className="pt-3 border-t border-dark-600">
+              <BatchCallList subCalls={decoded.subCalls} />
+            </div>
+          )}
+
+          {decodedCall && !decoded.subCalls && (
             <div className="pt-3 border-t border-dark-600">
               <div className="text-base font-mono text-dark-500 uppercase tracking-wider mb-2">Function Call:</div>
               <div className="bg-vault-dark-3 rounded p-3 font-mono text-sm text-dark-300">
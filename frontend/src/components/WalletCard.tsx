@@ -77,7 +77,7 @@ export function WalletCard({ walletAddress, compact = false }: WalletCardProps)
         </div>
         <div className="flex items-center justify-between text-base">
           <span className="text-dark-500 font-mono">
-            {walletInfo.threshold}/{walletInfo.owners.length}
+            {walletInfo.threshold}/{walletInfo.totalWeight ?? walletInfo.owners.length}
           </span>
           <span className="text-primary-400 font-display font-semibold">
             {parseFloat(quais.formatQuai(walletInfo.balance)).toFixed(2)} QUAI
@@ -127,7 +127,7 @@ export function WalletCard({ walletAddress, compact = false }: WalletCardProps)
               {walletInfo.owners.length} Owner{walletInfo.owners.length !== 1 ? 's' : ''}
             </span>
             <span className="vault-badge border-primary-600/30 text-primary-400">
-              {walletInfo.threshold}/{walletInfo.owners.length} Required
+              {walletInfo.threshold}/{walletInfo.totalWeight ?? walletInfo.owners.length} Required
             </span>
           </div>
         </div>
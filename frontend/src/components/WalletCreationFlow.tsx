@@ -1,7 +1,10 @@
 import { useState } from 'react';
+import { ModuleSetupStep } from './ModuleSetupStep';
+import type { ModuleSetupConfig } from '../types';
 
 export type DeploymentStep = 
   | 'preparing'
+  | 'modules'
   | 'deploying'
   | 'deploying_waiting'
   | 'registering'
@@ -22,13 +25,15 @@ export interface DeploymentProgress {
 interface WalletCreationFlowProps {
   owners: string[];
   threshold: number;
+  weights?: number[];  // Voting weight per owner (omit for one vote each)
+  predictedAddress?: string;  // Address from a mined salt (the factory deploys, sets up modules and registers in one transaction)
   onDeploy: (onProgress: (progress: {
     step: 'deploying' | 'deploying_waiting' | 'registering' | 'registering_waiting' | 'verifying' | 'success';
     deployTxHash?: string;
     registerTxHash?: string;
     walletAddress?: string;
     message?: string;
-  }) => void) => Promise<string>;
+  }) => void, modules?: ModuleSetupConfig) => Promise<string>;
   onComplete: (walletAddress: string) => void;
   onCancel: () => void;
 }
@@ -36,6 +41,8 @@ interface WalletCreationFlowProps {
 export function WalletCreationFlow({
   owners,
   threshold,
+  weights,
+  predictedAddress,
   onDeploy,
   onComplete,
   onCancel,
@@ -44,8 +51,12 @@ export function WalletCreationFlow({
     step: 'preparing',
   });
   const [copied, setCopied] = useState(false);
+  const [moduleSetup, setModuleSetup] = useState<ModuleSetupConfig | undefined>(undefined);
 
-  const startDeployment = async () => {
+  // Threshold is a summed owner weight; with one vote each this is the owner count
+  const totalWeight = weights ? weights.reduce((total, weight) => total + weight, 0) : owners.length;
+
+  const startDeployment = async (modules?: ModuleSetupConfig) => {
     try {
       setProgress({ step: 'deploying', message: 'Preparing deployment transaction...' });
       
@@ -58,7 +69,7 @@ export function WalletCreationFlow({
           walletAddress: progressUpdate.walletAddress,
           message: progressUpdate.message,
         });
-      });
+      }, modules);
       
       // Ensure success state is set
       setProgress({
@@ -122,22 +133,61 @@ export function WalletCreationFlow({
                     key={index}
                     className="px-4 py-3 bg-vault-dark-4 rounded-md border border-dark-600 text-lg font-mono text-primary-300"
                   >
-                    {owner}
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="break-all">{owner}</span>
+                      {weights && (
+                        <span className="vault-badge text-base flex-shrink-0" title="Voting weight">
+                          ×{weights[index]}
+                        </span>
+                      )}
+                    </div>
+                    {weights && (
+                      <div className="w-full bg-vault-dark-3 rounded-full h-1 border border-dark-600 overflow-hidden mt-2">
+                        <div
+                          className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600"
+                          style={{ width: `${(weights[index] / totalWeight) * 100}%` }}
+                        ></div>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
 
             <div>
-              <label className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">Required Approvals</label>
+              <label className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+                {weights ? 'Required Approval Weight' : 'Required Approvals'}
+              </label>
               <p className="text-lg font-semibold text-dark-200">
                 <span className="text-primary-400">{threshold}</span>
                 <span className="text-dark-500 mx-2">of</span>
-                <span className="text-dark-300">{owners.length}</span>
-                <span className="text-dark-500 ml-2 text-lg font-normal">owner{owners.length !== 1 ? 's' : ''}</span>
+                <span className="text-dark-300">{totalWeight}</span>
+                <span className="text-dark-500 ml-2 text-lg font-normal">
+                  {weights ? 'total weight' : `owner${owners.length !== 1 ? 's' : ''}`}
+                </span>
               </p>
+              {weights && (
+                <div className="w-full bg-vault-dark-4 rounded-full h-1.5 border border-dark-600 shadow-vault-inner overflow-hidden mt-3">
+                  <div
+                    className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600"
+                    style={{ width: `${Math.min((threshold / totalWeight) * 100, 100)}%` }}
+                  ></div>
+                </div>
+              )}
             </div>
 
+            {predictedAddress && (
+              <div>
+                <label className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">Vault Address</label>
+                <div className="px-4 py-3 bg-vault-dark-4 rounded-md border border-dark-600">
+                  <code className="text-lg font-mono text-primary-300 break-all">{predictedAddress}</code>
+                </div>
+                <p className="mt-2 text-base font-mono text-dark-600">
+                  Your vault will be deployed at exactly this address
+                </p>
+              </div>
+            )}
+
             <div className="bg-vault-dark-4 border border-dark-600 rounded-md p-5">
               <h3 className="text-lg font-semibold text-dark-200 mb-3 flex items-center gap-4">
                 <svg className="w-5 h-5 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -145,42 +195,63 @@ export function WalletCreationFlow({
                 </svg>
                 Important Information
               </h3>
-              <ul className="text-lg text-dark-400 space-y-2">
-                <li className="flex items-start gap-4">
-                  <span className="text-primary-500 mt-1">•</span>
-                  <span>You will need to approve <strong className="text-dark-200">2 transactions</strong> in your wallet</span>
-                </li>
-                <li className="flex items-start gap-4">
-                  <span className="text-primary-500 mt-1">•</span>
-                  <span><strong className="text-dark-200">First transaction:</strong> Deploy the Multisig Vault</span>
-                </li>
-                <li className="flex items-start gap-4">
-                  <span className="text-primary-500 mt-1">•</span>
-                  <span><strong className="text-dark-200">Second transaction:</strong> Register the Vault</span>
-                </li>
-                <li className="flex items-start gap-4">
-                  <span className="text-primary-500 mt-1">•</span>
-                  <span>Each transaction requires gas fees</span>
-                </li>
-                <li className="flex items-start gap-4">
-                  <span className="text-primary-500 mt-1">•</span>
-                  <span>The wallet address will be generated after deployment</span>
-                </li>
-              </ul>
+              {predictedAddress ? (
+                <ul className="text-lg text-dark-400 space-y-2">
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>You will need to approve <strong className="text-dark-200">1 transaction</strong> in your wallet</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>The factory deploys and registers the Vault in the same transaction</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>Next you can enable modules that are configured in that transaction too</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>The transaction requires gas fees</span>
+                  </li>
+                </ul>
+              ) : (
+                <ul className="text-lg text-dark-400 space-y-2">
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>You will need to approve <strong className="text-dark-200">2 transactions</strong> in your wallet</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span><strong className="text-dark-200">First transaction:</strong> Deploy the Multisig Vault</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span><strong className="text-dark-200">Second transaction:</strong> Register the Vault</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>Each transaction requires gas fees</span>
+                  </li>
+                  <li className="flex items-start gap-4">
+                    <span className="text-primary-500 mt-1">•</span>
+                    <span>The wallet address will be generated after deployment</span>
+                  </li>
+                </ul>
+              )}
             </div>
           </div>
 
           <div className="vault-divider pt-6 mt-8">
             <div className="flex flex-wrap gap-4">
               <button
-                onClick={startDeployment}
+                onClick={() => (predictedAddress ? setProgress({ step: 'modules' }) : startDeployment())}
                 className="btn-primary flex-1 min-w-[200px]"
               >
                 <span className="flex items-center justify-center gap-4">
                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                   </svg>
-                  Start Deployment
+                  {predictedAddress ? 'Next: Modules' : 'Start Deployment'}
                 </span>
               </button>
               <button
@@ -194,8 +265,19 @@ export function WalletCreationFlow({
         </div>
       )}
 
+      {/* Module Setup (salted deployments only) */}
+      {progress.step === 'modules' && (
+        <ModuleSetupStep
+          onBack={() => setProgress({ step: 'preparing' })}
+          onContinue={(modules) => {
+            setModuleSetup(modules);
+            startDeployment(modules);
+          }}
+        />
+      )}
+
       {/* Deployment Steps */}
-      {progress.step !== 'preparing' && progress.step !== 'error' && (
+      {progress.step !== 'preparing' && progress.step !== 'modules' && progress.step !== 'error' && (
         <div className="vault-panel p-8">
           <div className="space-y-8">
             {/* Step 1: Deploy Multisig Vault */}
@@ -255,7 +337,8 @@ export function WalletCreationFlow({
               </div>
             </div>
 
-            {/* Step 2: Register Wallet */}
+            {/* Step 2: Register Wallet (the factory registers salted deployments itself) */}
+            {!predictedAddress && (
             <div className="flex gap-6">
               <div className="flex-shrink-0">
                 <div
@@ -311,6 +394,7 @@ export function WalletCreationFlow({
                 )}
               </div>
             </div>
+            )}
 
             {/* Success Message */}
             {progress.step === 'success' && progress.walletAddress && (
@@ -394,7 +478,7 @@ export function WalletCreationFlow({
             </div>
             <div className="vault-divider pt-6">
               <div className="flex flex-wrap gap-4">
-                <button onClick={startDeployment} className="btn-primary">
+                <button onClick={() => startDeployment(moduleSetup)} className="btn-primary">
                   Try Again
                 </button>
                 <button onClick={onCancel} className="btn-secondary">
@@ -4,6 +4,7 @@ import { multisigService } from '../services/MultisigService';
 import { notificationManager } from './NotificationContainer';
 import { EmptyState } from './EmptyState';
 import { Modal } from './Modal';
+import { WhitelistFunctionPermissions } from './WhitelistFunctionPermissions';
 import * as quais from 'quais';
 
 interface WhitelistConfigurationProps {
@@ -17,6 +18,11 @@ export function WhitelistConfiguration({ walletAddress, onUpdate }: WhitelistCon
   const [newLimit, setNewLimit] = useState('');
   const [errors, setErrors] = useState<string[]>([]);
   const [addressToRemove, setAddressToRemove] = useState<string | null>(null);
+  const [expandedAddress, setExpandedAddress] = useState<string | null>(null);
+  const [periodLimitAddress, setPeriodLimitAddress] = useState<string | null>(null);
+  const [periodLimitAmount, setPeriodLimitAmount] = useState('');
+  const [periodLimitDays, setPeriodLimitDays] = useState('30');
+  const [periodLimitErrors, setPeriodLimitErrors] = useState<string[]>([]);
 
   // Query whitelisted addresses
   const { data: whitelistedAddresses, isLoading, refetch } = useQuery({
@@ -95,6 +101,58 @@ export function WhitelistConfiguration({ walletAddress, onUpdate }: WhitelistCon
     },
   });
 
+  // Propose cumulative period limit mutation
+  const proposeSetPeriodLimit = useMutation({
+    mutationFn: async ({ address, limit, period }: { address: string; limit: bigint; period: number }) => {
+      return await multisigService.proposeSetPeriodLimit(walletAddress, address, limit, period);
+    },
+    onSuccess: (_txHash, variables) => {
+      const shortAddress = `${variables.address.slice(0, 6)}...${variables.address.slice(-4)}`;
+      notificationManager.add({
+        message: variables.limit === 0n
+          ? `Proposal created to remove the period limit for ${shortAddress}. Requires multisig approval.`
+          : `Proposal created to limit ${shortAddress} to ${parseFloat(quais.formatQuai(variables.limit)).toFixed(4)} QUAI per ${variables.period / 86400} days. Requires multisig approval.`,
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setPeriodLimitAddress(null);
+      setPeriodLimitAmount('');
+      setPeriodLimitErrors([]);
+      onUpdate();
+    },
+    onError: (error) => {
+      setPeriodLimitErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const handleSetPeriodLimit = (address: string) => {
+    const newErrors: string[] = [];
+    let limit = 0n;
+    if (periodLimitAmount.trim() !== '' && periodLimitAmount.trim() !== '0') {
+      try {
+        limit = quais.parseQuai(periodLimitAmount.trim());
+      } catch {
+        newErrors.push('Period limit must be a QUAI amount');
+      }
+    }
+    const days = parseInt(periodLimitDays);
+    if (limit > 0n && (isNaN(days) || days < 1 || days > 365)) {
+      newErrors.push('Period must be between 1 and 365 days');
+    }
+
+    setPeriodLimitErrors(newErrors);
+    if (newErrors.length === 0) {
+      proposeSetPeriodLimit.mutate({ address, limit, period: limit > 0n ? days * 86400 : 0 });
+    }
+  };
+
+  const togglePeriodLimitForm = (address: string) => {
+    setPeriodLimitAddress(periodLimitAddress === address ? null : address);
+    setPeriodLimitAmount('');
+    setPeriodLimitDays('30');
+    setPeriodLimitErrors([]);
+  };
+
   const validateForm = (): boolean => {
     const newErrors: string[] = [];
 
@@ -153,6 +211,16 @@ export function WhitelistConfiguration({ walletAddress, onUpdate }: WhitelistCon
     return `${parseFloat(quais.formatQuai(limit)).toFixed(4)} QUAI`;
   };
 
+  const formatDuration = (seconds: number): string => {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) {
+      return `${days}d ${hours}h`;
+    }
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  };
+
   return (
     <Modal
       isOpen={true}
@@ -190,6 +258,9 @@ export function WhitelistConfiguration({ walletAddress, onUpdate }: WhitelistCon
             <p className="text-sm text-blue-200/90">
               <strong>Important:</strong> Only use whitelist for trusted addresses. Once whitelisted, any owner can send funds to that address without approval from other owners.
             </p>
+            <p className="text-sm text-blue-200/90 mt-2">
+              Use <strong>Functions</strong> on a whitelisted contract to limit which of its functions can be called, and optionally pin parameters such as requiring the recipient to be this vault.
+            </p>
           </div>
           </div>
         </div>
@@ -284,36 +355,108 @@ export function WhitelistConfiguration({ walletAddress, onUpdate }: WhitelistCon
             {whitelistedAddresses.map((entry) => (
               <div
                 key={entry.address}
-                className="flex items-center justify-between p-3 bg-vault-dark-4 rounded-md border border-dark-600 hover:border-primary-600/30 transition-all"
+                className="p-3 bg-vault-dark-4 rounded-md border border-dark-600 hover:border-primary-600/30 transition-all"
               >
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-3 mb-1">
-                    <div className="w-2 h-2 rounded-full bg-primary-600"></div>
-                    <span className="text-base font-mono text-primary-300 truncate">{entry.address}</span>
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 mb-1">
+                      <div className="w-2 h-2 rounded-full bg-primary-600"></div>
+                      <span className="text-base font-mono text-primary-300 truncate">{entry.address}</span>
+                    </div>
+                    <p className="text-sm text-dark-500">
+                      Limit: <span className="font-semibold text-dark-300">{formatLimit(entry.limit)}</span>
+                    </p>
+                    {entry.periodLimit && (
+                      <p className="text-sm text-dark-500">
+                        Period limit:{' '}
+                        <span className="font-semibold text-dark-300">
+                          {parseFloat(quais.formatQuai(entry.periodLimit.spent)).toFixed(4)} / {formatLimit(entry.periodLimit.limit)}
+                        </span>{' '}
+                        per {formatDuration(entry.periodLimit.period)}, resets in {formatDuration(entry.periodLimit.timeUntilReset)}
+                      </p>
+                    )}
                   </div>
-                  <p className="text-sm text-dark-500">
-                    Limit: <span className="font-semibold text-dark-300">{formatLimit(entry.limit)}</span>
-                  </p>
+                  <button
+                    onClick={() => togglePeriodLimitForm(entry.address)}
+                    className="btn-secondary text-sm px-3 py-1.5 mr-2 flex-shrink-0"
+                  >
+                    Period Limit
+                  </button>
+                  <button
+                    onClick={() => setExpandedAddress(expandedAddress === entry.address ? null : entry.address)}
+                    className="btn-secondary text-sm px-3 py-1.5 mr-2 flex-shrink-0"
+                  >
+                    {expandedAddress === entry.address ? 'Hide Functions' : 'Functions'}
+                  </button>
+                  <button
+                    onClick={() => handleRemove(entry.address)}
+                    disabled={proposeRemoveFromWhitelist.isPending}
+                    className="btn-secondary text-sm px-3 py-1.5 inline-flex items-center gap-2 flex-shrink-0"
+                  >
+                    {proposeRemoveFromWhitelist.isPending && addressToRemove === entry.address ? (
+                      <>
+                        <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                        Creating Proposal...
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                        Propose Remove
+                      </>
+                    )}
+                  </button>
                 </div>
-                <button
-                  onClick={() => handleRemove(entry.address)}
-                  disabled={proposeRemoveFromWhitelist.isPending}
-                  className="btn-secondary text-sm px-3 py-1.5 inline-flex items-center gap-2 flex-shrink-0"
-                >
-                  {proposeRemoveFromWhitelist.isPending && addressToRemove === entry.address ? (
-                    <>
-                      <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
-                      Creating Proposal...
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                      Propose Remove
-                    </>
-                  )}
-                </button>
+                {periodLimitAddress === entry.address && (
+                  <div className="mt-3 pt-3 border-t border-dark-600 space-y-3">
+                    <p className="text-sm text-dark-400">
+                      Cap the total sent to this address per period, in addition to the per-transaction limit. Leave the amount empty or 0 to remove the period limit.
+                    </p>
+                    <div className="flex gap-3">
+                      <input
+                        type="text"
+                        value={periodLimitAmount}
+                        onChange={(e) => {
+                          setPeriodLimitAmount(e.target.value);
+                          setPeriodLimitErrors([]);
+                        }}
+                        placeholder="Amount per period (QUAI)"
+                        className="input-field flex-1"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        max={365}
+                        value={periodLimitDays}
+                        onChange={(e) => {
+                          setPeriodLimitDays(e.target.value);
+                          setPeriodLimitErrors([]);
+                        }}
+                        className="input-field w-24"
+                        title="Period (days)"
+                      />
+                      <span className="self-center text-sm text-dark-500">days</span>
+                    </div>
+                    {periodLimitErrors.length > 0 && (
+                      <ul className="text-sm text-primary-300 space-y-1">
+                        {periodLimitErrors.map((error, index) => (
+                          <li key={index}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <button
+                      onClick={() => handleSetPeriodLimit(entry.address)}
+                      disabled={proposeSetPeriodLimit.isPending}
+                      className="btn-primary text-sm px-3 py-1.5"
+                    >
+                      {proposeSetPeriodLimit.isPending ? 'Creating Proposal...' : 'Propose Period Limit'}
+                    </button>
+                  </div>
+                )}
+                {expandedAddress === entry.address && (
+                  <WhitelistFunctionPermissions walletAddress={walletAddress} address={entry.address} />
+                )}
               </div>
             ))}
           </div>
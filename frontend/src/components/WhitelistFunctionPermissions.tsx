@@ -0,0 +1,328 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { multisigService } from '../services/MultisigService';
+import { notificationManager } from './NotificationContainer';
+import {
+  PARAM_CONDITION,
+  parseAbiFunctions,
+  getParamSlots,
+  encodeConstraintValue,
+  type ParamConstraint,
+  type ParamSlot,
+} from '../utils/functionPermissions';
+import * as quais from 'quais';
+
+interface WhitelistFunctionPermissionsProps {
+  walletAddress: string;
+  address: string;
+}
+
+type ConstraintChoice = 'none' | 'equal' | 'wallet' | 'max';
+
+interface ConstraintInput {
+  choice: ConstraintChoice;
+  value: string;
+}
+
+const CONDITION_LABELS: Record<number, string> = {
+  [PARAM_CONDITION.Equal]: '=',
+  [PARAM_CONDITION.EqualToWallet]: '= vault',
+  [PARAM_CONDITION.LessOrEqual]: '≤',
+};
+
+/**
+ * Shows and proposes the functions a whitelisted address may be called with
+ */
+export function WhitelistFunctionPermissions({ walletAddress, address }: WhitelistFunctionPermissionsProps) {
+  const queryClient = useQueryClient();
+  const [abiText, setAbiText] = useState('');
+  const [selectedSelector, setSelectedSelector] = useState('');
+  const [constraintInputs, setConstraintInputs] = useState<Record<number, ConstraintInput>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+  const [selectorToRemove, setSelectorToRemove] = useState<string | null>(null);
+
+  const { data: permissions, isLoading } = useQuery({
+    queryKey: ['functionPermissions', walletAddress, address],
+    queryFn: async () => {
+      return await multisigService.getFunctionPermissions(walletAddress, address);
+    },
+    enabled: !!walletAddress && !!address,
+    refetchInterval: 30000,
+  });
+
+  const { functions, abiError } = useMemo(() => {
+    try {
+      return { functions: parseAbiFunctions(abiText), abiError: null };
+    } catch (error) {
+      return { functions: [], abiError: error instanceof Error ? error.message : 'Invalid ABI' };
+    }
+  }, [abiText]);
+
+  const selectedFunction = functions.find((fragment) => fragment.selector === selectedSelector);
+  const slots = selectedFunction ? getParamSlots(selectedFunction) : [];
+
+  const describeSelector = (selector: string): string => {
+    const fragment = functions.find((candidate) => candidate.selector === selector);
+    return fragment ? fragment.format('sighash') : selector;
+  };
+
+  const describeConstraint = (selector: string, constraint: ParamConstraint): string => {
+    const fragment = functions.find((candidate) => candidate.selector === selector);
+    const slot = fragment ? getParamSlots(fragment).find((candidate) => candidate.index === constraint.index) : undefined;
+    const name = slot ? slot.name : `word ${constraint.index}`;
+    if (constraint.condition === PARAM_CONDITION.EqualToWallet) {
+      return `${name} ${CONDITION_LABELS[constraint.condition]}`;
+    }
+    let value = constraint.value;
+    if (slot?.type === 'address') {
+      value = quais.getAddress(quais.dataSlice(constraint.value, 12));
+    } else if (slot?.type.startsWith('uint')) {
+      value = BigInt(constraint.value).toString();
+    }
+    return `${name} ${CONDITION_LABELS[constraint.condition]} ${value}`;
+  };
+
+  const proposeSetAllowedSelector = useMutation({
+    mutationFn: async ({ selector, constraints }: { selector: string; constraints: ParamConstraint[] }) => {
+      return await multisigService.proposeSetAllowedSelector(walletAddress, address, selector, constraints);
+    },
+    onSuccess: (_txHash, variables) => {
+      notificationManager.add({
+        message: `Proposal created to allow ${describeSelector(variables.selector)} on ${address.slice(0, 6)}...${address.slice(-4)}. Requires multisig approval.`,
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setSelectedSelector('');
+      setConstraintInputs({});
+      setErrors([]);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const proposeRemoveAllowedSelector = useMutation({
+    mutationFn: async (selector: string) => {
+      return await multisigService.proposeRemoveAllowedSelector(walletAddress, address, selector);
+    },
+    onSuccess: (_txHash, selector) => {
+      notificationManager.add({
+        message: `Proposal created to remove ${describeSelector(selector)} from allowed functions. Requires multisig approval.`,
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setSelectorToRemove(null);
+    },
+    onError: (error) => {
+      setSelectorToRemove(null);
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  const choicesFor = (slot: ParamSlot): { value: ConstraintChoice; label: string }[] => {
+    const choices: { value: ConstraintChoice; label: string }[] = [
+      { value: 'none', label: 'Any value' },
+      { value: 'equal', label: 'Equals' },
+    ];
+    if (slot.type === 'address') {
+      choices.push({ value: 'wallet', label: 'Is this vault' });
+    }
+    if (slot.type.startsWith('uint')) {
+      choices.push({ value: 'max', label: 'At most' });
+    }
+    return choices;
+  };
+
+  const updateConstraint = (index: number, update: Partial<ConstraintInput>) => {
+    const current = constraintInputs[index] ?? { choice: 'none', value: '' };
+    setConstraintInputs({ ...constraintInputs, [index]: { ...current, ...update } });
+    setErrors([]);
+  };
+
+  const handlePropose = () => {
+    if (!selectedFunction) {
+      setErrors(['Select a function to allow']);
+      return;
+    }
+
+    const newErrors: string[] = [];
+    const constraints: ParamConstraint[] = [];
+    for (const slot of slots) {
+      const input = constraintInputs[slot.index];
+      if (!slot.constrainable || !input || input.choice === 'none') {
+        continue;
+      }
+      if (input.choice === 'wallet') {
+        constraints.push({ index: slot.index, condition: PARAM_CONDITION.EqualToWallet, value: quais.ZeroHash });
+        continue;
+      }
+      try {
+        constraints.push({
+          index: slot.index,
+          condition: input.choice === 'max' ? PARAM_CONDITION.LessOrEqual : PARAM_CONDITION.Equal,
+          value: encodeConstraintValue(slot.type, input.value),
+        });
+      } catch {
+        newErrors.push(`Invalid ${slot.type} value for ${slot.name}`);
+      }
+    }
+
+    setErrors(newErrors);
+    if (newErrors.length === 0) {
+      proposeSetAllowedSelector.mutate({ selector: selectedFunction.selector, constraints });
+    }
+  };
+
+  const handleRemove = (selector: string) => {
+    if (window.confirm(`Create a proposal to stop allowing ${describeSelector(selector)}? This will require multisig approval.`)) {
+      setSelectorToRemove(selector);
+      proposeRemoveAllowedSelector.mutate(selector);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-dark-600 space-y-4">
+      {/* Current permissions */}
+      <div>
+        <h4 className="text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">Allowed Functions</h4>
+        {isLoading ? (
+          <p className="text-sm text-dark-400">Loading permissions...</p>
+        ) : !permissions?.restricted ? (
+          <p className="text-sm text-dark-400">Any function may be called. Allowing a function restricts this address to its allowed functions, which also blocks plain transfers.</p>
+        ) : permissions.functions.length === 0 ? (
+          <p className="text-sm text-dark-400">No functions allowed. Every call to this address, including plain transfers, is blocked.</p>
+        ) : (
+          <div className="space-y-2">
+            {permissions.functions.map((allowed) => (
+              <div key={allowed.selector} className="flex items-center justify-between gap-3 p-2 bg-vault-dark-3 rounded border border-dark-600">
+                <div className="min-w-0">
+                  <span className="text-sm font-mono text-primary-300 break-all">{describeSelector(allowed.selector)}</span>
+                  <p className="text-xs text-dark-500">
+                    {allowed.constraints.length === 0
+                      ? 'Any parameters'
+                      : allowed.constraints.map((constraint) => describeConstraint(allowed.selector, constraint)).join(', ')}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(allowed.selector)}
+                  disabled={proposeRemoveAllowedSelector.isPending}
+                  className="btn-secondary text-xs px-2 py-1 flex-shrink-0"
+                >
+                  {proposeRemoveAllowedSelector.isPending && selectorToRemove === allowed.selector ? 'Proposing...' : 'Remove'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Selector picker */}
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+            Target ABI
+          </label>
+          <textarea
+            value={abiText}
+            onChange={(e) => {
+              setAbiText(e.target.value);
+              setSelectedSelector('');
+              setConstraintInputs({});
+              setErrors([]);
+            }}
+            placeholder={'Paste a JSON ABI, or one signature per line, e.g.\ntransfer(address to, uint256 amount)'}
+            rows={3}
+            className="input-field w-full font-mono text-sm"
+          />
+          {abiError && <p className="mt-1 text-sm text-primary-300">{abiError}</p>}
+        </div>
+
+        {functions.length > 0 && (
+          <div>
+            <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+              Function
+            </label>
+            <select
+              value={selectedSelector}
+              onChange={(e) => {
+                setSelectedSelector(e.target.value);
+                setConstraintInputs({});
+                setErrors([]);
+              }}
+              className="input-field w-full"
+            >
+              <option value="">Select a function...</option>
+              {functions.map((fragment) => (
+                <option key={fragment.selector} value={fragment.selector}>
+                  {fragment.format('sighash')} ({fragment.selector})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {selectedFunction && slots.length > 0 && (
+          <div className="space-y-2">
+            <label className="block text-sm font-mono text-dark-500 uppercase tracking-wider">
+              Parameter Constraints
+            </label>
+            {slots.map((slot) => {
+              const input = constraintInputs[slot.index] ?? { choice: 'none', value: '' };
+              return (
+                <div key={slot.index} className="flex items-center gap-2">
+                  <span className="text-sm font-mono text-dark-300 w-40 truncate" title={`${slot.type} ${slot.name}`}>
+                    {slot.name} <span className="text-dark-500">{slot.type}</span>
+                  </span>
+                  {slot.constrainable ? (
+                    <>
+                      <select
+                        value={input.choice}
+                        onChange={(e) => updateConstraint(slot.index, { choice: e.target.value as ConstraintChoice })}
+                        className="input-field text-sm"
+                      >
+                        {choicesFor(slot).map((choice) => (
+                          <option key={choice.value} value={choice.value}>{choice.label}</option>
+                        ))}
+                      </select>
+                      {(input.choice === 'equal' || input.choice === 'max') && (
+                        <input
+                          type="text"
+                          value={input.value}
+                          onChange={(e) => updateConstraint(slot.index, { value: e.target.value })}
+                          placeholder={slot.type === 'address' ? '0x...' : 'Value (base units)'}
+                          className="input-field flex-1 text-sm"
+                        />
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-xs text-dark-500">Dynamic parameters cannot be constrained</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+            <ul className="text-sm text-primary-200 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index} className="font-medium">{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {selectedFunction && (
+          <button
+            onClick={handlePropose}
+            disabled={proposeSetAllowedSelector.isPending}
+            className="btn-primary text-sm px-3 py-1.5"
+          >
+            {proposeSetAllowedSelector.isPending ? 'Creating Proposal...' : 'Propose Allow Function'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Modal } from '../Modal';
 import { TransactionFlow } from '../TransactionFlow';
 import { useMultisig } from '../../hooks/useMultisig';
+import { MAX_OWNER_WEIGHT } from '../../services/core/OwnerService';
 import * as quais from 'quais';
 
 interface AddOwnerModalProps {
@@ -21,6 +22,7 @@ export function AddOwnerModal({
 }: AddOwnerModalProps) {
   const { addOwnerAsync } = useMultisig(walletAddress);
   const [newOwnerAddress, setNewOwnerAddress] = useState('');
+  const [weight, setWeight] = useState(1);
   const [errors, setErrors] = useState<string[]>([]);
   const [showFlow, setShowFlow] = useState(false);
   const [resetKey, setResetKey] = useState(0);
@@ -37,6 +39,7 @@ export function AddOwnerModal({
     if (!isOpen) {
       setShowFlow(false);
       setNewOwnerAddress('');
+      setWeight(1);
       setErrors([]);
     }
   }, [isOpen]);
@@ -73,6 +76,10 @@ export function AddOwnerModal({
       }
     }
 
+    if (weight < 1 || weight > MAX_OWNER_WEIGHT) {
+      newErrors.push(`Weight must be between 1 and ${MAX_OWNER_WEIGHT}`);
+    }
+
     setErrors(newErrors);
     return newErrors.length === 0;
   };
@@ -86,7 +93,7 @@ export function AddOwnerModal({
 
     onProgress({ step: 'signing', message: 'Please approve the add owner transaction in your wallet' });
     
-    const txHash = await addOwnerAsync({ walletAddress, newOwner: normalized });
+    const txHash = await addOwnerAsync({ walletAddress, newOwner: normalized, weight });
     
     onProgress({ step: 'waiting', txHash: txHash || '', message: 'Waiting for transaction confirmation...' });
     
@@ -105,6 +112,7 @@ export function AddOwnerModal({
   const handleComplete = () => {
     setShowFlow(false);
     setNewOwnerAddress('');
+    setWeight(1);
     setErrors([]);
     onClose();
   };
@@ -112,6 +120,7 @@ export function AddOwnerModal({
   const handleCancel = () => {
     setShowFlow(false);
     setNewOwnerAddress('');
+    setWeight(1);
     setErrors([]);
     onClose();
   };
@@ -150,6 +159,26 @@ export function AddOwnerModal({
             />
           </div>
 
+          <div>
+            <label className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+              Voting Weight
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_OWNER_WEIGHT}
+              value={weight}
+              onChange={(e) => {
+                setWeight(parseInt(e.target.value) || 1);
+                setErrors([]);
+              }}
+              className="input-field w-24"
+            />
+            <p className="mt-2 text-sm font-mono text-dark-600">
+              How much this owner's approval counts toward the threshold (1 = one vote).
+            </p>
+          </div>
+
           {errors.length > 0 && (
             <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
               <div className="flex items-start gap-4">
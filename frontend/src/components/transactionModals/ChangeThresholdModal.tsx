@@ -9,6 +9,7 @@ interface ChangeThresholdModalProps {
   walletAddress: string;
   currentThreshold: number;
   ownerCount: number;
+  ownerWeights?: number[];  // Voting weight per owner (omit for one vote each)
 }
 
 export function ChangeThresholdModal({
@@ -17,6 +18,7 @@ export function ChangeThresholdModal({
   walletAddress,
   currentThreshold,
   ownerCount,
+  ownerWeights,
 }: ChangeThresholdModalProps) {
   const { changeThresholdAsync } = useMultisig(walletAddress);
   const [newThreshold, setNewThreshold] = useState(currentThreshold);
@@ -40,13 +42,34 @@ export function ChangeThresholdModal({
     }
   }, [isOpen, currentThreshold]);
 
+  // Threshold is a summed owner weight; with one vote each this is the owner count
+  const weights = ownerWeights ?? [];
+  const isWeighted = weights.some((weight) => weight !== 1);
+  const totalWeight = isWeighted ? weights.reduce((total, weight) => total + weight, 0) : ownerCount;
+
+  // Fewest owners whose combined weight reaches the threshold (heaviest owners first)
+  const minimumApprovers = (thresh: number): number => {
+    if (!isWeighted) return thresh;
+    const sorted = [...weights].sort((a, b) => b - a);
+    let sum = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      sum += sorted[i];
+      if (sum >= thresh) return i + 1;
+    }
+    return sorted.length;
+  };
+
   const validateThreshold = (thresh: number): boolean => {
     const newErrors: string[] = [];
 
     if (thresh < 1) {
       newErrors.push('Threshold must be at least 1');
-    } else if (thresh > ownerCount) {
-      newErrors.push(`Threshold cannot exceed number of owners (${ownerCount})`);
+    } else if (thresh > totalWeight) {
+      newErrors.push(
+        isWeighted
+          ? `Threshold cannot exceed total owner weight (${totalWeight})`
+          : `Threshold cannot exceed number of owners (${ownerCount})`
+      );
     } else if (thresh === currentThreshold) {
       newErrors.push('Threshold is already set to this value');
     }
@@ -103,10 +126,12 @@ export function ChangeThresholdModal({
         <div className="space-y-6">
           <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
             <p className="text-lg text-dark-300 mb-1">
-              Change the number of approvals required to execute transactions.
+              {isWeighted
+                ? 'Change the summed owner weight required to execute transactions.'
+                : 'Change the number of approvals required to execute transactions.'}
             </p>
             <p className="text-base font-mono text-dark-600 uppercase tracking-wider">
-              Requires {currentThreshold} approval{currentThreshold !== 1 ? 's' : ''} from existing owners
+              Requires {currentThreshold} {isWeighted ? 'weight' : `approval${currentThreshold !== 1 ? 's' : ''}`} from existing owners
             </p>
           </div>
           
@@ -118,7 +143,7 @@ export function ChangeThresholdModal({
               <input
                 type="number"
                 min={1}
-                max={ownerCount}
+                max={totalWeight}
                 value={newThreshold}
                 onChange={(e) => {
                   setNewThreshold(parseInt(e.target.value) || 1);
@@ -127,7 +152,9 @@ export function ChangeThresholdModal({
                 className="input-field w-24"
               />
               <span className="text-lg text-dark-400 font-mono">
-                of {ownerCount} owner{ownerCount !== 1 ? 's' : ''}
+                {isWeighted
+                  ? `of ${totalWeight} total weight`
+                  : `of ${ownerCount} owner${ownerCount !== 1 ? 's' : ''}`}
               </span>
             </div>
             <div className="mt-3 bg-vault-dark-3 rounded-md p-4 border border-dark-600">
@@ -139,6 +166,27 @@ export function ChangeThresholdModal({
                 <span className="text-base font-mono text-dark-500 uppercase tracking-wider">New:</span>
                 <span className="text-dark-200 font-semibold">{newThreshold}</span>
               </div>
+              {isWeighted && (
+                <>
+                  <div className="w-full bg-vault-dark-4 rounded-full h-1.5 border border-dark-600 shadow-vault-inner overflow-hidden mt-3">
+                    <div
+                      className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600 transition-all duration-500"
+                      style={{ width: `${Math.min((newThreshold / totalWeight) * 100, 100)}%` }}
+                    ></div>
+                  </div>
+                  <p className="mt-2 text-sm font-mono text-dark-600">
+                    {Math.round((Math.min(newThreshold, totalWeight) / totalWeight) * 100)}% of total weight.
+                    At least {minimumApprovers(newThreshold)} of {ownerCount} owners must approve.
+                  </p>
+                  <div className="mt-3 flex flex-wrap gap-1.5">
+                    {weights.map((weight, index) => (
+                      <span key={index} className="vault-badge text-sm">
+                        Owner {index + 1}: {weight}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
             </div>
           </div>
 
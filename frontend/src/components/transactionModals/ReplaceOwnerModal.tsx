@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Modal } from '../Modal';
+import { TransactionFlow } from '../TransactionFlow';
+import type { TransactionProgress } from '../TransactionFlow';
+import { useMultisig } from '../../hooks/useMultisig';
+import * as quais from 'quais';
+
+interface ReplaceOwnerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  walletAddress: string;
+  ownerToReplace: string;
+  threshold: number;
+  existingOwners: string[];
+}
+
+export function ReplaceOwnerModal({
+  isOpen,
+  onClose,
+  walletAddress,
+  ownerToReplace,
+  threshold,
+  existingOwners,
+}: ReplaceOwnerModalProps) {
+  const { swapOwnerAsync } = useMultisig(walletAddress);
+  const [newOwnerAddress, setNewOwnerAddress] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showFlow, setShowFlow] = useState(false);
+  const [resetKey, setResetKey] = useState(0);
+
+  const validateOwnerAddress = (address: string): boolean => {
+    const newErrors: string[] = [];
+    const normalized = address.trim();
+
+    if (!normalized) {
+      newErrors.push('Address is required');
+      setErrors(newErrors);
+      return false;
+    }
+
+    if (normalized.length !== 42) {
+      newErrors.push(`Invalid address length: expected exactly 42 characters, got ${normalized.length}`);
+      setErrors(newErrors);
+      return false;
+    }
+
+    if (!normalized.startsWith('0x')) {
+      newErrors.push('Address must start with 0x');
+    } else if (!/^0x[0-9a-fA-F]{40}$/.test(normalized)) {
+      newErrors.push('Invalid address format: must be 0x followed by exactly 40 hexadecimal characters');
+    } else {
+      try {
+        if (!quais.isAddress(normalized)) {
+          newErrors.push('Invalid address format (checksum or validation error)');
+        } else if (existingOwners.some(o => o.toLowerCase() === normalized.toLowerCase())) {
+          newErrors.push('Address is already an owner');
+        }
+      } catch (error) {
+        newErrors.push(`Invalid address: ${error instanceof Error ? error.message : 'Address validation failed'}`);
+      }
+    }
+
+    setErrors(newErrors);
+    return newErrors.length === 0;
+  };
+
+  const handleReplaceOwner = async (onProgress: (progress: TransactionProgress) => void) => {
+    const normalized = newOwnerAddress.trim();
+    
+    if (!validateOwnerAddress(normalized)) {
+      throw new Error(errors.join(', '));
+    }
+
+    onProgress({ step: 'signing', message: 'Please approve the replace owner transaction in your wallet' });
+    
+    const txHash = await swapOwnerAsync({ walletAddress, oldOwner: ownerToReplace, newOwner: normalized });
+    
+    onProgress({ step: 'waiting', txHash: txHash || '', message: 'Waiting for transaction confirmation...' });
+    
+    // Wait for transaction to be mined
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    
+    return txHash || '';
+  };
+
+  const handleStart = () => {
+    if (validateOwnerAddress(newOwnerAddress)) {
+      setResetKey(prev => prev + 1);
+      setShowFlow(true);
+    }
+  };
+
+  const handleComplete = () => {
+    setShowFlow(false);
+    setNewOwnerAddress('');
+    setErrors([]);
+    onClose();
+  };
+
+  const handleCancel = () => {
+    setShowFlow(false);
+    setNewOwnerAddress('');
+    setErrors([]);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleCancel}
+      title="Replace Owner"
+      size="md"
+    >
+      {!showFlow ? (
+        <div className="space-y-6">
+          <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+            <p className="text-lg text-dark-300 mb-1">
+              Replace <span className="font-mono text-primary-300">{`${ownerToReplace.slice(0, 6)}...${ownerToReplace.slice(-4)}`}</span> with a new owner in a single proposal.
+            </p>
+            <p className="text-base text-dark-500 mb-1">
+              The owner count and threshold stay the same.
+            </p>
+            <p className="text-base font-mono text-dark-600 uppercase tracking-wider">
+              Requires {threshold} approval{threshold !== 1 ? 's' : ''} from existing owners
+            </p>
+          </div>
+          
+          <div>
+            <label className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+              New Owner Address
+            </label>
+            <input
+              type="text"
+              value={newOwnerAddress}
+              onChange={(e) => {
+                setNewOwnerAddress(e.target.value);
+                setErrors([]);
+              }}
+              placeholder="0x..."
+              className="input-field w-full"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
+              <div className="flex items-start gap-4">
+                <svg className="w-5 h-5 text-primary-300 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+                <ul className="text-lg text-primary-200 space-y-1 flex-1">
+                  {errors.map((error, index) => (
+                    <li key={index} className="font-medium">• {error}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          <div className="vault-divider pt-6">
+            <div className="flex gap-4 justify-end">
+              <button onClick={handleCancel} className="btn-secondary">
+                Cancel
+              </button>
+              <button onClick={handleStart} className="btn-primary">
+                Propose Replace Owner
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <TransactionFlow
+          title="Replace Owner"
+          description={`Replacing owner ${ownerToReplace.substring(0, 10)}... with ${newOwnerAddress.substring(0, 10)}...`}
+          onExecute={handleReplaceOwner}
+          onComplete={handleComplete}
+          onCancel={handleCancel}
+          successMessage="Replace owner transaction proposed successfully!"
+          resetKey={resetKey}
+        />
+      )}
+    </Modal>
+  );
+}
@@ -72,9 +72,13 @@ export function RevokeApprovalModal({
               </span>
             </div>
             <div className="flex justify-between items-center">
-              <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Approvals:</span>
+              <span className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                {transaction.approvalWeight !== undefined && transaction.approvalWeight !== transaction.numApprovals
+                  ? 'Approval Weight:'
+                  : 'Approvals:'}
+              </span>
               <span className="text-dark-200 font-semibold">
-                <span className="text-primary-400">{transaction.numApprovals}</span>
+                <span className="text-primary-400">{transaction.approvalWeight ?? transaction.numApprovals}</span>
                 <span className="text-dark-500 mx-2">/</span>
                 <span className="text-dark-300">{transaction.threshold}</span>
               </span>
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Modal } from '../Modal';
+import { TransactionFlow } from '../TransactionFlow';
+import type { TransactionProgress } from '../TransactionFlow';
+import { useMultisig } from '../../hooks/useMultisig';
+import { MAX_OWNER_WEIGHT } from '../../services/core/OwnerService';
+
+interface SetOwnerWeightModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  walletAddress: string;
+  owner: string;
+  currentWeight: number;
+  totalWeight: number;
+  threshold: number;
+}
+
+export function SetOwnerWeightModal({
+  isOpen,
+  onClose,
+  walletAddress,
+  owner,
+  currentWeight,
+  totalWeight,
+  threshold,
+}: SetOwnerWeightModalProps) {
+  const { setOwnerWeightAsync } = useMultisig(walletAddress);
+  const [newWeight, setNewWeight] = useState(currentWeight);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showFlow, setShowFlow] = useState(false);
+  const [resetKey, setResetKey] = useState(0);
+
+  const newTotalWeight = totalWeight - currentWeight + newWeight;
+
+  const validateWeight = (weight: number): boolean => {
+    const newErrors: string[] = [];
+
+    if (weight < 1 || weight > MAX_OWNER_WEIGHT) {
+      newErrors.push(`Weight must be between 1 and ${MAX_OWNER_WEIGHT}`);
+    } else if (weight === currentWeight) {
+      newErrors.push('Owner already has this weight');
+    } else if (totalWeight - currentWeight + weight < threshold) {
+      newErrors.push(`Total weight would drop below the threshold (${threshold}). Lower the threshold first.`);
+    }
+
+    setErrors(newErrors);
+    return newErrors.length === 0;
+  };
+
+  const handleSetWeight = async (onProgress: (progress: TransactionProgress) => void) => {
+    if (!validateWeight(newWeight)) {
+      throw new Error(errors.join(', '));
+    }
+
+    onProgress({ step: 'signing', message: 'Please approve the owner weight transaction in your wallet' });
+
+    const txHash = await setOwnerWeightAsync({ walletAddress, owner, weight: newWeight });
+
+    onProgress({ step: 'waiting', txHash: txHash || '', message: 'Waiting for transaction confirmation...' });
+
+    // Wait for transaction to be mined
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    return txHash || '';
+  };
+
+  const handleStart = () => {
+    if (validateWeight(newWeight)) {
+      setResetKey(prev => prev + 1);
+      setShowFlow(true);
+    }
+  };
+
+  const handleComplete = () => {
+    setShowFlow(false);
+    setNewWeight(currentWeight);
+    setErrors([]);
+    onClose();
+  };
+
+  const handleCancel = () => {
+    setShowFlow(false);
+    setNewWeight(currentWeight);
+    setErrors([]);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleCancel}
+      title="Change Owner Weight"
+      size="md"
+    >
+      {!showFlow ? (
+        <div className="space-y-6">
+          <div className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+            <p className="text-lg text-dark-300 mb-1">
+              Change how much this owner's approval counts toward the threshold.
+            </p>
+            <p className="text-base font-mono text-dark-600 break-all">{owner}</p>
+          </div>
+
+          <div>
+            <label className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+              New Weight
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_OWNER_WEIGHT}
+              value={newWeight}
+              onChange={(e) => {
+                setNewWeight(parseInt(e.target.value) || 1);
+                setErrors([]);
+              }}
+              className="input-field w-24"
+            />
+            <div className="mt-3 bg-vault-dark-3 rounded-md p-4 border border-dark-600">
+              <div className="flex items-center justify-between text-lg">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Total Weight:</span>
+                <span className="text-dark-200 font-semibold">
+                  {totalWeight} → {newTotalWeight}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-lg mt-2">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Owner Share:</span>
+                <span className="text-primary-400 font-semibold">
+                  {newTotalWeight > 0 ? Math.round((newWeight / newTotalWeight) * 100) : 0}%
+                </span>
+              </div>
+              <div className="w-full bg-vault-dark-4 rounded-full h-1.5 border border-dark-600 shadow-vault-inner overflow-hidden mt-2">
+                <div
+                  className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600 transition-all duration-500"
+                  style={{ width: `${newTotalWeight > 0 ? Math.min((newWeight / newTotalWeight) * 100, 100) : 0}%` }}
+                ></div>
+              </div>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 shadow-red-glow">
+              <div className="flex items-start gap-4">
+                <svg className="w-5 h-5 text-primary-300 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+                <ul className="text-lg text-primary-200 space-y-1 flex-1">
+                  {errors.map((error, index) => (
+                    <li key={index} className="font-medium">• {error}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          <div className="vault-divider pt-6">
+            <div className="flex gap-4 justify-end">
+              <button onClick={handleCancel} className="btn-secondary">
+                Cancel
+              </button>
+              <button onClick={handleStart} className="btn-primary">
+                Propose Weight Change
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <TransactionFlow
+          title="Change Owner Weight"
+          description={`Changing weight of ${owner.substring(0, 10)}... from ${currentWeight} to ${newWeight}...`}
+          onExecute={handleSetWeight}
+          onComplete={handleComplete}
+          onCancel={handleCancel}
+          successMessage="Owner weight transaction proposed successfully!"
+          resetKey={resetKey}
+        />
+      )}
+    </Modal>
+  );
+}
@@ -4,6 +4,8 @@ export { CancelTransactionModal } from './CancelTransactionModal';
 export { RevokeApprovalModal } from './RevokeApprovalModal';
 export { AddOwnerModal } from './AddOwnerModal';
 export { RemoveOwnerModal } from './RemoveOwnerModal';
+export { ReplaceOwnerModal } from './ReplaceOwnerModal';
 export { ChangeThresholdModal } from './ChangeThresholdModal';
+export { SetOwnerWeightModal } from './SetOwnerWeightModal';
 export { EnableModuleModal } from './EnableModuleModal';
 export { DisableModuleModal } from './DisableModuleModal';
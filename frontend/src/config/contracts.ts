@@ -5,6 +5,12 @@ export const CONTRACT_ADDRESSES = {
   SOCIAL_RECOVERY_MODULE: import.meta.env.VITE_SOCIAL_RECOVERY_MODULE || '',
   DAILY_LIMIT_MODULE: import.meta.env.VITE_DAILY_LIMIT_MODULE || '',
   WHITELIST_MODULE: import.meta.env.VITE_WHITELIST_MODULE || '',
+  DELAY_MODULE: import.meta.env.VITE_DELAY_MODULE || '',
+  ROLES_MODULE: import.meta.env.VITE_ROLES_MODULE || '',
+  INHERITANCE_MODULE: import.meta.env.VITE_INHERITANCE_MODULE || '',
+  RECURRING_PAYMENTS_MODULE: import.meta.env.VITE_RECURRING_PAYMENTS_MODULE || '',
+  VESTING_MODULE: import.meta.env.VITE_VESTING_MODULE || '',
+  DENYLIST_GUARD: import.meta.env.VITE_DENYLIST_GUARD || '',
 };
 
 // Network configuration
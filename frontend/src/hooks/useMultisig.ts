@@ -4,7 +4,7 @@ import { useWalletStore } from '../store/walletStore';
 import { multisigService } from '../services/MultisigService';
 import { notificationManager } from '../components/NotificationContainer';
 import { CONTRACT_ADDRESSES } from '../config/contracts';
-import type { DeploymentConfig, TransactionData, PendingTransaction } from '../types';
+import type { DeploymentConfig, TransactionData, PendingTransaction, TransactionSignature } from '../types';
 import * as quais from 'quais';
 
 // Polling intervals (in milliseconds)
@@ -37,9 +37,14 @@ const lastNotifiedModuleStatus = new Map<string, Record<string, boolean>>(); //
 
 // Module address to name mapping
 const MODULE_NAMES: Record<string, string> = {
-  [CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE]: 'Social Recovery',
-  [CONTRACT_ADDRESSES.DAILY_LIMIT_MODULE]: 'Daily Limit',
-  [CONTRACT_ADDRESSES.WHITELIST_MODULE]: 'Whitelist',
+  [CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE.toLowerCase()]: 'Social Recovery',
+  [CONTRACT_ADDRESSES.DAILY_LIMIT_MODULE.toLowerCase()]: 'Daily Limit',
+  [CONTRACT_ADDRESSES.WHITELIST_MODULE.toLowerCase()]: 'Whitelist',
+  [CONTRACT_ADDRESSES.DELAY_MODULE.toLowerCase()]: 'Delay',
+  [CONTRACT_ADDRESSES.ROLES_MODULE.toLowerCase()]: 'Roles',
+  [CONTRACT_ADDRESSES.INHERITANCE_MODULE.toLowerCase()]: 'Inheritance',
+  [CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE.toLowerCase()]: 'Recurring Payments',
+  [CONTRACT_ADDRESSES.VESTING_MODULE.toLowerCase()]: 'Vesting',
 };
 
 /**
@@ -213,31 +218,14 @@ export function useMultisig(walletAddress?: string) {
     }
   }, [walletInfo, walletAddress]);
 
-  // Query module statuses to track changes
+  // Query enabled modules to track changes
   const {
-    data: moduleStatuses,
+    data: enabledModules,
   } = useQuery({
     queryKey: ['moduleStatus', walletAddress],
     queryFn: async () => {
       if (!walletAddress) return null;
-      const statuses: Record<string, boolean> = {};
-      const moduleAddresses = [
-        CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE,
-        CONTRACT_ADDRESSES.DAILY_LIMIT_MODULE,
-        CONTRACT_ADDRESSES.WHITELIST_MODULE,
-      ];
-      
-      for (const moduleAddress of moduleAddresses) {
-        if (moduleAddress) {
-          try {
-            statuses[moduleAddress] = await multisigService.isModuleEnabled(walletAddress, moduleAddress);
-          } catch (error) {
-            console.error(`Failed to check status for module ${moduleAddress}:`, error);
-            statuses[moduleAddress] = false;
-          }
-        }
-      }
-      return statuses;
+      return await multisigService.getModules(walletAddress);
     },
     enabled: !!walletAddress && isPageVisible,
     refetchInterval: isPageVisible ? POLLING_INTERVALS.WALLET_INFO : false,
@@ -245,18 +233,25 @@ export function useMultisig(walletAddress?: string) {
 
   // Track module status changes for notifications
   useEffect(() => {
-    if (!moduleStatuses || !walletAddress) return;
+    if (!enabledModules || !walletAddress) return;
+
+    const prevStatuses = lastNotifiedModuleStatus.get(walletAddress);
+    const currentStatuses: Record<string, boolean> = {};
+    for (const moduleAddress of enabledModules) {
+      currentStatuses[moduleAddress.toLowerCase()] = true;
+    }
 
-    const prevStatuses = lastNotifiedModuleStatus.get(walletAddress) || {};
-    const currentStatuses = moduleStatuses;
+    // Only notify if status actually changed (not on first load)
+    if (prevStatuses) {
+      const moduleAddresses = new Set([...Object.keys(prevStatuses), ...Object.keys(currentStatuses)]);
 
-    // Check each module for status changes
-    for (const [moduleAddress, isEnabled] of Object.entries(currentStatuses)) {
-      const prevEnabled = prevStatuses[moduleAddress];
-      const moduleName = MODULE_NAMES[moduleAddress] || 'Unknown Module';
+      // Check each module for status changes
+      for (const moduleAddress of moduleAddresses) {
+        const isEnabled = currentStatuses[moduleAddress] === true;
+        const wasEnabled = prevStatuses[moduleAddress] === true;
+        if (wasEnabled === isEnabled) continue;
 
-      // Only notify if status actually changed (not on first load)
-      if (prevEnabled !== undefined && prevEnabled !== isEnabled) {
+        const moduleName = MODULE_NAMES[moduleAddress] || 'Unknown Module';
         if (isEnabled) {
           notificationManager.add({
             message: `✅ ${moduleName} module enabled`,
@@ -286,8 +281,8 @@ export function useMultisig(walletAddress?: string) {
     }
 
     // Update last notified status
-    lastNotifiedModuleStatus.set(walletAddress, { ...currentStatuses });
-  }, [moduleStatuses, walletAddress]);
+    lastNotifiedModuleStatus.set(walletAddress, currentStatuses);
+  }, [enabledModules, walletAddress]);
 
   // Get pending transactions
   const {
@@ -509,6 +504,23 @@ export function useMultisig(walletAddress?: string) {
     });
   }, [cancelledTransactions, walletAddress]);
 
+  // Get expired transactions (past their deadline, never executed or cancelled)
+  const {
+    data: expiredTransactions,
+    isLoading: isLoadingExpired,
+    refetch: refetchExpired,
+    isRefetching: isRefetchingExpired,
+  } = useQuery({
+    queryKey: ['expiredTransactions', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return [];
+      const txs = await multisigService.getExpiredTransactions(walletAddress);
+      return txs;
+    },
+    enabled: !!walletAddress && isPageVisible,
+    refetchInterval: isPageVisible ? POLLING_INTERVALS.TRANSACTION_HISTORY : false,
+  });
+
   // Get wallets for connected address
   const {
     data: userWallets,
@@ -544,12 +556,14 @@ export function useMultisig(walletAddress?: string) {
 
   // Propose transaction mutation
   const proposeTransaction = useMutation({
-    mutationFn: async (tx: TransactionData & { walletAddress: string }) => {
+    mutationFn: async (tx: TransactionData & { walletAddress: string; validUntil?: number; memo?: string }) => {
       return await multisigService.proposeTransaction(
         tx.walletAddress,
         tx.to,
         tx.value,
-        tx.data
+        tx.data,
+        tx.validUntil,
+        tx.memo
       );
     },
     onSuccess: (txHash) => {
@@ -614,6 +628,54 @@ export function useMultisig(walletAddress?: string) {
     },
   });
 
+  // Sign transaction off-chain mutation (no on-chain approval, no gas)
+  const signTransaction = useMutation({
+    mutationFn: async (tx: TransactionData & { walletAddress: string }) => {
+      return await multisigService.signTransaction(
+        tx.walletAddress,
+        tx.to,
+        tx.value,
+        tx.data
+      );
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to sign transaction');
+    },
+  });
+
+  // Execute with off-chain signatures mutation (single on-chain transaction)
+  const executeWithSignatures = useMutation({
+    mutationFn: async (tx: TransactionData & { walletAddress: string; signatures: TransactionSignature[] }) => {
+      return await multisigService.executeWithSignatures(
+        tx.walletAddress,
+        tx.to,
+        tx.value,
+        tx.data,
+        tx.signatures
+      );
+    },
+    onSuccess: (txHash) => {
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['executedTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['transactionHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['walletInfo'] });
+      notificationManager.add({
+        message: `✅ Transaction executed with signatures! Hash: ${txHash?.slice(0, 10)}...${txHash?.slice(-6)}`,
+        type: 'success',
+      });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to execute transaction with signatures');
+    },
+  });
+
+  // Validate and pack collected signatures (read-only, no transaction)
+  const collectSignatures = useCallback(
+    (walletAddress: string, signatures: TransactionSignature[]) =>
+      multisigService.collectSignatures(walletAddress, signatures),
+    []
+  );
+
   // Cancel transaction mutation
   const cancelTransaction = useMutation({
     mutationFn: async ({ walletAddress, txHash }: { walletAddress: string; txHash: string }) => {
@@ -622,6 +684,8 @@ export function useMultisig(walletAddress?: string) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
       queryClient.invalidateQueries({ queryKey: ['cancelledTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['expiredTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['transactionHistory'] });
     },
     onError: (error) => {
       setError(error instanceof Error ? error.message : 'Failed to cancel transaction');
@@ -630,8 +694,8 @@ export function useMultisig(walletAddress?: string) {
 
   // Add owner mutation (proposes transaction)
   const addOwner = useMutation({
-    mutationFn: async ({ walletAddress, newOwner }: { walletAddress: string; newOwner: string }) => {
-      return await multisigService.addOwner(walletAddress, newOwner);
+    mutationFn: async ({ walletAddress, newOwner, weight }: { walletAddress: string; newOwner: string; weight?: number }) => {
+      return await multisigService.addOwner(walletAddress, newOwner, weight);
     },
     onSuccess: (txHash, variables) => {
       console.log('✅ Add owner transaction proposed:', txHash);
@@ -662,6 +726,34 @@ export function useMultisig(walletAddress?: string) {
     },
   });
 
+  // Set owner weight mutation (proposes transaction)
+  const setOwnerWeight = useMutation({
+    mutationFn: async ({ walletAddress, owner, weight }: { walletAddress: string; owner: string; weight: number }) => {
+      return await multisigService.setOwnerWeight(walletAddress, owner, weight);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['walletInfo'] });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to change owner weight');
+    },
+  });
+
+  // Swap owner mutation (proposes transaction)
+  const swapOwner = useMutation({
+    mutationFn: async ({ walletAddress, oldOwner, newOwner }: { walletAddress: string; oldOwner: string; newOwner: string }) => {
+      return await multisigService.swapOwner(walletAddress, oldOwner, newOwner);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['walletInfo'] });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to replace owner');
+    },
+  });
+
   // Change threshold mutation (proposes transaction)
   const changeThreshold = useMutation({
     mutationFn: async ({ walletAddress, newThreshold }: { walletAddress: string; newThreshold: number }) => {
@@ -704,6 +796,34 @@ export function useMultisig(walletAddress?: string) {
     },
   });
 
+  // Set guard mutation (proposes transaction)
+  const setGuard = useMutation({
+    mutationFn: async ({ walletAddress, guardAddress }: { walletAddress: string; guardAddress: string }) => {
+      return await multisigService.setGuard(walletAddress, guardAddress);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['guard'] });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to set guard');
+    },
+  });
+
+  // Upgrade vault mutation (proposes transaction)
+  const upgradeVault = useMutation({
+    mutationFn: async ({ walletAddress, newImplementation }: { walletAddress: string; newImplementation: string }) => {
+      return await multisigService.upgradeTo(walletAddress, newImplementation);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['walletImplementation'] });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to propose upgrade');
+    },
+  });
+
   // Execute transaction via whitelist (bypasses approval requirement)
   const executeToWhitelist = useMutation({
     mutationFn: async (tx: TransactionData & { walletAddress: string }) => {
@@ -734,11 +854,12 @@ export function useMultisig(walletAddress?: string) {
   // Execute transaction via daily limit (bypasses approval requirement)
   // Note: This is ONLY enforced in the frontend. Users can bypass this by interacting with the multisig directly.
   const executeBelowLimit = useMutation({
-    mutationFn: async (tx: TransactionData & { walletAddress: string }) => {
+    mutationFn: async (tx: TransactionData & { walletAddress: string; token?: string }) => {
       return await multisigService.executeBelowLimit(
         tx.walletAddress,
         tx.to,
-        tx.value
+        tx.value,
+        tx.token
       );
     },
     onSuccess: (txHash) => {
@@ -746,6 +867,8 @@ export function useMultisig(walletAddress?: string) {
       queryClient.invalidateQueries({ queryKey: ['walletInfo'] });
       queryClient.invalidateQueries({ queryKey: ['dailyLimit'] });
       queryClient.invalidateQueries({ queryKey: ['remainingLimit'] });
+      queryClient.invalidateQueries({ queryKey: ['tokenDailyLimits'] });
+      queryClient.invalidateQueries({ queryKey: ['rollingSpends'] });
       notificationManager.add({
         message: `✅ Transaction executed via daily limit! Hash: ${txHash?.slice(0, 10)}...${txHash?.slice(-6)}`,
         type: 'success',
@@ -760,6 +883,41 @@ export function useMultisig(walletAddress?: string) {
     },
   });
 
+  // Execute a delay-module transaction once its cooldown has elapsed
+  const executeQueuedTransaction = useMutation({
+    mutationFn: async ({ walletAddress, txHash }: { walletAddress: string; txHash: string }) => {
+      return await multisigService.executeQueuedTransaction(walletAddress, txHash);
+    },
+    onSuccess: (txHash) => {
+      queryClient.invalidateQueries({ queryKey: ['queuedTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['walletInfo'] });
+      notificationManager.add({
+        message: `✅ Queued transaction executed! Hash: ${txHash?.slice(0, 10)}...${txHash?.slice(-6)}`,
+        type: 'success',
+      });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to execute queued transaction');
+    },
+  });
+
+  // Veto a delay-module transaction during its cooldown (any single owner)
+  const vetoTransaction = useMutation({
+    mutationFn: async ({ walletAddress, txHash }: { walletAddress: string; txHash: string }) => {
+      return await multisigService.vetoTransaction(walletAddress, txHash);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['queuedTransactions'] });
+      notificationManager.add({
+        message: 'Queued transaction vetoed',
+        type: 'success',
+      });
+    },
+    onError: (error) => {
+      setError(error instanceof Error ? error.message : 'Failed to veto transaction');
+    },
+  });
+
   const refresh = useCallback(() => {
     refetchWalletInfo();
     refetchTransactions();
@@ -773,14 +931,16 @@ export function useMultisig(walletAddress?: string) {
     pendingTransactions,
     executedTransactions,
     cancelledTransactions,
+    expiredTransactions,
     userWallets,
 
     // Loading states
-    isLoading: isLoadingInfo || isLoadingTransactions || isLoadingHistory || isLoadingCancelled || isLoadingWallets,
+    isLoading: isLoadingInfo || isLoadingTransactions || isLoadingHistory || isLoadingCancelled || isLoadingExpired || isLoadingWallets,
     isLoadingInfo,
     isLoadingTransactions,
     isLoadingHistory,
     isLoadingCancelled,
+    isLoadingExpired,
     isLoadingWallets,
 
     // Refreshing states (for visual indicators)
@@ -788,6 +948,7 @@ export function useMultisig(walletAddress?: string) {
     isRefetchingPending,
     isRefetchingHistory,
     isRefetchingCancelled,
+    isRefetchingExpired,
     isRefetchingWallets,
 
     // Mutations
@@ -801,22 +962,39 @@ export function useMultisig(walletAddress?: string) {
     revokeApprovalAsync: revokeApproval.mutateAsync,
     executeTransaction: executeTransaction.mutate,
     executeTransactionAsync: executeTransaction.mutateAsync,
+    signTransaction: signTransaction.mutate,
+    signTransactionAsync: signTransaction.mutateAsync,
+    executeWithSignatures: executeWithSignatures.mutate,
+    executeWithSignaturesAsync: executeWithSignatures.mutateAsync,
+    collectSignatures,
     cancelTransaction: cancelTransaction.mutate,
     cancelTransactionAsync: cancelTransaction.mutateAsync,
     addOwner: addOwner.mutate,
     addOwnerAsync: addOwner.mutateAsync,
     removeOwner: removeOwner.mutate,
     removeOwnerAsync: removeOwner.mutateAsync,
+    setOwnerWeight: setOwnerWeight.mutate,
+    setOwnerWeightAsync: setOwnerWeight.mutateAsync,
+    swapOwner: swapOwner.mutate,
+    swapOwnerAsync: swapOwner.mutateAsync,
     changeThreshold: changeThreshold.mutate,
     changeThresholdAsync: changeThreshold.mutateAsync,
     enableModule: enableModule.mutate,
     enableModuleAsync: enableModule.mutateAsync,
     disableModule: disableModule.mutate,
     disableModuleAsync: disableModule.mutateAsync,
+    setGuard: setGuard.mutate,
+    setGuardAsync: setGuard.mutateAsync,
+    upgradeVault: upgradeVault.mutate,
+    upgradeVaultAsync: upgradeVault.mutateAsync,
     executeToWhitelist: executeToWhitelist.mutate,
     executeToWhitelistAsync: executeToWhitelist.mutateAsync,
     executeBelowLimit: executeBelowLimit.mutate,
     executeBelowLimitAsync: executeBelowLimit.mutateAsync,
+    executeQueuedTransaction: executeQueuedTransaction.mutate,
+    executeQueuedTransactionAsync: executeQueuedTransaction.mutateAsync,
+    vetoTransaction: vetoTransaction.mutate,
+    vetoTransactionAsync: vetoTransaction.mutateAsync,
 
     // Mutation states
     isDeploying: deployWallet.isPending,
@@ -824,17 +1002,26 @@ export function useMultisig(walletAddress?: string) {
     isApproving: approveTransaction.isPending,
     isRevoking: revokeApproval.isPending,
     isExecuting: executeTransaction.isPending,
+    isSigning: signTransaction.isPending,
+    isExecutingWithSignatures: executeWithSignatures.isPending,
     isCancelling: cancelTransaction.isPending,
     isAddingOwner: addOwner.isPending,
     isRemovingOwner: removeOwner.isPending,
+    isSettingOwnerWeight: setOwnerWeight.isPending,
+    isSwappingOwner: swapOwner.isPending,
     isChangingThreshold: changeThreshold.isPending,
+    isSettingGuard: setGuard.isPending,
+    isUpgradingVault: upgradeVault.isPending,
     isExecutingViaWhitelist: executeToWhitelist.isPending,
     isExecutingViaDailyLimit: executeBelowLimit.isPending,
+    isExecutingQueued: executeQueuedTransaction.isPending,
+    isVetoing: vetoTransaction.isPending,
 
     // Utilities
     refresh,
     refreshTransactions: refetchTransactions,
     refreshHistory: refetchHistory,
     refreshCancelled: refetchCancelled,
+    refreshExpired: refetchExpired,
   };
 }
@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { multisigService } from '../services/MultisigService';
+import type { PendingTransaction } from '../types';
+
+// Transactions fetched per page of history
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Hook to page through a wallet's full transaction history (newest first)
+ * Reads the on-chain transaction index, so older proposals are not limited by log windows
+ */
+export function useTransactionHistory(walletAddress?: string) {
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['transactionHistory', walletAddress],
+    queryFn: async ({ pageParam }) => {
+      return await multisigService.getTransactionHistoryPage(walletAddress!, pageParam, HISTORY_PAGE_SIZE);
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: !!walletAddress,
+  });
+
+  const transactions = useMemo<PendingTransaction[]>(
+    () => data?.pages.flatMap(page => page.transactions) ?? [],
+    [data]
+  );
+
+  return {
+    transactions,
+    executedTransactions: transactions.filter(tx => tx.executed),
+    cancelledTransactions: transactions.filter(tx => tx.cancelled),
+    expiredTransactions: transactions.filter(tx => !tx.executed && !tx.cancelled && tx.expired),
+    totalCount: data?.pages[0]?.total ?? 0,
+    isLoading,
+    isRefetching,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refresh: refetch,
+  };
+}
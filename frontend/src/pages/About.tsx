@@ -249,9 +249,10 @@ export function About() {
               Transaction History Limit
             </h3>
             <p className="text-base text-yellow-200 leading-relaxed mb-2">
-              Due to network query limitations, the UI currently displays transactions from the last <strong className="text-yellow-100">{transactionHistoryLimit}</strong> 
-              {' '}(approximately 5,000 blocks). Quai Network's event query system has a maximum range limit of <strong className="text-yellow-100">10,000 blocks</strong> per query, 
-              and we use 5,000 blocks as a conservative safety margin. Transactions older than this period will not appear in the standard transaction history view.
+              Vaults keep an on-chain index of every proposal, so pending transactions and the full history are read directly from the contract
+              {' '}regardless of age. Vaults running an implementation that predates the index fall back to event queries, which only cover the last
+              {' '}<strong className="text-yellow-100">{transactionHistoryLimit}</strong> (approximately 5,000 blocks) because Quai Network limits event queries
+              {' '}to <strong className="text-yellow-100">10,000 blocks</strong>. On those vaults, older transactions will not appear in the standard views.
             </p>
             <div className="bg-yellow-900/30 rounded-md p-4.5 mt-2 border border-yellow-700/40">
               <p className="text-base font-semibold text-yellow-200 mb-1.5 flex items-center gap-4.5">
@@ -263,7 +264,7 @@ export function About() {
               <ul className="space-y-1 text-base text-yellow-200/90 ml-5 list-disc">
                 <li><strong className="text-yellow-100">Save Transaction Hashes:</strong> When you propose a transaction, copy and save the transaction hash</li>
                 <li><strong className="text-yellow-100">Use Transaction Lookup:</strong> Use the transaction lookup feature to find older transactions by hash</li>
-                <li><strong className="text-yellow-100">Long Approval Times:</strong> If you expect approvals to take longer than {transactionHistoryLimit}, ensure you have the transaction hash saved</li>
+                <li><strong className="text-yellow-100">Long Approval Times:</strong> On vaults without the on-chain index, if you expect approvals to take longer than {transactionHistoryLimit}, ensure you have the transaction hash saved</li>
                 <li><strong className="text-yellow-100">Off-Chain Records:</strong> Consider maintaining your own records of important transactions</li>
               </ul>
             </div>
@@ -279,8 +280,8 @@ export function About() {
             <p className="text-base text-yellow-200 leading-relaxed">
               Quai Network's event query system has a maximum range limit of <strong className="text-yellow-100">10,000 blocks</strong> per query. 
               This is a network-level constraint, not a limitation of Quai Vault. We currently use 5,000 blocks as a conservative safety margin 
-              to ensure reliable queries. The transaction lookup feature allows you to bypass this limitation by querying specific 
-              transactions directly from the contract.
+              to ensure reliable queries. The on-chain transaction index and the transaction lookup feature both bypass this limitation by
+              reading transactions directly from the contract.
             </p>
           </div>
         </div>
@@ -3,33 +3,56 @@ import { useNavigate } from 'react-router-dom';
 import { useWallet } from '../hooks/useWallet';
 import { WalletCreationFlow } from '../components/WalletCreationFlow';
 import type { DeploymentProgress } from '../components/WalletCreationFlow';
+import type { ModuleSetupConfig } from '../types';
 import { multisigService } from '../services/MultisigService';
+import { MAX_OWNER_WEIGHT } from '../services/core/OwnerService';
 import * as quais from 'quais';
 
 export function CreateWallet() {
   const navigate = useNavigate();
-  const { connected } = useWallet();
+  const { connected, address } = useWallet();
 
   const [owners, setOwners] = useState<string[]>(['']);
+  const [weights, setWeights] = useState<number[]>([1]);
+  const [weighted, setWeighted] = useState(false);
   const [threshold, setThreshold] = useState(1);
   const [errors, setErrors] = useState<string[]>([]);
   const [showFlow, setShowFlow] = useState(false);
   const [, setDeploymentProgress] = useState<DeploymentProgress | null>(null);
+  const [predicted, setPredicted] = useState<{ salt: string; address: string } | null>(null);
+  const [isPredicting, setIsPredicting] = useState(false);
+
+  // Owners with an address entered, paired with their voting weight (1 each unless weighted)
+  const filledIndexes = owners.map((o, i) => (o.trim() !== '' ? i : -1)).filter(i => i !== -1);
+  const validWeights = filledIndexes.map(i => (weighted ? weights[i] : 1));
+  const totalWeight = validWeights.reduce((total, weight) => total + weight, 0);
 
   const addOwner = () => {
     setOwners([...owners, '']);
+    setWeights([...weights, 1]);
   };
 
   const removeOwner = (index: number) => {
     const newOwners = owners.filter((_, i) => i !== index);
+    const newWeights = weights.filter((_, i) => i !== index);
     setOwners(newOwners);
+    setWeights(newWeights);
 
     // Adjust threshold if needed
-    if (threshold > newOwners.length) {
-      setThreshold(newOwners.length);
+    const maxThreshold = weighted
+      ? newWeights.reduce((total, weight) => total + weight, 0)
+      : newOwners.length;
+    if (threshold > maxThreshold) {
+      setThreshold(maxThreshold);
     }
   };
 
+  const updateWeight = (index: number, value: number) => {
+    const newWeights = [...weights];
+    newWeights[index] = value;
+    setWeights(newWeights);
+  };
+
   const updateOwner = (index: number, value: string) => {
     const newOwners = [...owners];
     newOwners[index] = value;
@@ -65,18 +88,40 @@ export function CreateWallet() {
       newErrors.push('Threshold must be at least 1');
     }
 
-    if (threshold > validOwners.length) {
-      newErrors.push('Threshold cannot exceed number of owners');
+    if (weighted && validWeights.some(w => !Number.isInteger(w) || w < 1 || w > MAX_OWNER_WEIGHT)) {
+      newErrors.push(`Owner weights must be between 1 and ${MAX_OWNER_WEIGHT}`);
+    }
+
+    if (threshold > totalWeight) {
+      newErrors.push(weighted
+        ? `Threshold cannot exceed total owner weight (${totalWeight})`
+        : 'Threshold cannot exceed number of owners');
     }
 
     setErrors(newErrors);
     return newErrors.length === 0;
   };
 
-  const handleStartFlow = () => {
+  const handleStartFlow = async () => {
     if (!validateForm()) {
       return;
     }
+
+    // Mine a salt so the vault address is known before anyone signs
+    setIsPredicting(true);
+    try {
+      if (!address) {
+        throw new Error('Connected account address unavailable');
+      }
+      const mined = await multisigService.predictWalletAddress(address);
+      setPredicted({ salt: mined.salt, address: mined.address });
+    } catch (error) {
+      // Fall back to direct deployment; the address is shown once deployed
+      console.warn('Could not predict vault address:', error);
+      setPredicted(null);
+    } finally {
+      setIsPredicting(false);
+    }
     setShowFlow(true);
   };
 
@@ -87,7 +132,8 @@ export function CreateWallet() {
       registerTxHash?: string;
       walletAddress?: string;
       message?: string;
-    }) => void
+    }) => void,
+    modules?: ModuleSetupConfig
   ): Promise<string> => {
     const validOwners = owners.filter(o => o.trim() !== '');
     
@@ -95,6 +141,9 @@ export function CreateWallet() {
       {
         owners: validOwners,
         threshold,
+        weights: weighted ? validWeights : undefined,
+        salt: predicted?.salt,
+        modules,
       },
       onProgress
     );
@@ -108,6 +157,7 @@ export function CreateWallet() {
   const handleCancel = () => {
     setShowFlow(false);
     setDeploymentProgress(null);
+    setPredicted(null);
   };
 
   if (!connected) {
@@ -148,6 +198,8 @@ export function CreateWallet() {
       <WalletCreationFlow
         owners={validOwners}
         threshold={threshold}
+        weights={weighted ? validWeights : undefined}
+        predictedAddress={predicted?.address}
         onDeploy={handleDeploy}
         onComplete={handleComplete}
         onCancel={handleCancel}
@@ -189,6 +241,18 @@ export function CreateWallet() {
                     className="input-field w-full pl-12"
                   />
                 </div>
+                {weighted && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_OWNER_WEIGHT}
+                    value={weights[index]}
+                    onChange={(e) => updateWeight(index, parseInt(e.target.value) || 1)}
+                    className="input-field w-24"
+                    title="Voting weight"
+                    aria-label={`Voting weight of owner ${index + 1}`}
+                  />
+                )}
                 {owners.length > 1 && (
                   <button
                     type="button"
@@ -214,6 +278,27 @@ export function CreateWallet() {
             </svg>
             Add Owner
           </button>
+
+          <label className="mt-4 flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={weighted}
+              onChange={(e) => {
+                setWeighted(e.target.checked);
+                if (!e.target.checked) {
+                  setWeights(owners.map(() => 1));
+                  setThreshold(Math.min(threshold, Math.max(filledIndexes.length, 1)));
+                }
+              }}
+              className="mt-1.5"
+            />
+            <span>
+              <span className="text-lg text-dark-200 font-semibold">Weighted voting</span>
+              <span className="block text-base text-dark-400">
+                Give some owners more say: each approval counts with the owner's weight and the threshold is a total weight
+              </span>
+            </span>
+          </label>
         </div>
 
         {/* Threshold Section */}
@@ -223,7 +308,9 @@ export function CreateWallet() {
               Required Approvals (Threshold)
             </label>
             <p className="text-lg text-dark-400">
-              Number of owner approvals required to execute a transaction
+              {weighted
+                ? 'Combined weight of approving owners required to execute a transaction'
+                : 'Number of owner approvals required to execute a transaction'}
             </p>
           </div>
 
@@ -231,13 +318,15 @@ export function CreateWallet() {
             <input
               type="number"
               min={1}
-              max={owners.filter(o => o.trim() !== '').length}
+              max={totalWeight}
               value={threshold}
               onChange={(e) => setThreshold(parseInt(e.target.value) || 1)}
               className="input-field w-24"
             />
             <span className="text-lg font-mono text-dark-400">
-              of {owners.filter(o => o.trim() !== '').length} owner{owners.filter(o => o.trim() !== '').length !== 1 ? 's' : ''}
+              {weighted
+                ? `of ${totalWeight} total weight`
+                : `of ${filledIndexes.length} owner${filledIndexes.length !== 1 ? 's' : ''}`}
             </span>
           </div>
           
@@ -248,9 +337,17 @@ export function CreateWallet() {
                 <span className="text-dark-200 font-semibold">
                   <span className="text-primary-400">{threshold}</span>
                   <span className="text-dark-500 mx-2">of</span>
-                  <span className="text-dark-300">{owners.filter(o => o.trim() !== '').length}</span>
+                  <span className="text-dark-300">{totalWeight}</span>
                 </span>
               </div>
+              {weighted && (
+                <div className="w-full bg-vault-dark-3 rounded-full h-1.5 border border-dark-600 shadow-vault-inner overflow-hidden mt-3">
+                  <div
+                    className="h-full rounded-full bg-gradient-to-r from-primary-500 to-primary-600 transition-all duration-500"
+                    style={{ width: `${totalWeight > 0 ? Math.min((threshold / totalWeight) * 100, 100) : 0}%` }}
+                  ></div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -284,12 +381,22 @@ export function CreateWallet() {
           <div className="flex flex-wrap gap-4">
             <button
               type="submit"
+              disabled={isPredicting}
               className="btn-primary flex-1 min-w-[200px] inline-flex items-center justify-center gap-4"
             >
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              Continue to Deployment
+              {isPredicting ? (
+                <>
+                  <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Computing Vault Address...
+                </>
+              ) : (
+                <>
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  Continue to Deployment
+                </>
+              )}
             </button>
             <button
               type="button"
@@ -12,8 +12,10 @@ import {
 } from '../components/transactionModals';
 import { CopyButton } from '../components/CopyButton';
 import { ExplorerLink } from '../components/ExplorerLink';
+import { BatchCallList } from '../components/BatchCallList';
+import { TransactionMemo } from '../components/TransactionMemo';
 import * as quais from 'quais';
-import type { PendingTransaction } from '../types';
+import type { PendingTransaction, ExecutionFailure } from '../types';
 
 export function LookupTransaction() {
   const { address: walletAddress } = useParams<{ address: string }>();
@@ -21,6 +23,7 @@ export function LookupTransaction() {
   const { walletInfo, refreshTransactions } = useMultisig(walletAddress);
   const [txHash, setTxHash] = useState('');
   const [transaction, setTransaction] = useState<PendingTransaction | null>(null);
+  const [executionFailures, setExecutionFailures] = useState<ExecutionFailure[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [approveModalTx, setApproveModalTx] = useState<PendingTransaction | null>(null);
@@ -46,6 +49,7 @@ export function LookupTransaction() {
     setIsLoading(true);
     setError(null);
     setTransaction(null);
+    setExecutionFailures([]);
 
     try {
       const tx = await multisigService.getTransactionByHash(walletAddress, txHash.trim());
@@ -53,6 +57,11 @@ export function LookupTransaction() {
         setError('Transaction not found. Please verify the hash is correct.');
       } else {
         setTransaction(tx);
+        try {
+          setExecutionFailures(await multisigService.getExecutionFailures(walletAddress, tx.hash));
+        } catch (err) {
+          console.warn('Could not load failed execution attempts:', err);
+        }
       }
     } catch (err: any) {
       console.error('Error looking up transaction:', err);
@@ -100,13 +109,16 @@ export function LookupTransaction() {
           approved && owner.toLowerCase() === connectedAddress.toLowerCase()
       )
     : false;
-  const canExecute = transaction ? transaction.numApprovals >= transaction.threshold : false;
+  // Threshold is a summed owner weight (one per approval on unweighted wallets)
+  const approvalWeight = transaction ? transaction.approvalWeight ?? transaction.numApprovals : 0;
+  const isWeighted = !!transaction && approvalWeight !== transaction.numApprovals;
+  const canExecute = transaction ? approvalWeight >= transaction.threshold : false;
   const approvalPercentage = transaction
-    ? (Number(transaction.numApprovals) / Number(transaction.threshold)) * 100
+    ? (Number(approvalWeight) / Number(transaction.threshold)) * 100
     : 0;
   const isProposer = connectedAddress && transaction?.proposer &&
     transaction.proposer.toLowerCase() === connectedAddress.toLowerCase();
-  const canCancel = isProposer || (transaction ? transaction.numApprovals >= transaction.threshold : false);
+  const canCancel = isProposer || (transaction ? approvalWeight >= transaction.threshold : false);
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -142,6 +154,7 @@ export function LookupTransaction() {
                   setTxHash(e.target.value);
                   setError(null);
                   setTransaction(null);
+                  setExecutionFailures([]);
                 }}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
@@ -218,6 +231,7 @@ export function LookupTransaction() {
               {decoded.details && (
                 <p className="text-lg text-dark-300 font-medium mt-2 mb-1">{decoded.details}</p>
               )}
+              <TransactionMemo memo={transaction.memo} className="mt-1" />
               <p className="text-base font-mono text-dark-600 uppercase tracking-wider mt-1">
                 {formatTimestamp(transaction.timestamp)}
               </p>
@@ -265,14 +279,43 @@ export function LookupTransaction() {
             </div>
           )}
 
+          {decoded.subCalls && <BatchCallList subCalls={decoded.subCalls} />}
+
+          {/* Failed Execution Attempts */}
+          {executionFailures.length > 0 && (
+            <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-4 mb-5">
+              <p className="text-base font-mono text-primary-300 uppercase tracking-wider mb-3">
+                Failed Execution Attempts ({executionFailures.length})
+              </p>
+              <div className="space-y-2">
+                {executionFailures.map((failure) => (
+                  <div key={failure.transactionHash} className="flex justify-between items-start gap-4 text-base">
+                    <span className="text-primary-200 font-medium break-all">{failure.reason}</span>
+                    <span className="flex items-center gap-2 flex-shrink-0 font-mono text-dark-400">
+                      Block {failure.blockNumber}
+                      <ExplorerLink type="transaction" value={failure.transactionHash} className="text-xs" />
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {!transaction.executed && !transaction.cancelled && (
+                <p className="text-sm text-primary-200/80 mt-3">
+                  The proposal is still pending and can be executed again once the cause is resolved.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Approval Progress */}
           {!transaction.executed && !transaction.cancelled && (
             <>
               <div className="mb-5">
                 <div className="flex justify-between items-center mb-2">
-                  <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Approvals</span>
+                  <span className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                    {isWeighted ? `Approval Weight (${transaction.numApprovals} approvals)` : 'Approvals'}
+                  </span>
                   <span className="text-base font-semibold text-dark-200">
-                    <span className="text-primary-400">{transaction.numApprovals.toString()}</span>
+                    <span className="text-primary-400">{approvalWeight.toString()}</span>
                     <span className="text-dark-500 mx-1">/</span>
                     <span className="text-dark-300">{transaction.threshold.toString()}</span>
                   </span>
@@ -310,6 +353,16 @@ export function LookupTransaction() {
                       </span>
                     );
                   })}
+                  {transaction.formerOwnerApprovals?.map((formerOwner) => (
+                    <span
+                      key={formerOwner}
+                      className="inline-flex items-center px-5 py-2.5 rounded-md text-base font-medium border shadow-vault-inner bg-vault-dark-4 text-dark-500 border-dark-700"
+                      title="Approval from a removed owner does not count toward the threshold"
+                    >
+                      <span className="font-mono line-through">{formatAddress(formerOwner)}</span>
+                      <span className="ml-2">former owner (not counted)</span>
+                    </span>
+                  ))}
                 </div>
               </div>
 
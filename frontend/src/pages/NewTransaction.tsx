@@ -6,8 +6,14 @@ import { multisigService } from '../services/MultisigService';
 import { Modal } from '../components/Modal';
 import { TransactionFlow } from '../components/TransactionFlow';
 import { TransactionPreview } from '../components/TransactionPreview';
+import { BatchComposer, type BatchCallInput } from '../components/BatchComposer';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { formatTimePeriod } from '../utils/blockTime';
 import * as quais from 'quais';
 
+// Must match MAX_MEMO_LENGTH in MultisigWallet.sol
+const MAX_MEMO_BYTES = 1024;
+
 export function NewTransaction() {
   const { address: walletAddress } = useParams<{ address: string }>();
   const navigate = useNavigate();
@@ -16,6 +22,9 @@ export function NewTransaction() {
   const [to, setTo] = useState('');
   const [value, setValue] = useState('');
   const [data, setData] = useState('0x');
+  const [isBatch, setIsBatch] = useState(false);
+  const [batchCalls, setBatchCalls] = useState<BatchCallInput[]>([{ to: '', value: '', data: '0x' }]);
+  const [batchData, setBatchData] = useState('0x');
   const [errors, setErrors] = useState<string[]>([]);
   const [showPreview, setShowPreview] = useState(false);
   const [showFlow, setShowFlow] = useState(false);
@@ -25,11 +34,35 @@ export function NewTransaction() {
   const [canUseDailyLimit, setCanUseDailyLimit] = useState<boolean | null>(null);
   const [remainingDailyLimit, setRemainingDailyLimit] = useState<bigint | null>(null);
   const [dailyLimitInfo, setDailyLimitInfo] = useState<{ limit: bigint; spent: bigint } | null>(null);
+  const [delaySeconds, setDelaySeconds] = useState<bigint | null>(null);
+  const [expiryHours, setExpiryHours] = useState('');
+  const [memo, setMemo] = useState('');
+
+  // Check whether approved proposals must be queued behind the delay module cooldown
+  useEffect(() => {
+    const checkDelay = async () => {
+      if (!walletAddress || !CONTRACT_ADDRESSES.DELAY_MODULE) {
+        setDelaySeconds(null);
+        return;
+      }
+
+      try {
+        const enabled = await multisigService.isModuleEnabled(walletAddress, CONTRACT_ADDRESSES.DELAY_MODULE);
+        const delay = enabled ? await multisigService.getDelay(walletAddress) : 0n;
+        setDelaySeconds(delay > 0n ? delay : null);
+      } catch {
+        // Module might not be deployed - fall back to immediate execution
+        setDelaySeconds(null);
+      }
+    };
+
+    checkDelay();
+  }, [walletAddress]);
 
   // Check whitelist status when address or value changes
   useEffect(() => {
     const checkWhitelist = async () => {
-      if (!walletAddress || !to.trim() || !quais.isAddress(to)) {
+      if (isBatch || !walletAddress || !to.trim() || !quais.isAddress(to)) {
         setIsWhitelisted(null);
         setWhitelistLimit(null);
         return;
@@ -40,7 +73,8 @@ export function NewTransaction() {
         const canExecute = await multisigService.canExecuteViaWhitelist(
           walletAddress,
           to.trim(),
-          parsedValue
+          parsedValue,
+          (data || '0x').trim()
         );
 
         if (canExecute.canExecute) {
@@ -60,12 +94,12 @@ export function NewTransaction() {
     // Debounce the check
     const timeoutId = setTimeout(checkWhitelist, 500);
     return () => clearTimeout(timeoutId);
-  }, [walletAddress, to, value]);
+  }, [walletAddress, to, value, data, isBatch]);
 
   // Check daily limit status when value changes (only for simple transfers, not contract calls)
   useEffect(() => {
     const checkDailyLimit = async () => {
-      if (!walletAddress || (data && data !== '0x')) {
+      if (isBatch || !walletAddress || (data && data !== '0x')) {
         setCanUseDailyLimit(null);
         setRemainingDailyLimit(null);
         setDailyLimitInfo(null);
@@ -111,7 +145,7 @@ export function NewTransaction() {
     // Debounce the check
     const timeoutId = setTimeout(checkDailyLimit, 500);
     return () => clearTimeout(timeoutId);
-  }, [walletAddress, value, data]);
+  }, [walletAddress, value, data, isBatch]);
 
   const validateForm = async (): Promise<boolean> => {
     const newErrors: string[] = [];
@@ -173,10 +207,99 @@ export function NewTransaction() {
       }
     }
 
+    const expiryError = validateExpiry();
+    if (expiryError) {
+      newErrors.push(expiryError);
+    }
+
+    const memoError = validateMemo();
+    if (memoError) {
+      newErrors.push(memoError);
+    }
+
     setErrors(newErrors);
     return newErrors.length === 0;
   };
 
+  const validateExpiry = (): string | null => {
+    if (!expiryHours.trim()) return null;
+    const hours = parseFloat(expiryHours.trim());
+    if (isNaN(hours) || hours <= 0) {
+      return 'Expiration must be a positive number of hours';
+    }
+    return null;
+  };
+
+  const validateMemo = (): string | null => {
+    if (new TextEncoder().encode(memo.trim()).length > MAX_MEMO_BYTES) {
+      return `Memo must be at most ${MAX_MEMO_BYTES} bytes`;
+    }
+    return null;
+  };
+
+  // Deadline is computed at submission so the full window starts when the proposal is sent
+  const getValidUntil = (): number | undefined => {
+    if (!expiryHours.trim()) return undefined;
+    return Math.floor(Date.now() / 1000) + Math.round(parseFloat(expiryHours.trim()) * 3600);
+  };
+
+  // Validate every batch row and encode them into a single multiSend call
+  const buildBatch = (): string | null => {
+    const newErrors: string[] = [];
+    const transactions: { to: string; value: bigint; data: string }[] = [];
+
+    batchCalls.forEach((call, index) => {
+      const label = `Call #${index + 1}`;
+      const callData = (call.data || '0x').trim();
+
+      if (!quais.isAddress(call.to.trim())) {
+        newErrors.push(`${label}: invalid recipient address`);
+        return;
+      }
+      if (callData !== '0x' && !quais.isHexString(callData)) {
+        newErrors.push(`${label}: invalid data format (must be hex string)`);
+        return;
+      }
+
+      try {
+        const parsedValue = transactionBuilderService.parseValue(call.value || '0');
+        if (parsedValue < 0n) {
+          newErrors.push(`${label}: value cannot be negative`);
+          return;
+        }
+        transactions.push({ to: call.to.trim(), value: parsedValue, data: callData });
+      } catch {
+        newErrors.push(`${label}: invalid value format`);
+      }
+    });
+
+    if (batchCalls.length === 0) {
+      newErrors.push('Add at least one call to the batch');
+    }
+
+    const expiryError = validateExpiry();
+    if (expiryError) {
+      newErrors.push(expiryError);
+    }
+
+    const memoError = validateMemo();
+    if (memoError) {
+      newErrors.push(memoError);
+    }
+
+    setErrors(newErrors);
+    if (newErrors.length > 0) {
+      return null;
+    }
+
+    return transactionBuilderService.buildBatchTransaction(transactions).data;
+  };
+
+  const handleModeChange = (batch: boolean) => {
+    setIsBatch(batch);
+    setErrors([]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -185,6 +308,16 @@ export function NewTransaction() {
       return;
     }
 
+    if (isBatch) {
+      const encoded = buildBatch();
+      if (!encoded) {
+        return;
+      }
+      setBatchData(encoded);
+      setShowPreview(true);
+      return;
+    }
+
     const isValid = await validateForm();
     if (!isValid) {
       return;
@@ -211,6 +344,24 @@ export function NewTransaction() {
       throw new Error('Invalid wallet address');
     }
 
+    if (isBatch) {
+      // Batches are a self-call to multiSend and always go through the approval flow
+      onProgress({ step: 'signing', message: 'Please approve the batch proposal in your wallet' });
+
+      const txHash = await proposeTransactionAsync({
+        walletAddress,
+        to: walletAddress,
+        value: 0n,
+        data: batchData,
+        validUntil: getValidUntil(),
+        memo,
+      });
+
+      onProgress({ step: 'waiting', txHash: txHash || '', message: 'Waiting for transaction confirmation...' });
+      await new Promise(resolve => setTimeout(resolve, 3000));
+      return '';
+    }
+
     const parsedValue = transactionBuilderService.parseValue(value);
     const normalizedTo = to.trim();
     const normalizedData = (data || '0x').trim();
@@ -220,7 +371,8 @@ export function NewTransaction() {
     const canExecuteWhitelist = await multisigService.canExecuteViaWhitelist(
       walletAddress,
       normalizedTo,
-      parsedValue
+      parsedValue,
+      normalizedData
     );
 
     if (canExecuteWhitelist.canExecute) {
@@ -259,12 +411,7 @@ export function NewTransaction() {
         // Normal proposal flow (requires approvals)
         onProgress({ step: 'signing', message: 'Please approve the transaction proposal in your wallet' });
         
-        const txHash = await proposeTransactionAsync({
-          walletAddress,
-          to: normalizedTo,
-          value: parsedValue,
-          data: normalizedData,
-        });
+        const txHash = await proposeWithApprovals(normalizedTo, parsedValue, normalizedData);
         
         onProgress({ step: 'waiting', txHash: txHash || '', message: 'Waiting for transaction confirmation...' });
       }
@@ -272,12 +419,7 @@ export function NewTransaction() {
       // Normal proposal flow for contract calls (requires approvals)
       onProgress({ step: 'signing', message: 'Please approve the transaction proposal in your wallet' });
       
-      const txHash = await proposeTransactionAsync({
-        walletAddress,
-        to: normalizedTo,
-        value: parsedValue,
-        data: normalizedData,
-      });
+      const txHash = await proposeWithApprovals(normalizedTo, parsedValue, normalizedData);
       
       onProgress({ step: 'waiting', txHash: txHash || '', message: 'Waiting for transaction confirmation...' });
     }
@@ -288,6 +430,20 @@ export function NewTransaction() {
     return '';
   };
 
+  // Propose either the transaction itself or, with the delay module active, a call that
+  // queues it behind the cooldown once approved
+  const proposeWithApprovals = async (to: string, value: bigint, data: string) => {
+    if (!walletAddress) {
+      throw new Error('Invalid wallet address');
+    }
+
+    if (delaySeconds !== null) {
+      return await multisigService.proposeQueueTransaction(walletAddress, to, value, data);
+    }
+
+    return await proposeTransactionAsync({ walletAddress, to, value, data, validUntil: getValidUntil(), memo });
+  };
+
   const handleComplete = () => {
     setShowFlow(false);
     // Navigate back to wallet detail after a short delay
@@ -356,54 +512,126 @@ export function NewTransaction() {
       </div>
 
       <form onSubmit={handleSubmit} className="vault-panel p-8">
-        {/* Recipient Address */}
-        <div className="mb-8">
-          <label htmlFor="to" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
-            Recipient Address
-          </label>
-          <input
-            id="to"
-            type="text"
-            value={to}
-            onChange={(e) => setTo(e.target.value)}
-            placeholder="0x..."
-            className="input-field w-full"
-          />
+        {/* Mode */}
+        <div className="mb-8 flex gap-3">
+          <button
+            type="button"
+            onClick={() => handleModeChange(false)}
+            className={!isBatch ? 'btn-primary' : 'btn-secondary'}
+          >
+            Single
+          </button>
+          <button
+            type="button"
+            onClick={() => handleModeChange(true)}
+            className={isBatch ? 'btn-primary' : 'btn-secondary'}
+          >
+            Batch
+          </button>
         </div>
 
-        {/* Value */}
+        {isBatch ? (
+          <BatchComposer calls={batchCalls} onChange={setBatchCalls} />
+        ) : (
+          <>
+            {/* Recipient Address */}
+            <div className="mb-8">
+              <label htmlFor="to" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+                Recipient Address
+              </label>
+              <input
+                id="to"
+                type="text"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                placeholder="0x..."
+                className="input-field w-full"
+              />
+            </div>
+
+            {/* Value */}
+            <div className="mb-8">
+              <label htmlFor="value" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+                Amount (QUAI)
+              </label>
+              <input
+                id="value"
+                type="text"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder="0.0"
+                className="input-field w-full"
+              />
+              <p className="mt-2 text-base font-mono text-dark-600">
+                Enter the amount in QUAI (e.g., 1.5 for 1.5 QUAI)
+              </p>
+            </div>
+
+            {/* Data (Optional) */}
+            <div className="mb-8">
+              <label htmlFor="data" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+                Data (Optional)
+              </label>
+              <textarea
+                id="data"
+                value={data}
+                onChange={(e) => setData(e.target.value)}
+                placeholder="0x"
+                rows={4}
+                className="input-field w-full font-mono text-lg"
+              />
+              <p className="mt-2 text-base font-mono text-dark-600">
+                Optional contract call data. Leave as "0x" for simple transfers.
+              </p>
+            </div>
+
+            {/* Delay Module */}
+            {delaySeconds !== null && (
+              <div className="mb-8 bg-vault-dark-4 rounded-md p-5 border border-dark-600">
+                <span className="block text-base font-mono text-dark-500 uppercase tracking-wider">
+                  Queued behind cooldown
+                </span>
+                <span className="block mt-1 text-base font-mono text-dark-600">
+                  Once approved, the transaction waits {formatTimePeriod(Number(delaySeconds) * 1000)} before it can execute. Any owner can veto it during that time.
+                </span>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Expiration (Optional) */}
         <div className="mb-8">
-          <label htmlFor="value" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
-            Amount (QUAI)
+          <label htmlFor="expiryHours" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+            Expires After (hours, optional)
           </label>
           <input
-            id="value"
+            id="expiryHours"
             type="text"
-            value={value}
-            onChange={(e) => setValue(e.target.value)}
-            placeholder="0.0"
+            value={expiryHours}
+            onChange={(e) => setExpiryHours(e.target.value)}
+            placeholder="No expiration"
             className="input-field w-full"
           />
           <p className="mt-2 text-base font-mono text-dark-600">
-            Enter the amount in QUAI (e.g., 1.5 for 1.5 QUAI)
+            If set, the proposal can no longer be executed once this window has passed, even with enough approvals.
           </p>
         </div>
 
-        {/* Data (Optional) */}
+        {/* Memo (Optional) */}
         <div className="mb-8">
-          <label htmlFor="data" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
-            Data (Optional)
+          <label htmlFor="memo" className="block text-base font-mono text-dark-500 uppercase tracking-wider mb-3">
+            Memo (optional)
           </label>
           <textarea
-            id="data"
-            value={data}
-            onChange={(e) => setData(e.target.value)}
-            placeholder="0x"
-            rows={4}
-            className="input-field w-full font-mono text-lg"
+            id="memo"
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+            placeholder="Why this transaction exists, or a link / content hash to a longer write-up"
+            rows={3}
+            className="input-field w-full"
           />
           <p className="mt-2 text-base font-mono text-dark-600">
-            Optional contract call data. Leave as "0x" for simple transfers.
+            Stored on-chain with the proposal so other owners see it when approving.
           </p>
         </div>
 
@@ -414,19 +642,25 @@ export function NewTransaction() {
             <div className="flex justify-between items-center">
               <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Type:</span>
               <span className="text-dark-200 font-semibold">
-                {!data || data === '0x' ? 'Simple Transfer' : 'Contract Call'}
+                {isBatch ? `Batch (${batchCalls.length} calls)` : !data || data === '0x' ? 'Simple Transfer' : 'Contract Call'}
               </span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Recipient:</span>
               <span className="text-primary-300 font-mono truncate max-w-xs text-right">
-                {to || '-'}
+                {isBatch ? 'Multiple (see calls)' : to || '-'}
               </span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Amount:</span>
-              <span className="text-dark-200 font-semibold">{value || '0'} <span className="text-primary-400">QUAI</span></span>
+              <span className="text-dark-200 font-semibold">{isBatch ? '-' : value || '0'} <span className="text-primary-400">QUAI</span></span>
             </div>
+            {memo.trim() && (
+              <div className="flex justify-between items-start gap-4">
+                <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Memo:</span>
+                <span className="text-dark-200 break-words text-right max-w-xs">{memo.trim()}</span>
+              </div>
+            )}
             {isWhitelisted === true && (
               <div className="flex justify-between items-center pt-2 border-t border-dark-600">
                 <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Status:</span>
@@ -524,9 +758,9 @@ export function NewTransaction() {
         size="lg"
       >
         <TransactionPreview
-          to={to}
-          value={value}
-          data={data}
+          to={isBatch ? walletAddress : to}
+          value={isBatch ? '0' : value}
+          data={isBatch ? batchData : data}
           walletAddress={walletAddress}
           onConfirm={handlePreviewConfirm}
           onCancel={handlePreviewCancel}
@@ -556,18 +790,18 @@ export function NewTransaction() {
               <div className="flex justify-between items-center">
                 <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Type:</span>
                 <span className="text-dark-200 font-semibold">
-                  {!data || data === '0x' ? 'Simple Transfer' : 'Contract Call'}
+                  {isBatch ? `Batch (${batchCalls.length} calls)` : !data || data === '0x' ? 'Simple Transfer' : 'Contract Call'}
                 </span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Recipient:</span>
                 <span className="text-primary-300 font-mono break-all text-right max-w-xs">
-                  {to || '-'}
+                  {isBatch ? 'Multiple (see calls)' : to || '-'}
                 </span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Amount:</span>
-                <span className="text-dark-200 font-semibold">{value || '0'} <span className="text-primary-400">QUAI</span></span>
+                <span className="text-dark-200 font-semibold">{isBatch ? '-' : value || '0'} <span className="text-primary-400">QUAI</span></span>
               </div>
               {isWhitelisted === true && (
                 <div className="flex justify-between items-center pt-2 border-t border-dark-600">
@@ -605,7 +839,7 @@ export function NewTransaction() {
                   </div>
                 </div>
               )}
-              {data && data !== '0x' && (
+              {!isBatch && data && data !== '0x' && (
                 <div className="flex justify-between items-start">
                   <span className="text-base font-mono text-dark-500 uppercase tracking-wider">Data:</span>
                   <span className="text-dark-400 font-mono text-base break-all text-right max-w-xs">
@@ -629,6 +863,8 @@ export function NewTransaction() {
                 ? `Executing transaction to whitelisted address ${to.substring(0, 10)}... (no approvals needed)`
                 : canUseDailyLimit === true && (!data || data === '0x')
                 ? `Executing transaction within daily limit ${to.substring(0, 10)}... (no approvals needed)`
+                : isBatch
+                ? `Proposing batch of ${batchCalls.length} calls`
                 : `Proposing transaction to ${to.substring(0, 10)}...`
             }
             onExecute={handleProposeTransaction}
@@ -0,0 +1,440 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMultisig } from '../hooks/useMultisig';
+import { useWallet } from '../hooks/useWallet';
+import { EmptyState } from '../components/EmptyState';
+import { notificationManager } from '../components/NotificationContainer';
+import { multisigService } from '../services/MultisigService';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { formatTimePeriod } from '../utils/blockTime';
+import * as quais from 'quais';
+
+const INTERVAL_UNITS = {
+  days: 86400,
+  weeks: 7 * 86400,
+  months: 30 * 86400,
+} as const;
+
+type IntervalUnit = keyof typeof INTERVAL_UNITS;
+
+export function RecurringPayments() {
+  const { address: walletAddress } = useParams<{ address: string }>();
+  const { address: connectedAddress } = useWallet();
+  const { walletInfo } = useMultisig(walletAddress);
+  const queryClient = useQueryClient();
+
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [intervalCount, setIntervalCount] = useState('1');
+  const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>('months');
+  const [firstPaymentDate, setFirstPaymentDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Check if Recurring Payments module is enabled
+  const { data: isModuleEnabled, isLoading: isLoadingModule } = useQuery({
+    queryKey: ['recurringPaymentsEnabled', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return false;
+      return await multisigService.isModuleEnabled(walletAddress, CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE);
+    },
+    enabled: !!walletAddress && !!CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE,
+  });
+
+  // Query active schedules
+  const { data: schedules, isLoading: isLoadingSchedules, dataUpdatedAt, refetch } = useQuery({
+    queryKey: ['recurringSchedules', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return [];
+      return await multisigService.getRecurringSchedules(walletAddress);
+    },
+    enabled: !!walletAddress && !!isModuleEnabled,
+    refetchInterval: 30000,
+  });
+
+  // Propose create schedule mutation (creates a multisig proposal)
+  const proposeCreateSchedule = useMutation({
+    mutationFn: async (params: { recipient: string; amount: bigint; interval: bigint; firstPaymentAt: bigint; endsAt: bigint }) => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      return await multisigService.proposeCreateSchedule(
+        walletAddress,
+        params.recipient,
+        params.amount,
+        params.interval,
+        params.firstPaymentAt,
+        params.endsAt
+      );
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created for the payment schedule. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setRecipient('');
+      setAmount('');
+      setFirstPaymentDate('');
+      setEndDate('');
+      setErrors([]);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  // Propose cancel schedule mutation (creates a multisig proposal)
+  const proposeCancelSchedule = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      return await multisigService.proposeCancelSchedule(walletAddress, scheduleId);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to cancel the schedule. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      notificationManager.add({
+        message: error instanceof Error ? error.message : 'Failed to create proposal',
+        type: 'error',
+      });
+    },
+  });
+
+  // Trigger a due payment directly (anyone can do this)
+  const executePayment = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      return await multisigService.executeRecurringPayment(walletAddress, scheduleId);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Payment sent',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['recurringSchedules', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['walletInfo', walletAddress] });
+    },
+    onError: (error) => {
+      notificationManager.add({
+        message: error instanceof Error ? error.message : 'Failed to send payment',
+        type: 'error',
+      });
+    },
+  });
+
+  const isOwner = !!walletInfo?.owners.some(
+    (owner) => owner.toLowerCase() === connectedAddress?.toLowerCase()
+  );
+
+  const toTimestamp = (date: string): bigint => BigInt(Math.floor(new Date(date).getTime() / 1000));
+
+  const handleCreateSchedule = () => {
+    const newErrors: string[] = [];
+
+    if (!quais.isAddress(recipient.trim())) {
+      newErrors.push('Invalid recipient address');
+    }
+
+    let parsedAmount = 0n;
+    try {
+      parsedAmount = quais.parseQuai(amount.trim() || '0');
+    } catch {
+      newErrors.push('Invalid amount');
+    }
+    if (parsedAmount <= 0n) {
+      newErrors.push('Amount must be greater than zero');
+    }
+
+    const count = parseInt(intervalCount);
+    if (isNaN(count) || count < 1) {
+      newErrors.push('Interval must be at least 1');
+    }
+
+    const firstPaymentAt = firstPaymentDate ? toTimestamp(firstPaymentDate) : 0n;
+    const endsAt = endDate ? toTimestamp(endDate) : 0n;
+    if (endsAt !== 0n && endsAt < firstPaymentAt) {
+      newErrors.push('End date must be after the first payment');
+    }
+
+    setErrors(newErrors);
+    if (newErrors.length > 0) return;
+
+    proposeCreateSchedule.mutate({
+      recipient: recipient.trim(),
+      amount: parsedAmount,
+      interval: BigInt(count * INTERVAL_UNITS[intervalUnit]),
+      firstPaymentAt,
+      endsAt,
+    });
+  };
+
+  const formatDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleString();
+
+  // Measured from the last fetch rather than Date.now() so rendering stays pure
+  const now = BigInt(Math.floor(dataUpdatedAt / 1000));
+
+  if (!walletAddress) {
+    return (
+      <div className="text-center py-20">
+        <div className="vault-panel max-w-md mx-auto p-12">
+          <h2 className="text-lg font-display font-bold text-dark-200 mb-2">Invalid Vault Address</h2>
+          <p className="text-dark-500">The requested vault address is invalid.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          to={`/wallet/${walletAddress}`}
+          className="text-lg text-primary-400 hover:text-primary-300 mb-3 inline-flex items-center gap-4 transition-colors font-semibold"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Vault
+        </Link>
+        <h1 className="text-xl font-display font-bold text-gradient-red vault-text-glow">Recurring Payments</h1>
+        <p className="text-lg font-mono text-dark-500 uppercase tracking-wider mt-2">Approved Once, Paid On Schedule</p>
+      </div>
+
+      {/* Info Banner */}
+      <div className="bg-vault-dark-4 border border-dark-600 rounded-md p-4 mb-4">
+        <div className="flex items-start gap-4">
+          <svg className="w-5 h-5 text-primary-500 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+          </svg>
+          <p className="text-base text-dark-400">
+            Creating or cancelling a schedule requires multisig approval. Once approved, anyone can trigger a payment when it falls due,
+            either from this page or with the keeper script. Missed payments are paid one interval at a time.
+          </p>
+        </div>
+      </div>
+
+      {!CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE || (!isLoadingModule && !isModuleEnabled) ? (
+        <div className="vault-panel p-8">
+          <EmptyState
+            icon={
+              <svg className="w-8 h-8 text-dark-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+            }
+            title="Recurring Payments Not Enabled"
+            description="Enable the Recurring Payments module from the vault's module settings to schedule payments."
+            action={{ label: 'Back to Vault', to: `/wallet/${walletAddress}` }}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Active Schedules */}
+          <div className="vault-panel p-8 mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h2 className="text-lg font-display font-bold text-dark-200 mb-1">Active Schedules</h2>
+                <p className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                  {schedules?.length || 0} Scheduled
+                </p>
+              </div>
+              <button
+                onClick={() => refetch()}
+                className="text-lg text-primary-400 hover:text-primary-300 transition-colors font-semibold flex items-center gap-4"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Refresh
+              </button>
+            </div>
+
+            {isLoadingModule || isLoadingSchedules ? (
+              <div className="text-center py-12">
+                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary-600 border-r-transparent"></div>
+                <p className="mt-6 text-dark-400 font-semibold">Loading schedules...</p>
+              </div>
+            ) : !schedules || schedules.length === 0 ? (
+              <p className="text-base text-dark-500 text-center py-6">No active schedules</p>
+            ) : (
+              <div className="space-y-3">
+                {schedules.map((schedule) => {
+                  const isDue = schedule.nextPaymentAt <= now;
+                  return (
+                    <div key={schedule.scheduleId} className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0 flex-1 space-y-1 text-base text-dark-400">
+                          <div className="flex items-center gap-2">
+                            <span className="text-lg font-semibold text-dark-200">
+                              {quais.formatQuai(schedule.amount)} QUAI
+                            </span>
+                            <span className="text-dark-500">every {formatTimePeriod(Number(schedule.interval) * 1000)}</span>
+                            {isDue && (
+                              <span className="vault-badge text-sm border-yellow-600/50 text-yellow-400 bg-yellow-900/30">Due</span>
+                            )}
+                          </div>
+                          <div>
+                            <strong>Recipient:</strong> <span className="font-mono text-primary-300 break-all">{schedule.recipient}</span>
+                          </div>
+                          <div>
+                            <strong>Next payment:</strong> {formatDate(schedule.nextPaymentAt)}
+                          </div>
+                          <div>
+                            <strong>Ends:</strong> {schedule.endsAt === 0n ? 'No end date' : formatDate(schedule.endsAt)}
+                          </div>
+                          <div>
+                            <strong>Payments made:</strong> {schedule.paymentsMade.toString()}
+                          </div>
+                        </div>
+                        <div className="flex flex-col gap-2 flex-shrink-0">
+                          {isDue && connectedAddress && (
+                            <button
+                              onClick={() => executePayment.mutate(schedule.scheduleId)}
+                              disabled={executePayment.isPending}
+                              className="btn-primary text-sm px-3 py-1.5"
+                            >
+                              {executePayment.isPending && executePayment.variables === schedule.scheduleId ? 'Paying...' : 'Pay Now'}
+                            </button>
+                          )}
+                          {isOwner && (
+                            <button
+                              onClick={() => {
+                                if (window.confirm('Create a proposal to cancel this schedule?')) {
+                                  proposeCancelSchedule.mutate(schedule.scheduleId);
+                                }
+                              }}
+                              disabled={proposeCancelSchedule.isPending}
+                              className="btn-secondary text-sm px-3 py-1.5"
+                            >
+                              {proposeCancelSchedule.isPending && proposeCancelSchedule.variables === schedule.scheduleId ? 'Proposing...' : 'Propose Cancel'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* New Schedule */}
+          {isOwner && (
+            <div className="vault-panel p-8">
+              <h2 className="text-lg font-display font-bold text-dark-200 mb-6">Propose New Schedule</h2>
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="recurringRecipient" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                    Recipient
+                  </label>
+                  <input
+                    id="recurringRecipient"
+                    type="text"
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value)}
+                    placeholder="0x..."
+                    className="input-field w-full"
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="recurringAmount" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Amount per payment (QUAI)
+                    </label>
+                    <input
+                      id="recurringAmount"
+                      type="text"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="100"
+                      className="input-field w-full"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="recurringInterval" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Every
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        id="recurringInterval"
+                        type="number"
+                        min={1}
+                        value={intervalCount}
+                        onChange={(e) => setIntervalCount(e.target.value)}
+                        className="input-field w-24"
+                      />
+                      <select
+                        value={intervalUnit}
+                        onChange={(e) => setIntervalUnit(e.target.value as IntervalUnit)}
+                        className="input-field flex-1"
+                      >
+                        <option value="days">Days</option>
+                        <option value="weeks">Weeks</option>
+                        <option value="months">Months (30 days)</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label htmlFor="recurringStart" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      First payment (optional)
+                    </label>
+                    <input
+                      id="recurringStart"
+                      type="datetime-local"
+                      value={firstPaymentDate}
+                      onChange={(e) => setFirstPaymentDate(e.target.value)}
+                      className="input-field w-full"
+                    />
+                    <p className="mt-2 text-sm font-mono text-dark-600">Defaults to as soon as the proposal executes</p>
+                  </div>
+                  <div>
+                    <label htmlFor="recurringEnd" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      End date (optional)
+                    </label>
+                    <input
+                      id="recurringEnd"
+                      type="datetime-local"
+                      value={endDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                      className="input-field w-full"
+                    />
+                    <p className="mt-2 text-sm font-mono text-dark-600">No payment falls due after this date</p>
+                  </div>
+                </div>
+
+                {errors.length > 0 && (
+                  <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+                    <ul className="text-sm text-primary-200 space-y-1">
+                      {errors.map((error, index) => (
+                        <li key={index} className="font-medium">{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleCreateSchedule}
+                  disabled={proposeCreateSchedule.isPending}
+                  className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {proposeCreateSchedule.isPending ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                      Creating Proposal...
+                    </>
+                  ) : (
+                    'Propose Schedule'
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,43 @@
+import { useEffect, useRef } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useMultisig } from '../hooks/useMultisig';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
 import { decodeTransaction } from '../utils/transactionDecoder';
-import { getBlockRangeTimePeriod } from '../utils/blockTime';
 import { CopyButton } from '../components/CopyButton';
 import { ExplorerLink } from '../components/ExplorerLink';
 import { EmptyState } from '../components/EmptyState';
+import { BatchCallList } from '../components/BatchCallList';
+import { TransactionMemo } from '../components/TransactionMemo';
 import * as quais from 'quais';
 
 export function TransactionHistory() {
   const { address: walletAddress } = useParams<{ address: string }>();
-  const { executedTransactions, cancelledTransactions, isLoadingHistory, isLoadingCancelled, refreshHistory, refreshCancelled } = useMultisig(walletAddress);
+  const {
+    executedTransactions,
+    cancelledTransactions,
+    expiredTransactions,
+    transactions,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refresh,
+  } = useTransactionHistory(walletAddress);
+
+  // Load the next page when the bottom of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const formatAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
@@ -56,18 +84,18 @@ export function TransactionHistory() {
           </svg>
           <div className="flex-1">
             <p className="text-base font-mono text-dark-400">
-              Showing transactions from the last <span className="text-primary-400 font-semibold">{getBlockRangeTimePeriod()}</span>
+              Showing <span className="text-primary-400 font-semibold">{transactions.length}</span> of <span className="text-primary-400 font-semibold">{totalCount}</span> proposals, newest first
             </p>
             <p className="text-base text-dark-600 mt-1">
-              Older transactions may not be displayed due to network query limitations.
+              Executed, cancelled and expired proposals are read from the vault's on-chain index. Scroll down to load older ones, or
               {' '}
               <Link
                 to={`/wallet/${walletAddress}/lookup`}
                 className="text-primary-400 hover:text-primary-300 underline font-semibold"
               >
-                Lookup by hash
+                lookup by hash
               </Link>
-              {' '}to find older transactions.
+              .
             </p>
           </div>
         </div>
@@ -83,7 +111,7 @@ export function TransactionHistory() {
             </p>
           </div>
           <button
-            onClick={() => refreshHistory()}
+            onClick={() => refresh()}
             className="text-lg text-primary-400 hover:text-primary-300 transition-colors font-semibold flex items-center gap-4"
           >
             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -93,7 +121,7 @@ export function TransactionHistory() {
           </button>
         </div>
 
-        {isLoadingHistory ? (
+        {isLoading ? (
           <div className="text-center py-12">
             <div className="relative inline-block">
               <div className="absolute inset-0 bg-primary-600/20 blur-xl animate-pulse"></div>
@@ -160,6 +188,7 @@ export function TransactionHistory() {
                       {decoded.details && (
                         <p className="text-lg text-dark-200 font-semibold mt-2">{decoded.details}</p>
                       )}
+                      <TransactionMemo memo={tx.memo} className="mt-1" />
                       <p className="text-base font-mono text-dark-500 mt-2 uppercase tracking-wider">{formatTimestamp(tx.timestamp)}</p>
                     </div>
                     <div className="text-right ml-4 flex-shrink-0">
@@ -197,6 +226,8 @@ export function TransactionHistory() {
                     </div>
                   )}
 
+                  {decoded.subCalls && <BatchCallList subCalls={decoded.subCalls} />}
+
                   {/* Approvals List */}
                   {Object.keys(tx.approvals).length > 0 && (
                     <div className="vault-divider pt-4 mt-4">
@@ -232,7 +263,7 @@ export function TransactionHistory() {
             </p>
           </div>
           <button
-            onClick={() => refreshCancelled()}
+            onClick={() => refresh()}
             className="text-lg text-primary-400 hover:text-primary-300 transition-colors font-semibold flex items-center gap-4"
           >
             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -242,7 +273,7 @@ export function TransactionHistory() {
           </button>
         </div>
 
-        {isLoadingCancelled ? (
+        {isLoading ? (
           <div className="text-center py-12">
             <div className="relative inline-block">
               <div className="absolute inset-0 bg-primary-600/20 blur-xl animate-pulse"></div>
@@ -303,7 +334,157 @@ export function TransactionHistory() {
                       {decoded.details && (
                         <p className="text-lg text-dark-300 font-semibold mt-2">{decoded.details}</p>
                       )}
+                      <TransactionMemo memo={tx.memo} className="mt-1" />
+                      <p className="text-base font-mono text-dark-600 mt-2 uppercase tracking-wider">{formatTimestamp(tx.timestamp)}</p>
+                    </div>
+                    <div className="text-right ml-4 flex-shrink-0">
+                      {tx.value !== '0' && (
+                        <p className="text-base font-display font-bold text-dark-400">
+                          {parseFloat(quais.formatQuai(tx.value)).toFixed(4)}
+                          <span className="text-lg text-dark-500 ml-1">QUAI</span>
+                        </p>
+                      )}
+                      <div className="flex items-center gap-4 justify-end mt-2">
+                        <p className="text-base font-mono text-dark-600">
+                          {formatAddress(tx.hash)}
+                        </p>
+                        <CopyButton text={tx.hash} size="md" />
+                        <ExplorerLink type="transaction" value={tx.hash} className="text-xs" />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Transaction Details - Only show if not a self-call */}
+                  {tx.to.toLowerCase() !== walletAddress.toLowerCase() && (
+                    <div className="bg-vault-dark-4 rounded-md p-4 mb-4 border border-dark-600 space-y-3">
+                      <div className="flex justify-between text-lg">
+                        <span className="text-base font-mono text-dark-600 uppercase tracking-wider">To:</span>
+                        <span className="font-mono text-lg text-dark-400">{formatAddress(tx.to)}</span>
+                      </div>
+                      {tx.data !== '0x' && decoded.type === 'contractCall' && (
+                        <div className="flex justify-between text-lg">
+                          <span className="text-base font-mono text-dark-600 uppercase tracking-wider">Data:</span>
+                          <span className="font-mono text-base text-dark-500 break-all max-w-xs text-right">
+                            {tx.data.length > 50 ? `${tx.data.slice(0, 50)}...` : tx.data}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {decoded.subCalls && <BatchCallList subCalls={decoded.subCalls} />}
+
+                  {/* Approvals List */}
+                  {Object.keys(tx.approvals).length > 0 && Object.values(tx.approvals).some(v => v) && (
+                    <div className="vault-divider pt-4 mt-4">
+                      <p className="text-base font-mono text-dark-600 uppercase tracking-wider mb-3">Was approved by:</p>
+                      <div className="flex flex-wrap gap-4">
+                        {Object.entries(tx.approvals)
+                          .filter(([, approved]) => approved)
+                          .map(([owner]) => (
+                            <span
+                              key={owner}
+                              className="vault-badge text-dark-400 border-dark-600 opacity-75"
+                            >
+                              {formatAddress(owner)}
+                            </span>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Expired Transactions */}
+      <div className="vault-panel p-8 opacity-90">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-lg font-display font-bold text-dark-300 mb-1">Expired Transactions</h2>
+            <p className="text-base font-mono text-dark-500 uppercase tracking-wider">
+              {expiredTransactions?.length || 0} Expired
+            </p>
+          </div>
+          <button
+            onClick={() => refresh()}
+            className="text-lg text-primary-400 hover:text-primary-300 transition-colors font-semibold flex items-center gap-4"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Refresh
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="relative inline-block">
+              <div className="absolute inset-0 bg-primary-600/20 blur-xl animate-pulse"></div>
+              <div className="relative inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary-600 border-r-transparent"></div>
+            </div>
+            <p className="mt-6 text-dark-400 font-semibold">Loading expired transactions...</p>
+            <p className="mt-2 text-base font-mono text-dark-600 uppercase tracking-wider">Accessing vault records</p>
+          </div>
+        ) : !expiredTransactions || expiredTransactions.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-vault-dark-4 border-2 border-dark-600 mb-4">
+              <svg
+                className="w-8 h-8 text-dark-600"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+            </div>
+            <p className="text-lg text-dark-500 font-semibold">No expired transactions</p>
+            <p className="text-base text-dark-600 mt-1 font-mono uppercase tracking-wider">
+              Proposals that pass their deadline unexecuted will appear here
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {expiredTransactions.map((tx) => {
+              const formatTimestamp = (timestamp: number) => {
+                const date = new Date(timestamp * 1000);
+                return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
+              };
+
+              const decoded = decodeTransaction(tx, walletAddress);
+
+              return (
+                <div
+                  key={tx.hash}
+                  className="vault-panel p-5 hover:border-primary-600/30 transition-all opacity-80"
+                >
+                  {/* Transaction Header */}
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-4 mb-2 flex-wrap">
+                        <span className={`inline-flex items-center px-3 py-1 rounded-md text-base font-semibold ${decoded.bgColor} ${decoded.textColor} border ${decoded.borderColor} shadow-vault-inner opacity-75`}>
+                          <span className="mr-1.5">{decoded.icon}</span>
+                          {decoded.description}
+                        </span>
+                        <span className="inline-flex items-center px-3 py-1 rounded-md text-base font-bold bg-yellow-900/30 text-yellow-500 border border-yellow-700/50">
+                          ⌛ Expired
+                        </span>
+                      </div>
+                      {decoded.details && (
+                        <p className="text-lg text-dark-300 font-semibold mt-2">{decoded.details}</p>
+                      )}
+                      <TransactionMemo memo={tx.memo} className="mt-1" />
                       <p className="text-base font-mono text-dark-600 mt-2 uppercase tracking-wider">{formatTimestamp(tx.timestamp)}</p>
+                      {tx.validUntil ? (
+                        <p className="text-base font-mono text-yellow-600 mt-1 uppercase tracking-wider">Expired {formatTimestamp(tx.validUntil)}</p>
+                      ) : null}
                     </div>
                     <div className="text-right ml-4 flex-shrink-0">
                       {tx.value !== '0' && (
@@ -340,6 +521,8 @@ export function TransactionHistory() {
                     </div>
                   )}
 
+                  {decoded.subCalls && <BatchCallList subCalls={decoded.subCalls} />}
+
                   {/* Approvals List */}
                   {Object.keys(tx.approvals).length > 0 && Object.values(tx.approvals).some(v => v) && (
                     <div className="vault-divider pt-4 mt-4">
@@ -364,6 +547,20 @@ export function TransactionHistory() {
           </div>
         )}
       </div>
+
+      {/* Older Pages */}
+      <div ref={loadMoreRef} className="text-center py-4">
+        {isFetchingNextPage ? (
+          <div className="inline-block w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+        ) : hasNextPage ? (
+          <button
+            onClick={() => fetchNextPage()}
+            className="text-lg text-primary-400 hover:text-primary-300 transition-colors font-semibold"
+          >
+            Load older transactions
+          </button>
+        ) : null}
+      </div>
     </div>
   );
 }
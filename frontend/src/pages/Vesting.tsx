@@ -0,0 +1,518 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMultisig } from '../hooks/useMultisig';
+import { useWallet } from '../hooks/useWallet';
+import { EmptyState } from '../components/EmptyState';
+import { notificationManager } from '../components/NotificationContainer';
+import { multisigService } from '../services/MultisigService';
+import type { VestingGrantWithId } from '../services/MultisigService';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { formatTimePeriod } from '../utils/blockTime';
+import * as quais from 'quais';
+
+const DURATION_UNITS = {
+  days: 86400,
+  months: 30 * 86400,
+  years: 365 * 86400,
+} as const;
+
+type DurationUnit = keyof typeof DURATION_UNITS;
+type VestingType = 'linear' | 'cliff';
+
+export function Vesting() {
+  const { address: walletAddress } = useParams<{ address: string }>();
+  const { address: connectedAddress } = useWallet();
+  const { walletInfo } = useMultisig(walletAddress);
+  const queryClient = useQueryClient();
+
+  const [vestingType, setVestingType] = useState<VestingType>('linear');
+  const [beneficiary, setBeneficiary] = useState('');
+  const [token, setToken] = useState('');
+  const [amount, setAmount] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [durationCount, setDurationCount] = useState('4');
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>('years');
+  const [cliffCount, setCliffCount] = useState('12');
+  const [cliffUnit, setCliffUnit] = useState<DurationUnit>('months');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Check if Vesting module is enabled
+  const { data: isModuleEnabled, isLoading: isLoadingModule } = useQuery({
+    queryKey: ['vestingEnabled', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return false;
+      return await multisigService.isModuleEnabled(walletAddress, CONTRACT_ADDRESSES.VESTING_MODULE);
+    },
+    enabled: !!walletAddress && !!CONTRACT_ADDRESSES.VESTING_MODULE,
+  });
+
+  // Query active grants
+  const { data: grants, isLoading: isLoadingGrants, dataUpdatedAt, refetch } = useQuery({
+    queryKey: ['vestingGrants', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return [];
+      return await multisigService.getVestingGrants(walletAddress);
+    },
+    enabled: !!walletAddress && !!isModuleEnabled,
+    refetchInterval: 30000,
+  });
+
+  // Propose create grant mutation (creates a multisig proposal)
+  const proposeCreateVesting = useMutation({
+    mutationFn: async (params: {
+      beneficiary: string;
+      token: string;
+      amount: string;
+      start: bigint;
+      cliffDuration: bigint;
+      duration: bigint;
+    }) => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      const { decimals } = await multisigService.getVestingTokenMetadata(params.token);
+      return await multisigService.proposeCreateVesting(
+        walletAddress,
+        params.beneficiary,
+        params.token,
+        quais.parseUnits(params.amount, decimals),
+        params.start,
+        params.cliffDuration,
+        params.duration
+      );
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created for the vesting grant. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+      setBeneficiary('');
+      setToken('');
+      setAmount('');
+      setStartDate('');
+      setErrors([]);
+    },
+    onError: (error) => {
+      setErrors([error instanceof Error ? error.message : 'Failed to create proposal']);
+    },
+  });
+
+  // Propose revoke mutation (creates a multisig proposal)
+  const proposeRevokeVesting = useMutation({
+    mutationFn: async (grantId: string) => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      return await multisigService.proposeRevokeVesting(walletAddress, grantId);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: 'Proposal created to revoke the unvested amount. Requires multisig approval.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions'] });
+    },
+    onError: (error) => {
+      notificationManager.add({
+        message: error instanceof Error ? error.message : 'Failed to create proposal',
+        type: 'error',
+      });
+    },
+  });
+
+  // Claim vested amount (beneficiary only)
+  const claimVesting = useMutation({
+    mutationFn: async (grantId: string) => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      return await multisigService.claimVesting(walletAddress, grantId);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Vested amount claimed',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['vestingGrants', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['walletInfo', walletAddress] });
+    },
+    onError: (error) => {
+      notificationManager.add({
+        message: error instanceof Error ? error.message : 'Failed to claim',
+        type: 'error',
+      });
+    },
+  });
+
+  const isOwner = !!walletInfo?.owners.some(
+    (owner) => owner.toLowerCase() === connectedAddress?.toLowerCase()
+  );
+
+  const handleCreateVesting = () => {
+    const newErrors: string[] = [];
+
+    if (!quais.isAddress(beneficiary.trim())) {
+      newErrors.push('Invalid beneficiary address');
+    }
+    if (token.trim() && !quais.isAddress(token.trim())) {
+      newErrors.push('Invalid token address (leave empty for QUAI)');
+    }
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      newErrors.push('Amount must be greater than zero');
+    }
+
+    const duration = parseInt(durationCount);
+    if (isNaN(duration) || duration < 1) {
+      newErrors.push('Vesting duration must be at least 1');
+    }
+    const durationSeconds = isNaN(duration) ? 0n : BigInt(duration * DURATION_UNITS[durationUnit]);
+
+    let cliffSeconds = durationSeconds;
+    if (vestingType === 'linear') {
+      const cliff = parseInt(cliffCount || '0');
+      if (isNaN(cliff) || cliff < 0) {
+        newErrors.push('Cliff cannot be negative');
+      }
+      cliffSeconds = isNaN(cliff) ? 0n : BigInt(cliff * DURATION_UNITS[cliffUnit]);
+      if (cliffSeconds > durationSeconds) {
+        newErrors.push('Cliff cannot be longer than the vesting duration');
+      }
+    }
+
+    setErrors(newErrors);
+    if (newErrors.length > 0) return;
+
+    proposeCreateVesting.mutate({
+      beneficiary: beneficiary.trim(),
+      token: token.trim() || quais.ZeroAddress,
+      amount: amount.trim(),
+      start: startDate ? BigInt(Math.floor(new Date(startDate).getTime() / 1000)) : 0n,
+      cliffDuration: cliffSeconds,
+      duration: durationSeconds,
+    });
+  };
+
+  const formatDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleDateString();
+  const formatAmount = (grant: VestingGrantWithId, value: bigint) =>
+    `${parseFloat(quais.formatUnits(value, grant.decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 })} ${grant.symbol}`;
+
+  // Measured from the last fetch rather than Date.now() so rendering stays pure
+  const now = BigInt(Math.floor(dataUpdatedAt / 1000));
+
+  if (!walletAddress) {
+    return (
+      <div className="text-center py-20">
+        <div className="vault-panel max-w-md mx-auto p-12">
+          <h2 className="text-lg font-display font-bold text-dark-200 mb-2">Invalid Vault Address</h2>
+          <p className="text-dark-500">The requested vault address is invalid.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          to={`/wallet/${walletAddress}`}
+          className="text-lg text-primary-400 hover:text-primary-300 mb-3 inline-flex items-center gap-4 transition-colors font-semibold"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Vault
+        </Link>
+        <h1 className="text-xl font-display font-bold text-gradient-red vault-text-glow">Vesting</h1>
+        <p className="text-lg font-mono text-dark-500 uppercase tracking-wider mt-2">Grants Paid Out As They Vest</p>
+      </div>
+
+      {/* Info Banner */}
+      <div className="bg-vault-dark-4 border border-dark-600 rounded-md p-4 mb-4">
+        <div className="flex items-start gap-4">
+          <svg className="w-5 h-5 text-primary-500 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+          </svg>
+          <p className="text-base text-dark-400">
+            Creating or revoking a grant requires multisig approval. Beneficiaries claim vested amounts directly from the vault,
+            so keep enough balance to cover them. Revoking stops further vesting; anything already vested stays claimable.
+          </p>
+        </div>
+      </div>
+
+      {!CONTRACT_ADDRESSES.VESTING_MODULE || (!isLoadingModule && !isModuleEnabled) ? (
+        <div className="vault-panel p-8">
+          <EmptyState
+            icon={
+              <svg className="w-8 h-8 text-dark-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            }
+            title="Vesting Not Enabled"
+            description="Enable the Vesting module from the vault's module settings to create grants."
+            action={{ label: 'Back to Vault', to: `/wallet/${walletAddress}` }}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Active Grants */}
+          <div className="vault-panel p-8 mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h2 className="text-lg font-display font-bold text-dark-200 mb-1">Active Grants</h2>
+                <p className="text-base font-mono text-dark-500 uppercase tracking-wider">
+                  {grants?.length || 0} Grant{grants?.length === 1 ? '' : 's'}
+                </p>
+              </div>
+              <button
+                onClick={() => refetch()}
+                className="text-lg text-primary-400 hover:text-primary-300 transition-colors font-semibold flex items-center gap-4"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Refresh
+              </button>
+            </div>
+
+            {isLoadingModule || isLoadingGrants ? (
+              <div className="text-center py-12">
+                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary-600 border-r-transparent"></div>
+                <p className="mt-6 text-dark-400 font-semibold">Loading grants...</p>
+              </div>
+            ) : !grants || grants.length === 0 ? (
+              <p className="text-base text-dark-500 text-center py-6">No active grants</p>
+            ) : (
+              <div className="space-y-3">
+                {grants.map((grant) => {
+                  const isBeneficiary = grant.beneficiary.toLowerCase() === connectedAddress?.toLowerCase();
+                  const vestedPercent = grant.totalAmount > 0n ? Number((grant.vested * 100n) / grant.totalAmount) : 0;
+                  const cliffEndsAt = grant.start + grant.cliffDuration;
+                  return (
+                    <div key={grant.grantId} className="bg-vault-dark-4 rounded-md p-4 border border-dark-600">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0 flex-1 space-y-1 text-base text-dark-400">
+                          <div className="flex items-center gap-2">
+                            <span className="text-lg font-semibold text-dark-200">{formatAmount(grant, grant.totalAmount)}</span>
+                            <span className="text-dark-500">
+                              {grant.cliffDuration === grant.duration
+                                ? `cliff after ${formatTimePeriod(Number(grant.duration) * 1000)}`
+                                : `linear over ${formatTimePeriod(Number(grant.duration) * 1000)}`}
+                            </span>
+                            {grant.revoked && (
+                              <span className="vault-badge text-sm border-red-600/50 text-red-400 bg-red-900/30">Revoked</span>
+                            )}
+                            {isBeneficiary && (
+                              <span className="vault-badge text-sm border-purple-600/50 text-purple-400 bg-purple-900/30">You</span>
+                            )}
+                          </div>
+                          <div>
+                            <strong>Beneficiary:</strong> <span className="font-mono text-primary-300 break-all">{grant.beneficiary}</span>
+                          </div>
+                          <div>
+                            <strong>Vesting:</strong> {formatDate(grant.start)} → {formatDate(grant.start + grant.duration)}
+                            {grant.cliffDuration > 0n && grant.cliffDuration !== grant.duration && (
+                              <span> (cliff {formatDate(cliffEndsAt)})</span>
+                            )}
+                          </div>
+                          <div>
+                            <strong>Claimed:</strong> {formatAmount(grant, grant.claimed)} &middot; <strong>Claimable:</strong> {formatAmount(grant, grant.claimable)}
+                          </div>
+                          <div className="pt-2">
+                            <div className="h-2 w-full bg-dark-700 rounded-full overflow-hidden">
+                              <div className="h-full bg-primary-600" style={{ width: `${vestedPercent}%` }} />
+                            </div>
+                            <p className="mt-1 text-sm font-mono text-dark-500">
+                              {vestedPercent}% vested
+                              {!grant.revoked && now < cliffEndsAt && ` · nothing claimable until ${formatDate(cliffEndsAt)}`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex flex-col gap-2 flex-shrink-0">
+                          {isBeneficiary && grant.claimable > 0n && (
+                            <button
+                              onClick={() => claimVesting.mutate(grant.grantId)}
+                              disabled={claimVesting.isPending}
+                              className="btn-primary text-sm px-3 py-1.5"
+                            >
+                              {claimVesting.isPending && claimVesting.variables === grant.grantId ? 'Claiming...' : 'Claim'}
+                            </button>
+                          )}
+                          {isOwner && !grant.revoked && (
+                            <button
+                              onClick={() => {
+                                if (window.confirm('Create a proposal to revoke the unvested amount of this grant?')) {
+                                  proposeRevokeVesting.mutate(grant.grantId);
+                                }
+                              }}
+                              disabled={proposeRevokeVesting.isPending}
+                              className="btn-secondary text-sm px-3 py-1.5"
+                            >
+                              {proposeRevokeVesting.isPending && proposeRevokeVesting.variables === grant.grantId ? 'Proposing...' : 'Propose Revoke'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* New Grant */}
+          {isOwner && (
+            <div className="vault-panel p-8">
+              <h2 className="text-lg font-display font-bold text-dark-200 mb-6">Propose New Grant</h2>
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  {(['linear', 'cliff'] as const).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setVestingType(type)}
+                      className={`${vestingType === type ? 'btn-primary' : 'btn-secondary'} text-sm px-4 py-1.5`}
+                    >
+                      {type === 'linear' ? 'Linear' : 'Cliff'}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm font-mono text-dark-600">
+                  {vestingType === 'linear'
+                    ? 'Vests continuously over the duration; nothing can be claimed before the cliff'
+                    : 'The full amount unlocks at once when the duration has passed'}
+                </p>
+                <div>
+                  <label htmlFor="vestingBeneficiary" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                    Beneficiary
+                  </label>
+                  <input
+                    id="vestingBeneficiary"
+                    type="text"
+                    value={beneficiary}
+                    onChange={(e) => setBeneficiary(e.target.value)}
+                    placeholder="0x..."
+                    className="input-field w-full"
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="vestingToken" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Token (optional)
+                    </label>
+                    <input
+                      id="vestingToken"
+                      type="text"
+                      value={token}
+                      onChange={(e) => setToken(e.target.value)}
+                      placeholder="Empty for QUAI"
+                      className="input-field w-full"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="vestingAmount" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Total amount
+                    </label>
+                    <input
+                      id="vestingAmount"
+                      type="text"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="1000"
+                      className="input-field w-full"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="vestingDuration" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      {vestingType === 'linear' ? 'Vesting duration' : 'Unlocks after'}
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        id="vestingDuration"
+                        type="number"
+                        min={1}
+                        value={durationCount}
+                        onChange={(e) => setDurationCount(e.target.value)}
+                        className="input-field w-24"
+                      />
+                      <select
+                        value={durationUnit}
+                        onChange={(e) => setDurationUnit(e.target.value as DurationUnit)}
+                        className="input-field flex-1"
+                      >
+                        <option value="days">Days</option>
+                        <option value="months">Months (30 days)</option>
+                        <option value="years">Years (365 days)</option>
+                      </select>
+                    </div>
+                  </div>
+                  {vestingType === 'linear' && (
+                    <div>
+                      <label htmlFor="vestingCliff" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                        Cliff
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          id="vestingCliff"
+                          type="number"
+                          min={0}
+                          value={cliffCount}
+                          onChange={(e) => setCliffCount(e.target.value)}
+                          className="input-field w-24"
+                        />
+                        <select
+                          value={cliffUnit}
+                          onChange={(e) => setCliffUnit(e.target.value as DurationUnit)}
+                          className="input-field flex-1"
+                        >
+                          <option value="days">Days</option>
+                          <option value="months">Months (30 days)</option>
+                          <option value="years">Years (365 days)</option>
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <label htmlFor="vestingStart" className="block text-sm font-mono text-dark-500 uppercase tracking-wider mb-2">
+                      Start date (optional)
+                    </label>
+                    <input
+                      id="vestingStart"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      className="input-field w-full"
+                    />
+                    <p className="mt-2 text-sm font-mono text-dark-600">Defaults to when the proposal executes; may be in the past</p>
+                  </div>
+                </div>
+
+                {errors.length > 0 && (
+                  <div className="bg-gradient-to-r from-primary-900/90 via-primary-800/90 to-primary-900/90 border-l-4 border-primary-600 rounded-md p-3 shadow-red-glow">
+                    <ul className="text-sm text-primary-200 space-y-1">
+                      {errors.map((error, index) => (
+                        <li key={index} className="font-medium">{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleCreateVesting}
+                  disabled={proposeCreateVesting.isPending}
+                  className="btn-primary w-full text-base px-4 py-2.5 inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {proposeCreateVesting.isPending ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                      Creating Proposal...
+                    </>
+                  ) : (
+                    'Propose Grant'
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
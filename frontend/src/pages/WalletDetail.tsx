@@ -1,16 +1,19 @@
 import { useParams, Link } from 'react-router-dom';
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useMultisig } from '../hooks/useMultisig';
 import { useWallet } from '../hooks/useWallet';
 import { TransactionList } from '../components/TransactionList';
 import { OwnerManagement } from '../components/OwnerManagement';
 import { ModuleManagement } from '../components/ModuleManagement';
+import { NftHoldings } from '../components/NftHoldings';
 import { SocialRecoveryManagement } from '../components/SocialRecoveryManagement';
+import { InheritanceManagement } from '../components/InheritanceManagement';
 import { EmptyState } from '../components/EmptyState';
-import { getBlockRangeTimePeriod } from '../utils/blockTime';
+import { notificationManager } from '../components/NotificationContainer';
 import { multisigService } from '../services/MultisigService';
 import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { decodeTransaction } from '../utils/transactionDecoder';
 import * as quais from 'quais';
 
 export function WalletDetail() {
@@ -24,9 +27,13 @@ export function WalletDetail() {
     isRefetchingWalletInfo,
     isRefetchingPending,
     refresh,
+    upgradeVaultAsync,
+    isUpgradingVault,
   } = useMultisig(walletAddress);
   const [copied, setCopied] = useState(false);
   const [showRecoveryManagement, setShowRecoveryManagement] = useState(false);
+  const [showInheritanceManagement, setShowInheritanceManagement] = useState(false);
+  const queryClient = useQueryClient();
 
   // Check if connected user is a Social Recovery guardian
   const { data: isGuardian } = useQuery({
@@ -48,6 +55,129 @@ export function WalletDetail() {
     enabled: !!walletAddress,
   });
 
+  // Check if Inheritance module is enabled
+  const { data: isInheritanceEnabled } = useQuery({
+    queryKey: ['inheritanceEnabled', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return false;
+      return await multisigService.isModuleEnabled(walletAddress, CONTRACT_ADDRESSES.INHERITANCE_MODULE);
+    },
+    enabled: !!walletAddress && !!CONTRACT_ADDRESSES.INHERITANCE_MODULE,
+  });
+
+  // Check if connected user is an inheritance beneficiary
+  const { data: isBeneficiary } = useQuery({
+    queryKey: ['isBeneficiary', walletAddress, connectedAddress],
+    queryFn: async () => {
+      if (!connectedAddress || !walletAddress) return false;
+      return await multisigService.isBeneficiary(walletAddress, connectedAddress);
+    },
+    enabled: !!walletAddress && !!connectedAddress && !!isInheritanceEnabled,
+  });
+
+  // When beneficiaries can start claiming (0 if inheritance is not configured)
+  const { data: inheritanceClaimableAt, dataUpdatedAt: claimableUpdatedAt } = useQuery({
+    queryKey: ['inheritanceClaimableAt', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return 0n;
+      return await multisigService.getInheritanceClaimableAt(walletAddress);
+    },
+    enabled: !!walletAddress && !!isInheritanceEnabled,
+    refetchInterval: 30000,
+  });
+
+  // Restart the inactivity countdown without proposing anything
+  const sendHeartbeat = useMutation({
+    mutationFn: async () => {
+      if (!walletAddress) throw new Error('Invalid wallet address');
+      return await multisigService.sendHeartbeat(walletAddress);
+    },
+    onSuccess: () => {
+      notificationManager.add({
+        message: '✅ Heartbeat sent. The inactivity countdown has been reset.',
+        type: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['inheritanceClaimableAt', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['lastOwnerActivity', walletAddress] });
+      queryClient.invalidateQueries({ queryKey: ['pendingClaims', walletAddress] });
+    },
+    onError: (error) => {
+      notificationManager.add({
+        message: error instanceof Error ? error.message : 'Failed to send heartbeat',
+        type: 'error',
+      });
+    },
+  });
+
+  // Check if Delay module is enabled
+  const { data: isDelayEnabled } = useQuery({
+    queryKey: ['delayEnabled', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return false;
+      return await multisigService.isModuleEnabled(walletAddress, CONTRACT_ADDRESSES.DELAY_MODULE);
+    },
+    enabled: !!walletAddress && !!CONTRACT_ADDRESSES.DELAY_MODULE,
+  });
+
+  // Transactions waiting out the delay module cooldown
+  const { data: queuedTransactions } = useQuery({
+    queryKey: ['queuedTransactions', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return [];
+      return await multisigService.getQueuedTransactions(walletAddress);
+    },
+    enabled: !!walletAddress && !!isDelayEnabled,
+    refetchInterval: 30000,
+  });
+
+  // Implementation the vault proxy currently delegates to
+  const { data: walletImplementation } = useQuery({
+    queryKey: ['walletImplementation', walletAddress],
+    queryFn: async () => {
+      if (!walletAddress) return '';
+      return await multisigService.getWalletImplementation(walletAddress);
+    },
+    enabled: !!walletAddress && !!CONTRACT_ADDRESSES.MULTISIG_IMPLEMENTATION,
+  });
+
+  const isUpgradeAvailable = !!walletImplementation &&
+    walletImplementation.toLowerCase() !== CONTRACT_ADDRESSES.MULTISIG_IMPLEMENTATION.toLowerCase();
+
+  const isUpgradePending = !!walletAddress && !!pendingTransactions?.some(
+    (tx) => decodeTransaction(tx, walletAddress).type === 'upgradeTo'
+  );
+
+  const handleUpgrade = async () => {
+    if (!walletAddress) return;
+    try {
+      await upgradeVaultAsync({ walletAddress, newImplementation: CONTRACT_ADDRESSES.MULTISIG_IMPLEMENTATION });
+      notificationManager.add({
+        message: 'Proposal created to upgrade the vault. Requires multisig approval.',
+        type: 'success',
+      });
+    } catch (err) {
+      notificationManager.add({
+        message: err instanceof Error ? err.message : 'Failed to propose upgrade',
+        type: 'error',
+      });
+    }
+  };
+
+  const formatCountdown = (claimableAt: bigint): string => {
+    // Measured from the last fetch rather than Date.now() so rendering stays pure
+    const secondsRemaining = Number(claimableAt) - Math.floor(claimableUpdatedAt / 1000);
+    if (secondsRemaining <= 0) {
+      return 'Beneficiaries can claim now';
+    }
+    const days = Math.floor(secondsRemaining / 86400);
+    const hours = Math.floor((secondsRemaining % 86400) / 3600);
+    const minutes = Math.floor((secondsRemaining % 3600) / 60);
+
+    if (days > 0) return `${days}d ${hours}h until beneficiaries can claim`;
+    if (hours > 0) return `${hours}h ${minutes}m until beneficiaries can claim`;
+    return `${minutes}m until beneficiaries can claim`;
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -143,10 +273,66 @@ export function WalletDetail() {
               </svg>
               Lookup TX
             </Link>
+            <Link
+              to={`/wallet/${walletAddress}/recurring`}
+              className="btn-secondary text-lg px-5 py-2.5 inline-flex items-center gap-4.5"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              Recurring
+            </Link>
+            <Link
+              to={`/wallet/${walletAddress}/vesting`}
+              className="btn-secondary text-lg px-5 py-2.5 inline-flex items-center gap-4.5"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Vesting
+            </Link>
           </div>
         )}
       </div>
 
+      {/* Upgrade Available */}
+      {isOwner && isUpgradeAvailable && (
+        <div className="bg-gradient-to-r from-yellow-900/90 via-yellow-800/90 to-yellow-900/90 border-l-4 border-yellow-600 rounded-md p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-start gap-3 min-w-0">
+              <svg className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+              </svg>
+              <div className="min-w-0">
+                <h4 className="text-base font-semibold text-yellow-200 mb-1">Vault Upgrade Available</h4>
+                <p className="text-sm text-yellow-200/90">
+                  This vault runs an older wallet implementation. Upgrading keeps owners, funds, modules and pending proposals, and requires multisig approval.
+                </p>
+                <p className="text-xs font-mono text-yellow-200/70 mt-1 break-all">
+                  {walletImplementation} → {CONTRACT_ADDRESSES.MULTISIG_IMPLEMENTATION}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={handleUpgrade}
+              disabled={isUpgradingVault || isUpgradePending}
+              className="btn-primary text-base px-4 py-2 inline-flex items-center gap-2 flex-shrink-0 disabled:opacity-50"
+            >
+              {isUpgradingVault ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Creating Proposal...
+                </>
+              ) : isUpgradePending ? (
+                'Upgrade Proposed'
+              ) : (
+                'Upgrade Vault'
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Wallet Info and Owners Side by Side */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         {/* Left Column: Wallet Info */}
@@ -204,7 +390,7 @@ export function WalletDetail() {
                     <p className="text-lg font-semibold text-dark-200">
                 <span className="text-primary-400">{walletInfo.threshold}</span>
                 <span className="text-dark-500 mx-1">/</span>
-                <span className="text-dark-300">{walletInfo.owners.length}</span>
+                <span className="text-dark-300">{walletInfo.totalWeight ?? walletInfo.owners.length}</span>
               </p>
             </div>
             
@@ -224,7 +410,13 @@ export function WalletDetail() {
                     Guardian
                   </span>
                 )}
-                {!isOwner && !isGuardian && (
+                {isBeneficiary && (
+                  <span className="inline-flex items-center gap-1.5 text-purple-400 text-lg font-semibold">
+                    <div className="w-1.5 h-1.5 rounded-full bg-purple-600"></div>
+                    Beneficiary
+                  </span>
+                )}
+                {!isOwner && !isGuardian && !isBeneficiary && (
                   <span className="text-dark-500 text-lg">Viewer</span>
                 )}
               </div>
@@ -238,6 +430,7 @@ export function WalletDetail() {
             walletAddress={walletAddress}
             owners={walletInfo.owners}
             threshold={walletInfo.threshold}
+            ownerWeights={walletInfo.ownerWeights}
             onUpdate={refresh}
           />
         ) : (
@@ -262,6 +455,11 @@ export function WalletDetail() {
                     </div>
                     <span className="font-mono text-base text-primary-300 truncate">{owner}</span>
                   </div>
+                  {walletInfo.totalWeight !== undefined && walletInfo.totalWeight !== walletInfo.owners.length && (
+                    <span className="vault-badge text-base ml-2 flex-shrink-0" title="Voting weight">
+                      ×{walletInfo.ownerWeights?.[owner] ?? 1}
+                    </span>
+                  )}
                   {owner.toLowerCase() === connectedAddress?.toLowerCase() && (
                     <span className="vault-badge text-base border-primary-600/50 text-primary-400 bg-primary-900/30 ml-2 flex-shrink-0">
                       You
@@ -282,6 +480,44 @@ export function WalletDetail() {
         />
       )}
 
+      {/* Inheritance Heartbeat - For owners of vaults with inheritance configured */}
+      {isOwner && isInheritanceEnabled && !!inheritanceClaimableAt && (
+        <div className="vault-panel p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-gradient-to-br from-purple-700 to-purple-900 border border-purple-600/50 flex items-center justify-center">
+                <svg className="w-4 h-4 text-purple-200" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                </svg>
+              </div>
+              <div className="min-w-0">
+                <h2 className="text-lg font-display font-bold text-dark-200">Inheritance</h2>
+                <p className="text-base text-dark-500">
+                  {formatCountdown(inheritanceClaimableAt)}. Proposals, approvals and heartbeats reset the countdown.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => sendHeartbeat.mutate()}
+              disabled={sendHeartbeat.isPending}
+              className="btn-primary text-base px-4 py-2 inline-flex items-center gap-2 flex-shrink-0 disabled:opacity-50"
+            >
+              {sendHeartbeat.isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  Sending...
+                </>
+              ) : (
+                'Send Heartbeat'
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* NFT Holdings */}
+      <NftHoldings walletAddress={walletAddress} isOwner={isOwner} />
+
       {/* Guardian Actions - For guardians who are not owners */}
       {!isOwner && isGuardian && isSocialRecoveryEnabled && (
         <div className="vault-panel p-4">
@@ -329,6 +565,52 @@ export function WalletDetail() {
         />
       )}
 
+      {/* Beneficiary Actions - For beneficiaries who are not owners */}
+      {!isOwner && isBeneficiary && isInheritanceEnabled && (
+        <div className="vault-panel p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-3">
+              <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-gradient-to-br from-purple-700 to-purple-900 border border-purple-600/50 flex items-center justify-center">
+                <svg className="w-4 h-4 text-purple-200" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                </svg>
+              </div>
+              <div>
+                <h2 className="text-lg font-display font-bold text-dark-200">Beneficiary Actions</h2>
+                <p className="text-base text-dark-500">
+                  {inheritanceClaimableAt ? formatCountdown(inheritanceClaimableAt) : 'You are an inheritance beneficiary for this vault'}
+                </p>
+              </div>
+            </div>
+            <span className="vault-badge text-base border-purple-600/50 text-purple-400 bg-purple-900/30">
+              Beneficiary
+            </span>
+          </div>
+          <div className="bg-vault-dark-4 rounded-md border border-dark-600 p-4">
+            <p className="text-base text-dark-400 mb-3">
+              If the owners stay inactive for the configured period, beneficiaries can claim control of this vault or sweep its funds.
+              You can initiate, approve or execute claims.
+            </p>
+            <button
+              onClick={() => setShowInheritanceManagement(true)}
+              className="btn-primary text-base px-4 py-2 inline-flex items-center gap-2"
+            >
+              Manage Inheritance Claims
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Inheritance Management Modal for Beneficiaries */}
+      {showInheritanceManagement && (
+        <InheritanceManagement
+          walletAddress={walletAddress}
+          isOpen={showInheritanceManagement}
+          onClose={() => setShowInheritanceManagement(false)}
+          onUpdate={refresh}
+        />
+      )}
+
       {/* Pending Transactions - Compact */}
       <div className="vault-panel p-4">
         <div className="flex justify-between items-center mb-3">
@@ -339,9 +621,6 @@ export function WalletDetail() {
                 <div className="w-2.5 h-2.5 border border-primary-600 border-t-transparent rounded-full animate-spin"></div>
               )}
             </div>
-            <p className="text-base font-mono text-dark-600 mt-0.5">
-              Showing last {getBlockRangeTimePeriod()}
-            </p>
           </div>
           <button
             onClick={refresh}
@@ -363,7 +642,7 @@ export function WalletDetail() {
             </div>
             <p className="mt-3 text-lg text-dark-400 font-semibold">Loading...</p>
           </div>
-        ) : !pendingTransactions || pendingTransactions.length === 0 ? (
+        ) : (!pendingTransactions || pendingTransactions.length === 0) && !queuedTransactions?.length ? (
           <EmptyState
             icon={
               <svg
@@ -394,9 +673,10 @@ export function WalletDetail() {
           />
         ) : (
           <TransactionList
-            transactions={pendingTransactions}
+            transactions={pendingTransactions || []}
             walletAddress={walletAddress}
             isOwner={isOwner}
+            queuedTransactions={queuedTransactions}
           />
         )}
       </div>
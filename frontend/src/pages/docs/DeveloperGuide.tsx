@@ -159,7 +159,10 @@ const factory = new Contract(
 const owners = ['0x...', '0x...', '0x...'];
 const threshold = 2;
 
-const tx = await factory.createWallet(owners, threshold);
+// Salt mined so the address lands in the factory's zone (see utils/saltMining.ts)
+const { salt, address: predictedAddress } = mineSalt({ factory: PROXY_FACTORY_ADDRESS, deployer, initCodeHash, zone });
+
+const tx = await factory.createWallet(owners, threshold, salt);
 const receipt = await tx.wait();
 
 // Extract vault address from events
@@ -90,7 +90,8 @@ export function Modules() {
             <ul className="space-y-2 ml-4 list-disc leading-relaxed">
               <li>Configurable guardian set and approval threshold</li>
               <li>Time delay before execution (prevents immediate takeovers)</li>
-              <li>Current owners can cancel recoveries</li>
+              <li>Current owners can cancel recoveries, or veto them with the vault's approval threshold</li>
+              <li>Guardians can be rotated behind a 3-day delay, even while recoveries are pending</li>
               <li>Security: Configuration cannot be changed while recoveries are pending</li>
               <li>Threshold stored at initiation time prevents manipulation attacks</li>
             </ul>
@@ -150,8 +151,9 @@ export function Modules() {
             <h3 className="text-base font-display font-bold text-dark-200 mb-2">How It Works</h3>
             <ol className="space-y-2 ml-4 list-decimal leading-relaxed">
               <li>
-                <strong className="text-dark-200">Configuration:</strong> Set a daily spending limit 
-                in QUAI. This limit resets every 24 hours.
+                <strong className="text-dark-200">Configuration:</strong> Set a spending limit in QUAI 
+                (and optionally per ERC-20 token) and a limit period: hourly, daily (the default), weekly 
+                or monthly.
               </li>
               <li>
                 <strong className="text-dark-200">Automatic Execution:</strong> When an owner proposes 
@@ -159,9 +161,10 @@ export function Modules() {
                 approvals (if within the limit).
               </li>
               <li>
-                <strong className="text-dark-200">Limit Tracking:</strong> The module tracks spending 
-                over rolling 24-hour periods. Once the limit is reached, transactions require normal 
-                multisig approvals.
+                <strong className="text-dark-200">Limit Tracking:</strong> Fixed periods restore the full 
+                limit at the end of each period. With a rolling window, each spend counts for exactly one 
+                period after it was made. Once the limit is reached, transactions require normal multisig 
+                approvals.
               </li>
             </ol>
           </div>
@@ -169,8 +172,8 @@ export function Modules() {
           <div>
             <h3 className="text-base font-display font-bold text-dark-200 mb-2">Key Features</h3>
             <ul className="space-y-2 ml-4 list-disc leading-relaxed">
-              <li>Configurable daily spending limit</li>
-              <li>Rolling 24-hour window</li>
+              <li>Configurable spending limit per period</li>
+              <li>Fixed periods or a true rolling window</li>
               <li>Only applies to simple QUAI transfers (not contract calls)</li>
               <li>Frontend-only enforcement (for user convenience)</li>
             </ul>
@@ -229,6 +232,11 @@ export function Modules() {
                 <strong className="text-dark-200">Flexible Usage:</strong> Works with both QUAI transfers 
                 and contract calls to whitelisted addresses.
               </li>
+              <li>
+                <strong className="text-dark-200">Function Permissions:</strong> Optionally restrict a 
+                whitelisted contract to specific functions, and pin parameters such as requiring the 
+                recipient to be the vault or capping an amount.
+              </li>
             </ol>
           </div>
 
@@ -237,6 +245,8 @@ export function Modules() {
             <ul className="space-y-2 ml-4 list-disc leading-relaxed">
               <li>Add or remove addresses from whitelist</li>
               <li>Works with transfers and contract calls</li>
+              <li>Per-function allowlists with parameter constraints</li>
+              <li>Per-transaction and cumulative per-period limits for each address</li>
               <li>Single-owner execution for whitelisted addresses</li>
               <li>Manage whitelist through multisig transactions</li>
             </ul>
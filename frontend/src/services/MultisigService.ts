@@ -1,16 +1,38 @@
 import type { Provider, Signer } from '../types';
-import type { WalletInfo, DeploymentConfig, Transaction, PendingTransaction } from '../types';
+import type { WalletInfo, DeploymentConfig, Transaction, PendingTransaction, TransactionHistoryPage, TransactionSignature, ExecutionFailure, NftHolding } from '../types';
 
 // Import specialized services
 import { WalletService } from './core/WalletService';
 import { TransactionService } from './core/TransactionService';
 import { OwnerService } from './core/OwnerService';
 import { WhitelistModuleService } from './modules/WhitelistModuleService';
+import type { FunctionPermissions, WhitelistEntry, RecipientPeriodLimit } from './modules/WhitelistModuleService';
+import type { ParamConstraint } from '../utils/functionPermissions';
 import { DailyLimitModuleService } from './modules/DailyLimitModuleService';
+import type { TokenDailyLimit, LimitPeriod, RollingSpend } from './modules/DailyLimitModuleService';
 import { SocialRecoveryModuleService } from './modules/SocialRecoveryModuleService';
+import type { Recovery, PendingRecovery, GuardianRotation } from './modules/SocialRecoveryModuleService';
+import { DelayModuleService } from './modules/DelayModuleService';
+import type { PendingQueuedTransaction } from './modules/DelayModuleService';
+import { RolesModuleService } from './modules/RolesModuleService';
+import type { RoleMember } from './modules/RolesModuleService';
+import { InheritanceModuleService } from './modules/InheritanceModuleService';
+import type { InheritanceConfig, PendingClaim } from './modules/InheritanceModuleService';
+import { RecurringPaymentsService } from './modules/RecurringPaymentsService';
+import type { RecurringScheduleWithId } from './modules/RecurringPaymentsService';
+import { VestingModuleService } from './modules/VestingModuleService';
+import type { VestingGrantWithId } from './modules/VestingModuleService';
+import type { MinedSalt } from '../utils/saltMining';
 
 // Re-export types from modules
-export type { RecoveryConfig, Recovery, PendingRecovery } from './modules/SocialRecoveryModuleService';
+export type { RecoveryConfig, Recovery, PendingRecovery, GuardianRotation } from './modules/SocialRecoveryModuleService';
+export type { QueuedTransaction, PendingQueuedTransaction } from './modules/DelayModuleService';
+export type { RoleMember } from './modules/RolesModuleService';
+export type { InheritanceConfig, Claim, PendingClaim } from './modules/InheritanceModuleService';
+export type { RecurringSchedule, RecurringScheduleWithId } from './modules/RecurringPaymentsService';
+export type { VestingGrant, VestingGrantWithId } from './modules/VestingModuleService';
+export type { TokenDailyLimit, LimitPeriod, RollingSpend } from './modules/DailyLimitModuleService';
+export type { AllowedFunction, FunctionPermissions, WhitelistEntry, RecipientPeriodLimit } from './modules/WhitelistModuleService';
 
 /**
  * MultisigService - Facade that combines all specialized services
@@ -25,6 +47,11 @@ export type { RecoveryConfig, Recovery, PendingRecovery } from './modules/Social
  * - WhitelistModuleService: whitelist operations
  * - DailyLimitModuleService: daily limit operations
  * - SocialRecoveryModuleService: social recovery operations
+ * - DelayModuleService: timelock queue operations
+ * - RolesModuleService: proposer, approver and executor roles
+ * - InheritanceModuleService: inactivity-based inheritance
+ * - RecurringPaymentsService: scheduled recurring payments
+ * - VestingModuleService: linear and cliff vesting grants
  */
 export class MultisigService {
   // Specialized services
@@ -34,6 +61,11 @@ export class MultisigService {
   private whitelistService: WhitelistModuleService;
   private dailyLimitService: DailyLimitModuleService;
   private socialRecoveryService: SocialRecoveryModuleService;
+  private delayService: DelayModuleService;
+  private rolesService: RolesModuleService;
+  private inheritanceService: InheritanceModuleService;
+  private recurringPaymentsService: RecurringPaymentsService;
+  private vestingService: VestingModuleService;
 
   constructor(provider?: Provider) {
     this.walletService = new WalletService(provider);
@@ -42,6 +74,11 @@ export class MultisigService {
     this.whitelistService = new WhitelistModuleService(provider);
     this.dailyLimitService = new DailyLimitModuleService(provider);
     this.socialRecoveryService = new SocialRecoveryModuleService(provider);
+    this.delayService = new DelayModuleService(provider);
+    this.rolesService = new RolesModuleService(provider);
+    this.inheritanceService = new InheritanceModuleService(provider);
+    this.recurringPaymentsService = new RecurringPaymentsService(provider);
+    this.vestingService = new VestingModuleService(provider);
   }
 
   /**
@@ -54,6 +91,11 @@ export class MultisigService {
     this.whitelistService.setSigner(signer);
     this.dailyLimitService.setSigner(signer);
     this.socialRecoveryService.setSigner(signer);
+    this.delayService.setSigner(signer);
+    this.rolesService.setSigner(signer);
+    this.inheritanceService.setSigner(signer);
+    this.recurringPaymentsService.setSigner(signer);
+    this.vestingService.setSigner(signer);
   }
 
   // ============ Wallet Service Methods ============
@@ -62,10 +104,18 @@ export class MultisigService {
     return this.walletService.getImplementationAddress();
   }
 
+  async getWalletImplementation(walletAddress: string): Promise<string> {
+    return this.walletService.getWalletImplementation(walletAddress);
+  }
+
   async verifyFactoryConfig(): Promise<{ valid: boolean; errors: string[] }> {
     return this.walletService.verifyFactoryConfig();
   }
 
+  async predictWalletAddress(deployer: string): Promise<MinedSalt> {
+    return this.walletService.predictWalletAddress(deployer);
+  }
+
   async deployWallet(
     config: DeploymentConfig,
     onProgress?: (progress: {
@@ -95,6 +145,22 @@ export class MultisigService {
     return this.walletService.isModuleEnabled(walletAddress, moduleAddress);
   }
 
+  async isRelayModule(walletAddress: string, moduleAddress: string): Promise<boolean> {
+    return this.walletService.isRelayModule(walletAddress, moduleAddress);
+  }
+
+  async getModules(walletAddress: string): Promise<string[]> {
+    return this.walletService.getModules(walletAddress);
+  }
+
+  async getNftHoldings(walletAddress: string): Promise<NftHolding[]> {
+    return this.walletService.getNftHoldings(walletAddress);
+  }
+
+  async getGuard(walletAddress: string): Promise<string> {
+    return this.walletService.getGuard(walletAddress);
+  }
+
   // ============ Transaction Service Methods ============
 
   /**
@@ -104,6 +170,8 @@ export class MultisigService {
    * @param to - Destination address for the transaction
    * @param value - Amount of QUAI to send (in wei)
    * @param data - Encoded transaction data (use TransactionBuilderService to construct)
+   * @param validUntil - Optional Unix timestamp (seconds) after which the proposal can no longer execute
+   * @param memo - Optional description or content hash stored with the proposal
    * @returns Transaction hash that can be used to approve/execute the transaction
    * @throws {Error} If user rejects the transaction or if validation fails
    *
@@ -122,9 +190,11 @@ export class MultisigService {
     walletAddress: string,
     to: string,
     value: bigint,
-    data: string
+    data: string,
+    validUntil?: number,
+    memo?: string
   ): Promise<string> {
-    return this.transactionService.proposeTransaction(walletAddress, to, value, data);
+    return this.transactionService.proposeTransaction(walletAddress, to, value, data, validUntil, memo);
   }
 
   /**
@@ -185,6 +255,66 @@ export class MultisigService {
     return this.transactionService.executeTransaction(walletAddress, txHash);
   }
 
+  /**
+   * Sign a transaction off-chain (EIP-712) instead of approving it on-chain
+   *
+   * @param walletAddress - Address of the multisig wallet
+   * @param to - Destination address for the transaction
+   * @param value - Amount of QUAI to send (in wei)
+   * @param data - Encoded transaction data
+   * @returns Signature bound to the wallet's current nonce, to be shared with the other owners
+   * @throws {Error} If caller is not an owner or rejects the signature request
+   */
+  async signTransaction(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string
+  ): Promise<TransactionSignature> {
+    return this.transactionService.signTransaction(walletAddress, to, value, data);
+  }
+
+  /**
+   * Validate collected signatures and pack them in the order the contract expects
+   *
+   * @param walletAddress - Address of the multisig wallet
+   * @param signatures - Signatures gathered from owners
+   * @returns Concatenated signatures sorted by signer address
+   * @throws {Error} If a signer is not an owner, a signature is stale, or threshold is not met
+   */
+  async collectSignatures(walletAddress: string, signatures: TransactionSignature[]): Promise<string> {
+    return this.transactionService.collectSignatures(walletAddress, signatures);
+  }
+
+  /**
+   * Submit off-chain signatures and execute the transaction in a single call
+   *
+   * @param walletAddress - Address of the multisig wallet
+   * @param to - Destination address for the transaction
+   * @param value - Amount of QUAI to send (in wei)
+   * @param data - Encoded transaction data
+   * @param signatures - Signatures gathered from owners (at least threshold)
+   * @returns Transaction hash of the executed multisig transaction
+   *
+   * @example
+   * ```typescript
+   * // Each owner signs and shares their signature
+   * const sig = await multisigService.signTransaction(walletAddress, to, value, "0x");
+   *
+   * // Any owner submits once enough signatures are collected
+   * await multisigService.executeWithSignatures(walletAddress, to, value, "0x", [sig1, sig2]);
+   * ```
+   */
+  async executeWithSignatures(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string,
+    signatures: TransactionSignature[]
+  ): Promise<string> {
+    return this.transactionService.executeWithSignatures(walletAddress, to, value, data, signatures);
+  }
+
   async getTransaction(walletAddress: string, txHash: string): Promise<Transaction> {
     return this.transactionService.getTransaction(walletAddress, txHash);
   }
@@ -205,16 +335,44 @@ export class MultisigService {
     return this.transactionService.getCancelledTransactions(walletAddress);
   }
 
+  async getExpiredTransactions(walletAddress: string): Promise<PendingTransaction[]> {
+    return this.transactionService.getExpiredTransactions(walletAddress);
+  }
+
+  async getTransactionCount(walletAddress: string): Promise<number> {
+    return this.transactionService.getTransactionCount(walletAddress);
+  }
+
+  async getExecutionFailures(walletAddress: string, txHash: string): Promise<ExecutionFailure[]> {
+    return this.transactionService.getExecutionFailures(walletAddress, txHash);
+  }
+
+  async getTransactionHistoryPage(
+    walletAddress: string,
+    offset: number,
+    limit: number
+  ): Promise<TransactionHistoryPage> {
+    return this.transactionService.getTransactionHistoryPage(walletAddress, offset, limit);
+  }
+
   // ============ Owner Service Methods ============
 
-  async addOwner(walletAddress: string, newOwner: string): Promise<string> {
-    return this.ownerService.addOwner(walletAddress, newOwner);
+  async addOwner(walletAddress: string, newOwner: string, weight?: number): Promise<string> {
+    return this.ownerService.addOwner(walletAddress, newOwner, weight);
+  }
+
+  async setOwnerWeight(walletAddress: string, owner: string, weight: number): Promise<string> {
+    return this.ownerService.setOwnerWeight(walletAddress, owner, weight);
   }
 
   async removeOwner(walletAddress: string, owner: string): Promise<string> {
     return this.ownerService.removeOwner(walletAddress, owner);
   }
 
+  async swapOwner(walletAddress: string, oldOwner: string, newOwner: string): Promise<string> {
+    return this.ownerService.swapOwner(walletAddress, oldOwner, newOwner);
+  }
+
   async changeThreshold(walletAddress: string, newThreshold: number): Promise<string> {
     return this.ownerService.changeThreshold(walletAddress, newThreshold);
   }
@@ -227,6 +385,18 @@ export class MultisigService {
     return this.ownerService.disableModule(walletAddress, moduleAddress);
   }
 
+  async setModuleRelay(walletAddress: string, moduleAddress: string, allowed: boolean): Promise<string> {
+    return this.ownerService.setModuleRelay(walletAddress, moduleAddress, allowed);
+  }
+
+  async setGuard(walletAddress: string, guardAddress: string): Promise<string> {
+    return this.ownerService.setGuard(walletAddress, guardAddress);
+  }
+
+  async upgradeTo(walletAddress: string, newImplementation: string): Promise<string> {
+    return this.ownerService.upgradeTo(walletAddress, newImplementation);
+  }
+
   // ============ Whitelist Module Methods ============
 
   /**
@@ -259,6 +429,43 @@ export class MultisigService {
     return this.whitelistService.proposeRemoveFromWhitelist(walletAddress, address);
   }
 
+  /**
+   * Propose a cumulative per-period limit for a whitelisted address (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetPeriodLimit(walletAddress: string, address: string, limit: bigint, period: number): Promise<string> {
+    return this.whitelistService.proposeSetPeriodLimit(walletAddress, address, limit, period);
+  }
+
+  /**
+   * Propose allowing a function on a whitelisted address (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetAllowedSelector(
+    walletAddress: string,
+    address: string,
+    selector: string,
+    constraints: ParamConstraint[]
+  ): Promise<string> {
+    return this.whitelistService.proposeSetAllowedSelector(walletAddress, address, selector, constraints);
+  }
+
+  /**
+   * Propose removing an allowed function (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeRemoveAllowedSelector(walletAddress: string, address: string, selector: string): Promise<string> {
+    return this.whitelistService.proposeRemoveAllowedSelector(walletAddress, address, selector);
+  }
+
+  async getPeriodLimit(walletAddress: string, address: string): Promise<RecipientPeriodLimit | null> {
+    return this.whitelistService.getPeriodLimit(walletAddress, address);
+  }
+
+  async getFunctionPermissions(walletAddress: string, address: string): Promise<FunctionPermissions> {
+    return this.whitelistService.getFunctionPermissions(walletAddress, address);
+  }
+
   async isWhitelisted(walletAddress: string, address: string): Promise<boolean> {
     return this.whitelistService.isWhitelisted(walletAddress, address);
   }
@@ -279,12 +486,13 @@ export class MultisigService {
   async canExecuteViaWhitelist(
     walletAddress: string,
     to: string,
-    value: bigint
+    value: bigint,
+    data?: string
   ): Promise<{ canExecute: boolean; reason?: string }> {
-    return this.whitelistService.canExecuteViaWhitelist(walletAddress, to, value);
+    return this.whitelistService.canExecuteViaWhitelist(walletAddress, to, value, data);
   }
 
-  async getWhitelistedAddresses(walletAddress: string): Promise<Array<{ address: string; limit: bigint }>> {
+  async getWhitelistedAddresses(walletAddress: string): Promise<WhitelistEntry[]> {
     return this.whitelistService.getWhitelistedAddresses(walletAddress);
   }
 
@@ -324,16 +532,56 @@ export class MultisigService {
     return this.dailyLimitService.proposeResetDailyLimit(walletAddress);
   }
 
-  async getRemainingLimit(walletAddress: string): Promise<bigint> {
-    return this.dailyLimitService.getRemainingLimit(walletAddress);
+  /**
+   * Propose setting an ERC-20 token's daily limit (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetTokenDailyLimit(walletAddress: string, token: string, limit: bigint): Promise<string> {
+    return this.dailyLimitService.proposeSetTokenDailyLimit(walletAddress, token, limit);
+  }
+
+  /**
+   * Propose resetting an ERC-20 token's spent amount (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeResetTokenDailyLimit(walletAddress: string, token: string): Promise<string> {
+    return this.dailyLimitService.proposeResetTokenDailyLimit(walletAddress, token);
+  }
+
+  async getTokenDailyLimits(walletAddress: string): Promise<TokenDailyLimit[]> {
+    return this.dailyLimitService.getTokenDailyLimits(walletAddress);
+  }
+
+  async getTokenMetadata(token: string): Promise<{ symbol: string; decimals: number }> {
+    return this.dailyLimitService.getTokenMetadata(token);
+  }
+
+  async getRemainingLimit(walletAddress: string, token?: string): Promise<bigint> {
+    return this.dailyLimitService.getRemainingLimit(walletAddress, token);
+  }
+
+  async getTimeUntilReset(walletAddress: string, token?: string): Promise<bigint> {
+    return this.dailyLimitService.getTimeUntilReset(walletAddress, token);
+  }
+
+  /**
+   * Propose changing the limit period (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetLimitPeriod(walletAddress: string, period: number, rolling: boolean): Promise<string> {
+    return this.dailyLimitService.proposeSetLimitPeriod(walletAddress, period, rolling);
   }
 
-  async getTimeUntilReset(walletAddress: string): Promise<bigint> {
-    return this.dailyLimitService.getTimeUntilReset(walletAddress);
+  async getLimitPeriod(walletAddress: string): Promise<LimitPeriod> {
+    return this.dailyLimitService.getLimitPeriod(walletAddress);
   }
 
-  async executeBelowLimit(walletAddress: string, to: string, value: bigint): Promise<string> {
-    return this.dailyLimitService.executeBelowLimit(walletAddress, to, value);
+  async getRollingSpends(walletAddress: string, token?: string): Promise<RollingSpend[]> {
+    return this.dailyLimitService.getRollingSpends(walletAddress, token);
+  }
+
+  async executeBelowLimit(walletAddress: string, to: string, value: bigint, token?: string): Promise<string> {
+    return this.dailyLimitService.executeBelowLimit(walletAddress, to, value, token);
   }
 
   async canExecuteViaDailyLimit(
@@ -394,16 +642,7 @@ export class MultisigService {
     return this.socialRecoveryService.getRecoveryHash(walletAddress, newOwners, newThreshold);
   }
 
-  async getRecovery(
-    walletAddress: string,
-    recoveryHash: string
-  ): Promise<{
-    newOwners: string[];
-    newThreshold: bigint;
-    approvalCount: bigint;
-    executionTime: bigint;
-    executed: boolean;
-  }> {
+  async getRecovery(walletAddress: string, recoveryHash: string): Promise<Recovery> {
     return this.socialRecoveryService.getRecovery(walletAddress, recoveryHash);
   }
 
@@ -427,16 +666,244 @@ export class MultisigService {
     return this.socialRecoveryService.cancelRecovery(walletAddress, recoveryHash);
   }
 
-  async getPendingRecoveries(walletAddress: string): Promise<Array<{
-    recoveryHash: string;
-    newOwners: string[];
-    newThreshold: bigint;
-    approvalCount: bigint;
-    executionTime: bigint;
-    executed: boolean;
-  }>> {
+  async getPendingRecoveries(walletAddress: string): Promise<PendingRecovery[]> {
     return this.socialRecoveryService.getPendingRecoveries(walletAddress);
   }
+
+  /**
+   * Propose vetoing a recovery with the wallet's own threshold (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeVetoRecovery(walletAddress: string, recoveryHash: string): Promise<string> {
+    return this.socialRecoveryService.proposeVetoRecovery(walletAddress, recoveryHash);
+  }
+
+  /**
+   * Propose replacing the guardians after the rotation delay (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeGuardianRotation(walletAddress: string, guardians: string[], threshold: number): Promise<string> {
+    return this.socialRecoveryService.proposeGuardianRotation(walletAddress, guardians, threshold);
+  }
+
+  /**
+   * Propose cancelling a pending guardian rotation (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCancelGuardianRotation(walletAddress: string): Promise<string> {
+    return this.socialRecoveryService.proposeCancelGuardianRotation(walletAddress);
+  }
+
+  async getGuardianRotation(walletAddress: string): Promise<GuardianRotation | null> {
+    return this.socialRecoveryService.getGuardianRotation(walletAddress);
+  }
+
+  async executeGuardianRotation(walletAddress: string): Promise<void> {
+    return this.socialRecoveryService.executeGuardianRotation(walletAddress);
+  }
+
+  // ============ Delay Module Methods ============
+
+  /**
+   * Propose setting the delay module cooldown (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetDelay(walletAddress: string, delaySeconds: bigint): Promise<string> {
+    return this.delayService.proposeSetDelay(walletAddress, delaySeconds);
+  }
+
+  /**
+   * Propose queueing a transaction behind the cooldown (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeQueueTransaction(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string
+  ): Promise<string> {
+    return this.delayService.proposeQueueTransaction(walletAddress, to, value, data);
+  }
+
+  async getDelay(walletAddress: string): Promise<bigint> {
+    return this.delayService.getDelay(walletAddress);
+  }
+
+  async getQueuedTransactions(walletAddress: string): Promise<PendingQueuedTransaction[]> {
+    return this.delayService.getQueuedTransactions(walletAddress);
+  }
+
+  async executeQueuedTransaction(walletAddress: string, txHash: string): Promise<string> {
+    return this.delayService.executeQueuedTransaction(walletAddress, txHash);
+  }
+
+  async vetoTransaction(walletAddress: string, txHash: string): Promise<string> {
+    return this.delayService.vetoTransaction(walletAddress, txHash);
+  }
+
+  // ============ Roles Module Methods ============
+
+  /**
+   * Propose granting or replacing an account's roles (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetRoles(walletAddress: string, account: string, roles: number): Promise<string> {
+    return this.rolesService.proposeSetRoles(walletAddress, account, roles);
+  }
+
+  /**
+   * Propose how many approver sign-offs executors need (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetRequiredRoleApprovals(walletAddress: string, required: number): Promise<string> {
+    return this.rolesService.proposeSetRequiredApprovals(walletAddress, required);
+  }
+
+  async getRoleMembers(walletAddress: string): Promise<RoleMember[]> {
+    return this.rolesService.getMembers(walletAddress);
+  }
+
+  async getRequiredRoleApprovals(walletAddress: string): Promise<number> {
+    return this.rolesService.getRequiredApprovals(walletAddress);
+  }
+
+  async getRoleApprovalCount(walletAddress: string, txHash: string): Promise<number> {
+    return this.rolesService.getApprovalCount(walletAddress, txHash);
+  }
+
+  // ============ Inheritance Module Methods ============
+
+  async getInheritanceConfig(walletAddress: string): Promise<InheritanceConfig> {
+    return this.inheritanceService.getInheritanceConfig(walletAddress);
+  }
+
+  /**
+   * Propose setting up inheritance (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetupInheritance(
+    walletAddress: string,
+    beneficiaries: string[],
+    threshold: number,
+    inactivityPeriodDays: number
+  ): Promise<string> {
+    return this.inheritanceService.proposeSetupInheritance(walletAddress, beneficiaries, threshold, inactivityPeriodDays);
+  }
+
+  async getLastOwnerActivity(walletAddress: string): Promise<bigint> {
+    return this.inheritanceService.getLastActivity(walletAddress);
+  }
+
+  async getInheritanceClaimableAt(walletAddress: string): Promise<bigint> {
+    return this.inheritanceService.getClaimableAt(walletAddress);
+  }
+
+  async isBeneficiary(walletAddress: string, address: string): Promise<boolean> {
+    return this.inheritanceService.isBeneficiary(walletAddress, address);
+  }
+
+  async hasApprovedClaim(walletAddress: string, claimHash: string, address: string): Promise<boolean> {
+    return this.inheritanceService.hasApprovedClaim(walletAddress, claimHash, address);
+  }
+
+  async getPendingClaims(walletAddress: string): Promise<PendingClaim[]> {
+    return this.inheritanceService.getPendingClaims(walletAddress);
+  }
+
+  async sendHeartbeat(walletAddress: string): Promise<string> {
+    return this.inheritanceService.heartbeat(walletAddress);
+  }
+
+  async initiateClaim(walletAddress: string, newOwners: string[], newThreshold: number): Promise<string> {
+    return this.inheritanceService.initiateClaim(walletAddress, newOwners, newThreshold);
+  }
+
+  async initiateSweep(walletAddress: string, recipient: string): Promise<string> {
+    return this.inheritanceService.initiateSweep(walletAddress, recipient);
+  }
+
+  async approveClaim(walletAddress: string, claimHash: string): Promise<string> {
+    return this.inheritanceService.approveClaim(walletAddress, claimHash);
+  }
+
+  async revokeClaimApproval(walletAddress: string, claimHash: string): Promise<string> {
+    return this.inheritanceService.revokeClaimApproval(walletAddress, claimHash);
+  }
+
+  async executeClaim(walletAddress: string, claimHash: string): Promise<string> {
+    return this.inheritanceService.executeClaim(walletAddress, claimHash);
+  }
+
+  // ============ Recurring Payments Module Methods ============
+
+  /**
+   * Propose a recurring payment schedule (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCreateSchedule(
+    walletAddress: string,
+    recipient: string,
+    amount: bigint,
+    intervalSeconds: bigint,
+    firstPaymentAt: bigint,
+    endsAt: bigint
+  ): Promise<string> {
+    return this.recurringPaymentsService.proposeCreateSchedule(walletAddress, recipient, amount, intervalSeconds, firstPaymentAt, endsAt);
+  }
+
+  /**
+   * Propose cancelling a recurring payment schedule (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCancelSchedule(walletAddress: string, scheduleId: string): Promise<string> {
+    return this.recurringPaymentsService.proposeCancelSchedule(walletAddress, scheduleId);
+  }
+
+  async getRecurringSchedules(walletAddress: string): Promise<RecurringScheduleWithId[]> {
+    return this.recurringPaymentsService.getSchedules(walletAddress);
+  }
+
+  async executeRecurringPayment(walletAddress: string, scheduleId: string): Promise<string> {
+    return this.recurringPaymentsService.executePayment(walletAddress, scheduleId);
+  }
+
+  // ============ Vesting Module Methods ============
+
+  /**
+   * Propose a vesting grant funded from the vault (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCreateVesting(
+    walletAddress: string,
+    beneficiary: string,
+    token: string,
+    amount: bigint,
+    start: bigint,
+    cliffDuration: bigint,
+    duration: bigint
+  ): Promise<string> {
+    return this.vestingService.proposeCreateVesting(walletAddress, beneficiary, token, amount, start, cliffDuration, duration);
+  }
+
+  /**
+   * Propose revoking the unvested remainder of a grant (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeRevokeVesting(walletAddress: string, grantId: string): Promise<string> {
+    return this.vestingService.proposeRevokeVesting(walletAddress, grantId);
+  }
+
+  async getVestingGrants(walletAddress: string): Promise<VestingGrantWithId[]> {
+    return this.vestingService.getGrants(walletAddress);
+  }
+
+  async claimVesting(walletAddress: string, grantId: string): Promise<string> {
+    return this.vestingService.claim(walletAddress, grantId);
+  }
+
+  async getVestingTokenMetadata(token: string): Promise<{ symbol: string; decimals: number }> {
+    return this.vestingService.getTokenMetadata(token);
+  }
 }
 
 // Singleton instance for backward compatibility
@@ -63,6 +63,21 @@ export class TransactionBuilderService {
     };
   }
 
+  /**
+   * Build transaction to replace an owner in a single step
+   */
+  buildSwapOwner(oldOwner: string, newOwner: string): TransactionData {
+    const iface = new quais.Interface([
+      'function swapOwner(address oldOwner, address newOwner)',
+    ]);
+
+    return {
+      to: '', // Will be set to wallet address
+      value: 0n,
+      data: iface.encodeFunctionData('swapOwner', [oldOwner, newOwner]),
+    };
+  }
+
   /**
    * Build transaction to change threshold
    */
@@ -108,6 +123,49 @@ export class TransactionBuilderService {
     };
   }
 
+  /**
+   * Build transaction to send an ERC-721 token held by the wallet
+   * @param walletAddress - Vault address (current token owner)
+   */
+  buildERC721Transfer(
+    tokenAddress: string,
+    walletAddress: string,
+    to: string,
+    tokenId: bigint
+  ): TransactionData {
+    const iface = new quais.Interface([
+      'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    ]);
+
+    return {
+      to: tokenAddress,
+      value: 0n,
+      data: iface.encodeFunctionData('safeTransferFrom', [walletAddress, to, tokenId]),
+    };
+  }
+
+  /**
+   * Build transaction to send ERC-1155 tokens held by the wallet
+   * @param walletAddress - Vault address (current token holder)
+   */
+  buildERC1155Transfer(
+    tokenAddress: string,
+    walletAddress: string,
+    to: string,
+    tokenId: bigint,
+    amount: bigint
+  ): TransactionData {
+    const iface = new quais.Interface([
+      'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+    ]);
+
+    return {
+      to: tokenAddress,
+      value: 0n,
+      data: iface.encodeFunctionData('safeTransferFrom', [walletAddress, to, tokenId, amount, '0x']),
+    };
+  }
+
   /**
    * Decode transaction data
    */
@@ -223,17 +281,28 @@ export class TransactionBuilderService {
   }
 
   /**
-   * Build batch transaction data (for future enhancement)
+   * Build a batch transaction that runs all calls atomically via multiSend
    */
   buildBatchTransaction(transactions: TransactionData[]): TransactionData {
-    // This would encode multiple transactions into a single multicall
-    // For now, return the first transaction
-    // TODO: Implement multicall pattern
     if (transactions.length === 0) {
       throw new Error('No transactions provided');
     }
 
-    return transactions[0];
+    const iface = new quais.Interface([
+      'function multiSend(tuple(address to, uint256 value, bytes data)[] calls)',
+    ]);
+
+    const calls = transactions.map(tx => ({
+      to: tx.to,
+      value: tx.value,
+      data: tx.data || '0x',
+    }));
+
+    return {
+      to: '', // Will be set to wallet address
+      value: 0n,
+      data: iface.encodeFunctionData('multiSend', [calls]),
+    };
   }
 
   /**
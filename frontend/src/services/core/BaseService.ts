@@ -2,6 +2,7 @@ import * as quais from 'quais';
 import type { Contract, Signer, Provider } from '../../types';
 import { NETWORK_CONFIG } from '../../config/contracts';
 import MultisigWalletABI from '../../config/abi/MultisigWallet.json';
+import MultisigWalletProxyABI from '../../config/abi/MultisigWalletProxy.json';
 
 /**
  * Base service class providing common functionality for all services
@@ -52,4 +53,15 @@ export class BaseService {
       signerOrProvider || this.provider
     ) as Contract;
   }
+
+  /**
+   * Get wallet proxy contract instance (for reading the current implementation)
+   */
+  protected getProxyContract(walletAddress: string): Contract {
+    return new quais.Contract(
+      walletAddress,
+      MultisigWalletProxyABI.abi,
+      this.provider
+    ) as Contract;
+  }
 }
@@ -51,6 +51,7 @@ describe('OwnerService', () => {
       getOwners: vi.fn().mockResolvedValue([VALID_OWNER, VALID_OWNER_2]),
       threshold: vi.fn().mockResolvedValue(2n),
       modules: vi.fn().mockResolvedValue(false),
+      guard: vi.fn().mockResolvedValue('0x0000000000000000000000000000000000000000'),
       interface: {
         encodeFunctionData: vi.fn().mockReturnValue('0xencoded'),
         decodeFunctionData: vi.fn(),
@@ -119,6 +120,68 @@ describe('OwnerService', () => {
         '0xencoded'
       );
     });
+
+    it('should propose addOwnerWithWeight for weighted owners', async () => {
+      mockWallet.isOwner.mockResolvedValue(false);
+
+      await service.addOwner(VALID_WALLET, VALID_OWNER, 3);
+
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('addOwnerWithWeight', [
+        VALID_OWNER,
+        3n,
+      ]);
+    });
+
+    it('should throw for an invalid weight', async () => {
+      await expect(service.addOwner(VALID_WALLET, VALID_OWNER, 0)).rejects.toThrow(
+        'Owner weight must be a whole number'
+      );
+    });
+  });
+
+  describe('setOwnerWeight', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+      mockWallet.isOwner.mockResolvedValue(true);
+      mockWallet.getOwners.mockResolvedValue([VALID_OWNER, VALID_OWNER_2]);
+      mockWallet.getOwnerWeight = vi.fn().mockImplementation(async (owner: string) =>
+        owner === VALID_OWNER ? 3n : 1n
+      );
+    });
+
+    it('should throw when address is not an owner', async () => {
+      mockWallet.isOwner.mockResolvedValue(false);
+
+      await expect(service.setOwnerWeight(VALID_WALLET, VALID_OWNER, 2)).rejects.toThrow(
+        'Address is not an owner'
+      );
+    });
+
+    it('should throw when the weight is unchanged', async () => {
+      await expect(service.setOwnerWeight(VALID_WALLET, VALID_OWNER, 3)).rejects.toThrow(
+        'Owner already has weight 3'
+      );
+    });
+
+    it('should throw when total weight would drop below threshold', async () => {
+      mockWallet.threshold.mockResolvedValue(4n);
+
+      await expect(service.setOwnerWeight(VALID_WALLET, VALID_OWNER, 2)).rejects.toThrow(
+        'total weight would drop to 3, but threshold is 4'
+      );
+    });
+
+    it('should propose setOwnerWeight transaction', async () => {
+      mockWallet.threshold.mockResolvedValue(2n);
+
+      const result = await service.setOwnerWeight(VALID_WALLET, VALID_OWNER, 5);
+
+      expect(result).toBe('0xproposedtxhash');
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('setOwnerWeight', [
+        VALID_OWNER,
+        5n,
+      ]);
+    });
   });
 
   describe('removeOwner', () => {
@@ -154,6 +217,19 @@ describe('OwnerService', () => {
       );
     });
 
+    it('should compare the remaining weight against a weighted threshold', async () => {
+      mockWallet.isOwner.mockResolvedValue(true);
+      mockWallet.getOwners.mockResolvedValue([VALID_OWNER, VALID_OWNER_2, VALID_OWNER_3]);
+      mockWallet.threshold.mockResolvedValue(3n);
+      mockWallet.getOwnerWeight = vi.fn().mockImplementation(async (owner: string) =>
+        owner === VALID_OWNER ? 3n : 1n
+      );
+
+      await expect(service.removeOwner(VALID_WALLET, VALID_OWNER)).rejects.toThrow(
+        'would reduce total weight to 2'
+      );
+    });
+
     it('should propose removeOwner transaction', async () => {
       mockWallet.isOwner.mockResolvedValue(true);
       mockWallet.getOwners.mockResolvedValue([VALID_OWNER, VALID_OWNER_2, VALID_OWNER_3]);
@@ -168,6 +244,48 @@ describe('OwnerService', () => {
     });
   });
 
+  describe('swapOwner', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(service.swapOwner(VALID_WALLET, VALID_OWNER, VALID_OWNER_3)).rejects.toThrow(
+        'Signer not set'
+      );
+    });
+
+    it('should throw when old address is not an owner', async () => {
+      mockWallet.isOwner.mockResolvedValue(false);
+
+      await expect(service.swapOwner(VALID_WALLET, VALID_OWNER, VALID_OWNER_3)).rejects.toThrow(
+        'Address is not an owner'
+      );
+    });
+
+    it('should throw when new address is already an owner', async () => {
+      mockWallet.isOwner.mockResolvedValue(true);
+
+      await expect(service.swapOwner(VALID_WALLET, VALID_OWNER, VALID_OWNER_2)).rejects.toThrow(
+        'Address is already an owner'
+      );
+    });
+
+    it('should propose swapOwner transaction', async () => {
+      mockWallet.isOwner.mockImplementation(async (address: string) => address === VALID_OWNER);
+
+      const result = await service.swapOwner(VALID_WALLET, VALID_OWNER, VALID_OWNER_3);
+
+      expect(result).toBe('0xproposedtxhash');
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('swapOwner', [
+        VALID_OWNER,
+        VALID_OWNER_3,
+      ]);
+    });
+  });
+
   describe('changeThreshold', () => {
     beforeEach(() => {
       service.setSigner(mockSigner);
@@ -193,6 +311,24 @@ describe('OwnerService', () => {
       );
     });
 
+    it('should allow thresholds up to the total owner weight', async () => {
+      mockWallet.getOwners.mockResolvedValue([VALID_OWNER, VALID_OWNER_2]);
+      mockWallet.getOwnerWeight = vi.fn().mockResolvedValue(3n);
+
+      await service.changeThreshold(VALID_WALLET, 5);
+
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('changeThreshold', [5]);
+    });
+
+    it('should throw when threshold exceeds total owner weight', async () => {
+      mockWallet.getOwners.mockResolvedValue([VALID_OWNER, VALID_OWNER_2]);
+      mockWallet.getOwnerWeight = vi.fn().mockResolvedValue(3n);
+
+      await expect(service.changeThreshold(VALID_WALLET, 7)).rejects.toThrow(
+        'Threshold cannot exceed total owner weight (6)'
+      );
+    });
+
     it('should propose changeThreshold transaction', async () => {
       mockWallet.getOwners.mockResolvedValue([VALID_OWNER, VALID_OWNER_2, VALID_OWNER_3]);
 
@@ -278,4 +414,133 @@ describe('OwnerService', () => {
       ]);
     });
   });
+
+  describe('setModuleRelay', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when granting relay to a module that is not enabled', async () => {
+      mockWallet.modules.mockResolvedValue(false);
+
+      await expect(service.setModuleRelay(VALID_WALLET, VALID_MODULE, true)).rejects.toThrow(
+        'Module is not enabled'
+      );
+    });
+
+    it('should propose setModuleRelay transaction', async () => {
+      mockWallet.modules.mockResolvedValue(true);
+
+      const result = await service.setModuleRelay(VALID_WALLET, VALID_MODULE, true);
+
+      expect(result).toBe('0xproposedtxhash');
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('setModuleRelay', [
+        VALID_MODULE,
+        true,
+      ]);
+    });
+
+    it('should propose revoking relay without checking the module', async () => {
+      await service.setModuleRelay(VALID_WALLET, VALID_MODULE, false);
+
+      expect(mockWallet.modules).not.toHaveBeenCalled();
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('setModuleRelay', [
+        VALID_MODULE,
+        false,
+      ]);
+    });
+  });
+
+  describe('setGuard', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(service.setGuard(VALID_WALLET, VALID_MODULE)).rejects.toThrow('Signer not set');
+    });
+
+    it('should throw for invalid address', async () => {
+      await expect(service.setGuard(VALID_WALLET, 'invalid')).rejects.toThrow('Invalid address');
+    });
+
+    it('should throw when guard is already active', async () => {
+      mockWallet.guard.mockResolvedValue(VALID_MODULE);
+
+      await expect(service.setGuard(VALID_WALLET, VALID_MODULE)).rejects.toThrow(
+        'Guard is already active'
+      );
+    });
+
+    it('should propose setGuard transaction', async () => {
+      const result = await service.setGuard(VALID_WALLET, VALID_MODULE);
+
+      expect(result).toBe('0xproposedtxhash');
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('setGuard', [
+        VALID_MODULE,
+      ]);
+    });
+
+    it('should propose removing the guard for an empty address', async () => {
+      mockWallet.guard.mockResolvedValue(VALID_MODULE);
+
+      await service.setGuard(VALID_WALLET, '');
+
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('setGuard', [
+        '0x0000000000000000000000000000000000000000',
+      ]);
+    });
+  });
+
+  describe('upgradeTo', () => {
+    let mockProxy: any;
+
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+      mockProxy = {
+        getImplementation: vi.fn().mockResolvedValue(VALID_OWNER_2),
+      };
+      vi.spyOn(service as any, 'getProxyContract').mockReturnValue(mockProxy);
+      (service.getProvider() as any).getCode = vi.fn().mockResolvedValue('0x1234');
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(service.upgradeTo(VALID_WALLET, VALID_MODULE)).rejects.toThrow('Signer not set');
+    });
+
+    it('should throw when vault already uses the implementation', async () => {
+      mockProxy.getImplementation.mockResolvedValue(VALID_MODULE);
+
+      await expect(service.upgradeTo(VALID_WALLET, VALID_MODULE)).rejects.toThrow(
+        'Vault is already on this implementation'
+      );
+    });
+
+    it('should throw when implementation has no code', async () => {
+      (service.getProvider() as any).getCode = vi.fn().mockResolvedValue('0x');
+
+      await expect(service.upgradeTo(VALID_WALLET, VALID_MODULE)).rejects.toThrow(
+        'Implementation has no code'
+      );
+    });
+
+    it('should propose upgradeTo transaction', async () => {
+      const result = await service.upgradeTo(VALID_WALLET, VALID_MODULE);
+
+      expect(result).toBe('0xproposedtxhash');
+      expect(mockWallet.interface.encodeFunctionData).toHaveBeenCalledWith('upgradeTo', [
+        VALID_MODULE,
+      ]);
+      expect(mockTransactionService.proposeTransaction).toHaveBeenCalledWith(
+        VALID_WALLET,
+        VALID_WALLET,
+        0n,
+        '0xencoded'
+      );
+    });
+  });
 });
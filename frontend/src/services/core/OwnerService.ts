@@ -1,12 +1,26 @@
 import * as quais from 'quais';
-import type { Provider } from '../../types';
+import type { Contract, Provider } from '../../types';
 import { BaseService } from './BaseService';
 import { TransactionService } from './TransactionService';
 import { validateAddress } from '../utils/TransactionErrorHandler';
 
+/** Highest voting weight a single owner can hold (mirrors MultisigWallet.MAX_OWNER_WEIGHT) */
+export const MAX_OWNER_WEIGHT = 1_000_000;
+
+function validateOwnerWeight(weight: number): void {
+  if (!Number.isInteger(weight) || weight < 1 || weight > MAX_OWNER_WEIGHT) {
+    throw new Error(`Owner weight must be a whole number between 1 and ${MAX_OWNER_WEIGHT}`);
+  }
+}
+
+function sumWeights(weights: number[]): number {
+  return weights.reduce((total, weight) => total + weight, 0);
+}
+
 /**
  * Service for owner and module management
- * Handles addOwner, removeOwner, changeThreshold, enableModule, disableModule
+ * Handles addOwner, setOwnerWeight, removeOwner, swapOwner, changeThreshold, enableModule, disableModule,
+ * setModuleRelay, setGuard, upgradeTo
  *
  * Note: These operations require multisig approval, so they create proposals
  */
@@ -28,12 +42,14 @@ export class OwnerService extends BaseService {
 
   /**
    * Add a new owner to the wallet
+   * @param weight - Voting weight of the new owner (1 = one vote, as on unweighted wallets)
    * @returns Transaction hash of the proposed transaction
    */
-  async addOwner(walletAddress: string, newOwner: string): Promise<string> {
+  async addOwner(walletAddress: string, newOwner: string, weight = 1): Promise<string> {
     this.requireSigner();
 
     const normalizedOwner = validateAddress(newOwner);
+    validateOwnerWeight(weight);
     const wallet = this.getWalletContract(walletAddress);
 
     // Check if already an owner
@@ -45,13 +61,58 @@ export class OwnerService extends BaseService {
     // Check for pending addOwner transaction
     await this.checkPendingAddOwner(walletAddress, normalizedOwner, wallet);
 
-    // Encode addOwner function call
-    const data = wallet.interface.encodeFunctionData('addOwner', [normalizedOwner]);
+    // Encode addOwner function call (weighted owners use addOwnerWithWeight)
+    const data = weight === 1
+      ? wallet.interface.encodeFunctionData('addOwner', [normalizedOwner])
+      : wallet.interface.encodeFunctionData('addOwnerWithWeight', [normalizedOwner, BigInt(weight)]);
 
     // Propose transaction to wallet itself (self-call)
     return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
   }
 
+  /**
+   * Change an existing owner's voting weight
+   * @returns Transaction hash of the proposed transaction
+   */
+  async setOwnerWeight(walletAddress: string, owner: string, weight: number): Promise<string> {
+    this.requireSigner();
+
+    const normalizedOwner = validateAddress(owner);
+    validateOwnerWeight(weight);
+    const wallet = this.getWalletContract(walletAddress);
+
+    const [isOwner, owners, threshold] = await Promise.all([
+      wallet.isOwner(normalizedOwner),
+      wallet.getOwners(),
+      wallet.threshold(),
+    ]);
+
+    if (!isOwner) {
+      throw new Error('Address is not an owner');
+    }
+
+    const weights = await this.getOwnerWeights(wallet, owners);
+    const ownerIndex = owners.findIndex((o: string) => o.toLowerCase() === normalizedOwner.toLowerCase());
+    const currentWeight = weights[ownerIndex] ?? 1;
+    if (currentWeight === weight) {
+      throw new Error(`Owner already has weight ${weight}`);
+    }
+
+    const newTotalWeight = sumWeights(weights) - currentWeight + weight;
+    const currentThreshold = Number(threshold);
+    if (newTotalWeight < currentThreshold) {
+      throw new Error(
+        `Cannot change weight: total weight would drop to ${newTotalWeight}, but threshold is ${currentThreshold}. ` +
+        `Lower the threshold first.`
+      );
+    }
+
+    // Encode setOwnerWeight function call
+    const data = wallet.interface.encodeFunctionData('setOwnerWeight', [normalizedOwner, BigInt(weight)]);
+
+    return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
+  }
+
   /**
    * Remove an owner from the wallet
    * @returns Transaction hash of the proposed transaction
@@ -77,10 +138,19 @@ export class OwnerService extends BaseService {
     const newOwnerCount = currentOwnerCount - 1;
     const currentThreshold = Number(threshold);
 
-    if (newOwnerCount < currentThreshold) {
+    // Threshold is a summed weight, so compare against the weight left after removal
+    const weights = await this.getOwnerWeights(wallet, owners);
+    const ownerIndex = owners.findIndex((o: string) => o.toLowerCase() === normalizedOwner.toLowerCase());
+    const newTotalWeight = sumWeights(weights) - (weights[ownerIndex] ?? 1);
+    const isWeighted = weights.some((w) => w !== 1);
+
+    if (newTotalWeight < currentThreshold) {
       throw new Error(
-        `Cannot remove owner: would reduce owners to ${newOwnerCount}, but threshold is ${currentThreshold}. ` +
-        `Lower the threshold first (to ${newOwnerCount} or less) or add more owners.`
+        isWeighted
+          ? `Cannot remove owner: would reduce total weight to ${newTotalWeight}, but threshold is ${currentThreshold}. ` +
+            `Lower the threshold first (to ${newTotalWeight} or less) or add more owners.`
+          : `Cannot remove owner: would reduce owners to ${newOwnerCount}, but threshold is ${currentThreshold}. ` +
+            `Lower the threshold first (to ${newOwnerCount} or less) or add more owners.`
       );
     }
 
@@ -95,8 +165,38 @@ export class OwnerService extends BaseService {
     return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
   }
 
+  /**
+   * Replace an owner in a single proposal (owner count and threshold are unchanged)
+   * @returns Transaction hash of the proposed transaction
+   */
+  async swapOwner(walletAddress: string, oldOwner: string, newOwner: string): Promise<string> {
+    this.requireSigner();
+
+    const normalizedOldOwner = validateAddress(oldOwner);
+    const normalizedNewOwner = validateAddress(newOwner);
+    const wallet = this.getWalletContract(walletAddress);
+
+    const [isOldOwner, isNewOwner] = await Promise.all([
+      wallet.isOwner(normalizedOldOwner),
+      wallet.isOwner(normalizedNewOwner),
+    ]);
+
+    if (!isOldOwner) {
+      throw new Error('Address is not an owner');
+    }
+    if (isNewOwner) {
+      throw new Error('Address is already an owner');
+    }
+
+    // Encode swapOwner function call
+    const data = wallet.interface.encodeFunctionData('swapOwner', [normalizedOldOwner, normalizedNewOwner]);
+
+    return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
+  }
+
   /**
    * Change the approval threshold
+   * @param newThreshold - Summed owner weight required (owner count on unweighted wallets)
    * @returns Transaction hash of the proposed transaction
    */
   async changeThreshold(walletAddress: string, newThreshold: number): Promise<string> {
@@ -108,9 +208,15 @@ export class OwnerService extends BaseService {
 
     const wallet = this.getWalletContract(walletAddress);
     const owners = await wallet.getOwners();
+    const weights = await this.getOwnerWeights(wallet, owners);
+    const totalWeight = sumWeights(weights);
 
-    if (newThreshold > owners.length) {
-      throw new Error(`Threshold cannot exceed number of owners (${owners.length})`);
+    if (newThreshold > totalWeight) {
+      throw new Error(
+        weights.some((w) => w !== 1)
+          ? `Threshold cannot exceed total owner weight (${totalWeight})`
+          : `Threshold cannot exceed number of owners (${owners.length})`
+      );
     }
 
     // Encode changeThreshold function call
@@ -163,8 +269,94 @@ export class OwnerService extends BaseService {
     return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
   }
 
+  /**
+   * Allow or stop an enabled module proposing, executing and cancelling transactions
+   * @returns Transaction hash of the proposed transaction
+   */
+  async setModuleRelay(walletAddress: string, moduleAddress: string, allowed: boolean): Promise<string> {
+    this.requireSigner();
+
+    const normalizedModule = validateAddress(moduleAddress);
+    const wallet = this.getWalletContract(walletAddress);
+
+    if (allowed && !(await wallet.modules(normalizedModule))) {
+      throw new Error('Module is not enabled');
+    }
+
+    const data = wallet.interface.encodeFunctionData('setModuleRelay', [normalizedModule, allowed]);
+
+    return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
+  }
+
+  /**
+   * Set or remove the transaction guard
+   * @param guardAddress - Guard contract address, or empty/zero address to remove the guard
+   * @returns Transaction hash of the proposed transaction
+   */
+  async setGuard(walletAddress: string, guardAddress: string): Promise<string> {
+    this.requireSigner();
+
+    const normalizedGuard = !guardAddress || guardAddress === quais.ZeroAddress
+      ? quais.ZeroAddress
+      : validateAddress(guardAddress);
+    const wallet = this.getWalletContract(walletAddress);
+
+    // Check if guard is already active
+    const currentGuard: string = await wallet.guard();
+    if (currentGuard.toLowerCase() === normalizedGuard.toLowerCase()) {
+      throw new Error(normalizedGuard === quais.ZeroAddress ? 'No guard is active' : 'Guard is already active');
+    }
+
+    // Encode setGuard function call
+    const data = wallet.interface.encodeFunctionData('setGuard', [normalizedGuard]);
+
+    return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
+  }
+
+  /**
+   * Upgrade the vault proxy to a new wallet implementation
+   * @param newImplementation - Address of the new MultisigWallet implementation
+   * @returns Transaction hash of the proposed transaction
+   */
+  async upgradeTo(walletAddress: string, newImplementation: string): Promise<string> {
+    this.requireSigner();
+
+    const normalizedImplementation = validateAddress(newImplementation);
+    const wallet = this.getWalletContract(walletAddress);
+    const proxy = this.getProxyContract(walletAddress);
+
+    // Check if the vault already runs this implementation
+    const currentImplementation: string = await proxy.getImplementation();
+    if (currentImplementation.toLowerCase() === normalizedImplementation.toLowerCase()) {
+      throw new Error('Vault is already on this implementation');
+    }
+
+    const code = await this.provider.getCode(normalizedImplementation);
+    if (!code || code === '0x') {
+      throw new Error('Implementation has no code');
+    }
+
+    // Encode upgradeTo function call
+    const data = wallet.interface.encodeFunctionData('upgradeTo', [normalizedImplementation]);
+
+    return this.transactionService.proposeTransaction(walletAddress, walletAddress, 0n, data);
+  }
+
   // ============ Private Helper Methods ============
 
+  /**
+   * Get each owner's voting weight, in owner order
+   * Falls back to one vote each for implementations without weighted voting
+   */
+  private async getOwnerWeights(wallet: Contract, owners: string[]): Promise<number[]> {
+    try {
+      const weights = await Promise.all(owners.map((owner) => wallet.getOwnerWeight(owner)));
+      return weights.map((weight) => Number(weight));
+    } catch {
+      return owners.map(() => 1);
+    }
+  }
+
   /**
    * Check for pending addOwner transaction for this address
    */
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as quais from 'quais';
 import { TransactionService } from './TransactionService';
 
 // Mock config
@@ -54,6 +55,20 @@ describe('TransactionService', () => {
         }),
         { estimateGas: vi.fn().mockResolvedValue(100000n) }
       ),
+      proposeTransactionWithMemo: vi.fn().mockResolvedValue({
+        hash: '0xproposetxhash',
+        wait: vi.fn().mockResolvedValue({
+          status: 1,
+          logs: [{ fragment: { name: 'TransactionProposed' }, args: { txHash: '0xnewtxhash' } }],
+        }),
+      }),
+      proposeTransactionWithExpiry: vi.fn().mockResolvedValue({
+        hash: '0xproposetxhash',
+        wait: vi.fn().mockResolvedValue({
+          status: 1,
+          logs: [{ fragment: { name: 'TransactionProposed' }, args: { txHash: '0xnewtxhash' } }],
+        }),
+      }),
       approveTransaction: Object.assign(
         vi.fn().mockResolvedValue({
           hash: '0xapprovetxhash',
@@ -83,6 +98,8 @@ describe('TransactionService', () => {
         { estimateGas: vi.fn().mockResolvedValue(200000n) }
       ),
       approvals: vi.fn().mockResolvedValue(true),
+      hasApproved: vi.fn().mockResolvedValue(true),
+      getApprovalCount: vi.fn().mockResolvedValue(2n),
       threshold: vi.fn().mockResolvedValue(2n),
       getOwners: vi.fn().mockResolvedValue(['0xOwner1', '0xOwner2']),
       interface: {
@@ -94,6 +111,9 @@ describe('TransactionService', () => {
         TransactionProposed: vi.fn().mockReturnValue({}),
         TransactionExecuted: vi.fn().mockReturnValue({}),
         TransactionCancelled: vi.fn().mockReturnValue({}),
+        TransactionApproved: vi.fn().mockReturnValue({}),
+        OwnerRemoved: vi.fn().mockReturnValue({}),
+        ExecutionFailure: vi.fn().mockReturnValue({}),
       },
       queryFilter: vi.fn().mockResolvedValue([]),
     };
@@ -144,6 +164,67 @@ describe('TransactionService', () => {
       // Self-call should use fixed gas options
       expect(mockWallet.proposeTransaction).toHaveBeenCalled();
     });
+
+    it('should propose with a deadline when validUntil is given', async () => {
+      const validUntil = Math.floor(Date.now() / 1000) + 3600;
+
+      const result = await service.proposeTransaction('0xWallet', '0xTo', 1000n, '0x', validUntil);
+
+      expect(result).toBe('0xnewtxhash');
+      expect(mockWallet.proposeTransactionWithExpiry).toHaveBeenCalledWith(
+        '0xTo',
+        1000n,
+        '0x',
+        validUntil,
+        expect.any(Object)
+      );
+      expect(mockWallet.proposeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a deadline in the past', async () => {
+      const validUntil = Math.floor(Date.now() / 1000) - 60;
+
+      await expect(
+        service.proposeTransaction('0xWallet', '0xTo', 1000n, '0x', validUntil)
+      ).rejects.toThrow('Expiration must be in the future');
+    });
+
+    it('should propose with a memo when one is given', async () => {
+      const validUntil = Math.floor(Date.now() / 1000) + 3600;
+
+      await service.proposeTransaction('0xWallet', '0xTo', 1000n, '0x', validUntil, '  Pay invoice #42  ');
+
+      expect(mockWallet.proposeTransactionWithMemo).toHaveBeenCalledWith(
+        '0xTo',
+        1000n,
+        '0x',
+        validUntil,
+        'Pay invoice #42',
+        expect.any(Object)
+      );
+      expect(mockWallet.proposeTransactionWithExpiry).not.toHaveBeenCalled();
+    });
+
+    it('should use no deadline for a memo without validUntil', async () => {
+      await service.proposeTransaction('0xWallet', '0xTo', 1000n, '0x', undefined, 'Rent');
+
+      expect(mockWallet.proposeTransactionWithMemo).toHaveBeenCalledWith(
+        '0xTo', 1000n, '0x', 0, 'Rent', expect.any(Object)
+      );
+    });
+
+    it('should ignore a blank memo', async () => {
+      await service.proposeTransaction('0xWallet', '0xTo', 1000n, '0x', undefined, '   ');
+
+      expect(mockWallet.proposeTransaction).toHaveBeenCalled();
+      expect(mockWallet.proposeTransactionWithMemo).not.toHaveBeenCalled();
+    });
+
+    it('should reject a memo over the size limit', async () => {
+      await expect(
+        service.proposeTransaction('0xWallet', '0xTo', 1000n, '0x', undefined, 'x'.repeat(1025))
+      ).rejects.toThrow('Memo must be at most 1024 bytes');
+    });
   });
 
   describe('approveTransaction', () => {
@@ -361,6 +442,253 @@ describe('TransactionService', () => {
         service.executeTransaction('0xWallet', '0x' + 'a'.repeat(64))
       ).rejects.toThrow('Not enough approvals');
     });
+
+    it('should throw when approvals from removed owners are needed to reach threshold', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 2n,
+      });
+      mockWallet.getApprovalCount.mockResolvedValue(1n);
+
+      await expect(
+        service.executeTransaction('0xWallet', '0x' + 'a'.repeat(64))
+      ).rejects.toThrow('Approvals from former owners are not counted');
+      expect(mockWallet.executeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should execute when approval weight reaches the threshold with fewer approvals', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 1n,
+      });
+      mockWallet.threshold.mockResolvedValue(3n);
+      mockWallet.getApprovalWeight = vi.fn().mockResolvedValue(3n);
+
+      await service.executeTransaction('0xWallet', '0x' + 'a'.repeat(64));
+
+      expect(mockWallet.executeTransaction).toHaveBeenCalled();
+    });
+
+    it('should throw when approval weight is below the threshold', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 2n,
+      });
+      mockWallet.threshold.mockResolvedValue(4n);
+      mockWallet.getApprovalWeight = vi.fn().mockResolvedValue(3n);
+
+      await expect(
+        service.executeTransaction('0xWallet', '0x' + 'a'.repeat(64))
+      ).rejects.toThrow('Not enough approvals: 3 / 4 required');
+    });
+
+    it('should throw when transaction has expired', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 2n,
+        validUntil: BigInt(Math.floor(Date.now() / 1000) - 60),
+      });
+
+      await expect(
+        service.executeTransaction('0xWallet', '0x' + 'a'.repeat(64))
+      ).rejects.toThrow('expired');
+      expect(mockWallet.executeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should surface the revert reason instead of sending a failing execution', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 2n,
+      });
+      mockWallet.executeTransaction.estimateGas.mockRejectedValue(new Error('execution reverted'));
+      mockWallet.executeTransaction.staticCall = vi.fn().mockRejectedValue({ data: '0xwrapped' });
+      mockWallet.interface.parseError = vi.fn().mockReturnValue({
+        name: 'TransactionExecutionFailed',
+        args: ['0x08c379a0' + '00'.repeat(64)],
+      });
+      vi.mocked(quais.AbiCoder.defaultAbiCoder).mockReturnValueOnce({
+        decode: vi.fn().mockReturnValue(['Insufficient balance']),
+      } as any);
+
+      await expect(
+        service.executeTransaction('0xWallet', '0x' + 'a'.repeat(64))
+      ).rejects.toThrow('Transaction execution failed: Call reverted: Insufficient balance');
+      expect(mockWallet.executeTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signTransaction', () => {
+    beforeEach(() => {
+      mockSigner.signTypedData = vi.fn().mockResolvedValue('0x' + 'ab'.repeat(65));
+      vi.spyOn(service.getProvider(), 'getNetwork').mockResolvedValue({ chainId: 9000n } as never);
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(
+        service.signTransaction('0xWallet', '0xRecipient', 1000n, '0x')
+      ).rejects.toThrow('Signer not set');
+    });
+
+    it('should sign typed data for the current nonce', async () => {
+      const result = await service.signTransaction('0xWallet', '0xRecipient', 1000n, '0x');
+
+      expect(mockSigner.signTypedData).toHaveBeenCalledWith(
+        { name: 'MultisigWallet', version: '1', chainId: 9000n, verifyingContract: '0xWallet' },
+        expect.objectContaining({ MultisigTransaction: expect.any(Array) }),
+        { to: '0xRecipient', value: 1000n, data: '0x', nonce: 1n }
+      );
+      expect(result).toEqual({
+        signer: '0xSignerAddress',
+        signature: '0x' + 'ab'.repeat(65),
+        nonce: '1',
+      });
+    });
+
+    it('should throw when caller is not an owner', async () => {
+      mockWallet.isOwner.mockResolvedValue(false);
+
+      await expect(
+        service.signTransaction('0xWallet', '0xRecipient', 1000n, '0x')
+      ).rejects.toThrow('Only wallet owners');
+    });
+
+    it('should report rejected signature requests', async () => {
+      mockSigner.signTypedData.mockRejectedValue({ code: 'ACTION_REJECTED' });
+
+      await expect(
+        service.signTransaction('0xWallet', '0xRecipient', 1000n, '0x')
+      ).rejects.toThrow('Signature request was rejected');
+    });
+  });
+
+  describe('collectSignatures', () => {
+    const ownerA = '0x' + '1'.repeat(40);
+    const ownerB = '0x' + '2'.repeat(40);
+    const sigA = { signer: ownerA, signature: '0x' + 'aa'.repeat(65), nonce: '1' };
+    const sigB = { signer: ownerB, signature: '0x' + 'bb'.repeat(65), nonce: '1' };
+
+    beforeEach(() => {
+      mockWallet.getOwners.mockResolvedValue([ownerA, ownerB]);
+    });
+
+    it('should sort signatures by signer address', async () => {
+      const packed = await service.collectSignatures('0xWallet', [sigB, sigA]);
+
+      expect(packed).toBe('0x' + 'aa'.repeat(65) + 'bb'.repeat(65));
+    });
+
+    it('should drop duplicate signers', async () => {
+      mockWallet.threshold.mockResolvedValue(1n);
+
+      const packed = await service.collectSignatures('0xWallet', [sigA, sigA]);
+
+      expect(packed).toBe('0x' + 'aa'.repeat(65));
+    });
+
+    it('should throw when threshold is not met', async () => {
+      await expect(
+        service.collectSignatures('0xWallet', [sigA, sigA])
+      ).rejects.toThrow('Not enough signatures: 1 / 2 required');
+    });
+
+    it('should count signer weights toward the threshold', async () => {
+      mockWallet.threshold.mockResolvedValue(3n);
+      mockWallet.getOwnerWeight = vi.fn().mockResolvedValue(3n);
+
+      const packed = await service.collectSignatures('0xWallet', [sigA]);
+
+      expect(packed).toBe('0x' + 'aa'.repeat(65));
+    });
+
+    it('should throw for non-owner signers', async () => {
+      await expect(
+        service.collectSignatures('0xWallet', [sigA, { ...sigB, signer: '0x' + '3'.repeat(40) }])
+      ).rejects.toThrow('is not an owner');
+    });
+
+    it('should throw for signatures made at a stale nonce', async () => {
+      await expect(
+        service.collectSignatures('0xWallet', [sigA, { ...sigB, nonce: '0' }])
+      ).rejects.toThrow('wallet nonce is now 1');
+    });
+
+    it('should throw for malformed signatures', async () => {
+      await expect(
+        service.collectSignatures('0xWallet', [sigA, { ...sigB, signature: '0x1234' }])
+      ).rejects.toThrow('Invalid signature');
+    });
+  });
+
+  describe('executeWithSignatures', () => {
+    const ownerA = '0x' + '1'.repeat(40);
+    const ownerB = '0x' + '2'.repeat(40);
+    const signatures = [
+      { signer: ownerB, signature: '0x' + 'bb'.repeat(65), nonce: '1' },
+      { signer: ownerA, signature: '0x' + 'aa'.repeat(65), nonce: '1' },
+    ];
+
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+      mockWallet.getOwners.mockResolvedValue([ownerA, ownerB]);
+      mockWallet.execTransactionWithSignatures = Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xexecsigstxhash',
+          wait: vi.fn().mockResolvedValue({
+            status: 1,
+            gasUsed: 150000n,
+            logs: [{ fragment: { name: 'TransactionProposed' }, args: { txHash: '0xexecutedhash' } }],
+          }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(200000n) }
+      );
+    });
+
+    it('should submit packed signatures and return the transaction hash', async () => {
+      const txHash = await service.executeWithSignatures('0xWallet', '0xRecipient', 1000n, '0x', signatures);
+
+      expect(mockWallet.execTransactionWithSignatures).toHaveBeenCalledWith(
+        '0xRecipient',
+        1000n,
+        '0x',
+        '0x' + 'aa'.repeat(65) + 'bb'.repeat(65),
+        expect.any(Object)
+      );
+      expect(txHash).toBe('0xexecutedhash');
+    });
+
+    it('should throw when execution reverts', async () => {
+      mockWallet.execTransactionWithSignatures.mockResolvedValue({
+        hash: '0xexecsigstxhash',
+        wait: vi.fn().mockResolvedValue({ status: 0 }),
+      });
+
+      await expect(
+        service.executeWithSignatures('0xWallet', '0xRecipient', 1000n, '0x', signatures)
+      ).rejects.toThrow('Transaction execution reverted');
+    });
   });
 
   describe('getTransaction', () => {
@@ -410,7 +738,7 @@ describe('TransactionService', () => {
         timestamp: 1234567890n,
         proposer: '0xProposer',
       });
-      mockWallet.approvals.mockResolvedValue(true);
+      mockWallet.hasApproved.mockResolvedValue(true);
 
       const result = await service.getTransactionByHash('0xWallet', '0xtxhash');
 
@@ -419,6 +747,124 @@ describe('TransactionService', () => {
       expect(result?.numApprovals).toBe(1);
       expect(result?.approvals).toBeDefined();
     });
+
+    it('should include the proposal memo', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 1n,
+        timestamp: 1234567890n,
+        proposer: '0xProposer',
+      });
+      mockWallet.memos = vi.fn().mockResolvedValue('Quarterly payroll');
+
+      const result = await service.getTransactionByHash('0xWallet', '0xtxhash');
+
+      expect(result?.memo).toBe('Quarterly payroll');
+    });
+
+    it('should leave the memo unset for implementations without memos', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 1n,
+        timestamp: 1234567890n,
+        proposer: '0xProposer',
+      });
+      mockWallet.memos = vi.fn().mockRejectedValue(new Error('call revert exception'));
+
+      const result = await service.getTransactionByHash('0xWallet', '0xtxhash');
+
+      expect(result).not.toBeNull();
+      expect(result?.memo).toBeUndefined();
+    });
+
+    it('should include the summed approval weight', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 1n,
+        timestamp: 1234567890n,
+        proposer: '0xProposer',
+      });
+      mockWallet.getApprovalWeight = vi.fn().mockResolvedValue(3n);
+
+      const result = await service.getTransactionByHash('0xWallet', '0xtxhash');
+
+      expect(result?.numApprovals).toBe(1);
+      expect(result?.approvalWeight).toBe(3);
+    });
+
+    it('should report approvals from removed owners as not counted', async () => {
+      mockWallet.transactions.mockResolvedValue({
+        to: '0xRecipient',
+        value: 1000n,
+        data: '0x',
+        executed: false,
+        cancelled: false,
+        numApprovals: 2n,
+        timestamp: 1234567890n,
+        proposer: '0xProposer',
+      });
+      mockWallet.hasApproved.mockImplementation(async (_hash: string, owner: string) =>
+        owner === '0xOwner1'
+      );
+      mockWallet.approvals.mockImplementation(async (_hash: string, owner: string) =>
+        owner === '0xremovedowner'
+      );
+      mockWallet.queryFilter.mockResolvedValue([
+        { args: { owner: '0xRemovedOwner' } },
+        { args: { owner: '0xOtherRemovedOwner' } },
+      ]);
+
+      const result = await service.getTransactionByHash('0xWallet', '0xtxhash');
+
+      expect(mockWallet.filters.OwnerRemoved).toHaveBeenCalled();
+      expect(mockWallet.queryFilter).toHaveBeenCalledWith({}, 0, 'latest');
+      expect(result?.numApprovals).toBe(1);
+      expect(result?.approvals).toEqual({ '0xowner1': true, '0xowner2': false });
+      expect(result?.formerOwnerApprovals).toEqual(['0xremovedowner']);
+    });
+
+    it('should find removed owners through the transaction index when the log range is rejected', async () => {
+      const removeHash = '0xremove';
+      mockWallet.transactions.mockImplementation(async (hash: string) => ({
+        to: hash === removeHash ? '0xWallet' : '0xRecipient',
+        value: 0n,
+        data: hash === removeHash ? '0xremovecall' : '0x',
+        executed: hash === removeHash,
+        cancelled: false,
+        numApprovals: 2n,
+        timestamp: 1234567890n,
+        proposer: '0xProposer',
+      }));
+      mockWallet.getAddress = vi.fn().mockResolvedValue('0xWallet');
+      mockWallet.getTransactionCount = vi.fn().mockResolvedValue(1n);
+      mockWallet.getTransactionHashes = vi.fn().mockResolvedValue([removeHash]);
+      mockWallet.interface.parseTransaction.mockImplementation(({ data }: { data: string }) =>
+        data === '0xremovecall' ? { name: 'removeOwner', args: ['0xRemovedOwner'] } : null
+      );
+      mockWallet.hasApproved.mockImplementation(async (_hash: string, owner: string) =>
+        owner === '0xOwner1'
+      );
+      mockWallet.approvals.mockImplementation(async (_hash: string, owner: string) =>
+        owner === '0xremovedowner'
+      );
+      mockWallet.queryFilter.mockRejectedValue(new Error('query exceeds maximum limit'));
+
+      const result = await service.getTransactionByHash('0xWallet', '0xtxhash');
+
+      expect(result?.formerOwnerApprovals).toEqual(['0xremovedowner']);
+    });
   });
 
   describe('getPendingTransactions', () => {
@@ -469,6 +915,111 @@ describe('TransactionService', () => {
     });
   });
 
+  describe('on-chain transaction index', () => {
+    const makeTx = (timestamp: bigint, overrides: Record<string, unknown> = {}) => ({
+      to: '0xRecipient',
+      value: 100n,
+      data: '0x',
+      executed: false,
+      cancelled: false,
+      numApprovals: 1n,
+      timestamp,
+      proposer: '0xProposer',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      const index = ['0xtx1', '0xtx2', '0xtx3', '0xtx4', '0xtx5'];
+      mockWallet.getTransactionCount = vi.fn().mockResolvedValue(BigInt(index.length));
+      mockWallet.getTransactionHashes = vi.fn().mockImplementation(
+        async (offset: number, limit: number) => index.slice(Number(offset), Number(offset) + Number(limit))
+      );
+      mockWallet.transactions.mockImplementation(async (hash: string) => {
+        const position = BigInt(hash.slice(-1));
+        return makeTx(position * 1000n, { executed: position % 2n === 0n });
+      });
+    });
+
+    it('should find pending transactions without scanning event logs', async () => {
+      const result = await service.getPendingTransactions('0xWallet');
+
+      expect(result.map(tx => tx.hash)).toEqual(['0xtx5', '0xtx3', '0xtx1']);
+      expect(mockWallet.queryFilter).not.toHaveBeenCalled();
+    });
+
+    it('should stop walking the index once the limit is reached', async () => {
+      const index = Array.from({ length: 250 }, (_, i) => `0xtx${i}`);
+      mockWallet.getTransactionCount.mockResolvedValue(BigInt(index.length));
+      mockWallet.getTransactionHashes.mockImplementation(
+        async (offset: number, limit: number) => index.slice(Number(offset), Number(offset) + Number(limit))
+      );
+      mockWallet.transactions.mockImplementation(async (hash: string) => makeTx(BigInt(hash.slice(4))));
+
+      const result = await service.getPendingTransactions('0xWallet');
+
+      expect(result).toHaveLength(100);
+      expect(result[0].hash).toBe('0xtx249');
+      expect(result[99].hash).toBe('0xtx150');
+      expect(mockWallet.getTransactionHashes.mock.calls).toEqual([[200, 50], [150, 50]]);
+    });
+
+    it('should return the newest page first', async () => {
+      const page = await service.getTransactionHistoryPage('0xWallet', 0, 2);
+
+      expect(page.total).toBe(5);
+      expect(page.transactions.map(tx => tx.hash)).toEqual(['0xtx5', '0xtx4']);
+      expect(page.nextOffset).toBe(2);
+      expect(mockWallet.getTransactionHashes).toHaveBeenCalledWith(3, 2);
+    });
+
+    it('should return a short final page and no next offset', async () => {
+      const page = await service.getTransactionHistoryPage('0xWallet', 4, 2);
+
+      expect(page.transactions.map(tx => tx.hash)).toEqual(['0xtx1']);
+      expect(page.nextOffset).toBeNull();
+    });
+
+    it('should return an empty page past the end of the index', async () => {
+      const page = await service.getTransactionHistoryPage('0xWallet', 5, 2);
+
+      expect(page.transactions).toEqual([]);
+      expect(page.nextOffset).toBeNull();
+      expect(mockWallet.getTransactionHashes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExecutionFailures', () => {
+    const txHash = '0x' + 'a'.repeat(64);
+
+    it('should decode recorded failures newest first', async () => {
+      const reasonData = '0x08c379a0' + '00'.repeat(64);
+      vi.mocked(quais.AbiCoder.defaultAbiCoder).mockReturnValueOnce({
+        decode: vi.fn().mockReturnValue(['Paused']),
+      } as any);
+      mockWallet.queryFilter.mockResolvedValue([
+        { args: { returnData: '0x' }, blockNumber: 10, transactionHash: '0xattempt1' },
+        { args: { returnData: reasonData }, blockNumber: 20, transactionHash: '0xattempt2' },
+      ]);
+
+      const result = await service.getExecutionFailures('0xWallet', txHash);
+
+      expect(mockWallet.filters.ExecutionFailure).toHaveBeenCalledWith(txHash);
+      expect(result.map(failure => failure.reason)).toEqual(['Paused', 'Call reverted without a reason']);
+      expect(result[0].transactionHash).toBe('0xattempt2');
+    });
+
+    it('should narrow the block range when the node rejects it', async () => {
+      mockWallet.queryFilter
+        .mockRejectedValueOnce(new Error('query exceeds maximum limit'))
+        .mockResolvedValueOnce([]);
+
+      const result = await service.getExecutionFailures('0xWallet', txHash);
+
+      expect(result).toEqual([]);
+      expect(mockWallet.queryFilter).toHaveBeenLastCalledWith({}, -2000, 'latest');
+    });
+  });
+
   describe('getExecutedTransactions', () => {
     it('should return executed transactions', async () => {
       mockWallet.queryFilter.mockResolvedValue([{ args: { txHash: '0xtx1' } }]);
@@ -510,4 +1061,44 @@ describe('TransactionService', () => {
       expect(result[0].cancelled).toBe(true);
     });
   });
+
+  describe('getExpiredTransactions', () => {
+    it('should return only pending transactions past their deadline', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      mockWallet.queryFilter.mockResolvedValue([
+        { args: { txHash: '0xtx1' } },
+        { args: { txHash: '0xtx2' } },
+      ]);
+      mockWallet.transactions
+        .mockResolvedValueOnce({
+          to: '0xRecipient1',
+          value: 100n,
+          data: '0x',
+          executed: false,
+          cancelled: false,
+          numApprovals: 1n,
+          timestamp: 1000n,
+          proposer: '0xProposer',
+          validUntil: BigInt(now - 60),
+        })
+        .mockResolvedValueOnce({
+          to: '0xRecipient2',
+          value: 200n,
+          data: '0x',
+          executed: false,
+          cancelled: false,
+          numApprovals: 1n,
+          timestamp: 2000n,
+          proposer: '0xProposer',
+          validUntil: BigInt(now + 3600),
+        });
+
+      const result = await service.getExpiredTransactions('0xWallet');
+
+      expect(result).toHaveLength(1);
+      expect(result[0].hash).toBe('0xtx1');
+      expect(result[0].expired).toBe(true);
+      expect(result[0].validUntil).toBe(now - 60);
+    });
+  });
 });
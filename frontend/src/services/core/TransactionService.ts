@@ -1,9 +1,18 @@
+import type { EventLog, Log } from 'quais';
 import type { Contract, Provider } from '../../types';
-import type { Transaction, PendingTransaction } from '../../types';
+import type {
+  Transaction,
+  TransactionStruct,
+  PendingTransaction,
+  TransactionHistoryPage,
+  TransactionSignature,
+  ExecutionFailure,
+} from '../../types';
 import { BaseService } from './BaseService';
 import {
   isUserRejection,
   formatTransactionError,
+  decodeRevertReason,
   validateTxHash,
   TransactionErrors,
 } from '../utils/TransactionErrorHandler';
@@ -15,9 +24,38 @@ import {
   logGasUsage,
 } from '../utils/GasEstimator';
 
+/**
+ * EIP-712 types for transactions signed off-chain by owners
+ * Must match TRANSACTION_TYPEHASH in MultisigWallet.sol
+ */
+const MULTISIG_TRANSACTION_TYPES = {
+  MultisigTransaction: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+/**
+ * Number of hashes requested per call when walking the on-chain transaction index
+ */
+const INDEX_PAGE_SIZE = 50;
+
+/**
+ * Default number of transactions returned by the pending, executed, cancelled and expired queries
+ */
+const FILTERED_TRANSACTIONS_LIMIT = 100;
+
+/**
+ * Maximum proposal memo size in bytes
+ * Must match MAX_MEMO_LENGTH in MultisigWallet.sol
+ */
+const MAX_MEMO_LENGTH = 1024;
+
 /**
  * Service for transaction operations
- * Handles propose, approve, revoke, cancel, execute, and query transactions
+ * Handles propose, approve, revoke, cancel, execute, off-chain signing, and query transactions
  */
 export class TransactionService extends BaseService {
 
@@ -27,13 +65,25 @@ export class TransactionService extends BaseService {
 
   /**
    * Propose a new transaction
+   * @param validUntil - Optional Unix timestamp (seconds) after which the proposal can no longer execute
+   * @param memo - Optional description or content hash stored with the proposal
    */
   async proposeTransaction(
     walletAddress: string,
     to: string,
     value: bigint,
-    data: string
+    data: string,
+    validUntil?: number,
+    memo?: string
   ): Promise<string> {
+    if (validUntil !== undefined && validUntil <= Math.floor(Date.now() / 1000)) {
+      throw new Error('Expiration must be in the future');
+    }
+    const trimmedMemo = memo?.trim() ?? '';
+    if (new TextEncoder().encode(trimmedMemo).length > MAX_MEMO_LENGTH) {
+      throw new Error(`Memo must be at most ${MAX_MEMO_LENGTH} bytes`);
+    }
+
     const signer = this.requireSigner();
     const wallet = this.getWalletContract(walletAddress, signer);
 
@@ -61,7 +111,13 @@ export class TransactionService extends BaseService {
     let tx;
     try {
       console.log('Sending proposeTransaction...');
-      tx = await wallet.proposeTransaction(to, value, data, txOptions);
+      if (trimmedMemo) {
+        tx = await wallet.proposeTransactionWithMemo(to, value, data, validUntil ?? 0, trimmedMemo, txOptions);
+      } else {
+        tx = validUntil !== undefined
+          ? await wallet.proposeTransactionWithExpiry(to, value, data, validUntil, txOptions)
+          : await wallet.proposeTransaction(to, value, data, txOptions);
+      }
       console.log('Transaction sent:', tx.hash);
     } catch (error: any) {
       throw formatTransactionError(error, 'Transaction proposal failed', wallet);
@@ -186,12 +242,23 @@ export class TransactionService extends BaseService {
       numApprovals: txDetails.numApprovals.toString(),
     });
 
-    const { gasLimit } = await estimateGasWithBuffer(
+    const { gasLimit, estimated } = await estimateGasWithBuffer(
       wallet.executeTransaction,
       [normalizedHash],
       GasPresets.complex
     );
 
+    // A failed estimate usually means the call reverts; surface the decoded reason instead of sending
+    if (estimated === null) {
+      try {
+        await wallet.executeTransaction.staticCall(normalizedHash);
+      } catch (error) {
+        if ((error as { data?: string }).data) {
+          throw formatTransactionError(error, 'Transaction execution failed', wallet);
+        }
+      }
+    }
+
     let tx;
     try {
       tx = await wallet.executeTransaction(normalizedHash, buildTxOptions(gasLimit));
@@ -240,6 +307,9 @@ export class TransactionService extends BaseService {
     if (txDetails.cancelled) {
       throw new Error('Transaction has been cancelled');
     }
+    if (this.isExpired(txDetails.validUntil)) {
+      throw new Error(TransactionErrors.TX_EXPIRED);
+    }
     if (hasApproved) {
       throw new Error('You have already approved this transaction');
     }
@@ -286,6 +356,150 @@ export class TransactionService extends BaseService {
     return false;
   }
 
+  /**
+   * Sign a transaction off-chain (EIP-712) for the wallet's current nonce
+   * The signature can be shared with other owners and submitted by any one of them
+   */
+  async signTransaction(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string
+  ): Promise<TransactionSignature> {
+    const signer = this.requireSigner();
+    const wallet = this.getWalletContract(walletAddress);
+    const signerAddress = await signer.getAddress();
+
+    const [isOwner, nonce] = await Promise.all([
+      wallet.isOwner(signerAddress),
+      wallet.nonce(),
+    ]);
+    if (!isOwner) {
+      throw new Error(TransactionErrors.NOT_OWNER);
+    }
+
+    const domain = await this.getTypedDataDomain(walletAddress);
+
+    let signature: string;
+    try {
+      signature = await signer.signTypedData(domain, MULTISIG_TRANSACTION_TYPES, {
+        to,
+        value,
+        data,
+        nonce,
+      });
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Signature request was rejected');
+      }
+      throw error;
+    }
+
+    return {
+      signer: signerAddress,
+      signature,
+      nonce: nonce.toString(),
+    };
+  }
+
+  /**
+   * Validate collected signatures and pack them for execTransactionWithSignatures
+   * Drops duplicate signers and sorts by signer address as the contract requires
+   * @returns Concatenated signatures (hex)
+   */
+  async collectSignatures(
+    walletAddress: string,
+    signatures: TransactionSignature[]
+  ): Promise<string> {
+    const wallet = this.getWalletContract(walletAddress);
+    const [owners, threshold, nonce] = await Promise.all([
+      wallet.getOwners(),
+      wallet.threshold(),
+      wallet.nonce(),
+    ]);
+
+    const ownerSet = new Set(owners.map((owner: string) => owner.toLowerCase()));
+    const bySigner = new Map<string, TransactionSignature>();
+
+    for (const sig of signatures) {
+      const signer = sig.signer.toLowerCase();
+      if (!ownerSet.has(signer)) {
+        throw new Error(`Signer ${sig.signer} is not an owner of this wallet`);
+      }
+      if (BigInt(sig.nonce) !== BigInt(nonce)) {
+        throw new Error(
+          `Signature from ${sig.signer} was created for nonce ${sig.nonce}, ` +
+          `but the wallet nonce is now ${nonce}. Ask owners to sign again.`
+        );
+      }
+      if (!/^0x[0-9a-fA-F]{130}$/.test(sig.signature)) {
+        throw new Error(`Invalid signature from ${sig.signer}`);
+      }
+      bySigner.set(signer, sig);
+    }
+
+    // Threshold is a summed weight (one vote per signer on unweighted wallets)
+    let signedWeight = bySigner.size;
+    try {
+      const weights = await Promise.all([...bySigner.values()].map((sig) => wallet.getOwnerWeight(sig.signer)));
+      signedWeight = weights.reduce((total: number, weight) => total + Number(weight), 0);
+    } catch {
+      // Weighted voting not available on this implementation
+    }
+
+    if (signedWeight < Number(threshold)) {
+      throw new Error(TransactionErrors.NOT_ENOUGH_SIGNATURES(signedWeight, Number(threshold)));
+    }
+
+    const sorted = [...bySigner.values()].sort((a, b) => {
+      const left = BigInt(a.signer);
+      const right = BigInt(b.signer);
+      return left < right ? -1 : left > right ? 1 : 0;
+    });
+
+    return '0x' + sorted.map(sig => sig.signature.slice(2)).join('');
+  }
+
+  /**
+   * Execute a transaction in a single call using signatures collected off-chain
+   * @returns Transaction hash of the executed multisig transaction
+   */
+  async executeWithSignatures(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string,
+    signatures: TransactionSignature[]
+  ): Promise<string> {
+    const signer = this.requireSigner();
+    const wallet = this.getWalletContract(walletAddress, signer);
+
+    const packed = await this.collectSignatures(walletAddress, signatures);
+
+    const { gasLimit } = await estimateGasWithBuffer(
+      wallet.execTransactionWithSignatures,
+      [to, value, data, packed],
+      GasPresets.complex
+    );
+
+    let tx;
+    try {
+      tx = await wallet.execTransactionWithSignatures(to, value, data, packed, buildTxOptions(gasLimit));
+      console.log('Execute with signatures transaction sent:', tx.hash);
+    } catch (error) {
+      throw formatTransactionError(error, 'Execution with signatures failed', wallet);
+    }
+
+    const receipt = await tx.wait();
+    logGasUsage('execTransactionWithSignatures', receipt, gasLimit);
+
+    if (receipt?.status === 0) {
+      throw new Error('Transaction execution reverted');
+    }
+
+    return this.extractTxHashFromReceipt(receipt, wallet);
+  }
+
   /**
    * Get transaction details
    */
@@ -309,7 +523,7 @@ export class TransactionService extends BaseService {
   async getTransactionByHash(walletAddress: string, txHash: string): Promise<PendingTransaction | null> {
     try {
       const wallet = this.getWalletContract(walletAddress);
-      const [owners, threshold, tx] = await Promise.all([
+      const [owners, threshold, tx]: [string[], bigint, TransactionStruct] = await Promise.all([
         wallet.getOwners(),
         wallet.threshold(),
         wallet.transactions(txHash),
@@ -320,27 +534,84 @@ export class TransactionService extends BaseService {
         return null;
       }
 
-      const approvals = await this.getApprovalsForTransaction(wallet, txHash, owners);
-
-      return {
-        hash: txHash,
-        to: tx.to,
-        value: tx.value.toString(),
-        data: tx.data,
-        numApprovals: Number(tx.numApprovals),
-        threshold: Number(threshold),
-        executed: tx.executed,
-        cancelled: tx.cancelled || false,
-        timestamp: Number(tx.timestamp),
-        proposer: tx.proposer || '',
-        approvals,
-      };
+      return await this.toPendingTransaction(wallet, txHash, tx, owners, threshold);
     } catch (error) {
       console.error(`Error fetching transaction ${txHash}:`, error);
       return null;
     }
   }
 
+  /**
+   * Get failed execution attempts recorded for a transaction, newest first
+   * Only tryExecuteTransaction records failures; executeTransaction reverts instead.
+   */
+  async getExecutionFailures(walletAddress: string, txHash: string): Promise<ExecutionFailure[]> {
+    const normalizedHash = validateTxHash(txHash);
+    const wallet = this.getWalletContract(walletAddress);
+    const filter = wallet.filters.ExecutionFailure(normalizedHash);
+
+    let events: Array<EventLog | Log> = [];
+    try {
+      events = await wallet.queryFilter(filter, -5000, 'latest');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('exceeds maximum limit')) {
+        events = await wallet.queryFilter(filter, -2000, 'latest');
+      } else {
+        throw error;
+      }
+    }
+
+    return events
+      .filter((event): event is EventLog => 'args' in event)
+      .map(event => ({
+        txHash: normalizedHash,
+        returnData: event.args.returnData,
+        reason: decodeRevertReason(event.args.returnData, wallet) ?? 'Call reverted without a reason',
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      }))
+      .reverse();
+  }
+
+  /**
+   * Get the number of transactions in the wallet's on-chain index
+   */
+  async getTransactionCount(walletAddress: string): Promise<number> {
+    const wallet = this.getWalletContract(walletAddress);
+    return Number(await wallet.getTransactionCount());
+  }
+
+  /**
+   * Get a page of the full transaction history, newest first
+   * @param offset - Number of newer transactions to skip
+   * @param limit - Maximum number of transactions to return
+   */
+  async getTransactionHistoryPage(
+    walletAddress: string,
+    offset: number,
+    limit: number
+  ): Promise<TransactionHistoryPage> {
+    const wallet = this.getWalletContract(walletAddress);
+    const [owners, threshold, total] = await Promise.all([
+      wallet.getOwners(),
+      wallet.threshold(),
+      wallet.getTransactionCount().then(Number),
+    ]);
+
+    // The index is stored oldest first, so the newest page sits at the end
+    const end = Math.max(total - offset, 0);
+    const start = Math.max(end - limit, 0);
+    const hashes: string[] = end > start ? await wallet.getTransactionHashes(start, end - start) : [];
+
+    const transactions = await this.loadTransactions(wallet, [...hashes].reverse(), owners, threshold);
+
+    return {
+      transactions,
+      nextOffset: start > 0 ? offset + (end - start) : null,
+      total,
+    };
+  }
+
   /**
    * Get pending transactions for a wallet
    */
@@ -362,8 +633,27 @@ export class TransactionService extends BaseService {
     return this.getTransactionsByFilter(walletAddress, 'TransactionCancelled', tx => tx.cancelled);
   }
 
+  /**
+   * Get expired transactions for a wallet (past their deadline, never executed or cancelled)
+   */
+  async getExpiredTransactions(walletAddress: string): Promise<PendingTransaction[]> {
+    return this.getTransactionsByFilter(
+      walletAddress,
+      'TransactionProposed',
+      tx => !tx.executed && !tx.cancelled && this.isExpired(tx.validUntil)
+    );
+  }
+
   // ============ Private Helper Methods ============
 
+  /**
+   * Check whether a proposal deadline has passed (0 or unset means no expiry)
+   */
+  private isExpired(validUntil: bigint | undefined): boolean {
+    if (!validUntil) return false;
+    return BigInt(Math.floor(Date.now() / 1000)) > BigInt(validUntil);
+  }
+
   /**
    * Check for existing transaction with same parameters
    */
@@ -451,6 +741,25 @@ export class TransactionService extends BaseService {
     return txOptions;
   }
 
+  /**
+   * Build the EIP-712 domain for a wallet
+   * Must match domainSeparator() in MultisigWallet.sol
+   */
+  private async getTypedDataDomain(walletAddress: string): Promise<{
+    name: string;
+    version: string;
+    chainId: bigint;
+    verifyingContract: string;
+  }> {
+    const network = await this.provider.getNetwork();
+    return {
+      name: 'MultisigWallet',
+      version: '1',
+      chainId: network.chainId,
+      verifyingContract: walletAddress,
+    };
+  }
+
   /**
    * Extract transaction hash from proposal receipt
    */
@@ -552,7 +861,8 @@ export class TransactionService extends BaseService {
 
     const isProposer = txDetails.proposer?.toLowerCase() === callerAddress.toLowerCase();
     if (!isProposer) {
-      const currentApprovals = Number(txDetails.numApprovals);
+      const currentApprovals = await this.getApprovalWeight(wallet, txHash) ??
+        Number(await wallet.getApprovalCount(txHash));
       const requiredThreshold = Number(threshold);
       if (currentApprovals < requiredThreshold) {
         throw new Error(
@@ -584,11 +894,35 @@ export class TransactionService extends BaseService {
     if (txDetails.cancelled) {
       throw new Error('Transaction has been cancelled and cannot be executed');
     }
-    if (txDetails.numApprovals < threshold) {
-      throw new Error(TransactionErrors.NOT_ENOUGH_APPROVALS(
-        Number(txDetails.numApprovals),
-        Number(threshold)
-      ));
+    if (this.isExpired(txDetails.validUntil)) {
+      throw new Error(TransactionErrors.TX_EXPIRED);
+    }
+
+    // Weighted wallets compare the summed weight of approvals, which can reach the
+    // threshold with fewer approvals than the threshold value
+    const approvalWeight = await this.getApprovalWeight(wallet, txHash);
+    if (approvalWeight !== null) {
+      if (approvalWeight < Number(threshold)) {
+        const countedApprovals = await wallet.getApprovalCount(txHash);
+        throw new Error(TransactionErrors.NOT_ENOUGH_APPROVALS(approvalWeight, Number(threshold)) +
+          (countedApprovals < txDetails.numApprovals ? '. Approvals from former owners are not counted.' : ''));
+      }
+    } else {
+      if (txDetails.numApprovals < threshold) {
+        throw new Error(TransactionErrors.NOT_ENOUGH_APPROVALS(
+          Number(txDetails.numApprovals),
+          Number(threshold)
+        ));
+      }
+
+      // Approvals from removed owners are recorded but not counted by the contract
+      const countedApprovals = await wallet.getApprovalCount(txHash);
+      if (countedApprovals < threshold) {
+        throw new Error(TransactionErrors.NOT_ENOUGH_APPROVALS(
+          Number(countedApprovals),
+          Number(threshold)
+        ) + '. Approvals from former owners are not counted.');
+      }
     }
 
     // Check removeOwner constraints for self-calls
@@ -624,41 +958,214 @@ export class TransactionService extends BaseService {
 
   /**
    * Get approvals for each owner
+   *
+   * Approvals from removed owners stay recorded on-chain but no longer count toward the
+   * threshold, even if the owner is added back. When the recorded count exceeds the current
+   * owners' approvals, the approvals of former owners are read from contract state to report
+   * them separately.
    */
   private async getApprovalsForTransaction(
     wallet: Contract,
     txHash: string,
-    owners: string[]
-  ): Promise<{ [owner: string]: boolean }> {
+    owners: string[],
+    recordedApprovals: number
+  ): Promise<{ approvals: { [owner: string]: boolean }; formerOwnerApprovals: string[] }> {
     const approvals: { [owner: string]: boolean } = {};
-    for (const owner of owners) {
-      const approved = await wallet.approvals(txHash, owner);
-      approvals[owner.toLowerCase()] = approved;
+    const approved: boolean[] = await Promise.all(owners.map(owner => wallet.hasApproved(txHash, owner)));
+    owners.forEach((owner, i) => {
+      approvals[owner.toLowerCase()] = approved[i];
+    });
+
+    const formerOwnerApprovals: string[] = [];
+    const countedApprovals = approved.filter(Boolean).length;
+    if (recordedApprovals > countedApprovals) {
+      try {
+        const formerOwners = (await this.getRemovedOwners(wallet)).filter(owner => !(owner in approvals));
+        const recorded: boolean[] = await Promise.all(
+          formerOwners.map(owner => wallet.approvals(txHash, owner))
+        );
+        formerOwners.forEach((owner, i) => {
+          if (recorded[i]) formerOwnerApprovals.push(owner);
+        });
+      } catch (error) {
+        console.warn(`Could not load former owner approvals for ${txHash}:`, error);
+      }
     }
-    return approvals;
+
+    return { approvals, formerOwnerApprovals };
   }
 
   /**
-   * Get transactions by event filter
+   * Get every address ever removed as an owner, lowercased
+   *
+   * Removals are rare, so OwnerRemoved is queried from the first block. Nodes that reject
+   * the range fall back to the removeOwner and swapOwner calls executed through the
+   * transaction index, which misses removals made by modules such as social recovery.
+   */
+  private async getRemovedOwners(wallet: Contract): Promise<string[]> {
+    const removed = new Set<string>();
+
+    try {
+      const events = await wallet.queryFilter(wallet.filters.OwnerRemoved(), 0, 'latest');
+      for (const event of events) {
+        if ('args' in event) removed.add((event.args.owner as string).toLowerCase());
+      }
+      return [...removed];
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('exceeds maximum limit'))) throw error;
+    }
+
+    const walletAddress = (await wallet.getAddress()).toLowerCase();
+    const total = Number(await wallet.getTransactionCount());
+    for (let start = 0; start < total; start += INDEX_PAGE_SIZE) {
+      const hashes: string[] = await wallet.getTransactionHashes(start, INDEX_PAGE_SIZE);
+      const txs: TransactionStruct[] = await Promise.all(hashes.map(txHash => wallet.transactions(txHash)));
+      for (const tx of txs) {
+        if (!tx.executed || tx.to.toLowerCase() !== walletAddress) continue;
+        const call = wallet.interface.parseTransaction({ data: tx.data });
+        if (call?.name === 'removeOwner' || call?.name === 'swapOwner') {
+          removed.add((call.args[0] as string).toLowerCase());
+        }
+      }
+    }
+    return [...removed];
+  }
+
+  /**
+   * Build the UI representation of an on-chain transaction
+   */
+  private async toPendingTransaction(
+    wallet: Contract,
+    txHash: string,
+    tx: TransactionStruct,
+    owners: string[],
+    threshold: bigint,
+    proposerFallback: string = ''
+  ): Promise<PendingTransaction> {
+    const [{ approvals, formerOwnerApprovals }, memo, approvalWeight] = await Promise.all([
+      this.getApprovalsForTransaction(wallet, txHash, owners, Number(tx.numApprovals)),
+      this.getMemo(wallet, txHash),
+      this.getApprovalWeight(wallet, txHash),
+    ]);
+    const numApprovals = Number(tx.numApprovals) - formerOwnerApprovals.length;
+
+    return {
+      hash: txHash,
+      to: tx.to,
+      value: tx.value.toString(),
+      data: tx.data,
+      numApprovals,
+      approvalWeight: approvalWeight ?? numApprovals,
+      threshold: Number(threshold),
+      executed: tx.executed,
+      cancelled: tx.cancelled || false,
+      timestamp: Number(tx.timestamp),
+      proposer: tx.proposer || proposerFallback,
+      approvals,
+      formerOwnerApprovals,
+      validUntil: Number(tx.validUntil || 0n),
+      expired: !tx.executed && this.isExpired(tx.validUntil),
+      memo: memo || undefined,
+    };
+  }
+
+  /**
+   * Get the summed owner weight of a transaction's approvals
+   * @returns null for implementations without weighted voting
+   */
+  private async getApprovalWeight(wallet: Contract, txHash: string): Promise<number | null> {
+    try {
+      return Number(await wallet.getApprovalWeight(txHash));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the memo attached to a proposal (empty for implementations without memos)
+   */
+  private async getMemo(wallet: Contract, txHash: string): Promise<string> {
+    try {
+      return await wallet.memos(txHash);
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Load transactions by hash in parallel, keeping the given order
+   * Hashes that fail to load, or whose transaction fails filterFn, are skipped.
+   */
+  private async loadTransactions(
+    wallet: Contract,
+    hashes: string[],
+    owners: string[],
+    threshold: bigint,
+    filterFn: (tx: TransactionStruct) => boolean = () => true,
+    proposerFallbacks: string[] = []
+  ): Promise<PendingTransaction[]> {
+    const transactions = await Promise.all(
+      hashes.map(async (txHash, i) => {
+        try {
+          const tx: TransactionStruct = await wallet.transactions(txHash);
+          if (!filterFn(tx)) return null;
+          return await this.toPendingTransaction(wallet, txHash, tx, owners, threshold, proposerFallbacks[i]);
+        } catch (error) {
+          console.error(`Error fetching transaction ${txHash}:`, error);
+          return null;
+        }
+      })
+    );
+    return transactions.filter((tx): tx is PendingTransaction => tx !== null);
+  }
+
+  /**
+   * Get transactions matching a filter, newest first
+   *
+   * Walks the on-chain transaction index backwards one page at a time and stops once `limit`
+   * matches are found, so proposals of any age are reachable without loading the whole
+   * history. Wallets whose implementation predates the index fall back to scanning recent
+   * event logs.
    */
   private async getTransactionsByFilter(
     walletAddress: string,
     eventName: string,
-    filterFn: (tx: any) => boolean
+    filterFn: (tx: TransactionStruct) => boolean,
+    limit: number = FILTERED_TRANSACTIONS_LIMIT
   ): Promise<PendingTransaction[]> {
     const wallet = this.getWalletContract(walletAddress);
-    const [owners, threshold] = await Promise.all([
+    const [owners, threshold]: [string[], bigint] = await Promise.all([
       wallet.getOwners(),
       wallet.threshold(),
     ]);
 
+    let total: number | null = null;
+    try {
+      total = Number(await wallet.getTransactionCount());
+    } catch {
+      // Implementation without the transaction index
+    }
+
+    if (total !== null) {
+      const transactions: PendingTransaction[] = [];
+      for (let end = total; end > 0 && transactions.length < limit; end -= INDEX_PAGE_SIZE) {
+        const start = Math.max(end - INDEX_PAGE_SIZE, 0);
+        const hashes: string[] = await wallet.getTransactionHashes(start, end - start);
+        transactions.push(
+          ...(await this.loadTransactions(wallet, [...hashes].reverse(), owners, threshold, filterFn))
+        );
+      }
+
+      return transactions.slice(0, limit);
+    }
+
     const filter = wallet.filters[eventName]();
-    let events: any[] = [];
+    let events: Array<EventLog | Log> = [];
 
     try {
       events = await wallet.queryFilter(filter, -5000, 'latest');
-    } catch (error: any) {
-      if (error.message?.includes('exceeds maximum limit')) {
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('exceeds maximum limit')) {
         try {
           events = await wallet.queryFilter(filter, -2000, 'latest');
         } catch {
@@ -667,40 +1174,21 @@ export class TransactionService extends BaseService {
       }
     }
 
-    const transactions: PendingTransaction[] = [];
+    const hashes: string[] = [];
+    const proposers: string[] = [];
     const seenHashes = new Set<string>();
 
     for (const event of events) {
       if (!('args' in event)) continue;
-      const txHash = event.args.txHash;
+      const txHash: string | undefined = event.args.txHash;
       if (!txHash || seenHashes.has(txHash.toLowerCase())) continue;
       seenHashes.add(txHash.toLowerCase());
-
-      try {
-        const tx = await wallet.transactions(txHash);
-        if (!filterFn(tx)) continue;
-
-        const approvals = await this.getApprovalsForTransaction(wallet, txHash, owners);
-
-        transactions.push({
-          hash: txHash,
-          to: tx.to,
-          value: tx.value.toString(),
-          data: tx.data,
-          numApprovals: Number(tx.numApprovals),
-          threshold: Number(threshold),
-          executed: tx.executed,
-          cancelled: tx.cancelled || false,
-          timestamp: Number(tx.timestamp),
-          proposer: tx.proposer || event.args.proposer || '',
-          approvals,
-        });
-      } catch (error) {
-        console.error(`Error fetching transaction ${txHash}:`, error);
-      }
+      hashes.push(txHash);
+      proposers.push(event.args.proposer || '');
     }
 
+    const transactions = await this.loadTransactions(wallet, hashes, owners, threshold, filterFn, proposers);
     transactions.sort((a, b) => b.timestamp - a.timestamp);
-    return transactions;
+    return transactions.slice(0, limit);
   }
 }
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
 import { WalletService } from './WalletService';
+import { mineSalt } from '../../utils/saltMining';
 
 // Mock quais
 vi.mock('quais', () => {
@@ -42,14 +44,26 @@ vi.mock('quais', () => {
     Interface: MockInterface,
     ContractFactory: MockContractFactory,
     ZeroAddress: '0x0000000000000000000000000000000000000000',
+    getZoneForAddress: vi.fn().mockReturnValue('0x00'),
+    isAddress: vi.fn().mockReturnValue(true),
+    getAddress: vi.fn((address: string) => address),
   };
 });
 
+// Mock salt mining (covered by its own tests)
+vi.mock('../../utils/saltMining', () => ({
+  getProxyInitCodeHash: vi.fn().mockReturnValue('0xinitcodehash'),
+  mineSalt: vi.fn().mockReturnValue({ salt: '0xminedsalt', address: '0x00predicted', attempts: 42 }),
+}));
+
 // Mock config
 vi.mock('../../config/contracts', () => ({
   CONTRACT_ADDRESSES: {
     PROXY_FACTORY: '0xProxyFactory',
     MULTISIG_IMPLEMENTATION: '0xImplementation',
+    WHITELIST_MODULE: '0xWhitelist',
+    DAILY_LIMIT_MODULE: '0xDailyLimit',
+    DELAY_MODULE: '0xDelay',
   },
   NETWORK_CONFIG: {
     RPC_URL: 'http://localhost:8545',
@@ -173,6 +187,20 @@ describe('WalletService', () => {
   });
 
   describe('deployWallet', () => {
+    /** Mock a factory createWalletWithSetup transaction that emits WalletCreated */
+    const mockFactoryCreation = () => {
+      const factory = service.getFactoryContract() as any;
+      factory.computeAddress = vi.fn().mockResolvedValue('0x00predicted');
+      factory.createWalletWithSetup = vi.fn().mockResolvedValue({
+        hash: '0xcreatetx',
+        wait: vi.fn().mockResolvedValue({ logs: [{}] }),
+      });
+      factory.interface = {
+        parseLog: vi.fn().mockReturnValue({ name: 'WalletCreated', args: { wallet: '0x00predicted' } }),
+      };
+      return factory;
+    };
+
     it('should throw when signer not set', async () => {
       const config = { owners: ['0x1234'], threshold: 1 };
 
@@ -212,6 +240,118 @@ describe('WalletService', () => {
 
       await expect(service.deployWallet(config)).rejects.toThrow('Invalid threshold');
     });
+
+    it('should create the vault through the factory when a salt is given', async () => {
+      service.setSigner(mockSigner);
+      const factory = mockFactoryCreation();
+      const onProgress = vi.fn();
+
+      const result = await service.deployWallet(
+        { owners: ['0x1234', '0x5678'], threshold: 2, salt: '0xminedsalt' },
+        onProgress
+      );
+
+      expect(result).toBe('0x00predicted');
+      expect(factory.createWalletWithSetup).toHaveBeenCalledWith(['0x1234', '0x5678'], [], 2, '0xminedsalt', [], []);
+      expect(factory.registerWallet).not.toHaveBeenCalled();
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ step: 'success', deployTxHash: '0xcreatetx' }));
+    });
+
+    it('should pass owner weights to the factory for weighted vaults', async () => {
+      service.setSigner(mockSigner);
+      const factory = mockFactoryCreation();
+
+      await service.deployWallet({ owners: ['0x1234', '0x5678'], threshold: 3, weights: [2, 1], salt: '0xminedsalt' });
+
+      expect(factory.createWalletWithSetup).toHaveBeenCalledWith(['0x1234', '0x5678'], [2, 1], 3, '0xminedsalt', [], []);
+    });
+
+    it('should enable and configure modules at the predicted address', async () => {
+      service.setSigner(mockSigner);
+      const factory = mockFactoryCreation();
+
+      await service.deployWallet({
+        owners: ['0x1234'],
+        threshold: 1,
+        salt: '0xminedsalt',
+        modules: {
+          dailyLimit: 1000n,
+          whitelist: [{ address: '0x' + 'ab'.repeat(20), limit: 0n }],
+        },
+      });
+
+      expect(factory.computeAddress).toHaveBeenCalledWith('0xSignerAddress', '0xminedsalt', '0x');
+      expect(factory.createWalletWithSetup).toHaveBeenCalledWith(
+        ['0x1234'],
+        [],
+        1,
+        '0xminedsalt',
+        ['0xDailyLimit', '0xWhitelist'],
+        [
+          { to: '0xDailyLimit', value: 0n, data: '0xencoded' },
+          { to: '0xWhitelist', value: 0n, data: '0xencoded' },
+        ]
+      );
+    });
+
+    it('should throw when a module is not configured', async () => {
+      service.setSigner(mockSigner);
+      const factory = mockFactoryCreation();
+
+      await expect(
+        service.deployWallet({
+          owners: ['0x1234'],
+          threshold: 1,
+          salt: '0xminedsalt',
+          modules: { recovery: { guardians: ['0x' + 'cd'.repeat(20)], threshold: 1, recoveryPeriodDays: 7 } },
+        })
+      ).rejects.toThrow('Social recovery module address is not configured');
+      expect(factory.createWalletWithSetup).not.toHaveBeenCalled();
+    });
+
+    it('should throw for modules without a salt', async () => {
+      service.setSigner(mockSigner);
+      const config = { owners: ['0x1234'], threshold: 1, modules: { dailyLimit: 1000n } };
+
+      await expect(service.deployWallet(config)).rejects.toThrow('Module setup requires a mined salt');
+    });
+
+    it('should throw when weights do not match owners', async () => {
+      service.setSigner(mockSigner);
+      const config = { owners: ['0x1234', '0x5678'], threshold: 2, weights: [3] };
+
+      await expect(service.deployWallet(config)).rejects.toThrow('Owner weights must match the number of owners');
+    });
+
+    it('should throw for a zero owner weight', async () => {
+      service.setSigner(mockSigner);
+      const config = { owners: ['0x1234', '0x5678'], threshold: 1, weights: [3, 0] };
+
+      await expect(service.deployWallet(config)).rejects.toThrow('Owner weights must be whole numbers');
+    });
+
+    it('should throw when threshold exceeds total owner weight', async () => {
+      service.setSigner(mockSigner);
+      const config = { owners: ['0x1234', '0x5678'], threshold: 6, weights: [3, 2] };
+
+      await expect(service.deployWallet(config)).rejects.toThrow('must be between 1 and 5');
+    });
+  });
+
+  describe('predictWalletAddress', () => {
+    it('should mine a salt for the factory zone and the deployer', async () => {
+      (service.getFactoryContract().implementation as unknown as Mock).mockResolvedValue('0xImplementation');
+
+      const result = await service.predictWalletAddress('0xDeployer');
+
+      expect(result).toEqual({ salt: '0xminedsalt', address: '0x00predicted', attempts: 42 });
+      expect(mineSalt).toHaveBeenCalledWith({
+        factory: '0xProxyFactory',
+        deployer: '0xDeployer',
+        initCodeHash: '0xinitcodehash',
+        zone: '0x00',
+      });
+    });
   });
 
   describe('getWalletInfo', () => {
@@ -241,6 +381,22 @@ describe('WalletService', () => {
       });
     });
 
+    it('should include owner weights when the implementation supports them', async () => {
+      const mockWallet = {
+        getOwners: vi.fn().mockResolvedValue(['0xOwner1', '0xOwner2']),
+        threshold: vi.fn().mockResolvedValue(4n),
+        getOwnerWeight: vi.fn().mockImplementation(async (owner: string) => (owner === '0xOwner1' ? 3n : 2n)),
+      };
+
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+      (service.getProvider() as any).getBalance = vi.fn().mockResolvedValue(0n);
+
+      const result = await service.getWalletInfo('0xWalletAddress');
+
+      expect(result.ownerWeights).toEqual({ '0xOwner1': 3, '0xOwner2': 2 });
+      expect(result.totalWeight).toBe(5);
+    });
+
     it('should throw when wallet contract call fails', async () => {
       const walletAddress = '0xWalletAddress';
       const mockWallet = {
@@ -323,6 +479,163 @@ describe('WalletService', () => {
     });
   });
 
+  describe('isRelayModule', () => {
+    it('should read the relay permission', async () => {
+      const mockWallet = {
+        relayModules: vi.fn().mockResolvedValue(true),
+      };
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+
+      const result = await service.isRelayModule('0xWallet', '0xModule');
+
+      expect(result).toBe(true);
+      expect(mockWallet.relayModules).toHaveBeenCalledWith('0xModule');
+    });
+  });
+
+  describe('getWalletImplementation', () => {
+    it('should return the implementation the proxy delegates to', async () => {
+      const mockProxy = {
+        getImplementation: vi.fn().mockResolvedValue('0xImplementation'),
+      };
+      vi.spyOn(service as any, 'getProxyContract').mockReturnValue(mockProxy);
+
+      const result = await service.getWalletImplementation('0xWallet');
+
+      expect(result).toBe('0xImplementation');
+    });
+  });
+
+  describe('getModules', () => {
+    it('should return every enabled module from the on-chain list', async () => {
+      const mockWallet = {
+        getModules: vi.fn().mockResolvedValue(['0xModule1', '0xUnknownModule']),
+        modules: vi.fn(),
+      };
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+
+      const result = await service.getModules('0xWallet');
+
+      expect(result).toEqual(['0xModule1', '0xUnknownModule']);
+      expect(mockWallet.modules).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to configured modules when the list is unavailable', async () => {
+      const mockWallet = {
+        getModules: vi.fn().mockRejectedValue(new Error('call revert exception')),
+        modules: vi.fn().mockImplementation(async (address: string) => address === '0xWhitelist'),
+      };
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+
+      const result = await service.getModules('0xWallet');
+
+      expect(result).toEqual(['0xWhitelist']);
+    });
+  });
+
+  describe('getNftHoldings', () => {
+    const WALLET = '0x1234567890123456789012345678901234567890';
+    let mockWallet: any;
+    let mockToken: any;
+
+    beforeEach(() => {
+      mockWallet = {
+        filters: {
+          ERC721Received: vi.fn().mockReturnValue('erc721Filter'),
+          ERC1155Received: vi.fn().mockReturnValue('erc1155Filter'),
+        },
+        queryFilter: vi.fn().mockImplementation(async (filter: string) =>
+          filter === 'erc721Filter'
+            ? [
+                { args: { token: '0xNft', from: '0xSender', tokenId: 1n } },
+                { args: { token: '0xNft', from: '0xSender', tokenId: 2n } },
+              ]
+            : [
+                { args: { token: '0xMulti', from: '0xSender', id: 5n, amount: 3n } },
+                { args: { token: '0xMulti', from: '0xSender', id: 5n, amount: 2n } },
+              ]
+        ),
+        getReceivedNftCount: vi.fn().mockResolvedValue(0n),
+        getReceivedNfts: vi.fn().mockResolvedValue([]),
+      };
+      mockToken = {
+        ownerOf: vi.fn().mockImplementation(async (tokenId: bigint) => (tokenId === 1n ? WALLET : '0xSomeoneElse')),
+        balanceOf: vi.fn().mockResolvedValue(4n),
+      };
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+      vi.spyOn(service as any, 'getNftContract').mockReturnValue(mockToken);
+    });
+
+    it('should return tokens the wallet still holds', async () => {
+      const result = await service.getNftHoldings(WALLET);
+
+      expect(result).toEqual([
+        { tokenAddress: '0xNft', tokenId: 1n, standard: 'ERC721', balance: 1n },
+        { tokenAddress: '0xMulti', tokenId: 5n, standard: 'ERC1155', balance: 4n },
+      ]);
+      expect(mockToken.balanceOf).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip ERC-1155 tokens with no remaining balance', async () => {
+      mockToken.balanceOf.mockResolvedValue(0n);
+
+      const result = await service.getNftHoldings(WALLET);
+
+      expect(result.map(holding => holding.standard)).toEqual(['ERC721']);
+    });
+
+    it('should skip tokens whose ownership check fails', async () => {
+      mockToken.ownerOf.mockRejectedValue(new Error('call revert exception'));
+
+      const result = await service.getNftHoldings(WALLET);
+
+      expect(result.map(holding => holding.standard)).toEqual(['ERC1155']);
+    });
+
+    it('should include recorded tokens received outside the recent event window', async () => {
+      mockWallet.queryFilter.mockResolvedValue([]);
+      mockWallet.getReceivedNftCount.mockResolvedValue(1n);
+      mockWallet.getReceivedNfts.mockResolvedValue([{ token: '0xOldNft', tokenId: 1n, isERC1155: false }]);
+
+      const result = await service.getNftHoldings(WALLET);
+
+      expect(result).toEqual([{ tokenAddress: '0xOldNft', tokenId: 1n, standard: 'ERC721', balance: 1n }]);
+      expect(mockWallet.getReceivedNfts).toHaveBeenCalledWith(0, 100);
+    });
+
+    it('should fall back to recent events when the received list is unavailable', async () => {
+      mockWallet.getReceivedNftCount.mockRejectedValue(new Error('call revert exception'));
+
+      const result = await service.getNftHoldings(WALLET);
+
+      expect(result.map(holding => holding.tokenAddress)).toEqual(['0xNft', '0xMulti']);
+    });
+  });
+
+  describe('getGuard', () => {
+    it('should return active guard address', async () => {
+      const mockWallet = {
+        guard: vi.fn().mockResolvedValue('0xGuard'),
+      };
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+
+      const result = await service.getGuard('0xWallet');
+
+      expect(result).toBe('0xGuard');
+    });
+
+    it('should return empty string when no guard is set', async () => {
+      const mockWallet = {
+        guard: vi.fn().mockResolvedValue('0x0000000000000000000000000000000000000000'),
+      };
+      vi.spyOn(service as any, 'getWalletContract').mockReturnValue(mockWallet);
+
+      const result = await service.getGuard('0xWallet');
+
+      expect(result).toBe('');
+    });
+  });
+
   describe('getFactoryContract', () => {
     it('should return factory contract', () => {
       const factory = service.getFactoryContract();
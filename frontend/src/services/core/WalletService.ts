@@ -1,13 +1,48 @@
 import * as quais from 'quais';
+import type { EventLog } from 'quais';
 import type { Contract, Signer, Provider } from '../../types';
-import type { WalletInfo, DeploymentConfig } from '../../types';
+import type { WalletInfo, DeploymentConfig, ModuleSetupConfig, NftHolding } from '../../types';
 import { CONTRACT_ADDRESSES } from '../../config/contracts';
 import { extractIpfsHashFromBytecode } from '../../utils/ipfsHelper';
+import { getProxyInitCodeHash, mineSalt } from '../../utils/saltMining';
+import type { MinedSalt } from '../../utils/saltMining';
 import { BaseService } from './BaseService';
+import { MAX_OWNER_WEIGHT } from './OwnerService';
+import { validateAddress } from '../utils/TransactionErrorHandler';
 
 import MultisigWalletABI from '../../config/abi/MultisigWallet.json';
 import ProxyFactoryABI from '../../config/abi/ProxyFactory.json';
 import MultisigWalletProxyABI from '../../config/abi/MultisigWalletProxy.json';
+import DailyLimitModuleABI from '../../config/abi/DailyLimitModule.json';
+import WhitelistModuleABI from '../../config/abi/WhitelistModule.json';
+import SocialRecoveryModuleABI from '../../config/abi/SocialRecoveryModule.json';
+
+/** Wallet setup payload for ProxyFactory.createWalletWithSetup */
+interface WalletSetup {
+  modules: string[];
+  calls: { to: string; value: bigint; data: string }[];
+}
+
+/** Progress update reported while a wallet is deployed and registered */
+interface DeploymentProgress {
+  step: 'deploying' | 'deploying_waiting' | 'registering' | 'registering_waiting' | 'verifying' | 'success';
+  deployTxHash?: string;
+  registerTxHash?: string;
+  walletAddress?: string;
+  message?: string;
+}
+
+/** Entry of the wallet's on-chain list of NFTs received through safe transfers */
+interface ReceivedNft {
+  token: string;
+  tokenId: bigint;
+  isERC1155: boolean;
+}
+
+/**
+ * Number of entries requested per call when reading the wallet's received NFT list
+ */
+const RECEIVED_NFT_PAGE_SIZE = 100;
 
 /**
  * Service for core wallet operations
@@ -74,17 +109,44 @@ export class WalletService extends BaseService {
   }
 
   /**
-   * Deploy a new multisig wallet directly (without factory CREATE2)
+   * Predict the vault address of a factory deployment before anyone signs
+   *
+   * Mines a salt so the CREATE2 address lands in the factory's zone; pass the returned salt
+   * in the deployment config to deploy through the factory at exactly this address.
+   * Salted vaults are created with createWalletWithSetup, which deploys the proxy without
+   * init data, so the address depends only on the deployer and salt and stays valid whatever
+   * owners and modules are configured afterwards.
+   * @param deployer - Account that will send the factory transaction
+   */
+  async predictWalletAddress(deployer: string): Promise<MinedSalt> {
+    const zone = quais.getZoneForAddress(CONTRACT_ADDRESSES.PROXY_FACTORY);
+    if (!zone) {
+      throw new Error('Factory address is not in a known zone');
+    }
+
+    // The factory deploys proxies pointing at its own immutable implementation
+    const implementation = await this.getImplementationAddress();
+    const initCodeHash = getProxyInitCodeHash(implementation, '0x');
+
+    return mineSalt({
+      factory: CONTRACT_ADDRESSES.PROXY_FACTORY,
+      deployer,
+      initCodeHash,
+      zone,
+    });
+  }
+
+  /**
+   * Deploy a new multisig wallet
+   *
+   * With a salt (see predictWalletAddress) the factory deploys, initializes and registers the
+   * vault in one transaction at the predicted address, enabling and configuring any requested
+   * modules along the way. Without one the proxy is deployed directly and then registered
+   * with the factory.
    */
   async deployWallet(
     config: DeploymentConfig,
-    onProgress?: (progress: {
-      step: 'deploying' | 'deploying_waiting' | 'registering' | 'registering_waiting' | 'verifying' | 'success';
-      deployTxHash?: string;
-      registerTxHash?: string;
-      walletAddress?: string;
-      message?: string;
-    }) => void
+    onProgress?: (progress: DeploymentProgress) => void
   ): Promise<string> {
     const signer = this.requireSigner();
 
@@ -92,7 +154,7 @@ export class WalletService extends BaseService {
       throw new Error('Deployment config is required');
     }
 
-    const { owners, threshold } = config;
+    const { owners, threshold, weights, salt, modules } = config;
 
     // Validate inputs
     if (!owners || !Array.isArray(owners)) {
@@ -101,19 +163,39 @@ export class WalletService extends BaseService {
     if (owners.length === 0) {
       throw new Error('At least one owner is required');
     }
-    if (threshold === undefined || threshold === null || threshold === 0 || threshold > owners.length) {
-      throw new Error(`Invalid threshold: ${threshold} (must be between 1 and ${owners.length})`);
+    if (weights) {
+      if (weights.length !== owners.length) {
+        throw new Error('Owner weights must match the number of owners');
+      }
+      if (weights.some((weight) => !Number.isInteger(weight) || weight < 1 || weight > MAX_OWNER_WEIGHT)) {
+        throw new Error(`Owner weights must be whole numbers between 1 and ${MAX_OWNER_WEIGHT}`);
+      }
+    }
+    // Threshold is a summed weight; with one vote each this is the owner count
+    const totalWeight = weights ? weights.reduce((total, weight) => total + weight, 0) : owners.length;
+    if (threshold === undefined || threshold === null || threshold === 0 || threshold > totalWeight) {
+      throw new Error(`Invalid threshold: ${threshold} (must be between 1 and ${totalWeight})`);
+    }
+    const isWeighted = !!weights && weights.some((weight) => weight !== 1);
+    if (modules && !salt) {
+      throw new Error('Module setup requires a mined salt (see predictWalletAddress)');
     }
 
     try {
       console.log('Deploying wallet directly with:');
       console.log('  Owners:', owners);
       console.log('  Threshold:', threshold);
+      if (isWeighted) {
+        console.log('  Weights:', weights);
+      }
       console.log('  Implementation:', CONTRACT_ADDRESSES.MULTISIG_IMPLEMENTATION);
 
+      if (salt) {
+        return await this.createWalletWithFactory(config, isWeighted, signer, onProgress);
+      }
+
       // Encode initialization data
-      const iface = new quais.Interface(MultisigWalletABI.abi);
-      const initData = iface.encodeFunctionData('initialize', [owners, threshold]);
+      const initData = this.encodeInitData(config);
 
       console.log('  Init data:', initData);
 
@@ -198,6 +280,138 @@ export class WalletService extends BaseService {
     }
   }
 
+  /**
+   * Encode the wallet's initialize call (initializeWithWeights when any weight differs from 1)
+   */
+  private encodeInitData({ owners, threshold, weights }: DeploymentConfig): string {
+    const iface = new quais.Interface(MultisigWalletABI.abi);
+    return weights && weights.some((weight) => weight !== 1)
+      ? iface.encodeFunctionData('initializeWithWeights', [owners, weights, threshold])
+      : iface.encodeFunctionData('initialize', [owners, threshold]);
+  }
+
+  /**
+   * Deploy, initialize and register a wallet through the factory with a mined CREATE2 salt
+   */
+  private async createWalletWithFactory(
+    { owners, threshold, weights, salt, modules }: DeploymentConfig,
+    isWeighted: boolean,
+    signer: Signer,
+    onProgress?: (progress: DeploymentProgress) => void
+  ): Promise<string> {
+    console.log('  Salt:', salt);
+
+    // Module configuration calls take the wallet address, which only depends on deployer and salt
+    let setup: WalletSetup = { modules: [], calls: [] };
+    if (modules) {
+      const predictedAddress = await this.factoryContract.computeAddress(await signer.getAddress(), salt, '0x');
+      setup = this.encodeModuleSetup(predictedAddress, modules);
+      console.log('  Modules:', setup.modules);
+    }
+
+    onProgress?.({ step: 'deploying', message: 'Please approve the vault creation transaction in your wallet' });
+
+    const tx = await this.factoryContract.createWalletWithSetup(
+      owners,
+      isWeighted ? weights : [],
+      threshold,
+      salt,
+      setup.modules,
+      setup.calls
+    );
+    const deployTxHash = tx.hash;
+    console.log('Transaction sent:', deployTxHash);
+
+    onProgress?.({
+      step: 'deploying_waiting',
+      deployTxHash,
+      message: 'Waiting for vault creation to be confirmed...',
+    });
+
+    const receipt = await tx.wait();
+    const walletAddress = this.extractWalletAddressFromReceipt(receipt);
+
+    console.log('Wallet deployed to:', walletAddress);
+
+    onProgress?.({
+      step: 'verifying',
+      deployTxHash,
+      walletAddress,
+      message: 'Verifying deployed contract...',
+    });
+
+    await this.verifyDeployedBytecode(walletAddress);
+
+    onProgress?.({
+      step: 'success',
+      deployTxHash,
+      walletAddress,
+      message: 'Wallet created successfully!',
+    });
+
+    return walletAddress;
+  }
+
+  /**
+   * Encode the modules to enable and their configuration calls for createWalletWithSetup
+   * @param walletAddress - Address the wallet will be deployed at
+   */
+  private encodeModuleSetup(walletAddress: string, config: ModuleSetupConfig): WalletSetup {
+    const setup: WalletSetup = { modules: [], calls: [] };
+
+    const addModule = (name: string, moduleAddress: string, abi: { abi: quais.InterfaceAbi }, functionName: string, args: unknown[]) => {
+      if (!moduleAddress) {
+        throw new Error(`${name} module address is not configured`);
+      }
+      setup.modules.push(moduleAddress);
+      setup.calls.push({
+        to: moduleAddress,
+        value: 0n,
+        data: new quais.Interface(abi.abi).encodeFunctionData(functionName, args),
+      });
+    };
+
+    if (config.dailyLimit !== undefined) {
+      if (config.dailyLimit <= 0n) {
+        throw new Error('Daily limit must be greater than zero');
+      }
+      addModule('Daily limit', CONTRACT_ADDRESSES.DAILY_LIMIT_MODULE, DailyLimitModuleABI, 'setDailyLimit', [
+        walletAddress,
+        config.dailyLimit,
+      ]);
+    }
+
+    if (config.whitelist) {
+      if (config.whitelist.length === 0) {
+        throw new Error('Add at least one whitelisted address');
+      }
+      addModule('Whitelist', CONTRACT_ADDRESSES.WHITELIST_MODULE, WhitelistModuleABI, 'batchAddToWhitelist', [
+        walletAddress,
+        config.whitelist.map((entry) => validateAddress(entry.address)),
+        config.whitelist.map((entry) => entry.limit),
+      ]);
+    }
+
+    if (config.recovery) {
+      const { guardians, threshold, recoveryPeriodDays } = config.recovery;
+      const normalizedGuardians = guardians.map((guardian) => validateAddress(guardian));
+      if (threshold < 1 || threshold > normalizedGuardians.length) {
+        throw new Error(`Invalid recovery threshold: must be between 1 and ${normalizedGuardians.length}`);
+      }
+      if (recoveryPeriodDays < 1) {
+        throw new Error('Recovery period must be at least 1 day');
+      }
+      addModule('Social recovery', CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE, SocialRecoveryModuleABI, 'setupRecovery', [
+        walletAddress,
+        normalizedGuardians,
+        threshold,
+        BigInt(recoveryPeriodDays) * 86400n,
+      ]);
+    }
+
+    return setup;
+  }
+
   /**
    * Verify deployed bytecode matches expected
    */
@@ -224,7 +438,7 @@ export class WalletService extends BaseService {
    */
   private async registerWalletWithFactory(
     walletAddress: string,
-    onProgress?: (progress: any) => void,
+    onProgress?: (progress: DeploymentProgress) => void,
     deployTxHash?: string
   ): Promise<string | undefined> {
     try {
@@ -272,13 +486,24 @@ export class WalletService extends BaseService {
         this.provider.getBalance(walletAddress),
       ]);
 
-      const result = {
+      const result: WalletInfo = {
         address: walletAddress,
         owners: Array.from(owners).map(address => String(address)),
         threshold: Number(threshold),
         balance: balance.toString(),
       };
 
+      // Owner weights (implementations without weighted voting give every owner one vote)
+      try {
+        const weights = await Promise.all(result.owners.map((owner) => wallet.getOwnerWeight(owner)));
+        result.ownerWeights = Object.fromEntries(
+          result.owners.map((owner, index) => [owner, Number(weights[index])])
+        );
+        result.totalWeight = weights.reduce((total: number, weight) => total + Number(weight), 0);
+      } catch {
+        // Weighted voting not available on this implementation
+      }
+
       console.log('Wallet info:', result);
       return result;
     } catch (error) {
@@ -320,6 +545,177 @@ export class WalletService extends BaseService {
     return await wallet.modules(moduleAddress);
   }
 
+  /**
+   * Check if a module may propose, execute and cancel transactions
+   */
+  async isRelayModule(walletAddress: string, moduleAddress: string): Promise<boolean> {
+    const wallet = this.getWalletContract(walletAddress);
+    return await wallet.relayModules(moduleAddress);
+  }
+
+  /**
+   * Get the implementation a wallet proxy currently delegates to
+   */
+  async getWalletImplementation(walletAddress: string): Promise<string> {
+    const proxy = this.getProxyContract(walletAddress);
+    return await proxy.getImplementation();
+  }
+
+  /**
+   * Get every enabled module, including third-party modules not listed in the config
+   * Falls back to checking the configured modules for wallets whose implementation predates the module list
+   */
+  async getModules(walletAddress: string): Promise<string[]> {
+    const wallet = this.getWalletContract(walletAddress);
+
+    try {
+      const modules = await wallet.getModules();
+      return Array.from(modules).map(address => String(address));
+    } catch (error) {
+      console.warn('Module list unavailable, checking configured modules:', error);
+    }
+
+    const knownModules = [
+      CONTRACT_ADDRESSES.SOCIAL_RECOVERY_MODULE,
+      CONTRACT_ADDRESSES.DAILY_LIMIT_MODULE,
+      CONTRACT_ADDRESSES.WHITELIST_MODULE,
+      CONTRACT_ADDRESSES.DELAY_MODULE,
+      CONTRACT_ADDRESSES.ROLES_MODULE,
+      CONTRACT_ADDRESSES.INHERITANCE_MODULE,
+      CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE,
+      CONTRACT_ADDRESSES.VESTING_MODULE,
+    ].filter(Boolean);
+
+    const enabled: string[] = [];
+    for (const moduleAddress of knownModules) {
+      if (await wallet.modules(moduleAddress)) {
+        enabled.push(moduleAddress);
+      }
+    }
+    return enabled;
+  }
+
+  /**
+   * Get NFTs the wallet currently holds
+   * Discovers tokens from the wallet's on-chain list of safe transfers, plus ERC721Received/ERC1155Received
+   * events in the recent block range for tokens received before the vault recorded them, then confirms
+   * each one is still held. Tokens sent without a safe transfer are not detected.
+   */
+  async getNftHoldings(walletAddress: string): Promise<NftHolding[]> {
+    const wallet = this.getWalletContract(walletAddress);
+
+    const [received, erc721Events, erc1155Events] = await Promise.all([
+      this.getReceivedNfts(wallet),
+      this.queryRecentEvents(wallet, 'ERC721Received'),
+      this.queryRecentEvents(wallet, 'ERC1155Received'),
+    ]);
+
+    // Deduplicate by token contract and id
+    const candidates = new Map<string, Pick<NftHolding, 'tokenAddress' | 'tokenId' | 'standard'>>();
+    for (const nft of received) {
+      candidates.set(`${nft.token.toLowerCase()}:${nft.tokenId}`, {
+        tokenAddress: nft.token,
+        tokenId: nft.tokenId,
+        standard: nft.isERC1155 ? 'ERC1155' : 'ERC721',
+      });
+    }
+    for (const event of erc721Events) {
+      const tokenAddress = String(event.args.token);
+      const tokenId = BigInt(event.args.tokenId);
+      candidates.set(`${tokenAddress.toLowerCase()}:${tokenId}`, { tokenAddress, tokenId, standard: 'ERC721' });
+    }
+    for (const event of erc1155Events) {
+      const tokenAddress = String(event.args.token);
+      const tokenId = BigInt(event.args.id);
+      candidates.set(`${tokenAddress.toLowerCase()}:${tokenId}`, { tokenAddress, tokenId, standard: 'ERC1155' });
+    }
+
+    const holdings: NftHolding[] = [];
+    for (const candidate of candidates.values()) {
+      try {
+        const token = this.getNftContract(candidate.tokenAddress);
+        if (candidate.standard === 'ERC721') {
+          const owner: string = await token.ownerOf(candidate.tokenId);
+          if (owner.toLowerCase() === walletAddress.toLowerCase()) {
+            holdings.push({ ...candidate, balance: 1n });
+          }
+        } else {
+          const balance: bigint = await token.balanceOf(walletAddress, candidate.tokenId);
+          if (balance > 0n) {
+            holdings.push({ ...candidate, balance });
+          }
+        }
+      } catch (error) {
+        console.warn(`Could not check NFT ${candidate.tokenAddress} #${candidate.tokenId}:`, error);
+      }
+    }
+
+    return holdings;
+  }
+
+  /**
+   * Get the active transaction guard (empty string if none)
+   */
+  async getGuard(walletAddress: string): Promise<string> {
+    const wallet = this.getWalletContract(walletAddress);
+    const guard: string = await wallet.guard();
+    return guard === quais.ZeroAddress ? '' : guard;
+  }
+
+  /**
+   * Read the wallet's on-chain list of NFTs received through safe transfers
+   * Returns an empty list for wallets whose implementation predates the list
+   */
+  private async getReceivedNfts(wallet: Contract): Promise<ReceivedNft[]> {
+    let total: number;
+    try {
+      total = Number(await wallet.getReceivedNftCount());
+    } catch (error) {
+      console.warn('Received NFT list unavailable, using recent events only:', error);
+      return [];
+    }
+
+    const received: ReceivedNft[] = [];
+    for (let offset = 0; offset < total; offset += RECEIVED_NFT_PAGE_SIZE) {
+      const page = await wallet.getReceivedNfts(offset, RECEIVED_NFT_PAGE_SIZE);
+      for (const nft of page) {
+        received.push({ token: String(nft.token), tokenId: BigInt(nft.tokenId), isERC1155: Boolean(nft.isERC1155) });
+      }
+    }
+    return received;
+  }
+
+  /**
+   * Query a wallet event over the recent block range, narrowing the range if the node rejects it
+   */
+  private async queryRecentEvents(wallet: Contract, eventName: string): Promise<EventLog[]> {
+    const filter = wallet.filters[eventName]();
+    let events;
+    try {
+      events = await wallet.queryFilter(filter, -5000, 'latest');
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('exceeds maximum limit'))) {
+        throw error;
+      }
+      events = await wallet.queryFilter(filter, -2000, 'latest');
+    }
+    return events.filter((event): event is EventLog => 'args' in event);
+  }
+
+  /**
+   * Get NFT contract instance (read-only, covers ERC-721 and ERC-1155 ownership checks)
+   */
+  private getNftContract(tokenAddress: string): Contract {
+    return new quais.Contract(
+      tokenAddress,
+      [
+        'function ownerOf(uint256 tokenId) view returns (address)',
+        'function balanceOf(address account, uint256 id) view returns (uint256)',
+      ],
+      this.provider
+    ) as Contract;
+  }
+
   /**
    * Get factory contract (for use by other services)
    */
@@ -1,10 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as quais from 'quais';
 import { DailyLimitModuleService } from './DailyLimitModuleService';
 
 // Valid test addresses (42 chars: 0x + 40 hex)
 const VALID_WALLET = '0x1234567890123456789012345678901234567890';
 const VALID_TARGET = '0xabcdef0123456789abcdef0123456789abcdef01';
 const VALID_CALLER = '0x9876543210987654321098765432109876543210';
+const VALID_TOKEN = '0x1111111111111111111111111111111111111111';
 
 // Mock config
 vi.mock('../../config/contracts', () => ({
@@ -36,6 +38,7 @@ describe('DailyLimitModuleService', () => {
   let mockSigner: any;
   let mockModule: any;
   let mockWallet: any;
+  let mockToken: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -54,6 +57,12 @@ describe('DailyLimitModuleService', () => {
       }),
       getRemainingLimit: vi.fn().mockResolvedValue(1000000000000000000n),
       getTimeUntilReset: vi.fn().mockResolvedValue(86400n),
+      getTokenTimeUntilReset: vi.fn().mockResolvedValue(3600n),
+      getLimitPeriod: vi.fn().mockResolvedValue([604800n, true]),
+      getRollingSpends: vi.fn().mockResolvedValue([
+        { amount: 600000000000000000n, timestamp: 1700000000n },
+        { amount: 200000000000000000n, timestamp: 1700003600n },
+      ]),
       setDailyLimit: Object.assign(
         vi.fn().mockResolvedValue({
           hash: '0xsettxhash',
@@ -75,11 +84,34 @@ describe('DailyLimitModuleService', () => {
         }),
         { estimateGas: vi.fn().mockResolvedValue(150000n) }
       ),
+      getLimitedTokens: vi.fn().mockResolvedValue([VALID_TOKEN]),
+      getTokenDailyLimit: vi.fn().mockResolvedValue({
+        limit: 100000000n,
+        spent: 25000000n,
+        lastReset: 1234567890n,
+      }),
+      getTokenRemainingLimit: vi.fn().mockResolvedValue(75000000n),
+      executeTokenBelowLimit: Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xtokentxhash',
+          wait: vi.fn().mockResolvedValue({ status: 1, hash: '0xtokentxhash' }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(150000n) }
+      ),
       interface: {
         parseError: vi.fn(),
       },
     };
 
+    mockToken = {
+      balanceOf: vi.fn().mockResolvedValue(1000000000n),
+      symbol: vi.fn().mockResolvedValue('USDC'),
+      decimals: vi.fn().mockResolvedValue(6n),
+    };
+    vi.mocked(quais.Contract).mockImplementation(function () {
+      return mockToken;
+    } as any);
+
     mockWallet = {
       modules: vi.fn().mockResolvedValue(true),
       isOwner: vi.fn().mockResolvedValue(true),
@@ -138,6 +170,66 @@ describe('DailyLimitModuleService', () => {
       expect(result).toBe(500000000000000000n);
       expect(mockModule.getRemainingLimit).toHaveBeenCalledWith(VALID_WALLET);
     });
+
+    it('should return a token\'s remaining limit when a token is given', async () => {
+      const result = await service.getRemainingLimit(VALID_WALLET, VALID_TOKEN);
+
+      expect(result).toBe(75000000n);
+      expect(mockModule.getTokenRemainingLimit).toHaveBeenCalledWith(VALID_WALLET, VALID_TOKEN);
+      expect(mockModule.getRemainingLimit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTokenDailyLimits', () => {
+    it('should return each limited token with its metadata', async () => {
+      const result = await service.getTokenDailyLimits(VALID_WALLET);
+
+      expect(result).toEqual([
+        {
+          token: VALID_TOKEN,
+          symbol: 'USDC',
+          decimals: 6,
+          limit: 100000000n,
+          spent: 25000000n,
+          lastReset: 1234567890n,
+          remaining: 75000000n,
+          timeUntilReset: 3600n,
+        },
+      ]);
+    });
+
+    it('should fall back to default metadata for non-standard tokens', async () => {
+      mockToken.symbol.mockRejectedValue(new Error('no symbol'));
+      mockToken.decimals.mockRejectedValue(new Error('no decimals'));
+
+      const [result] = await service.getTokenDailyLimits(VALID_WALLET);
+
+      expect(result.symbol).toBe('TOKEN');
+      expect(result.decimals).toBe(18);
+    });
+  });
+
+  describe('proposeSetTokenDailyLimit', () => {
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeSetTokenDailyLimit(VALID_WALLET, VALID_TOKEN, 5000000n);
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'setTokenDailyLimit', [
+        VALID_WALLET,
+        VALID_TOKEN,
+        5000000n,
+      ]);
+    });
+
+    it('should reject negative limits', async () => {
+      await expect(
+        service.proposeSetTokenDailyLimit(VALID_WALLET, VALID_TOKEN, -1n)
+      ).rejects.toThrow('Token limit cannot be negative');
+    });
   });
 
   describe('getTimeUntilReset', () => {
@@ -148,6 +240,61 @@ describe('DailyLimitModuleService', () => {
 
       expect(result).toBe(43200n);
     });
+
+    it('should return a token\'s time until reset when a token is given', async () => {
+      const result = await service.getTimeUntilReset(VALID_WALLET, VALID_TOKEN);
+
+      expect(result).toBe(3600n);
+      expect(mockModule.getTokenTimeUntilReset).toHaveBeenCalledWith(VALID_WALLET, VALID_TOKEN);
+    });
+  });
+
+  describe('getLimitPeriod', () => {
+    it('should return the period in seconds and the window mode', async () => {
+      const result = await service.getLimitPeriod(VALID_WALLET);
+
+      expect(result).toEqual({ period: 604800, rolling: true });
+    });
+  });
+
+  describe('getRollingSpends', () => {
+    it('should return the spends in the window', async () => {
+      const result = await service.getRollingSpends(VALID_WALLET);
+
+      expect(result).toEqual([
+        { amount: 600000000000000000n, timestamp: 1700000000 },
+        { amount: 200000000000000000n, timestamp: 1700003600 },
+      ]);
+      expect(mockModule.getRollingSpends).toHaveBeenCalledWith(VALID_WALLET, quais.ZeroAddress);
+    });
+
+    it('should query a token\'s window when a token is given', async () => {
+      await service.getRollingSpends(VALID_WALLET, VALID_TOKEN);
+
+      expect(mockModule.getRollingSpends).toHaveBeenCalledWith(VALID_WALLET, VALID_TOKEN);
+    });
+  });
+
+  describe('proposeSetLimitPeriod', () => {
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeSetLimitPeriod(VALID_WALLET, 3600, true);
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'setLimitPeriod', [VALID_WALLET, 3600n, true]);
+    });
+
+    it('should reject periods outside the module bounds', async () => {
+      await expect(service.proposeSetLimitPeriod(VALID_WALLET, 60, false)).rejects.toThrow(
+        'Limit period must be between 1 hour and 30 days'
+      );
+      await expect(service.proposeSetLimitPeriod(VALID_WALLET, 31 * 24 * 60 * 60, false)).rejects.toThrow(
+        'Limit period must be between 1 hour and 30 days'
+      );
+    });
   });
 
   describe('setDailyLimit (deprecated)', () => {
@@ -220,6 +367,29 @@ describe('DailyLimitModuleService', () => {
         service.executeBelowLimit(VALID_WALLET, VALID_TARGET, 1000n)
       ).rejects.toThrow('reverted');
     });
+
+    it('should transfer tokens against the token limit', async () => {
+      const result = await service.executeBelowLimit(VALID_WALLET, VALID_TARGET, 5000000n, VALID_TOKEN);
+
+      expect(result).toBe('0xtokentxhash');
+      expect(mockToken.balanceOf).toHaveBeenCalledWith(VALID_WALLET);
+      expect(mockModule.executeTokenBelowLimit).toHaveBeenCalledWith(
+        VALID_WALLET,
+        VALID_TOKEN,
+        VALID_TARGET,
+        5000000n,
+        expect.any(Object)
+      );
+      expect(mockModule.executeBelowLimit).not.toHaveBeenCalled();
+    });
+
+    it('should throw when insufficient token balance', async () => {
+      mockToken.balanceOf.mockResolvedValue(100n);
+
+      await expect(
+        service.executeBelowLimit(VALID_WALLET, VALID_TARGET, 1000n, VALID_TOKEN)
+      ).rejects.toThrow('Insufficient balance');
+    });
   });
 
   describe('canExecuteViaDailyLimit', () => {
@@ -15,6 +15,46 @@ import {
 } from '../utils/GasEstimator';
 import DailyLimitModuleABI from '../../config/abi/DailyLimitModule.json';
 
+/** Minimal ERC-20 ABI for token limit display and balance checks */
+const ERC20_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+];
+
+/** Bounds enforced by DailyLimitModule.setLimitPeriod (seconds) */
+export const MIN_LIMIT_PERIOD = 60 * 60;
+export const MAX_LIMIT_PERIOD = 30 * 24 * 60 * 60;
+
+/** Period lengths offered in the UI (seconds) */
+export const LIMIT_PERIOD_PRESETS = [
+  { label: 'Hourly', seconds: 60 * 60 },
+  { label: 'Daily', seconds: 24 * 60 * 60 },
+  { label: 'Weekly', seconds: 7 * 24 * 60 * 60 },
+  { label: 'Monthly (30 days)', seconds: 30 * 24 * 60 * 60 },
+];
+
+export interface LimitPeriod {
+  period: number;   // Seconds
+  rolling: boolean; // Count spends from the last `period` seconds instead of fixed periods
+}
+
+export interface RollingSpend {
+  amount: bigint;
+  timestamp: number; // Capacity returns at timestamp + period
+}
+
+export interface TokenDailyLimit {
+  token: string;
+  symbol: string;
+  decimals: number;
+  limit: bigint;
+  spent: bigint;
+  lastReset: bigint;
+  remaining: bigint;
+  timeUntilReset: bigint; // Seconds until capacity comes back
+}
+
 /**
  * Service for daily limit module operations
  *
@@ -22,6 +62,10 @@ import DailyLimitModuleABI from '../../config/abi/DailyLimitModule.json';
  * now require multisig approval. Use proposeSetDailyLimit() and proposeResetDailyLimit()
  * to create multisig proposals. Execution functions (executeBelowLimit) still work
  * with single owner.
+ *
+ * Native QUAI and each ERC-20 token have separate limits; pass a token address to the
+ * token-aware methods to work with a token's limit instead of the QUAI limit. The limit
+ * period (fixed or rolling) is shared by all of a wallet's limits.
  */
 export class DailyLimitModuleService extends BaseModuleService {
 
@@ -45,6 +89,41 @@ export class DailyLimitModuleService extends BaseModuleService {
     return this.createModuleProposal(walletAddress, 'resetDailyLimit', [walletAddress]);
   }
 
+  /**
+   * Propose changing the limit period (requires multisig approval)
+   * @param period - Period length in seconds
+   * @param rolling - Use a rolling window instead of fixed periods
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetLimitPeriod(walletAddress: string, period: number, rolling: boolean): Promise<string> {
+    if (!Number.isInteger(period) || period < MIN_LIMIT_PERIOD || period > MAX_LIMIT_PERIOD) {
+      throw new Error('Limit period must be between 1 hour and 30 days');
+    }
+    return this.createModuleProposal(walletAddress, 'setLimitPeriod', [walletAddress, BigInt(period), rolling]);
+  }
+
+  /**
+   * Propose setting an ERC-20 token's daily limit (requires multisig approval)
+   * @param limit - Limit in token units (0 removes the limit)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetTokenDailyLimit(walletAddress: string, token: string, limit: bigint): Promise<string> {
+    const normalizedToken = validateAddress(token);
+    if (limit < 0n) {
+      throw new Error('Token limit cannot be negative');
+    }
+    return this.createModuleProposal(walletAddress, 'setTokenDailyLimit', [walletAddress, normalizedToken, limit]);
+  }
+
+  /**
+   * Propose resetting an ERC-20 token's spent amount (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeResetTokenDailyLimit(walletAddress: string, token: string): Promise<string> {
+    const normalizedToken = validateAddress(token);
+    return this.createModuleProposal(walletAddress, 'resetTokenDailyLimit', [walletAddress, normalizedToken]);
+  }
+
   /**
    * @deprecated Use proposeSetDailyLimit() instead - direct calls now require multisig approval (H-2 fix)
    */
@@ -67,57 +146,129 @@ export class DailyLimitModuleService extends BaseModuleService {
     this.throwDeprecationError('resetDailyLimit', 'proposeResetDailyLimit');
   }
 
+  /**
+   * Get every ERC-20 token limit configured for the wallet
+   */
+  async getTokenDailyLimits(walletAddress: string): Promise<TokenDailyLimit[]> {
+    const module = this.getModuleContract();
+    const tokens: string[] = Array.from(await module.getLimitedTokens(walletAddress));
+
+    return Promise.all(
+      tokens.map(async (token) => {
+        const [config, remaining, timeUntilReset, metadata] = await Promise.all([
+          module.getTokenDailyLimit(walletAddress, token),
+          module.getTokenRemainingLimit(walletAddress, token),
+          module.getTokenTimeUntilReset(walletAddress, token),
+          this.getTokenMetadata(token),
+        ]);
+        return {
+          token,
+          ...metadata,
+          limit: config.limit,
+          spent: config.spent,
+          lastReset: config.lastReset,
+          remaining,
+          timeUntilReset,
+        };
+      })
+    );
+  }
+
   /**
    * Get remaining daily limit
+   * @param token - ERC-20 token address (omit for the QUAI limit)
    */
-  async getRemainingLimit(walletAddress: string): Promise<bigint> {
+  async getRemainingLimit(walletAddress: string, token?: string): Promise<bigint> {
     const module = this.getModuleContract();
+    if (token) {
+      return await module.getTokenRemainingLimit(walletAddress, validateAddress(token));
+    }
     return await module.getRemainingLimit(walletAddress);
   }
 
   /**
-   * Get time until limit resets (in seconds)
+   * Get time until limit capacity comes back (in seconds)
+   *
+   * For fixed periods this is when the whole limit resets; for rolling windows it is when
+   * the oldest spend in the window frees its amount.
+   * @param token - ERC-20 token address (omit for the QUAI limit)
    */
-  async getTimeUntilReset(walletAddress: string): Promise<bigint> {
+  async getTimeUntilReset(walletAddress: string, token?: string): Promise<bigint> {
     const module = this.getModuleContract();
+    if (token) {
+      return await module.getTokenTimeUntilReset(walletAddress, validateAddress(token));
+    }
     return await module.getTimeUntilReset(walletAddress);
   }
 
+  /**
+   * Get the wallet's limit period configuration
+   */
+  async getLimitPeriod(walletAddress: string): Promise<LimitPeriod> {
+    const module = this.getModuleContract();
+    const [period, rolling] = await module.getLimitPeriod(walletAddress);
+    return { period: Number(period), rolling };
+  }
+
+  /**
+   * Get the spends still counting against a rolling window, oldest first
+   * @param token - ERC-20 token address (omit for the QUAI limit)
+   * @returns Empty when the wallet uses fixed periods
+   */
+  async getRollingSpends(walletAddress: string, token?: string): Promise<RollingSpend[]> {
+    const module = this.getModuleContract();
+    const spends = await module.getRollingSpends(walletAddress, token ? validateAddress(token) : quais.ZeroAddress);
+    return Array.from(spends, (spend: { amount: bigint; timestamp: bigint }) => ({
+      amount: spend.amount,
+      timestamp: Number(spend.timestamp),
+    }));
+  }
+
   /**
    * Execute transaction below daily limit (bypasses approval requirement)
+   * @param token - ERC-20 token to transfer against that token's limit (omit to send QUAI)
    */
   async executeBelowLimit(
     walletAddress: string,
     to: string,
-    value: bigint
+    value: bigint,
+    token?: string
   ): Promise<string> {
     const signer = this.requireSigner();
     const normalizedTo = validateAddress(to);
+    const normalizedToken = token ? validateAddress(token) : undefined;
     const module = this.getModuleContract(signer);
 
     // Check wallet balance
-    const walletBalance = await this.provider.getBalance(walletAddress);
+    const walletBalance = normalizedToken
+      ? await new quais.Contract(normalizedToken, ERC20_ABI, this.provider).balanceOf(walletAddress)
+      : await this.provider.getBalance(walletAddress);
     if (walletBalance < value) {
       throw new Error(`Insufficient balance: wallet has ${walletBalance.toString()}, trying to send ${value.toString()}`);
     }
 
+    const method = normalizedToken ? 'executeTokenBelowLimit' : 'executeBelowLimit';
+    const args = normalizedToken
+      ? [walletAddress, normalizedToken, normalizedTo, value]
+      : [walletAddress, normalizedTo, value];
+
     // Estimate gas - will throw with descriptive error if validation fails
     await estimateGasOrThrow(
-      module.executeBelowLimit,
-      [walletAddress, normalizedTo, value],
+      module[method],
+      args,
       'execute below limit',
       module
     );
 
     const { gasLimit } = await estimateGasWithBuffer(
-      module.executeBelowLimit,
-      [walletAddress, normalizedTo, value],
+      module[method],
+      args,
       GasPresets.standard
     );
 
     let tx;
     try {
-      tx = await module.executeBelowLimit(walletAddress, normalizedTo, value, buildTxOptions(gasLimit));
+      tx = await module[method](...args, buildTxOptions(gasLimit));
     } catch (error: any) {
       if (isUserRejection(error)) {
         throw new Error('Transaction was rejected by user');
@@ -176,4 +327,16 @@ export class DailyLimitModuleService extends BaseModuleService {
       return { canExecute: false, reason: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
+
+  /**
+   * Read a token's symbol and decimals (falls back to 'TOKEN' and 18)
+   */
+  async getTokenMetadata(token: string): Promise<{ symbol: string; decimals: number }> {
+    const contract = new quais.Contract(token, ERC20_ABI, this.provider);
+    const [symbol, decimals] = await Promise.all([
+      contract.symbol().catch(() => 'TOKEN'),
+      contract.decimals().catch(() => 18n),
+    ]);
+    return { symbol: String(symbol), decimals: Number(decimals) };
+  }
 }
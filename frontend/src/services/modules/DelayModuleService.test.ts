@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DelayModuleService } from './DelayModuleService';
+
+// Valid test addresses (42 chars: 0x + 40 hex)
+const VALID_WALLET = '0x1234567890123456789012345678901234567890';
+const VALID_TARGET = '0xabcdef0123456789abcdef0123456789abcdef01';
+const VALID_CALLER = '0x9876543210987654321098765432109876543210';
+const QUEUE_HASH_1 = '0x' + '11'.repeat(32);
+const QUEUE_HASH_2 = '0x' + '22'.repeat(32);
+
+// Mock config
+vi.mock('../../config/contracts', () => ({
+  CONTRACT_ADDRESSES: {
+    DELAY_MODULE: '0xDelayModule1234567890123456789012345678',
+  },
+  NETWORK_CONFIG: {
+    RPC_URL: 'http://localhost:8545',
+  },
+}));
+
+// Mock ABIs
+vi.mock('../../config/abi/MultisigWallet.json', () => ({
+  default: { abi: [] },
+}));
+vi.mock('../../config/abi/DelayModule.json', () => ({
+  default: { abi: [] },
+}));
+
+describe('DelayModuleService', () => {
+  let service: DelayModuleService;
+  let mockSigner: any;
+  let mockModule: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    service = new DelayModuleService();
+
+    mockSigner = {
+      getAddress: vi.fn().mockResolvedValue(VALID_CALLER),
+    };
+
+    mockModule = {
+      delays: vi.fn().mockResolvedValue(172800n),
+      getPendingTransactionHashes: vi.fn().mockResolvedValue([]),
+      getQueuedTransaction: vi.fn().mockResolvedValue({
+        to: VALID_TARGET,
+        value: 1000n,
+        data: '0x',
+        executeAfter: 1700000000n,
+        executed: false,
+      }),
+      executeQueuedTransaction: Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xexecutetxhash',
+          wait: vi.fn().mockResolvedValue({ status: 1, hash: '0xexecutetxhash' }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(150000n) }
+      ),
+      vetoTransaction: Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xvetotxhash',
+          wait: vi.fn().mockResolvedValue({ status: 1, hash: '0xvetotxhash' }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(80000n) }
+      ),
+      interface: {
+        parseError: vi.fn(),
+      },
+    };
+
+    vi.spyOn(service as any, 'getModuleContract').mockReturnValue(mockModule);
+  });
+
+  describe('getDelay', () => {
+    it('should return configured delay', async () => {
+      const result = await service.getDelay(VALID_WALLET);
+
+      expect(result).toBe(172800n);
+      expect(mockModule.delays).toHaveBeenCalledWith(VALID_WALLET);
+    });
+  });
+
+  describe('proposeSetDelay', () => {
+    it('should reject zero delay', async () => {
+      await expect(service.proposeSetDelay(VALID_WALLET, 0n)).rejects.toThrow(
+        'Delay must be greater than zero'
+      );
+    });
+
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeSetDelay(VALID_WALLET, 172800n);
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'setDelay', [VALID_WALLET, 172800n]);
+    });
+  });
+
+  describe('proposeQueueTransaction', () => {
+    it('should create a multisig proposal to queue the call', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      await service.proposeQueueTransaction(VALID_WALLET, VALID_TARGET, 1000n, '');
+
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'queueTransaction', [
+        VALID_WALLET,
+        VALID_TARGET,
+        1000n,
+        '0x',
+      ]);
+    });
+
+    it('should reject invalid destination', async () => {
+      await expect(
+        service.proposeQueueTransaction(VALID_WALLET, '0x123', 1000n, '0x')
+      ).rejects.toThrow('Invalid address length');
+    });
+  });
+
+  describe('getQueuedTransactions', () => {
+    it('should return pending transactions ordered by execution time', async () => {
+      mockModule.getPendingTransactionHashes.mockResolvedValue([QUEUE_HASH_1, QUEUE_HASH_2]);
+      mockModule.getQueuedTransaction.mockImplementation(async (_wallet: string, hash: string) => ({
+        to: VALID_TARGET,
+        value: 1000n,
+        data: '0x',
+        executeAfter: hash === QUEUE_HASH_1 ? 2000n : 1000n,
+        executed: false,
+      }));
+
+      const result = await service.getQueuedTransactions(VALID_WALLET);
+
+      expect(result.map(tx => tx.txHash)).toEqual([QUEUE_HASH_2, QUEUE_HASH_1]);
+    });
+
+    it('should skip vetoed and executed transactions', async () => {
+      mockModule.getPendingTransactionHashes.mockResolvedValue([QUEUE_HASH_1, QUEUE_HASH_2]);
+      mockModule.getQueuedTransaction.mockImplementation(async (_wallet: string, hash: string) => ({
+        to: VALID_TARGET,
+        value: 1000n,
+        data: '0x',
+        executeAfter: hash === QUEUE_HASH_1 ? 0n : 1000n,
+        executed: hash === QUEUE_HASH_2,
+      }));
+
+      const result = await service.getQueuedTransactions(VALID_WALLET);
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('executeQueuedTransaction', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(
+        service.executeQueuedTransaction(VALID_WALLET, QUEUE_HASH_1)
+      ).rejects.toThrow('Signer not set');
+    });
+
+    it('should execute queued transaction', async () => {
+      const result = await service.executeQueuedTransaction(VALID_WALLET, QUEUE_HASH_1);
+
+      expect(result).toBe('0xexecutetxhash');
+      expect(mockModule.executeQueuedTransaction).toHaveBeenCalledWith(
+        VALID_WALLET,
+        QUEUE_HASH_1,
+        expect.any(Object)
+      );
+    });
+
+    it('should throw when transaction was vetoed', async () => {
+      mockModule.getQueuedTransaction.mockResolvedValue({
+        to: '0x0000000000000000000000000000000000000000',
+        value: 0n,
+        data: '0x',
+        executeAfter: 0n,
+        executed: false,
+      });
+
+      await expect(
+        service.executeQueuedTransaction(VALID_WALLET, QUEUE_HASH_1)
+      ).rejects.toThrow('vetoed or does not exist');
+    });
+
+    it('should throw on reverted transaction', async () => {
+      mockModule.executeQueuedTransaction.mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ status: 0 }),
+      });
+
+      await expect(
+        service.executeQueuedTransaction(VALID_WALLET, QUEUE_HASH_1)
+      ).rejects.toThrow('reverted');
+    });
+  });
+
+  describe('vetoTransaction', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should veto queued transaction', async () => {
+      const result = await service.vetoTransaction(VALID_WALLET, QUEUE_HASH_1);
+
+      expect(result).toBe('0xvetotxhash');
+      expect(mockModule.vetoTransaction).toHaveBeenCalledWith(
+        VALID_WALLET,
+        QUEUE_HASH_1,
+        expect.any(Object)
+      );
+    });
+
+    it('should throw on user rejection', async () => {
+      mockModule.vetoTransaction.mockRejectedValue({ code: 'ACTION_REJECTED' });
+
+      await expect(
+        service.vetoTransaction(VALID_WALLET, QUEUE_HASH_1)
+      ).rejects.toThrow('Transaction was rejected by user');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import type { Provider } from '../../types';
+import { CONTRACT_ADDRESSES } from '../../config/contracts';
+import { BaseModuleService } from './BaseModuleService';
+import {
+  isUserRejection,
+  validateAddress,
+} from '../utils/TransactionErrorHandler';
+import {
+  estimateGasWithBuffer,
+  estimateGasOrThrow,
+  buildTxOptions,
+  GasPresets,
+} from '../utils/GasEstimator';
+import DelayModuleABI from '../../config/abi/DelayModule.json';
+
+export interface QueuedTransaction {
+  to: string;
+  value: bigint;
+  data: string;
+  executeAfter: bigint;
+  executed: boolean;
+}
+
+export interface PendingQueuedTransaction extends QueuedTransaction {
+  txHash: string;
+}
+
+/**
+ * Service for delay (timelock) module operations
+ *
+ * Configuration (setDelay) and queueing (queueTransaction) require multisig approval,
+ * so both are exposed as proposals. Once the cooldown has elapsed any owner can execute
+ * a queued transaction, and any owner can veto it before then.
+ */
+export class DelayModuleService extends BaseModuleService {
+
+  constructor(provider?: Provider) {
+    super(provider, CONTRACT_ADDRESSES.DELAY_MODULE, DelayModuleABI);
+  }
+
+  /**
+   * Propose setting the cooldown (requires multisig approval)
+   * @param delaySeconds - Cooldown in seconds
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetDelay(walletAddress: string, delaySeconds: bigint): Promise<string> {
+    if (delaySeconds <= 0n) {
+      throw new Error('Delay must be greater than zero');
+    }
+    return this.createModuleProposal(walletAddress, 'setDelay', [walletAddress, delaySeconds]);
+  }
+
+  /**
+   * Propose queueing a transaction behind the cooldown (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeQueueTransaction(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string
+  ): Promise<string> {
+    const normalizedTo = validateAddress(to);
+    return this.createModuleProposal(walletAddress, 'queueTransaction', [
+      walletAddress,
+      normalizedTo,
+      value,
+      data || '0x',
+    ]);
+  }
+
+  /**
+   * Get configured cooldown in seconds (0 if not set)
+   */
+  async getDelay(walletAddress: string): Promise<bigint> {
+    const module = this.getModuleContract();
+    return await module.delays(walletAddress);
+  }
+
+  /**
+   * Get queued transaction details
+   */
+  async getQueuedTransaction(walletAddress: string, txHash: string): Promise<QueuedTransaction> {
+    const module = this.getModuleContract();
+    const queued = await module.getQueuedTransaction(walletAddress, txHash);
+    return {
+      to: queued.to,
+      value: queued.value || 0n,
+      data: queued.data || '0x',
+      executeAfter: queued.executeAfter || 0n,
+      executed: queued.executed || false,
+    };
+  }
+
+  /**
+   * Get all transactions still waiting in the queue
+   */
+  async getQueuedTransactions(walletAddress: string): Promise<PendingQueuedTransaction[]> {
+    const module = this.getModuleContract();
+    const hashes: string[] = await module.getPendingTransactionHashes(walletAddress);
+
+    const queued: PendingQueuedTransaction[] = [];
+    for (const txHash of hashes) {
+      try {
+        const transaction = await this.getQueuedTransaction(walletAddress, txHash);
+        if (transaction.executeAfter === 0n || transaction.executed) continue;
+        queued.push({ txHash, ...transaction });
+      } catch (error) {
+        console.error(`Error fetching queued transaction ${txHash}:`, error);
+      }
+    }
+
+    return queued.sort((a, b) => Number(a.executeAfter - b.executeAfter));
+  }
+
+  /**
+   * Execute a queued transaction once its cooldown has elapsed (owners only)
+   */
+  async executeQueuedTransaction(walletAddress: string, txHash: string): Promise<string> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    const queued = await this.getQueuedTransaction(walletAddress, txHash);
+    if (queued.executeAfter === 0n) {
+      throw new Error('Transaction has been vetoed or does not exist');
+    }
+    if (queued.executed) {
+      throw new Error('Transaction has already been executed');
+    }
+
+    await estimateGasOrThrow(
+      module.executeQueuedTransaction,
+      [walletAddress, txHash],
+      'execute queued transaction',
+      module
+    );
+
+    const { gasLimit } = await estimateGasWithBuffer(
+      module.executeQueuedTransaction,
+      [walletAddress, txHash],
+      GasPresets.complex
+    );
+
+    let tx;
+    try {
+      tx = await module.executeQueuedTransaction(walletAddress, txHash, buildTxOptions(gasLimit));
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt = await tx.wait();
+    if (receipt.status === 0) {
+      throw new Error('Transaction reverted. Possible causes: cooldown not elapsed, insufficient balance, or module not enabled.');
+    }
+
+    return receipt.hash;
+  }
+
+  /**
+   * Veto a queued transaction (any single owner)
+   */
+  async vetoTransaction(walletAddress: string, txHash: string): Promise<string> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    await estimateGasOrThrow(
+      module.vetoTransaction,
+      [walletAddress, txHash],
+      'veto transaction',
+      module
+    );
+
+    const { gasLimit } = await estimateGasWithBuffer(
+      module.vetoTransaction,
+      [walletAddress, txHash],
+      GasPresets.standard
+    );
+
+    let tx;
+    try {
+      tx = await module.vetoTransaction(walletAddress, txHash, buildTxOptions(gasLimit));
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt = await tx.wait();
+    if (receipt.status === 0) {
+      throw new Error('Transaction reverted');
+    }
+
+    return receipt.hash;
+  }
+}
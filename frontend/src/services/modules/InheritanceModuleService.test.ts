@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InheritanceModuleService, CLAIM_TYPE } from './InheritanceModuleService';
+
+// Valid test addresses (42 chars: 0x + 40 hex)
+const VALID_WALLET = '0x1234567890123456789012345678901234567890';
+const VALID_BENEFICIARY_1 = '0xabcdef0123456789abcdef0123456789abcdef01';
+const VALID_BENEFICIARY_2 = '0x1111111111111111111111111111111111111111';
+const VALID_CALLER = '0x9876543210987654321098765432109876543210';
+const CLAIM_HASH = '0x' + '22'.repeat(32);
+const STALE_CLAIM_HASH = '0x' + '33'.repeat(32);
+
+// Mock config
+vi.mock('../../config/contracts', () => ({
+  CONTRACT_ADDRESSES: {
+    INHERITANCE_MODULE: '0xInheritanceModule12345678901234567890123',
+  },
+  NETWORK_CONFIG: {
+    RPC_URL: 'http://localhost:8545',
+  },
+}));
+
+// Mock ABIs
+vi.mock('../../config/abi/MultisigWallet.json', () => ({
+  default: { abi: [] },
+}));
+vi.mock('../../config/abi/InheritanceModule.json', () => ({
+  default: { abi: [] },
+}));
+
+/** Build a mocked module method that resolves to a mined transaction */
+function mockModuleMethod(hash: string, logs: any[] = []) {
+  return Object.assign(
+    vi.fn().mockResolvedValue({
+      hash,
+      wait: vi.fn().mockResolvedValue({ status: 1, hash, logs }),
+    }),
+    { estimateGas: vi.fn().mockResolvedValue(100000n) }
+  );
+}
+
+describe('InheritanceModuleService', () => {
+  let service: InheritanceModuleService;
+  let mockSigner: any;
+  let mockModule: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    service = new InheritanceModuleService();
+
+    mockSigner = {
+      getAddress: vi.fn().mockResolvedValue(VALID_CALLER),
+    };
+
+    mockModule = {
+      getInheritanceConfig: vi.fn().mockResolvedValue({
+        beneficiaries: [VALID_BENEFICIARY_1, VALID_BENEFICIARY_2],
+        threshold: 2n,
+        inactivityPeriod: 2592000n,
+      }),
+      getLastActivity: vi.fn().mockResolvedValue(1000n),
+      getClaimableAt: vi.fn().mockResolvedValue(2593000n),
+      getPendingClaimHashes: vi.fn().mockResolvedValue([CLAIM_HASH, STALE_CLAIM_HASH]),
+      getClaim: vi.fn().mockImplementation(async (_wallet: string, claimHash: string) => ({
+        claimType: 1n,
+        newOwners: [],
+        newThreshold: 0n,
+        recipient: VALID_BENEFICIARY_1,
+        approvalCount: 1n,
+        requiredThreshold: 2n,
+        initiatedAt: claimHash === CLAIM_HASH ? 3000000n : 900n,
+        executionTime: claimHash === CLAIM_HASH ? 3604800n : 605700n,
+        executed: false,
+      })),
+      heartbeat: mockModuleMethod('0xheartbeattxhash'),
+      initiateClaim: mockModuleMethod('0xinitiatetxhash', [{ topics: [], data: '0x' }]),
+      initiateSweep: mockModuleMethod('0xsweeptxhash', [{ topics: [], data: '0x' }]),
+      approveClaim: mockModuleMethod('0xapprovetxhash'),
+      executeClaim: mockModuleMethod('0xexecutetxhash'),
+      interface: {
+        parseError: vi.fn(),
+        parseLog: vi.fn().mockReturnValue({ name: 'ClaimInitiated', args: { claimHash: CLAIM_HASH } }),
+      },
+    };
+
+    vi.spyOn(service as any, 'getModuleContract').mockReturnValue(mockModule);
+  });
+
+  describe('getInheritanceConfig', () => {
+    it('should return the configuration', async () => {
+      const result = await service.getInheritanceConfig(VALID_WALLET);
+
+      expect(result).toEqual({
+        beneficiaries: [VALID_BENEFICIARY_1, VALID_BENEFICIARY_2],
+        threshold: 2n,
+        inactivityPeriod: 2592000n,
+      });
+    });
+  });
+
+  describe('proposeSetupInheritance', () => {
+    it('should create a multisig proposal with the period in seconds', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeSetupInheritance(
+        VALID_WALLET,
+        [VALID_BENEFICIARY_1, VALID_BENEFICIARY_2],
+        1,
+        90
+      );
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'setupInheritance', [
+        VALID_WALLET,
+        [VALID_BENEFICIARY_1, VALID_BENEFICIARY_2],
+        1,
+        90n * 86400n,
+      ]);
+    });
+
+    it('should reject periods below the minimum', async () => {
+      await expect(
+        service.proposeSetupInheritance(VALID_WALLET, [VALID_BENEFICIARY_1], 1, 29)
+      ).rejects.toThrow('Inactivity period must be at least 30 days');
+    });
+
+    it('should reject duplicate beneficiaries', async () => {
+      await expect(
+        service.proposeSetupInheritance(VALID_WALLET, [VALID_BENEFICIARY_1, VALID_BENEFICIARY_1], 1, 30)
+      ).rejects.toThrow('Duplicate beneficiary addresses are not allowed');
+    });
+
+    it('should reject invalid thresholds', async () => {
+      await expect(
+        service.proposeSetupInheritance(VALID_WALLET, [VALID_BENEFICIARY_1], 2, 30)
+      ).rejects.toThrow('Invalid threshold');
+    });
+  });
+
+  describe('getPendingClaims', () => {
+    it('should flag claims initiated before the last owner activity as stale', async () => {
+      const result = await service.getPendingClaims(VALID_WALLET);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({ claimHash: CLAIM_HASH, claimType: CLAIM_TYPE.Sweep, executionTime: 3604800n, isStale: false });
+      expect(result[1]).toMatchObject({ claimHash: STALE_CLAIM_HASH, isStale: true });
+    });
+  });
+
+  describe('direct actions', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(service.heartbeat(VALID_WALLET)).rejects.toThrow('Signer not set');
+    });
+
+    it('should send a heartbeat', async () => {
+      const result = await service.heartbeat(VALID_WALLET);
+
+      expect(result).toBe('0xheartbeattxhash');
+      expect(mockModule.heartbeat).toHaveBeenCalledWith(VALID_WALLET, expect.any(Object));
+    });
+
+    it('should return the claim hash of a new claim', async () => {
+      const result = await service.initiateClaim(VALID_WALLET, [VALID_BENEFICIARY_1], 1);
+
+      expect(result).toBe(CLAIM_HASH);
+      expect(mockModule.initiateClaim).toHaveBeenCalledWith(
+        VALID_WALLET,
+        [VALID_BENEFICIARY_1],
+        1,
+        expect.any(Object)
+      );
+    });
+
+    it('should validate claim thresholds before sending', async () => {
+      await expect(service.initiateClaim(VALID_WALLET, [VALID_BENEFICIARY_1], 2)).rejects.toThrow('Invalid threshold');
+      expect(mockModule.initiateClaim).not.toHaveBeenCalled();
+    });
+
+    it('should return the claim hash of a new sweep', async () => {
+      const result = await service.initiateSweep(VALID_WALLET, VALID_BENEFICIARY_2);
+
+      expect(result).toBe(CLAIM_HASH);
+      expect(mockModule.initiateSweep).toHaveBeenCalledWith(VALID_WALLET, VALID_BENEFICIARY_2, expect.any(Object));
+    });
+
+    it('should surface active owners before sending', async () => {
+      mockModule.executeClaim.estimateGas.mockRejectedValue(new Error('OwnersStillActive()'));
+
+      await expect(service.executeClaim(VALID_WALLET, CLAIM_HASH)).rejects.toThrow('Cannot execute claim');
+      expect(mockModule.executeClaim).not.toHaveBeenCalled();
+    });
+
+    it('should throw on user rejection', async () => {
+      mockModule.approveClaim.mockRejectedValue({ code: 'ACTION_REJECTED' });
+
+      await expect(service.approveClaim(VALID_WALLET, CLAIM_HASH)).rejects.toThrow('Transaction was rejected by user');
+    });
+  });
+});
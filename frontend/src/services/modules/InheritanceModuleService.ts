@@ -0,0 +1,315 @@
+import type { ContractTransactionReceipt, ContractTransactionResponse } from 'quais';
+import type { Provider } from '../../types';
+import { CONTRACT_ADDRESSES } from '../../config/contracts';
+import { BaseModuleService } from './BaseModuleService';
+import {
+  isUserRejection,
+  validateAddress,
+} from '../utils/TransactionErrorHandler';
+import {
+  estimateGasWithBuffer,
+  estimateGasOrThrow,
+  buildTxOptions,
+  GasPresets,
+} from '../utils/GasEstimator';
+import type { GasEstimateOptions } from '../utils/GasEstimator';
+import InheritanceModuleABI from '../../config/abi/InheritanceModule.json';
+
+/** Shortest inactivity period the module accepts (InheritanceModule.MIN_INACTIVITY_PERIOD) */
+export const MIN_INACTIVITY_PERIOD_DAYS = 30;
+
+/** Claim types matching InheritanceModule.ClaimType */
+export const CLAIM_TYPE = {
+  Control: 0,
+  Sweep: 1,
+} as const;
+
+export type ClaimTypeValue = typeof CLAIM_TYPE[keyof typeof CLAIM_TYPE];
+
+export interface InheritanceConfig {
+  beneficiaries: string[];
+  threshold: bigint;
+  inactivityPeriod: bigint; // Seconds
+}
+
+export interface Claim {
+  claimType: ClaimTypeValue;
+  newOwners: string[];     // Control claims
+  newThreshold: bigint;    // Control claims
+  recipient: string;       // Sweep claims
+  approvalCount: bigint;
+  requiredThreshold: bigint; // Beneficiary approvals needed, fixed at initiation
+  initiatedAt: bigint;
+  executionTime: bigint;     // Earliest execution, after the challenge window
+  executed: boolean;
+}
+
+export interface PendingClaim extends Claim {
+  claimHash: string;
+  isStale: boolean; // An owner was active after initiation, so the claim can no longer execute
+}
+
+/**
+ * Service for inheritance (dead man's switch) module operations
+ *
+ * setupInheritance requires multisig approval, so it is exposed as a proposal. Everything
+ * else is a direct call: any owner can send a heartbeat, and beneficiaries initiate, approve
+ * and execute claims once the owners have been inactive for the configured period.
+ */
+export class InheritanceModuleService extends BaseModuleService {
+
+  constructor(provider?: Provider) {
+    super(provider, CONTRACT_ADDRESSES.INHERITANCE_MODULE, InheritanceModuleABI);
+  }
+
+  /**
+   * Get inheritance configuration for a wallet
+   */
+  async getInheritanceConfig(walletAddress: string): Promise<InheritanceConfig> {
+    const module = this.getModuleContract();
+    const config = await module.getInheritanceConfig(walletAddress);
+    return {
+      beneficiaries: Array.from((config.beneficiaries || []) as string[]),
+      threshold: config.threshold || 0n,
+      inactivityPeriod: config.inactivityPeriod || 0n,
+    };
+  }
+
+  /**
+   * Propose setting up inheritance (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetupInheritance(
+    walletAddress: string,
+    beneficiaries: string[],
+    threshold: number,
+    inactivityPeriodDays: number
+  ): Promise<string> {
+    const normalizedBeneficiaries = beneficiaries.map(addr => validateAddress(addr));
+
+    if (normalizedBeneficiaries.length === 0) {
+      throw new Error('At least one beneficiary is required');
+    }
+    if (new Set(normalizedBeneficiaries.map(addr => addr.toLowerCase())).size !== normalizedBeneficiaries.length) {
+      throw new Error('Duplicate beneficiary addresses are not allowed');
+    }
+    if (threshold < 1 || threshold > normalizedBeneficiaries.length) {
+      throw new Error(`Invalid threshold: must be between 1 and ${normalizedBeneficiaries.length}`);
+    }
+    if (inactivityPeriodDays < MIN_INACTIVITY_PERIOD_DAYS) {
+      throw new Error(`Inactivity period must be at least ${MIN_INACTIVITY_PERIOD_DAYS} days`);
+    }
+
+    return this.createModuleProposal(walletAddress, 'setupInheritance', [
+      walletAddress,
+      normalizedBeneficiaries,
+      threshold,
+      BigInt(inactivityPeriodDays) * 86400n
+    ]);
+  }
+
+  /**
+   * Get the last owner activity (proposal, approval or heartbeat) as a unix timestamp
+   */
+  async getLastActivity(walletAddress: string): Promise<bigint> {
+    const module = this.getModuleContract();
+    return await module.getLastActivity(walletAddress);
+  }
+
+  /**
+   * Get the time from which beneficiaries can claim (0 if inheritance is not configured)
+   */
+  async getClaimableAt(walletAddress: string): Promise<bigint> {
+    const module = this.getModuleContract();
+    return await module.getClaimableAt(walletAddress);
+  }
+
+  /**
+   * Check if an address is a beneficiary for a wallet
+   */
+  async isBeneficiary(walletAddress: string, address: string): Promise<boolean> {
+    const module = this.getModuleContract();
+    return await module.isBeneficiary(walletAddress, address);
+  }
+
+  /**
+   * Check if a beneficiary has approved a claim
+   */
+  async hasApprovedClaim(walletAddress: string, claimHash: string, address: string): Promise<boolean> {
+    const module = this.getModuleContract();
+    return await module.claimApprovals(walletAddress, claimHash, address);
+  }
+
+  /**
+   * Get claim details
+   */
+  async getClaim(walletAddress: string, claimHash: string): Promise<Claim> {
+    const module = this.getModuleContract();
+    const claim = await module.getClaim(walletAddress, claimHash);
+    return {
+      claimType: Number(claim.claimType) as ClaimTypeValue,
+      newOwners: Array.from((claim.newOwners || []) as string[]),
+      newThreshold: claim.newThreshold || 0n,
+      recipient: claim.recipient,
+      approvalCount: claim.approvalCount || 0n,
+      requiredThreshold: claim.requiredThreshold || 0n,
+      initiatedAt: claim.initiatedAt || 0n,
+      executionTime: claim.executionTime || 0n,
+      executed: claim.executed || false,
+    };
+  }
+
+  /**
+   * Get all pending claims, flagging those invalidated by later owner activity
+   */
+  async getPendingClaims(walletAddress: string): Promise<PendingClaim[]> {
+    const module = this.getModuleContract();
+    const [hashes, lastActivity] = await Promise.all([
+      module.getPendingClaimHashes(walletAddress),
+      this.getLastActivity(walletAddress),
+    ]);
+
+    const claims = await Promise.all(
+      Array.from(hashes as string[]).map(async (claimHash) => ({
+        claimHash,
+        ...(await this.getClaim(walletAddress, claimHash)),
+      }))
+    );
+
+    return claims.map((claim) => ({ ...claim, isStale: lastActivity >= claim.initiatedAt }));
+  }
+
+  /**
+   * Restart the inactivity countdown (any owner). Discards pending claims.
+   */
+  async heartbeat(walletAddress: string): Promise<string> {
+    const receipt = await this.sendModuleTransaction('heartbeat', [walletAddress], 'send heartbeat', GasPresets.standard);
+    return receipt.hash;
+  }
+
+  /**
+   * Initiate a claim to replace the owners (beneficiaries only)
+   * @returns Hash of the new claim
+   */
+  async initiateClaim(walletAddress: string, newOwners: string[], newThreshold: number): Promise<string> {
+    const normalizedOwners = newOwners.map(addr => validateAddress(addr));
+
+    if (normalizedOwners.length === 0) {
+      throw new Error('At least one new owner is required');
+    }
+    if (newThreshold < 1 || newThreshold > normalizedOwners.length) {
+      throw new Error(`Invalid threshold: must be between 1 and ${normalizedOwners.length}`);
+    }
+
+    const receipt = await this.sendModuleTransaction(
+      'initiateClaim',
+      [walletAddress, normalizedOwners, newThreshold],
+      'initiate claim',
+      GasPresets.complex
+    );
+    return this.extractClaimHashFromReceipt(receipt);
+  }
+
+  /**
+   * Initiate a claim to send the vault's QUAI balance to a recipient (beneficiaries only)
+   * @returns Hash of the new claim
+   */
+  async initiateSweep(walletAddress: string, recipient: string): Promise<string> {
+    const normalizedRecipient = validateAddress(recipient);
+    const receipt = await this.sendModuleTransaction(
+      'initiateSweep',
+      [walletAddress, normalizedRecipient],
+      'initiate sweep',
+      GasPresets.complex
+    );
+    return this.extractClaimHashFromReceipt(receipt);
+  }
+
+  /**
+   * Approve a claim (beneficiaries only)
+   */
+  async approveClaim(walletAddress: string, claimHash: string): Promise<string> {
+    const receipt = await this.sendModuleTransaction('approveClaim', [walletAddress, claimHash], 'approve claim', GasPresets.standard);
+    return receipt.hash;
+  }
+
+  /**
+   * Revoke a claim approval (beneficiaries only)
+   */
+  async revokeClaimApproval(walletAddress: string, claimHash: string): Promise<string> {
+    const receipt = await this.sendModuleTransaction(
+      'revokeClaimApproval',
+      [walletAddress, claimHash],
+      'revoke claim approval',
+      GasPresets.standard
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Execute an approved claim (anyone, while the owners stay inactive)
+   */
+  async executeClaim(walletAddress: string, claimHash: string): Promise<string> {
+    const receipt = await this.sendModuleTransaction(
+      'executeClaim',
+      [walletAddress, claimHash],
+      'execute claim',
+      { ...GasPresets.complex, minGas: 500000n, maxGas: 2000000n, defaultGas: 1000000n }
+    );
+    return receipt.hash;
+  }
+
+  // ============ Private Helper Methods ============
+
+  /**
+   * Send a call to the module and wait for it to be mined
+   */
+  private async sendModuleTransaction(
+    method: string,
+    args: unknown[],
+    operationName: string,
+    preset: GasEstimateOptions
+  ): Promise<ContractTransactionReceipt> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    await estimateGasOrThrow(module[method], args, operationName, module);
+
+    const { gasLimit } = await estimateGasWithBuffer(module[method], args, preset);
+
+    let tx: ContractTransactionResponse;
+    try {
+      tx = await module[method](...args, buildTxOptions(gasLimit));
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt: ContractTransactionReceipt | null = await tx.wait();
+    if (!receipt || receipt.status === 0) {
+      throw new Error('Transaction reverted');
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Extract claim hash from receipt
+   */
+  private extractClaimHashFromReceipt(receipt: ContractTransactionReceipt): string {
+    const module = this.getModuleContract();
+    for (const log of receipt.logs) {
+      try {
+        const parsed = module.interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed?.name === 'ClaimInitiated') {
+          return parsed.args.claimHash;
+        }
+      } catch {
+        // Not a module event
+      }
+    }
+    throw new Error('Could not extract claim hash from transaction events');
+  }
+}
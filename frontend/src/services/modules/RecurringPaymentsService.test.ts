@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RecurringPaymentsService } from './RecurringPaymentsService';
+
+// Valid test addresses (42 chars: 0x + 40 hex)
+const VALID_WALLET = '0x1234567890123456789012345678901234567890';
+const VALID_RECIPIENT = '0xabcdef0123456789abcdef0123456789abcdef01';
+const VALID_CALLER = '0x9876543210987654321098765432109876543210';
+const SCHEDULE_ID = '0x' + '44'.repeat(32);
+const LATER_SCHEDULE_ID = '0x' + '55'.repeat(32);
+const CANCELLED_SCHEDULE_ID = '0x' + '66'.repeat(32);
+
+// Mock config
+vi.mock('../../config/contracts', () => ({
+  CONTRACT_ADDRESSES: {
+    RECURRING_PAYMENTS_MODULE: '0xRecurringPayments1234567890123456789012',
+  },
+  NETWORK_CONFIG: {
+    RPC_URL: 'http://localhost:8545',
+  },
+}));
+
+// Mock ABIs
+vi.mock('../../config/abi/MultisigWallet.json', () => ({
+  default: { abi: [] },
+}));
+vi.mock('../../config/abi/RecurringPaymentsModule.json', () => ({
+  default: { abi: [] },
+}));
+
+describe('RecurringPaymentsService', () => {
+  let service: RecurringPaymentsService;
+  let mockSigner: any;
+  let mockModule: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    service = new RecurringPaymentsService();
+
+    mockSigner = {
+      getAddress: vi.fn().mockResolvedValue(VALID_CALLER),
+    };
+
+    mockModule = {
+      getScheduleIds: vi.fn().mockResolvedValue([LATER_SCHEDULE_ID, SCHEDULE_ID, CANCELLED_SCHEDULE_ID]),
+      getSchedule: vi.fn().mockImplementation(async (_wallet: string, scheduleId: string) => ({
+        recipient: VALID_RECIPIENT,
+        amount: 1000n,
+        interval: scheduleId === CANCELLED_SCHEDULE_ID ? 0n : 2592000n,
+        nextPaymentAt: scheduleId === SCHEDULE_ID ? 1000n : 5000n,
+        endsAt: 0n,
+        paymentsMade: 2n,
+      })),
+      executePayment: Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xpaymenttxhash',
+          wait: vi.fn().mockResolvedValue({ status: 1, hash: '0xpaymenttxhash' }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(100000n) }
+      ),
+      interface: {
+        parseError: vi.fn(),
+      },
+    };
+
+    vi.spyOn(service as any, 'getModuleContract').mockReturnValue(mockModule);
+  });
+
+  describe('proposeCreateSchedule', () => {
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeCreateSchedule(VALID_WALLET, VALID_RECIPIENT, 1000n, 2592000n, 0n, 0n);
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'createSchedule', [
+        VALID_WALLET,
+        VALID_RECIPIENT,
+        1000n,
+        2592000n,
+        0n,
+        0n,
+      ]);
+    });
+
+    it('should reject the vault as recipient', async () => {
+      await expect(
+        service.proposeCreateSchedule(VALID_WALLET, VALID_WALLET, 1000n, 2592000n, 0n, 0n)
+      ).rejects.toThrow('Recipient cannot be the vault itself');
+    });
+
+    it('should reject zero amounts and intervals', async () => {
+      await expect(
+        service.proposeCreateSchedule(VALID_WALLET, VALID_RECIPIENT, 0n, 2592000n, 0n, 0n)
+      ).rejects.toThrow('Amount must be greater than zero');
+      await expect(
+        service.proposeCreateSchedule(VALID_WALLET, VALID_RECIPIENT, 1000n, 0n, 0n, 0n)
+      ).rejects.toThrow('Interval must be greater than zero');
+    });
+
+    it('should reject end dates before the first payment', async () => {
+      await expect(
+        service.proposeCreateSchedule(VALID_WALLET, VALID_RECIPIENT, 1000n, 2592000n, 5000n, 4000n)
+      ).rejects.toThrow('End date must be after the first payment');
+    });
+  });
+
+  describe('getSchedules', () => {
+    it('should return active schedules with the soonest payment first', async () => {
+      const result = await service.getSchedules(VALID_WALLET);
+
+      expect(result.map((schedule) => schedule.scheduleId)).toEqual([SCHEDULE_ID, LATER_SCHEDULE_ID]);
+      expect(result[0]).toMatchObject({ recipient: VALID_RECIPIENT, amount: 1000n, paymentsMade: 2n });
+    });
+  });
+
+  describe('executePayment', () => {
+    it('should throw when signer not set', async () => {
+      await expect(service.executePayment(VALID_WALLET, SCHEDULE_ID)).rejects.toThrow('Signer not set');
+    });
+
+    it('should trigger the payment', async () => {
+      service.setSigner(mockSigner);
+
+      const result = await service.executePayment(VALID_WALLET, SCHEDULE_ID);
+
+      expect(result).toBe('0xpaymenttxhash');
+      expect(mockModule.executePayment).toHaveBeenCalledWith(VALID_WALLET, SCHEDULE_ID, expect.any(Object));
+    });
+
+    it('should surface payments that are not due before sending', async () => {
+      service.setSigner(mockSigner);
+      mockModule.executePayment.estimateGas.mockRejectedValue(new Error('PaymentNotDue()'));
+
+      await expect(service.executePayment(VALID_WALLET, SCHEDULE_ID)).rejects.toThrow('Cannot execute payment');
+      expect(mockModule.executePayment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import type { Provider } from '../../types';
+import { CONTRACT_ADDRESSES } from '../../config/contracts';
+import { BaseModuleService } from './BaseModuleService';
+import {
+  isUserRejection,
+  validateAddress,
+} from '../utils/TransactionErrorHandler';
+import {
+  estimateGasWithBuffer,
+  estimateGasOrThrow,
+  buildTxOptions,
+  GasPresets,
+} from '../utils/GasEstimator';
+import RecurringPaymentsModuleABI from '../../config/abi/RecurringPaymentsModule.json';
+
+export interface RecurringSchedule {
+  recipient: string;
+  amount: bigint;        // Wei per payment
+  interval: bigint;      // Seconds between payments
+  nextPaymentAt: bigint;
+  endsAt: bigint;        // 0 = no end date
+  paymentsMade: bigint;
+}
+
+export interface RecurringScheduleWithId extends RecurringSchedule {
+  scheduleId: string;
+}
+
+/**
+ * Service for recurring payments module operations
+ *
+ * Creating and cancelling schedules require multisig approval, so both are exposed as
+ * proposals. Once a payment is due anyone can trigger it, which is what the keeper
+ * script does; executePayment lets an owner do the same from the UI.
+ */
+export class RecurringPaymentsService extends BaseModuleService {
+
+  constructor(provider?: Provider) {
+    super(provider, CONTRACT_ADDRESSES.RECURRING_PAYMENTS_MODULE, RecurringPaymentsModuleABI);
+  }
+
+  /**
+   * Propose a recurring payment schedule (requires multisig approval)
+   * @param amount - Wei per payment
+   * @param intervalSeconds - Seconds between payments
+   * @param firstPaymentAt - Unix timestamp of the first payment (0 = as soon as approved)
+   * @param endsAt - Unix timestamp after which no payment falls due (0 = no end date)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCreateSchedule(
+    walletAddress: string,
+    recipient: string,
+    amount: bigint,
+    intervalSeconds: bigint,
+    firstPaymentAt: bigint,
+    endsAt: bigint
+  ): Promise<string> {
+    const normalizedRecipient = validateAddress(recipient);
+
+    if (normalizedRecipient.toLowerCase() === walletAddress.toLowerCase()) {
+      throw new Error('Recipient cannot be the vault itself');
+    }
+    if (amount <= 0n) {
+      throw new Error('Amount must be greater than zero');
+    }
+    if (intervalSeconds <= 0n) {
+      throw new Error('Interval must be greater than zero');
+    }
+    if (endsAt !== 0n && endsAt < firstPaymentAt) {
+      throw new Error('End date must be after the first payment');
+    }
+
+    return this.createModuleProposal(walletAddress, 'createSchedule', [
+      walletAddress,
+      normalizedRecipient,
+      amount,
+      intervalSeconds,
+      firstPaymentAt,
+      endsAt,
+    ]);
+  }
+
+  /**
+   * Propose cancelling a schedule (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCancelSchedule(walletAddress: string, scheduleId: string): Promise<string> {
+    return this.createModuleProposal(walletAddress, 'cancelSchedule', [walletAddress, scheduleId]);
+  }
+
+  /**
+   * Get schedule details (interval is 0 if the schedule does not exist)
+   */
+  async getSchedule(walletAddress: string, scheduleId: string): Promise<RecurringSchedule> {
+    const module = this.getModuleContract();
+    const schedule = await module.getSchedule(walletAddress, scheduleId);
+    return {
+      recipient: schedule.recipient,
+      amount: schedule.amount || 0n,
+      interval: schedule.interval || 0n,
+      nextPaymentAt: schedule.nextPaymentAt || 0n,
+      endsAt: schedule.endsAt || 0n,
+      paymentsMade: schedule.paymentsMade || 0n,
+    };
+  }
+
+  /**
+   * Get all active schedules, soonest payment first
+   */
+  async getSchedules(walletAddress: string): Promise<RecurringScheduleWithId[]> {
+    const module = this.getModuleContract();
+    const ids: string[] = await module.getScheduleIds(walletAddress);
+
+    const schedules: RecurringScheduleWithId[] = [];
+    for (const scheduleId of ids) {
+      try {
+        const schedule = await this.getSchedule(walletAddress, scheduleId);
+        if (schedule.interval === 0n) continue;
+        schedules.push({ scheduleId, ...schedule });
+      } catch (error) {
+        console.error(`Error fetching schedule ${scheduleId}:`, error);
+      }
+    }
+
+    return schedules.sort((a, b) => Number(a.nextPaymentAt - b.nextPaymentAt));
+  }
+
+  /**
+   * Trigger the next due payment of a schedule (anyone)
+   */
+  async executePayment(walletAddress: string, scheduleId: string): Promise<string> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    await estimateGasOrThrow(
+      module.executePayment,
+      [walletAddress, scheduleId],
+      'execute payment',
+      module
+    );
+
+    const { gasLimit } = await estimateGasWithBuffer(
+      module.executePayment,
+      [walletAddress, scheduleId],
+      GasPresets.complex
+    );
+
+    let tx;
+    try {
+      tx = await module.executePayment(walletAddress, scheduleId, buildTxOptions(gasLimit));
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt = await tx.wait();
+    if (receipt.status === 0) {
+      throw new Error('Transaction reverted. Possible causes: payment not due, insufficient balance, or module not enabled.');
+    }
+
+    return receipt.hash;
+  }
+}
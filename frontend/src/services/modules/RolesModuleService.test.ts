@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RolesModuleService, ROLE_PROPOSER, ROLE_APPROVER, ROLE_EXECUTOR } from './RolesModuleService';
+
+// Valid test addresses (42 chars: 0x + 40 hex)
+const VALID_WALLET = '0x1234567890123456789012345678901234567890';
+const VALID_ACCOUNT = '0xabcdef0123456789abcdef0123456789abcdef01';
+const VALID_TARGET = '0x1111111111111111111111111111111111111111';
+const VALID_CALLER = '0x9876543210987654321098765432109876543210';
+const TX_HASH = '0x' + '11'.repeat(32);
+
+// Mock config
+vi.mock('../../config/contracts', () => ({
+  CONTRACT_ADDRESSES: {
+    ROLES_MODULE: '0xRolesModule12345678901234567890123456789',
+  },
+  NETWORK_CONFIG: {
+    RPC_URL: 'http://localhost:8545',
+  },
+}));
+
+// Mock ABIs
+vi.mock('../../config/abi/MultisigWallet.json', () => ({
+  default: { abi: [] },
+}));
+vi.mock('../../config/abi/RolesModule.json', () => ({
+  default: { abi: [] },
+}));
+
+/** Build a mocked module method that resolves to a mined transaction */
+function mockModuleMethod(hash: string, logs: any[] = []) {
+  return Object.assign(
+    vi.fn().mockResolvedValue({
+      hash,
+      wait: vi.fn().mockResolvedValue({ status: 1, hash, logs }),
+    }),
+    { estimateGas: vi.fn().mockResolvedValue(100000n) }
+  );
+}
+
+describe('RolesModuleService', () => {
+  let service: RolesModuleService;
+  let mockSigner: any;
+  let mockModule: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    service = new RolesModuleService();
+
+    mockSigner = {
+      getAddress: vi.fn().mockResolvedValue(VALID_CALLER),
+    };
+
+    mockModule = {
+      getMembers: vi.fn().mockResolvedValue([
+        [VALID_ACCOUNT, VALID_CALLER],
+        [BigInt(ROLE_PROPOSER), BigInt(ROLE_APPROVER | ROLE_EXECUTOR)],
+      ]),
+      requiredApprovals: vi.fn().mockResolvedValue(2n),
+      getApprovalCount: vi.fn().mockResolvedValue(1n),
+      propose: mockModuleMethod('0xproposetxhash', [{ topics: [], data: '0x' }]),
+      approve: mockModuleMethod('0xapprovetxhash'),
+      revokeApproval: mockModuleMethod('0xrevoketxhash'),
+      execute: mockModuleMethod('0xexecutetxhash'),
+      cancel: mockModuleMethod('0xcanceltxhash'),
+      interface: {
+        parseError: vi.fn(),
+        parseLog: vi.fn().mockReturnValue({ name: 'RoleProposed', args: { txHash: TX_HASH } }),
+      },
+    };
+
+    vi.spyOn(service as any, 'getModuleContract').mockReturnValue(mockModule);
+  });
+
+  describe('getMembers', () => {
+    it('should pair each member with its roles', async () => {
+      const result = await service.getMembers(VALID_WALLET);
+
+      expect(result).toEqual([
+        { address: VALID_ACCOUNT, roles: ROLE_PROPOSER },
+        { address: VALID_CALLER, roles: ROLE_APPROVER | ROLE_EXECUTOR },
+      ]);
+    });
+  });
+
+  describe('getRequiredApprovals', () => {
+    it('should return the configured sign-offs', async () => {
+      expect(await service.getRequiredApprovals(VALID_WALLET)).toBe(2);
+      expect(mockModule.requiredApprovals).toHaveBeenCalledWith(VALID_WALLET);
+    });
+  });
+
+  describe('proposeSetRoles', () => {
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeSetRoles(VALID_WALLET, VALID_ACCOUNT, ROLE_PROPOSER | ROLE_EXECUTOR);
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'setRoles', [
+        VALID_WALLET,
+        VALID_ACCOUNT,
+        ROLE_PROPOSER | ROLE_EXECUTOR,
+      ]);
+    });
+
+    it('should reject unknown role bits', async () => {
+      await expect(service.proposeSetRoles(VALID_WALLET, VALID_ACCOUNT, 8)).rejects.toThrow(
+        'Invalid role selection'
+      );
+    });
+
+    it('should reject the vault itself', async () => {
+      await expect(service.proposeSetRoles(VALID_WALLET, VALID_WALLET, ROLE_PROPOSER)).rejects.toThrow(
+        'The vault itself cannot hold a role'
+      );
+    });
+  });
+
+  describe('proposeSetRequiredApprovals', () => {
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      await service.proposeSetRequiredApprovals(VALID_WALLET, 1);
+
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'setRequiredApprovals', [VALID_WALLET, 1n]);
+    });
+
+    it('should reject negative values', async () => {
+      await expect(service.proposeSetRequiredApprovals(VALID_WALLET, -1)).rejects.toThrow(
+        'Required approvals must be zero or more'
+      );
+    });
+  });
+
+  describe('role member actions', () => {
+    beforeEach(() => {
+      service.setSigner(mockSigner);
+    });
+
+    it('should throw when signer not set', async () => {
+      service.setSigner(null);
+
+      await expect(service.approve(VALID_WALLET, TX_HASH)).rejects.toThrow('Signer not set');
+    });
+
+    it('should return the wallet transaction hash of a role proposal', async () => {
+      const result = await service.propose(VALID_WALLET, VALID_TARGET, 1000n, '', '  Payout  ');
+
+      expect(result).toBe(TX_HASH);
+      expect(mockModule.propose).toHaveBeenCalledWith(
+        VALID_WALLET,
+        VALID_TARGET,
+        1000n,
+        '0x',
+        'Payout',
+        expect.any(Object)
+      );
+    });
+
+    it('should sign off on a proposal', async () => {
+      const result = await service.approve(VALID_WALLET, TX_HASH);
+
+      expect(result).toBe('0xapprovetxhash');
+      expect(mockModule.approve).toHaveBeenCalledWith(VALID_WALLET, TX_HASH, expect.any(Object));
+    });
+
+    it('should relay an execution', async () => {
+      const result = await service.execute(VALID_WALLET, TX_HASH);
+
+      expect(result).toBe('0xexecutetxhash');
+    });
+
+    it('should surface missing roles before sending', async () => {
+      mockModule.execute.estimateGas.mockRejectedValue(new Error('MissingRole(4)'));
+
+      await expect(service.execute(VALID_WALLET, TX_HASH)).rejects.toThrow('Cannot execute transaction');
+      expect(mockModule.execute).not.toHaveBeenCalled();
+    });
+
+    it('should throw on user rejection', async () => {
+      mockModule.cancel.mockRejectedValue({ code: 'ACTION_REJECTED' });
+
+      await expect(service.cancel(VALID_WALLET, TX_HASH)).rejects.toThrow('Transaction was rejected by user');
+    });
+
+    it('should throw on reverted transaction', async () => {
+      mockModule.revokeApproval.mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ status: 0 }),
+      });
+
+      await expect(service.revokeApproval(VALID_WALLET, TX_HASH)).rejects.toThrow('reverted');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import type { ContractTransactionReceipt, ContractTransactionResponse } from 'quais';
+import type { Provider } from '../../types';
+import { CONTRACT_ADDRESSES } from '../../config/contracts';
+import { BaseModuleService } from './BaseModuleService';
+import {
+  isUserRejection,
+  validateAddress,
+} from '../utils/TransactionErrorHandler';
+import {
+  estimateGasWithBuffer,
+  estimateGasOrThrow,
+  buildTxOptions,
+  GasPresets,
+} from '../utils/GasEstimator';
+import type { GasEstimateOptions } from '../utils/GasEstimator';
+import RolesModuleABI from '../../config/abi/RolesModule.json';
+
+/** Role bit allowing an account to propose transactions */
+export const ROLE_PROPOSER = 1;
+/** Role bit allowing an account to sign off on pending proposals */
+export const ROLE_APPROVER = 2;
+/** Role bit allowing an account to relay proposals that reached the owners' threshold */
+export const ROLE_EXECUTOR = 4;
+
+const ALL_ROLES = ROLE_PROPOSER | ROLE_APPROVER | ROLE_EXECUTOR;
+
+export interface RoleMember {
+  address: string;
+  roles: number;
+}
+
+/**
+ * Service for role-based permissions module operations
+ *
+ * Role assignments (setRoles, setRequiredApprovals) require multisig approval, so both
+ * are exposed as proposals. Role members act directly on the module: proposers create
+ * proposals, approvers sign off and executors relay proposals that already reached the
+ * owners' threshold.
+ */
+export class RolesModuleService extends BaseModuleService {
+
+  constructor(provider?: Provider) {
+    super(provider, CONTRACT_ADDRESSES.ROLES_MODULE, RolesModuleABI);
+  }
+
+  /**
+   * Propose granting or replacing an account's roles (requires multisig approval)
+   * @param roles - Bitmask of ROLE_PROPOSER, ROLE_APPROVER and ROLE_EXECUTOR (0 removes the account)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetRoles(walletAddress: string, account: string, roles: number): Promise<string> {
+    const normalizedAccount = validateAddress(account);
+    if (normalizedAccount.toLowerCase() === walletAddress.toLowerCase()) {
+      throw new Error('The vault itself cannot hold a role');
+    }
+    if (!Number.isInteger(roles) || roles < 0 || roles > ALL_ROLES) {
+      throw new Error('Invalid role selection');
+    }
+    return this.createModuleProposal(walletAddress, 'setRoles', [walletAddress, normalizedAccount, roles]);
+  }
+
+  /**
+   * Propose how many approver sign-offs executors need (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetRequiredApprovals(walletAddress: string, required: number): Promise<string> {
+    if (!Number.isInteger(required) || required < 0) {
+      throw new Error('Required approvals must be zero or more');
+    }
+    return this.createModuleProposal(walletAddress, 'setRequiredApprovals', [walletAddress, BigInt(required)]);
+  }
+
+  /**
+   * Get every account holding a role on the wallet
+   */
+  async getMembers(walletAddress: string): Promise<RoleMember[]> {
+    const module = this.getModuleContract();
+    const [accounts, roles] = await module.getMembers(walletAddress);
+    return Array.from(accounts as string[]).map((address, index) => ({
+      address,
+      roles: Number(roles[index]),
+    }));
+  }
+
+  /**
+   * Get the approver sign-offs executors need before relaying (0 if not set)
+   */
+  async getRequiredApprovals(walletAddress: string): Promise<number> {
+    const module = this.getModuleContract();
+    return Number(await module.requiredApprovals(walletAddress));
+  }
+
+  /**
+   * Get sign-offs on a proposal from accounts that currently hold the approver role
+   */
+  async getApprovalCount(walletAddress: string, txHash: string): Promise<number> {
+    const module = this.getModuleContract();
+    return Number(await module.getApprovalCount(walletAddress, txHash));
+  }
+
+  /**
+   * Propose a transaction as a proposer role member
+   * @returns Wallet transaction hash of the new proposal
+   */
+  async propose(
+    walletAddress: string,
+    to: string,
+    value: bigint,
+    data: string,
+    memo = ''
+  ): Promise<string> {
+    const normalizedTo = validateAddress(to);
+    const receipt = await this.sendRoleTransaction(
+      'propose',
+      [walletAddress, normalizedTo, value, data || '0x', memo.trim()],
+      'propose transaction',
+      GasPresets.standard
+    );
+
+    const module = this.getModuleContract();
+    for (const log of receipt.logs) {
+      try {
+        const parsed = module.interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed?.name === 'RoleProposed') {
+          return parsed.args.txHash;
+        }
+      } catch {
+        // Not a module event
+      }
+    }
+    throw new Error('Proposal created but its transaction hash was not found in the receipt');
+  }
+
+  /**
+   * Sign off on a pending proposal (approver role)
+   */
+  async approve(walletAddress: string, txHash: string): Promise<string> {
+    const receipt = await this.sendRoleTransaction('approve', [walletAddress, txHash], 'approve', GasPresets.simple);
+    return receipt.hash;
+  }
+
+  /**
+   * Withdraw a sign-off (approver role)
+   */
+  async revokeApproval(walletAddress: string, txHash: string): Promise<string> {
+    const receipt = await this.sendRoleTransaction('revokeApproval', [walletAddress, txHash], 'revoke approval', GasPresets.simple);
+    return receipt.hash;
+  }
+
+  /**
+   * Relay a proposal that reached the owners' threshold (executor role)
+   */
+  async execute(walletAddress: string, txHash: string): Promise<string> {
+    const receipt = await this.sendRoleTransaction('execute', [walletAddress, txHash], 'execute transaction', GasPresets.complex);
+    return receipt.hash;
+  }
+
+  /**
+   * Cancel a proposal this account created through the module (proposer role)
+   */
+  async cancel(walletAddress: string, txHash: string): Promise<string> {
+    const receipt = await this.sendRoleTransaction('cancel', [walletAddress, txHash], 'cancel transaction', GasPresets.standard);
+    return receipt.hash;
+  }
+
+  /**
+   * Send a role member call to the module and wait for it to be mined
+   */
+  private async sendRoleTransaction(
+    method: string,
+    args: unknown[],
+    operationName: string,
+    preset: GasEstimateOptions
+  ): Promise<ContractTransactionReceipt> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    await estimateGasOrThrow(module[method], args, operationName, module);
+
+    const { gasLimit } = await estimateGasWithBuffer(module[method], args, preset);
+
+    let tx: ContractTransactionResponse;
+    try {
+      tx = await module[method](...args, buildTxOptions(gasLimit));
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt: ContractTransactionReceipt | null = await tx.wait();
+    if (!receipt || receipt.status === 0) {
+      throw new Error('Transaction reverted');
+    }
+
+    return receipt;
+  }
+}
@@ -95,6 +95,14 @@ describe('SocialRecoveryModuleService', () => {
         }),
         { estimateGas: vi.fn().mockResolvedValue(80000n) }
       ),
+      getGuardianRotation: vi.fn().mockResolvedValue({ guardians: [], threshold: 0n, executionTime: 0n }),
+      executeGuardianRotation: Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xrotatetxhash',
+          wait: vi.fn().mockResolvedValue({ status: 1 }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(120000n) }
+      ),
       filters: {
         RecoveryInitiated: vi.fn().mockReturnValue({}),
       },
@@ -190,6 +198,66 @@ describe('SocialRecoveryModuleService', () => {
     });
   });
 
+  describe('proposeVetoRecovery', () => {
+    it('should propose the veto through the wallet', async () => {
+      const proposeSpy = vi.spyOn(service as any, 'createModuleProposal').mockResolvedValue('0xproposal');
+
+      const result = await service.proposeVetoRecovery(VALID_WALLET, '0xrecoveryhash');
+
+      expect(result).toBe('0xproposal');
+      expect(proposeSpy).toHaveBeenCalledWith(VALID_WALLET, 'vetoRecovery', [VALID_WALLET, '0xrecoveryhash']);
+    });
+  });
+
+  describe('guardian rotation', () => {
+    it('should propose a rotation with normalized guardians', async () => {
+      const proposeSpy = vi.spyOn(service as any, 'createModuleProposal').mockResolvedValue('0xproposal');
+
+      await service.proposeGuardianRotation(VALID_WALLET, [VALID_GUARDIAN_1, VALID_GUARDIAN_2], 2);
+
+      expect(proposeSpy).toHaveBeenCalledWith(VALID_WALLET, 'proposeGuardianRotation', [
+        VALID_WALLET,
+        [VALID_GUARDIAN_1, VALID_GUARDIAN_2],
+        2,
+      ]);
+    });
+
+    it('should reject duplicate guardians and invalid thresholds', async () => {
+      await expect(
+        service.proposeGuardianRotation(VALID_WALLET, [VALID_GUARDIAN_1, VALID_GUARDIAN_1], 1)
+      ).rejects.toThrow('Duplicate guardian addresses are not allowed');
+      await expect(
+        service.proposeGuardianRotation(VALID_WALLET, [VALID_GUARDIAN_1], 2)
+      ).rejects.toThrow('Invalid threshold');
+    });
+
+    it('should return null when no rotation is pending', async () => {
+      expect(await service.getGuardianRotation(VALID_WALLET)).toBeNull();
+    });
+
+    it('should return the pending rotation', async () => {
+      mockModule.getGuardianRotation.mockResolvedValue({
+        guardians: [VALID_GUARDIAN_2],
+        threshold: 1n,
+        executionTime: 1234567890n,
+      });
+
+      expect(await service.getGuardianRotation(VALID_WALLET)).toEqual({
+        guardians: [VALID_GUARDIAN_2],
+        threshold: 1n,
+        executionTime: 1234567890n,
+      });
+    });
+
+    it('should execute a rotation', async () => {
+      service.setSigner(mockSigner);
+
+      await service.executeGuardianRotation(VALID_WALLET);
+
+      expect(mockModule.executeGuardianRotation).toHaveBeenCalledWith(VALID_WALLET, expect.any(Object));
+    });
+  });
+
   describe('getRecovery', () => {
     it('should return recovery details', async () => {
       mockModule.getRecovery.mockResolvedValue({
@@ -197,6 +265,7 @@ describe('SocialRecoveryModuleService', () => {
         newThreshold: 2n,
         approvalCount: 1n,
         executionTime: 1234567890n,
+        requiredThreshold: 2n,
         executed: false,
       });
 
@@ -207,6 +276,7 @@ describe('SocialRecoveryModuleService', () => {
         newThreshold: 2n,
         approvalCount: 1n,
         executionTime: 1234567890n,
+        requiredThreshold: 2n,
         executed: false,
       });
     });
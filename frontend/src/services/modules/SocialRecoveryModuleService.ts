@@ -26,9 +26,16 @@ export interface Recovery {
   newThreshold: bigint;
   approvalCount: bigint;
   executionTime: bigint;
+  requiredThreshold: bigint; // Guardian approvals needed, fixed at initiation
   executed: boolean;
 }
 
+export interface GuardianRotation {
+  guardians: string[];
+  threshold: bigint;
+  executionTime: bigint; // Rotation can be executed from this timestamp
+}
+
 export interface PendingRecovery extends Recovery {
   recoveryHash: string;
 }
@@ -39,6 +46,10 @@ export interface PendingRecovery extends Recovery {
  * IMPORTANT (H-2 Security Fix): The setupRecovery function now requires multisig approval.
  * Use proposeSetupRecovery() to create a multisig proposal. Guardian operations
  * (initiateRecovery, approveRecovery, etc.) still work directly.
+ *
+ * Owner vetoes and guardian rotations are wallet decisions as well: use proposeVetoRecovery(),
+ * proposeGuardianRotation() and proposeCancelGuardianRotation(). Once a rotation's delay has
+ * passed anyone can apply it with executeGuardianRotation().
  */
 export class SocialRecoveryModuleService extends BaseModuleService {
 
@@ -101,6 +112,96 @@ export class SocialRecoveryModuleService extends BaseModuleService {
     this.throwDeprecationError('setupRecovery', 'proposeSetupRecovery');
   }
 
+  /**
+   * Propose vetoing a recovery with the wallet's own threshold (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeVetoRecovery(walletAddress: string, recoveryHash: string): Promise<string> {
+    return this.createModuleProposal(walletAddress, 'vetoRecovery', [walletAddress, recoveryHash]);
+  }
+
+  /**
+   * Propose replacing the guardians after the module's rotation delay (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeGuardianRotation(walletAddress: string, guardians: string[], threshold: number): Promise<string> {
+    const normalizedGuardians = guardians.map(addr => validateAddress(addr));
+
+    if (new Set(normalizedGuardians.map(addr => addr.toLowerCase())).size !== normalizedGuardians.length) {
+      throw new Error('Duplicate guardian addresses are not allowed');
+    }
+    if (threshold < 1 || threshold > normalizedGuardians.length) {
+      throw new Error(`Invalid threshold: must be between 1 and ${normalizedGuardians.length}`);
+    }
+
+    return this.createModuleProposal(walletAddress, 'proposeGuardianRotation', [
+      walletAddress,
+      normalizedGuardians,
+      threshold
+    ]);
+  }
+
+  /**
+   * Propose cancelling a pending guardian rotation (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCancelGuardianRotation(walletAddress: string): Promise<string> {
+    return this.createModuleProposal(walletAddress, 'cancelGuardianRotation', [walletAddress]);
+  }
+
+  /**
+   * Get the pending guardian rotation
+   * @returns null when no rotation is pending
+   */
+  async getGuardianRotation(walletAddress: string): Promise<GuardianRotation | null> {
+    const module = this.getModuleContract();
+    const rotation = await module.getGuardianRotation(walletAddress);
+    if (!rotation.executionTime) {
+      return null;
+    }
+    return {
+      guardians: Array.from(rotation.guardians as string[]),
+      threshold: rotation.threshold,
+      executionTime: rotation.executionTime,
+    };
+  }
+
+  /**
+   * Apply a pending guardian rotation once its delay has passed (anyone)
+   */
+  async executeGuardianRotation(walletAddress: string): Promise<void> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    await estimateGasOrThrow(
+      module.executeGuardianRotation,
+      [walletAddress],
+      'execute guardian rotation',
+      module
+    );
+
+    const { gasLimit } = await estimateGasWithBuffer(
+      module.executeGuardianRotation,
+      [walletAddress],
+      GasPresets.complex
+    );
+
+    let tx;
+    try {
+      tx = await module.executeGuardianRotation(walletAddress, buildTxOptions(gasLimit));
+    } catch (error: any) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt = await tx.wait();
+    if (receipt.status === 0) {
+      throw new Error('Transaction reverted');
+    }
+  }
+
   /**
    * Check if an address is a guardian for a wallet
    */
@@ -170,6 +271,7 @@ export class SocialRecoveryModuleService extends BaseModuleService {
       newThreshold: recovery.newThreshold || 0n,
       approvalCount: recovery.approvalCount || 0n,
       executionTime: recovery.executionTime || 0n,
+      requiredThreshold: recovery.requiredThreshold || 0n,
       executed: recovery.executed || false,
     };
   }
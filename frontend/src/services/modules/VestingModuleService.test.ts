@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as quais from 'quais';
+import { VestingModuleService } from './VestingModuleService';
+
+// Valid test addresses (42 chars: 0x + 40 hex)
+const VALID_WALLET = '0x1234567890123456789012345678901234567890';
+const VALID_BENEFICIARY = '0xabcdef0123456789abcdef0123456789abcdef01';
+const VALID_CALLER = '0x9876543210987654321098765432109876543210';
+const GRANT_ID = '0x' + '44'.repeat(32);
+const LATER_GRANT_ID = '0x' + '55'.repeat(32);
+const REMOVED_GRANT_ID = '0x' + '66'.repeat(32);
+
+// Mock config
+vi.mock('../../config/contracts', () => ({
+  CONTRACT_ADDRESSES: {
+    VESTING_MODULE: '0xVesting12345678901234567890123456789012',
+  },
+  NETWORK_CONFIG: {
+    RPC_URL: 'http://localhost:8545',
+  },
+}));
+
+// Mock ABIs
+vi.mock('../../config/abi/MultisigWallet.json', () => ({
+  default: { abi: [] },
+}));
+vi.mock('../../config/abi/VestingModule.json', () => ({
+  default: { abi: [] },
+}));
+
+describe('VestingModuleService', () => {
+  let service: VestingModuleService;
+  let mockSigner: any;
+  let mockModule: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    service = new VestingModuleService();
+
+    mockSigner = {
+      getAddress: vi.fn().mockResolvedValue(VALID_CALLER),
+    };
+
+    mockModule = {
+      getGrantIds: vi.fn().mockResolvedValue([LATER_GRANT_ID, GRANT_ID, REMOVED_GRANT_ID]),
+      getGrant: vi.fn().mockImplementation(async (_wallet: string, grantId: string) => ({
+        beneficiary: grantId === REMOVED_GRANT_ID ? quais.ZeroAddress : VALID_BENEFICIARY,
+        token: quais.ZeroAddress,
+        totalAmount: 4000n,
+        claimed: 1000n,
+        start: grantId === GRANT_ID ? 1000n : 5000n,
+        cliffDuration: 0n,
+        duration: 31536000n,
+        revoked: false,
+      })),
+      getVestedAmount: vi.fn().mockResolvedValue(2000n),
+      getClaimableAmount: vi.fn().mockResolvedValue(1000n),
+      claim: Object.assign(
+        vi.fn().mockResolvedValue({
+          hash: '0xclaimtxhash',
+          wait: vi.fn().mockResolvedValue({ status: 1, hash: '0xclaimtxhash' }),
+        }),
+        { estimateGas: vi.fn().mockResolvedValue(100000n) }
+      ),
+      interface: {
+        parseError: vi.fn(),
+      },
+    };
+
+    vi.spyOn(service as any, 'getModuleContract').mockReturnValue(mockModule);
+  });
+
+  describe('proposeCreateVesting', () => {
+    it('should create a multisig proposal', async () => {
+      const proposalSpy = vi
+        .spyOn(service as any, 'createModuleProposal')
+        .mockResolvedValue('0xproposalhash' as never);
+
+      const result = await service.proposeCreateVesting(
+        VALID_WALLET, VALID_BENEFICIARY, quais.ZeroAddress, 4000n, 0n, 100n, 1000n
+      );
+
+      expect(result).toBe('0xproposalhash');
+      expect(proposalSpy).toHaveBeenCalledWith(VALID_WALLET, 'createVesting', [
+        VALID_WALLET,
+        VALID_BENEFICIARY,
+        quais.ZeroAddress,
+        4000n,
+        0n,
+        100n,
+        1000n,
+      ]);
+    });
+
+    it('should reject the vault as beneficiary', async () => {
+      await expect(
+        service.proposeCreateVesting(VALID_WALLET, VALID_WALLET, quais.ZeroAddress, 4000n, 0n, 0n, 1000n)
+      ).rejects.toThrow('Beneficiary cannot be the vault itself');
+    });
+
+    it('should reject a cliff longer than the duration', async () => {
+      await expect(
+        service.proposeCreateVesting(VALID_WALLET, VALID_BENEFICIARY, quais.ZeroAddress, 4000n, 0n, 2000n, 1000n)
+      ).rejects.toThrow('Cliff cannot be longer than the vesting duration');
+    });
+  });
+
+  describe('getGrants', () => {
+    it('should return active grants with vested amounts, earliest first', async () => {
+      const result = await service.getGrants(VALID_WALLET);
+
+      expect(result.map((grant) => grant.grantId)).toEqual([GRANT_ID, LATER_GRANT_ID]);
+      expect(result[0]).toMatchObject({
+        beneficiary: VALID_BENEFICIARY,
+        vested: 2000n,
+        claimable: 1000n,
+        symbol: 'QUAI',
+        decimals: 18,
+      });
+    });
+  });
+
+  describe('claim', () => {
+    it('should throw when signer not set', async () => {
+      await expect(service.claim(VALID_WALLET, GRANT_ID)).rejects.toThrow('Signer not set');
+    });
+
+    it('should claim the vested amount', async () => {
+      service.setSigner(mockSigner);
+
+      const result = await service.claim(VALID_WALLET, GRANT_ID);
+
+      expect(result).toBe('0xclaimtxhash');
+      expect(mockModule.claim).toHaveBeenCalledWith(VALID_WALLET, GRANT_ID, expect.any(Object));
+    });
+
+    it('should surface claims that would revert before sending', async () => {
+      service.setSigner(mockSigner);
+      mockModule.claim.estimateGas.mockRejectedValue(new Error('NothingToClaim()'));
+
+      await expect(service.claim(VALID_WALLET, GRANT_ID)).rejects.toThrow('Cannot claim vested amount');
+      expect(mockModule.claim).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import * as quais from 'quais';
+import type { Provider } from '../../types';
+import { CONTRACT_ADDRESSES } from '../../config/contracts';
+import { BaseModuleService } from './BaseModuleService';
+import {
+  isUserRejection,
+  validateAddress,
+} from '../utils/TransactionErrorHandler';
+import {
+  estimateGasWithBuffer,
+  estimateGasOrThrow,
+  buildTxOptions,
+  GasPresets,
+} from '../utils/GasEstimator';
+import VestingModuleABI from '../../config/abi/VestingModule.json';
+
+/** Minimal ERC-20 ABI for displaying grant amounts */
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+];
+
+export interface VestingGrant {
+  beneficiary: string;
+  token: string;          // ZeroAddress = native QUAI
+  totalAmount: bigint;    // Reduced to the vested amount on revocation
+  claimed: bigint;
+  start: bigint;
+  cliffDuration: bigint;  // Seconds after start
+  duration: bigint;       // Seconds after start
+  revoked: boolean;
+}
+
+export interface VestingGrantWithId extends VestingGrant {
+  grantId: string;
+  vested: bigint;
+  claimable: bigint;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Service for vesting module operations
+ *
+ * Creating and revoking grants require multisig approval, so both are exposed as
+ * proposals. Claims are sent directly by the grant's beneficiary.
+ */
+export class VestingModuleService extends BaseModuleService {
+
+  constructor(provider?: Provider) {
+    super(provider, CONTRACT_ADDRESSES.VESTING_MODULE, VestingModuleABI);
+  }
+
+  /**
+   * Propose a vesting grant funded from the vault (requires multisig approval)
+   * @param token - ERC-20 token address (ZeroAddress = native QUAI)
+   * @param amount - Total amount in wei or token units
+   * @param start - Unix timestamp vesting starts from (0 = when the proposal executes)
+   * @param cliffDuration - Seconds after start before anything can be claimed
+   * @param duration - Seconds after start until everything has vested
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeCreateVesting(
+    walletAddress: string,
+    beneficiary: string,
+    token: string,
+    amount: bigint,
+    start: bigint,
+    cliffDuration: bigint,
+    duration: bigint
+  ): Promise<string> {
+    const normalizedBeneficiary = validateAddress(beneficiary);
+    const normalizedToken = token === quais.ZeroAddress ? token : validateAddress(token);
+
+    if (normalizedBeneficiary.toLowerCase() === walletAddress.toLowerCase()) {
+      throw new Error('Beneficiary cannot be the vault itself');
+    }
+    if (amount <= 0n) {
+      throw new Error('Amount must be greater than zero');
+    }
+    if (duration <= 0n) {
+      throw new Error('Vesting duration must be greater than zero');
+    }
+    if (cliffDuration < 0n || cliffDuration > duration) {
+      throw new Error('Cliff cannot be longer than the vesting duration');
+    }
+
+    return this.createModuleProposal(walletAddress, 'createVesting', [
+      walletAddress,
+      normalizedBeneficiary,
+      normalizedToken,
+      amount,
+      start,
+      cliffDuration,
+      duration,
+    ]);
+  }
+
+  /**
+   * Propose revoking the unvested remainder of a grant (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeRevokeVesting(walletAddress: string, grantId: string): Promise<string> {
+    return this.createModuleProposal(walletAddress, 'revokeVesting', [walletAddress, grantId]);
+  }
+
+  /**
+   * Get grant details (beneficiary is ZeroAddress if the grant does not exist)
+   */
+  async getGrant(walletAddress: string, grantId: string): Promise<VestingGrant> {
+    const module = this.getModuleContract();
+    const grant = await module.getGrant(walletAddress, grantId);
+    return {
+      beneficiary: grant.beneficiary,
+      token: grant.token,
+      totalAmount: grant.totalAmount || 0n,
+      claimed: grant.claimed || 0n,
+      start: grant.start || 0n,
+      cliffDuration: grant.cliffDuration || 0n,
+      duration: grant.duration || 0n,
+      revoked: grant.revoked,
+    };
+  }
+
+  /**
+   * Get all active grants with their vested and claimable amounts, earliest start first
+   */
+  async getGrants(walletAddress: string): Promise<VestingGrantWithId[]> {
+    const module = this.getModuleContract();
+    const ids: string[] = await module.getGrantIds(walletAddress);
+
+    const grants: VestingGrantWithId[] = [];
+    for (const grantId of ids) {
+      try {
+        const grant = await this.getGrant(walletAddress, grantId);
+        if (grant.beneficiary === quais.ZeroAddress) continue;
+
+        const [vested, claimable, metadata] = await Promise.all([
+          module.getVestedAmount(walletAddress, grantId),
+          module.getClaimableAmount(walletAddress, grantId),
+          this.getTokenMetadata(grant.token),
+        ]);
+        grants.push({ grantId, ...grant, vested, claimable, ...metadata });
+      } catch (error) {
+        console.error(`Error fetching grant ${grantId}:`, error);
+      }
+    }
+
+    return grants.sort((a, b) => Number(a.start - b.start));
+  }
+
+  /**
+   * Claim everything that has vested (beneficiary only)
+   */
+  async claim(walletAddress: string, grantId: string): Promise<string> {
+    const signer = this.requireSigner();
+    const module = this.getModuleContract(signer);
+
+    await estimateGasOrThrow(
+      module.claim,
+      [walletAddress, grantId],
+      'claim vested amount',
+      module
+    );
+
+    const { gasLimit } = await estimateGasWithBuffer(
+      module.claim,
+      [walletAddress, grantId],
+      GasPresets.complex
+    );
+
+    let tx;
+    try {
+      tx = await module.claim(walletAddress, grantId, buildTxOptions(gasLimit));
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error('Transaction was rejected by user');
+      }
+      throw error;
+    }
+
+    const receipt = await tx.wait();
+    if (receipt.status === 0) {
+      throw new Error('Transaction reverted. Possible causes: nothing vested yet, insufficient vault balance, or module not enabled.');
+    }
+
+    return receipt.hash;
+  }
+
+  /**
+   * Get symbol and decimals for a grant's token (QUAI for ZeroAddress)
+   */
+  async getTokenMetadata(token: string): Promise<{ symbol: string; decimals: number }> {
+    if (token === quais.ZeroAddress) {
+      return { symbol: 'QUAI', decimals: 18 };
+    }
+    const contract = new quais.Contract(token, ERC20_ABI, this.provider);
+    const [symbol, decimals] = await Promise.all([
+      contract.symbol().catch(() => 'TOKEN'),
+      contract.decimals().catch(() => 18n),
+    ]);
+    return { symbol: String(symbol), decimals: Number(decimals) };
+  }
+}
@@ -42,6 +42,12 @@ describe('WhitelistModuleService', () => {
     mockModule = {
       isWhitelisted: vi.fn().mockResolvedValue(false),
       getWhitelistLimit: vi.fn().mockResolvedValue(0n),
+      isCallAllowed: vi.fn().mockResolvedValue(true),
+      getWhitelistedAddresses: vi.fn().mockResolvedValue([]),
+      getPeriodLimit: vi.fn().mockResolvedValue([0n, 0n, 0n, 0n]),
+      selectorRestricted: vi.fn().mockResolvedValue(false),
+      getAllowedSelectors: vi.fn().mockResolvedValue([]),
+      getSelectorConstraints: vi.fn().mockResolvedValue([]),
       addToWhitelist: Object.assign(
         vi.fn().mockResolvedValue({
           hash: '0xaddtxhash',
@@ -143,6 +149,55 @@ describe('WhitelistModuleService', () => {
     });
   });
 
+  describe('proposeSetAllowedSelector', () => {
+    it('should propose the selector with encoded constraints', async () => {
+      const proposeSpy = vi.spyOn(service as any, 'createModuleProposal').mockResolvedValue('0xproposal');
+      const value = '0x' + '0'.repeat(64);
+
+      const result = await service.proposeSetAllowedSelector(VALID_WALLET, VALID_TARGET, '0xa9059cbb', [
+        { index: 0, condition: 1, value },
+      ]);
+
+      expect(result).toBe('0xproposal');
+      expect(proposeSpy).toHaveBeenCalledWith(VALID_WALLET, 'setAllowedSelector', [
+        VALID_WALLET,
+        VALID_TARGET,
+        '0xa9059cbb',
+        [[0, 1, value]],
+      ]);
+    });
+
+    it('should reject invalid selectors', async () => {
+      await expect(
+        service.proposeSetAllowedSelector(VALID_WALLET, VALID_TARGET, '0xa9059c', [])
+      ).rejects.toThrow('Selector must be a 4-byte hex value');
+    });
+
+    it('should reject out-of-range parameter indexes', async () => {
+      await expect(
+        service.proposeSetAllowedSelector(VALID_WALLET, VALID_TARGET, '0xa9059cbb', [
+          { index: 256, condition: 0, value: '0x' + '0'.repeat(64) },
+        ])
+      ).rejects.toThrow('Constraint parameter index must be between 0 and 255');
+    });
+  });
+
+  describe('getFunctionPermissions', () => {
+    it('should return allowed selectors with their constraints', async () => {
+      const value = '0x' + '0'.repeat(63) + '1';
+      mockModule.selectorRestricted.mockResolvedValue(true);
+      mockModule.getAllowedSelectors.mockResolvedValue(['0xa9059cbb']);
+      mockModule.getSelectorConstraints.mockResolvedValue([{ index: 1n, condition: 2n, value }]);
+
+      const result = await service.getFunctionPermissions(VALID_WALLET, VALID_TARGET);
+
+      expect(result).toEqual({
+        restricted: true,
+        functions: [{ selector: '0xa9059cbb', constraints: [{ index: 1, condition: 2, value }] }],
+      });
+    });
+  });
+
   describe('executeToWhitelist', () => {
     beforeEach(() => {
       service.setSigner(mockSigner);
@@ -174,6 +229,22 @@ describe('WhitelistModuleService', () => {
       ).rejects.toThrow('exceeds whitelist limit');
     });
 
+    it('should throw when value exceeds remaining period limit', async () => {
+      mockModule.getPeriodLimit.mockResolvedValue([1000n, 86400n, 800n, 3600n]);
+
+      await expect(
+        service.executeToWhitelist(VALID_WALLET, VALID_TARGET, 300n, '0x')
+      ).rejects.toThrow('exceeds remaining period limit 200');
+    });
+
+    it('should throw when call is not allowed by function permissions', async () => {
+      mockModule.isCallAllowed.mockResolvedValue(false);
+
+      await expect(
+        service.executeToWhitelist(VALID_WALLET, VALID_TARGET, 0n, '0xa9059cbb')
+      ).rejects.toThrow('not allowed by its function permissions');
+    });
+
     it('should throw when insufficient balance', async () => {
       (service.getProvider() as any).getBalance.mockResolvedValue(100n);
 
@@ -267,6 +338,37 @@ describe('WhitelistModuleService', () => {
       expect(result.reason).toContain('exceeds whitelist limit');
     });
 
+    it('should return canExecute false when value exceeds remaining period limit', async () => {
+      mockModule.isWhitelisted.mockResolvedValue(true);
+      mockModule.getPeriodLimit.mockResolvedValue([1000n, 86400n, 800n, 3600n]);
+
+      const result = await service.canExecuteViaWhitelist(
+        VALID_WALLET,
+        VALID_TARGET,
+        300n
+      );
+
+      expect(result.canExecute).toBe(false);
+      expect(result.reason).toContain('exceeds remaining period limit');
+    });
+
+    it('should return canExecute false when function not allowed', async () => {
+      mockModule.isWhitelisted.mockResolvedValue(true);
+      mockModule.getWhitelistLimit.mockResolvedValue(0n);
+      mockModule.isCallAllowed.mockResolvedValue(false);
+
+      const result = await service.canExecuteViaWhitelist(
+        VALID_WALLET,
+        VALID_TARGET,
+        0n,
+        '0xa9059cbb'
+      );
+
+      expect(result.canExecute).toBe(false);
+      expect(result.reason).toBe('Function or parameters not allowed for this address');
+      expect(mockModule.isCallAllowed).toHaveBeenCalledWith(VALID_WALLET, VALID_TARGET, '0xa9059cbb');
+    });
+
     it('should return canExecute false when insufficient balance', async () => {
       mockModule.isWhitelisted.mockResolvedValue(true);
       mockModule.getWhitelistLimit.mockResolvedValue(0n);
@@ -283,44 +385,66 @@ describe('WhitelistModuleService', () => {
     });
   });
 
-  describe('getWhitelistedAddresses', () => {
-    it('should return empty array when no events', async () => {
-      mockModule.queryFilter.mockResolvedValue([]);
+  describe('proposeSetPeriodLimit', () => {
+    it('should propose the limit and period', async () => {
+      const proposeSpy = vi.spyOn(service as any, 'createModuleProposal').mockResolvedValue('0xproposal');
 
-      const result = await service.getWhitelistedAddresses(VALID_WALLET);
+      await service.proposeSetPeriodLimit(VALID_WALLET, VALID_TARGET, 1000n, 30 * 24 * 60 * 60);
 
-      expect(result).toEqual([]);
+      expect(proposeSpy).toHaveBeenCalledWith(VALID_WALLET, 'setPeriodLimit', [
+        VALID_WALLET,
+        VALID_TARGET,
+        1000n,
+        BigInt(30 * 24 * 60 * 60),
+      ]);
     });
 
-    it('should return whitelisted addresses with limits', async () => {
-      mockModule.queryFilter
-        .mockResolvedValueOnce([
-          { args: { addr: VALID_TARGET, limit: 1000n }, blockNumber: 100 },
-        ])
-        .mockResolvedValueOnce([]); // removal events
-      mockModule.isWhitelisted.mockResolvedValue(true);
-      mockModule.getWhitelistLimit.mockResolvedValue(1000n);
+    it('should reject periods outside the module bounds', async () => {
+      await expect(
+        service.proposeSetPeriodLimit(VALID_WALLET, VALID_TARGET, 1000n, 60)
+      ).rejects.toThrow('Limit period must be between 1 hour and 365 days');
+    });
+  });
+
+  describe('getPeriodLimit', () => {
+    it('should return null when no cumulative limit is set', async () => {
+      expect(await service.getPeriodLimit(VALID_WALLET, VALID_TARGET)).toBeNull();
+    });
+
+    it('should return the limit and current spending', async () => {
+      mockModule.getPeriodLimit.mockResolvedValue([1000n, 86400n, 250n, 3600n]);
 
+      expect(await service.getPeriodLimit(VALID_WALLET, VALID_TARGET)).toEqual({
+        limit: 1000n,
+        period: 86400,
+        spent: 250n,
+        timeUntilReset: 3600,
+      });
+    });
+  });
+
+  describe('getWhitelistedAddresses', () => {
+    it('should return empty array when nothing is whitelisted', async () => {
       const result = await service.getWhitelistedAddresses(VALID_WALLET);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].address).toBe(VALID_TARGET.toLowerCase());
-      expect(result[0].limit).toBe(1000n);
+      expect(result).toEqual([]);
     });
 
-    it('should filter out removed addresses', async () => {
-      mockModule.queryFilter
-        .mockResolvedValueOnce([
-          { args: { addr: VALID_TARGET, limit: 1000n }, blockNumber: 100 },
-        ])
-        .mockResolvedValueOnce([
-          { args: { addr: VALID_TARGET }, blockNumber: 200 }, // removed later
-        ]);
-      mockModule.isWhitelisted.mockResolvedValue(false);
+    it('should return whitelisted addresses with limits', async () => {
+      mockModule.getWhitelistedAddresses.mockResolvedValue([VALID_TARGET]);
+      mockModule.getWhitelistLimit.mockResolvedValue(1000n);
+      mockModule.getPeriodLimit.mockResolvedValue([5000n, 86400n, 0n, 86400n]);
 
       const result = await service.getWhitelistedAddresses(VALID_WALLET);
 
-      expect(result).toHaveLength(0);
+      expect(result).toEqual([
+        {
+          address: VALID_TARGET,
+          limit: 1000n,
+          periodLimit: { limit: 5000n, period: 86400, spent: 0n, timeUntilReset: 86400 },
+        },
+      ]);
+      expect(mockModule.queryFilter).not.toHaveBeenCalled();
     });
   });
 });
@@ -15,6 +15,37 @@ import {
   logGasUsage,
 } from '../utils/GasEstimator';
 import WhitelistModuleABI from '../../config/abi/WhitelistModule.json';
+import type { ParamConstraint, ParamConditionValue } from '../../utils/functionPermissions';
+
+/** Mirrors WhitelistModule.MAX_CONSTRAINTS */
+const MAX_CONSTRAINTS = 8;
+
+/** Bounds enforced by WhitelistModule.setPeriodLimit (seconds) */
+export const MIN_RECIPIENT_LIMIT_PERIOD = 60 * 60;
+export const MAX_RECIPIENT_LIMIT_PERIOD = 365 * 24 * 60 * 60;
+
+export interface RecipientPeriodLimit {
+  limit: bigint;          // Maximum value per period
+  period: number;         // Seconds
+  spent: bigint;          // Value sent in the current period
+  timeUntilReset: number; // Seconds until the current period ends
+}
+
+export interface WhitelistEntry {
+  address: string;
+  limit: bigint;                             // Per-transaction limit (0 = unlimited)
+  periodLimit: RecipientPeriodLimit | null;  // Cumulative limit, if set
+}
+
+export interface AllowedFunction {
+  selector: string;
+  constraints: ParamConstraint[];
+}
+
+export interface FunctionPermissions {
+  restricted: boolean;          // false = any function may be called
+  functions: AllowedFunction[];
+}
 
 /**
  * Service for whitelist module operations
@@ -23,6 +54,9 @@ import WhitelistModuleABI from '../../config/abi/WhitelistModule.json';
  * batchAddToWhitelist) now require multisig approval. Use proposeAddToWhitelist(),
  * proposeRemoveFromWhitelist(), etc. to create multisig proposals. Execution functions
  * (executeToWhitelist) still work with single owner.
+ *
+ * Whitelisted addresses can be scoped to allowed function selectors with parameter
+ * constraints (see utils/functionPermissions for building them from an ABI).
  */
 export class WhitelistModuleService extends BaseModuleService {
 
@@ -65,6 +99,70 @@ export class WhitelistModuleService extends BaseModuleService {
     return this.createModuleProposal(walletAddress, 'batchAddToWhitelist', [walletAddress, normalizedAddresses, limits]);
   }
 
+  /**
+   * Propose a cumulative limit on value sent to a whitelisted address per period (requires multisig approval)
+   * @param limit - Maximum value per period in wei (0 removes the cumulative limit)
+   * @param period - Period length in seconds
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetPeriodLimit(walletAddress: string, address: string, limit: bigint, period: number): Promise<string> {
+    const normalizedAddress = validateAddress(address);
+    if (limit < 0n) {
+      throw new Error('Period limit cannot be negative');
+    }
+    if (limit > 0n && (!Number.isInteger(period) || period < MIN_RECIPIENT_LIMIT_PERIOD || period > MAX_RECIPIENT_LIMIT_PERIOD)) {
+      throw new Error('Limit period must be between 1 hour and 365 days');
+    }
+    return this.createModuleProposal(walletAddress, 'setPeriodLimit', [
+      walletAddress,
+      normalizedAddress,
+      limit,
+      BigInt(limit > 0n ? period : 0),
+    ]);
+  }
+
+  /**
+   * Propose allowing a function on a whitelisted address (requires multisig approval)
+   *
+   * The first allowed function restricts the address to its allowed functions only.
+   * @param constraints - Replaces any constraints already set for the selector
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeSetAllowedSelector(
+    walletAddress: string,
+    address: string,
+    selector: string,
+    constraints: ParamConstraint[]
+  ): Promise<string> {
+    const normalizedAddress = validateAddress(address);
+    if (!/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+      throw new Error('Selector must be a 4-byte hex value');
+    }
+    if (constraints.length > MAX_CONSTRAINTS) {
+      throw new Error(`At most ${MAX_CONSTRAINTS} parameter constraints are allowed per function`);
+    }
+    for (const constraint of constraints) {
+      if (!Number.isInteger(constraint.index) || constraint.index < 0 || constraint.index > 255) {
+        throw new Error('Constraint parameter index must be between 0 and 255');
+      }
+    }
+    return this.createModuleProposal(walletAddress, 'setAllowedSelector', [
+      walletAddress,
+      normalizedAddress,
+      selector,
+      constraints.map((constraint) => [constraint.index, constraint.condition, constraint.value]),
+    ]);
+  }
+
+  /**
+   * Propose removing an allowed function (requires multisig approval)
+   * @returns Transaction hash for the multisig proposal
+   */
+  async proposeRemoveAllowedSelector(walletAddress: string, address: string, selector: string): Promise<string> {
+    const normalizedAddress = validateAddress(address);
+    return this.createModuleProposal(walletAddress, 'removeAllowedSelector', [walletAddress, normalizedAddress, selector]);
+  }
+
   /**
    * @deprecated Use proposeAddToWhitelist() instead - direct calls now require multisig approval (H-2 fix)
    */
@@ -99,6 +197,54 @@ export class WhitelistModuleService extends BaseModuleService {
     return await module.getWhitelistLimit(walletAddress, address);
   }
 
+  /**
+   * Get a whitelisted address's cumulative limit and spending in the current period
+   * @returns null when no cumulative limit is set
+   */
+  async getPeriodLimit(walletAddress: string, address: string): Promise<RecipientPeriodLimit | null> {
+    const module = this.getModuleContract();
+    const [limit, period, spent, timeUntilReset] = await module.getPeriodLimit(walletAddress, address);
+    if (limit === 0n) {
+      return null;
+    }
+    return { limit, period: Number(period), spent, timeUntilReset: Number(timeUntilReset) };
+  }
+
+  /**
+   * Get the functions a whitelisted address may be called with
+   */
+  async getFunctionPermissions(walletAddress: string, address: string): Promise<FunctionPermissions> {
+    const module = this.getModuleContract();
+    const [restricted, selectors] = await Promise.all([
+      module.selectorRestricted(walletAddress, address),
+      module.getAllowedSelectors(walletAddress, address),
+    ]);
+
+    const functions = await Promise.all(
+      Array.from(selectors as string[], async (selector) => {
+        const constraints = await module.getSelectorConstraints(walletAddress, address, selector);
+        return {
+          selector,
+          constraints: Array.from(constraints, (constraint: { index: bigint; condition: bigint; value: string }) => ({
+            index: Number(constraint.index),
+            condition: Number(constraint.condition) as ParamConditionValue,
+            value: constraint.value,
+          })),
+        };
+      })
+    );
+
+    return { restricted, functions };
+  }
+
+  /**
+   * Check calldata against a whitelisted address's function permissions (ignores value limit)
+   */
+  async isCallAllowed(walletAddress: string, address: string, data: string): Promise<boolean> {
+    const module = this.getModuleContract();
+    return await module.isCallAllowed(walletAddress, address, data || '0x');
+  }
+
   /**
    * Execute a transaction to a whitelisted address without requiring approvals
    */
@@ -123,6 +269,15 @@ export class WhitelistModuleService extends BaseModuleService {
       throw new Error(`Transaction value ${value.toString()} exceeds whitelist limit ${limit.toString()}`);
     }
 
+    const periodLimit = await this.getPeriodLimit(walletAddress, normalizedTo);
+    if (periodLimit && periodLimit.spent + value > periodLimit.limit) {
+      throw new Error(`Transaction value ${value.toString()} exceeds remaining period limit ${(periodLimit.limit - periodLimit.spent).toString()}`);
+    }
+
+    if (!(await this.isCallAllowed(walletAddress, normalizedTo, data))) {
+      throw new Error(`Call to ${normalizedTo} is not allowed by its function permissions`);
+    }
+
     const walletBalance = await this.provider.getBalance(walletAddress);
     if (walletBalance < value) {
       throw new Error(`Insufficient balance: wallet has ${walletBalance.toString()}, trying to send ${value.toString()}`);
@@ -163,11 +318,13 @@ export class WhitelistModuleService extends BaseModuleService {
 
   /**
    * Check if a transaction can be executed via whitelist
+   * @param data - Calldata, checked against the address's allowed functions
    */
   async canExecuteViaWhitelist(
     walletAddress: string,
     to: string,
-    value: bigint
+    value: bigint,
+    data: string = '0x'
   ): Promise<{ canExecute: boolean; reason?: string }> {
     try {
       if (!quais.isAddress(to)) {
@@ -192,6 +349,16 @@ export class WhitelistModuleService extends BaseModuleService {
         return { canExecute: false, reason: `Value exceeds whitelist limit of ${limit.toString()}` };
       }
 
+      const periodLimit = await this.getPeriodLimit(walletAddress, normalizedTo);
+      if (periodLimit && periodLimit.spent + value > periodLimit.limit) {
+        return { canExecute: false, reason: `Value exceeds remaining period limit of ${(periodLimit.limit - periodLimit.spent).toString()}` };
+      }
+
+      const callAllowed = await this.isCallAllowed(walletAddress, normalizedTo, data);
+      if (!callAllowed) {
+        return { canExecute: false, reason: 'Function or parameters not allowed for this address' };
+      }
+
       const walletBalance = await this.provider.getBalance(walletAddress);
       if (walletBalance < value) {
         return { canExecute: false, reason: `Insufficient balance` };
@@ -204,91 +371,20 @@ export class WhitelistModuleService extends BaseModuleService {
   }
 
   /**
-   * Get all whitelisted addresses by querying events
+   * Get all whitelisted addresses with their limits
    */
-  async getWhitelistedAddresses(walletAddress: string): Promise<Array<{ address: string; limit: bigint }>> {
+  async getWhitelistedAddresses(walletAddress: string): Promise<WhitelistEntry[]> {
     const module = this.getModuleContract();
-
-    // Query AddressWhitelisted events
-    const filter = module.filters.AddressWhitelisted(walletAddress);
-    let events: any[] = [];
-
-    try {
-      events = await module.queryFilter(filter, -5000, 'latest');
-    } catch (error: any) {
-      if (error.message?.includes('exceeds maximum limit')) {
-        try {
-          events = await module.queryFilter(filter, -2000, 'latest');
-        } catch {
-          events = [];
-        }
-      }
-    }
-
-    // Query removal events
-    const removalFilter = module.filters.AddressRemovedFromWhitelist(walletAddress);
-    let removalEvents: any[] = [];
-
-    try {
-      removalEvents = await module.queryFilter(removalFilter, -5000, 'latest');
-    } catch (error: any) {
-      if (error.message?.includes('exceeds maximum limit')) {
-        try {
-          removalEvents = await module.queryFilter(removalFilter, -2000, 'latest');
-        } catch {
-          removalEvents = [];
-        }
-      }
-    }
-
-    // Build address map
-    const addressMap = new Map<string, { limit: bigint; blockNumber: number }>();
-    const removedAddresses = new Map<string, number>();
-
-    for (const event of removalEvents) {
-      if (event.args?.addr) {
-        const addr = event.args.addr.toLowerCase();
-        const existing = removedAddresses.get(addr);
-        if (!existing || event.blockNumber > existing) {
-          removedAddresses.set(addr, event.blockNumber);
-        }
-      }
-    }
-
-    for (const event of events) {
-      if (event.args?.addr) {
-        const addr = event.args.addr.toLowerCase();
-        const removalBlock = removedAddresses.get(addr);
-
-        if (!removalBlock || event.blockNumber > removalBlock) {
-          const existing = addressMap.get(addr);
-          if (!existing || event.blockNumber > existing.blockNumber) {
-            addressMap.set(addr, { limit: event.args.limit || 0n, blockNumber: event.blockNumber });
-          }
-        }
-      }
-    }
-
-    // Verify on-chain status
-    const result: Array<{ address: string; limit: bigint }> = [];
-    const verificationPromises: Promise<void>[] = [];
-
-    for (const [address, data] of addressMap.entries()) {
-      const verifyPromise = (async () => {
-        try {
-          const isStillWhitelisted = await this.isWhitelisted(walletAddress, address);
-          if (isStillWhitelisted) {
-            const currentLimit = await this.getWhitelistLimit(walletAddress, address);
-            result.push({ address, limit: currentLimit });
-          }
-        } catch (error) {
-          result.push({ address, limit: data.limit });
-        }
-      })();
-      verificationPromises.push(verifyPromise);
-    }
-
-    await Promise.all(verificationPromises);
-    return result;
+    const addresses: string[] = Array.from(await module.getWhitelistedAddresses(walletAddress));
+
+    return await Promise.all(
+      addresses.map(async (address) => {
+        const [limit, periodLimit] = await Promise.all([
+          this.getWhitelistLimit(walletAddress, address),
+          this.getPeriodLimit(walletAddress, address),
+        ]);
+        return { address, limit, periodLimit };
+      })
+    );
   }
 }
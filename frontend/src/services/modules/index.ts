@@ -1,4 +1,14 @@
 export { WhitelistModuleService } from './WhitelistModuleService';
 export { DailyLimitModuleService } from './DailyLimitModuleService';
 export { SocialRecoveryModuleService } from './SocialRecoveryModuleService';
+export { DelayModuleService } from './DelayModuleService';
+export { RolesModuleService, ROLE_PROPOSER, ROLE_APPROVER, ROLE_EXECUTOR } from './RolesModuleService';
+export { InheritanceModuleService, CLAIM_TYPE, MIN_INACTIVITY_PERIOD_DAYS } from './InheritanceModuleService';
+export { RecurringPaymentsService } from './RecurringPaymentsService';
+export { VestingModuleService } from './VestingModuleService';
 export type { RecoveryConfig, Recovery, PendingRecovery } from './SocialRecoveryModuleService';
+export type { QueuedTransaction, PendingQueuedTransaction } from './DelayModuleService';
+export type { RoleMember } from './RolesModuleService';
+export type { InheritanceConfig, Claim, PendingClaim } from './InheritanceModuleService';
+export type { RecurringSchedule, RecurringScheduleWithId } from './RecurringPaymentsService';
+export type { VestingGrant, VestingGrantWithId } from './VestingModuleService';
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
+import * as quais from 'quais';
 import {
   isUserRejection,
   decodeErrorData,
+  decodeRevertReason,
   extractErrorMessage,
   formatTransactionError,
   checkReceiptStatus,
@@ -10,6 +12,13 @@ import {
   TransactionErrors,
 } from './TransactionErrorHandler';
 
+// quais is mocked globally; stub the ABI decoder for revert payloads
+const mockAbiDecode = (result: unknown[]) => {
+  vi.mocked(quais.AbiCoder.defaultAbiCoder).mockReturnValueOnce({
+    decode: vi.fn().mockReturnValue(result),
+  } as any);
+};
+
 describe('TransactionErrorHandler', () => {
   describe('isUserRejection', () => {
     it('should return true for ACTION_REJECTED code', () => {
@@ -118,6 +127,100 @@ describe('TransactionErrorHandler', () => {
       const result = decodeErrorData(mockContract, '0xshort');
       expect(result).toBeNull();
     });
+
+    it('should decode the inner revert of TransactionExecutionFailed', () => {
+      mockAbiDecode(['Insufficient balance']);
+      const inner = '0x08c379a0' + '00'.repeat(64);
+      const mockContract = {
+        interface: {
+          parseError: vi.fn().mockReturnValue({
+            name: 'TransactionExecutionFailed',
+            args: [inner],
+          }),
+        },
+      } as any;
+
+      const result = decodeErrorData(mockContract, '0xwrapped...');
+      expect(result).toBe('Call reverted: Insufficient balance');
+    });
+
+    it('should report a TransactionExecutionFailed without inner data', () => {
+      const mockContract = {
+        interface: {
+          parseError: vi.fn().mockReturnValue({
+            name: 'TransactionExecutionFailed',
+            args: ['0x'],
+          }),
+        },
+      } as any;
+
+      const result = decodeErrorData(mockContract, '0xwrapped...');
+      expect(result).toBe('Call reverted without a reason');
+    });
+  });
+
+  describe('decodeErrorData with BatchCallFailed', () => {
+    it('should decode the failed call index and its inner revert', () => {
+      mockAbiDecode(['Transfer amount exceeds balance']);
+      const inner = '0x08c379a0' + '00'.repeat(64);
+      const mockContract = {
+        interface: {
+          parseError: vi.fn().mockReturnValue({
+            name: 'BatchCallFailed',
+            args: [1n, inner],
+          }),
+        },
+      } as any;
+
+      const result = decodeErrorData(mockContract, '0xwrapped...');
+      expect(result).toBe('Batch call #2 reverted: Transfer amount exceeds balance');
+    });
+
+    it('should report a failed batch call without inner data', () => {
+      const mockContract = {
+        interface: {
+          parseError: vi.fn().mockReturnValue({
+            name: 'BatchCallFailed',
+            args: [0n, '0x'],
+          }),
+        },
+      } as any;
+
+      const result = decodeErrorData(mockContract, '0xwrapped...');
+      expect(result).toBe('Batch call #1 reverted without a reason');
+    });
+  });
+
+  describe('decodeRevertReason', () => {
+    it('should return null for empty revert data', () => {
+      expect(decodeRevertReason('0x')).toBeNull();
+    });
+
+    it('should decode Error(string)', () => {
+      mockAbiDecode(['Not allowed']);
+      const data = '0x08c379a0' + '00'.repeat(64);
+      expect(decodeRevertReason(data)).toBe('Not allowed');
+    });
+
+    it('should decode Panic(uint256)', () => {
+      mockAbiDecode([0x11n]);
+      const data = '0x4e487b71' + '00'.repeat(32);
+      expect(decodeRevertReason(data)).toBe('Panic: arithmetic overflow or underflow');
+    });
+
+    it('should decode custom errors with the contract interface', () => {
+      const mockContract = {
+        interface: {
+          parseError: vi.fn().mockReturnValue({ name: 'NotAnOwner', args: [] }),
+        },
+      } as any;
+
+      expect(decodeRevertReason('0x12345678', mockContract)).toBe('NotAnOwner');
+    });
+
+    it('should report the selector of unknown errors', () => {
+      expect(decodeRevertReason('0xdeadbeef0000')).toBe('Unknown error (selector 0xdeadbeef)');
+    });
   });
 
   describe('extractErrorMessage', () => {
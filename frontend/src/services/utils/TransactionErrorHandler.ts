@@ -6,6 +6,28 @@ import type { Contract } from '../../types';
  * Provides reusable error decoding and messaging for blockchain transactions
  */
 
+/**
+ * Selector of the standard Error(string) revert
+ */
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+/**
+ * Selector of the compiler's Panic(uint256) revert
+ */
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Readable descriptions of Solidity panic codes
+ */
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+};
+
 /**
  * Check if an error indicates user rejection
  */
@@ -36,6 +58,19 @@ export function decodeErrorData(contract: Contract, errorData: string): string |
       if (decoded.name === 'Error' && decoded.args && decoded.args.length > 0) {
         return decoded.args[0].toString();
       }
+      // The wallet wraps the revert data of the failed call
+      if (decoded.name === 'TransactionExecutionFailed' && decoded.args && decoded.args.length > 0) {
+        const reason = decodeRevertReason(decoded.args[0], contract);
+        return reason ? `Call reverted: ${reason}` : 'Call reverted without a reason';
+      }
+      // Batches report which call failed along with its revert data
+      if (decoded.name === 'BatchCallFailed' && decoded.args && decoded.args.length > 1) {
+        const callNumber = Number(decoded.args[0]) + 1;
+        const reason = decodeRevertReason(decoded.args[1], contract);
+        return reason
+          ? `Batch call #${callNumber} reverted: ${reason}`
+          : `Batch call #${callNumber} reverted without a reason`;
+      }
       let message = decoded.name;
       if (decoded.args && decoded.args.length > 0) {
         message += ` - ${decoded.args.map((arg: any) => arg.toString()).join(', ')}`;
@@ -62,6 +97,41 @@ export function decodeErrorData(contract: Contract, errorData: string): string |
   return null;
 }
 
+/**
+ * Decode the revert data returned by a failed call
+ * Handles Error(string), Panic(uint256) and, when a contract is given, its custom errors.
+ * Returns null when the call reverted without data.
+ */
+export function decodeRevertReason(returnData: string, contract?: Contract): string | null {
+  if (!returnData || returnData === '0x') {
+    return null;
+  }
+
+  const selector = returnData.slice(0, 10).toLowerCase();
+  const coder = quais.AbiCoder.defaultAbiCoder();
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      return coder.decode(['string'], '0x' + returnData.slice(10))[0];
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = Number(coder.decode(['uint256'], '0x' + returnData.slice(10))[0]);
+      return `Panic: ${PANIC_REASONS[code] ?? `code 0x${code.toString(16)}`}`;
+    }
+  } catch {
+    // Malformed payload, fall through
+  }
+
+  if (contract) {
+    const decoded = decodeErrorData(contract, returnData);
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  return `Unknown error (selector ${selector})`;
+}
+
 /**
  * Extract error message from various error formats
  */
@@ -125,8 +195,11 @@ export const TransactionErrors = {
   TX_NOT_FOUND: 'Transaction does not exist',
   TX_ALREADY_EXECUTED: 'Transaction has already been executed',
   TX_CANCELLED: 'Transaction has been cancelled',
+  TX_EXPIRED: 'Transaction has expired and can no longer be executed',
   NOT_ENOUGH_APPROVALS: (current: number, required: number) =>
     `Not enough approvals: ${current} / ${required} required`,
+  NOT_ENOUGH_SIGNATURES: (current: number, required: number) =>
+    `Not enough signatures: ${current} / ${required} required`,
   ALREADY_APPROVED: 'You have already approved this transaction',
   NOT_APPROVED: 'You have not approved this transaction',
   SIGNER_NOT_SET: 'Signer not set. Connect wallet first.',
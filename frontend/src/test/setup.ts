@@ -52,6 +52,12 @@ vi.mock('../config/contracts', () => ({
     SOCIAL_RECOVERY_MODULE: '0x3456789012345678901234567890123456789012',
     DAILY_LIMIT_MODULE: '0x4567890123456789012345678901234567890123',
     WHITELIST_MODULE: '0x5678901234567890123456789012345678901234',
+    DELAY_MODULE: '0x6789012345678901234567890123456789012345',
+    ROLES_MODULE: '0x8901234567890123456789012345678901234567',
+    INHERITANCE_MODULE: '0x9012345678901234567890123456789012345678',
+    RECURRING_PAYMENTS_MODULE: '0x0123456789012345678901234567890123456789',
+    VESTING_MODULE: '0x1123456789012345678901234567890123456789',
+    DENYLIST_GUARD: '0x7890123456789012345678901234567890123456',
   },
   NETWORK_CONFIG: {
     RPC_URL: 'https://rpc.test.quai.network',
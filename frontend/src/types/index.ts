@@ -9,6 +9,13 @@ export interface Transaction {
   timestamp: bigint;
 }
 
+/** MultisigWallet.Transaction struct as returned by the transactions() getter */
+export interface TransactionStruct extends Transaction {
+  cancelled: boolean;
+  proposer: string;
+  validUntil: bigint;
+}
+
 export interface TransactionWithHash extends Transaction {
   hash: string;
 }
@@ -18,6 +25,8 @@ export interface WalletInfo {
   owners: string[];
   threshold: number;  // Changed from bigint for JSON serializability
   balance: string;    // Changed from bigint to string for JSON serializability (preserves precision)
+  ownerWeights?: { [owner: string]: number };  // Voting weight per owner (1 for unweighted wallets)
+  totalWeight?: number;  // Sum of owner weights; threshold is compared against this
 }
 
 export interface PendingTransaction {
@@ -26,18 +35,62 @@ export interface PendingTransaction {
   value: string;      // Changed from bigint to string for JSON serializability
   data: string;
   numApprovals: number;  // Changed from bigint for JSON serializability
+  approvalWeight?: number;  // Summed weight of current-owner approvals (equals numApprovals when unweighted)
   threshold: number;     // Changed from bigint for JSON serializability
   executed: boolean;
   cancelled: boolean;
   timestamp: number;     // Changed from bigint for JSON serializability
   proposer: string;      // Address of the transaction proposer
   approvals: { [owner: string]: boolean };
+  formerOwnerApprovals?: string[];  // Removed owners whose approval is still recorded but not counted
+  validUntil?: number;   // Unix seconds after which execution is rejected (unset = no expiry)
+  expired?: boolean;     // True once validUntil has passed without execution
+  memo?: string;         // Description or content hash attached by the proposer
+}
+
+export interface TransactionHistoryPage {
+  transactions: PendingTransaction[];  // Newest first
+  nextOffset: number | null;           // Offset for the next page (null when the index is exhausted)
+  total: number;                       // Number of transactions in the on-chain index
+}
+
+export interface ExecutionFailure {
+  txHash: string;                // Multisig transaction hash
+  returnData: string;            // Raw revert data of the failed call
+  reason: string;                // Decoded revert reason
+  blockNumber: number;           // Block of the failed attempt
+  transactionHash: string;       // On-chain transaction of the failed attempt
+}
+
+export interface NftHolding {
+  tokenAddress: string;          // NFT contract address
+  tokenId: bigint;
+  standard: 'ERC721' | 'ERC1155';
+  balance: bigint;               // Always 1n for ERC-721
+}
+
+export interface TransactionSignature {
+  signer: string;     // Owner address that produced the signature
+  signature: string;  // 65-byte EIP-712 signature (hex)
+  nonce: string;      // Wallet nonce the signature commits to (string for JSON serializability)
 }
 
 export interface DeploymentConfig {
   owners: string[];
   threshold: number;
+  weights?: number[];  // Voting weight per owner, same order as owners (omit for one vote each)
   salt?: string;
+  modules?: ModuleSetupConfig;  // Modules to enable and configure at deployment (requires a salt)
+}
+
+export interface ModuleSetupConfig {
+  dailyLimit?: bigint;                                 // Daily spending limit in wei
+  whitelist?: { address: string; limit: bigint }[];    // Per-address limit in wei (0 = no limit)
+  recovery?: {
+    guardians: string[];
+    threshold: number;
+    recoveryPeriodDays: number;
+  };
 }
 
 export interface TransactionData {
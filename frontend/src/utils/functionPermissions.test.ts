@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// ABI parsing and encoding need the real quais implementation
+vi.mock('quais', async () => await vi.importActual('quais'));
+
+import { parseAbiFunctions, getParamSlots, encodeConstraintValue } from './functionPermissions';
+
+const ROUTER_ABI = [
+  {
+    type: 'function',
+    name: 'swapExactTokensForTokens',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'amountOutMin', type: 'uint256' },
+      { name: 'path', type: 'address[]' },
+      { name: 'to', type: 'address' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'getAmountsOut',
+    stateMutability: 'view',
+    inputs: [{ name: 'amountIn', type: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256[]' }],
+  },
+];
+
+describe('functionPermissions', () => {
+  describe('parseAbiFunctions', () => {
+    it('should return state-changing functions from a JSON ABI', () => {
+      const functions = parseAbiFunctions(JSON.stringify(ROUTER_ABI));
+
+      expect(functions.map((fragment) => fragment.name)).toEqual(['swapExactTokensForTokens']);
+    });
+
+    it('should accept compiler artifacts', () => {
+      const functions = parseAbiFunctions(JSON.stringify({ abi: ROUTER_ABI }));
+
+      expect(functions).toHaveLength(1);
+    });
+
+    it('should accept one human-readable signature per line', () => {
+      const functions = parseAbiFunctions('transfer(address to, uint256 amount)\nfunction approve(address spender, uint256 amount)');
+
+      expect(functions.map((fragment) => fragment.selector)).toEqual(['0xa9059cbb', '0x095ea7b3']);
+    });
+
+    it('should return nothing for empty input', () => {
+      expect(parseAbiFunctions('  ')).toEqual([]);
+    });
+
+    it('should reject JSON without an ABI array', () => {
+      expect(() => parseAbiFunctions('{"name":"Token"}')).toThrow('ABI JSON must be an array');
+    });
+  });
+
+  describe('getParamSlots', () => {
+    it('should count dynamic parameters as one head word and mark them unconstrainable', () => {
+      const [swap] = parseAbiFunctions(JSON.stringify(ROUTER_ABI));
+
+      expect(getParamSlots(swap)).toEqual([
+        { name: 'amountIn', type: 'uint256', index: 0, constrainable: true },
+        { name: 'amountOutMin', type: 'uint256', index: 1, constrainable: true },
+        { name: 'path', type: 'address[]', index: 2, constrainable: false },
+        { name: 'to', type: 'address', index: 3, constrainable: true },
+        { name: 'deadline', type: 'uint256', index: 4, constrainable: true },
+      ]);
+    });
+
+    it('should skip over every word of static tuples and fixed arrays', () => {
+      const [fragment] = parseAbiFunctions('execute((address,uint256) order, uint256[3] amounts, address recipient)');
+
+      expect(getParamSlots(fragment).map((slot) => slot.index)).toEqual([0, 2, 5]);
+    });
+  });
+
+  describe('encodeConstraintValue', () => {
+    it('should left-pad addresses and numbers to a word', () => {
+      expect(encodeConstraintValue('uint256', '1000')).toBe('0x' + (1000).toString(16).padStart(64, '0'));
+      expect(encodeConstraintValue('address', '0x1234567890123456789012345678901234567890')).toBe(
+        '0x0000000000000000000000001234567890123456789012345678901234567890'
+      );
+    });
+
+    it('should encode booleans', () => {
+      expect(encodeConstraintValue('bool', 'true')).toBe('0x' + '1'.padStart(64, '0'));
+      expect(() => encodeConstraintValue('bool', 'yes')).toThrow('Boolean constraints must be "true" or "false"');
+    });
+  });
+});
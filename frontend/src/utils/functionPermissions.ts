@@ -0,0 +1,123 @@
+import * as quais from 'quais';
+
+/**
+ * Helpers for building WhitelistModule function permissions from a contract ABI
+ *
+ * WhitelistModule checks parameter constraints against raw 32-byte calldata words, so only
+ * static elementary parameters (address, bool, uintN, intN, bytesN) can be constrained. A
+ * parameter's word index counts every word before it in the head of the calldata.
+ */
+
+/** Condition values matching WhitelistModule.ParamCondition */
+export const PARAM_CONDITION = {
+  Equal: 0,
+  EqualToWallet: 1,
+  LessOrEqual: 2,
+} as const;
+
+export type ParamConditionValue = typeof PARAM_CONDITION[keyof typeof PARAM_CONDITION];
+
+export interface ParamConstraint {
+  index: number;                  // Calldata word after the selector
+  condition: ParamConditionValue;
+  value: string;                  // 32-byte hex word (zero hash for EqualToWallet)
+}
+
+export interface ParamSlot {
+  name: string;
+  type: string;
+  index: number;          // Calldata word after the selector
+  constrainable: boolean; // Static elementary parameter
+}
+
+/**
+ * Parse a pasted ABI into its state-changing functions
+ * Accepts a JSON ABI array, a compiler artifact with an `abi` field, or one
+ * human-readable signature per line (e.g. "function transfer(address to, uint256 amount)")
+ * @throws If the text is not a valid ABI
+ */
+export function parseAbiFunctions(text: string): quais.FunctionFragment[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  let abi: quais.InterfaceAbi;
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    abi = Array.isArray(parsed) ? parsed : parsed.abi;
+    if (!Array.isArray(abi)) {
+      throw new Error('ABI JSON must be an array or contain an "abi" array');
+    }
+  } else {
+    abi = trimmed
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line !== '')
+      .map((line) => (line.startsWith('function ') ? line : `function ${line}`));
+  }
+
+  const iface = new quais.Interface(abi);
+  return iface.fragments.filter(
+    (fragment): fragment is quais.FunctionFragment =>
+      quais.FunctionFragment.isFragment(fragment) && !fragment.constant
+  );
+}
+
+function isDynamic(param: quais.ParamType): boolean {
+  if (param.baseType === 'string' || param.baseType === 'bytes') {
+    return true;
+  }
+  if (param.isArray()) {
+    return param.arrayLength === -1 || isDynamic(param.arrayChildren);
+  }
+  if (param.isTuple()) {
+    return param.components.some(isDynamic);
+  }
+  return false;
+}
+
+function headWords(param: quais.ParamType): number {
+  if (isDynamic(param)) {
+    return 1; // Offset to the tail
+  }
+  if (param.isArray()) {
+    return param.arrayLength * headWords(param.arrayChildren);
+  }
+  if (param.isTuple()) {
+    return param.components.reduce((total, component) => total + headWords(component), 0);
+  }
+  return 1;
+}
+
+/**
+ * Map each function input to the calldata word a constraint would check
+ */
+export function getParamSlots(fragment: quais.FunctionFragment): ParamSlot[] {
+  let index = 0;
+  return fragment.inputs.map((param, position) => {
+    const slot = {
+      name: param.name || `param${position}`,
+      type: param.type,
+      index,
+      constrainable: !isDynamic(param) && !param.isArray() && !param.isTuple(),
+    };
+    index += headWords(param);
+    return slot;
+  });
+}
+
+/**
+ * ABI-encode a value of a static elementary type as the 32-byte word a constraint compares
+ * @throws If the value does not fit the type
+ */
+export function encodeConstraintValue(type: string, value: string): string {
+  const trimmed = value.trim();
+  if (type === 'bool') {
+    if (trimmed !== 'true' && trimmed !== 'false') {
+      throw new Error('Boolean constraints must be "true" or "false"');
+    }
+    return quais.AbiCoder.defaultAbiCoder().encode([type], [trimmed === 'true']);
+  }
+  return quais.AbiCoder.defaultAbiCoder().encode([type], [trimmed]);
+}
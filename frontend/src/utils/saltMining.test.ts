@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Address prediction needs the real hashing and ABI encoding from quais
+vi.mock('quais', async () => await vi.importActual('quais'));
+
+import * as quais from 'quais';
+import {
+  getProxyInitCodeHash,
+  computeWalletAddress,
+  isAddressInZone,
+  mineSalt,
+} from './saltMining';
+
+const FACTORY = '0x0012345678901234567890123456789012345678';
+const DEPLOYER = '0x0023456789012345678901234567890123456789';
+const IMPLEMENTATION = '0x0034567890123456789012345678901234567890';
+const INIT_DATA = '0x1234';
+
+describe('saltMining', () => {
+  const initCodeHash = getProxyInitCodeHash(IMPLEMENTATION, INIT_DATA);
+
+  describe('computeWalletAddress', () => {
+    it('should follow the CREATE2 formula with the deployer mixed into the salt', () => {
+      const salt = '0x' + '11'.repeat(32);
+      const fullSalt = quais.solidityPackedKeccak256(['address', 'bytes32'], [DEPLOYER, salt]);
+      const hash = quais.keccak256(quais.concat(['0xff', FACTORY, fullSalt, initCodeHash]));
+
+      const address = computeWalletAddress(FACTORY, DEPLOYER, salt, initCodeHash);
+
+      expect(address.toLowerCase()).toBe('0x' + hash.slice(-40));
+    });
+
+    it('should change with the init data', () => {
+      const salt = '0x' + '11'.repeat(32);
+      const otherHash = getProxyInitCodeHash(IMPLEMENTATION, '0x5678');
+
+      expect(computeWalletAddress(FACTORY, DEPLOYER, salt, initCodeHash)).not.toBe(
+        computeWalletAddress(FACTORY, DEPLOYER, salt, otherHash)
+      );
+    });
+  });
+
+  describe('isAddressInZone', () => {
+    it('should require the zone prefix and the Quai ledger', () => {
+      expect(isAddressInZone('0x0012345678901234567890123456789012345678', '0x00')).toBe(true);
+      expect(isAddressInZone('0x0112345678901234567890123456789012345678', '0x00')).toBe(false);
+      expect(isAddressInZone('0x0092345678901234567890123456789012345678', '0x00')).toBe(false);
+    });
+  });
+
+  describe('mineSalt', () => {
+    it('should find a salt whose address lands in the zone', () => {
+      const result = mineSalt({ factory: FACTORY, deployer: DEPLOYER, initCodeHash, zone: '0x01' });
+
+      expect(isAddressInZone(result.address, '0x01')).toBe(true);
+      expect(computeWalletAddress(FACTORY, DEPLOYER, result.salt, initCodeHash)).toBe(result.address);
+    });
+
+    it('should be deterministic for a given start salt', () => {
+      const options = { factory: FACTORY, deployer: DEPLOYER, initCodeHash, zone: '0x00', startSalt: '0x' + '00'.repeat(32) };
+
+      expect(mineSalt(options)).toEqual(mineSalt(options));
+    });
+
+    it('should throw when no salt matches within maxAttempts', () => {
+      expect(() =>
+        mineSalt({ factory: FACTORY, deployer: DEPLOYER, initCodeHash, zone: '0x99', maxAttempts: 10 })
+      ).toThrow('No salt found for zone 0x99 after 10 attempts');
+    });
+  });
+});
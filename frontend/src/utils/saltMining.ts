@@ -0,0 +1,89 @@
+import * as quais from 'quais';
+import MultisigWalletProxyABI from '../config/abi/MultisigWalletProxy.json';
+
+/**
+ * CREATE2 address prediction and salt mining for ProxyFactory wallets
+ *
+ * Quai Network only accepts a contract address that lies in the creating contract's zone
+ * (first address byte, e.g. 0x00 for cyprus1) and in the Quai ledger (high bit of the second
+ * byte clear). Roughly 1 in 512 salts qualifies, so we grind salts off-chain until the
+ * predicted address fits, then pass that salt to ProxyFactory.createWallet.
+ */
+
+/** Default number of salts to try before giving up (expected attempts are ~512) */
+export const DEFAULT_MAX_SALT_ATTEMPTS = 100_000;
+
+export interface MinedSalt {
+  salt: string;     // 32-byte salt to pass to the factory
+  address: string;  // Address the wallet will be deployed at
+  attempts: number; // Salts tried before a match was found
+}
+
+export interface MineSaltOptions {
+  factory: string;       // ProxyFactory address (the CREATE2 deployer)
+  deployer: string;      // Account that will call createWallet (mixed into the salt by the factory)
+  initCodeHash: string;  // From getProxyInitCodeHash
+  zone: string;          // Target zone prefix, e.g. '0x00'
+  startSalt?: string;    // First salt to try (random when omitted)
+  maxAttempts?: number;
+}
+
+/**
+ * Hash of the proxy creation code plus its constructor arguments
+ * @param implementation - MultisigWallet implementation the proxy points at
+ * @param initData - Encoded initialize / initializeWithWeights call
+ */
+export function getProxyInitCodeHash(implementation: string, initData: string): string {
+  const constructorArgs = quais.AbiCoder.defaultAbiCoder().encode(
+    ['address', 'bytes'],
+    [implementation, initData]
+  );
+  return quais.keccak256(quais.concat([MultisigWalletProxyABI.bytecode, constructorArgs]));
+}
+
+/**
+ * Predict the address ProxyFactory deploys a wallet to (mirrors ProxyFactory.computeAddress)
+ */
+export function computeWalletAddress(
+  factory: string,
+  deployer: string,
+  salt: string,
+  initCodeHash: string
+): string {
+  const fullSalt = quais.solidityPackedKeccak256(['address', 'bytes32'], [deployer, salt]);
+  return quais.getCreate2Address(factory, fullSalt, initCodeHash);
+}
+
+/**
+ * Check whether an address can hold a contract created in the given zone
+ */
+export function isAddressInZone(address: string, zone: string): boolean {
+  return address.slice(0, 4).toLowerCase() === zone.toLowerCase() && quais.isQuaiAddress(address);
+}
+
+/**
+ * Grind salts until the predicted wallet address lands in the target zone
+ * @throws If no matching salt is found within maxAttempts
+ */
+export function mineSalt({
+  factory,
+  deployer,
+  initCodeHash,
+  zone,
+  startSalt,
+  maxAttempts = DEFAULT_MAX_SALT_ATTEMPTS,
+}: MineSaltOptions): MinedSalt {
+  let candidate = BigInt(startSalt ?? quais.hexlify(quais.randomBytes(32)));
+  const maxSalt = (1n << 256n) - 1n;
+
+  for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+    const salt = quais.toBeHex(candidate, 32);
+    const address = computeWalletAddress(factory, deployer, salt, initCodeHash);
+    if (isAddressInZone(address, zone)) {
+      return { salt, address, attempts };
+    }
+    candidate = candidate === maxSalt ? 0n : candidate + 1n;
+  }
+
+  throw new Error(`No salt found for zone ${zone} after ${maxAttempts} attempts`);
+}
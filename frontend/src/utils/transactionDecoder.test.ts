@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Calldata encoding and decoding need the real quais implementation
+vi.mock('quais', async () => await vi.importActual('quais'));
+
+import * as quais from 'quais';
+import { decodeTransaction } from './transactionDecoder';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import VestingModuleABI from '../config/abi/VestingModule.json';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+const BENEFICIARY = '0xabcdef0123456789abcdef0123456789abcdef01';
+const TOKEN = '0x9876543210987654321098765432109876543210';
+const DAY = 24 * 60 * 60;
+
+const vestingInterface = new quais.Interface(VestingModuleABI.abi);
+
+function vestingCall(functionName: string, args: unknown[]) {
+  return {
+    to: CONTRACT_ADDRESSES.VESTING_MODULE,
+    value: '0',
+    data: vestingInterface.encodeFunctionData(functionName, args),
+  };
+}
+
+describe('decodeTransaction', () => {
+  describe('vesting module calls', () => {
+    it('should decode a linear QUAI grant with a cliff', () => {
+      const tx = vestingCall('createVesting', [
+        WALLET, BENEFICIARY, quais.ZeroAddress, quais.parseQuai('100'), 0, 90 * DAY, 365 * DAY,
+      ]);
+
+      const decoded = decodeTransaction(tx, WALLET);
+
+      expect(decoded.type).toBe('createVesting');
+      expect(decoded.details).toBe('100.0000 QUAI to 0xabCD...EF01 over 365 days with a 90 days cliff');
+    });
+
+    it('should decode a cliff-only token grant', () => {
+      const tx = vestingCall('createVesting', [WALLET, BENEFICIARY, TOKEN, 5000n, 0, 30 * DAY, 30 * DAY]);
+
+      const decoded = decodeTransaction(tx, WALLET);
+
+      expect(decoded.type).toBe('createVesting');
+      expect(decoded.details).toBe('5000 units of 0x9876...3210 to 0xabCD...EF01 unlocking after 30 days');
+    });
+
+    it('should decode a revocation', () => {
+      const grantId = '0x' + '44'.repeat(32);
+
+      const decoded = decodeTransaction(vestingCall('revokeVesting', [WALLET, grantId]), WALLET);
+
+      expect(decoded.type).toBe('revokeVesting');
+      expect(decoded.description).toBe('Revoke Vesting Grant');
+    });
+
+    it('should fall back to a contract call for other module functions', () => {
+      const decoded = decodeTransaction(vestingCall('claim', [WALLET, '0x' + '44'.repeat(32)]), WALLET);
+
+      expect(decoded.type).toBe('contractCall');
+    });
+  });
+});
@@ -1,16 +1,35 @@
 import * as quais from 'quais';
 import MultisigWalletABI from '../config/abi/MultisigWallet.json';
+import VestingModuleABI from '../config/abi/VestingModule.json';
+import { CONTRACT_ADDRESSES } from '../config/contracts';
+import { formatTimePeriod } from './blockTime';
 
 export interface DecodedTransaction {
-  type: 'transfer' | 'addOwner' | 'removeOwner' | 'changeThreshold' | 'contractCall';
+  type: 'transfer' | 'addOwner' | 'removeOwner' | 'swapOwner' | 'changeThreshold' | 'setGuard' | 'upgradeTo' | 'batch' | 'nftTransfer' | 'createVesting' | 'revokeVesting' | 'contractCall';
   description: string;
   details?: string;
   icon: string;
   bgColor: string;
   borderColor: string;
   textColor: string;
+  subCalls?: DecodedSubCall[];
 }
 
+export interface DecodedSubCall {
+  to: string;
+  value: string;
+  data: string;
+  decoded: DecodedTransaction;
+}
+
+// ERC-721 and ERC-1155 transfer functions, for decoding NFT transfers out of the vault
+const NFT_TRANSFER_ABI = [
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function transferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+];
+
 function formatAddress(addr: string): string {
   return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
 }
@@ -75,6 +94,19 @@ export function decodeTransaction(
             textColor: 'text-red-200',
           };
         }
+        case 'swapOwner': {
+          const oldOwner = decoded.args[0] as string;
+          const newOwner = decoded.args[1] as string;
+          return {
+            type: 'swapOwner',
+            description: 'Replace Owner',
+            details: `Replace ${formatAddress(oldOwner)} with ${formatAddress(newOwner)}`,
+            icon: '🔄',
+            bgColor: 'bg-yellow-900',
+            borderColor: 'border-yellow-700',
+            textColor: 'text-yellow-200',
+          };
+        }
         case 'changeThreshold': {
           const newThreshold = decoded.args[0] as bigint;
           return {
@@ -87,6 +119,49 @@ export function decodeTransaction(
             textColor: 'text-blue-200',
           };
         }
+        case 'setGuard': {
+          const guardAddress = decoded.args[0] as string;
+          const removing = guardAddress === quais.ZeroAddress;
+          return {
+            type: 'setGuard',
+            description: removing ? 'Remove Guard' : 'Set Guard',
+            details: removing ? 'Remove the active transaction guard' : `Set ${formatAddress(guardAddress)} as guard`,
+            icon: '🛡️',
+            bgColor: 'bg-yellow-900',
+            borderColor: 'border-yellow-700',
+            textColor: 'text-yellow-200',
+          };
+        }
+        case 'upgradeTo': {
+          const implementation = decoded.args[0] as string;
+          return {
+            type: 'upgradeTo',
+            description: 'Upgrade Vault',
+            details: `Upgrade vault implementation to ${formatAddress(implementation)}`,
+            icon: '⬆️',
+            bgColor: 'bg-yellow-900',
+            borderColor: 'border-yellow-700',
+            textColor: 'text-yellow-200',
+          };
+        }
+        case 'multiSend': {
+          const calls = decoded.args[0] as Array<{ to: string; value: bigint; data: string }>;
+          const subCalls = calls.map(call => {
+            const subTx = { to: call.to, value: call.value.toString(), data: call.data };
+            return { ...subTx, decoded: decodeTransaction(subTx, walletAddress) };
+          });
+          const total = calls.reduce((sum, call) => sum + BigInt(call.value), 0n);
+          return {
+            type: 'batch',
+            description: 'Batch Transaction',
+            details: `${calls.length} call${calls.length === 1 ? '' : 's'}, ${parseFloat(quais.formatQuai(total)).toFixed(4)} QUAI total`,
+            icon: '📦',
+            bgColor: 'bg-purple-900',
+            borderColor: 'border-purple-700',
+            textColor: 'text-purple-200',
+            subCalls,
+          };
+        }
         default:
           return {
             type: 'contractCall',
@@ -112,6 +187,35 @@ export function decodeTransaction(
     }
   }
 
+  // Vesting module configuration
+  if (CONTRACT_ADDRESSES.VESTING_MODULE && tx.to.toLowerCase() === CONTRACT_ADDRESSES.VESTING_MODULE.toLowerCase()) {
+    const decoded = decodeVestingCall(tx.data);
+    if (decoded) return decoded;
+  }
+
+  // NFT transfer
+  try {
+    const decoded = new quais.Interface(NFT_TRANSFER_ABI).parseTransaction({ data: tx.data });
+    if (decoded) {
+      const recipient = decoded.args[1] as string;
+      const tokenId = decoded.args[2] as bigint;
+      const isMultiToken = decoded.fragment.inputs.length === 5;
+      return {
+        type: 'nftTransfer',
+        description: 'Transfer NFT',
+        details: isMultiToken
+          ? `${decoded.args[3]} × #${tokenId} to ${formatAddress(recipient)}`
+          : `#${tokenId} to ${formatAddress(recipient)}`,
+        icon: '🖼️',
+        bgColor: 'bg-primary-900',
+        borderColor: 'border-primary-700',
+        textColor: 'text-primary-200',
+      };
+    }
+  } catch {
+    // Not an NFT transfer
+  }
+
   // External contract call
   return {
     type: 'contractCall',
@@ -123,3 +227,53 @@ export function decodeTransaction(
     textColor: 'text-dark-900',
   };
 }
+
+function decodeVestingCall(data: string): DecodedTransaction | null {
+  try {
+    const decoded = new quais.Interface(VestingModuleABI.abi).parseTransaction({ data });
+    if (!decoded) return null;
+
+    switch (decoded.name) {
+      case 'createVesting': {
+        const beneficiary = decoded.args[1] as string;
+        const token = decoded.args[2] as string;
+        const amount = decoded.args[3] as bigint;
+        const cliffDuration = decoded.args[5] as bigint;
+        const duration = decoded.args[6] as bigint;
+        // Token decimals are not available synchronously, so ERC-20 amounts are shown in base units
+        const formattedAmount = token === quais.ZeroAddress
+          ? `${parseFloat(quais.formatQuai(amount)).toFixed(4)} QUAI`
+          : `${amount.toString()} units of ${formatAddress(token)}`;
+        const schedule = cliffDuration === duration
+          ? `unlocking after ${formatTimePeriod(Number(duration) * 1000)}`
+          : `over ${formatTimePeriod(Number(duration) * 1000)}${cliffDuration > 0n ? ` with a ${formatTimePeriod(Number(cliffDuration) * 1000)} cliff` : ''}`;
+        return {
+          type: 'createVesting',
+          description: 'Create Vesting Grant',
+          details: `${formattedAmount} to ${formatAddress(beneficiary)} ${schedule}`,
+          icon: '⏳',
+          bgColor: 'bg-green-900',
+          borderColor: 'border-green-700',
+          textColor: 'text-green-200',
+        };
+      }
+      case 'revokeVesting': {
+        const grantId = decoded.args[1] as string;
+        return {
+          type: 'revokeVesting',
+          description: 'Revoke Vesting Grant',
+          details: `Revoke unvested amount of grant ${grantId.slice(0, 10)}...`,
+          icon: '✂️',
+          bgColor: 'bg-red-900',
+          borderColor: 'border-red-700',
+          textColor: 'text-red-200',
+        };
+      }
+      default:
+        return null;
+    }
+  } catch {
+    // Not a vesting module call
+    return null;
+  }
+}